@@ -0,0 +1,70 @@
+import { Check, Settings2, UserRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuLabel,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { getHostLabel } from "@/lib/git-host/service";
+import type { GitHost } from "@/lib/git-host/types";
+import { usePrContext } from "@/lib/pr-context";
+
+type AccountSwitcherProps = {
+    host?: GitHost;
+    onManageAccounts?: () => void;
+};
+
+export function AccountSwitcher({ host: hostProp, onManageAccounts }: AccountSwitcherProps) {
+    const { activeHost, accountsByHost, activeAccountByHost, switchAccount } = usePrContext();
+    const host = hostProp ?? activeHost;
+    const accounts = accountsByHost[host];
+    const activeAccountId = activeAccountByHost[host];
+    const activeAccount = accounts.find((account) => account.id === activeAccountId);
+
+    // Hosts with only the default account have nothing to switch between.
+    if (accounts.length < 2) return null;
+
+    return (
+        <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+                <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 max-w-32 gap-1.5 px-2 text-[12px] text-muted-foreground hover:text-foreground"
+                    aria-label={`Switch ${getHostLabel(host)} account`}
+                    title={`Switch ${getHostLabel(host)} account`}
+                >
+                    <UserRound className="size-3.5 shrink-0" />
+                    <span className="truncate">{activeAccount?.label ?? activeAccountId}</span>
+                </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start" sideOffset={4} className="w-56 p-1">
+                <DropdownMenuLabel>{`${getHostLabel(host)} Accounts`}</DropdownMenuLabel>
+                {accounts.map((account) => (
+                    <DropdownMenuItem
+                        key={account.id}
+                        className="cursor-pointer py-1.5 text-[12px] flex items-center gap-2"
+                        onSelect={() => void switchAccount(host, account.id)}
+                    >
+                        <UserRound className="size-3.5 text-muted-foreground" />
+                        <span className="flex-1 truncate text-left">{account.label}</span>
+                        {account.id === activeAccountId ? <Check className="size-3 text-accent-foreground" /> : null}
+                    </DropdownMenuItem>
+                ))}
+                {onManageAccounts ? (
+                    <>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem className="cursor-pointer py-1.5 text-[12px] flex items-center gap-2" onSelect={() => onManageAccounts()}>
+                            <Settings2 className="size-3.5 text-muted-foreground" />
+                            <span className="flex-1 text-left">Manage accounts</span>
+                        </DropdownMenuItem>
+                    </>
+                ) : null}
+            </DropdownMenuContent>
+        </DropdownMenu>
+    );
+}
@@ -3,24 +3,32 @@ import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { startBitbucketOAuth } from "@/lib/bitbucket-oauth";
 import { getHostLabel } from "@/lib/git-host/service";
 import type { GitHost } from "@/lib/git-host/types";
+import { type OAuthProvider, startOAuth } from "@/lib/oauth";
 import { usePrContext } from "@/lib/pr-context";
 
 type HostAuthFormMode = "onboarding" | "panel" | "inline";
 
-function useHostAuthFormState({ host, onSuccess }: { host: GitHost; onSuccess?: () => void }) {
+function useHostAuthFormState({ host, instance, onSuccess }: { host: GitHost; instance?: string; onSuccess?: () => void }) {
     const { login } = usePrContext();
     const [email, setEmail] = useState("");
     const [apiToken, setApiToken] = useState("");
     const [githubToken, setGithubToken] = useState("");
+    const [gitlabToken, setGitlabToken] = useState("");
+    const [gitlabBaseUrl, setGitlabBaseUrl] = useState("");
+    const [githubInstance, setGithubInstance] = useState(instance ?? "");
+    const [bitbucketDataCenterUrl, setBitbucketDataCenterUrl] = useState("");
     const [copiedScopes, setCopiedScopes] = useState(false);
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [isOAuthStarting, setIsOAuthStarting] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
     const isBitbucket = host === "bitbucket";
+    const isGitlab = host === "gitlab";
+    const isBitbucketDataCenter = isBitbucket && bitbucketDataCenterUrl.trim().length > 0;
+    // The worker only brokers OAuth for bitbucket.org and github.com; Enterprise Server instances keep using tokens.
+    const oauthProvider: OAuthProvider | null = isBitbucket ? "bitbucket" : host === "github" && !instance ? "github" : null;
     const bitbucketScopeText = [
         "read:workspace:bitbucket",
         "read:repository:bitbucket",
@@ -32,13 +40,20 @@ function useHostAuthFormState({ host, onSuccess }: { host: GitHost; onSuccess?:
         setError(null);
         setIsSubmitting(true);
 
-        const promise = isBitbucket ? login({ host: "bitbucket", email, apiToken }) : login({ host: "github", token: githubToken });
+        const promise = isBitbucketDataCenter
+            ? login({ host: "bitbucket", token: apiToken, baseUrl: bitbucketDataCenterUrl })
+            : isBitbucket
+              ? login({ host: "bitbucket", email, apiToken })
+              : isGitlab
+                ? login({ host: "gitlab", token: gitlabToken, baseUrl: gitlabBaseUrl })
+                : login({ host: "github", token: githubToken, instance: githubInstance });
 
         await promise
             .then(() => {
                 setEmail("");
                 setApiToken("");
                 setGithubToken("");
+                setGitlabToken("");
                 onSuccess?.();
             })
             .catch((err) => {
@@ -48,21 +63,29 @@ function useHostAuthFormState({ host, onSuccess }: { host: GitHost; onSuccess?:
     };
 
     const authenticateWithOAuth = () => {
+        if (!oauthProvider) return;
         setError(null);
         setIsOAuthStarting(true);
         try {
-            startBitbucketOAuth();
+            startOAuth(oauthProvider);
         } catch (err) {
             setIsOAuthStarting(false);
-            setError(err instanceof Error ? err.message : "Failed to start Bitbucket OAuth");
+            setError(err instanceof Error ? err.message : `Failed to start ${getHostLabel(host)} OAuth`);
         }
     };
 
     return {
         isBitbucket,
+        isBitbucketDataCenter,
+        isGitlab,
+        oauthProvider,
         email,
         apiToken,
         githubToken,
+        gitlabToken,
+        gitlabBaseUrl,
+        githubInstance,
+        bitbucketDataCenterUrl,
         copiedScopes,
         isSubmitting,
         isOAuthStarting,
@@ -71,18 +94,39 @@ function useHostAuthFormState({ host, onSuccess }: { host: GitHost; onSuccess?:
         setEmail,
         setApiToken,
         setGithubToken,
+        setGitlabToken,
+        setGitlabBaseUrl,
+        setGithubInstance,
+        setBitbucketDataCenterUrl,
         setCopiedScopes,
         authenticate,
         authenticateWithOAuth,
     };
 }
 
-export function HostAuthForm({ host, mode = "panel", onSuccess }: { host: GitHost; mode?: HostAuthFormMode; onSuccess?: () => void }) {
+export function HostAuthForm({
+    host,
+    instance,
+    mode = "panel",
+    onSuccess,
+}: {
+    host: GitHost;
+    instance?: string;
+    mode?: HostAuthFormMode;
+    onSuccess?: () => void;
+}) {
     const {
         isBitbucket,
+        isBitbucketDataCenter,
+        isGitlab,
+        oauthProvider,
         email,
         apiToken,
         githubToken,
+        gitlabToken,
+        gitlabBaseUrl,
+        githubInstance,
+        bitbucketDataCenterUrl,
         copiedScopes,
         isSubmitting,
         isOAuthStarting,
@@ -91,13 +135,30 @@ export function HostAuthForm({ host, mode = "panel", onSuccess }: { host: GitHos
         setEmail,
         setApiToken,
         setGithubToken,
+        setGitlabToken,
+        setGitlabBaseUrl,
+        setGithubInstance,
+        setBitbucketDataCenterUrl,
         setCopiedScopes,
         authenticate,
         authenticateWithOAuth,
-    } = useHostAuthFormState({ host, onSuccess });
+    } = useHostAuthFormState({ host, instance, onSuccess });
     const ctaLabel = mode === "inline" ? "Authenticate" : `Connect ${getHostLabel(host)}`;
     const isOnboarding = mode === "onboarding";
     const fieldClassName = isOnboarding ? "h-10 rounded-md bg-surface-1 text-[13px]" : "rounded-md";
+    const gitlabTokenUrl = `${gitlabBaseUrl.trim().replace(/\/+$/, "") || "https://gitlab.com"}/-/user_settings/personal_access_tokens?name=pullrequest.review&scopes=api`;
+    const githubTokenUrl = `https://${
+        githubInstance
+            .trim()
+            .replace(/^https?:\/\//i, "")
+            .replace(/\/+$/, "") || "github.com"
+    }/settings/personal-access-tokens/new`;
+    const bitbucketDataCenterTokenUrl = `${bitbucketDataCenterUrl.trim().replace(/\/+$/, "")}/plugins/servlet/access-tokens/manage`;
+    const hasToken = isBitbucketDataCenter
+        ? Boolean(apiToken.trim())
+        : isBitbucket
+          ? Boolean(email.trim() && apiToken.trim())
+          : Boolean((isGitlab ? gitlabToken : githubToken).trim());
 
     return (
         <form className="space-y-4" action={authenticate}>
@@ -106,15 +167,23 @@ export function HostAuthForm({ host, mode = "panel", onSuccess }: { host: GitHos
                     <p className="text-[13px] text-muted-foreground">
                         {isBitbucket
                             ? "Continue with Bitbucket OAuth, or use an email and API token."
-                            : "Use a GitHub fine-grained personal access token to continue."}
+                            : isGitlab
+                              ? "Use a GitLab personal access token with the api scope to continue."
+                              : oauthProvider
+                                ? "Continue with GitHub OAuth, or use a fine-grained personal access token."
+                                : "Use a GitHub fine-grained personal access token to continue."}
                     </p>
                     <p className="text-[11px] text-muted-foreground">
-                        {isBitbucket ? "OAuth uses your existing Bitbucket access across workspaces." : "Create a token, paste it below, and continue."}
+                        {isBitbucket
+                            ? "OAuth uses your existing Bitbucket access across workspaces."
+                            : isGitlab
+                              ? "Leave the instance URL empty for gitlab.com, or enter your self-managed GitLab URL."
+                              : "Create a token, paste it below, and continue."}
                     </p>
                 </div>
 
                 <div className="mt-4 space-y-3">
-                    {isBitbucket ? (
+                    {oauthProvider ? (
                         <>
                             <Button
                                 type="button"
@@ -122,11 +191,13 @@ export function HostAuthForm({ host, mode = "panel", onSuccess }: { host: GitHos
                                 disabled={isSubmitting || isOAuthStarting}
                                 onClick={authenticateWithOAuth}
                             >
-                                {isOAuthStarting ? "Opening Bitbucket..." : "Continue with Bitbucket OAuth"}
+                                {isOAuthStarting ? `Opening ${getHostLabel(host)}...` : `Continue with ${getHostLabel(host)} OAuth`}
                             </Button>
                             <div className="flex items-center gap-3" aria-hidden="true">
                                 <div className="h-px flex-1 bg-border-muted" />
-                                <span className="text-[10px] uppercase tracking-wider text-muted-foreground">or use an API token</span>
+                                <span className="text-[10px] uppercase tracking-wider text-muted-foreground">
+                                    {isBitbucket ? "or use an API token" : "or use a personal access token"}
+                                </span>
                                 <div className="h-px flex-1 bg-border-muted" />
                             </div>
                         </>
@@ -134,21 +205,31 @@ export function HostAuthForm({ host, mode = "panel", onSuccess }: { host: GitHos
 
                     <Button
                         type="button"
-                        variant={isBitbucket || !isOnboarding ? "outline" : "default"}
+                        variant={oauthProvider || !isOnboarding ? "outline" : "default"}
                         className="h-9 w-full rounded-md justify-center"
                         disabled={isOAuthStarting}
                         onClick={() =>
                             window.open(
-                                isBitbucket
-                                    ? "https://id.atlassian.com/manage-profile/security/api-tokens"
-                                    : "https://github.com/settings/personal-access-tokens/new",
+                                isBitbucketDataCenter
+                                    ? bitbucketDataCenterTokenUrl
+                                    : isBitbucket
+                                      ? "https://id.atlassian.com/manage-profile/security/api-tokens"
+                                      : isGitlab
+                                        ? gitlabTokenUrl
+                                        : githubTokenUrl,
                                 "_blank",
                                 "noopener,noreferrer",
                             )
                         }
                     >
                         <ExternalLink className="size-3.5" />
-                        {isBitbucket ? "Create Atlassian Bitbucket Scoped API Token" : "Create GitHub Fine-Grained Token"}
+                        {isBitbucketDataCenter
+                            ? "Create Bitbucket Data Center HTTP Access Token"
+                            : isBitbucket
+                              ? "Create Atlassian Bitbucket Scoped API Token"
+                              : isGitlab
+                                ? "Create GitLab Personal Access Token"
+                                : "Create GitHub Fine-Grained Token"}
                     </Button>
 
                     {isBitbucket ? (
@@ -181,42 +262,99 @@ export function HostAuthForm({ host, mode = "panel", onSuccess }: { host: GitHos
                     {isBitbucket ? (
                         <div className="grid gap-3">
                             <div className="space-y-1.5">
-                                <Label className="text-[12px] text-muted-foreground">Bitbucket Email</Label>
+                                <Label className="text-[12px] text-muted-foreground">Bitbucket Data Center URL</Label>
                                 <Input
-                                    type="email"
-                                    value={email}
-                                    onChange={(event) => setEmail(event.target.value)}
-                                    placeholder="name@example.com"
-                                    autoComplete="email"
+                                    type="url"
+                                    value={bitbucketDataCenterUrl}
+                                    onChange={(event) => setBitbucketDataCenterUrl(event.target.value)}
+                                    placeholder="Leave empty for bitbucket.org"
+                                    autoComplete="url"
                                     className={fieldClassName}
                                     disabled={isSubmitting || isOAuthStarting}
                                 />
                             </div>
+                            {isBitbucketDataCenter ? null : (
+                                <div className="space-y-1.5">
+                                    <Label className="text-[12px] text-muted-foreground">Bitbucket Email</Label>
+                                    <Input
+                                        type="email"
+                                        value={email}
+                                        onChange={(event) => setEmail(event.target.value)}
+                                        placeholder="name@example.com"
+                                        autoComplete="email"
+                                        className={fieldClassName}
+                                        disabled={isSubmitting || isOAuthStarting}
+                                    />
+                                </div>
+                            )}
                             <div className="space-y-1.5">
-                                <Label className="text-[12px] text-muted-foreground">Scoped API Token</Label>
+                                <Label className="text-[12px] text-muted-foreground">{isBitbucketDataCenter ? "HTTP Access Token" : "Scoped API Token"}</Label>
                                 <Input
                                     type="password"
                                     value={apiToken}
                                     onChange={(event) => setApiToken(event.target.value)}
-                                    placeholder="Paste your Bitbucket API token"
+                                    placeholder={
+                                        isBitbucketDataCenter ? "Paste your Bitbucket Data Center HTTP access token" : "Paste your Bitbucket API token"
+                                    }
                                     autoComplete="current-password"
                                     className={fieldClassName}
                                     disabled={isSubmitting || isOAuthStarting}
                                 />
                             </div>
                         </div>
+                    ) : isGitlab ? (
+                        <div className="grid gap-3">
+                            <div className="space-y-1.5">
+                                <Label className="text-[12px] text-muted-foreground">GitLab Instance URL</Label>
+                                <Input
+                                    type="url"
+                                    value={gitlabBaseUrl}
+                                    onChange={(event) => setGitlabBaseUrl(event.target.value)}
+                                    placeholder="https://gitlab.com"
+                                    autoComplete="url"
+                                    className={fieldClassName}
+                                    disabled={isSubmitting}
+                                />
+                            </div>
+                            <div className="space-y-1.5">
+                                <Label className="text-[12px] text-muted-foreground">GitLab Token</Label>
+                                <Input
+                                    type="password"
+                                    value={gitlabToken}
+                                    onChange={(event) => setGitlabToken(event.target.value)}
+                                    placeholder="Paste your GitLab personal access token"
+                                    autoComplete="current-password"
+                                    className={fieldClassName}
+                                    disabled={isSubmitting}
+                                />
+                            </div>
+                        </div>
                     ) : (
-                        <div className="space-y-1.5">
-                            <Label className="text-[12px] text-muted-foreground">GitHub Token</Label>
-                            <Input
-                                type="password"
-                                value={githubToken}
-                                onChange={(event) => setGithubToken(event.target.value)}
-                                placeholder="Paste your GitHub fine-grained token"
-                                autoComplete="current-password"
-                                className={fieldClassName}
-                                disabled={isSubmitting}
-                            />
+                        <div className="grid gap-3">
+                            <div className="space-y-1.5">
+                                <Label className="text-[12px] text-muted-foreground">GitHub Enterprise Server Host</Label>
+                                <Input
+                                    type="text"
+                                    value={githubInstance}
+                                    onChange={(event) => setGithubInstance(event.target.value)}
+                                    placeholder="Leave empty for github.com"
+                                    autoComplete="url"
+                                    className={fieldClassName}
+                                    disabled={isSubmitting || isOAuthStarting}
+                                />
+                            </div>
+                            <div className="space-y-1.5">
+                                <Label className="text-[12px] text-muted-foreground">GitHub Token</Label>
+                                <Input
+                                    type="password"
+                                    value={githubToken}
+                                    onChange={(event) => setGithubToken(event.target.value)}
+                                    placeholder="Paste your GitHub fine-grained token"
+                                    autoComplete="current-password"
+                                    className={fieldClassName}
+                                    disabled={isSubmitting || isOAuthStarting}
+                                />
+                            </div>
                         </div>
                     )}
                 </div>
@@ -225,7 +363,7 @@ export function HostAuthForm({ host, mode = "panel", onSuccess }: { host: GitHos
             <Button
                 type="submit"
                 className={isOnboarding ? "h-10 w-full rounded-md text-[13px]" : "w-full rounded-md"}
-                disabled={isSubmitting || isOAuthStarting || (isBitbucket ? !email.trim() || !apiToken.trim() : !githubToken.trim())}
+                disabled={isSubmitting || isOAuthStarting || !hasToken}
             >
                 {isSubmitting ? "Authenticating..." : ctaLabel}
             </Button>
@@ -0,0 +1,70 @@
+import { SmilePlus } from "lucide-react";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { COMMENT_REACTION_EMOJI } from "@/lib/git-host/reactions";
+import type { CommentReactionContent, Comment as PullRequestComment } from "@/lib/git-host/types";
+import { cn } from "@/lib/utils";
+
+export type ReactionActions = {
+    contents: CommentReactionContent[];
+    canReact: boolean;
+    disabledReason?: string;
+    onToggle: (comment: PullRequestComment, content: CommentReactionContent, reacted: boolean) => void;
+};
+
+export function CommentReactionBar({ comment, reactionActions }: { comment: PullRequestComment; reactionActions: ReactionActions }) {
+    const reactions = comment.reactions ?? [];
+    const canAdd = reactionActions.canReact && reactionActions.contents.length > 0;
+    if (reactions.length === 0 && !canAdd) return null;
+
+    const isToggleable = (content: CommentReactionContent) => reactionActions.canReact && reactionActions.contents.includes(content);
+    const viewerReacted = (content: CommentReactionContent) => Boolean(reactions.find((reaction) => reaction.content === content)?.viewerReacted);
+
+    return (
+        <div className="mt-1.5 flex flex-wrap items-center gap-1">
+            {reactions.map((reaction) => (
+                <button
+                    key={reaction.content}
+                    type="button"
+                    className={cn(
+                        "inline-flex h-6 items-center gap-1 rounded-full border px-2 text-[12px] tabular-nums transition-colors disabled:cursor-default",
+                        reaction.viewerReacted
+                            ? "border-accent/45 bg-accent/10 text-accent"
+                            : "border-comment-border bg-comment-muted text-muted-foreground enabled:hover:text-foreground",
+                    )}
+                    disabled={!isToggleable(reaction.content)}
+                    title={isToggleable(reaction.content) ? undefined : reactionActions.disabledReason}
+                    aria-pressed={Boolean(reaction.viewerReacted)}
+                    onClick={() => reactionActions.onToggle(comment, reaction.content, !reaction.viewerReacted)}
+                >
+                    <span aria-hidden>{COMMENT_REACTION_EMOJI[reaction.content]}</span>
+                    {reaction.count}
+                </button>
+            ))}
+            {canAdd ? (
+                <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                        <button
+                            type="button"
+                            className="inline-flex h-6 items-center justify-center rounded-full border border-comment-border px-1.5 text-muted-foreground transition-colors hover:text-foreground"
+                            aria-label="Add reaction"
+                        >
+                            <SmilePlus className="size-3.5" />
+                        </button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="start" className="flex min-w-0 gap-0.5">
+                        {reactionActions.contents.map((content) => (
+                            <DropdownMenuItem
+                                key={content}
+                                className={cn("cursor-pointer px-1.5 text-[15px] focus:bg-surface-hover", viewerReacted(content) && "bg-accent/10")}
+                                aria-label={content}
+                                onSelect={() => reactionActions.onToggle(comment, content, !viewerReacted(content))}
+                            >
+                                {COMMENT_REACTION_EMOJI[content]}
+                            </DropdownMenuItem>
+                        ))}
+                    </DropdownMenuContent>
+                </DropdownMenu>
+            ) : null}
+        </div>
+    );
+}
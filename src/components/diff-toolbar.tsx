@@ -1,11 +1,15 @@
 import {
+    Archive,
+    ArrowRightLeft,
     BetweenHorizontalStart,
+    Braces,
     Expand,
     FoldVertical,
     Hash,
     ImageOff,
     Rows3,
     Ruler,
+    Space,
     SquareSplitVertical,
     TextCursorInput,
     Type,
@@ -14,6 +18,7 @@ import {
     WrapText,
 } from "lucide-react";
 import { type ComponentType, useMemo } from "react";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { NumberStepperInput } from "@/components/ui/number-stepper-input";
 import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectSeparator, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -72,11 +77,21 @@ function OptionSelect<K extends keyof DiffOptions>({
     );
 }
 
-function OptionSwitch({ label, icon: Icon, optionKey }: { label: string; icon: IconComponent; optionKey: BooleanOptionKey }) {
+function OptionSwitch({
+    label,
+    icon: Icon,
+    optionKey,
+    disabled = false,
+}: {
+    label: string;
+    icon: IconComponent;
+    optionKey: BooleanOptionKey;
+    disabled?: boolean;
+}) {
     const { options, setOption } = useDiffOptions();
     return (
         <div className="flex items-center gap-2">
-            <Switch id={optionKey} checked={options[optionKey]} onCheckedChange={(v) => setOption(optionKey, v)} size="sm" />
+            <Switch id={optionKey} checked={options[optionKey]} onCheckedChange={(v) => setOption(optionKey, v)} size="sm" disabled={disabled} />
             <Label htmlFor={optionKey} className="text-[12px] whitespace-nowrap text-muted-foreground inline-flex items-center gap-1.5">
                 <Icon className="size-3.5" />
                 {label}
@@ -204,6 +219,7 @@ export function DiffToolbar() {
                 <OptionSelect label="Hunk Separators" icon={Rows3} optionKey="hunkSeparators" values={["simple", "metadata", "line-info"]} />
                 <OptionSelect label="Inline Diff" icon={WholeWord} optionKey="lineDiffType" values={["word-alt", "word", "char", "none"]} />
                 <OptionSelect label="Line Overflow" icon={WrapText} optionKey="overflow" values={["scroll", "wrap"]} />
+                <OptionSelect label="Ignore Whitespace" icon={Space} optionKey="ignoreWhitespace" values={["none", "trailing", "all", "blank-lines"]} />
                 <OptionNumber label="Expansion Lines" icon={Expand} optionKey="expansionLineCount" min={1} max={200} />
             </div>
 
@@ -211,9 +227,29 @@ export function DiffToolbar() {
                 <OptionSwitch label="Disable Background" icon={ImageOff} optionKey="disableBackground" />
                 <OptionSwitch label="Expand Unchanged" icon={UnfoldVertical} optionKey="expandUnchanged" />
                 <OptionSwitch label="Hide Line Numbers" icon={Hash} optionKey="disableLineNumbers" />
+                <OptionSwitch label="Structural Diff" icon={Braces} optionKey="structuralDiff" />
+                <OptionSwitch label="Hide Formatting Changes" icon={Braces} optionKey="hideFormattingChanges" disabled={!options.structuralDiff} />
+                <OptionSwitch label="Hide Exact Moves" icon={ArrowRightLeft} optionKey="hideExactMoves" />
                 <OptionSwitch label="Auto Mark Files as Viewed" icon={FoldVertical} optionKey="autoMarkViewedFiles" />
                 <OptionSwitch label="Fold Viewed Files By Default" icon={FoldVertical} optionKey="collapseViewedFilesByDefault" />
             </div>
+            {options.structuralDiff ? (
+                <p className="text-[11px] text-muted-foreground">
+                    Structural Diff splits each line with a simple tokenizer, not a language grammar. Whitespace changes inside multi-line strings, comments and
+                    template literals can be labelled as formatting, so Hide Formatting Changes only collapses JSON files, where whitespace never matters.
+                </p>
+            ) : null}
+
+            <div className="space-y-1">
+                <SettingLabel label="Generated File Patterns" icon={Archive} htmlFor="generated-file-patterns" />
+                <Input
+                    id="generated-file-patterns"
+                    value={options.generatedFilePatterns}
+                    onChange={(event) => setOption("generatedFilePatterns", event.target.value)}
+                    placeholder="e.g. api/schema/**, *.pb.ts, !docs/vendor/"
+                    className="h-9 text-[12px] font-mono"
+                />
+            </div>
         </div>
     );
 }
@@ -14,6 +14,22 @@ export function GitHostIcon({ host, className }: { host: GitHost; className?: st
         );
     }
 
+    if (host === "gitlab") {
+        return (
+            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" aria-hidden="true" role="img" className={cn("size-3.5", className)}>
+                <title>GitLab</title>
+                <path
+                    d="m23.6 9.593-.033-.086L20.3.98a.851.851 0 0 0-.336-.405.875.875 0 0 0-1 .054.875.875 0 0 0-.29.44L16.47 7.818H7.537L5.332 1.07a.857.857 0 0 0-.29-.441.875.875 0 0 0-1-.054.859.859 0 0 0-.336.405L.433 9.502l-.032.086a6.066 6.066 0 0 0 2.012 7.01l.011.009.03.021 4.976 3.727 2.462 1.863 1.5 1.132a1.008 1.008 0 0 0 1.22 0l1.499-1.132 2.461-1.863 5.006-3.75.013-.01a6.068 6.068 0 0 0 2.01-7.002z"
+                    fill="var(--host-gitlab-accent)"
+                />
+                <path
+                    d="m23.6 9.593-.033-.086a11.043 11.043 0 0 0-4.397 1.976L12 16.905l4.565 3.451 5.006-3.75.013-.01a6.068 6.068 0 0 0 2.01-7.003z"
+                    fill="var(--host-gitlab)"
+                />
+            </svg>
+        );
+    }
+
     return (
         <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 128 128" aria-hidden="true" role="img" className={cn("size-3.5", className)}>
             <title>Bitbucket</title>
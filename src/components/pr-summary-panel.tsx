@@ -21,9 +21,11 @@ import {
 import { type ReactNode, useEffect, useMemo, useReducer, useState } from "react";
 import { CommentEditor } from "@/components/comment-editor";
 import { CommentMarkdown } from "@/components/comment-markdown";
+import type { ReactionActions } from "@/components/comment-reaction-bar";
 import { CommentShareButton } from "@/components/comment-share-button";
+import type { DiffLineStats } from "@/components/pull-request-review/review-formatters";
 import { ThreadCard } from "@/components/pull-request-review/review-thread-card";
-import { buildCommentThreads, type CommentThread, flattenThread } from "@/components/pull-request-review/review-threads";
+import { buildCommentThreads, type CommentThread, flattenThread, type OrphanedCommentThread } from "@/components/pull-request-review/review-threads";
 import { RepositoryFileIcon } from "@/components/repository-file-icon";
 import { Timestamp } from "@/components/timestamp";
 import { Button } from "@/components/ui/button";
@@ -1269,6 +1271,7 @@ function CommentThreadTimelineItem({
     resolveCommentPending,
     deleteCommentPending,
     updateCommentPending,
+    reactionActions,
     onSelectComment,
     onDeleteComment,
     onResolveThread,
@@ -1286,6 +1289,7 @@ function CommentThreadTimelineItem({
     resolveCommentPending?: boolean;
     deleteCommentPending?: boolean;
     updateCommentPending?: boolean;
+    reactionActions?: ReactionActions;
     onSelectComment?: (payload: { path: string; line?: number; side?: "additions" | "deletions"; commentId?: number }) => void;
     onDeleteComment?: (commentId: number, hasInlineContext: boolean) => void;
     onResolveThread?: (commentId: number, resolve: boolean) => void;
@@ -1309,6 +1313,7 @@ function CommentThreadTimelineItem({
                     thread={thread}
                     attachToDiffEdge={false}
                     showCommentShareLinks={false}
+                    reactionActions={reactionActions}
                     header={
                         path || diffSnippet ? (
                             <>
@@ -1358,15 +1363,17 @@ export function PullRequestSummaryPanel({
     updateCommentPending,
     updateDescriptionPending,
     canEditDescription,
+    reactionActions,
     onDeleteComment,
     onResolveThread,
     onReplyToThread,
     onEditComment,
     onEditDescription,
+    orphanedThreads = [],
 }: {
     bundle: PullRequestBundle;
     headerTitle?: string;
-    diffStats?: { added: number; removed: number };
+    diffStats?: DiffLineStats;
     headerRight?: ReactNode;
     footerRight?: ReactNode;
     currentUserDisplayName?: string;
@@ -1379,16 +1386,20 @@ export function PullRequestSummaryPanel({
     updateCommentPending?: boolean;
     updateDescriptionPending?: boolean;
     canEditDescription?: boolean;
+    reactionActions?: ReactionActions;
     onDeleteComment?: (commentId: number, hasInlineContext: boolean) => void;
     onResolveThread?: (commentId: number, resolve: boolean) => void;
     onReplyToThread?: ReplyCommentHandler;
     onEditComment?: EditCommentHandler;
     onEditDescription?: (description: string) => Promise<unknown> | undefined;
+    /** Outdated threads whose line was removed by a later commit; listed separately instead of in the timeline. */
+    orphanedThreads?: OrphanedCommentThread[];
 }) {
     const { pr, commits, history, prRef } = bundle;
     const diffByPath = useMemo(() => buildDiffByPath(bundle.diff), [bundle.diff]);
     const baseHistory: PullRequestHistoryEvent[] = history ?? [];
-    const summaryCommentThreads = buildCommentThreads(bundle.comments).filter((thread) => !thread.root.comment.deleted);
+    const orphanedThreadIds = new Set(orphanedThreads.map(({ thread }) => thread.id));
+    const summaryCommentThreads = buildCommentThreads(bundle.comments).filter((thread) => !thread.root.comment.deleted && !orphanedThreadIds.has(thread.id));
     const commentById = new Map(bundle.comments.map((comment) => [comment.id, comment] as const));
     const commentHistoryById = new Map<number, PullRequestHistoryEvent>();
     for (const event of baseHistory) {
@@ -1468,6 +1479,11 @@ export function PullRequestSummaryPanel({
                         <div className="ml-auto shrink-0 font-mono text-[11px]">
                             <span className="text-status-added">+{diffStats.added}</span>
                             <span className="ml-2 text-status-removed">-{diffStats.removed}</span>
+                            {diffStats.generated.files > 0 ? (
+                                <span className="ml-2 text-muted-foreground" title="Generated and vendored files">
+                                    +{diffStats.generated.added} -{diffStats.generated.removed} in {diffStats.generated.files} generated
+                                </span>
+                            ) : null}
                         </div>
                     ) : null}
                     {headerRight ? <div className="shrink-0">{headerRight}</div> : null}
@@ -1514,6 +1530,7 @@ export function PullRequestSummaryPanel({
                                     resolveCommentPending={resolveCommentPending}
                                     deleteCommentPending={deleteCommentPending}
                                     updateCommentPending={updateCommentPending}
+                                    reactionActions={reactionActions}
                                     onSelectComment={onSelectComment}
                                     onDeleteComment={onDeleteComment}
                                     onResolveThread={onResolveThread}
@@ -1547,6 +1564,47 @@ export function PullRequestSummaryPanel({
                         );
                     })}
                 </div>
+                {orphanedThreads.length > 0 ? (
+                    <div className="mt-4 px-1" data-component="summary-orphaned-threads">
+                        <div className="mb-2 text-[12px] text-muted-foreground">Orphaned threads · lines removed by later commits</div>
+                        {orphanedThreads.map(({ thread, anchor }) => {
+                            const path = thread.root.comment.inline?.path;
+                            const snippet = anchor.snippet;
+                            return (
+                                <CommentThreadTimelineItem
+                                    key={thread.id}
+                                    showConnectorAbove={false}
+                                    showConnectorBelow={false}
+                                    thread={thread}
+                                    diffSnippet={
+                                        path && snippet
+                                            ? findCommentDiffSnippet(new Map([[path, snippet.fileDiff]]), {
+                                                  id: thread.root.comment.id,
+                                                  path,
+                                                  line: snippet.line,
+                                                  side: snippet.side,
+                                                  isInline: true,
+                                              })
+                                            : undefined
+                                    }
+                                    currentUserDisplayName={currentUserDisplayName}
+                                    canCommentInline={canCommentInline}
+                                    canResolveThread={canResolveThread}
+                                    createCommentPending={createCommentPending}
+                                    resolveCommentPending={resolveCommentPending}
+                                    deleteCommentPending={deleteCommentPending}
+                                    updateCommentPending={updateCommentPending}
+                                    reactionActions={reactionActions}
+                                    onSelectComment={onSelectComment}
+                                    onDeleteComment={onDeleteComment}
+                                    onResolveThread={onResolveThread}
+                                    onReplyToThread={onReplyToThread}
+                                    onEditComment={onEditComment}
+                                />
+                            );
+                        })}
+                    </div>
+                ) : null}
                 {footerRight ? <div className="mt-3 pt-3">{footerRight}</div> : null}
             </div>
         </div>
@@ -0,0 +1,236 @@
+import type { FileDiffMetadata } from "@pierre/diffs/react";
+import { AlertTriangle, Loader2 } from "lucide-react";
+import { type ReactNode, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { type BinaryPreviewKind, type FileBytesSide, formatByteSize, imageMimeType, sha256Hex } from "@/lib/binary-file";
+import { cn } from "@/lib/utils";
+
+type LoadedFile = {
+    bytes: Uint8Array<ArrayBuffer>;
+    hash: string;
+};
+
+type BinaryFilesState = { status: "loading" } | { status: "error"; error: string } | { status: "ready"; before: LoadedFile | null; after: LoadedFile | null };
+
+type ImageCompareMode = "side-by-side" | "swipe" | "onion-skin";
+
+const IMAGE_COMPARE_MODES: Array<{ value: ImageCompareMode; label: string }> = [
+    { value: "side-by-side", label: "2-up" },
+    { value: "swipe", label: "Swipe" },
+    { value: "onion-skin", label: "Onion skin" },
+];
+
+const CHECKERBOARD_STYLE = {
+    backgroundImage: "conic-gradient(var(--surface-hover) 25%, transparent 0 50%, var(--surface-hover) 0 75%, transparent 0)",
+    backgroundSize: "16px 16px",
+};
+
+function ToggleGroup<T extends string>({ value, options, onChange }: { value: T; options: Array<{ value: T; label: string }>; onChange: (value: T) => void }) {
+    return (
+        <div className="flex items-center gap-1">
+            {options.map((option) => (
+                <Button
+                    key={option.value}
+                    type="button"
+                    variant={value === option.value ? "secondary" : "ghost"}
+                    size="sm"
+                    className="h-7 px-2 text-[12px]"
+                    onClick={() => onChange(option.value)}
+                >
+                    {option.label}
+                </Button>
+            ))}
+        </div>
+    );
+}
+
+function useObjectUrl(file: LoadedFile | null, mimeType: string) {
+    const [url, setUrl] = useState<string | null>(null);
+    useEffect(() => {
+        if (!file) {
+            setUrl(null);
+            return;
+        }
+        const nextUrl = URL.createObjectURL(new Blob([file.bytes], { type: mimeType }));
+        setUrl(nextUrl);
+        return () => URL.revokeObjectURL(nextUrl);
+    }, [file, mimeType]);
+    return url;
+}
+
+function ImagePane({ label, url, file, tone }: { label: string; url: string | null; file: LoadedFile | null; tone: "removed" | "added" }) {
+    const [dimensions, setDimensions] = useState<string | null>(null);
+    return (
+        <figure className="min-w-0 flex-1 space-y-1.5">
+            <figcaption className={cn("text-[11px] font-mono", tone === "removed" ? "text-status-removed" : "text-status-added")}>
+                {label}
+                {file ? (
+                    <span className="ml-2 text-muted-foreground">{[dimensions, formatByteSize(file.bytes.byteLength)].filter(Boolean).join(" · ")}</span>
+                ) : null}
+            </figcaption>
+            <div className="flex min-h-24 items-center justify-center border border-border p-2" style={CHECKERBOARD_STYLE}>
+                {url ? (
+                    <img
+                        src={url}
+                        alt={label}
+                        className="max-h-[480px] max-w-full object-contain"
+                        onLoad={(event) => setDimensions(`${event.currentTarget.naturalWidth} × ${event.currentTarget.naturalHeight}`)}
+                    />
+                ) : (
+                    <span className="text-[12px] text-muted-foreground">No file</span>
+                )}
+            </div>
+        </figure>
+    );
+}
+
+function ImageComparison({ path, before, after }: { path: string; before: LoadedFile | null; after: LoadedFile | null }) {
+    const mimeType = imageMimeType(path);
+    const beforeUrl = useObjectUrl(before, mimeType);
+    const afterUrl = useObjectUrl(after, mimeType);
+    const [mode, setMode] = useState<ImageCompareMode>("side-by-side");
+    const [position, setPosition] = useState(50);
+    // Swipe and onion skin need both versions; added and deleted images only get the 2-up view.
+    const canOverlay = Boolean(beforeUrl && afterUrl);
+    const effectiveMode = canOverlay ? mode : "side-by-side";
+
+    return (
+        <div className="space-y-2">
+            {canOverlay ? <ToggleGroup value={effectiveMode} options={IMAGE_COMPARE_MODES} onChange={setMode} /> : null}
+            {effectiveMode === "side-by-side" ? (
+                <div className="flex flex-col gap-3 md:flex-row">
+                    {before ? <ImagePane label="Before" url={beforeUrl} file={before} tone="removed" /> : null}
+                    {after ? <ImagePane label="After" url={afterUrl} file={after} tone="added" /> : null}
+                </div>
+            ) : (
+                <div className="space-y-2">
+                    <div className="relative flex items-center justify-center border border-border p-2" style={CHECKERBOARD_STYLE}>
+                        <img src={afterUrl ?? undefined} alt="After" className="max-h-[480px] max-w-full object-contain" />
+                        <img
+                            src={beforeUrl ?? undefined}
+                            alt="Before"
+                            className="absolute inset-2 m-auto max-h-[480px] max-w-[calc(100%-1rem)] object-contain"
+                            style={effectiveMode === "swipe" ? { clipPath: `inset(0 ${100 - position}% 0 0)` } : { opacity: (100 - position) / 100 }}
+                        />
+                    </div>
+                    <label className="flex items-center gap-2 text-[11px] text-muted-foreground">
+                        <span className="text-status-removed">Before</span>
+                        <input
+                            type="range"
+                            min={0}
+                            max={100}
+                            value={position}
+                            onChange={(event) => setPosition(Number(event.target.value))}
+                            className="min-w-0 flex-1"
+                            aria-label={effectiveMode === "swipe" ? "Swipe position" : "Opacity"}
+                        />
+                        <span className="text-status-added">After</span>
+                    </label>
+                </div>
+            )}
+        </div>
+    );
+}
+
+function BinarySummary({ before, after }: { before: LoadedFile | null; after: LoadedFile | null }) {
+    const rows = [
+        { label: "Before", file: before, tone: "text-status-removed" },
+        { label: "After", file: after, tone: "text-status-added" },
+    ];
+    return (
+        <div className="space-y-1.5 text-[12px]">
+            <div className="text-muted-foreground">Binary file {before && after && before.hash === after.hash ? "unchanged" : "changed"}</div>
+            <table className="font-mono text-[11px]">
+                <tbody>
+                    {rows.map((row) => (
+                        <tr key={row.label}>
+                            <td className={cn("pr-3", row.tone)}>{row.label}</td>
+                            <td className="pr-3 text-right">{row.file ? formatByteSize(row.file.bytes.byteLength) : "—"}</td>
+                            <td className="text-muted-foreground" title={row.file?.hash}>
+                                {row.file ? `sha256:${row.file.hash.slice(0, 16)}` : "not present"}
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+}
+
+async function loadFile(fileDiff: FileDiffMetadata, side: FileBytesSide, onLoadFileBytes: BinaryFileDiffProps["onLoadFileBytes"]) {
+    const bytes = await onLoadFileBytes(fileDiff, side);
+    return { bytes, hash: await sha256Hex(bytes) };
+}
+
+type BinaryFileDiffProps = {
+    path: string;
+    kind: BinaryPreviewKind;
+    fileDiff: FileDiffMetadata;
+    onLoadFileBytes: (fileDiff: FileDiffMetadata, side: FileBytesSide) => Promise<Uint8Array<ArrayBuffer>>;
+    /** Text diff shown by the SVG source toggle. */
+    sourceDiff?: ReactNode;
+};
+
+export function BinaryFileDiff({ path, kind, fileDiff, onLoadFileBytes, sourceDiff }: BinaryFileDiffProps) {
+    const [state, setState] = useState<BinaryFilesState>({ status: "loading" });
+    const [svgView, setSvgView] = useState<"rendered" | "source">("rendered");
+    const showSource = kind === "svg" && svgView === "source";
+
+    useEffect(() => {
+        if (showSource) return;
+        let cancelled = false;
+        setState({ status: "loading" });
+        void (async () => {
+            try {
+                const [before, after] = await Promise.all([
+                    fileDiff.type === "new" ? null : loadFile(fileDiff, "deletions", onLoadFileBytes),
+                    fileDiff.type === "deleted" ? null : loadFile(fileDiff, "additions", onLoadFileBytes),
+                ]);
+                if (!cancelled) setState({ status: "ready", before, after });
+            } catch (error) {
+                if (!cancelled) setState({ status: "error", error: error instanceof Error ? error.message : "Unable to load file contents." });
+            }
+        })();
+        return () => {
+            cancelled = true;
+        };
+    }, [fileDiff, onLoadFileBytes, showSource]);
+
+    return (
+        <div className="w-full min-w-0 space-y-2" data-component="binary-file-diff">
+            {kind === "svg" ? (
+                <div className="px-3 pt-2">
+                    <ToggleGroup
+                        value={svgView}
+                        options={[
+                            { value: "rendered", label: "Rendered" },
+                            { value: "source", label: "Source" },
+                        ]}
+                        onChange={setSvgView}
+                    />
+                </div>
+            ) : null}
+            {showSource ? (
+                sourceDiff
+            ) : (
+                <div className="px-3 pb-3 pt-1">
+                    {state.status === "loading" ? (
+                        <div className="flex items-center gap-2 text-[12px] text-muted-foreground">
+                            <Loader2 className="size-3.5 animate-spin" />
+                            Loading file contents…
+                        </div>
+                    ) : state.status === "error" ? (
+                        <div className="flex items-center gap-2 text-[12px] text-status-removed">
+                            <AlertTriangle className="size-3.5" />
+                            {state.error}
+                        </div>
+                    ) : kind === "binary" ? (
+                        <BinarySummary before={state.before} after={state.after} />
+                    ) : (
+                        <ImageComparison path={path} before={state.before} after={state.after} />
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
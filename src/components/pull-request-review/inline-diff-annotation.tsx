@@ -1,15 +1,24 @@
-import { Loader2, SendHorizontal, X } from "lucide-react";
-import { useState } from "react";
+import { ArrowRightLeft, Braces, ListPlus, Loader2, PencilLine, Replace, SendHorizontal, X } from "lucide-react";
+import { useReducer, useState } from "react";
 import { CommentEditor } from "@/components/comment-editor";
+import type { ReactionActions } from "@/components/comment-reaction-bar";
 import type { SingleFileAnnotation } from "@/components/pull-request-review/review-page-model";
 import { ThreadCard } from "@/components/pull-request-review/review-thread-card";
 import type { InlineCommentDraft } from "@/components/pull-request-review/use-inline-comment-drafts";
 import { inlineDraftStorageKey } from "@/components/pull-request-review/use-inline-drafts";
+import type { SuggestionActions } from "@/components/pull-request-review/use-suggestion-batch";
 import { Button } from "@/components/ui/button";
+import { diffLineAnchorId } from "@/lib/file-anchors";
 
 const COMMENT_PRIMARY_BUTTON_CLASS =
     "rounded-md border border-accent/45 bg-accent/10 text-accent gap-1.5 px-3 hover:bg-accent/12 hover:border-accent/70 hover:text-accent focus-visible:outline-none focus-visible:ring-0 focus-visible:ring-offset-0 focus-visible:shadow-none";
 
+const STRUCTURAL_LABEL_ICONS = {
+    moved: ArrowRightLeft,
+    renamed: Replace,
+    formatting: Braces,
+};
+
 type InlineDiffAnnotationProps = {
     annotation: SingleFileAnnotation;
     allowNestedReplies: boolean;
@@ -18,20 +27,25 @@ type InlineDiffAnnotationProps = {
     pullRequestId: string;
     createCommentPending: boolean;
     canCommentInline: boolean;
+    canBatchReview: boolean;
+    hasPendingReview: boolean;
     canResolveThread: boolean;
     resolveCommentPending: boolean;
     deleteCommentPending: boolean;
     updateCommentPending: boolean;
-    getInlineDraftContent: (draft: Pick<InlineCommentDraft, "path" | "line" | "side">) => string;
-    setInlineDraftContent: (draft: Pick<InlineCommentDraft, "path" | "line" | "side">, content: string) => void;
-    onSubmitInlineComment: () => Promise<unknown> | undefined;
+    suggestionActions?: SuggestionActions;
+    reactionActions?: ReactionActions;
+    getInlineDraftContent: (draft: InlineCommentDraft) => string;
+    setInlineDraftContent: (draft: InlineCommentDraft, content: string) => void;
+    onSubmitInlineComment: (options?: { pending?: boolean }) => Promise<unknown> | undefined;
     onInlineDraftReady: (focus: () => void) => void;
-    onCancelInlineDraft: (draft: Pick<InlineCommentDraft, "path" | "line" | "side">) => void;
+    onCancelInlineDraft: (draft: InlineCommentDraft) => void;
     currentUserDisplayName?: string;
     onDeleteComment: (commentId: number, hasInlineContext: boolean) => void;
     onResolveThread: (commentId: number, resolve: boolean) => void;
     onReplyToThread: (commentId: number, content: string) => Promise<unknown> | undefined;
     onEditComment: (commentId: number, content: string, hasInlineContext: boolean) => Promise<unknown> | undefined;
+    onNavigateToLine: (target: { path: string; line: number; side: "additions" | "deletions" }) => void;
 };
 
 export function InlineDiffAnnotation({
@@ -42,10 +56,14 @@ export function InlineDiffAnnotation({
     pullRequestId,
     createCommentPending,
     canCommentInline,
+    canBatchReview,
+    hasPendingReview,
     canResolveThread,
     resolveCommentPending,
     deleteCommentPending,
     updateCommentPending,
+    suggestionActions,
+    reactionActions,
     getInlineDraftContent,
     setInlineDraftContent,
     onSubmitInlineComment,
@@ -56,16 +74,43 @@ export function InlineDiffAnnotation({
     onResolveThread,
     onReplyToThread,
     onEditComment,
+    onNavigateToLine,
 }: InlineDiffAnnotationProps) {
     const [localSubmitting, setLocalSubmitting] = useState(false);
+    // Draft content lives in the drafts collection; re-render after writing to it outside the editor.
+    const [, refreshDraftContent] = useReducer((revision: number) => revision + 1, 0);
     const metadata = annotation.metadata;
     if (!metadata) return null;
+    if (metadata.kind === "structural") {
+        const { label } = metadata;
+        const Icon = STRUCTURAL_LABEL_ICONS[label.kind];
+        const target = label.target;
+        return (
+            <div
+                id={diffLineAnchorId(metadata.path, label.side, label.lineNumber)}
+                className="flex items-center gap-1.5 px-2 py-0.5 text-[11px] text-muted-foreground"
+            >
+                <Icon className="size-3" />
+                {target ? (
+                    <button
+                        type="button"
+                        className="underline-offset-2 hover:text-foreground hover:underline"
+                        onClick={() => onNavigateToLine({ path: target.path, line: target.lineNumber, side: target.side })}
+                    >
+                        {label.label}
+                    </button>
+                ) : (
+                    label.label
+                )}
+            </div>
+        );
+    }
 
     const isDraft = metadata.kind === "draft";
     const isSavingDraft = createCommentPending || localSubmitting;
-    const handleSubmitInlineComment = async () => {
+    const handleSubmitInlineComment = async (pending = false) => {
         if (isSavingDraft || !canCommentInline) return;
-        const result = onSubmitInlineComment();
+        const result = onSubmitInlineComment({ pending });
         if (!result) return;
         setLocalSubmitting(true);
         try {
@@ -77,30 +122,72 @@ export function InlineDiffAnnotation({
         }
     };
 
+    const draftRange = isDraft && metadata.draft.startLine !== undefined ? { start: metadata.draft.startLine, end: metadata.draft.line } : null;
+    const insertSuggestion = (template: string) => {
+        if (!isDraft) return;
+        const current = getInlineDraftContent(metadata.draft).trimEnd();
+        setInlineDraftContent(metadata.draft, current ? `${current}\n\n${template}` : template);
+        refreshDraftContent();
+    };
+
     return (
         <div className={isDraft ? "px-2 py-1.5 bg-comment" : "-ml-px bg-comment"}>
             {isDraft ? (
                 <div className="space-y-2">
+                    {draftRange ? (
+                        <div className="text-[11px] text-muted-foreground">
+                            {metadata.draft.startSide
+                                ? `Commenting from removed line ${draftRange.start} to line ${draftRange.end}`
+                                : `Commenting on ${metadata.draft.side === "deletions" ? "removed " : ""}lines ${draftRange.start}–${draftRange.end}`}
+                        </div>
+                    ) : null}
                     <CommentEditor
                         key={inlineDraftStorageKey(workspace, repo, pullRequestId, metadata.draft)}
                         value={getInlineDraftContent(metadata.draft)}
-                        placeholder="Add a line comment"
+                        placeholder={draftRange ? "Add a comment on these lines" : "Add a line comment"}
                         disabled={isSavingDraft || !canCommentInline}
                         onReady={onInlineDraftReady}
                         onChange={(nextValue) => setInlineDraftContent(metadata.draft, nextValue)}
-                        onSubmit={handleSubmitInlineComment}
+                        onSubmit={() => handleSubmitInlineComment(canBatchReview && hasPendingReview)}
                     />
                     <div className="flex items-center gap-2 pt-1">
-                        <Button
-                            variant="ghost"
-                            size="sm"
-                            className={`h-8 ${COMMENT_PRIMARY_BUTTON_CLASS}`}
-                            disabled={isSavingDraft || !canCommentInline}
-                            onClick={handleSubmitInlineComment}
-                        >
-                            {isSavingDraft ? <Loader2 className="size-3.5 animate-spin" /> : <SendHorizontal className="size-3.5" />}
-                            Comment
-                        </Button>
+                        {canBatchReview ? (
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                className={`h-8 ${COMMENT_PRIMARY_BUTTON_CLASS}`}
+                                disabled={isSavingDraft || !canCommentInline}
+                                onClick={() => handleSubmitInlineComment(true)}
+                            >
+                                {isSavingDraft ? <Loader2 className="size-3.5 animate-spin" /> : <ListPlus className="size-3.5" />}
+                                {hasPendingReview ? "Add review comment" : "Start a review"}
+                            </Button>
+                        ) : null}
+                        {!canBatchReview || !hasPendingReview ? (
+                            <Button
+                                variant={canBatchReview ? "outline" : "ghost"}
+                                size="sm"
+                                className={canBatchReview ? "h-8 rounded-md gap-1.5 px-3" : `h-8 ${COMMENT_PRIMARY_BUTTON_CLASS}`}
+                                disabled={isSavingDraft || !canCommentInline}
+                                onClick={() => handleSubmitInlineComment()}
+                            >
+                                {isSavingDraft && !canBatchReview ? <Loader2 className="size-3.5 animate-spin" /> : <SendHorizontal className="size-3.5" />}
+                                {canBatchReview ? "Add single comment" : "Comment"}
+                            </Button>
+                        ) : null}
+                        {metadata.suggestionTemplate ? (
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                className="h-8 rounded-md gap-1.5 px-3"
+                                disabled={isSavingDraft || !canCommentInline}
+                                onClick={() => insertSuggestion(metadata.suggestionTemplate ?? "")}
+                                title="Insert the selected lines as a suggested change"
+                            >
+                                <PencilLine className="size-3.5" />
+                                Suggest change
+                            </Button>
+                        ) : null}
                         <Button
                             variant="outline"
                             size="sm"
@@ -117,8 +204,18 @@ export function InlineDiffAnnotation({
                 <ThreadCard
                     thread={metadata.thread}
                     suggestionSourceFileDiff={metadata.suggestionSourceFileDiff}
+                    suggestionActions={suggestionActions}
+                    reactionActions={reactionActions}
                     allowNestedReplies={allowNestedReplies}
                     showBorder={false}
+                    header={
+                        metadata.thread.movedFromLine !== undefined ? (
+                            <div className="flex items-center gap-1.5 px-2 py-0.5 text-[11px] text-muted-foreground">
+                                <ArrowRightLeft className="size-3" />
+                                Outdated · moved from line {metadata.thread.movedFromLine}
+                            </div>
+                        ) : undefined
+                    }
                     canResolveThread={canResolveThread}
                     canCommentInline={canCommentInline}
                     createCommentPending={createCommentPending}
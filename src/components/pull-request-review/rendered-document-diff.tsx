@@ -0,0 +1,167 @@
+import type { FileDiffMetadata } from "@pierre/diffs/react";
+import { AlertTriangle, Loader2, MessageSquare, MessageSquarePlus } from "lucide-react";
+import { type ReactNode, useEffect, useState } from "react";
+import { CommentMarkdown } from "@/components/comment-markdown";
+import type { InlineCommentLineTarget } from "@/components/pull-request-review/review-page-model";
+import type { CommentThread } from "@/components/pull-request-review/review-threads";
+import { Button } from "@/components/ui/button";
+import type { FileBytesSide } from "@/lib/binary-file";
+import {
+    diffRenderedBlocks,
+    parseNotebookCells,
+    type RenderedBlock,
+    type RenderedBlockChange,
+    type RenderedDocumentKind,
+    splitMarkdownBlocks,
+} from "@/lib/rendered-diff";
+import { cn } from "@/lib/utils";
+
+type RenderedDiffState = { status: "loading" } | { status: "error"; error: string } | { status: "ready"; changes: RenderedBlockChange[] };
+
+const CHANGE_CLASS: Record<RenderedBlockChange["type"], string> = {
+    unchanged: "border-transparent",
+    removed: "border-status-removed bg-status-removed/8",
+    added: "border-status-added bg-status-added/8",
+};
+
+function parseBlocks(kind: RenderedDocumentKind, text: string) {
+    return kind === "notebook" ? parseNotebookCells(text) : splitMarkdownBlocks(text);
+}
+
+function threadsInBlock(threads: CommentThread[], block: RenderedBlock, side: "additions" | "deletions") {
+    return threads.filter((thread) => {
+        const inline = thread.root.comment.inline;
+        const line = side === "deletions" ? inline?.from : inline?.to;
+        return line !== undefined && line >= block.startLine && line <= block.endLine;
+    });
+}
+
+function RenderedBlockView({ block }: { block: RenderedBlock }) {
+    if (block.kind === "code") {
+        return (
+            <pre className="overflow-x-auto border border-border bg-muted/40 p-2 font-mono text-[12px]">
+                {block.language ? <div className="mb-1 select-none text-[10px] uppercase text-muted-foreground">{block.language}</div> : null}
+                <code>{block.text}</code>
+            </pre>
+        );
+    }
+    return <CommentMarkdown text={block.text} />;
+}
+
+type RenderedDocumentDiffProps = {
+    kind: RenderedDocumentKind;
+    fileDiff: FileDiffMetadata;
+    onLoadFileBytes: (fileDiff: FileDiffMetadata, side: FileBytesSide) => Promise<Uint8Array<ArrayBuffer>>;
+    sourceDiff: ReactNode;
+    threads: CommentThread[];
+    canComment: boolean;
+    onOpenInlineDraft: (target: InlineCommentLineTarget) => void;
+};
+
+export function RenderedDocumentDiff({ kind, fileDiff, onLoadFileBytes, sourceDiff, threads, canComment, onOpenInlineDraft }: RenderedDocumentDiffProps) {
+    const [view, setView] = useState<"source" | "rendered">("source");
+    const [state, setState] = useState<RenderedDiffState>({ status: "loading" });
+
+    useEffect(() => {
+        if (view !== "rendered") return;
+        let cancelled = false;
+        setState({ status: "loading" });
+        void (async () => {
+            try {
+                const decoder = new TextDecoder();
+                const [oldText, newText] = await Promise.all([
+                    fileDiff.type === "new" ? "" : onLoadFileBytes(fileDiff, "deletions").then((bytes) => decoder.decode(bytes)),
+                    fileDiff.type === "deleted" ? "" : onLoadFileBytes(fileDiff, "additions").then((bytes) => decoder.decode(bytes)),
+                ]);
+                const changes = diffRenderedBlocks(parseBlocks(kind, oldText), parseBlocks(kind, newText));
+                if (!cancelled) setState({ status: "ready", changes });
+            } catch (error) {
+                if (!cancelled) setState({ status: "error", error: error instanceof Error ? error.message : "Unable to render file." });
+            }
+        })();
+        return () => {
+            cancelled = true;
+        };
+    }, [fileDiff, kind, onLoadFileBytes, view]);
+
+    // Comments are always anchored to source lines, so jumping to one switches back to the source diff where threads render.
+    const openSourceLine = (target: InlineCommentLineTarget) => {
+        setView("source");
+        onOpenInlineDraft(target);
+    };
+
+    return (
+        <div className="w-full min-w-0" data-component="rendered-document-diff">
+            <div className="flex items-center gap-1 px-3 py-1.5">
+                {(["source", "rendered"] as const).map((value) => (
+                    <Button
+                        key={value}
+                        type="button"
+                        variant={view === value ? "secondary" : "ghost"}
+                        size="sm"
+                        className="h-7 px-2 text-[12px]"
+                        onClick={() => setView(value)}
+                    >
+                        {value === "source" ? "Source" : "Rendered"}
+                    </Button>
+                ))}
+            </div>
+            {view === "source" ? (
+                sourceDiff
+            ) : state.status === "loading" ? (
+                <div className="flex items-center gap-2 px-3 pb-3 text-[12px] text-muted-foreground">
+                    <Loader2 className="size-3.5 animate-spin" />
+                    Rendering file…
+                </div>
+            ) : state.status === "error" ? (
+                <div className="flex items-center gap-2 px-3 pb-3 text-[12px] text-status-removed">
+                    <AlertTriangle className="size-3.5" />
+                    {state.error}
+                </div>
+            ) : (
+                <div className="space-y-1 px-3 pb-3">
+                    {state.changes.map((change) => {
+                        const side = change.type === "removed" ? "deletions" : "additions";
+                        const blockThreads = threadsInBlock(threads, change.block, side);
+                        return (
+                            <div
+                                key={`${change.type}:${change.block.startLine}`}
+                                className={cn("group relative min-w-0 border-l-2 py-1 pl-3 pr-16", CHANGE_CLASS[change.type])}
+                            >
+                                <RenderedBlockView block={change.block} />
+                                <div className="absolute right-1 top-1 flex items-center gap-1">
+                                    {blockThreads.length > 0 ? (
+                                        <Button
+                                            type="button"
+                                            variant="ghost"
+                                            size="sm"
+                                            className="h-6 gap-1 px-1.5 text-[11px]"
+                                            onClick={() => setView("source")}
+                                            aria-label="Show comments in source"
+                                        >
+                                            <MessageSquare className="size-3" />
+                                            {blockThreads.length}
+                                        </Button>
+                                    ) : null}
+                                    {canComment ? (
+                                        <Button
+                                            type="button"
+                                            variant="ghost"
+                                            size="sm"
+                                            className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100 focus-visible:opacity-100"
+                                            onClick={() => openSourceLine({ lineNumber: change.block.startLine, annotationSide: side })}
+                                            aria-label={`Comment on line ${change.block.startLine}`}
+                                        >
+                                            <MessageSquarePlus className="size-3" />
+                                        </Button>
+                                    ) : null}
+                                </div>
+                            </div>
+                        );
+                    })}
+                    {state.changes.length === 0 ? <div className="text-[12px] text-muted-foreground">Nothing to render.</div> : null}
+                </div>
+            )}
+        </div>
+    );
+}
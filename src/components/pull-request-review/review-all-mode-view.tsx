@@ -3,20 +3,36 @@ import { FileDiff, type FileDiffMetadata } from "@pierre/diffs/react";
 import { useVirtualizer } from "@tanstack/react-virtual";
 import { Check, CheckCheck, Copy, ScrollText } from "lucide-react";
 import type { CSSProperties, ReactNode, RefObject } from "react";
-import { useEffect, useMemo } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { ReactionActions } from "@/components/comment-reaction-bar";
 import { PullRequestSummaryPanel } from "@/components/pr-summary-panel";
+import { BinaryFileDiff } from "@/components/pull-request-review/binary-file-diff";
 import { DiffContextButton, type DiffContextState } from "@/components/pull-request-review/diff-context-button";
 import { FileVersionSelect, type FileVersionSelectOption } from "@/components/pull-request-review/file-version-select";
 import { InlineDiffAnnotation } from "@/components/pull-request-review/inline-diff-annotation";
+import { RenderedDocumentDiff } from "@/components/pull-request-review/rendered-document-diff";
 import { ReviewDiffSettingsMenu } from "@/components/pull-request-review/review-diff-settings-menu";
-import type { InlineCommentLineTarget, SingleFileAnnotation, SingleFileAnnotationMetadata } from "@/components/pull-request-review/review-page-model";
+import type { DiffLineStats } from "@/components/pull-request-review/review-formatters";
+import {
+    getDraftLineSelection,
+    type InlineCommentLineTarget,
+    type SingleFileAnnotation,
+    type SingleFileAnnotationMetadata,
+    toInlineCommentLineTarget,
+} from "@/components/pull-request-review/review-page-model";
+import { StructuredDiffToggle, StructuredFileDiff } from "@/components/pull-request-review/structured-file-diff";
+import type { SuggestionActions } from "@/components/pull-request-review/use-suggestion-batch";
 import { RepositoryFileIcon } from "@/components/repository-file-icon";
 import { Button } from "@/components/ui/button";
+import { type FileBytesSide, getBinaryPreviewKind } from "@/lib/binary-file";
 import { fileAnchorId } from "@/lib/file-anchors";
+import type { GeneratedFileKind } from "@/lib/generated-files";
 import type { PullRequestBundle } from "@/lib/git-host/types";
 import { PR_SUMMARY_NAME, PR_SUMMARY_PATH } from "@/lib/pr-summary";
+import { getRenderedDocumentKind } from "@/lib/rendered-diff";
+import { supportsStructuredDiff } from "@/lib/structured-diff";
 import { cn } from "@/lib/utils";
-import type { CommentThread } from "./review-threads";
+import type { CommentThread, OrphanedCommentThread } from "./review-threads";
 import type { InlineCommentDraft } from "./use-inline-comment-drafts";
 
 type ReviewAllModeViewProps = {
@@ -25,15 +41,17 @@ type ReviewAllModeViewProps = {
     onWorkspaceModeChange: (mode: "single" | "all") => void;
     pullRequestTitle: string;
     prData: PullRequestBundle | null;
-    lineStats: { added: number; removed: number };
+    lineStats: DiffLineStats;
     currentUserDisplayName?: string;
     isSummaryCollapsedInAllMode: boolean;
     onToggleSummaryCollapsed: () => void;
     allModeDiffEntries: Array<{ filePath: string; fileDiff: FileDiffMetadata }>;
     threadsByPath: Map<string, CommentThread[]>;
+    orphanedThreads: OrphanedCommentThread[];
     fileLineStats: Map<string, { added: number; removed: number }>;
     collapsedAllModeFiles: Record<string, boolean>;
     collapseViewedFilesByDefault: boolean;
+    generatedFileKinds: ReadonlyMap<string, GeneratedFileKind>;
     viewedFiles: Set<string>;
     copiedPath: string | null;
     areAllFilesViewed: boolean;
@@ -47,7 +65,11 @@ type ReviewAllModeViewProps = {
     diffHighlighterReady: boolean;
     createCommentPending: boolean;
     canCommentInline: boolean;
+    canBatchReview: boolean;
+    hasPendingReview: boolean;
     canResolveThread: boolean;
+    suggestionActions?: SuggestionActions;
+    reactionActions?: ReactionActions;
     resolveCommentPending: boolean;
     deleteCommentPending: boolean;
     updateCommentPending: boolean;
@@ -64,11 +86,11 @@ type ReviewAllModeViewProps = {
     ) => { fileDiff: FileDiffMetadata | undefined; readOnlyHistorical: boolean; selectedVersionId: string | undefined };
     isVersionViewed: (versionId: string) => boolean;
     compactDiffOptions: FileDiffOptions<SingleFileAnnotationMetadata | undefined>;
-    getInlineDraftContent: (draft: Pick<InlineCommentDraft, "path" | "line" | "side">) => string;
-    setInlineDraftContent: (draft: Pick<InlineCommentDraft, "path" | "line" | "side">, content: string) => void;
-    onSubmitInlineComment: () => Promise<unknown> | undefined;
+    getInlineDraftContent: (draft: InlineCommentDraft) => string;
+    setInlineDraftContent: (draft: InlineCommentDraft, content: string) => void;
+    onSubmitInlineComment: (options?: { pending?: boolean }) => Promise<unknown> | undefined;
     onInlineDraftReady: (focus: () => void) => void;
-    onCancelInlineDraft: (draft: Pick<InlineCommentDraft, "path" | "line" | "side">) => void;
+    onCancelInlineDraft: (draft: InlineCommentDraft) => void;
     onOpenInlineDraftForPath: (path: string, target: InlineCommentLineTarget) => void;
     onDeleteComment: (commentId: number, hasInlineContext: boolean) => void;
     onResolveThread: (commentId: number, resolve: boolean) => void;
@@ -82,6 +104,7 @@ type ReviewAllModeViewProps = {
     buildFileAnnotations: (filePath: string) => SingleFileAnnotation[];
     onOpenDiffSettings: () => void;
     onLoadFullFileContext: (path: string, fileDiff: FileDiffMetadata) => void;
+    onLoadFileBytes: (fileDiff: FileDiffMetadata, side: FileBytesSide) => Promise<Uint8Array<ArrayBuffer>>;
     fileContextState: Record<string, DiffContextState>;
     scrollElementRef: RefObject<HTMLDivElement | null>;
     pendingScrollPath: string | null;
@@ -100,9 +123,11 @@ export function ReviewAllModeView({
     onToggleSummaryCollapsed,
     allModeDiffEntries,
     threadsByPath,
+    orphanedThreads,
     fileLineStats,
     collapsedAllModeFiles,
     collapseViewedFilesByDefault,
+    generatedFileKinds,
     viewedFiles,
     copiedPath,
     areAllFilesViewed,
@@ -116,7 +141,11 @@ export function ReviewAllModeView({
     diffHighlighterReady,
     createCommentPending,
     canCommentInline,
+    canBatchReview,
+    hasPendingReview,
     canResolveThread,
+    suggestionActions,
+    reactionActions,
     resolveCommentPending,
     deleteCommentPending,
     updateCommentPending,
@@ -148,6 +177,7 @@ export function ReviewAllModeView({
     buildFileAnnotations,
     onOpenDiffSettings,
     onLoadFullFileContext,
+    onLoadFileBytes,
     fileContextState,
     scrollElementRef,
     pendingScrollPath,
@@ -155,6 +185,14 @@ export function ReviewAllModeView({
 }: ReviewAllModeViewProps) {
     const diffListBottomPadding = "max(420px, 90vh)";
     const filePathsInOrder = useMemo(() => allModeDiffEntries.map((entry) => entry.filePath), [allModeDiffEntries]);
+    const [structuredViewPaths, setStructuredViewPaths] = useState(() => new Set<string>());
+    const toggleStructuredView = useCallback((filePath: string) => {
+        setStructuredViewPaths((prev) => {
+            const next = new Set(prev);
+            if (!next.delete(filePath)) next.add(filePath);
+            return next;
+        });
+    }, []);
     const rowVirtualizer = useVirtualizer({
         count: allModeDiffEntries.length,
         getScrollElement: () => scrollElementRef.current,
@@ -186,6 +224,11 @@ export function ReviewAllModeView({
                         <div className="shrink-0 font-mono text-[11px]">
                             <span className="text-status-added">+{lineStats.added}</span>
                             <span className="ml-2 text-status-removed">-{lineStats.removed}</span>
+                            {lineStats.generated.files > 0 ? (
+                                <span className="ml-2 text-muted-foreground" title="Generated and vendored files">
+                                    +{lineStats.generated.added} -{lineStats.generated.removed} in {lineStats.generated.files} generated
+                                </span>
+                            ) : null}
                         </div>
                         <div className="shrink-0 flex items-center gap-1">
                             <ReviewDiffSettingsMenu viewMode={viewMode} onViewModeChange={onWorkspaceModeChange} onOpenDiffSettings={onOpenDiffSettings} />
@@ -213,6 +256,7 @@ export function ReviewAllModeView({
                     {!isSummaryCollapsedInAllMode && (
                         <PullRequestSummaryPanel
                             bundle={prData}
+                            orphanedThreads={orphanedThreads}
                             diffStats={lineStats}
                             currentUserDisplayName={currentUserDisplayName}
                             onSelectComment={onHistoryCommentNavigate}
@@ -224,6 +268,7 @@ export function ReviewAllModeView({
                             updateCommentPending={updateCommentPending}
                             updateDescriptionPending={updateDescriptionPending}
                             canEditDescription={canEditDescription}
+                            reactionActions={reactionActions}
                             onDeleteComment={onDeleteComment}
                             onResolveThread={onResolveThread}
                             onReplyToThread={onReplyToThread}
@@ -245,7 +290,9 @@ export function ReviewAllModeView({
                 ).length;
                 const fileStats = fileLineStats.get(filePath) ?? { added: 0, removed: 0 };
                 const fileName = filePath.split("/").pop() || filePath;
-                const isCollapsed = collapsedAllModeFiles[filePath] ?? (collapseViewedFilesByDefault && viewedFiles.has(filePath));
+                const generatedFileKind = generatedFileKinds.get(filePath);
+                const isCollapsed =
+                    collapsedAllModeFiles[filePath] ?? ((collapseViewedFilesByDefault && viewedFiles.has(filePath)) || Boolean(generatedFileKind));
                 const hasFullContext = fileContextState[filePath]?.status === "ready";
                 const fileVersionOptions = getVersionOptionsForPath(filePath);
                 const selectedVersionId = getSelectedVersionIdForPath(filePath) ?? fileVersionOptions[0]?.id;
@@ -260,6 +307,65 @@ export function ReviewAllModeView({
                             ? compactDiffOptions
                             : { ...compactDiffOptions, hunkSeparators: "line-info" as const }
                         : compactDiffOptions;
+                const binaryPreviewKind = readOnlyHistorical || !displayedFileDiff ? null : getBinaryPreviewKind(filePath, displayedFileDiff);
+                const renderedDocumentKind = readOnlyHistorical ? null : getRenderedDocumentKind(filePath);
+                const canShowStructuredDiff = !readOnlyHistorical && supportsStructuredDiff(filePath);
+                const showStructuredDiff = canShowStructuredDiff && structuredViewPaths.has(filePath);
+                const openInlineDraft =
+                    readOnlyHistorical || !canCommentInline ? undefined : (target: InlineCommentLineTarget) => onOpenInlineDraftForPath(filePath, target);
+                const fileAnnotations = readOnlyHistorical ? [] : buildFileAnnotations(filePath);
+                const fileDiffView = displayedFileDiff ? (
+                    <FileDiff
+                        key={`${filePath}:${selectedVersionId ?? "latest"}:${readOnlyHistorical ? "historical" : "current"}:${hasFullContext ? "full-context" : "patch-context"}`}
+                        fileDiff={toRenderableFileDiff(displayedFileDiff)}
+                        options={{
+                            ...fileDiffOptions,
+                            onLineClick: undefined,
+                            onLineNumberClick: undefined,
+                            onLineEnter: (props) => onDiffLineEnter(props, openInlineDraft),
+                            onLineLeave: onDiffLineLeave,
+                            enableLineSelection: Boolean(openInlineDraft),
+                            onLineSelectionEnd: (range) => {
+                                const target = toInlineCommentLineTarget(range);
+                                if (target) openInlineDraft?.(target);
+                            },
+                        }}
+                        className="compact-diff commentable-diff pr-diff-font"
+                        style={diffTypographyStyle}
+                        lineAnnotations={fileAnnotations}
+                        selectedLines={getDraftLineSelection(fileAnnotations)}
+                        renderAnnotation={(annotation) => (
+                            <InlineDiffAnnotation
+                                annotation={annotation as SingleFileAnnotation}
+                                allowNestedReplies={allowNestedReplies}
+                                workspace={workspace}
+                                repo={repo}
+                                pullRequestId={pullRequestId}
+                                createCommentPending={createCommentPending}
+                                canCommentInline={canCommentInline && !readOnlyHistorical}
+                                canResolveThread={canResolveThread}
+                                suggestionActions={suggestionActions}
+                                reactionActions={reactionActions}
+                                resolveCommentPending={resolveCommentPending}
+                                deleteCommentPending={deleteCommentPending}
+                                updateCommentPending={updateCommentPending}
+                                getInlineDraftContent={getInlineDraftContent}
+                                setInlineDraftContent={setInlineDraftContent}
+                                onSubmitInlineComment={onSubmitInlineComment}
+                                canBatchReview={canBatchReview}
+                                hasPendingReview={hasPendingReview}
+                                onInlineDraftReady={onInlineDraftReady}
+                                onCancelInlineDraft={onCancelInlineDraft}
+                                currentUserDisplayName={currentUserDisplayName}
+                                onDeleteComment={onDeleteComment}
+                                onResolveThread={onResolveThread}
+                                onReplyToThread={onReplyToThread}
+                                onEditComment={onEditComment}
+                                onNavigateToLine={onHistoryCommentNavigate}
+                            />
+                        )}
+                    />
+                ) : null;
 
                 return (
                     <div key={filePath} ref={rowVirtualizer.measureElement} data-index={virtualRow.index}>
@@ -300,8 +406,12 @@ export function ReviewAllModeView({
                                         onClick={() => onLoadFullFileContext(filePath, fileDiff)}
                                         disabled={readOnlyHistorical}
                                     />
+                                    {canShowStructuredDiff ? (
+                                        <StructuredDiffToggle active={showStructuredDiff} onClick={() => toggleStructuredView(filePath)} />
+                                    ) : null}
                                 </div>
                                 <div className="ml-auto flex shrink-0 items-center gap-2 text-[12px]">
+                                    {generatedFileKind ? <span className="select-none text-muted-foreground">{generatedFileKind}</span> : null}
                                     <span className="select-none text-status-added">+{fileStats.added}</span>
                                     <span className="select-none text-status-removed">-{fileStats.removed}</span>
                                     {fileUnresolvedCount > 0 ? <span className="text-muted-foreground">{fileUnresolvedCount} unresolved</span> : null}
@@ -327,52 +437,30 @@ export function ReviewAllModeView({
                             </div>
                             {!isCollapsed ? (
                                 <div className="diff-content-scroll min-w-0 w-full max-w-full overflow-x-auto">
-                                    {diffHighlighterReady && displayedFileDiff ? (
-                                        <FileDiff
-                                            key={`${filePath}:${selectedVersionId ?? "latest"}:${readOnlyHistorical ? "historical" : "current"}:${hasFullContext ? "full-context" : "patch-context"}`}
-                                            fileDiff={toRenderableFileDiff(displayedFileDiff)}
-                                            options={{
-                                                ...fileDiffOptions,
-                                                onLineClick: undefined,
-                                                onLineNumberClick: undefined,
-                                                onLineEnter: (props) =>
-                                                    onDiffLineEnter(
-                                                        props,
-                                                        readOnlyHistorical || !canCommentInline
-                                                            ? undefined
-                                                            : (target) => onOpenInlineDraftForPath(filePath, target),
-                                                    ),
-                                                onLineLeave: onDiffLineLeave,
-                                            }}
-                                            className="compact-diff commentable-diff pr-diff-font"
-                                            style={diffTypographyStyle}
-                                            lineAnnotations={readOnlyHistorical ? [] : buildFileAnnotations(filePath)}
-                                            renderAnnotation={(annotation) => (
-                                                <InlineDiffAnnotation
-                                                    annotation={annotation as SingleFileAnnotation}
-                                                    allowNestedReplies={allowNestedReplies}
-                                                    workspace={workspace}
-                                                    repo={repo}
-                                                    pullRequestId={pullRequestId}
-                                                    createCommentPending={createCommentPending}
-                                                    canCommentInline={canCommentInline && !readOnlyHistorical}
-                                                    canResolveThread={canResolveThread}
-                                                    resolveCommentPending={resolveCommentPending}
-                                                    deleteCommentPending={deleteCommentPending}
-                                                    updateCommentPending={updateCommentPending}
-                                                    getInlineDraftContent={getInlineDraftContent}
-                                                    setInlineDraftContent={setInlineDraftContent}
-                                                    onSubmitInlineComment={onSubmitInlineComment}
-                                                    onInlineDraftReady={onInlineDraftReady}
-                                                    onCancelInlineDraft={onCancelInlineDraft}
-                                                    currentUserDisplayName={currentUserDisplayName}
-                                                    onDeleteComment={onDeleteComment}
-                                                    onResolveThread={onResolveThread}
-                                                    onReplyToThread={onReplyToThread}
-                                                    onEditComment={onEditComment}
-                                                />
-                                            )}
-                                        />
+                                    {showStructuredDiff && displayedFileDiff ? (
+                                        <StructuredFileDiff path={filePath} fileDiff={displayedFileDiff} onLoadFileBytes={onLoadFileBytes} />
+                                    ) : diffHighlighterReady && displayedFileDiff ? (
+                                        binaryPreviewKind ? (
+                                            <BinaryFileDiff
+                                                path={filePath}
+                                                kind={binaryPreviewKind}
+                                                fileDiff={displayedFileDiff}
+                                                onLoadFileBytes={onLoadFileBytes}
+                                                sourceDiff={fileDiffView}
+                                            />
+                                        ) : renderedDocumentKind ? (
+                                            <RenderedDocumentDiff
+                                                kind={renderedDocumentKind}
+                                                fileDiff={displayedFileDiff}
+                                                onLoadFileBytes={onLoadFileBytes}
+                                                sourceDiff={fileDiffView}
+                                                threads={threadsByPath.get(filePath) ?? []}
+                                                canComment={canCommentInline}
+                                                onOpenInlineDraft={(target) => onOpenInlineDraftForPath(filePath, target)}
+                                            />
+                                        ) : (
+                                            fileDiffView
+                                        )
                                     ) : (
                                         <div className="w-full border border-border bg-card p-3 text-[12px] text-muted-foreground">
                                             Loading syntax highlighting...
@@ -0,0 +1,38 @@
+export type ReviewBatchProgress = {
+    done: number;
+    total: number;
+};
+
+type PublishableBatchComment = {
+    id: string;
+    published: boolean;
+};
+
+export async function publishReviewBatchComments<T extends PublishableBatchComment>(
+    comments: T[],
+    handlers: {
+        publish: (comment: T) => Promise<unknown>;
+        markPublished: (comment: T) => Promise<void>;
+        onProgress?: (progress: ReviewBatchProgress) => void;
+    },
+): Promise<ReviewBatchProgress> {
+    const total = comments.length;
+    let done = comments.filter((comment) => comment.published).length;
+    handlers.onProgress?.({ done, total });
+
+    // Comments are marked one by one so a retry after a partial failure only posts what is left.
+    for (const comment of comments) {
+        if (comment.published) continue;
+        try {
+            await handlers.publish(comment);
+        } catch (error) {
+            const reason = error instanceof Error ? error.message : "Failed to publish comment";
+            throw new Error(`Published ${done} of ${total} batched comments. ${reason}`);
+        }
+        await handlers.markPublished(comment);
+        done += 1;
+        handlers.onProgress?.({ done, total });
+    }
+
+    return { done, total };
+}
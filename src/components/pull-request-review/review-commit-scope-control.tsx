@@ -5,6 +5,12 @@ import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSepara
 import type { ReviewDiffScopeMode } from "@/lib/review-diff-scope";
 import { cn } from "@/lib/utils";
 
+type RevisionOption = {
+    number: number;
+    headCommitHash: string;
+    seenAt: string;
+};
+
 type CommitOption = {
     hash: string;
     label: string;
@@ -18,20 +24,37 @@ export function ReviewCommitScopeControl({
     selectedCommitHashes,
     isFetching,
     notice,
+    hasPreviousReview,
+    revisionOptions,
+    selectedRevisionNumbers,
     onSetFullScope,
+    onSetSinceLastReviewScope,
     onToggleCommitSelection,
+    onSelectRevision,
 }: {
     mode: ReviewDiffScopeMode;
     commitOptions: CommitOption[];
     selectedCommitHashes: string[];
     isFetching: boolean;
     notice?: string | null;
+    hasPreviousReview: boolean;
+    revisionOptions: RevisionOption[];
+    selectedRevisionNumbers: number[];
     onSetFullScope: () => void;
+    onSetSinceLastReviewScope: () => void;
     onToggleCommitSelection: (hash: string) => void;
+    onSelectRevision: (revisionNumber: number) => void;
 }) {
     const selectedSet = new Set(selectedCommitHashes);
     const selectedCount = selectedSet.size;
-    const scopeLabel = mode === "full" ? "All Changes" : `${selectedCount} Commits`;
+    const scopeLabel =
+        mode === "full"
+            ? "All Changes"
+            : mode === "sinceLastReview"
+              ? "Since Last Review"
+              : mode === "interdiff"
+                ? `Rev ${selectedRevisionNumbers[0]} → Rev ${selectedRevisionNumbers[1]}`
+                : `${selectedCount} Commits`;
     const selectedIndices = commitOptions.flatMap((option, index) => (selectedSet.has(option.hash) ? [index] : [])).sort((a, b) => a - b);
     const rangeStart = selectedIndices[0] ?? -1;
     const rangeEnd = selectedIndices[selectedIndices.length - 1] ?? -1;
@@ -63,7 +86,51 @@ export function ReviewCommitScopeControl({
                     >
                         <div className="min-w-0 w-full text-[11px]">All Changes</div>
                     </DropdownMenuItem>
+                    <DropdownMenuItem
+                        disabled={!hasPreviousReview}
+                        className={cn(
+                            "rounded-none px-2 py-2 border-t border-border/30 cursor-pointer",
+                            mode === "sinceLastReview" ? "bg-status-renamed/20 focus:bg-status-renamed/25" : "",
+                        )}
+                        onSelect={(event) => {
+                            event.preventDefault();
+                            onSetSinceLastReviewScope();
+                        }}
+                    >
+                        <div className="min-w-0 w-full space-y-0.5 text-[11px]">
+                            <div>Since Last Review</div>
+                            {hasPreviousReview ? null : <div className="text-muted-foreground">Not reviewed or opened before</div>}
+                        </div>
+                    </DropdownMenuItem>
                     <DropdownMenuSeparator className="my-0" />
+                    {revisionOptions.length > 1 ? (
+                        <>
+                            <div className="px-2 pt-1.5 pb-1 text-[10px] text-muted-foreground uppercase">Revisions</div>
+                            {revisionOptions.map((option) => {
+                                const selected = selectedRevisionNumbers.includes(option.number);
+                                return (
+                                    <DropdownMenuItem
+                                        key={option.headCommitHash}
+                                        className={cn(
+                                            "items-center gap-2 px-2 py-1 rounded-none border-t border-border/30 cursor-pointer",
+                                            selected ? "bg-status-renamed/20 focus:bg-status-renamed/25" : "",
+                                        )}
+                                        onSelect={(event) => {
+                                            event.preventDefault();
+                                            onSelectRevision(option.number);
+                                        }}
+                                    >
+                                        <div className="flex min-w-0 w-full items-center gap-2 text-[11px]">
+                                            <span className="shrink-0">Rev {option.number}</span>
+                                            <span className="min-w-0 truncate font-mono text-muted-foreground">{option.headCommitHash.slice(0, 8)}</span>
+                                            <Timestamp value={option.seenAt} className="ml-auto shrink-0 text-right" />
+                                        </div>
+                                    </DropdownMenuItem>
+                                );
+                            })}
+                            <DropdownMenuSeparator className="my-0" />
+                        </>
+                    ) : null}
                     {commitOptions.length > 0 ? (
                         <div className="max-h-[60vh] min-h-0 overflow-y-auto">
                             <div className="space-y-0">
@@ -8,6 +8,7 @@ import { SidebarTopControls } from "@/components/sidebar-top-controls";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import type { GeneratedFileKind } from "@/lib/generated-files";
 import { PR_SUMMARY_NAME, PR_SUMMARY_PATH } from "@/lib/pr-summary";
 import { cn } from "@/lib/utils";
 
@@ -23,6 +24,8 @@ type ReviewFileTreeSidebarProps = {
     showUnviewedOnly: boolean;
     unviewedFileCount: number;
     viewedFiles: Set<string>;
+    changedSinceViewedPaths?: ReadonlySet<string>;
+    generatedFileKinds?: ReadonlyMap<string, GeneratedFileKind>;
     onRefresh: () => Promise<void> | void;
     onToggleSettings: () => void;
     onCollapseTree: () => void;
@@ -81,6 +84,8 @@ export function ReviewFileTreeSidebar({
     showUnviewedOnly,
     unviewedFileCount,
     viewedFiles,
+    changedSinceViewedPaths,
+    generatedFileKinds,
     onRefresh,
     onToggleSettings,
     onCollapseTree,
@@ -95,10 +100,14 @@ export function ReviewFileTreeSidebar({
     const treePathToAppPath = useMemo(() => new Map(treeEntries.map((entry) => [entry.treePath.replace(/\/+$/, ""), entry.appPath] as const)), [treeEntries]);
     const unviewedGitStatus = useMemo<GitStatusEntry[]>(() => {
         if (showSettingsPanel) return [];
-        return treeEntries.flatMap((entry) =>
-            entry.appPath !== PR_SUMMARY_PATH && !viewedFiles.has(entry.appPath) ? [{ path: entry.treePath, status: "renamed" }] : [],
-        );
-    }, [showSettingsPanel, treeEntries, viewedFiles]);
+        return treeEntries.flatMap<GitStatusEntry>((entry) => {
+            if (entry.appPath === PR_SUMMARY_PATH) return [];
+            // Generated and vendored files are dimmed whether or not they were viewed.
+            if (generatedFileKinds?.has(entry.appPath)) return [{ path: entry.treePath, status: "ignored" }];
+            if (viewedFiles.has(entry.appPath)) return [];
+            return [{ path: entry.treePath, status: changedSinceViewedPaths?.has(entry.appPath) ? "modified" : "renamed" }];
+        });
+    }, [changedSinceViewedPaths, generatedFileKinds, showSettingsPanel, treeEntries, viewedFiles]);
     const model = useAppFileTreeModel({
         entries: treeEntries,
         selectedAppPath: activeFile,
@@ -112,6 +121,13 @@ export function ReviewFileTreeSidebar({
         renderRowDecoration: ({ appPath, kind }) => {
             if (showSettingsPanel || kind !== "file") return null;
             if (appPath === PR_SUMMARY_PATH) return null;
+            if (changedSinceViewedPaths?.has(appPath)) {
+                return {
+                    text: "changed",
+                    title: "Changed since you viewed it",
+                    parts: [{ text: "changed", color: "var(--status-modified)" }],
+                };
+            }
             const stats = fileLineStats?.get(appPath);
             const hasStats = Boolean(stats) && ((stats?.added ?? 0) > 0 || (stats?.removed ?? 0) > 0);
             if (hasStats && stats) {
@@ -67,12 +67,22 @@ export function aggregateBuildState(builds: PullRequestBuildStatus[]) {
     return "success";
 }
 
-export function linesUpdated(diffstat: DiffStatEntry[]) {
-    let added = 0;
-    let removed = 0;
+export type DiffLineStats = {
+    added: number;
+    removed: number;
+    generated: { files: number; added: number; removed: number };
+};
+
+/** Totals exclude generated and vendored files, which are summarized separately. */
+export function linesUpdated(diffstat: DiffStatEntry[], generatedPaths?: ReadonlyMap<string, unknown>): DiffLineStats {
+    const totals = { added: 0, removed: 0 };
+    const generated = { files: 0, added: 0, removed: 0 };
     for (const entry of diffstat) {
-        added += Number(entry.linesAdded ?? 0);
-        removed += Number(entry.linesRemoved ?? 0);
+        const path = entry.new?.path ?? entry.old?.path;
+        const target = path && generatedPaths?.has(path) ? generated : totals;
+        target.added += Number(entry.linesAdded ?? 0);
+        target.removed += Number(entry.linesRemoved ?? 0);
+        if (target === generated) generated.files += 1;
     }
-    return { added, removed };
+    return { ...totals, generated };
 }
@@ -1,5 +1,5 @@
 import type { MutableRefObject } from "react";
-import type { PullRequestBundle, PullRequestDetails } from "@/lib/git-host/types";
+import type { CommentReactionContent, PullRequestBundle, PullRequestDetails } from "@/lib/git-host/types";
 import type { InlineCommentDraft } from "./use-inline-comment-drafts";
 
 export type CommentLineSide = "additions" | "deletions";
@@ -12,7 +12,12 @@ export type ActionPolicy = {
     canMarkDraft: boolean;
     canCommentInline: boolean;
     canResolveThread: boolean;
-    disabledReason: { commentInline?: string; decline?: string; markDraft?: string };
+    canBatchReview: boolean;
+    canLocalBatchReview: boolean;
+    canCommitSuggestions: boolean;
+    canReact: boolean;
+    reactionContents: CommentReactionContent[];
+    disabledReason: { commentInline?: string; decline?: string; markDraft?: string; commitSuggestions?: string; react?: string };
 };
 
 export type UseReviewPageActionsProps = {
@@ -29,8 +34,8 @@ export type UseReviewPageActionsProps = {
     setMergeOpen: (open: boolean) => void;
     setActionError: (message: string | null) => void;
     inlineComment: InlineCommentDraft | null;
-    getInlineDraftContent: (draft: Pick<InlineCommentDraft, "path" | "line" | "side">) => string;
-    clearInlineDraftContent: (draft: Pick<InlineCommentDraft, "path" | "line" | "side">) => void;
+    getInlineDraftContent: (draft: InlineCommentDraft) => string;
+    clearInlineDraftContent: (draft: InlineCommentDraft) => void;
     setInlineComment: (next: InlineCommentDraft | null | ((prev: InlineCommentDraft | null) => InlineCommentDraft | null)) => void;
     copyResetTimeoutRef: MutableRefObject<number | null>;
     copySourceBranchResetTimeoutRef: MutableRefObject<number | null>;
@@ -38,4 +43,6 @@ export type UseReviewPageActionsProps = {
     setCopiedSourceBranch: (next: boolean) => void;
     onOptimisticCommentCreate: (payload: { path?: string; content: string; line?: number; side?: CommentLineSide; parentId?: number }) => number | null;
     onOptimisticCommentRemove: (commentId: number) => void;
+    onOptimisticReactionSet: (reaction: { commentId: number; content: CommentReactionContent; reacted: boolean }) => void;
+    onOptimisticReactionClear: (reaction: { commentId: number; content: CommentReactionContent }) => void;
 };
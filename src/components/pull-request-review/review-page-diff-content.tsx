@@ -1,17 +1,22 @@
 import type { FileDiffOptions } from "@pierre/diffs";
 import type { FileDiffMetadata } from "@pierre/diffs/react";
 import type { CSSProperties, ReactNode, RefObject } from "react";
+import type { ReactionActions } from "@/components/comment-reaction-bar";
 import type { DiffContextState } from "@/components/pull-request-review/diff-context-button";
 import type { FileVersionSelectOption } from "@/components/pull-request-review/file-version-select";
 import { ReviewAllModeView } from "@/components/pull-request-review/review-all-mode-view";
+import type { DiffLineStats } from "@/components/pull-request-review/review-formatters";
 import type { InlineCommentLineTarget, SingleFileAnnotation, SingleFileAnnotationMetadata } from "@/components/pull-request-review/review-page-model";
-import { ReviewSingleModeView } from "@/components/pull-request-review/review-single-mode-view";
+import { ReviewSingleModeView, type ViewedInterdiffState } from "@/components/pull-request-review/review-single-mode-view";
 import { ReviewSummaryCommentComposer } from "@/components/pull-request-review/review-summary-comment-composer";
+import type { SuggestionActions } from "@/components/pull-request-review/use-suggestion-batch";
 import { SettingsPanelContentOnly } from "@/components/settings-menu";
 import { settingsPathForTab, settingsTabFromPath } from "@/components/settings-navigation";
+import type { FileBytesSide } from "@/lib/binary-file";
+import type { GeneratedFileKind } from "@/lib/generated-files";
 import type { PullRequestBundle } from "@/lib/git-host/types";
 import { PR_SUMMARY_NAME, PR_SUMMARY_PATH } from "@/lib/pr-summary";
-import type { CommentThread } from "./review-threads";
+import type { CommentThread, OrphanedCommentThread } from "./review-threads";
 import type { InlineCommentDraft } from "./use-inline-comment-drafts";
 
 type ReviewPageDiffContentProps = {
@@ -23,12 +28,15 @@ type ReviewPageDiffContentProps = {
     pullRequestTitle?: string;
     currentUserDisplayName?: string;
     currentUserAvatarUrl?: string;
-    lineStats: { added: number; removed: number };
+    lineStats: DiffLineStats;
     isSummarySelected: boolean;
     selectedFilePath?: string;
     selectedFileDiff?: FileDiffMetadata;
     selectedFileReadOnlyHistorical: boolean;
     selectedFileVersionId?: string;
+    selectedFileChangedSinceViewed: boolean;
+    selectedFileViewedInterdiff?: ViewedInterdiffState;
+    onOpenViewedInterdiff: (path: string) => void;
     copiedPath: string | null;
     fileLineStats: Map<string, { added: number; removed: number }>;
     viewedFiles: Set<string>;
@@ -43,6 +51,8 @@ type ReviewPageDiffContentProps = {
     pullRequestId: string;
     createCommentPending: boolean;
     canCommentInline: boolean;
+    canBatchReview: boolean;
+    hasPendingReview: boolean;
     canSuggestChanges: boolean;
     isSuggestionEditActive: boolean;
     isPreparingSuggestionEdit: boolean;
@@ -50,6 +60,8 @@ type ReviewPageDiffContentProps = {
     suggestionSubmitPending: boolean;
     editableFileDiff?: FileDiffMetadata;
     canResolveThread: boolean;
+    suggestionActions?: SuggestionActions;
+    reactionActions?: ReactionActions;
     resolveCommentPending: boolean;
     deleteCommentPending: boolean;
     updateCommentPending: boolean;
@@ -67,27 +79,30 @@ type ReviewPageDiffContentProps = {
     ) => { fileDiff: FileDiffMetadata | undefined; readOnlyHistorical: boolean; selectedVersionId: string | undefined };
     isVersionViewed: (versionId: string) => boolean;
     threadsByPath: Map<string, CommentThread[]>;
+    orphanedThreads: OrphanedCommentThread[];
     collapsedAllModeFiles: Record<string, boolean>;
     collapseViewedFilesByDefault: boolean;
+    generatedFileKinds: ReadonlyMap<string, GeneratedFileKind>;
     isSummaryCollapsedInAllMode: boolean;
     buildFileAnnotations: (filePath: string) => SingleFileAnnotation[];
     fileContextState: Record<string, DiffContextState>;
     onLoadFullFileContext: (path: string, fileDiff: FileDiffMetadata) => void;
+    onLoadFileBytes: (fileDiff: FileDiffMetadata, side: FileBytesSide) => Promise<Uint8Array<ArrayBuffer>>;
     onWorkspaceModeChange: (mode: "single" | "all") => void;
     onActiveFileChange: (path: string | undefined) => void;
     onShowSettingsPanelChange: (next: boolean) => void;
     onCopyPath: (path: string) => void;
     onToggleAllFilesViewed: () => void;
     onToggleViewed: (path: string) => void;
-    getInlineDraftContent: (draft: Pick<InlineCommentDraft, "path" | "line" | "side">) => string;
-    setInlineDraftContent: (draft: Pick<InlineCommentDraft, "path" | "line" | "side">, content: string) => void;
-    onSubmitInlineComment: () => Promise<unknown> | undefined;
+    getInlineDraftContent: (draft: InlineCommentDraft) => string;
+    setInlineDraftContent: (draft: InlineCommentDraft, content: string) => void;
+    onSubmitInlineComment: (options?: { pending?: boolean }) => Promise<unknown> | undefined;
     onStartSuggestionEdit: () => void;
     onCancelSuggestionEdit: () => void;
     onSuggestionEditChange: (editedContents: string) => void;
-    onSubmitSuggestions: () => Promise<unknown> | undefined;
+    onReviewSuggestions: () => void;
     onInlineDraftReady: (focus: () => void) => void;
-    onCancelInlineDraft: (draft: Pick<InlineCommentDraft, "path" | "line" | "side">) => void;
+    onCancelInlineDraft: (draft: InlineCommentDraft) => void;
     onDeleteComment: (commentId: number, hasInlineContext: boolean) => void;
     onResolveThread: (commentId: number, resolve: boolean) => void;
     onReplyToThread: (commentId: number, content: string) => Promise<unknown> | undefined;
@@ -122,6 +137,9 @@ export function ReviewPageDiffContent({
     selectedFileDiff,
     selectedFileReadOnlyHistorical,
     selectedFileVersionId,
+    selectedFileChangedSinceViewed,
+    selectedFileViewedInterdiff,
+    onOpenViewedInterdiff,
     copiedPath,
     fileLineStats,
     viewedFiles,
@@ -136,6 +154,8 @@ export function ReviewPageDiffContent({
     pullRequestId,
     createCommentPending,
     canCommentInline,
+    canBatchReview,
+    hasPendingReview,
     canSuggestChanges,
     isSuggestionEditActive,
     isPreparingSuggestionEdit,
@@ -143,6 +163,8 @@ export function ReviewPageDiffContent({
     suggestionSubmitPending,
     editableFileDiff,
     canResolveThread,
+    suggestionActions,
+    reactionActions,
     resolveCommentPending,
     deleteCommentPending,
     updateCommentPending,
@@ -157,12 +179,15 @@ export function ReviewPageDiffContent({
     resolveDisplayedDiffForPath,
     isVersionViewed,
     threadsByPath,
+    orphanedThreads,
     collapsedAllModeFiles,
     collapseViewedFilesByDefault,
+    generatedFileKinds,
     isSummaryCollapsedInAllMode,
     buildFileAnnotations,
     fileContextState,
     onLoadFullFileContext,
+    onLoadFileBytes,
     onWorkspaceModeChange,
     onActiveFileChange,
     onShowSettingsPanelChange,
@@ -175,7 +200,7 @@ export function ReviewPageDiffContent({
     onStartSuggestionEdit,
     onCancelSuggestionEdit,
     onSuggestionEditChange,
-    onSubmitSuggestions,
+    onReviewSuggestions,
     onInlineDraftReady,
     onCancelInlineDraft,
     onDeleteComment,
@@ -243,13 +268,19 @@ export function ReviewPageDiffContent({
                 selectedFileReadOnlyHistorical={selectedFileReadOnlyHistorical}
                 selectedFileVersionId={selectedFileVersionId}
                 selectedFileVersionOptions={selectedFilePath ? getVersionOptionsForPath(selectedFilePath) : []}
+                selectedFileChangedSinceViewed={selectedFileChangedSinceViewed}
+                selectedFileViewedInterdiff={selectedFileViewedInterdiff}
+                onOpenViewedInterdiff={onOpenViewedInterdiff}
                 copiedPath={copiedPath}
                 fileLineStats={fileLineStats}
+                generatedFileKind={selectedFilePath ? generatedFileKinds.get(selectedFilePath) : undefined}
                 diffHighlighterReady={diffHighlighterReady}
                 diffTypographyStyle={diffTypographyStyle}
                 singleFileDiffOptions={singleFileDiffOptions}
                 singleFileAnnotations={singleFileAnnotations}
                 selectedFileLevelThreads={selectedFileLevelThreads}
+                orphanedThreads={orphanedThreads}
+                selectedFileThreads={selectedFilePath ? (threadsByPath.get(selectedFilePath) ?? []) : []}
                 workspace={workspace}
                 repo={repo}
                 pullRequestId={pullRequestId}
@@ -262,6 +293,8 @@ export function ReviewPageDiffContent({
                 suggestionSubmitPending={suggestionSubmitPending}
                 editableFileDiff={editableFileDiff}
                 canResolveThread={canResolveThread}
+                suggestionActions={suggestionActions}
+                reactionActions={reactionActions}
                 resolveCommentPending={resolveCommentPending}
                 deleteCommentPending={deleteCommentPending}
                 updateCommentPending={updateCommentPending}
@@ -283,10 +316,12 @@ export function ReviewPageDiffContent({
                 getInlineDraftContent={getInlineDraftContent}
                 setInlineDraftContent={setInlineDraftContent}
                 onSubmitInlineComment={onSubmitInlineComment}
+                canBatchReview={canBatchReview}
+                hasPendingReview={hasPendingReview}
                 onStartSuggestionEdit={onStartSuggestionEdit}
                 onCancelSuggestionEdit={onCancelSuggestionEdit}
                 onSuggestionEditChange={onSuggestionEditChange}
-                onSubmitSuggestions={onSubmitSuggestions}
+                onReviewSuggestions={onReviewSuggestions}
                 onInlineDraftReady={onInlineDraftReady}
                 onCancelInlineDraft={onCancelInlineDraft}
                 onDeleteComment={onDeleteComment}
@@ -297,6 +332,11 @@ export function ReviewPageDiffContent({
                 onHistoryCommentNavigate={onHistoryCommentNavigate}
                 onOpenDiffSettings={openDiffSettings}
                 onLoadFullFileContext={onLoadFullFileContext}
+                onOpenInlineDraft={(target) => {
+                    if (!selectedFilePath) return;
+                    onOpenInlineDraftForPath(selectedFilePath, target);
+                }}
+                onLoadFileBytes={onLoadFileBytes}
                 fileContextState={fileContextState}
                 summaryFooter={summaryFooter}
             />
@@ -322,9 +362,11 @@ export function ReviewPageDiffContent({
             resolveDisplayedDiffForPath={resolveDisplayedDiffForPath}
             isVersionViewed={isVersionViewed}
             threadsByPath={threadsByPath}
+            orphanedThreads={orphanedThreads}
             fileLineStats={fileLineStats}
             collapsedAllModeFiles={collapsedAllModeFiles}
             collapseViewedFilesByDefault={collapseViewedFilesByDefault}
+            generatedFileKinds={generatedFileKinds}
             viewedFiles={viewedFiles}
             copiedPath={copiedPath}
             areAllFilesViewed={areAllFilesViewed}
@@ -339,6 +381,8 @@ export function ReviewPageDiffContent({
             createCommentPending={createCommentPending}
             canCommentInline={canCommentInline}
             canResolveThread={canResolveThread}
+            suggestionActions={suggestionActions}
+            reactionActions={reactionActions}
             resolveCommentPending={resolveCommentPending}
             deleteCommentPending={deleteCommentPending}
             updateCommentPending={updateCommentPending}
@@ -349,6 +393,8 @@ export function ReviewPageDiffContent({
             getInlineDraftContent={getInlineDraftContent}
             setInlineDraftContent={setInlineDraftContent}
             onSubmitInlineComment={onSubmitInlineComment}
+            canBatchReview={canBatchReview}
+            hasPendingReview={hasPendingReview}
             onInlineDraftReady={onInlineDraftReady}
             onCancelInlineDraft={onCancelInlineDraft}
             onOpenInlineDraftForPath={onOpenInlineDraftForPath}
@@ -364,6 +410,7 @@ export function ReviewPageDiffContent({
             buildFileAnnotations={buildFileAnnotations}
             onOpenDiffSettings={openDiffSettings}
             onLoadFullFileContext={onLoadFullFileContext}
+            onLoadFileBytes={onLoadFileBytes}
             fileContextState={fileContextState}
             scrollElementRef={scrollElementRef}
             pendingScrollPath={pendingScrollPath}
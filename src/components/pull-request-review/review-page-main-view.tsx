@@ -2,7 +2,10 @@ import type { ComponentProps, ReactNode, RefObject } from "react";
 import { ReviewFileTreeSidebar } from "@/components/pull-request-review/review-file-tree-sidebar";
 import { ReviewMergeDialog } from "@/components/pull-request-review/review-merge-dialog";
 import { ReviewOmnibar } from "@/components/pull-request-review/review-omnibar";
+import { ReviewSubmitDialog } from "@/components/pull-request-review/review-submit-dialog";
 import { ReviewTopNavbar } from "@/components/pull-request-review/review-top-navbar";
+import { SuggestionCommitDialog } from "@/components/pull-request-review/suggestion-commit-dialog";
+import { SuggestionReviewDialog } from "@/components/pull-request-review/suggestion-review-dialog";
 
 type ReviewPageMainViewProps = {
     workspaceRef: RefObject<HTMLDivElement | null>;
@@ -14,6 +17,9 @@ type ReviewPageMainViewProps = {
     rightSidebar?: ReactNode;
     omnibarProps: ComponentProps<typeof ReviewOmnibar>;
     mergeDialogProps: ComponentProps<typeof ReviewMergeDialog>;
+    submitReviewDialogProps: ComponentProps<typeof ReviewSubmitDialog>;
+    suggestionCommitDialogProps: ComponentProps<typeof SuggestionCommitDialog>;
+    suggestionReviewDialogProps: ComponentProps<typeof SuggestionReviewDialog>;
 };
 
 export function ReviewPageMainView({
@@ -26,6 +32,9 @@ export function ReviewPageMainView({
     rightSidebar,
     omnibarProps,
     mergeDialogProps,
+    submitReviewDialogProps,
+    suggestionCommitDialogProps,
+    suggestionReviewDialogProps,
 }: ReviewPageMainViewProps) {
     return (
         <div ref={workspaceRef} className="h-full min-h-0 flex bg-background">
@@ -47,6 +56,9 @@ export function ReviewPageMainView({
 
             <ReviewOmnibar {...omnibarProps} />
             <ReviewMergeDialog {...mergeDialogProps} />
+            <ReviewSubmitDialog {...submitReviewDialogProps} />
+            <SuggestionCommitDialog {...suggestionCommitDialogProps} />
+            <SuggestionReviewDialog {...suggestionReviewDialogProps} />
         </div>
     );
 }
@@ -1,13 +1,20 @@
+import type { SelectedLineRange } from "@pierre/diffs";
 import type { FileDiffMetadata } from "@pierre/diffs/react";
 import type { InlineCommentDraft } from "@/components/pull-request-review/use-inline-comment-drafts";
 import { orderFileTreePaths } from "@/lib/file-tree-order";
+import { hostInstanceKey } from "@/lib/git-host/shared/instance";
 import type { Comment as PullRequestComment, PullRequestRef } from "@/lib/git-host/types";
+import type { StructuralHunkLabel } from "@/lib/structural-diff";
 import type { CommentThread } from "./review-threads";
 
 export type CommentLineSide = "additions" | "deletions";
 export type InlineCommentLineTarget = {
     lineNumber: number;
     annotationSide: CommentLineSide;
+    /** First line of a multi-line selection; `lineNumber` is the last. */
+    startLineNumber?: number;
+    /** Side of `startLineNumber` when the selection starts on removed lines and ends on added ones. */
+    startSide?: CommentLineSide;
 };
 
 type ExistingThreadAnnotation = {
@@ -19,9 +26,17 @@ type ExistingThreadAnnotation = {
 type DraftThreadAnnotation = {
     kind: "draft";
     draft: InlineCommentDraft;
+    /** Suggestion block prefilled with the drafted lines, when they are all present in the patch. */
+    suggestionTemplate?: string;
 };
 
-export type SingleFileAnnotationMetadata = ExistingThreadAnnotation | DraftThreadAnnotation;
+type StructuralDiffAnnotation = {
+    kind: "structural";
+    path: string;
+    label: StructuralHunkLabel;
+};
+
+export type SingleFileAnnotationMetadata = ExistingThreadAnnotation | DraftThreadAnnotation | StructuralDiffAnnotation;
 
 export type SingleFileAnnotation = {
     side: CommentLineSide;
@@ -29,6 +44,33 @@ export type SingleFileAnnotation = {
     metadata: SingleFileAnnotationMetadata;
 };
 
+/**
+ * Turns a gutter selection into a comment target. A selection that crosses
+ * sides runs from its removed line to its added line, the order the diff shows
+ * them in, whichever way it was dragged.
+ */
+export function toInlineCommentLineTarget(range: SelectedLineRange | null): InlineCommentLineTarget | null {
+    if (!range) return null;
+    const startSide = range.side ?? "additions";
+    const endSide = range.endSide ?? startSide;
+    if (startSide !== endSide) {
+        const [removedLine, addedLine] = startSide === "deletions" ? [range.start, range.end] : [range.end, range.start];
+        return { lineNumber: addedLine, annotationSide: "additions", startLineNumber: removedLine, startSide: "deletions" };
+    }
+    const first = Math.min(range.start, range.end);
+    const last = Math.max(range.start, range.end);
+    return { lineNumber: last, annotationSide: endSide, ...(first < last ? { startLineNumber: first } : {}) };
+}
+
+export function getDraftLineSelection(annotations: SingleFileAnnotation[]): SelectedLineRange | null {
+    for (const annotation of annotations) {
+        if (annotation.metadata.kind !== "draft") continue;
+        const { draft } = annotation.metadata;
+        return { start: draft.startLine ?? draft.line, side: draft.startSide ?? draft.side, end: draft.line, endSide: draft.side };
+    }
+    return null;
+}
+
 export function getCommentPath(comment: PullRequestComment) {
     return comment.inline?.path ?? "";
 }
@@ -85,7 +127,7 @@ export function hashString(value: string) {
 }
 
 export function buildReviewScopeCacheKey(prRef: PullRequestRef, scopeKey: string) {
-    return `${prRef.host}:${prRef.workspace}/${prRef.repo}/${prRef.pullRequestId}:${scopeKey}`;
+    return `${hostInstanceKey(prRef)}:${prRef.workspace}/${prRef.repo}/${prRef.pullRequestId}:${scopeKey}`;
 }
 
 function commentSignature(comments: PullRequestComment[]) {
@@ -1,5 +1,6 @@
 import { Store } from "@tanstack/store";
 import { useSyncExternalStore } from "react";
+import type { PendingReviewEvent } from "@/lib/git-host/types";
 
 type ReviewPageUiState = {
     searchQuery: string;
@@ -10,6 +11,9 @@ type ReviewPageUiState = {
     mergeMessage: string;
     mergeStrategy: string;
     closeSourceBranch: boolean;
+    submitReviewOpen: boolean;
+    submitReviewEvent: PendingReviewEvent;
+    submitReviewBody: string;
     copiedPath: string | null;
     copiedSourceBranch: boolean;
 };
@@ -24,6 +28,9 @@ export function createReviewPageUiStore() {
         mergeMessage: "",
         mergeStrategy: "merge_commit",
         closeSourceBranch: true,
+        submitReviewOpen: false,
+        submitReviewEvent: "comment",
+        submitReviewBody: "",
         copiedPath: null,
         copiedSourceBranch: false,
     });
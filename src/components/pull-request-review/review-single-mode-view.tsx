@@ -1,25 +1,37 @@
 import type { FileDiffOptions } from "@pierre/diffs";
 import { Editor, type EditorOptions } from "@pierre/diffs/edit";
 import { EditProvider, FileDiff, type FileDiffMetadata } from "@pierre/diffs/react";
-import { Check, CheckCheck, Copy, LoaderCircle, PencilLine, Send, X } from "lucide-react";
-import { type CSSProperties, type ReactNode, useMemo } from "react";
+import { Check, CheckCheck, Copy, GitCompareArrows, LoaderCircle, PencilLine, Send, X } from "lucide-react";
+import { type CSSProperties, type ReactNode, useEffect, useMemo, useState } from "react";
+import type { ReactionActions } from "@/components/comment-reaction-bar";
 import { PullRequestSummaryPanel } from "@/components/pr-summary-panel";
+import { BinaryFileDiff } from "@/components/pull-request-review/binary-file-diff";
 import { DiffContextButton, type DiffContextState } from "@/components/pull-request-review/diff-context-button";
 import { FileVersionSelect, type FileVersionSelectOption } from "@/components/pull-request-review/file-version-select";
 import { InlineDiffAnnotation } from "@/components/pull-request-review/inline-diff-annotation";
+import { RenderedDocumentDiff } from "@/components/pull-request-review/rendered-document-diff";
 import { ReviewDiffSettingsMenu } from "@/components/pull-request-review/review-diff-settings-menu";
+import type { DiffLineStats } from "@/components/pull-request-review/review-formatters";
 import { ThreadCard } from "@/components/pull-request-review/review-thread-card";
+import { StructuredDiffToggle, StructuredFileDiff } from "@/components/pull-request-review/structured-file-diff";
+import type { SuggestionActions } from "@/components/pull-request-review/use-suggestion-batch";
 import { RepositoryFileIcon } from "@/components/repository-file-icon";
 import { Button } from "@/components/ui/button";
+import { type FileBytesSide, getBinaryPreviewKind } from "@/lib/binary-file";
 import { fileAnchorId } from "@/lib/file-anchors";
+import type { GeneratedFileKind } from "@/lib/generated-files";
 import type { PullRequestBundle } from "@/lib/git-host/types";
 import { PR_SUMMARY_NAME, PR_SUMMARY_PATH } from "@/lib/pr-summary";
-import type { SingleFileAnnotation, SingleFileAnnotationMetadata } from "./review-page-model";
-import type { CommentThread } from "./review-threads";
+import { getRenderedDocumentKind } from "@/lib/rendered-diff";
+import { supportsStructuredDiff } from "@/lib/structured-diff";
+import { getDraftLineSelection, type InlineCommentLineTarget, type SingleFileAnnotation, type SingleFileAnnotationMetadata } from "./review-page-model";
+import type { CommentThread, OrphanedCommentThread } from "./review-threads";
 import type { InlineCommentDraft } from "./use-inline-comment-drafts";
 
 const EMPTY_FILE_ANNOTATIONS: SingleFileAnnotation[] = [];
 
+export type ViewedInterdiffState = { status: "loading" } | { status: "ready"; fileDiff: FileDiffMetadata } | { status: "unavailable"; reason: string };
+
 function createSuggestionEditor(options: EditorOptions<SingleFileAnnotationMetadata | undefined>) {
     return new Editor(options);
 }
@@ -31,25 +43,33 @@ type ReviewSingleModeViewProps = {
     prData: PullRequestBundle;
     pullRequestTitle?: string;
     currentUserDisplayName?: string;
-    lineStats: { added: number; removed: number };
+    lineStats: DiffLineStats;
     isSummarySelected: boolean;
     selectedFilePath?: string;
     selectedFileDiff?: FileDiffMetadata;
     selectedFileReadOnlyHistorical: boolean;
     selectedFileVersionId?: string;
     selectedFileVersionOptions: FileVersionSelectOption[];
+    selectedFileChangedSinceViewed: boolean;
+    selectedFileViewedInterdiff?: ViewedInterdiffState;
+    onOpenViewedInterdiff: (path: string) => void;
     copiedPath: string | null;
     fileLineStats: Map<string, { added: number; removed: number }>;
+    generatedFileKind?: GeneratedFileKind;
     diffHighlighterReady: boolean;
     diffTypographyStyle: CSSProperties;
     singleFileDiffOptions: FileDiffOptions<SingleFileAnnotationMetadata | undefined>;
     singleFileAnnotations: SingleFileAnnotation[];
     selectedFileLevelThreads: CommentThread[];
+    orphanedThreads: OrphanedCommentThread[];
+    selectedFileThreads: CommentThread[];
     workspace: string;
     repo: string;
     pullRequestId: string;
     createCommentPending: boolean;
     canCommentInline: boolean;
+    canBatchReview: boolean;
+    hasPendingReview: boolean;
     canSuggestChanges: boolean;
     isSuggestionEditActive: boolean;
     isPreparingSuggestionEdit: boolean;
@@ -57,6 +77,8 @@ type ReviewSingleModeViewProps = {
     suggestionSubmitPending: boolean;
     editableFileDiff?: FileDiffMetadata;
     canResolveThread: boolean;
+    suggestionActions?: SuggestionActions;
+    reactionActions?: ReactionActions;
     resolveCommentPending: boolean;
     deleteCommentPending: boolean;
     updateCommentPending: boolean;
@@ -69,15 +91,15 @@ type ReviewSingleModeViewProps = {
     onToggleViewed: (path: string) => void;
     onSelectFileVersion: (versionId: string) => void;
     onFileVersionMenuOpen: () => void;
-    getInlineDraftContent: (draft: Pick<InlineCommentDraft, "path" | "line" | "side">) => string;
-    setInlineDraftContent: (draft: Pick<InlineCommentDraft, "path" | "line" | "side">, content: string) => void;
-    onSubmitInlineComment: () => Promise<unknown> | undefined;
+    getInlineDraftContent: (draft: InlineCommentDraft) => string;
+    setInlineDraftContent: (draft: InlineCommentDraft, content: string) => void;
+    onSubmitInlineComment: (options?: { pending?: boolean }) => Promise<unknown> | undefined;
     onStartSuggestionEdit: () => void;
     onCancelSuggestionEdit: () => void;
     onSuggestionEditChange: (editedContents: string) => void;
-    onSubmitSuggestions: () => Promise<unknown> | undefined;
+    onReviewSuggestions: () => void;
     onInlineDraftReady: (focus: () => void) => void;
-    onCancelInlineDraft: (draft: Pick<InlineCommentDraft, "path" | "line" | "side">) => void;
+    onCancelInlineDraft: (draft: InlineCommentDraft) => void;
     onDeleteComment: (commentId: number, hasInlineContext: boolean) => void;
     onResolveThread: (commentId: number, resolve: boolean) => void;
     onReplyToThread: (commentId: number, content: string) => Promise<unknown> | undefined;
@@ -85,6 +107,8 @@ type ReviewSingleModeViewProps = {
     onEditDescription: (description: string) => Promise<unknown> | undefined;
     onOpenDiffSettings: () => void;
     onLoadFullFileContext: (path: string, fileDiff: FileDiffMetadata) => void;
+    onOpenInlineDraft: (target: InlineCommentLineTarget) => void;
+    onLoadFileBytes: (fileDiff: FileDiffMetadata, side: FileBytesSide) => Promise<Uint8Array<ArrayBuffer>>;
     fileContextState: Record<string, DiffContextState>;
     onHistoryCommentNavigate: (payload: { path: string; line?: number; side?: "additions" | "deletions"; commentId?: number }) => void;
     summaryFooter?: ReactNode;
@@ -104,18 +128,26 @@ export function ReviewSingleModeView({
     selectedFileReadOnlyHistorical,
     selectedFileVersionId,
     selectedFileVersionOptions,
+    selectedFileChangedSinceViewed,
+    selectedFileViewedInterdiff,
+    onOpenViewedInterdiff,
     copiedPath,
     fileLineStats,
+    generatedFileKind,
     diffHighlighterReady,
     diffTypographyStyle,
     singleFileDiffOptions,
     singleFileAnnotations,
     selectedFileLevelThreads,
+    orphanedThreads,
+    selectedFileThreads,
     workspace,
     repo,
     pullRequestId,
     createCommentPending,
     canCommentInline,
+    canBatchReview,
+    hasPendingReview,
     canSuggestChanges,
     isSuggestionEditActive,
     isPreparingSuggestionEdit,
@@ -123,6 +155,8 @@ export function ReviewSingleModeView({
     suggestionSubmitPending,
     editableFileDiff,
     canResolveThread,
+    suggestionActions,
+    reactionActions,
     resolveCommentPending,
     deleteCommentPending,
     updateCommentPending,
@@ -141,7 +175,7 @@ export function ReviewSingleModeView({
     onStartSuggestionEdit,
     onCancelSuggestionEdit,
     onSuggestionEditChange,
-    onSubmitSuggestions,
+    onReviewSuggestions,
     onInlineDraftReady,
     onCancelInlineDraft,
     onDeleteComment,
@@ -151,10 +185,19 @@ export function ReviewSingleModeView({
     onEditDescription,
     onOpenDiffSettings,
     onLoadFullFileContext,
+    onOpenInlineDraft,
+    onLoadFileBytes,
     fileContextState,
     onHistoryCommentNavigate,
     summaryFooter,
 }: ReviewSingleModeViewProps) {
+    const [viewedInterdiffPath, setViewedInterdiffPath] = useState<string | null>(null);
+    const showViewedInterdiff = selectedFileChangedSinceViewed && viewedInterdiffPath === selectedFilePath;
+    const [structuredViewPath, setStructuredViewPath] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (showViewedInterdiff && selectedFilePath && !selectedFileViewedInterdiff) onOpenViewedInterdiff(selectedFilePath);
+    }, [onOpenViewedInterdiff, selectedFilePath, selectedFileViewedInterdiff, showViewedInterdiff]);
     const hasFullContext = selectedFilePath ? fileContextState[selectedFilePath]?.status === "ready" : false;
     const isSelectedVersionViewed = selectedFileVersionId
         ? selectedFileVersionOptions.some((option) => option.id === selectedFileVersionId && !option.unread)
@@ -173,7 +216,10 @@ export function ReviewSingleModeView({
               ...resolvedFileDiffOptions,
               onLineEnter: undefined,
               onLineLeave: undefined,
+              enableLineSelection: false,
+              onLineSelectionEnd: undefined,
           };
+    const singleFileLineAnnotations = isSuggestionEditing || selectedFileReadOnlyHistorical ? EMPTY_FILE_ANNOTATIONS : singleFileAnnotations;
     const singleDiffRenderKey = `${selectedFilePath}:${selectedFileVersionId ?? "latest"}:${selectedFileReadOnlyHistorical ? "historical" : "current"}:${hasFullContext ? "full-context" : "patch-context"}`;
     const suggestionEditorOptions = useMemo<EditorOptions<SingleFileAnnotationMetadata | undefined>>(
         () => ({
@@ -192,6 +238,7 @@ export function ReviewSingleModeView({
             >
                 <PullRequestSummaryPanel
                     bundle={prData}
+                    orphanedThreads={orphanedThreads}
                     headerTitle={pullRequestTitle || PR_SUMMARY_NAME}
                     diffStats={lineStats}
                     currentUserDisplayName={currentUserDisplayName}
@@ -204,6 +251,7 @@ export function ReviewSingleModeView({
                     updateCommentPending={updateCommentPending}
                     updateDescriptionPending={updateDescriptionPending}
                     canEditDescription={canEditDescription}
+                    reactionActions={reactionActions}
                     onDeleteComment={onDeleteComment}
                     onResolveThread={onResolveThread}
                     onReplyToThread={onReplyToThread}
@@ -243,6 +291,56 @@ export function ReviewSingleModeView({
         return <div className="border border-border bg-card p-8 text-center text-muted-foreground text-[13px]">No file selected for the current filter.</div>;
     }
 
+    const canShowStructuredDiff = !selectedFileReadOnlyHistorical && !isSuggestionEditing && supportsStructuredDiff(selectedFilePath);
+    const showStructuredDiff = canShowStructuredDiff && structuredViewPath === selectedFilePath;
+    const binaryPreviewKind = selectedFileReadOnlyHistorical || isSuggestionEditing ? null : getBinaryPreviewKind(selectedFilePath, selectedFileDiff);
+    const renderedDocumentKind = selectedFileReadOnlyHistorical || isSuggestionEditing ? null : getRenderedDocumentKind(selectedFilePath);
+    const interactiveFileDiff = (
+        <EditProvider createEditor={createSuggestionEditor}>
+            <FileDiff
+                key={singleDiffRenderKey}
+                fileDiff={toRenderableFileDiff(isSuggestionEditing ? (editableFileDiff ?? selectedFileDiff) : selectedFileDiff)}
+                options={interactiveSingleFileDiffOptions}
+                editorOptions={suggestionEditorOptions}
+                edit={isSuggestionEditing}
+                className="compact-diff commentable-diff pr-diff-font"
+                style={diffTypographyStyle}
+                lineAnnotations={singleFileLineAnnotations}
+                selectedLines={getDraftLineSelection(singleFileLineAnnotations)}
+                renderAnnotation={(annotation) => (
+                    <InlineDiffAnnotation
+                        annotation={annotation as SingleFileAnnotation}
+                        allowNestedReplies={allowNestedReplies}
+                        workspace={workspace}
+                        repo={repo}
+                        pullRequestId={pullRequestId}
+                        createCommentPending={createCommentPending}
+                        canCommentInline={canCommentInline && !selectedFileReadOnlyHistorical && !isSuggestionEditing}
+                        canResolveThread={canResolveThread}
+                        suggestionActions={suggestionActions}
+                        reactionActions={reactionActions}
+                        resolveCommentPending={resolveCommentPending}
+                        deleteCommentPending={deleteCommentPending}
+                        updateCommentPending={updateCommentPending}
+                        getInlineDraftContent={getInlineDraftContent}
+                        setInlineDraftContent={setInlineDraftContent}
+                        onSubmitInlineComment={onSubmitInlineComment}
+                        canBatchReview={canBatchReview}
+                        hasPendingReview={hasPendingReview}
+                        onInlineDraftReady={onInlineDraftReady}
+                        onCancelInlineDraft={onCancelInlineDraft}
+                        currentUserDisplayName={currentUserDisplayName}
+                        onDeleteComment={onDeleteComment}
+                        onResolveThread={onResolveThread}
+                        onReplyToThread={onReplyToThread}
+                        onEditComment={onEditComment}
+                        onNavigateToLine={onHistoryCommentNavigate}
+                    />
+                )}
+            />
+        </EditProvider>
+    );
+
     return (
         <div id={fileAnchorId(selectedFilePath)} data-component="diff-file-view" className="h-full min-w-0 max-w-full flex flex-col overflow-x-hidden">
             <div className="h-10 min-w-0 bg-chrome px-3 flex items-center gap-2 overflow-hidden">
@@ -276,8 +374,30 @@ export function ReviewSingleModeView({
                         onClick={() => onLoadFullFileContext(selectedFilePath, selectedFileDiff)}
                         disabled={selectedFileReadOnlyHistorical || isSuggestionEditing}
                     />
+                    {selectedFileChangedSinceViewed ? (
+                        <Button
+                            type="button"
+                            variant={showViewedInterdiff ? "secondary" : "outline"}
+                            size="sm"
+                            className="h-7 px-2 text-[12px] text-status-modified"
+                            onClick={() => setViewedInterdiffPath(showViewedInterdiff ? null : selectedFilePath)}
+                            disabled={isSuggestionEditing}
+                            title="Show how this file's diff changed since you marked it viewed"
+                        >
+                            <GitCompareArrows className="size-3.5" />
+                            Changed since viewed
+                        </Button>
+                    ) : null}
+                    {canShowStructuredDiff ? (
+                        <StructuredDiffToggle
+                            active={showStructuredDiff}
+                            disabled={showViewedInterdiff}
+                            onClick={() => setStructuredViewPath(showStructuredDiff ? null : selectedFilePath)}
+                        />
+                    ) : null}
                 </div>
                 <div className="ml-auto flex items-center gap-2 text-[12px]">
+                    {generatedFileKind ? <span className="select-none text-muted-foreground">{generatedFileKind}</span> : null}
                     <span className="select-none text-status-added">+{fileLineStats.get(selectedFilePath)?.added ?? 0}</span>
                     <span className="select-none text-status-removed">-{fileLineStats.get(selectedFilePath)?.removed ?? 0}</span>
                     {canSuggestChanges || isSuggestionEditing || isPreparingSuggestionEdit ? (
@@ -299,13 +419,11 @@ export function ReviewSingleModeView({
                                     type="button"
                                     size="sm"
                                     className="h-7 px-2"
-                                    onClick={() => {
-                                        void onSubmitSuggestions();
-                                    }}
+                                    onClick={onReviewSuggestions}
                                     disabled={suggestionSubmitPending || suggestionCount === 0}
                                     title={
                                         suggestionCount > 0
-                                            ? `Create ${suggestionCount} suggestion${suggestionCount === 1 ? "" : "s"}`
+                                            ? `Review ${suggestionCount} suggestion${suggestionCount === 1 ? "" : "s"} before posting`
                                             : "Replace, insert, or delete source lines to create a suggestion"
                                     }
                                 >
@@ -344,44 +462,51 @@ export function ReviewSingleModeView({
             </div>
 
             <div className="diff-content-scroll min-h-0 min-w-0 w-full max-w-full flex-1 overflow-x-auto">
-                {diffHighlighterReady ? (
-                    <EditProvider createEditor={createSuggestionEditor}>
-                        <FileDiff
-                            key={singleDiffRenderKey}
-                            fileDiff={toRenderableFileDiff(isSuggestionEditing ? (editableFileDiff ?? selectedFileDiff) : selectedFileDiff)}
-                            options={interactiveSingleFileDiffOptions}
-                            editorOptions={suggestionEditorOptions}
-                            edit={isSuggestionEditing}
-                            className="compact-diff commentable-diff pr-diff-font"
-                            style={diffTypographyStyle}
-                            lineAnnotations={isSuggestionEditing || selectedFileReadOnlyHistorical ? EMPTY_FILE_ANNOTATIONS : singleFileAnnotations}
-                            renderAnnotation={(annotation) => (
-                                <InlineDiffAnnotation
-                                    annotation={annotation as SingleFileAnnotation}
-                                    allowNestedReplies={allowNestedReplies}
-                                    workspace={workspace}
-                                    repo={repo}
-                                    pullRequestId={pullRequestId}
-                                    createCommentPending={createCommentPending}
-                                    canCommentInline={canCommentInline && !selectedFileReadOnlyHistorical && !isSuggestionEditing}
-                                    canResolveThread={canResolveThread}
-                                    resolveCommentPending={resolveCommentPending}
-                                    deleteCommentPending={deleteCommentPending}
-                                    updateCommentPending={updateCommentPending}
-                                    getInlineDraftContent={getInlineDraftContent}
-                                    setInlineDraftContent={setInlineDraftContent}
-                                    onSubmitInlineComment={onSubmitInlineComment}
-                                    onInlineDraftReady={onInlineDraftReady}
-                                    onCancelInlineDraft={onCancelInlineDraft}
-                                    currentUserDisplayName={currentUserDisplayName}
-                                    onDeleteComment={onDeleteComment}
-                                    onResolveThread={onResolveThread}
-                                    onReplyToThread={onReplyToThread}
-                                    onEditComment={onEditComment}
-                                />
-                            )}
+                {showViewedInterdiff && selectedFileViewedInterdiff?.status !== "ready" ? (
+                    <div className="w-full border border-border bg-card p-3 text-[12px] text-muted-foreground">
+                        {selectedFileViewedInterdiff?.status === "unavailable"
+                            ? selectedFileViewedInterdiff.reason
+                            : "Comparing with the version you viewed..."}
+                    </div>
+                ) : diffHighlighterReady && showViewedInterdiff && selectedFileViewedInterdiff?.status === "ready" ? (
+                    <FileDiff
+                        key={`${selectedFilePath}:viewed-interdiff`}
+                        fileDiff={selectedFileViewedInterdiff.fileDiff}
+                        options={{
+                            ...resolvedFileDiffOptions,
+                            onLineEnter: undefined,
+                            onLineLeave: undefined,
+                            enableLineSelection: false,
+                            onLineSelectionEnd: undefined,
+                        }}
+                        className="compact-diff pr-diff-font"
+                        style={diffTypographyStyle}
+                    />
+                ) : showStructuredDiff ? (
+                    <StructuredFileDiff key={selectedFilePath} path={selectedFilePath} fileDiff={selectedFileDiff} onLoadFileBytes={onLoadFileBytes} />
+                ) : diffHighlighterReady ? (
+                    binaryPreviewKind ? (
+                        <BinaryFileDiff
+                            path={selectedFilePath}
+                            kind={binaryPreviewKind}
+                            fileDiff={selectedFileDiff}
+                            onLoadFileBytes={onLoadFileBytes}
+                            sourceDiff={interactiveFileDiff}
+                        />
+                    ) : renderedDocumentKind ? (
+                        <RenderedDocumentDiff
+                            key={selectedFilePath}
+                            kind={renderedDocumentKind}
+                            fileDiff={selectedFileDiff}
+                            onLoadFileBytes={onLoadFileBytes}
+                            sourceDiff={interactiveFileDiff}
+                            threads={selectedFileThreads}
+                            canComment={canCommentInline}
+                            onOpenInlineDraft={onOpenInlineDraft}
                         />
-                    </EditProvider>
+                    ) : (
+                        interactiveFileDiff
+                    )
                 ) : (
                     <div className="w-full border border-border bg-card p-3 text-[12px] text-muted-foreground">Loading syntax highlighting...</div>
                 )}
@@ -394,6 +519,7 @@ export function ReviewSingleModeView({
                             key={thread.id}
                             thread={thread}
                             allowNestedReplies={allowNestedReplies}
+                            reactionActions={reactionActions}
                             canResolveThread={canResolveThread}
                             canCommentInline={canCommentInline}
                             createCommentPending={createCommentPending}
@@ -0,0 +1,174 @@
+import { CheckCircle2, ListChecks, Loader2, Trash2, X } from "lucide-react";
+import { CommentEditor } from "@/components/comment-editor";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { PendingReviewEvent } from "@/lib/git-host/types";
+import type { ReviewBatchProgress } from "./review-batch";
+
+const REVIEW_EVENT_LABELS: Record<PendingReviewEvent, string> = {
+    comment: "Comment",
+    approve: "Approve",
+    requestChanges: "Request changes",
+};
+
+type ReviewBatchPreviewComment = {
+    id: string;
+    path: string;
+    line: number;
+    content: string;
+    published: boolean;
+};
+
+type ReviewSubmitDialogProps = {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    pendingCommentCount: number;
+    event: PendingReviewEvent;
+    onEventChange: (event: PendingReviewEvent) => void;
+    body: string;
+    onBodyChange: (body: string) => void;
+    canApprove: boolean;
+    canRequestChanges: boolean;
+    isSubmitting: boolean;
+    isDiscarding: boolean;
+    onSubmit: () => void;
+    onDiscard: () => void;
+    batchComments?: ReviewBatchPreviewComment[];
+    batchProgress?: ReviewBatchProgress | null;
+    onRemoveBatchComment?: (id: string) => void;
+};
+
+export function ReviewSubmitDialog({
+    open,
+    onOpenChange,
+    pendingCommentCount,
+    event,
+    onEventChange,
+    body,
+    onBodyChange,
+    canApprove,
+    canRequestChanges,
+    isSubmitting,
+    isDiscarding,
+    onSubmit,
+    onDiscard,
+    batchComments,
+    batchProgress,
+    onRemoveBatchComment,
+}: ReviewSubmitDialogProps) {
+    const busy = isSubmitting || isDiscarding;
+    const events: PendingReviewEvent[] = [
+        "comment",
+        ...(canApprove ? (["approve"] as const) : []),
+        ...(canRequestChanges ? (["requestChanges"] as const) : []),
+    ];
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-[34rem] overflow-hidden rounded-xl border-border-muted bg-popover p-0 shadow-2xl [&>button]:right-3 [&>button]:top-5 [&>button]:-translate-y-1/2 [&>button]:rounded-md [&>button]:p-1 [&>button]:text-muted-foreground [&>button]:opacity-100 [&>button]:transition-colors [&>button]:hover:bg-surface-hover [&>button]:hover:text-foreground [&>button]:focus-visible:ring-1 [&>button]:focus-visible:ring-ring">
+                <div className="flex h-10 items-center border-b border-border-muted bg-chrome px-3 pr-12">
+                    <DialogTitle className="text-[13px] font-medium text-foreground">Submit review</DialogTitle>
+                </div>
+
+                <div className="space-y-4 bg-surface-1 px-3 py-2.5 text-[12px]">
+                    <p className="text-muted-foreground">
+                        {batchComments
+                            ? `${pendingCommentCount} batched comment${pendingCommentCount === 1 ? "" : "s"} will be posted in order, followed by the review decision.`
+                            : `${pendingCommentCount} pending comment${pendingCommentCount === 1 ? "" : "s"} will be published together with this review.`}
+                    </p>
+
+                    {batchComments && batchComments.length > 0 ? (
+                        <ul className="max-h-56 space-y-1.5 overflow-y-auto">
+                            {batchComments.map((comment) => (
+                                <li key={comment.id} className="flex items-start gap-2 rounded-md border border-border-muted bg-surface-2 px-2 py-1.5">
+                                    <div className="min-w-0 flex-1">
+                                        <div className="truncate font-mono text-[11px] text-muted-foreground">{`${comment.path}:${comment.line}`}</div>
+                                        <div className="line-clamp-2 whitespace-pre-wrap break-words text-foreground">{comment.content}</div>
+                                    </div>
+                                    {comment.published ? (
+                                        <CheckCircle2 className="mt-0.5 size-3.5 shrink-0 text-status-added" aria-label="Posted" />
+                                    ) : onRemoveBatchComment ? (
+                                        <button
+                                            type="button"
+                                            className="rounded p-0.5 text-muted-foreground hover:bg-surface-hover hover:text-foreground disabled:opacity-50"
+                                            aria-label="Remove from batch"
+                                            disabled={busy}
+                                            onClick={() => onRemoveBatchComment(comment.id)}
+                                        >
+                                            <X className="size-3.5" />
+                                        </button>
+                                    ) : null}
+                                </li>
+                            ))}
+                        </ul>
+                    ) : null}
+
+                    {batchProgress && batchProgress.total > 0 ? (
+                        <p className="text-muted-foreground">{`Posted ${batchProgress.done} of ${batchProgress.total} comments`}</p>
+                    ) : null}
+
+                    <div className="space-y-3">
+                        <div className="space-y-1.5">
+                            <Label htmlFor="review-event" className="text-[11px] uppercase tracking-wide text-muted-foreground">
+                                Review decision
+                            </Label>
+                            <Select value={event} onValueChange={(value) => onEventChange(value as PendingReviewEvent)}>
+                                <SelectTrigger
+                                    id="review-event"
+                                    className="h-9 w-full rounded-md border-border-muted bg-surface-1 text-[12px] shadow-none"
+                                    size="default"
+                                >
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent className="rounded-md border-border-muted bg-popover">
+                                    {events.map((value) => (
+                                        <SelectItem key={value} value={value} className="text-[12px]">
+                                            {REVIEW_EVENT_LABELS[value]}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+
+                        <div className="space-y-1.5">
+                            <Label className="text-[11px] uppercase tracking-wide text-muted-foreground">Summary</Label>
+                            <CommentEditor value={body} placeholder="Leave a review summary" disabled={busy} onChange={onBodyChange} onSubmit={onSubmit} />
+                        </div>
+                    </div>
+
+                    <div className="flex flex-wrap items-center justify-between gap-3 border-t border-border-muted pt-4">
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-8 rounded-md border-status-removed/35 text-[11px] text-status-removed hover:bg-status-removed/12 hover:text-status-removed"
+                            disabled={busy}
+                            onClick={onDiscard}
+                        >
+                            {isDiscarding ? <Loader2 className="size-3.5 animate-spin" /> : <Trash2 className="size-3.5" />}
+                            Discard review
+                        </Button>
+
+                        <div className="ml-auto flex items-center gap-2">
+                            <Button variant="outline" size="sm" className="h-8 rounded-md text-[11px]" onClick={() => onOpenChange(false)}>
+                                <X className="size-3.5" />
+                                Cancel
+                            </Button>
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                className="h-8 rounded-md border-accent/35 text-[11px] text-accent hover:bg-accent/12 hover:text-accent"
+                                disabled={busy}
+                                onClick={onSubmit}
+                            >
+                                {isSubmitting ? <Loader2 className="size-3.5 animate-spin" /> : <ListChecks className="size-3.5" />}
+                                {isSubmitting ? "Submitting..." : "Submit review"}
+                            </Button>
+                        </div>
+                    </div>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -1,14 +1,16 @@
 import type { FileDiffMetadata } from "@pierre/diffs/react";
-import { ChevronDown, LoaderCircle } from "lucide-react";
+import { Check, ChevronDown, ListMinus, ListPlus, LoaderCircle } from "lucide-react";
 import { type Dispatch, type ReactNode, type SetStateAction, useEffect, useRef, useState } from "react";
 import { CommentEditor } from "@/components/comment-editor";
 import { CommentMarkdown as SharedCommentMarkdown } from "@/components/comment-markdown";
+import { CommentReactionBar, type ReactionActions } from "@/components/comment-reaction-bar";
 import { CommentShareButton } from "@/components/comment-share-button";
 import { SuggestionDiffPreview } from "@/components/pull-request-review/bitbucket-suggestion-diff-preview";
 import type { CommentThread, CommentThreadNode } from "@/components/pull-request-review/review-threads";
+import type { SuggestionActions } from "@/components/pull-request-review/use-suggestion-batch";
 import { Button } from "@/components/ui/button";
 import { commentAnchorId } from "@/lib/file-anchors";
-import { getSuggestionOriginalContents, parseSuggestionMarkdown } from "@/lib/git-host/suggestions";
+import { type AcceptedSuggestion, getSuggestionOriginalContents, parseSuggestionMarkdown } from "@/lib/git-host/suggestions";
 import type { Comment as PullRequestComment } from "@/lib/git-host/types";
 import { formatTimestampLabel } from "@/lib/timestamp";
 
@@ -51,12 +53,70 @@ function CommentMarkdown({ text }: { text: string }) {
     return <SharedCommentMarkdown text={text} variant="thread" />;
 }
 
-function ThreadCommentBody({ comment, suggestionSourceFileDiff }: { comment: PullRequestComment; suggestionSourceFileDiff?: FileDiffMetadata }) {
+function SuggestionActionButtons({ suggestion, suggestionActions }: { suggestion: AcceptedSuggestion; suggestionActions: SuggestionActions }) {
+    const isBatched = suggestionActions.isBatched(suggestion.commentId);
+    return (
+        <div className="mt-1.5 flex items-center gap-2">
+            <Button
+                variant="outline"
+                size="sm"
+                className="h-7 rounded-md gap-1.5 px-2.5 text-[12px]"
+                disabled={!suggestionActions.canApply}
+                title={suggestionActions.disabledReason}
+                onClick={() => suggestionActions.onApply(suggestion)}
+            >
+                <Check className="size-3.5" />
+                Apply suggestion
+            </Button>
+            <Button
+                variant={isBatched ? "secondary" : "outline"}
+                size="sm"
+                className="h-7 rounded-md gap-1.5 px-2.5 text-[12px]"
+                disabled={!suggestionActions.canApply}
+                title={suggestionActions.disabledReason}
+                onClick={() => suggestionActions.onToggleBatch(suggestion)}
+            >
+                {isBatched ? <ListMinus className="size-3.5" /> : <ListPlus className="size-3.5" />}
+                {isBatched ? "Remove from batch" : "Add to batch"}
+            </Button>
+        </div>
+    );
+}
+
+function ThreadCommentBody({
+    comment,
+    suggestionSourceFileDiff,
+    suggestionActions,
+}: {
+    comment: PullRequestComment;
+    suggestionSourceFileDiff?: FileDiffMetadata;
+    suggestionActions?: SuggestionActions;
+}) {
     const replacementContents = parseSuggestionMarkdown(comment.content?.raw);
     const originalContents = getSuggestionOriginalContents(comment.inline, suggestionSourceFileDiff);
     const path = comment.inline?.path;
+    const endLine = comment.inline?.to;
+    // Applying compares against the commit the suggestion was written on, so hosts that do not report it only preview.
+    const writtenAt = comment.inline?.writtenAt;
     if (path && replacementContents !== null && originalContents !== null && originalContents !== replacementContents) {
-        return <SuggestionDiffPreview path={path} originalContents={originalContents} replacementContents={replacementContents} />;
+        return (
+            <>
+                <SuggestionDiffPreview path={path} originalContents={originalContents} replacementContents={replacementContents} />
+                {suggestionActions && endLine && writtenAt ? (
+                    <SuggestionActionButtons
+                        suggestion={{
+                            commentId: comment.id,
+                            path,
+                            startLine: comment.inline?.startTo ?? endLine,
+                            endLine,
+                            writtenAt: { commitHash: writtenAt.commitHash, startLine: writtenAt.startTo ?? writtenAt.to, endLine: writtenAt.to },
+                            replacement: replacementContents,
+                        }}
+                        suggestionActions={suggestionActions}
+                    />
+                ) : null}
+            </>
+        );
     }
     return <CommentMarkdown text={comment.content?.html ?? comment.content?.raw ?? ""} />;
 }
@@ -97,7 +157,10 @@ function formatCommentDateTime(value?: string) {
     });
 }
 
-function CommentPendingIndicator() {
+function CommentPendingIndicator({ comment }: { comment: PullRequestComment }) {
+    if (comment.pendingReview) {
+        return <span className="rounded-sm border border-accent/45 px-1 text-[10px] uppercase tracking-wide text-accent">Pending</span>;
+    }
     return <LoaderCircle className="size-3.5 animate-spin text-accent" aria-label="Syncing comment" />;
 }
 
@@ -109,6 +172,8 @@ type ThreadCardProps = {
     header?: ReactNode;
     showCommentShareLinks?: boolean;
     suggestionSourceFileDiff?: FileDiffMetadata;
+    suggestionActions?: SuggestionActions;
+    reactionActions?: ReactionActions;
     canResolveThread: boolean;
     canCommentInline: boolean;
     createCommentPending: boolean;
@@ -134,6 +199,7 @@ type ThreadActionsProps = {
     hasInlineContext: boolean;
     canEdit: boolean;
     canDelete: boolean;
+    canReply?: boolean;
     canResolveThread?: boolean;
     isResolved?: boolean;
     canCommentInline: boolean;
@@ -160,6 +226,7 @@ function ThreadActions({
     hasInlineContext,
     canEdit,
     canDelete,
+    canReply = true,
     canResolveThread = false,
     isResolved = false,
     canCommentInline,
@@ -270,12 +337,14 @@ function ThreadActions({
         return renderButtonActions();
     }
 
-    appendAction(
-        "reply",
-        <button type="button" className={textActionClass} disabled={createCommentPending || !canCommentInline} onClick={() => onStartReply(commentId)}>
-            Reply
-        </button>,
-    );
+    if (canReply) {
+        appendAction(
+            "reply",
+            <button type="button" className={textActionClass} disabled={createCommentPending || !canCommentInline} onClick={() => onStartReply(commentId)}>
+                Reply
+            </button>,
+        );
+    }
 
     if (canResolveThread && onResolveThread) {
         appendAction(
@@ -336,6 +405,7 @@ type ThreadReplyNodeProps = {
     onStartEdit: (commentId: number, hasInlineContext: boolean) => void;
     onCancelEdit: () => void;
     isSameUser: (name?: string) => boolean;
+    reactionActions?: ReactionActions;
 };
 
 function ThreadReplyNode({
@@ -367,6 +437,7 @@ function ThreadReplyNode({
     onStartEdit,
     onCancelEdit,
     isSameUser,
+    reactionActions,
 }: ThreadReplyNodeProps) {
     const reply = node.comment;
     const isReplyingOnNode = editorState.replyTargetCommentId === reply.id;
@@ -376,6 +447,8 @@ function ThreadReplyNode({
     const replyHasInlineContext = Boolean(reply.inline?.path);
     const isSavingEdit = pendingCommentId === reply.id;
     const isCommentPending = Boolean(reply.pending) || (isSavingEdit && !isEditingOnNode);
+    // Comments held in a pending review are saved on the host, so they stay editable until submitted.
+    const isCommentSyncing = isCommentPending && !(reply.pendingReview && !isSavingEdit);
     const dateLabel = formatCommentDate(reply.createdAt);
     const dateTimeLabel = formatCommentDateTime(reply.createdAt);
 
@@ -392,7 +465,7 @@ function ThreadReplyNode({
                             </span>
                         ) : null}
                         {showCommentShareLinks && threadPath ? <CommentShareButton path={threadPath} commentId={reply.id} /> : null}
-                        {isCommentPending ? <CommentPendingIndicator /> : null}
+                        {isCommentPending ? <CommentPendingIndicator comment={reply} /> : null}
                     </div>
                     {isEditingOnNode ? (
                         <CommentEditor
@@ -414,6 +487,7 @@ function ThreadReplyNode({
                             <CommentMarkdown text={reply.content?.html ?? reply.content?.raw ?? ""} />
                         </div>
                     )}
+                    {reactionActions && !isCommentPending && !isEditingOnNode ? <CommentReactionBar comment={reply} reactionActions={reactionActions} /> : null}
                     {isReplyingOnNode ? (
                         <CommentEditor
                             value={editorState.replyValue}
@@ -429,12 +503,13 @@ function ThreadReplyNode({
                             onSubmit={onSubmitReply}
                         />
                     ) : null}
-                    {isCommentPending ? null : (
+                    {isCommentSyncing ? null : (
                         <ThreadActions
                             commentId={reply.id}
                             hasInlineContext={replyHasInlineContext}
                             canEdit={canEditNode}
                             canDelete={canEditNode}
+                            canReply={!reply.pendingReview}
                             canCommentInline={canCommentInline}
                             createCommentPending={createCommentPending}
                             replySavePending={isSavingReply}
@@ -487,6 +562,7 @@ function ThreadReplyNode({
                             onStartEdit={onStartEdit}
                             onCancelEdit={onCancelEdit}
                             isSameUser={isSameUser}
+                            reactionActions={reactionActions}
                         />
                     ))}
                 </div>
@@ -523,6 +599,8 @@ type ThreadRootCommentCardProps = {
     onDeleteComment: (commentId: number, hasInlineContext: boolean) => void;
     showCommentShareLinks: boolean;
     suggestionSourceFileDiff?: FileDiffMetadata;
+    suggestionActions?: SuggestionActions;
+    reactionActions?: ReactionActions;
 };
 
 function ThreadRootCommentCard({
@@ -553,12 +631,15 @@ function ThreadRootCommentCard({
     onDeleteComment,
     showCommentShareLinks,
     suggestionSourceFileDiff,
+    suggestionActions,
+    reactionActions,
 }: ThreadRootCommentCardProps) {
     const dateLabel = formatCommentDate(rootComment.createdAt);
     const dateTimeLabel = formatCommentDateTime(rootComment.createdAt);
     const isSavingRootEdit = pendingCommentId === rootComment.id;
     const isSavingRootReply = pendingReplyTargetId === rootComment.id;
     const isCommentPending = Boolean(rootComment.pending) || (isSavingRootEdit && editorState.editTargetCommentId !== rootComment.id);
+    const isCommentSyncing = isCommentPending && !(rootComment.pendingReview && !isSavingRootEdit);
     const rootCardClassName = collapsed
         ? "group/root-card relative z-10 flex items-center gap-4 px-4 py-2"
         : "group/root-card relative z-10 flex items-start gap-4 px-4 py-2";
@@ -577,7 +658,7 @@ function ThreadRootCommentCard({
                     {showCommentShareLinks && rootComment.inline?.path ? (
                         <CommentShareButton path={rootComment.inline.path} commentId={rootComment.id} />
                     ) : null}
-                    {isCommentPending ? <CommentPendingIndicator /> : null}
+                    {isCommentPending ? <CommentPendingIndicator comment={rootComment} /> : null}
                     {isResolved && !isCommentPending ? (
                         <button
                             type="button"
@@ -608,9 +689,16 @@ function ThreadRootCommentCard({
                             />
                         ) : (
                             <div className={isCommentPending ? "opacity-70" : undefined}>
-                                <ThreadCommentBody comment={rootComment} suggestionSourceFileDiff={suggestionSourceFileDiff} />
+                                <ThreadCommentBody
+                                    comment={rootComment}
+                                    suggestionSourceFileDiff={suggestionSourceFileDiff}
+                                    suggestionActions={isCommentPending || isResolved ? undefined : suggestionActions}
+                                />
                             </div>
                         )}
+                        {reactionActions && !isCommentPending && editorState.editTargetCommentId !== rootComment.id ? (
+                            <CommentReactionBar comment={rootComment} reactionActions={reactionActions} />
+                        ) : null}
                         {editorState.replyTargetCommentId === rootComment.id ? (
                             <CommentEditor
                                 value={editorState.replyValue}
@@ -626,13 +714,14 @@ function ThreadRootCommentCard({
                                 onSubmit={onSubmitReply}
                             />
                         ) : null}
-                        {isCommentPending ? null : (
+                        {isCommentSyncing ? null : (
                             <ThreadActions
                                 commentId={rootComment.id}
                                 hasInlineContext={Boolean(rootComment.inline?.path)}
                                 canEdit={rootIsOwn}
                                 canDelete={rootIsOwn}
-                                canResolveThread={canResolveThread}
+                                canReply={!rootComment.pendingReview}
+                                canResolveThread={canResolveThread && !rootComment.pendingReview}
                                 isResolved={isResolved}
                                 canCommentInline={canCommentInline}
                                 createCommentPending={createCommentPending}
@@ -668,6 +757,8 @@ export function ThreadCard({
     header,
     showCommentShareLinks = true,
     suggestionSourceFileDiff,
+    suggestionActions,
+    reactionActions,
     canResolveThread,
     canCommentInline,
     createCommentPending,
@@ -837,6 +928,8 @@ export function ThreadCard({
                     onDeleteComment={handleDeleteComment}
                     showCommentShareLinks={showCommentShareLinks}
                     suggestionSourceFileDiff={suggestionSourceFileDiff}
+                    suggestionActions={suggestionActions}
+                    reactionActions={reactionActions}
                 />
                 {!collapsed && thread.root.children.length > 0 ? (
                     <div className="relative z-10 px-4 pb-2 pt-2.5">
@@ -871,6 +964,7 @@ export function ThreadCard({
                                 onStartEdit={handleStartEdit}
                                 onCancelEdit={handleCancelEdit}
                                 isSameUser={isSameUser}
+                                reactionActions={reactionActions}
                             />
                         ))}
                     </div>
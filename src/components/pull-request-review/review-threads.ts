@@ -1,4 +1,5 @@
 import type { Comment as PullRequestComment } from "@/lib/git-host/types";
+import type { OutdatedCommentAnchor } from "@/lib/outdated-comments";
 
 export interface CommentThreadNode {
     comment: PullRequestComment;
@@ -8,8 +9,15 @@ export interface CommentThreadNode {
 export interface CommentThread {
     id: number;
     root: CommentThreadNode;
+    /** Original right-side line of an outdated thread that was re-anchored onto the current diff. */
+    movedFromLine?: number;
 }
 
+export type OrphanedCommentThread = {
+    thread: CommentThread;
+    anchor: Extract<OutdatedCommentAnchor, { status: "orphaned" }>;
+};
+
 type LegacyCommentThread = {
     id: number;
     root: PullRequestComment;
@@ -140,3 +148,24 @@ export function normalizeCommentThreads(threads: unknown[]): CommentThread[] {
     }
     return normalized;
 }
+
+export function reanchorOutdatedThreads(threads: CommentThread[], anchors: Map<number, OutdatedCommentAnchor>): CommentThread[] {
+    if (anchors.size === 0) return threads;
+    return threads.map((thread) => {
+        const anchor = anchors.get(thread.root.comment.id);
+        const inline = thread.root.comment.inline;
+        if (anchor?.status !== "moved" || !inline) return thread;
+        const shift = anchor.line - anchor.originalLine;
+        return {
+            ...thread,
+            movedFromLine: anchor.originalLine,
+            root: {
+                ...thread.root,
+                comment: {
+                    ...thread.root.comment,
+                    inline: { ...inline, to: anchor.line, startTo: inline.startTo === undefined ? undefined : inline.startTo + shift },
+                },
+            },
+        };
+    });
+}
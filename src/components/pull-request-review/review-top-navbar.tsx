@@ -1,4 +1,20 @@
-import { Check, ChevronRight, Copy, GitMerge, GlassWater, Loader2, Menu, MessageSquare, Minus, PenSquare, TriangleAlert, X, XCircle } from "lucide-react";
+import {
+    Check,
+    ChevronRight,
+    Copy,
+    GitCommitHorizontal,
+    GitMerge,
+    GlassWater,
+    ListChecks,
+    Loader2,
+    Menu,
+    MessageSquare,
+    Minus,
+    PenSquare,
+    TriangleAlert,
+    X,
+    XCircle,
+} from "lucide-react";
 import type { ReactNode } from "react";
 import { GitHostIcon } from "@/components/git-host-icon";
 import { OmnibarMenubarInput } from "@/components/omnibar/omnibar-menubar-input";
@@ -8,6 +24,7 @@ import { Timestamp } from "@/components/timestamp";
 import { Button } from "@/components/ui/button";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { getHostLabel } from "@/lib/git-host/service";
 import type { GitHost, PullRequestBuildStatus, PullRequestReviewer } from "@/lib/git-host/types";
 import { cn } from "@/lib/utils";
 
@@ -39,6 +56,7 @@ type ReviewTopNavbarProps = {
     isRequestChangesPending: boolean;
     isDeclinePending: boolean;
     isMarkDraftPending: boolean;
+    pendingReviewCommentCount?: number;
     copiedSourceBranch: boolean;
     commitScopeSlot?: ReactNode;
     onExpandTree: () => void;
@@ -49,6 +67,9 @@ type ReviewTopNavbarProps = {
     onDecline: () => void;
     onMarkDraft: () => void;
     onOpenMerge: () => void;
+    onOpenSubmitReview?: () => void;
+    suggestionBatchCount?: number;
+    onOpenSuggestionBatch?: () => void;
     onOpenOmnibar: () => void;
 };
 
@@ -78,6 +99,7 @@ export function ReviewTopNavbar({
     isRequestChangesPending,
     isDeclinePending,
     isMarkDraftPending,
+    pendingReviewCommentCount = 0,
     copiedSourceBranch,
     commitScopeSlot,
     onExpandTree,
@@ -88,6 +110,9 @@ export function ReviewTopNavbar({
     onDecline,
     onMarkDraft,
     onOpenMerge,
+    onOpenSubmitReview,
+    suggestionBatchCount = 0,
+    onOpenSuggestionBatch,
     onOpenOmnibar,
 }: ReviewTopNavbarProps) {
     const actionBusy = isApprovePending || isRequestChangesPending || isDeclinePending || isMarkDraftPending;
@@ -183,6 +208,30 @@ export function ReviewTopNavbar({
                                 Mark as Ready
                             </Button>
                         ) : null}
+                        {!isTerminal && pendingReviewCommentCount > 0 && onOpenSubmitReview ? (
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-7 rounded-sm border border-accent/50 px-2.5 bg-accent/10 text-accent hover:bg-accent/18 hover:border-accent/75 hover:text-accent focus-visible:outline-none focus-visible:ring-0 focus-visible:ring-offset-0 focus-visible:shadow-none"
+                                disabled={actionBusy}
+                                onClick={onOpenSubmitReview}
+                            >
+                                <ListChecks className="size-3.5" />
+                                {`Submit Review (${pendingReviewCommentCount})`}
+                            </Button>
+                        ) : null}
+                        {!isTerminal && suggestionBatchCount > 0 && onOpenSuggestionBatch ? (
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-7 rounded-sm border border-accent/50 px-2.5 bg-accent/10 text-accent hover:bg-accent/18 hover:border-accent/75 hover:text-accent focus-visible:outline-none focus-visible:ring-0 focus-visible:ring-offset-0 focus-visible:shadow-none"
+                                disabled={actionBusy}
+                                onClick={onOpenSuggestionBatch}
+                            >
+                                <GitCommitHorizontal className="size-3.5" />
+                                {`Commit Suggestions (${suggestionBatchCount})`}
+                            </Button>
+                        ) : null}
                         {!isTerminal ? (
                             <>
                                 <Button
@@ -247,8 +296,8 @@ export function ReviewTopNavbar({
                                 {pullRequestUrl ? (
                                     <DropdownMenuItem asChild className="cursor-pointer py-2 text-[13px] focus:bg-surface-hover">
                                         <a href={pullRequestUrl} target="_blank" rel="noreferrer">
-                                            {host === "github" ? <GitHostIcon host="github" className="size-4" /> : <GlassWater className="size-4" />}
-                                            {host === "github" ? "Open in GitHub" : "Open in Bitbucket"}
+                                            {host === "bitbucket" ? <GlassWater className="size-4" /> : <GitHostIcon host={host} className="size-4" />}
+                                            {`Open in ${getHostLabel(host)}`}
                                         </a>
                                     </DropdownMenuItem>
                                 ) : null}
@@ -0,0 +1,169 @@
+import type { FileDiffMetadata } from "@pierre/diffs/react";
+import { AlertTriangle, Braces, Loader2 } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import type { FileBytesSide } from "@/lib/binary-file";
+import { useReviewComputeWorker } from "@/lib/review-performance/review-compute-worker-context";
+import type { LockfileDiffSummary, LockfilePackageChange, StructuredChange, StructuredFileDiff as StructuredFileDiffResult } from "@/lib/structured-diff";
+import { cn } from "@/lib/utils";
+
+type StructuredDiffState = { status: "loading" } | { status: "error"; error: string } | { status: "ready"; result: StructuredFileDiffResult };
+
+// Large lockfiles can touch thousands of keys; the package table already summarizes those.
+const MAX_VISIBLE_CHANGES = 500;
+
+const CHANGE_TONE: Record<StructuredChange["type"], string> = {
+    added: "text-status-added",
+    removed: "text-status-removed",
+    changed: "text-status-modified",
+};
+
+export function StructuredDiffToggle({ active, disabled, onClick }: { active: boolean; disabled?: boolean; onClick: () => void }) {
+    return (
+        <Button
+            type="button"
+            variant={active ? "secondary" : "outline"}
+            size="sm"
+            className="h-7 px-2 text-[12px]"
+            onClick={onClick}
+            disabled={disabled}
+            title={active ? "Show the line diff" : "Show key-level changes"}
+        >
+            <Braces className="size-3.5" />
+            Structured
+        </Button>
+    );
+}
+
+function formatVersions(versions: string[]) {
+    return versions.length > 0 ? versions.join(", ") : "—";
+}
+
+function summarizeLockfile(summary: LockfileDiffSummary) {
+    const parts = summary.updated.slice(0, 3).map((change) => `${change.name} ${formatVersions(change.before)} → ${formatVersions(change.after)}`);
+    if (summary.updated.length > 3) parts.push(`${summary.updated.length - 3} more updated`);
+    parts.push(`${summary.added.length} added`, `${summary.removed.length} removed`);
+    return parts.join(", ");
+}
+
+function LockfileTable({ summary }: { summary: LockfileDiffSummary }) {
+    const rows: Array<{ status: "updated" | "added" | "removed"; change: LockfilePackageChange }> = [
+        ...summary.updated.map((change) => ({ status: "updated" as const, change })),
+        ...summary.added.map((change) => ({ status: "added" as const, change })),
+        ...summary.removed.map((change) => ({ status: "removed" as const, change })),
+    ];
+    return (
+        <div className="space-y-1.5">
+            <div className="text-[12px] text-muted-foreground">{summarizeLockfile(summary)}</div>
+            {rows.length > 0 ? (
+                <table className="w-full font-mono text-[11px]">
+                    <thead className="text-left text-muted-foreground">
+                        <tr>
+                            <th className="py-0.5 pr-3 font-normal">Package</th>
+                            <th className="py-0.5 pr-3 font-normal">Before</th>
+                            <th className="py-0.5 pr-3 font-normal">After</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map(({ status, change }) => (
+                            <tr key={`${status}:${change.name}`} className="border-t border-border">
+                                <td className={cn("py-0.5 pr-3", status === "added" ? "text-status-added" : status === "removed" ? "text-status-removed" : "")}>
+                                    {change.name}
+                                </td>
+                                <td className="py-0.5 pr-3 text-status-removed">{formatVersions(change.before)}</td>
+                                <td className="py-0.5 pr-3 text-status-added">{formatVersions(change.after)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            ) : null}
+        </div>
+    );
+}
+
+function KeyPathTable({ changes }: { changes: StructuredChange[] }) {
+    if (changes.length === 0) {
+        return <div className="text-[12px] text-muted-foreground">No key-level changes.</div>;
+    }
+    return (
+        <table className="w-full table-fixed font-mono text-[11px]">
+            <tbody>
+                {changes.slice(0, MAX_VISIBLE_CHANGES).map((change) => (
+                    <tr key={`${change.type}:${change.path}`} className="border-t border-border align-top">
+                        <td className={cn("w-16 py-0.5 pr-2", CHANGE_TONE[change.type])}>{change.type}</td>
+                        <td className="w-1/3 break-all py-0.5 pr-3">{change.path}</td>
+                        <td className="break-all py-0.5 pr-3 text-status-removed">{change.before ?? ""}</td>
+                        <td className="break-all py-0.5 text-status-added">{change.after ?? ""}</td>
+                    </tr>
+                ))}
+                {changes.length > MAX_VISIBLE_CHANGES ? (
+                    <tr>
+                        <td colSpan={4} className="py-1 text-muted-foreground">
+                            {changes.length - MAX_VISIBLE_CHANGES} more changes not shown
+                        </td>
+                    </tr>
+                ) : null}
+            </tbody>
+        </table>
+    );
+}
+
+type StructuredFileDiffProps = {
+    path: string;
+    fileDiff: FileDiffMetadata;
+    onLoadFileBytes: (fileDiff: FileDiffMetadata, side: FileBytesSide) => Promise<Uint8Array<ArrayBuffer>>;
+};
+
+export function StructuredFileDiff({ path, fileDiff, onLoadFileBytes }: StructuredFileDiffProps) {
+    const { computeStructuredFileDiff } = useReviewComputeWorker();
+    const [state, setState] = useState<StructuredDiffState>({ status: "loading" });
+
+    useEffect(() => {
+        let cancelled = false;
+        setState({ status: "loading" });
+        void (async () => {
+            try {
+                const decoder = new TextDecoder();
+                const [beforeText, afterText] = await Promise.all([
+                    fileDiff.type === "new" ? "" : onLoadFileBytes(fileDiff, "deletions").then((bytes) => decoder.decode(bytes)),
+                    fileDiff.type === "deleted" ? "" : onLoadFileBytes(fileDiff, "additions").then((bytes) => decoder.decode(bytes)),
+                ]);
+                const result = await computeStructuredFileDiff({ path, beforeText, afterText });
+                if (!cancelled) setState({ status: "ready", result });
+            } catch (error) {
+                if (!cancelled) setState({ status: "error", error: error instanceof Error ? error.message : "Unable to parse file contents." });
+            }
+        })();
+        return () => {
+            cancelled = true;
+        };
+    }, [computeStructuredFileDiff, fileDiff, onLoadFileBytes, path]);
+
+    return (
+        <div className="w-full min-w-0 space-y-3 px-3 py-2" data-component="structured-file-diff">
+            {state.status === "loading" ? (
+                <div className="flex items-center gap-2 text-[12px] text-muted-foreground">
+                    <Loader2 className="size-3.5 animate-spin" />
+                    Parsing file contents…
+                </div>
+            ) : state.status === "error" ? (
+                <div className="flex items-center gap-2 text-[12px] text-status-removed">
+                    <AlertTriangle className="size-3.5" />
+                    {state.error}
+                </div>
+            ) : (
+                <>
+                    {state.result.lockfile ? <LockfileTable summary={state.result.lockfile} /> : null}
+                    {state.result.lockfile && state.result.changes.length > 0 ? (
+                        <details>
+                            <summary className="cursor-pointer text-[12px] text-muted-foreground">{state.result.changes.length} key-level changes</summary>
+                            <KeyPathTable changes={state.result.changes} />
+                        </details>
+                    ) : state.result.lockfile ? null : (
+                        <KeyPathTable changes={state.result.changes} />
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,115 @@
+import { AlertTriangle, GitCommitHorizontal, Loader2, X } from "lucide-react";
+import { SuggestionDiffPreview } from "@/components/pull-request-review/bitbucket-suggestion-diff-preview";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { SuggestionCommitPreview } from "./use-suggestion-batch";
+
+type SuggestionCommitDialogProps = {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    preview: SuggestionCommitPreview;
+    commitMessage: string;
+    onCommitMessageChange: (message: string) => void;
+    isCommitting: boolean;
+    commitError: string | null;
+    onCommit: () => void;
+};
+
+export function SuggestionCommitDialog({
+    open,
+    onOpenChange,
+    preview,
+    commitMessage,
+    onCommitMessageChange,
+    isCommitting,
+    commitError,
+    onCommit,
+}: SuggestionCommitDialogProps) {
+    const appliedCount = preview.status === "ready" ? preview.files.reduce((count, file) => count + file.commentIds.length, 0) : 0;
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-[52rem] overflow-hidden rounded-xl border-border-muted bg-popover p-0 shadow-2xl [&>button]:right-3 [&>button]:top-5 [&>button]:-translate-y-1/2 [&>button]:rounded-md [&>button]:p-1 [&>button]:text-muted-foreground [&>button]:opacity-100 [&>button]:transition-colors [&>button]:hover:bg-surface-hover [&>button]:hover:text-foreground [&>button]:focus-visible:ring-1 [&>button]:focus-visible:ring-ring">
+                <div className="flex h-10 items-center border-b border-border-muted bg-chrome px-3 pr-12">
+                    <DialogTitle className="text-[13px] font-medium text-foreground">Commit suggestions</DialogTitle>
+                </div>
+
+                <div className="space-y-4 bg-surface-1 px-3 py-2.5 text-[12px]">
+                    {preview.status === "loading" ? (
+                        <div className="flex items-center gap-2 text-muted-foreground">
+                            <Loader2 className="size-3.5 animate-spin" />
+                            Loading the source branch…
+                        </div>
+                    ) : preview.status === "error" ? (
+                        <div className="flex items-center gap-2 text-status-removed">
+                            <AlertTriangle className="size-3.5" />
+                            {preview.error}
+                        </div>
+                    ) : (
+                        <>
+                            <p className="text-muted-foreground">
+                                {`${appliedCount} suggestion${appliedCount === 1 ? "" : "s"} will be committed to the source branch as a single commit.`}
+                            </p>
+
+                            {preview.conflicts.length > 0 ? (
+                                <ul className="space-y-1 rounded-md border border-status-removed/35 bg-status-removed/8 px-2 py-1.5">
+                                    {preview.conflicts.map((conflict) => (
+                                        <li key={conflict.commentId} className="flex items-start gap-1.5 text-status-removed">
+                                            <AlertTriangle className="mt-0.5 size-3.5 shrink-0" />
+                                            <span>
+                                                <span className="font-mono text-[11px]">{conflict.path}</span> — {conflict.reason}
+                                            </span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            ) : null}
+
+                            <div className="max-h-[50vh] space-y-3 overflow-y-auto">
+                                {preview.files.map((file) => (
+                                    <div key={file.path}>
+                                        <div className="truncate font-mono text-[11px] text-muted-foreground">{file.path}</div>
+                                        <SuggestionDiffPreview path={file.path} originalContents={file.before} replacementContents={file.after} />
+                                    </div>
+                                ))}
+                            </div>
+                        </>
+                    )}
+
+                    <div className="space-y-1.5">
+                        <Label htmlFor="suggestion-commit-message" className="text-[11px] uppercase tracking-wide text-muted-foreground">
+                            Commit message
+                        </Label>
+                        <Input
+                            id="suggestion-commit-message"
+                            className="h-9 rounded-md border-border-muted bg-surface-1 text-[12px]"
+                            value={commitMessage}
+                            onChange={(e) => onCommitMessageChange(e.target.value)}
+                            disabled={isCommitting}
+                        />
+                    </div>
+
+                    {commitError ? <p className="text-status-removed">{commitError}</p> : null}
+
+                    <div className="flex flex-wrap items-center justify-end gap-2 border-t border-border-muted pt-4">
+                        <Button variant="outline" size="sm" className="h-8 rounded-md text-[11px]" disabled={isCommitting} onClick={() => onOpenChange(false)}>
+                            <X className="size-3.5" />
+                            Cancel
+                        </Button>
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-8 rounded-md border-accent/35 text-[11px] text-accent hover:bg-accent/12 hover:text-accent"
+                            disabled={isCommitting || appliedCount === 0}
+                            onClick={onCommit}
+                        >
+                            {isCommitting ? <Loader2 className="size-3.5 animate-spin" /> : <GitCommitHorizontal className="size-3.5" />}
+                            {isCommitting ? "Committing..." : "Commit changes"}
+                        </Button>
+                    </div>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,93 @@
+import { Loader2, Send, X } from "lucide-react";
+import { useEffect, useState } from "react";
+import { SuggestionDiffPreview } from "@/components/pull-request-review/bitbucket-suggestion-diff-preview";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { getSuggestionKey, getSuggestionReplacedContents, parseSuggestionMarkdown, type Suggestion } from "@/lib/git-host/suggestions";
+
+type SuggestionReviewDialogProps = {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    path: string;
+    originalContents: string;
+    suggestions: Suggestion[];
+    isSubmitting: boolean;
+    onSubmit: (suggestions: Suggestion[]) => void;
+};
+
+function formatSuggestionLines(inline: Suggestion["inline"]) {
+    return inline.startTo && inline.startTo < inline.to ? `lines ${inline.startTo}–${inline.to}` : `line ${inline.to}`;
+}
+
+export function SuggestionReviewDialog({ open, onOpenChange, path, originalContents, suggestions, isSubmitting, onSubmit }: SuggestionReviewDialogProps) {
+    const [excludedKeys, setExcludedKeys] = useState<Set<string>>(() => new Set());
+    useEffect(() => {
+        if (open) setExcludedKeys(new Set());
+    }, [open]);
+
+    const selected = suggestions.filter((suggestion) => !excludedKeys.has(getSuggestionKey(suggestion)));
+    const toggleSuggestion = (key: string) =>
+        setExcludedKeys((current) => {
+            const next = new Set(current);
+            if (!next.delete(key)) next.add(key);
+            return next;
+        });
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-[52rem] overflow-hidden rounded-xl border-border-muted bg-popover p-0 shadow-2xl [&>button]:right-3 [&>button]:top-5 [&>button]:-translate-y-1/2 [&>button]:rounded-md [&>button]:p-1 [&>button]:text-muted-foreground [&>button]:opacity-100 [&>button]:transition-colors [&>button]:hover:bg-surface-hover [&>button]:hover:text-foreground [&>button]:focus-visible:ring-1 [&>button]:focus-visible:ring-ring">
+                <div className="flex h-10 items-center border-b border-border-muted bg-chrome px-3 pr-12">
+                    <DialogTitle className="text-[13px] font-medium text-foreground">Review suggestions</DialogTitle>
+                </div>
+
+                <div className="space-y-4 bg-surface-1 px-3 py-2.5 text-[12px]">
+                    <p className="text-muted-foreground">
+                        {`Your edits to ${path} become ${suggestions.length} suggestion comment${suggestions.length === 1 ? "" : "s"}. Uncheck any you do not want to post.`}
+                    </p>
+
+                    <ul className="max-h-[55vh] space-y-3 overflow-y-auto">
+                        {suggestions.map((suggestion) => {
+                            const key = getSuggestionKey(suggestion);
+                            return (
+                                <li key={key}>
+                                    <label className="inline-flex cursor-pointer select-none items-center gap-2 font-mono text-[11px] text-muted-foreground">
+                                        <input
+                                            type="checkbox"
+                                            checked={!excludedKeys.has(key)}
+                                            disabled={isSubmitting}
+                                            onChange={() => toggleSuggestion(key)}
+                                            className="size-4 shrink-0 rounded-[3px] border border-border-muted bg-muted accent-accent focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                                        />
+                                        {formatSuggestionLines(suggestion.inline)}
+                                    </label>
+                                    <SuggestionDiffPreview
+                                        path={path}
+                                        originalContents={getSuggestionReplacedContents(originalContents, suggestion.inline)}
+                                        replacementContents={parseSuggestionMarkdown(suggestion.content) ?? ""}
+                                    />
+                                </li>
+                            );
+                        })}
+                    </ul>
+
+                    <div className="flex flex-wrap items-center justify-end gap-2 border-t border-border-muted pt-4">
+                        <Button variant="outline" size="sm" className="h-8 rounded-md text-[11px]" disabled={isSubmitting} onClick={() => onOpenChange(false)}>
+                            <X className="size-3.5" />
+                            Keep editing
+                        </Button>
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-8 rounded-md border-accent/35 text-[11px] text-accent hover:bg-accent/12 hover:text-accent"
+                            disabled={isSubmitting || selected.length === 0}
+                            onClick={() => onSubmit(selected)}
+                        >
+                            {isSubmitting ? <Loader2 className="size-3.5 animate-spin" /> : <Send className="size-3.5" />}
+                            {isSubmitting ? "Posting..." : `Post ${selected.length} suggestion${selected.length === 1 ? "" : "s"}`}
+                        </Button>
+                    </div>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -1,5 +1,5 @@
 import { useCallback, useEffect, useMemo, useState } from "react";
-import type { InlineDraftLocation } from "@/components/pull-request-review/use-inline-drafts";
+import { type InlineDraftLocation, inlineDraftRangeStart, isSameInlineDraft } from "@/components/pull-request-review/use-inline-drafts";
 import {
     clearInlineCommentActiveDraft,
     clearInlineCommentDraftContent as clearInlineCommentDraftContentRecord,
@@ -23,10 +23,10 @@ type UseInlineCommentDraftsProps = {
 type UseInlineCommentDraftsReturn = {
     inlineComment: InlineCommentDraft | null;
     setInlineComment: (next: InlineCommentDraft | null | ((prev: InlineCommentDraft | null) => InlineCommentDraft | null)) => void;
-    getInlineDraftContent: (draft: Pick<InlineCommentDraft, "path" | "line" | "side">) => string;
-    setInlineDraftContent: (draft: Pick<InlineCommentDraft, "path" | "line" | "side">, content: string) => void;
-    clearInlineDraftContent: (draft: Pick<InlineCommentDraft, "path" | "line" | "side">) => void;
-    openInlineCommentDraft: (draft: Pick<InlineCommentDraft, "path" | "line" | "side">) => void;
+    getInlineDraftContent: (draft: InlineCommentDraft) => string;
+    setInlineDraftContent: (draft: InlineCommentDraft, content: string) => void;
+    clearInlineDraftContent: (draft: InlineCommentDraft) => void;
+    openInlineCommentDraft: (draft: InlineCommentDraft) => void;
 };
 
 export function useInlineCommentDrafts({
@@ -39,13 +39,10 @@ export function useInlineCommentDrafts({
     const [inlineComment, setInlineComment] = useState<InlineCommentDraft | null>(null);
     const scopeId = useMemo(() => `${workspace}/${repo}/${pullRequestId}`, [pullRequestId, repo, workspace]);
 
-    const getInlineDraftContent = useCallback(
-        (draft: Pick<InlineCommentDraft, "path" | "line" | "side">) => readInlineCommentDraftContentRecord(scopeId, draft),
-        [scopeId],
-    );
+    const getInlineDraftContent = useCallback((draft: InlineCommentDraft) => readInlineCommentDraftContentRecord(scopeId, draft), [scopeId]);
 
     const setInlineDraftContent = useCallback(
-        (draft: Pick<InlineCommentDraft, "path" | "line" | "side">, content: string) => {
+        (draft: InlineCommentDraft, content: string) => {
             if (content.length > 0) {
                 writeInlineCommentDraftContentRecord(scopeId, draft, content);
                 writeInlineCommentActiveDraft(scopeId, draft);
@@ -56,7 +53,7 @@ export function useInlineCommentDrafts({
             const activeDraft = readInlineCommentActiveDraft(scopeId);
             if (!activeDraft) return;
 
-            if (activeDraft.path === draft.path && activeDraft.line === draft.line && activeDraft.side === draft.side) {
+            if (isSameInlineDraft(activeDraft, draft)) {
                 clearInlineCommentActiveDraft(scopeId);
             }
         },
@@ -64,9 +61,9 @@ export function useInlineCommentDrafts({
     );
 
     const clearInlineDraftContent = useCallback(
-        (draft: Pick<InlineCommentDraft, "path" | "line" | "side">) => {
+        (draft: InlineCommentDraft) => {
             const activeDraft = readInlineCommentActiveDraft(scopeId);
-            if (activeDraft && activeDraft.path === draft.path && activeDraft.line === draft.line && activeDraft.side === draft.side) {
+            if (activeDraft && isSameInlineDraft(activeDraft, draft)) {
                 clearInlineCommentActiveDraft(scopeId);
             }
             clearInlineCommentDraftContentRecord(scopeId, draft);
@@ -75,9 +72,9 @@ export function useInlineCommentDrafts({
     );
 
     const openInlineCommentDraft = useCallback(
-        (draft: Pick<InlineCommentDraft, "path" | "line" | "side">) => {
+        (draft: InlineCommentDraft) => {
             setInlineComment((prev) => {
-                if (prev && prev.path === draft.path && prev.line === draft.line && prev.side === draft.side) {
+                if (prev && isSameInlineDraft(prev, draft)) {
                     return prev;
                 }
                 if (prev && getInlineDraftContent(prev).trim().length > 0) {
@@ -87,6 +84,7 @@ export function useInlineCommentDrafts({
                     path: draft.path,
                     line: draft.line,
                     side: draft.side,
+                    ...inlineDraftRangeStart(draft),
                 };
             });
         },
@@ -114,6 +112,7 @@ export function useInlineCommentDrafts({
                 path: draft.path,
                 line: draft.line,
                 side: draft.side,
+                ...inlineDraftRangeStart(draft),
             };
             if (restoreDraft(parsed)) {
                 writeInlineCommentActiveDraft(scopeId, parsed);
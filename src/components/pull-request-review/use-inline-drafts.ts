@@ -4,10 +4,38 @@ export type InlineDraftLocation = {
     path: string;
     line: number;
     side: InlineDraftSide;
+    /** First line of a multi-line range; `line` is the last. */
+    startLine?: number;
+    /** Side of `startLine` when the range starts on removed lines and ends on added ones. */
+    startSide?: InlineDraftSide;
 };
 
 const INLINE_DRAFT_PREFIX = "inline_comment_draft:v1";
 
 export function inlineDraftStorageKey(workspace: string, repo: string, pullRequestId: string, draft: InlineDraftLocation) {
-    return `${INLINE_DRAFT_PREFIX}:${workspace}/${repo}/${pullRequestId}:${draft.side}:${draft.line}:${encodeURIComponent(draft.path)}`;
+    return `${INLINE_DRAFT_PREFIX}:${workspace}/${repo}/${pullRequestId}:${draft.side}:${inlineDraftLineKey(draft)}:${encodeURIComponent(draft.path)}`;
+}
+
+/** The start of a draft's range, or null for a single line. A same-side range must start before its last line. */
+export function inlineDraftRangeStart(draft: Pick<InlineDraftLocation, "line" | "side" | "startLine" | "startSide">) {
+    if (draft.startLine === undefined) return null;
+    if (draft.startSide && draft.startSide !== draft.side) return { startLine: draft.startLine, startSide: draft.startSide };
+    return draft.startLine < draft.line ? { startLine: draft.startLine } : null;
+}
+
+function inlineDraftLineKey(draft: Pick<InlineDraftLocation, "line" | "side" | "startLine" | "startSide">) {
+    const start = inlineDraftRangeStart(draft);
+    if (!start) return `${draft.line}`;
+    return start.startSide ? `${start.startSide}:${start.startLine}-${draft.line}` : `${start.startLine}-${draft.line}`;
+}
+
+export function isSameInlineDraft(left: InlineDraftLocation, right: InlineDraftLocation) {
+    return left.path === right.path && left.side === right.side && inlineDraftLineKey(left) === inlineDraftLineKey(right);
+}
+
+/** Maps a draft location onto the host-agnostic inline comment position, using `from`/`startFrom` for the deletions side. */
+export function inlineDraftCommentPosition(draft: InlineDraftLocation) {
+    const start = inlineDraftRangeStart(draft);
+    const startPosition = start ? ((start.startSide ?? draft.side) === "deletions" ? { startFrom: start.startLine } : { startTo: start.startLine }) : {};
+    return draft.side === "deletions" ? { path: draft.path, from: draft.line, ...startPosition } : { path: draft.path, to: draft.line, ...startPosition };
 }
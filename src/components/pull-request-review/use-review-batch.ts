@@ -0,0 +1,190 @@
+import { useMutation } from "@tanstack/react-query";
+import { useCallback, useEffect, useState } from "react";
+import {
+    addReviewBatchComment,
+    clearReviewBatchComments,
+    listReviewBatchComments,
+    markReviewBatchCommentPublished,
+    removeReviewBatchComment,
+} from "@/lib/data/query-collections";
+import { approvePullRequest, createPullRequestComment, requestChangesOnPullRequest } from "@/lib/git-host/service";
+import { pullRequestRefKey } from "@/lib/git-host/shared/instance";
+import type { PendingReviewEvent, PullRequestBundle, PullRequestRef } from "@/lib/git-host/types";
+import { publishReviewBatchComments, type ReviewBatchProgress } from "./review-batch";
+import type { ActionPolicy } from "./review-page-actions.types";
+import type { InlineCommentDraft } from "./use-inline-comment-drafts";
+import { inlineDraftCommentPosition, isSameInlineDraft } from "./use-inline-drafts";
+
+type ReviewBatchComment = ReturnType<typeof listReviewBatchComments>[number];
+
+type UseReviewBatchProps = {
+    /** The pull request the route points at; the batch is kept per host, instance, account and pull request. */
+    scopeRef: PullRequestRef;
+    actionPolicy: ActionPolicy;
+    authCanWrite: boolean;
+    requestAuth: (reason: "write" | "rate_limit") => void;
+    prRef: PullRequestBundle["prRef"] | undefined;
+    isApprovedByCurrentUser: boolean;
+    inlineComment: InlineCommentDraft | null;
+    getInlineDraftContent: (draft: InlineCommentDraft) => string;
+    clearInlineDraftContent: (draft: InlineCommentDraft) => void;
+    setInlineComment: (next: InlineCommentDraft | null | ((prev: InlineCommentDraft | null) => InlineCommentDraft | null)) => void;
+    submitReviewEvent: PendingReviewEvent;
+    submitReviewBody: string;
+    setSubmitReviewBody: (body: string) => void;
+    setSubmitReviewOpen: (open: boolean) => void;
+    refreshComments: () => Promise<void>;
+    refreshPullRequest: () => Promise<unknown>;
+    setActionError: (message: string | null) => void;
+};
+
+export function useReviewBatch({
+    scopeRef,
+    actionPolicy,
+    authCanWrite,
+    requestAuth,
+    prRef,
+    isApprovedByCurrentUser,
+    inlineComment,
+    getInlineDraftContent,
+    clearInlineDraftContent,
+    setInlineComment,
+    submitReviewEvent,
+    submitReviewBody,
+    setSubmitReviewBody,
+    setSubmitReviewOpen,
+    refreshComments,
+    refreshPullRequest,
+    setActionError,
+}: UseReviewBatchProps) {
+    const scopeId = pullRequestRefKey(scopeRef);
+    const [batchComments, setBatchComments] = useState<ReviewBatchComment[]>(() => listReviewBatchComments(scopeId));
+    const [batchProgress, setBatchProgress] = useState<ReviewBatchProgress | null>(null);
+
+    const reloadBatchComments = useCallback(() => {
+        setBatchComments(listReviewBatchComments(scopeId));
+    }, [scopeId]);
+
+    useEffect(() => {
+        reloadBatchComments();
+        setBatchProgress(null);
+    }, [reloadBatchComments]);
+
+    const addInlineCommentToBatch = useCallback(async () => {
+        if (!actionPolicy.canLocalBatchReview) {
+            setActionError(actionPolicy.disabledReason.commentInline ?? "Sign in required");
+            if (!authCanWrite) requestAuth("write");
+            return;
+        }
+        if (!inlineComment) return;
+        const content = getInlineDraftContent(inlineComment).trim();
+        if (!content) return;
+        const draft = inlineComment;
+
+        await addReviewBatchComment(scopeId, { ...draft, content });
+        clearInlineDraftContent(draft);
+        setInlineComment((prev) => (prev && isSameInlineDraft(prev, draft) ? null : prev));
+        reloadBatchComments();
+    }, [
+        actionPolicy.canLocalBatchReview,
+        actionPolicy.disabledReason.commentInline,
+        authCanWrite,
+        clearInlineDraftContent,
+        getInlineDraftContent,
+        inlineComment,
+        reloadBatchComments,
+        requestAuth,
+        scopeId,
+        setActionError,
+        setInlineComment,
+    ]);
+
+    const removeBatchComment = useCallback(
+        async (id: string) => {
+            await removeReviewBatchComment(id);
+            reloadBatchComments();
+        },
+        [reloadBatchComments],
+    );
+
+    const publishBatchMutation = useMutation({
+        mutationFn: async () => {
+            if (!prRef) {
+                throw new Error("Pull request data is incomplete");
+            }
+
+            await publishReviewBatchComments(listReviewBatchComments(scopeId), {
+                publish: (comment) =>
+                    createPullRequestComment({
+                        prRef,
+                        content: comment.content,
+                        inline: inlineDraftCommentPosition(comment),
+                    }),
+                markPublished: async (comment) => {
+                    await markReviewBatchCommentPublished(comment.id);
+                    reloadBatchComments();
+                },
+                onProgress: setBatchProgress,
+            });
+
+            const summary = submitReviewBody.trim();
+            if (summary) {
+                await createPullRequestComment({ prRef, content: summary });
+                setSubmitReviewBody("");
+            }
+            if (submitReviewEvent === "approve" && !isApprovedByCurrentUser) {
+                await approvePullRequest({ prRef });
+            }
+            if (submitReviewEvent === "requestChanges") {
+                await requestChangesOnPullRequest({ prRef });
+            }
+
+            await clearReviewBatchComments(scopeId);
+        },
+        onSuccess: async () => {
+            setSubmitReviewOpen(false);
+            setBatchProgress(null);
+            setActionError(null);
+            reloadBatchComments();
+            await Promise.all([refreshPullRequest(), refreshComments()]);
+        },
+        onError: async (error) => {
+            reloadBatchComments();
+            setActionError(error instanceof Error ? error.message : "Failed to publish review");
+            await refreshComments();
+        },
+    });
+    const discardBatchMutation = useMutation({
+        mutationFn: () => clearReviewBatchComments(scopeId),
+        onSuccess: () => {
+            setSubmitReviewOpen(false);
+            setBatchProgress(null);
+            setActionError(null);
+            reloadBatchComments();
+        },
+    });
+
+    const handlePublishBatch = useCallback(() => {
+        if (!actionPolicy.canLocalBatchReview) {
+            if (!authCanWrite) requestAuth("write");
+            return;
+        }
+        if (publishBatchMutation.isPending || discardBatchMutation.isPending) return;
+        publishBatchMutation.mutate();
+    }, [actionPolicy.canLocalBatchReview, authCanWrite, discardBatchMutation, publishBatchMutation, requestAuth]);
+    const handleDiscardBatch = useCallback(() => {
+        if (publishBatchMutation.isPending || discardBatchMutation.isPending) return;
+        discardBatchMutation.mutate();
+    }, [discardBatchMutation, publishBatchMutation]);
+
+    return {
+        batchComments,
+        batchProgress,
+        addInlineCommentToBatch,
+        removeBatchComment,
+        publishBatchMutation,
+        discardBatchMutation,
+        handlePublishBatch,
+        handleDiscardBatch,
+    };
+}
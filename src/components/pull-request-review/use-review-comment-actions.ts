@@ -1,20 +1,29 @@
 import { useMutation } from "@tanstack/react-query";
 import { useCallback } from "react";
-import { createPullRequestComment, deletePullRequestComment, resolvePullRequestComment, updatePullRequestComment } from "@/lib/git-host/service";
+import {
+    createPullRequestComment,
+    deletePullRequestComment,
+    resolvePullRequestComment,
+    setCommentReaction,
+    updatePullRequestComment,
+} from "@/lib/git-host/service";
 import type { Suggestion } from "@/lib/git-host/suggestions";
-import type { PullRequestBundle } from "@/lib/git-host/types";
+import type { CommentReactionContent, PullRequestBundle, Comment as PullRequestComment } from "@/lib/git-host/types";
 import type { ActionPolicy, CommentLineSide } from "./review-page-actions.types";
 import type { InlineCommentDraft } from "./use-inline-comment-drafts";
+import { inlineDraftCommentPosition, isSameInlineDraft } from "./use-inline-drafts";
 
 type UseReviewCommentActionsParams = {
     actionPolicy: ActionPolicy;
     authCanWrite: boolean;
-    clearInlineDraftContent: (draft: Pick<InlineCommentDraft, "path" | "line" | "side">) => void;
+    clearInlineDraftContent: (draft: InlineCommentDraft) => void;
     createOptimisticComment: (payload: { path?: string; content: string; line?: number; side?: CommentLineSide; parentId?: number }) => number | null;
     ensurePrRef: () => NonNullable<PullRequestBundle["prRef"]>;
-    getInlineDraftContent: (draft: Pick<InlineCommentDraft, "path" | "line" | "side">) => string;
+    getInlineDraftContent: (draft: InlineCommentDraft) => string;
     inlineComment: InlineCommentDraft | null;
     onOptimisticCommentRemove: (commentId: number) => void;
+    onOptimisticReactionSet: (reaction: { commentId: number; content: CommentReactionContent; reacted: boolean }) => void;
+    onOptimisticReactionClear: (reaction: { commentId: number; content: CommentReactionContent }) => void;
     refreshComments: () => Promise<void>;
     requestAuth: (reason: "write" | "rate_limit") => void;
     setActionError: (message: string | null) => void;
@@ -26,8 +35,11 @@ type CreateCommentPayload = {
     content: string;
     line?: number;
     side?: CommentLineSide;
+    startLine?: number;
+    startSide?: CommentLineSide;
     parentId?: number;
     optimistic?: boolean;
+    pending?: boolean;
 };
 
 type CreateSuggestionCommentsPayload = {
@@ -48,6 +60,8 @@ export function useReviewCommentActions({
     getInlineDraftContent,
     inlineComment,
     onOptimisticCommentRemove,
+    onOptimisticReactionSet,
+    onOptimisticReactionClear,
     refreshComments,
     requestAuth,
     setActionError,
@@ -66,25 +80,23 @@ export function useReviewCommentActions({
                 prRef,
                 content: payload.content,
                 inline: payload.line
-                    ? {
+                    ? inlineDraftCommentPosition({
                           path: payload.path,
-                          to: payload.side === "deletions" ? undefined : payload.line,
-                          from: payload.side === "deletions" ? payload.line : undefined,
-                      }
+                          line: payload.line,
+                          side: payload.side ?? "additions",
+                          startLine: payload.startLine,
+                          startSide: payload.startSide,
+                      })
                     : { path: payload.path },
+                pending: payload.pending,
             });
         },
         onMutate: (vars) => {
             const optimisticCommentId = vars.optimistic === false ? null : createOptimisticComment(vars);
             if (vars.optimistic !== false && vars.path && typeof vars.line === "number" && vars.side) {
-                clearInlineDraftContent({ path: vars.path, line: vars.line, side: vars.side });
-                setInlineComment((prev) => {
-                    if (!prev) return prev;
-                    if (prev.path !== vars.path) return prev;
-                    if (prev.line !== vars.line) return prev;
-                    if (prev.side !== vars.side) return prev;
-                    return null;
-                });
+                const draft = { path: vars.path, line: vars.line, side: vars.side, startLine: vars.startLine, startSide: vars.startSide };
+                clearInlineDraftContent(draft);
+                setInlineComment((prev) => (prev && isSameInlineDraft(prev, draft) ? null : prev));
             }
             return { optimisticCommentId };
         },
@@ -190,47 +202,69 @@ export function useReviewCommentActions({
             setActionError(error instanceof Error ? error.message : "Failed to delete comment");
         },
     });
-    const submitInlineComment = useCallback(() => {
-        if (!actionPolicy.canCommentInline) {
-            setActionError(actionPolicy.disabledReason.commentInline ?? "Sign in required");
-            if (!authCanWrite) requestAuth("write");
-            return undefined;
-        }
-        if (!inlineComment) return undefined;
-        const content = getInlineDraftContent(inlineComment).trim();
-        if (!content) return undefined;
-        const draft = inlineComment;
-        return createCommentMutation
-            .mutateAsync({
-                path: draft.path,
-                content,
-                line: draft.line,
-                side: draft.side,
-                optimistic: false,
-            })
-            .then((result) => {
-                clearInlineDraftContent(draft);
-                setInlineComment((prev) => {
-                    if (!prev) return prev;
-                    if (prev.path !== draft.path) return prev;
-                    if (prev.line !== draft.line) return prev;
-                    if (prev.side !== draft.side) return prev;
-                    return null;
+    const reactionMutation = useMutation({
+        mutationFn: (payload: { commentId: number; hasInlineContext: boolean; content: CommentReactionContent; reacted: boolean }) => {
+            if (!actionPolicy.canReact) {
+                if (!authCanWrite) requestAuth("write");
+                throw new Error(actionPolicy.disabledReason.react ?? "Sign in required");
+            }
+            return setCommentReaction({ prRef: ensurePrRef(), ...payload });
+        },
+        onMutate: (vars) => {
+            onOptimisticReactionSet(vars);
+        },
+        onSuccess: async () => {
+            await refreshComments();
+        },
+        onError: (error) => {
+            setActionError(error instanceof Error ? error.message : "Failed to update reaction");
+        },
+        onSettled: (_result, _error, vars) => {
+            onOptimisticReactionClear(vars);
+        },
+    });
+    const submitInlineComment = useCallback(
+        (options?: { pending?: boolean }) => {
+            if (!actionPolicy.canCommentInline) {
+                setActionError(actionPolicy.disabledReason.commentInline ?? "Sign in required");
+                if (!authCanWrite) requestAuth("write");
+                return undefined;
+            }
+            if (!inlineComment) return undefined;
+            const content = getInlineDraftContent(inlineComment).trim();
+            if (!content) return undefined;
+            const draft = inlineComment;
+            return createCommentMutation
+                .mutateAsync({
+                    path: draft.path,
+                    content,
+                    line: draft.line,
+                    side: draft.side,
+                    startLine: draft.startLine,
+                    startSide: draft.startSide,
+                    optimistic: false,
+                    pending: Boolean(options?.pending) && actionPolicy.canBatchReview,
+                })
+                .then((result) => {
+                    clearInlineDraftContent(draft);
+                    setInlineComment((prev) => (prev && isSameInlineDraft(prev, draft) ? null : prev));
+                    return result;
                 });
-                return result;
-            });
-    }, [
-        actionPolicy.canCommentInline,
-        actionPolicy.disabledReason.commentInline,
-        authCanWrite,
-        clearInlineDraftContent,
-        createCommentMutation,
-        getInlineDraftContent,
-        inlineComment,
-        requestAuth,
-        setActionError,
-        setInlineComment,
-    ]);
+        },
+        [
+            actionPolicy.canBatchReview,
+            actionPolicy.canCommentInline,
+            actionPolicy.disabledReason.commentInline,
+            authCanWrite,
+            clearInlineDraftContent,
+            createCommentMutation,
+            getInlineDraftContent,
+            inlineComment,
+            requestAuth,
+            setActionError,
+            setInlineComment,
+        ],
+    );
     const submitSuggestions = useCallback(
         (suggestions: Suggestion[]) => {
             if (!actionPolicy.canCommentInline) {
@@ -278,6 +312,13 @@ export function useReviewCommentActions({
         [updateCommentMutation],
     );
 
+    const toggleCommentReaction = useCallback(
+        (comment: PullRequestComment, content: CommentReactionContent, reacted: boolean) => {
+            reactionMutation.mutate({ commentId: comment.id, hasInlineContext: Boolean(comment.inline?.path), content, reacted });
+        },
+        [reactionMutation.mutate],
+    );
+
     return {
         createCommentMutation,
         createSuggestionCommentsMutation,
@@ -288,6 +329,7 @@ export function useReviewCommentActions({
         submitInlineComment,
         submitPullRequestComment,
         submitThreadReply,
+        toggleCommentReaction,
         updateCommentMutation,
     };
 }
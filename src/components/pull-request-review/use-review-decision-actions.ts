@@ -3,13 +3,15 @@ import { useCallback } from "react";
 import {
     approvePullRequest,
     declinePullRequest,
+    discardPendingReview,
     markPullRequestAsDraft,
     markPullRequestReady,
     mergePullRequest,
     removePullRequestApproval,
     requestChangesOnPullRequest,
+    submitPendingReview,
 } from "@/lib/git-host/service";
-import type { PullRequestBundle } from "@/lib/git-host/types";
+import type { PendingReviewEvent, PullRequestBundle } from "@/lib/git-host/types";
 import type { ActionPolicy } from "./review-page-actions.types";
 
 type UseReviewDecisionActionsParams = {
@@ -17,14 +19,23 @@ type UseReviewDecisionActionsParams = {
     authCanWrite: boolean;
     closeSourceBranch: boolean;
     ensurePrRef: () => NonNullable<PullRequestBundle["prRef"]>;
+    hasPendingReview: boolean;
     isApprovedByCurrentUser: boolean;
     isDraft: boolean;
     mergeMessage: string;
     mergeStrategy: string;
+    /** Called after an approval, change request or review submission lands on the host. */
+    onReviewed: () => void;
+    openSubmitReview: (event: PendingReviewEvent) => void;
+    refreshComments: () => Promise<void>;
     refreshPullRequest: () => Promise<void>;
     requestAuth: (reason: "write" | "rate_limit") => void;
     setActionError: (message: string | null) => void;
     setMergeOpen: (open: boolean) => void;
+    setSubmitReviewBody: (body: string) => void;
+    setSubmitReviewOpen: (open: boolean) => void;
+    submitReviewBody: string;
+    submitReviewEvent: PendingReviewEvent;
 };
 
 export function useReviewDecisionActions({
@@ -32,19 +43,28 @@ export function useReviewDecisionActions({
     authCanWrite,
     closeSourceBranch,
     ensurePrRef,
+    hasPendingReview,
     isApprovedByCurrentUser,
     isDraft,
     mergeMessage,
     mergeStrategy,
+    onReviewed,
+    openSubmitReview,
+    refreshComments,
     refreshPullRequest,
     requestAuth,
     setActionError,
     setMergeOpen,
+    setSubmitReviewBody,
+    setSubmitReviewOpen,
+    submitReviewBody,
+    submitReviewEvent,
 }: UseReviewDecisionActionsParams) {
     const approveMutation = useMutation({
         mutationFn: () => approvePullRequest({ prRef: ensurePrRef() }),
         onSuccess: async () => {
             setActionError(null);
+            onReviewed();
             await refreshPullRequest();
         },
         onError: (error) => {
@@ -65,6 +85,7 @@ export function useReviewDecisionActions({
         mutationFn: () => requestChangesOnPullRequest({ prRef: ensurePrRef() }),
         onSuccess: async () => {
             setActionError(null);
+            onReviewed();
             await refreshPullRequest();
         },
         onError: (error) => {
@@ -108,7 +129,32 @@ export function useReviewDecisionActions({
             setActionError(error instanceof Error ? error.message : isDraft ? "Failed to mark pull request as ready" : "Failed to mark pull request as draft");
         },
     });
+    const submitReviewMutation = useMutation({
+        mutationFn: () => submitPendingReview({ prRef: ensurePrRef(), event: submitReviewEvent, body: submitReviewBody }),
+        onSuccess: async () => {
+            setSubmitReviewOpen(false);
+            setSubmitReviewBody("");
+            setActionError(null);
+            onReviewed();
+            await Promise.all([refreshPullRequest(), refreshComments()]);
+        },
+        onError: (error) => {
+            setActionError(error instanceof Error ? error.message : "Failed to submit review");
+        },
+    });
+    const discardReviewMutation = useMutation({
+        mutationFn: () => discardPendingReview({ prRef: ensurePrRef() }),
+        onSuccess: async () => {
+            setSubmitReviewOpen(false);
+            setActionError(null);
+            await refreshComments();
+        },
+        onError: (error) => {
+            setActionError(error instanceof Error ? error.message : "Failed to discard pending review");
+        },
+    });
 
+    // A pending review swallows standalone decisions on GitHub, so route them through the review submission instead.
     const handleApprovePullRequest = useCallback(() => {
         if (!actionPolicy.canApprove) {
             if (!authCanWrite) requestAuth("write");
@@ -119,16 +165,59 @@ export function useReviewDecisionActions({
             removeApprovalMutation.mutate();
             return;
         }
+        if (hasPendingReview) {
+            openSubmitReview("approve");
+            return;
+        }
         approveMutation.mutate();
-    }, [actionPolicy.canApprove, approveMutation, authCanWrite, isApprovedByCurrentUser, removeApprovalMutation, requestAuth, requestChangesMutation]);
+    }, [
+        actionPolicy.canApprove,
+        approveMutation,
+        authCanWrite,
+        hasPendingReview,
+        isApprovedByCurrentUser,
+        openSubmitReview,
+        removeApprovalMutation,
+        requestAuth,
+        requestChangesMutation,
+    ]);
     const handleRequestChangesPullRequest = useCallback(() => {
         if (!actionPolicy.canRequestChanges) {
             if (!authCanWrite) requestAuth("write");
             return;
         }
         if (approveMutation.isPending || removeApprovalMutation.isPending || requestChangesMutation.isPending) return;
+        if (hasPendingReview) {
+            openSubmitReview("requestChanges");
+            return;
+        }
         requestChangesMutation.mutate();
-    }, [actionPolicy.canRequestChanges, approveMutation, authCanWrite, removeApprovalMutation, requestAuth, requestChangesMutation]);
+    }, [
+        actionPolicy.canRequestChanges,
+        approveMutation,
+        authCanWrite,
+        hasPendingReview,
+        openSubmitReview,
+        removeApprovalMutation,
+        requestAuth,
+        requestChangesMutation,
+    ]);
+    const handleSubmitReview = useCallback(() => {
+        if (!actionPolicy.canBatchReview) {
+            if (!authCanWrite) requestAuth("write");
+            return;
+        }
+        if (submitReviewMutation.isPending || discardReviewMutation.isPending) return;
+        submitReviewMutation.mutate();
+    }, [actionPolicy.canBatchReview, authCanWrite, discardReviewMutation, requestAuth, submitReviewMutation]);
+    const handleDiscardReview = useCallback(() => {
+        if (!actionPolicy.canBatchReview) {
+            if (!authCanWrite) requestAuth("write");
+            return;
+        }
+        if (submitReviewMutation.isPending || discardReviewMutation.isPending) return;
+        discardReviewMutation.mutate();
+    }, [actionPolicy.canBatchReview, authCanWrite, discardReviewMutation, requestAuth, submitReviewMutation]);
     const handleDeclinePullRequest = useCallback(() => {
         if (!actionPolicy.canDecline) {
             if (!authCanWrite) requestAuth("write");
@@ -151,13 +240,17 @@ export function useReviewDecisionActions({
     return {
         approveMutation,
         declineMutation,
+        discardReviewMutation,
         handleApprovePullRequest,
         handleDeclinePullRequest,
+        handleDiscardReview,
         handleMarkPullRequestAsDraft,
         handleRequestChangesPullRequest,
+        handleSubmitReview,
         markDraftMutation,
         mergeMutation,
         removeApprovalMutation,
         requestChangesMutation,
+        submitReviewMutation,
     };
 }
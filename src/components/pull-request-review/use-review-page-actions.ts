@@ -1,7 +1,7 @@
 import { useMutation } from "@tanstack/react-query";
 import { type MutableRefObject, useCallback } from "react";
 import { updatePullRequestDescription } from "@/lib/git-host/service";
-import type { PullRequestBundle, PullRequestDetails } from "@/lib/git-host/types";
+import type { CommentReactionContent, PendingReviewEvent, PullRequestBundle, PullRequestDetails } from "@/lib/git-host/types";
 import type { ActionPolicy, CommentLineSide } from "./review-page-actions.types";
 import type { InlineCommentDraft } from "./use-inline-comment-drafts";
 import { useReviewClipboardActions } from "./use-review-clipboard-actions";
@@ -15,16 +15,23 @@ type UseReviewPageActionsProps = {
     prData: PullRequestBundle | undefined;
     pullRequest: PullRequestDetails | undefined;
     isApprovedByCurrentUser: boolean;
+    hasPendingReview: boolean;
+    onReviewed: () => void;
     refetchPullRequest: () => Promise<unknown>;
     refetchComments: () => Promise<void>;
     mergeMessage: string;
     mergeStrategy: string;
     closeSourceBranch: boolean;
     setMergeOpen: (open: boolean) => void;
+    submitReviewEvent: PendingReviewEvent;
+    submitReviewBody: string;
+    openSubmitReview: (event: PendingReviewEvent) => void;
+    setSubmitReviewOpen: (open: boolean) => void;
+    setSubmitReviewBody: (body: string) => void;
     setActionError: (message: string | null) => void;
     inlineComment: InlineCommentDraft | null;
-    getInlineDraftContent: (draft: Pick<InlineCommentDraft, "path" | "line" | "side">) => string;
-    clearInlineDraftContent: (draft: Pick<InlineCommentDraft, "path" | "line" | "side">) => void;
+    getInlineDraftContent: (draft: InlineCommentDraft) => string;
+    clearInlineDraftContent: (draft: InlineCommentDraft) => void;
     setInlineComment: (next: InlineCommentDraft | null | ((prev: InlineCommentDraft | null) => InlineCommentDraft | null)) => void;
     copyResetTimeoutRef: MutableRefObject<number | null>;
     copySourceBranchResetTimeoutRef: MutableRefObject<number | null>;
@@ -32,6 +39,8 @@ type UseReviewPageActionsProps = {
     setCopiedSourceBranch: (next: boolean) => void;
     onOptimisticCommentCreate: (payload: { path?: string; content: string; line?: number; side?: CommentLineSide; parentId?: number }) => number | null;
     onOptimisticCommentRemove: (commentId: number) => void;
+    onOptimisticReactionSet: (reaction: { commentId: number; content: CommentReactionContent; reacted: boolean }) => void;
+    onOptimisticReactionClear: (reaction: { commentId: number; content: CommentReactionContent }) => void;
 };
 
 export function useReviewPageActions({
@@ -41,12 +50,19 @@ export function useReviewPageActions({
     prData,
     pullRequest,
     isApprovedByCurrentUser,
+    hasPendingReview,
+    onReviewed,
     refetchPullRequest,
     refetchComments,
     mergeMessage,
     mergeStrategy,
     closeSourceBranch,
     setMergeOpen,
+    submitReviewEvent,
+    submitReviewBody,
+    openSubmitReview,
+    setSubmitReviewOpen,
+    setSubmitReviewBody,
     setActionError,
     inlineComment,
     getInlineDraftContent,
@@ -58,6 +74,8 @@ export function useReviewPageActions({
     setCopiedSourceBranch,
     onOptimisticCommentCreate,
     onOptimisticCommentRemove,
+    onOptimisticReactionSet,
+    onOptimisticReactionClear,
 }: UseReviewPageActionsProps) {
     const refreshPullRequest = useCallback(async () => {
         await refetchPullRequest();
@@ -73,27 +91,39 @@ export function useReviewPageActions({
     const {
         approveMutation,
         declineMutation,
+        discardReviewMutation,
         handleApprovePullRequest,
         handleDeclinePullRequest,
+        handleDiscardReview,
         handleMarkPullRequestAsDraft,
         handleRequestChangesPullRequest,
+        handleSubmitReview,
         markDraftMutation,
         mergeMutation,
         removeApprovalMutation,
         requestChangesMutation,
+        submitReviewMutation,
     } = useReviewDecisionActions({
         actionPolicy,
         authCanWrite,
         closeSourceBranch,
         ensurePrRef,
+        hasPendingReview,
         isApprovedByCurrentUser,
         isDraft: Boolean(pullRequest?.draft),
         mergeMessage,
         mergeStrategy,
+        onReviewed,
+        openSubmitReview,
+        refreshComments: refetchComments,
         refreshPullRequest,
         requestAuth,
         setActionError,
         setMergeOpen,
+        setSubmitReviewBody,
+        setSubmitReviewOpen,
+        submitReviewBody,
+        submitReviewEvent,
     });
     const {
         createCommentMutation,
@@ -105,6 +135,7 @@ export function useReviewPageActions({
         submitInlineComment,
         submitPullRequestComment,
         submitThreadReply,
+        toggleCommentReaction,
         updateCommentMutation,
     } = useReviewCommentActions({
         actionPolicy,
@@ -115,6 +146,8 @@ export function useReviewPageActions({
         getInlineDraftContent,
         inlineComment,
         onOptimisticCommentRemove,
+        onOptimisticReactionSet,
+        onOptimisticReactionClear,
         refreshComments: refetchComments,
         requestAuth,
         setActionError,
@@ -156,6 +189,8 @@ export function useReviewPageActions({
         declineMutation,
         markDraftMutation,
         mergeMutation,
+        submitReviewMutation,
+        discardReviewMutation,
         createCommentMutation,
         createSuggestionCommentsMutation,
         resolveCommentMutation,
@@ -166,12 +201,15 @@ export function useReviewPageActions({
         handleRequestChangesPullRequest,
         handleDeclinePullRequest,
         handleMarkPullRequestAsDraft,
+        handleSubmitReview,
+        handleDiscardReview,
         submitInlineComment,
         submitSuggestions,
         submitPullRequestComment,
         submitThreadReply,
         submitCommentEdit,
         submitPullRequestDescriptionEdit,
+        toggleCommentReaction,
         handleCopyPath,
         handleCopySourceBranch,
     };
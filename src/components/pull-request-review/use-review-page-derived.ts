@@ -5,10 +5,15 @@ import type { FileTreeEntry } from "@/components/file-tree";
 import { linesUpdated, normalizeNavbarState } from "@/components/pull-request-review/review-formatters";
 import { useDiffHighlighterState } from "@/components/pull-request-review/use-review-page-effects";
 import { orderFileTreePaths } from "@/lib/file-tree-order";
+import { createGeneratedFileClassifier, type GeneratedFileKind, type GeneratedFileRule } from "@/lib/generated-files";
+import { formatSuggestion, getSuggestionOriginalContents } from "@/lib/git-host/suggestions";
 import type { PullRequestBundle, PullRequestDetails } from "@/lib/git-host/types";
+import type { OutdatedCommentAnchor } from "@/lib/outdated-comments";
 import { PR_SUMMARY_NAME, PR_SUMMARY_PATH } from "@/lib/pr-summary";
 import { useReviewComputeWorker } from "@/lib/review-performance/review-compute-worker-context";
+import { analyzeStructuralDiff, type StructuralDiffOptions, type StructuralHunkLabel } from "@/lib/structural-diff";
 import { timestampValue } from "@/lib/timestamp";
+import { applyIgnoreWhitespace, type IgnoreWhitespaceMode } from "@/lib/whitespace-diff";
 import {
     buildReviewDerivedCacheKey,
     buildReviewScopeCacheKey,
@@ -22,15 +27,17 @@ import {
     type InlineCommentLineTarget,
     type SingleFileAnnotation,
     type SingleFileAnnotationMetadata,
+    toInlineCommentLineTarget,
 } from "./review-page-model";
-import type { CommentThread } from "./review-threads";
-import { buildCommentThreads, flattenThread, normalizeCommentThreads, sortThreadsByCreatedAt } from "./review-threads";
+import type { CommentThread, OrphanedCommentThread } from "./review-threads";
+import { buildCommentThreads, flattenThread, normalizeCommentThreads, reanchorOutdatedThreads, sortThreadsByCreatedAt } from "./review-threads";
 import type { InlineCommentDraft } from "./use-inline-comment-drafts";
 
 type WorkerDerivedState = {
     cacheKey: string;
     fileDiffs: FileDiffMetadata[];
     fileDiffFingerprints: Map<string, string>;
+    structuralLabels: Map<string, StructuralHunkLabel[]>;
     threads: CommentThread[];
 };
 
@@ -92,6 +99,18 @@ function latestActivityAt(thread: CommentThread) {
     }, undefined);
 }
 
+// Keyed on contents, not line counts: an edit that keeps the counts must still re-derive the hunks.
+const fileContextContentHashes = new WeakMap<{ oldLines: string[]; newLines: string[] }, string>();
+
+function fileContextContentHash(context: { oldLines: string[]; newLines: string[] }) {
+    let hash = fileContextContentHashes.get(context);
+    if (hash === undefined) {
+        hash = `${hashString(context.oldLines.join("\n"))}:${hashString(context.newLines.join("\n"))}`;
+        fileContextContentHashes.set(context, hash);
+    }
+    return hash;
+}
+
 export function useReviewPageDerived({
     prData,
     pullRequest,
@@ -106,6 +125,10 @@ export function useReviewPageDerived({
     compactDiffOptions,
     onOpenInlineCommentDraft,
     fullFileContexts,
+    structuralOptions,
+    ignoreWhitespace,
+    generatedFileRules,
+    outdatedCommentAnchors,
 }: {
     prData: PullRequestBundle | undefined;
     pullRequest: PullRequestDetails | undefined;
@@ -120,14 +143,20 @@ export function useReviewPageDerived({
     compactDiffOptions: FileDiffOptions<SingleFileAnnotationMetadata | undefined>;
     onOpenInlineCommentDraft: (path: string, target: InlineCommentLineTarget) => void;
     fullFileContexts: Record<string, { oldLines: string[]; newLines: string[] }>;
+    structuralOptions: StructuralDiffOptions;
+    ignoreWhitespace: IgnoreWhitespaceMode;
+    generatedFileRules: GeneratedFileRule[];
+    outdatedCommentAnchors: Map<number, OutdatedCommentAnchor>;
 }) {
     const diffText = prData?.diff ?? "";
+    const host = prData?.prRef.host;
     const comments = prData?.comments ?? EMPTY_COMMENTS;
     const { computeReviewDerived } = useReviewComputeWorker();
     const [workerDerived, setWorkerDerived] = useState<WorkerDerivedState>({
         cacheKey: "",
         fileDiffs: [],
         fileDiffFingerprints: new Map(),
+        structuralLabels: new Map(),
         threads: [],
     });
     const pendingDerivedCacheKeyRef = useRef<string | null>(null);
@@ -148,15 +177,31 @@ export function useReviewPageDerived({
         return buildReviewScopeCacheKey(prData.prRef, "review-derived-v2");
     }, [prData?.prRef]);
 
-    const derivedCacheKey = useMemo(
-        () =>
-            buildReviewDerivedCacheKey({
-                scopeCacheKey,
-                diffText,
-                comments,
-            }),
-        [comments, diffText, scopeCacheKey],
-    );
+    // Whitespace-insensitive hunks are only re-derived for files whose full contents have been loaded.
+    const whitespaceFileContexts = useMemo(() => (ignoreWhitespace === "none" ? {} : fullFileContexts), [fullFileContexts, ignoreWhitespace]);
+
+    const derivedCacheKey = useMemo(() => {
+        const cacheKey = buildReviewDerivedCacheKey({
+            scopeCacheKey,
+            diffText,
+            comments,
+        });
+        const whitespaceKey = hashString(
+            Object.entries(whitespaceFileContexts)
+                .map(([path, context]) => `${path}:${fileContextContentHash(context)}`)
+                .join("|"),
+        );
+        return `${cacheKey}:${structuralOptions.structural ? "structural" : "lines"}:${structuralOptions.hideFormattingChanges ? "hide-formatting" : "formatting"}:${structuralOptions.hideExactMoves ? "hide-moves" : "moves"}:${ignoreWhitespace}:${whitespaceKey}`;
+    }, [
+        comments,
+        diffText,
+        ignoreWhitespace,
+        scopeCacheKey,
+        structuralOptions.hideExactMoves,
+        structuralOptions.hideFormattingChanges,
+        structuralOptions.structural,
+        whitespaceFileContexts,
+    ]);
 
     useEffect(() => {
         let cancelled = false;
@@ -169,6 +214,7 @@ export function useReviewPageDerived({
             applyWorkerDerived(derivedCacheKey, {
                 fileDiffs: [],
                 fileDiffFingerprints: new Map(),
+                structuralLabels: new Map(),
                 threads: [],
             });
             return;
@@ -183,6 +229,9 @@ export function useReviewPageDerived({
             cacheKey: derivedCacheKey,
             diffText,
             comments,
+            structuralOptions,
+            ignoreWhitespace,
+            fileContexts: whitespaceFileContexts,
         })
             .then((result) => {
                 if (cancelled) return;
@@ -190,6 +239,7 @@ export function useReviewPageDerived({
                 applyWorkerDerived(derivedCacheKey, {
                     fileDiffs: result.fileDiffs,
                     fileDiffFingerprints: result.fileDiffFingerprints,
+                    structuralLabels: result.structuralLabels,
                     threads: result.threads,
                 });
             })
@@ -207,9 +257,15 @@ export function useReviewPageDerived({
                     }
                 });
                 const fallbackThreads = buildCommentThreads(comments);
+                const fallbackDisplayDiffs = fallbackDiffs.map((fileDiff, index) => {
+                    const context = whitespaceFileContexts[getFilePath(fileDiff, index)];
+                    return context ? applyIgnoreWhitespace(fileDiff, context, ignoreWhitespace) : fileDiff;
+                });
+                const fallbackStructural = analyzeStructuralDiff(fallbackDisplayDiffs, getFilePath, structuralOptions);
                 applyWorkerDerived(derivedCacheKey, {
-                    fileDiffs: fallbackDiffs,
+                    fileDiffs: fallbackStructural.fileDiffs,
                     fileDiffFingerprints: fallbackFingerprints,
+                    structuralLabels: fallbackStructural.labelsByPath,
                     threads: fallbackThreads,
                 });
             });
@@ -217,7 +273,17 @@ export function useReviewPageDerived({
         return () => {
             cancelled = true;
         };
-    }, [applyWorkerDerived, comments, computeReviewDerived, derivedCacheKey, diffText, workerDerived.cacheKey]);
+    }, [
+        applyWorkerDerived,
+        comments,
+        computeReviewDerived,
+        derivedCacheKey,
+        diffText,
+        ignoreWhitespace,
+        structuralOptions,
+        whitespaceFileContexts,
+        workerDerived.cacheKey,
+    ]);
 
     const rawFileDiffs = workerDerived.fileDiffs;
 
@@ -245,7 +311,8 @@ export function useReviewPageDerived({
         return rawFileDiffs.map((fileDiff, index) => {
             const path = getFilePath(fileDiff, index);
             const context = fullFileContexts[path];
-            if (!context) return fileDiff;
+            // Whitespace-insensitive diffs arrive already re-derived from the full contents.
+            if (!context || !fileDiff.isPartial) return fileDiff;
             return applyFullContext(fileDiff, context);
         });
     }, [rawFileDiffs, fullFileContexts]);
@@ -411,7 +478,18 @@ export function useReviewPageDerived({
     }, [diffByNormalizedPath, diffByPath, selectedFilePath]);
 
     const isSummarySelected = activeFile === PR_SUMMARY_PATH;
-    const threads = useMemo(() => normalizeCommentThreads(workerDerived.threads), [workerDerived.threads]);
+    const threads = useMemo(
+        () => reanchorOutdatedThreads(normalizeCommentThreads(workerDerived.threads), outdatedCommentAnchors),
+        [outdatedCommentAnchors, workerDerived.threads],
+    );
+    const orphanedThreads = useMemo(
+        () =>
+            threads.flatMap((thread): OrphanedCommentThread[] => {
+                const anchor = outdatedCommentAnchors.get(thread.root.comment.id);
+                return anchor?.status === "orphaned" && !thread.root.comment.deleted ? [{ thread, anchor }] : [];
+            }),
+        [outdatedCommentAnchors, threads],
+    );
     const unresolvedThreads = threads.filter((thread) => !thread.root.comment.resolution && !thread.root.comment.deleted);
 
     const threadsByPath = useMemo(() => {
@@ -460,7 +538,21 @@ export function useReviewPageDerived({
         [selectedThreads],
     );
 
-    const lineStats = useMemo(() => linesUpdated(prData?.diffstat ?? []), [prData?.diffstat]);
+    const generatedFileKinds = useMemo(() => {
+        const classify = createGeneratedFileClassifier(generatedFileRules);
+        const kinds = new Map<string, GeneratedFileKind>();
+        const paths = [
+            ...fileDiffs.map((fileDiff, index) => getFilePath(fileDiff, index)),
+            ...(prData?.diffstat ?? []).map((entry) => entry.new?.path ?? entry.old?.path),
+        ];
+        for (const path of paths) {
+            if (!path || kinds.has(path)) continue;
+            const kind = classify(path);
+            if (kind) kinds.set(path, kind);
+        }
+        return kinds;
+    }, [fileDiffs, generatedFileRules, prData?.diffstat]);
+    const lineStats = useMemo(() => linesUpdated(prData?.diffstat ?? [], generatedFileKinds), [generatedFileKinds, prData?.diffstat]);
     const navbarStatusTimestamp = useMemo(() => pullRequest?.mergedAt ?? pullRequest?.closedAt ?? pullRequest?.updatedAt, [pullRequest]);
     const navbarState = useMemo(() => normalizeNavbarState(pullRequest), [pullRequest]);
 
@@ -551,9 +643,16 @@ export function useReviewPageDerived({
         (filePath: string) => {
             const suggestionSourceFileDiff = rawDiffByPath.get(filePath) ?? rawDiffByNormalizedPath.get(normalizeDiffSelectionPath(filePath));
             const fileThreads = (threadsByPath.get(filePath) ?? []).filter(
-                (thread) => !thread.root.comment.deleted && Boolean(getCommentInlinePosition(thread.root.comment)),
+                (thread) =>
+                    !thread.root.comment.deleted &&
+                    Boolean(getCommentInlinePosition(thread.root.comment)) &&
+                    outdatedCommentAnchors.get(thread.root.comment.id)?.status !== "orphaned",
             );
-            const annotations: SingleFileAnnotation[] = [];
+            const annotations: SingleFileAnnotation[] = (workerDerived.structuralLabels.get(filePath) ?? []).map((label) => ({
+                side: label.side,
+                lineNumber: label.lineNumber,
+                metadata: { kind: "structural", path: filePath, label },
+            }));
 
             for (const thread of fileThreads) {
                 const position = getCommentInlinePosition(thread.root.comment);
@@ -566,16 +665,25 @@ export function useReviewPageDerived({
             }
 
             if (inlineComment && inlineComment.path === filePath) {
+                // Suggestions replace lines of the new file, so only drafts entirely on the additions side can offer one.
+                let suggestionTemplate: string | undefined;
+                if (inlineComment.side === "additions" && !inlineComment.startSide && host) {
+                    const originalContents = getSuggestionOriginalContents(
+                        { to: inlineComment.line, startTo: inlineComment.startLine },
+                        suggestionSourceFileDiff,
+                    );
+                    if (originalContents !== null) suggestionTemplate = formatSuggestion(originalContents, host);
+                }
                 annotations.push({
                     side: inlineComment.side,
                     lineNumber: inlineComment.line,
-                    metadata: { kind: "draft", draft: inlineComment },
+                    metadata: { kind: "draft", draft: inlineComment, suggestionTemplate },
                 });
             }
 
             return annotations;
         },
-        [inlineComment, rawDiffByNormalizedPath, rawDiffByPath, threadsByPath],
+        [host, inlineComment, outdatedCommentAnchors, rawDiffByNormalizedPath, rawDiffByPath, threadsByPath, workerDerived.structuralLabels],
     );
 
     const singleFileAnnotations = useMemo(() => {
@@ -590,6 +698,11 @@ export function useReviewPageDerived({
             onLineNumberClick: undefined,
             onLineEnter: (props) => handleDiffLineEnter(props, openInlineDraftForSelectedPath),
             onLineLeave: handleDiffLineLeave,
+            enableLineSelection: true,
+            onLineSelectionEnd: (range) => {
+                const target = toInlineCommentLineTarget(range);
+                if (target) openInlineDraftForSelectedPath(target);
+            },
         }),
         [compactDiffOptions, handleDiffLineEnter, handleDiffLineLeave, openInlineDraftForSelectedPath],
     );
@@ -611,11 +724,13 @@ export function useReviewPageDerived({
         unresolvedThreads,
         sidebarThreads,
         threadsByPath,
+        orphanedThreads,
         selectedFileLevelThreads,
         lineStats,
         navbarStatusTimestamp,
         navbarState,
         fileLineStats,
+        generatedFileKinds,
         handleDiffLineEnter,
         handleDiffLineLeave,
         buildFileAnnotations,
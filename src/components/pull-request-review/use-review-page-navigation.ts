@@ -11,6 +11,7 @@ type UseReviewPageNavigationProps = {
     viewMode: "single" | "all";
     treeOrderedVisiblePaths: string[];
     isPathViewed: (path: string) => boolean;
+    isPathGenerated: (path: string) => boolean;
     diffScrollRef: MutableRefObject<HTMLDivElement | null>;
     setActiveFile: (next: string | undefined) => void;
     showSettingsPanel: boolean;
@@ -33,6 +34,7 @@ export function useReviewPageNavigation({
     viewMode,
     treeOrderedVisiblePaths,
     isPathViewed,
+    isPathGenerated,
     diffScrollRef,
     setActiveFile,
     showSettingsPanel,
@@ -141,14 +143,13 @@ export function useReviewPageNavigation({
     const selectAdjacentUnviewedFile = useCallback(
         (direction: "next" | "previous") => {
             const step = direction === "next" ? 1 : -1;
-            const hasUnviewedCandidate = treeOrderedVisiblePaths.some((path) => path !== PR_SUMMARY_PATH && !isPathViewed(path));
+            const isUnviewedCandidate = (path: string) => path !== PR_SUMMARY_PATH && !isPathViewed(path) && !isPathGenerated(path);
+            const hasUnviewedCandidate = treeOrderedVisiblePaths.some(isUnviewedCandidate);
             if (!hasUnviewedCandidate) return;
 
             if (!activeFile) {
                 const fallbackPath =
-                    direction === "next"
-                        ? treeOrderedVisiblePaths.find((path) => path !== PR_SUMMARY_PATH && !isPathViewed(path))
-                        : [...treeOrderedVisiblePaths].reverse().find((path) => path !== PR_SUMMARY_PATH && !isPathViewed(path));
+                    direction === "next" ? treeOrderedVisiblePaths.find(isUnviewedCandidate) : [...treeOrderedVisiblePaths].reverse().find(isUnviewedCandidate);
                 if (fallbackPath) {
                     selectAndRevealFile(fallbackPath);
                 }
@@ -160,14 +161,12 @@ export function useReviewPageNavigation({
 
             for (let index = currentIndex + step; index >= 0 && index < treeOrderedVisiblePaths.length; index += step) {
                 const candidate = treeOrderedVisiblePaths[index];
-                if (!candidate) continue;
-                if (candidate === PR_SUMMARY_PATH) continue;
-                if (isPathViewed(candidate)) continue;
+                if (!candidate || !isUnviewedCandidate(candidate)) continue;
                 selectAndRevealFile(candidate);
                 return;
             }
         },
-        [activeFile, isPathViewed, selectAndRevealFile, treeOrderedVisiblePaths],
+        [activeFile, isPathGenerated, isPathViewed, selectAndRevealFile, treeOrderedVisiblePaths],
     );
 
     useKeyboardNavigation({
@@ -1,7 +1,8 @@
 import type { ComponentProps } from "react";
 import { useMemo } from "react";
 import type { FileTreeEntry } from "@/components/file-tree";
-import type { GitHost } from "@/lib/git-host/types";
+import type { GeneratedFileKind } from "@/lib/generated-files";
+import type { GitHost, PendingReviewEvent } from "@/lib/git-host/types";
 import type { ReviewPageMainView } from "./review-page-main-view";
 
 type MainViewProps = ComponentProps<typeof ReviewPageMainView>;
@@ -22,6 +23,8 @@ export function useReviewPageViewProps({
     showUnviewedOnly,
     unviewedFileCount,
     viewedFiles,
+    changedSinceViewedPaths,
+    generatedFileKinds,
     pullRequest,
     isRefreshing,
     navbarState,
@@ -34,6 +37,7 @@ export function useReviewPageViewProps({
     requestChangesPending,
     declinePending,
     markDraftPending,
+    pendingReviewCommentCount,
     copiedSourceBranch,
     commitScopeSlot,
     omnibarOpen,
@@ -54,6 +58,9 @@ export function useReviewPageViewProps({
     onDecline,
     onMarkDraft,
     onOpenMerge,
+    onOpenSubmitReview,
+    suggestionBatchCount,
+    onOpenSuggestionBatch,
     onOpenOmnibar,
     onOmnibarOpenChange,
     onOmnibarSelectFile,
@@ -70,6 +77,20 @@ export function useReviewPageViewProps({
     canMerge,
     isMerging,
     onMerge,
+    submitReviewOpen,
+    onSubmitReviewDialogOpenChange,
+    submitReviewEvent,
+    onSubmitReviewEventChange,
+    submitReviewBody,
+    onSubmitReviewBodyChange,
+    canRequestChangesInReview,
+    isSubmittingReview,
+    isDiscardingReview,
+    onSubmitReview,
+    onDiscardReview,
+    reviewBatchComments,
+    reviewBatchProgress,
+    onRemoveReviewBatchComment,
 }: {
     treeWidth: number;
     treeCollapsed: boolean;
@@ -86,6 +107,8 @@ export function useReviewPageViewProps({
     showUnviewedOnly: boolean;
     unviewedFileCount: number;
     viewedFiles: Set<string>;
+    changedSinceViewedPaths: ReadonlySet<string>;
+    generatedFileKinds: ReadonlyMap<string, GeneratedFileKind>;
     pullRequest: { source?: { branch?: { name?: string } }; destination?: { branch?: { name?: string } }; draft?: boolean };
     isRefreshing: boolean;
     navbarState: string;
@@ -98,6 +121,7 @@ export function useReviewPageViewProps({
     requestChangesPending: boolean;
     declinePending: boolean;
     markDraftPending: boolean;
+    pendingReviewCommentCount: number;
     copiedSourceBranch: boolean;
     commitScopeSlot?: MainViewProps["navbarProps"]["commitScopeSlot"];
     omnibarOpen: boolean;
@@ -118,6 +142,9 @@ export function useReviewPageViewProps({
     onDecline: MainViewProps["navbarProps"]["onDecline"];
     onMarkDraft: MainViewProps["navbarProps"]["onMarkDraft"];
     onOpenMerge: MainViewProps["navbarProps"]["onOpenMerge"];
+    onOpenSubmitReview: () => void;
+    suggestionBatchCount: number;
+    onOpenSuggestionBatch: () => void;
     onOpenOmnibar: MainViewProps["navbarProps"]["onOpenOmnibar"];
     onOmnibarOpenChange: MainViewProps["omnibarProps"]["onOpenChange"];
     onOmnibarSelectFile: MainViewProps["omnibarProps"]["onSelectFile"];
@@ -134,6 +161,20 @@ export function useReviewPageViewProps({
     canMerge: boolean;
     isMerging: boolean;
     onMerge: () => void;
+    submitReviewOpen: boolean;
+    onSubmitReviewDialogOpenChange: (open: boolean) => void;
+    submitReviewEvent: PendingReviewEvent;
+    onSubmitReviewEventChange: (event: PendingReviewEvent) => void;
+    submitReviewBody: string;
+    onSubmitReviewBodyChange: (body: string) => void;
+    canRequestChangesInReview: boolean;
+    isSubmittingReview: boolean;
+    isDiscardingReview: boolean;
+    onSubmitReview: () => void;
+    onDiscardReview: () => void;
+    reviewBatchComments?: MainViewProps["submitReviewDialogProps"]["batchComments"];
+    reviewBatchProgress?: MainViewProps["submitReviewDialogProps"]["batchProgress"];
+    onRemoveReviewBatchComment?: (id: string) => void;
 }) {
     const sidebarProps = useMemo<MainViewProps["sidebarProps"]>(
         () => ({
@@ -148,6 +189,8 @@ export function useReviewPageViewProps({
             showUnviewedOnly,
             unviewedFileCount,
             viewedFiles,
+            changedSinceViewedPaths,
+            generatedFileKinds,
             onRefresh,
             onToggleSettings,
             onCollapseTree,
@@ -174,6 +217,8 @@ export function useReviewPageViewProps({
             treeCollapsed,
             treeWidth,
             viewedFiles,
+            changedSinceViewedPaths,
+            generatedFileKinds,
             treeLoading,
         ],
     );
@@ -205,6 +250,7 @@ export function useReviewPageViewProps({
             isRequestChangesPending: requestChangesPending,
             isDeclinePending: declinePending,
             isMarkDraftPending: markDraftPending,
+            pendingReviewCommentCount,
             copiedSourceBranch,
             commitScopeSlot,
             onExpandTree,
@@ -215,6 +261,9 @@ export function useReviewPageViewProps({
             onDecline,
             onMarkDraft,
             onOpenMerge,
+            onOpenSubmitReview,
+            suggestionBatchCount,
+            onOpenSuggestionBatch,
             onOpenOmnibar,
         }),
         [
@@ -247,10 +296,14 @@ export function useReviewPageViewProps({
             onMarkDraft,
             onOpenMerge,
             onOpenOmnibar,
+            onOpenSubmitReview,
+            onOpenSuggestionBatch,
             onRequestChanges,
+            pendingReviewCommentCount,
             pullRequest,
             requestChangesPending,
             reviewers,
+            suggestionBatchCount,
             treeCollapsed,
         ],
     );
@@ -335,5 +388,44 @@ export function useReviewPageViewProps({
         ],
     );
 
-    return { sidebarProps, navbarProps, omnibarProps, mergeDialogProps };
+    const submitReviewDialogProps = useMemo<MainViewProps["submitReviewDialogProps"]>(
+        () => ({
+            open: submitReviewOpen,
+            onOpenChange: onSubmitReviewDialogOpenChange,
+            pendingCommentCount: pendingReviewCommentCount,
+            event: submitReviewEvent,
+            onEventChange: onSubmitReviewEventChange,
+            body: submitReviewBody,
+            onBodyChange: onSubmitReviewBodyChange,
+            canApprove: actionPolicy.canApprove,
+            canRequestChanges: canRequestChangesInReview,
+            isSubmitting: isSubmittingReview,
+            isDiscarding: isDiscardingReview,
+            onSubmit: onSubmitReview,
+            onDiscard: onDiscardReview,
+            batchComments: reviewBatchComments,
+            batchProgress: reviewBatchProgress,
+            onRemoveBatchComment: onRemoveReviewBatchComment,
+        }),
+        [
+            actionPolicy.canApprove,
+            canRequestChangesInReview,
+            isDiscardingReview,
+            isSubmittingReview,
+            onDiscardReview,
+            onRemoveReviewBatchComment,
+            onSubmitReview,
+            onSubmitReviewBodyChange,
+            onSubmitReviewDialogOpenChange,
+            onSubmitReviewEventChange,
+            pendingReviewCommentCount,
+            reviewBatchComments,
+            reviewBatchProgress,
+            submitReviewBody,
+            submitReviewEvent,
+            submitReviewOpen,
+        ],
+    );
+
+    return { sidebarProps, navbarProps, omnibarProps, mergeDialogProps, submitReviewDialogProps };
 }
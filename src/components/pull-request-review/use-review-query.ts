@@ -12,11 +12,14 @@ import {
 } from "@/lib/git-host/query-collections";
 import { parseSchema, pullRequestBundleSchema } from "@/lib/git-host/schemas";
 import { getCapabilitiesForHost } from "@/lib/git-host/service";
+import { hostInstanceKey } from "@/lib/git-host/shared/instance";
 import { type GitHost, HostApiError, type PullRequestCriticalBundle, type PullRequestDeferredBundle } from "@/lib/git-host/types";
 import { markReviewPerf, measureReviewPerf, setCriticalLoadDuration, setDeferredLoadDuration } from "@/lib/review-performance/metrics";
 
 interface UseReviewQueryProps {
     host: GitHost;
+    instance?: string;
+    account?: string;
     workspace: string;
     repo: string;
     pullRequestId: string;
@@ -55,11 +58,14 @@ function normalizeBundleRecord(value: unknown): PullRequestBundleRecord | undefi
     };
 }
 
-export function useReviewQuery({ host, workspace, repo, pullRequestId, canRead, canWrite, onRequireAuth }: UseReviewQueryProps) {
-    const hostCapabilities = useMemo(() => getCapabilitiesForHost(host), [host]);
+export function useReviewQuery({ host, instance, account, workspace, repo, pullRequestId, canRead, canWrite, onRequireAuth }: UseReviewQueryProps) {
+    const hostCapabilities = useMemo(() => getCapabilitiesForHost(host, instance), [host, instance]);
     const canLoadPullRequest = canRead || hostCapabilities.publicReadSupported;
-    const prRef = useMemo(() => ({ host, workspace, repo, pullRequestId }), [host, pullRequestId, repo, workspace]);
-    const bundleId = useMemo(() => `${host}:${workspace}/${repo}/${pullRequestId}`, [host, pullRequestId, repo, workspace]);
+    const prRef = useMemo(
+        () => ({ host, ...(instance ? { instance } : {}), ...(account ? { account } : {}), workspace, repo, pullRequestId }),
+        [account, host, instance, pullRequestId, repo, workspace],
+    );
+    const bundleId = useMemo(() => `${hostInstanceKey(prRef)}:${workspace}/${repo}/${pullRequestId}`, [prRef, pullRequestId, repo, workspace]);
     const fetchScopeId = useMemo(() => pullRequestDetailsFetchScopeId(prRef), [prRef]);
     const fetchActivity = useSyncExternalStore(subscribeGitHostFetchActivity, getGitHostFetchActivitySnapshot, getGitHostFetchActivitySnapshot);
     const hostDataCollectionsVersion = useSyncExternalStore(
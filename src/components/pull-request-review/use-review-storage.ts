@@ -1,19 +1,24 @@
 import { useMemo } from "react";
-import { readReviewViewedVersionIds, writeReviewViewedVersionIds } from "@/lib/data/query-collections";
+import { readReviewViewedCommitRanges, readReviewViewedVersionIds, writeReviewViewedVersionIds } from "@/lib/data/query-collections";
+import { hostInstanceKey } from "@/lib/git-host/shared/instance";
 import type { GitHost } from "@/lib/git-host/types";
 
 const VIEWED_STORAGE_PREFIX = "review_viewed_state:v1";
 
-export function useViewedStorageKey(data?: { host: GitHost; workspace: string; repo: string; pullRequestId: string }, diffScopeSegment = "full") {
+export function useViewedStorageKey(
+    data?: { host: GitHost; instance?: string; workspace: string; repo: string; pullRequestId: string },
+    diffScopeSegment = "full",
+) {
     const host = data?.host;
+    const instance = data?.instance;
     const workspace = data?.workspace;
     const repo = data?.repo;
     const pullRequestId = data?.pullRequestId;
 
     return useMemo(() => {
         if (!host || !workspace || !repo || !pullRequestId) return "";
-        return `${VIEWED_STORAGE_PREFIX}:${host}:${workspace}/${repo}/${pullRequestId}:${diffScopeSegment}`;
-    }, [diffScopeSegment, host, pullRequestId, repo, workspace]);
+        return `${VIEWED_STORAGE_PREFIX}:${hostInstanceKey({ host, instance })}:${workspace}/${repo}/${pullRequestId}:${diffScopeSegment}`;
+    }, [diffScopeSegment, host, instance, pullRequestId, repo, workspace]);
 }
 
 export function readViewedVersionIds(
@@ -31,7 +36,12 @@ export function readViewedVersionIds(
     return new Set(Array.from(viewedIds).filter((versionId) => knownVersionIds.has(versionId)));
 }
 
-export function writeViewedVersionIds(storageKey: string, viewedVersionIds: Set<string>) {
+export function readViewedCommitRanges(storageKey: string) {
+    if (!storageKey) return {};
+    return readReviewViewedCommitRanges(storageKey);
+}
+
+export function writeViewedVersionIds(storageKey: string, viewedVersionIds: Set<string>, viewedCommitRanges?: Record<string, string>) {
     if (!storageKey) return;
-    writeReviewViewedVersionIds(storageKey, viewedVersionIds);
+    writeReviewViewedVersionIds(storageKey, viewedVersionIds, viewedCommitRanges);
 }
@@ -0,0 +1,185 @@
+import { useMutation } from "@tanstack/react-query";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { commitPullRequestFileChanges, fetchPullRequestFileContents } from "@/lib/git-host/service";
+import { pullRequestRefKey } from "@/lib/git-host/shared/instance";
+import {
+    type AcceptedSuggestion,
+    type AppliedSuggestionFile,
+    applySuggestions,
+    type SuggestionConflict,
+    suggestionSourceKey,
+} from "@/lib/git-host/suggestions";
+import type { PullRequestBundle, PullRequestRef } from "@/lib/git-host/types";
+import type { ActionPolicy } from "./review-page-actions.types";
+
+export type SuggestionActions = {
+    canApply: boolean;
+    disabledReason?: string;
+    isBatched: (commentId: number) => boolean;
+    onApply: (suggestion: AcceptedSuggestion) => void;
+    onToggleBatch: (suggestion: AcceptedSuggestion) => void;
+};
+
+export type SuggestionCommitPreview =
+    | { status: "loading" }
+    | { status: "error"; error: string }
+    | { status: "ready"; headCommitHash: string; files: AppliedSuggestionFile[]; conflicts: SuggestionConflict[] };
+
+type UseSuggestionBatchProps = {
+    /** The pull request the route points at; the batch is kept per host, instance, account and pull request. */
+    scopeRef: PullRequestRef;
+    actionPolicy: ActionPolicy;
+    authCanWrite: boolean;
+    requestAuth: (reason: "write" | "rate_limit") => void;
+    prRef: PullRequestBundle["prRef"] | undefined;
+    headCommitHash: string | undefined;
+    refreshComments: () => Promise<void>;
+    refreshPullRequest: () => Promise<unknown>;
+};
+
+function defaultCommitMessage(suggestions: AcceptedSuggestion[]) {
+    if (suggestions.length !== 1) return `Apply ${suggestions.length} suggestions from code review`;
+    return `Apply suggestion from code review to ${suggestions[0]?.path}`;
+}
+
+export function useSuggestionBatch({
+    scopeRef,
+    actionPolicy,
+    authCanWrite,
+    requestAuth,
+    prRef,
+    headCommitHash,
+    refreshComments,
+    refreshPullRequest,
+}: UseSuggestionBatchProps) {
+    const scopeId = pullRequestRefKey(scopeRef);
+    const [batchState, setBatchState] = useState<{ scopeId: string; suggestions: AcceptedSuggestion[] }>({ scopeId, suggestions: [] });
+    const batch = useMemo(() => (batchState.scopeId === scopeId ? batchState.suggestions : []), [batchState, scopeId]);
+    // Applying a single suggestion previews only that one and leaves the batch as it is.
+    const [previewSuggestions, setPreviewSuggestions] = useState<AcceptedSuggestion[] | null>(null);
+    const [preview, setPreview] = useState<SuggestionCommitPreview>({ status: "loading" });
+    const [commitMessage, setCommitMessage] = useState("");
+
+    const updateBatch = useCallback(
+        (update: (current: AcceptedSuggestion[]) => AcceptedSuggestion[]) =>
+            setBatchState((current) => ({ scopeId, suggestions: update(current.scopeId === scopeId ? current.suggestions : []) })),
+        [scopeId],
+    );
+
+    const openPreview = useCallback(
+        (suggestions: AcceptedSuggestion[]) => {
+            if (!actionPolicy.canCommitSuggestions) {
+                if (!authCanWrite) requestAuth("write");
+                return;
+            }
+            if (suggestions.length === 0) return;
+            setCommitMessage(defaultCommitMessage(suggestions));
+            setPreviewSuggestions(suggestions);
+        },
+        [actionPolicy.canCommitSuggestions, authCanWrite, requestAuth],
+    );
+
+    useEffect(() => {
+        if (!previewSuggestions) return;
+        if (!prRef || !headCommitHash) {
+            setPreview({ status: "error", error: "Pull request data is incomplete" });
+            return;
+        }
+        let cancelled = false;
+        setPreview({ status: "loading" });
+        void (async () => {
+            try {
+                const paths = Array.from(new Set(previewSuggestions.map((suggestion) => suggestion.path)));
+                const writtenSources = Array.from(
+                    new Map(
+                        previewSuggestions.map((suggestion) => [
+                            suggestionSourceKey(suggestion.writtenAt.commitHash, suggestion.path),
+                            { commit: suggestion.writtenAt.commitHash, path: suggestion.path },
+                        ]),
+                    ),
+                );
+                const [contents, writtenContents] = await Promise.all([
+                    Promise.all(paths.map((path) => fetchPullRequestFileContents({ prRef, commit: headCommitHash, path }))),
+                    // A written commit that is gone (force-pushed away) leaves its suggestions as conflicts instead of failing the preview.
+                    Promise.all(writtenSources.map(([, source]) => fetchPullRequestFileContents({ prRef, ...source }).catch(() => null))),
+                ]);
+                const { files, conflicts } = applySuggestions(
+                    previewSuggestions,
+                    new Map(paths.map((path, index) => [path, contents[index] ?? ""])),
+                    new Map(
+                        writtenSources.flatMap(([key], index) => {
+                            const written = writtenContents[index];
+                            return written === null || written === undefined ? [] : [[key, written] as const];
+                        }),
+                    ),
+                );
+                if (!cancelled) setPreview({ status: "ready", headCommitHash, files, conflicts });
+            } catch (error) {
+                if (!cancelled) setPreview({ status: "error", error: error instanceof Error ? error.message : "Failed to load the source files" });
+            }
+        })();
+        return () => {
+            cancelled = true;
+        };
+    }, [headCommitHash, prRef, previewSuggestions]);
+
+    const commitMutation = useMutation({
+        mutationFn: async () => {
+            if (!prRef) throw new Error("Pull request data is incomplete");
+            if (preview.status !== "ready" || preview.files.length === 0) throw new Error("There are no suggestions to commit");
+            await commitPullRequestFileChanges({
+                prRef,
+                message: commitMessage.trim() || defaultCommitMessage(previewSuggestions ?? []),
+                expectedHeadCommitHash: preview.headCommitHash,
+                files: preview.files.map((file) => ({ path: file.path, contents: file.after })),
+            });
+            return new Set(preview.files.flatMap((file) => file.commentIds));
+        },
+        onSuccess: async (committedIds) => {
+            updateBatch((current) => current.filter((suggestion) => !committedIds.has(suggestion.commentId)));
+            setPreviewSuggestions(null);
+            await Promise.all([refreshPullRequest(), refreshComments()]);
+        },
+    });
+
+    const suggestionActions = useMemo<SuggestionActions>(
+        () => ({
+            canApply: actionPolicy.canCommitSuggestions,
+            disabledReason: actionPolicy.disabledReason.commitSuggestions,
+            isBatched: (commentId) => batch.some((suggestion) => suggestion.commentId === commentId),
+            onApply: (suggestion) => openPreview([suggestion]),
+            onToggleBatch: (suggestion) =>
+                updateBatch((current) =>
+                    current.some((entry) => entry.commentId === suggestion.commentId)
+                        ? current.filter((entry) => entry.commentId !== suggestion.commentId)
+                        : [...current, suggestion],
+                ),
+        }),
+        [actionPolicy.canCommitSuggestions, actionPolicy.disabledReason.commitSuggestions, batch, openPreview, updateBatch],
+    );
+
+    const handleOpenChange = useCallback(
+        (open: boolean) => {
+            if (open || commitMutation.isPending) return;
+            setPreviewSuggestions(null);
+            commitMutation.reset();
+        },
+        [commitMutation],
+    );
+
+    return {
+        suggestionBatch: batch,
+        suggestionActions,
+        openSuggestionBatchPreview: () => openPreview(batch),
+        suggestionCommitDialogProps: {
+            open: previewSuggestions !== null,
+            onOpenChange: handleOpenChange,
+            preview,
+            commitMessage,
+            onCommitMessageChange: setCommitMessage,
+            isCommitting: commitMutation.isPending,
+            commitError: commitMutation.error instanceof Error ? commitMutation.error.message : null,
+            onCommit: () => commitMutation.mutate(),
+        },
+    };
+}
@@ -3,8 +3,10 @@ import { AlertCircle, FolderGit, Loader2, Search } from "lucide-react";
 import { useEffect, useMemo, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { DEFAULT_HOST_ACCOUNT_ID } from "@/lib/data/query-collections";
 import { getRepositoryCollection } from "@/lib/git-host/query-collections";
 import type { GitHost, RepoRef } from "@/lib/git-host/types";
+import { usePrContext } from "@/lib/pr-context";
 
 export function RepositorySelector({
     host,
@@ -21,7 +23,9 @@ export function RepositorySelector({
 }) {
     const [query, setQuery] = useState("");
     const [selected, setSelected] = useState<Set<string>>(new Set());
-    const autoRefetchHostRef = useRef<GitHost | null>(null);
+    const autoRefetchScopeRef = useRef<string | null>(null);
+    const { activeAccountByHost } = usePrContext();
+    const accountId = activeAccountByHost[host];
 
     const initialSelection = useMemo(() => initialSelected.map((repo) => repo.fullName).toSorted(), [initialSelected]);
     const initialSelectionKey = initialSelection.join("|");
@@ -31,7 +35,7 @@ export function RepositorySelector({
         setSelected(new Set(initialSelectionKey ? initialSelectionKey.split("|") : []));
     }, [initialSelectionKey]);
 
-    const repositoryCollection = useMemo(() => getRepositoryCollection(host), [host]);
+    const repositoryCollection = useMemo(() => getRepositoryCollection(host, accountId), [host, accountId]);
     const repositoriesQuery = useLiveQuery(
         (q) => q.from({ repository: repositoryCollection.collection }).select(({ repository }) => ({ ...repository })),
         [repositoryCollection],
@@ -40,12 +44,15 @@ export function RepositorySelector({
     useEffect(() => {
         if (repositoryCollection.utils.isFetching) return;
         if (repositoryCollection.utils.lastError) return;
-        if (autoRefetchHostRef.current === host) return;
-        autoRefetchHostRef.current = host;
+        if (autoRefetchScopeRef.current === `${host}#${accountId}`) return;
+        autoRefetchScopeRef.current = `${host}#${accountId}`;
         void repositoryCollection.utils.refetch({ throwOnError: false });
-    }, [host, repositoryCollection]);
+    }, [accountId, host, repositoryCollection]);
 
-    const entries = useMemo(() => (repositoriesQuery.data ?? []).filter((repo) => repo.host === host), [host, repositoriesQuery.data]);
+    const entries = useMemo(
+        () => (repositoriesQuery.data ?? []).filter((repo) => repo.host === host && (repo.account ?? DEFAULT_HOST_ACCOUNT_ID) === accountId),
+        [accountId, host, repositoriesQuery.data],
+    );
     const repositoryError = repositoryCollection.utils.lastError;
     const isRepositoryLoading = repositoriesQuery.isLoading || (repositoryCollection.utils.isFetching && entries.length === 0);
     const filtered = useMemo(() => {
@@ -2,7 +2,17 @@ import { RotateCcw, Settings2 } from "lucide-react";
 import { useCallback } from "react";
 import type { SettingsTab } from "@/components/settings-navigation";
 import { Button } from "@/components/ui/button";
-import { AppearanceTab, DiffSettingsTab, ShortcutsTab, StorageTab, TreeTab, type WorkspaceMode } from "@/features/settings/components/settings-tabs";
+import {
+    AccountsTab,
+    AppearanceTab,
+    DiffSettingsTab,
+    NotificationsTab,
+    ShortcutsTab,
+    StorageTab,
+    SyncTab,
+    TreeTab,
+    type WorkspaceMode,
+} from "@/features/settings/components/settings-tabs";
 import { useAppearance } from "@/lib/appearance-context";
 import { useDiffOptions } from "@/lib/diff-options-context";
 import { useFileTree } from "@/lib/file-tree-context";
@@ -70,6 +80,9 @@ function SettingsPanelContent({
     if (activeTab === "diff") return <DiffSettingsTab workspaceMode={workspaceMode} onWorkspaceModeChange={onWorkspaceModeChange} />;
     if (activeTab === "tree") return <TreeTab />;
     if (activeTab === "shortcuts") return <ShortcutsTab />;
+    if (activeTab === "accounts") return <AccountsTab />;
+    if (activeTab === "notifications") return <NotificationsTab />;
+    if (activeTab === "sync") return <SyncTab />;
     if (activeTab === "storage") return <StorageTab />;
     return <AppearanceTab />;
 }
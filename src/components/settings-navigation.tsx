@@ -1,4 +1,4 @@
-export type SettingsTab = "appearance" | "diff" | "tree" | "shortcuts" | "storage";
+export type SettingsTab = "appearance" | "diff" | "tree" | "shortcuts" | "accounts" | "notifications" | "sync" | "storage";
 
 const SETTINGS_PATH_PREFIX = "__settings__/";
 
@@ -10,6 +10,9 @@ const SETTINGS_NAV_ITEMS: ReadonlyArray<{
     { tab: "diff", name: "Diff" },
     { tab: "tree", name: "Tree" },
     { tab: "shortcuts", name: "Shortcuts" },
+    { tab: "accounts", name: "Accounts" },
+    { tab: "notifications", name: "Notifications" },
+    { tab: "sync", name: "Sync" },
     { tab: "storage", name: "Storage" },
 ];
 
@@ -28,7 +31,16 @@ export function getSettingsTreeItems() {
 export function settingsTabFromPath(path?: string): SettingsTab | null {
     if (!path?.startsWith(SETTINGS_PATH_PREFIX)) return null;
     const tab = path.slice(SETTINGS_PATH_PREFIX.length);
-    if (tab === "appearance" || tab === "diff" || tab === "tree" || tab === "shortcuts" || tab === "storage") {
+    if (
+        tab === "appearance" ||
+        tab === "diff" ||
+        tab === "tree" ||
+        tab === "shortcuts" ||
+        tab === "accounts" ||
+        tab === "notifications" ||
+        tab === "sync" ||
+        tab === "storage"
+    ) {
         return tab;
     }
     return null;
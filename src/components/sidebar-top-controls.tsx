@@ -1,6 +1,7 @@
 import { House, RefreshCw, Settings2 } from "lucide-react";
 import type { ReactNode } from "react";
 import { useMemo, useState, useSyncExternalStore } from "react";
+import { AccountSwitcher } from "@/components/account-switcher";
 import { Button } from "@/components/ui/button";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { getGitHostFetchActivitySnapshot, subscribeGitHostFetchActivity } from "@/lib/git-host/query-collections";
@@ -14,6 +15,7 @@ type SidebarTopControlsProps = {
     settingsActive?: boolean;
     settingsAriaLabel?: string;
     settingsButtonClassName?: string;
+    onManageAccounts?: () => void;
     rightContent?: ReactNode;
 };
 
@@ -25,6 +27,7 @@ export function SidebarTopControls({
     settingsActive = false,
     settingsAriaLabel = "Settings",
     settingsButtonClassName,
+    onManageAccounts,
     rightContent,
 }: SidebarTopControlsProps) {
     const [manualRefreshInFlight, setManualRefreshInFlight] = useState(false);
@@ -105,6 +108,7 @@ export function SidebarTopControls({
                     ))}
                 </TooltipContent>
             </Tooltip>
+            <AccountSwitcher onManageAccounts={onManageAccounts} />
             {rightContent ? <div className="ml-auto flex min-w-0 flex-1 items-center justify-end gap-1">{rightContent}</div> : null}
         </div>
     );
@@ -0,0 +1,87 @@
+import { AlertCircle, Inbox, Loader2 } from "lucide-react";
+import { GitHostIcon } from "@/components/git-host-icon";
+import { Timestamp } from "@/components/timestamp";
+import { AuthorAvatar } from "@/features/landing/components/landing-pull-request-table";
+import type { InboxSection } from "@/features/landing/model/landing-model";
+import type { RepoRef } from "@/lib/git-host/types";
+
+export function LandingInbox({
+    sections,
+    hasConnectedHosts,
+    isLoading,
+    error,
+    onOpenPullRequest,
+}: {
+    sections: InboxSection[];
+    hasConnectedHosts: boolean;
+    isLoading: boolean;
+    error: unknown;
+    onOpenPullRequest: (repo: RepoRef, pullRequestId: string) => void;
+}) {
+    if (!hasConnectedHosts) {
+        return (
+            <div className="max-w-2xl space-y-2 rounded-md border border-border-muted bg-surface-1 p-8 text-center">
+                <div className="flex items-center justify-center gap-2 text-muted-foreground">
+                    <Inbox className="size-4" />
+                    <span className="text-[13px]">No hosts connected.</span>
+                </div>
+                <p className="text-[12px] text-muted-foreground">Connect Bitbucket, GitHub or GitLab in the top right to fill your review inbox.</p>
+            </div>
+        );
+    }
+
+    if (isLoading) {
+        return (
+            <div className="flex h-full items-center justify-center gap-2 text-[13px] text-muted-foreground" role="status">
+                <Loader2 className="size-4 animate-spin" />
+                <span>Loading review inbox...</span>
+            </div>
+        );
+    }
+
+    return (
+        <div className="h-full space-y-4 overflow-y-auto">
+            {error ? (
+                <div className="max-w-2xl rounded-md border border-destructive/40 bg-destructive/10 p-4 text-[13px] text-destructive">
+                    <div className="flex items-center gap-2">
+                        <AlertCircle className="size-4" />
+                        <span>[ERROR] {error instanceof Error ? error.message : "Failed to load review inbox"}</span>
+                    </div>
+                </div>
+            ) : null}
+            {sections.map((section) => (
+                <section key={section.id} className="space-y-1">
+                    <h2 className="flex items-center gap-2 text-[12px] font-medium">
+                        <span>{section.label}</span>
+                        <span className="font-mono text-muted-foreground">{section.rows.length}</span>
+                    </h2>
+                    {section.rows.length === 0 ? (
+                        <div className="rounded-md border border-border-muted bg-surface-1 px-3 py-2 text-[12px] text-muted-foreground">Nothing here.</div>
+                    ) : (
+                        <ul className="rounded-md border border-border-muted bg-surface-1 text-[12px]">
+                            {section.rows.map(({ repo, repoKey, pullRequest }) => {
+                                const authorName = pullRequest.author?.displayName ?? "Unknown";
+                                return (
+                                    <li key={`${repoKey}#${pullRequest.id}`} className="border-b border-border-muted last:border-b-0">
+                                        <button
+                                            type="button"
+                                            className="flex w-full items-center gap-2 px-2 py-1.5 text-left hover:bg-selection"
+                                            onClick={() => onOpenPullRequest(repo, String(pullRequest.id))}
+                                        >
+                                            <GitHostIcon host={repo.host} className="size-3.5 shrink-0" />
+                                            <span className="w-48 shrink-0 truncate text-muted-foreground">{repo.fullName}</span>
+                                            <span className="shrink-0 font-mono text-muted-foreground">#{pullRequest.id}</span>
+                                            <span className="min-w-0 flex-1 truncate">{pullRequest.title}</span>
+                                            <AuthorAvatar name={authorName} url={pullRequest.author?.avatarUrl} />
+                                            <Timestamp value={pullRequest.updatedAt} className="w-20 shrink-0 text-right text-muted-foreground" />
+                                        </button>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    )}
+                </section>
+            ))}
+        </div>
+    );
+}
@@ -5,14 +5,19 @@ import { requestOpenAppPullRequestOmnibar } from "@/components/omnibar/app-pull-
 import { OmnibarMenubarInput } from "@/components/omnibar/omnibar-menubar-input";
 import { RepositorySelector } from "@/components/repository-selector";
 import { Button } from "@/components/ui/button";
+import { LandingInbox } from "@/features/landing/components/landing-inbox";
 import { LandingPullRequestTable } from "@/features/landing/components/landing-pull-request-table";
-import type { SortedRootPullRequest } from "@/features/landing/model/landing-model";
+import type { DiffPanel, InboxSection, SortedRootPullRequest } from "@/features/landing/model/landing-model";
 import { getHostLabel } from "@/lib/git-host/service";
 import type { GitHost, RepoRef } from "@/lib/git-host/types";
 import { usePrContext } from "@/lib/pr-context";
 import { cn } from "@/lib/utils";
 
-const HOST_MENU_ORDER: GitHost[] = ["bitbucket", "github"];
+const HOST_MENU_ORDER: GitHost[] = ["bitbucket", "github", "gitlab"];
+const PULL_REQUEST_LISTS: Array<{ id: Exclude<DiffPanel, "repositories">; label: string }> = [
+    { id: "inbox", label: "Inbox" },
+    { id: "pull-requests", label: "Selected repositories" },
+];
 
 function HostAuthPanel({ host }: { host: GitHost }) {
     const { authByHost, logout } = usePrContext();
@@ -40,6 +45,7 @@ function HostAuthPanel({ host }: { host: GitHost }) {
 
 export function LandingMainContent({
     showRepositoryPanel,
+    showInboxPanel,
     isRefreshing,
     activeHost,
     authByHost,
@@ -48,6 +54,11 @@ export function LandingMainContent({
     isRepoPullRequestLoading,
     repoPullRequestError,
     sortedRootPullRequests,
+    inboxSections,
+    hasConnectedHosts,
+    isInboxLoading,
+    inboxError,
+    onSelectPullRequestList,
     onHome,
     onRefresh,
     onToggleSettings,
@@ -58,6 +69,7 @@ export function LandingMainContent({
     onOpenPullRequest,
 }: {
     showRepositoryPanel: boolean;
+    showInboxPanel: boolean;
     isRefreshing: boolean;
     activeHost: GitHost;
     authByHost: Record<GitHost, boolean>;
@@ -66,6 +78,11 @@ export function LandingMainContent({
     isRepoPullRequestLoading: boolean;
     repoPullRequestError: unknown;
     sortedRootPullRequests: SortedRootPullRequest[];
+    inboxSections: InboxSection[];
+    hasConnectedHosts: boolean;
+    isInboxLoading: boolean;
+    inboxError: unknown;
+    onSelectPullRequestList: (panel: Exclude<DiffPanel, "repositories">) => void;
     onHome: () => void;
     onRefresh: () => Promise<void> | void;
     onToggleSettings: () => void;
@@ -110,7 +127,31 @@ export function LandingMainContent({
                 >
                     <RefreshCw className={cn("size-3.5", isRefreshing ? "animate-spin" : undefined)} />
                 </Button>
-                {showRepositoryPanel ? <span className="ml-2 shrink-0 text-muted-foreground">Repository Selection</span> : null}
+                {showRepositoryPanel ? (
+                    <span className="ml-2 shrink-0 text-muted-foreground">Repository Selection</span>
+                ) : (
+                    <div className="ml-2 flex shrink-0 items-center gap-1">
+                        {PULL_REQUEST_LISTS.map((list) => {
+                            const isActive = (list.id === "inbox") === showInboxPanel;
+                            return (
+                                <Button
+                                    key={list.id}
+                                    type="button"
+                                    variant="ghost"
+                                    size="sm"
+                                    className={cn(
+                                        "h-8 rounded-sm px-2 text-[11px] text-muted-foreground hover:text-foreground",
+                                        isActive ? "bg-selection text-foreground" : null,
+                                    )}
+                                    aria-pressed={isActive}
+                                    onClick={() => onSelectPullRequestList(list.id)}
+                                >
+                                    {list.label}
+                                </Button>
+                            );
+                        })}
+                    </div>
+                )}
                 <OmnibarMenubarInput onOpen={requestOpenAppPullRequestOmnibar} />
                 <div className="flex shrink-0 items-center gap-1 pl-2">
                     {HOST_MENU_ORDER.map((host) => {
@@ -173,6 +214,14 @@ export function LandingMainContent({
                             <HostAuthPanel host={activeHost} />
                         )}
                     </div>
+                ) : showInboxPanel ? (
+                    <LandingInbox
+                        sections={inboxSections}
+                        hasConnectedHosts={hasConnectedHosts}
+                        isLoading={isInboxLoading}
+                        error={inboxError}
+                        onOpenPullRequest={onOpenPullRequest}
+                    />
                 ) : selectedRepoCount === 0 ? (
                     <div className="max-w-2xl space-y-2 rounded-md border border-border-muted bg-surface-1 p-8 text-center">
                         <div className="flex items-center justify-center gap-2 text-muted-foreground">
@@ -1,20 +1,16 @@
 import { LandingMainContent } from "@/features/landing/components/landing-main-content";
 import { useLandingPageView } from "@/features/landing/hooks/use-landing-page-view";
+import type { DiffPanel } from "@/features/landing/model/landing-model";
 import type { GitHost } from "@/lib/git-host/types";
 
-export function LandingPage({
-    initialHost,
-    initialDiffPanel = "pull-requests",
-}: {
-    initialHost?: GitHost;
-    initialDiffPanel?: "pull-requests" | "repositories";
-} = {}) {
+export function LandingPage({ initialHost, initialDiffPanel = "inbox" }: { initialHost?: GitHost; initialDiffPanel?: DiffPanel } = {}) {
     const view = useLandingPageView({ initialHost, initialDiffPanel });
 
     return (
         <div className="h-full min-h-0 flex bg-background">
             <LandingMainContent
                 showRepositoryPanel={view.showRepositoryPanel}
+                showInboxPanel={view.showInboxPanel}
                 isRefreshing={view.isRefreshing}
                 activeHost={view.activeHost}
                 authByHost={view.authByHost}
@@ -23,6 +19,11 @@ export function LandingPage({
                 isRepoPullRequestLoading={view.isRepoPullRequestLoading}
                 repoPullRequestError={view.repoPullRequestError}
                 sortedRootPullRequests={view.sortedRootPullRequests}
+                inboxSections={view.inboxSections}
+                hasConnectedHosts={view.hasConnectedHosts}
+                isInboxLoading={view.isInboxLoading}
+                inboxError={view.inboxError}
+                onSelectPullRequestList={view.onSelectPullRequestList}
                 onHome={view.onHome}
                 onRefresh={view.refreshCurrentView}
                 onToggleSettings={view.onToggleSettings}
@@ -52,7 +52,7 @@ function authorInitials(name?: string) {
     return `${parts[0]?.[0] ?? ""}${parts[1]?.[0] ?? ""}`.toUpperCase() || "?";
 }
 
-function AuthorAvatar({ name, url }: { name: string; url?: string }) {
+export function AuthorAvatar({ name, url }: { name: string; url?: string }) {
     return (
         <Tooltip>
             <TooltipTrigger asChild>
@@ -1,14 +1,15 @@
 import { useNavigate } from "@tanstack/react-router";
 import { useCallback, useEffect, useMemo, useState, useSyncExternalStore } from "react";
+import { useReviewInbox } from "@/features/landing/hooks/use-review-inbox";
 import { useSelectedRepoPullRequests } from "@/features/landing/hooks/use-selected-repo-pull-requests";
 import type { DiffPanel } from "@/features/landing/model/landing-model";
 import { getGitHostFetchActivitySnapshot, getRepositoryCollection, subscribeGitHostFetchActivity } from "@/lib/git-host/query-collections";
 import type { GitHost, RepoRef } from "@/lib/git-host/types";
 import { usePrContext } from "@/lib/pr-context";
 
-export function useLandingPageView({ initialHost, initialDiffPanel = "pull-requests" }: { initialHost?: GitHost; initialDiffPanel?: DiffPanel } = {}) {
+export function useLandingPageView({ initialHost, initialDiffPanel = "inbox" }: { initialHost?: GitHost; initialDiffPanel?: DiffPanel } = {}) {
     const navigate = useNavigate();
-    const { authByHost, activeHost, setActiveHost, reposByHost, setReposForHost, clearReposForHost, logout } = usePrContext();
+    const { authByHost, activeHost, activeAccountByHost, setActiveHost, reposByHost, setReposForHost, clearReposForHost, logout } = usePrContext();
     const {
         sortedRootPullRequests,
         selectedRepoCount,
@@ -17,12 +18,15 @@ export function useLandingPageView({ initialHost, initialDiffPanel = "pull-reque
         openPullRequest,
         refetch: refetchPullRequests,
     } = useSelectedRepoPullRequests({ autoRefetch: true });
+    const { connectedHosts, inboxSections, inboxError, isInboxLoading, refetch: refetchInbox } = useReviewInbox({ autoRefetch: true });
 
     const [diffPanel, setDiffPanel] = useState<DiffPanel>(initialDiffPanel);
     const showRepositoryPanel = diffPanel === "repositories";
     const showPullRequestPanel = diffPanel === "pull-requests";
+    const showInboxPanel = diffPanel === "inbox";
     const fetchActivity = useSyncExternalStore(subscribeGitHostFetchActivity, getGitHostFetchActivitySnapshot, getGitHostFetchActivitySnapshot);
-    const activeHostRepositoryCollection = useMemo(() => getRepositoryCollection(activeHost), [activeHost]);
+    const activeAccountId = activeAccountByHost[activeHost];
+    const activeHostRepositoryCollection = useMemo(() => getRepositoryCollection(activeHost, activeAccountId), [activeHost, activeAccountId]);
 
     useEffect(() => {
         if (!initialHost) return;
@@ -35,9 +39,13 @@ export function useLandingPageView({ initialHost, initialDiffPanel = "pull-reque
             await activeHostRepositoryCollection.utils.refetch({ throwOnError: false });
             return;
         }
+        if (showInboxPanel) {
+            await refetchInbox();
+            return;
+        }
         if (!showPullRequestPanel) return;
         await refetchPullRequests();
-    }, [activeHostRepositoryCollection, refetchPullRequests, showPullRequestPanel, showRepositoryPanel]);
+    }, [activeHostRepositoryCollection, refetchInbox, refetchPullRequests, showInboxPanel, showPullRequestPanel, showRepositoryPanel]);
 
     const openRepositorySelection = useCallback(
         (host: GitHost) => {
@@ -56,15 +64,23 @@ export function useLandingPageView({ initialHost, initialDiffPanel = "pull-reque
         repoPullRequestError,
         selectedRepoCount,
         showRepositoryPanel,
+        showInboxPanel,
         sortedRootPullRequests,
+        inboxSections,
+        hasConnectedHosts: connectedHosts.length > 0,
+        isInboxLoading,
+        inboxError,
         isRefreshing: fetchActivity.activeFetchCount > 0,
         isRepoPullRequestLoading,
         clearReposForHost,
         openPullRequest,
         openRepositorySelection,
         refreshCurrentView,
+        onSelectPullRequestList: (panel: Exclude<DiffPanel, "repositories">) => {
+            setDiffPanel(panel);
+        },
         onHome: () => {
-            setDiffPanel("pull-requests");
+            setDiffPanel("inbox");
             navigate({ to: "/" });
         },
         onToggleSettings: () => {
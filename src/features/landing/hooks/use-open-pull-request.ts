@@ -0,0 +1,50 @@
+import { useNavigate } from "@tanstack/react-router";
+import { useCallback } from "react";
+import { DEFAULT_REVIEW_SCOPE_SEARCH } from "@/features/landing/model/landing-model";
+import type { RepoRef } from "@/lib/git-host/types";
+
+export function useOpenPullRequest() {
+    const navigate = useNavigate();
+
+    return useCallback(
+        (repo: RepoRef, pullRequestId: string) => {
+            if (repo.host === "github") {
+                navigate({
+                    to: "/$workspace/$repo/pull/$pullRequestId",
+                    params: {
+                        workspace: repo.workspace,
+                        repo: repo.repo,
+                        pullRequestId,
+                    },
+                    search: { ...DEFAULT_REVIEW_SCOPE_SEARCH, ...(repo.instance ? { instance: repo.instance } : {}) },
+                    hash: "",
+                });
+                return;
+            }
+            if (repo.host === "gitlab") {
+                navigate({
+                    to: "/$workspace/$repo/-/merge_requests/$pullRequestId",
+                    params: {
+                        workspace: repo.workspace,
+                        repo: repo.repo,
+                        pullRequestId,
+                    },
+                    search: DEFAULT_REVIEW_SCOPE_SEARCH,
+                    hash: "",
+                });
+                return;
+            }
+            navigate({
+                to: "/$workspace/$repo/pull-requests/$pullRequestId",
+                params: {
+                    workspace: repo.workspace,
+                    repo: repo.repo,
+                    pullRequestId,
+                },
+                search: { ...DEFAULT_REVIEW_SCOPE_SEARCH, ...(repo.instance ? { instance: repo.instance } : {}) },
+                hash: "",
+            });
+        },
+        [navigate],
+    );
+}
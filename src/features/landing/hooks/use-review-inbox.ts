@@ -0,0 +1,55 @@
+import { useLiveQuery } from "@tanstack/react-db";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { buildInboxSections, HOSTS } from "@/features/landing/model/landing-model";
+import { getInboxPullRequestCollection } from "@/lib/git-host/query-collections";
+import { usePrContext } from "@/lib/pr-context";
+
+export function useReviewInbox({ autoRefetch = true }: { autoRefetch?: boolean } = {}) {
+    const { authByHost, activeAccountByHost, reposByHost } = usePrContext();
+    const [autoRefetchScopeKey, setAutoRefetchScopeKey] = useState<string | null>(null);
+    const [pendingRefetchCount, setPendingRefetchCount] = useState(0);
+
+    const connectedHosts = useMemo(() => HOSTS.filter((host) => authByHost[host]), [authByHost]);
+    const inboxScopeKey = connectedHosts.map((host) => `${host}#${activeAccountByHost[host]}`).join("|");
+
+    const inboxCollection = useMemo(() => getInboxPullRequestCollection({ hosts: connectedHosts, reposByHost }), [connectedHosts, reposByHost]);
+    const inboxQuery = useLiveQuery(
+        (q) => q.from({ inboxPullRequest: inboxCollection.collection }).select(({ inboxPullRequest }) => ({ ...inboxPullRequest })),
+        [inboxCollection],
+    );
+
+    const refetch = useCallback(async () => {
+        setPendingRefetchCount((count) => count + 1);
+        try {
+            await inboxCollection.utils.refetch({ throwOnError: false });
+        } finally {
+            setPendingRefetchCount((count) => count - 1);
+        }
+    }, [inboxCollection]);
+
+    useEffect(() => {
+        if (!autoRefetch) return;
+        if (connectedHosts.length === 0 || inboxCollection.utils.isFetching) return;
+        if (autoRefetchScopeKey === inboxScopeKey) return;
+        setAutoRefetchScopeKey(inboxScopeKey);
+        void refetch();
+    }, [autoRefetch, autoRefetchScopeKey, connectedHosts.length, inboxCollection, inboxScopeKey, refetch]);
+
+    const inboxSections = useMemo(() => {
+        // Records from hosts that were disconnected since the last fetch stay in memory; hide them.
+        const records = (inboxQuery.data ?? []).filter((record) => connectedHosts.includes(record.host));
+        return buildInboxSections(records);
+    }, [connectedHosts, inboxQuery.data]);
+
+    return {
+        connectedHosts,
+        inboxSections,
+        inboxError: inboxCollection.utils.lastError,
+        isInboxLoading:
+            connectedHosts.length > 0 &&
+            inboxCollection.utils.dataUpdatedAt === 0 &&
+            !inboxCollection.utils.lastError &&
+            (pendingRefetchCount > 0 || inboxCollection.utils.isFetching),
+        refetch,
+    };
+}
@@ -1,19 +1,12 @@
 import { useLiveQuery } from "@tanstack/react-db";
-import { useNavigate } from "@tanstack/react-router";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import {
-    buildGroupedPullRequests,
-    buildSortedRootPullRequests,
-    DEFAULT_REVIEW_SCOPE_SEARCH,
-    HOSTS,
-    shouldShowRepoPullRequestLoading,
-} from "@/features/landing/model/landing-model";
+import { useOpenPullRequest } from "@/features/landing/hooks/use-open-pull-request";
+import { buildGroupedPullRequests, buildSortedRootPullRequests, HOSTS, shouldShowRepoPullRequestLoading } from "@/features/landing/model/landing-model";
 import { getRepoPullRequestCollection } from "@/lib/git-host/query-collections";
-import type { RepoRef } from "@/lib/git-host/types";
+import { repoRefKey } from "@/lib/git-host/shared/instance";
 import { usePrContext } from "@/lib/pr-context";
 
 export function useSelectedRepoPullRequests({ autoRefetch = true }: { autoRefetch?: boolean } = {}) {
-    const navigate = useNavigate();
     const { reposByHost } = usePrContext();
     const [autoRefetchRepoPrScopeKey, setAutoRefetchRepoPrScopeKey] = useState<string | null>(null);
     const [pendingRepoPrScopeKey, setPendingRepoPrScopeKey] = useState<string | null>(null);
@@ -25,7 +18,7 @@ export function useSelectedRepoPullRequests({ autoRefetch = true }: { autoRefetc
             HOSTS.map(
                 (host) =>
                     `${host}:${reposByHost[host]
-                        .map((repo) => repo.fullName)
+                        .map((repo) => repoRefKey(repo))
                         .sort()
                         .join(",")}`,
             )
@@ -73,34 +66,7 @@ export function useSelectedRepoPullRequests({ autoRefetch = true }: { autoRefetc
     );
     const sortedRootPullRequests = useMemo(() => buildSortedRootPullRequests(groupedPullRequests), [groupedPullRequests]);
 
-    const openPullRequest = useCallback(
-        (repo: RepoRef, pullRequestId: string) => {
-            if (repo.host === "github") {
-                navigate({
-                    to: "/$workspace/$repo/pull/$pullRequestId",
-                    params: {
-                        workspace: repo.workspace,
-                        repo: repo.repo,
-                        pullRequestId,
-                    },
-                    search: DEFAULT_REVIEW_SCOPE_SEARCH,
-                    hash: "",
-                });
-                return;
-            }
-            navigate({
-                to: "/$workspace/$repo/pull-requests/$pullRequestId",
-                params: {
-                    workspace: repo.workspace,
-                    repo: repo.repo,
-                    pullRequestId,
-                },
-                search: DEFAULT_REVIEW_SCOPE_SEARCH,
-                hash: "",
-            });
-        },
-        [navigate],
-    );
+    const openPullRequest = useOpenPullRequest();
 
     const repoPullRequestError = repoPullRequestCollection.utils.lastError;
     const repoPullRequestRecordCount = repoPullRequestsQuery.data?.length ?? 0;
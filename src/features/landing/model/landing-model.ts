@@ -1,6 +1,7 @@
+import { repoRefKey } from "@/lib/git-host/shared/instance";
 import type { GitHost, PullRequestSummary, RepoRef } from "@/lib/git-host/types";
 
-export const HOSTS: GitHost[] = ["bitbucket", "github"];
+export const HOSTS: GitHost[] = ["bitbucket", "github", "gitlab"];
 export const DEFAULT_REVIEW_SCOPE_SEARCH = {} as const;
 
 export function shouldShowRepoPullRequestLoading({
@@ -22,7 +23,7 @@ export function shouldShowRepoPullRequestLoading({
     return isLiveQueryLoading || (isFetching && recordCount === 0);
 }
 
-export type DiffPanel = "pull-requests" | "repositories";
+export type DiffPanel = "inbox" | "pull-requests" | "repositories";
 
 export type GroupedPullRequestEntry = {
     host: GitHost;
@@ -39,6 +40,22 @@ export type SortedRootPullRequest = {
     updatedAtTimestamp: number;
 };
 
+export type InboxSectionId = "reviewRequested" | "approvedSinceUpdated" | "authored" | "commented";
+
+export type InboxSection = {
+    id: InboxSectionId;
+    label: string;
+    rows: SortedRootPullRequest[];
+};
+
+// A pull request is listed once, under the first section that applies to it.
+const INBOX_SECTIONS: Array<{ id: InboxSectionId; label: string }> = [
+    { id: "reviewRequested", label: "Review requested" },
+    { id: "approvedSinceUpdated", label: "Approved, since updated" },
+    { id: "authored", label: "Authored by me" },
+    { id: "commented", label: "Commented on" },
+];
+
 function normalizePullRequestRecord(record: unknown): {
     repoKey: string;
     host: GitHost;
@@ -52,7 +69,7 @@ function normalizePullRequestRecord(record: unknown): {
         repo?: Partial<RepoRef>;
         pullRequest?: Partial<PullRequestSummary>;
     };
-    if (value.host !== "bitbucket" && value.host !== "github") return null;
+    if (value.host !== "bitbucket" && value.host !== "github" && value.host !== "gitlab") return null;
     const pullRequestSource = value.pullRequest;
     const repoSource = value.repo;
     if (!repoSource || !pullRequestSource) return null;
@@ -67,14 +84,21 @@ function normalizePullRequestRecord(record: unknown): {
     const fullName =
         typeof repoSource.fullName === "string" && repoSource.fullName.trim().length > 0 ? repoSource.fullName.trim() : `${workspace}/${repositorySlug}`;
     const displayName = typeof repoSource.displayName === "string" && repoSource.displayName.trim().length > 0 ? repoSource.displayName.trim() : repositorySlug;
+    const instance = typeof repoSource.instance === "string" && repoSource.instance.trim().length > 0 ? repoSource.instance.trim() : undefined;
+    const account = typeof repoSource.account === "string" && repoSource.account.trim().length > 0 ? repoSource.account.trim() : undefined;
     const title =
         typeof pullRequestSource.title === "string" && pullRequestSource.title.trim().length > 0 ? pullRequestSource.title.trim() : `#${pullRequestId}`;
 
     return {
-        repoKey: typeof value.repoKey === "string" && value.repoKey.trim().length > 0 ? value.repoKey : `${value.host}:${fullName}`,
+        repoKey:
+            typeof value.repoKey === "string" && value.repoKey.trim().length > 0
+                ? value.repoKey
+                : repoRefKey({ host: value.host, instance, account, fullName }),
         host: value.host,
         repo: {
             host: value.host,
+            ...(instance ? { instance } : {}),
+            ...(account ? { account } : {}),
             workspace,
             repo: repositorySlug,
             fullName,
@@ -93,6 +117,7 @@ function normalizePullRequestRecord(record: unknown): {
                               typeof pullRequestSource.source.branch === "object" && pullRequestSource.source.branch
                                   ? { name: pullRequestSource.source.branch.name }
                                   : undefined,
+                          commit: typeof pullRequestSource.source.commit?.hash === "string" ? { hash: pullRequestSource.source.commit.hash } : undefined,
                       }
                     : undefined,
             destination:
@@ -106,6 +131,9 @@ function normalizePullRequestRecord(record: unknown): {
                     : undefined,
             links: typeof pullRequestSource.links === "object" ? pullRequestSource.links : undefined,
             author: typeof pullRequestSource.author === "object" ? pullRequestSource.author : undefined,
+            reviewers: Array.isArray(pullRequestSource.reviewers) ? pullRequestSource.reviewers : undefined,
+            participants: Array.isArray(pullRequestSource.participants) ? pullRequestSource.participants : undefined,
+            lastCommitAt: typeof pullRequestSource.lastCommitAt === "string" ? pullRequestSource.lastCommitAt : undefined,
         },
     };
 }
@@ -133,7 +161,7 @@ export function buildGroupedPullRequests(repoPullRequestRecords: unknown[], repo
     const selectedRepoKeys = new Set<string>();
     for (const host of HOSTS) {
         for (const repo of reposByHost[host]) {
-            selectedRepoKeys.add(`${host}:${repo.fullName}`);
+            selectedRepoKeys.add(repoRefKey(repo));
         }
     }
 
@@ -168,7 +196,7 @@ export function buildGroupedPullRequests(repoPullRequestRecords: unknown[], repo
 
 export function buildSortedRootPullRequests(groupedPullRequests: GroupedPullRequestEntry[]): SortedRootPullRequest[] {
     const rows = groupedPullRequests.flatMap(({ host, repo, pullRequests }) => {
-        const repoKey = `${host}:${repo.fullName}`;
+        const repoKey = repoRefKey(repo);
         return pullRequests.map((pullRequest) => ({
             host,
             repo,
@@ -188,3 +216,40 @@ export function buildSortedRootPullRequests(groupedPullRequests: GroupedPullRequ
 
     return rows;
 }
+
+export function classifyInboxPullRequest(pullRequest: PullRequestSummary, currentUserId: string): InboxSectionId | null {
+    const ownReview = pullRequest.reviewers?.find((reviewer) => reviewer.id === currentUserId);
+    if (ownReview?.requested && ownReview.status === "pending") return "reviewRequested";
+    if (ownReview?.status === "approved") {
+        const approvedAt = getDateSortTimestamp(ownReview.updatedAt);
+        const changedAt = getDateSortTimestamp(pullRequest.lastCommitAt ?? pullRequest.updatedAt);
+        if (approvedAt > Number.NEGATIVE_INFINITY && changedAt > approvedAt) return "approvedSinceUpdated";
+    }
+    if (pullRequest.author?.id === currentUserId) return "authored";
+    if (ownReview || pullRequest.participants?.some((participant) => participant.id === currentUserId)) return "commented";
+    return null;
+}
+
+export function buildInboxSections(inboxPullRequestRecords: unknown[]): InboxSection[] {
+    const rowsBySection = new Map<InboxSectionId, SortedRootPullRequest[]>();
+    for (const record of inboxPullRequestRecords) {
+        const normalizedRecord = normalizePullRequestRecord(record);
+        const currentUserId = (record as { currentUserId?: unknown }).currentUserId;
+        if (!normalizedRecord || typeof currentUserId !== "string") continue;
+        const sectionId = classifyInboxPullRequest(normalizedRecord.pullRequest, currentUserId);
+        if (!sectionId) continue;
+        const rows = rowsBySection.get(sectionId) ?? [];
+        rows.push({
+            ...normalizedRecord,
+            updatedDateLabel: formatRootListDate(normalizedRecord.pullRequest.updatedAt),
+            updatedAtTimestamp: getDateSortTimestamp(normalizedRecord.pullRequest.updatedAt),
+        });
+        rowsBySection.set(sectionId, rows);
+    }
+
+    return INBOX_SECTIONS.map(({ id, label }) => ({
+        id,
+        label,
+        rows: (rowsBySection.get(id) ?? []).toSorted((a, b) => b.updatedAtTimestamp - a.updatedAtTimestamp || b.pullRequest.id - a.pullRequest.id),
+    }));
+}
@@ -0,0 +1,62 @@
+import { CircleCheck, GitCommitHorizontal, MessageSquare, Play, X } from "lucide-react";
+import { useSyncExternalStore } from "react";
+import { GitHostIcon } from "@/components/git-host-icon";
+import { useOpenPullRequest } from "@/features/landing/hooks/use-open-pull-request";
+import { usePullRequestActivityPoller } from "@/features/notifications/hooks/use-pull-request-activity-poller";
+import type { PullRequestActivityKind } from "@/features/notifications/model/pull-request-activity";
+import { dismissActivityToast, getActivityToastsSnapshot, subscribeActivityToasts } from "@/features/notifications/state/activity-toasts";
+
+const ACTIVITY_ICONS: Record<PullRequestActivityKind, typeof CircleCheck> = {
+    commits: GitCommitHorizontal,
+    comment: MessageSquare,
+    review: CircleCheck,
+    build: Play,
+};
+
+export function PullRequestActivityNotifier() {
+    usePullRequestActivityPoller();
+    const openPullRequest = useOpenPullRequest();
+    const toasts = useSyncExternalStore(subscribeActivityToasts, getActivityToastsSnapshot, getActivityToastsSnapshot);
+
+    if (toasts.length === 0) return null;
+
+    return (
+        <div className="pointer-events-none fixed right-3 bottom-3 z-50 flex w-80 flex-col gap-2" role="status" aria-live="polite">
+            {toasts.map((toast) => {
+                const Icon = ACTIVITY_ICONS[toast.kind];
+                return (
+                    <div
+                        key={toast.id}
+                        className="pointer-events-auto flex items-start gap-2 rounded-md border border-border-muted bg-surface-1 p-2 text-[12px] shadow-lg"
+                    >
+                        <button
+                            type="button"
+                            className="flex min-w-0 flex-1 items-start gap-2 text-left"
+                            onClick={() => {
+                                dismissActivityToast(toast.id);
+                                openPullRequest(toast.repo, String(toast.pullRequestId));
+                            }}
+                        >
+                            <Icon className="mt-0.5 size-3.5 shrink-0 text-muted-foreground" />
+                            <span className="min-w-0 flex-1 space-y-0.5">
+                                <span className="flex items-center gap-1.5 truncate font-medium">
+                                    <GitHostIcon host={toast.repo.host} className="size-3" />
+                                    <span className="truncate">{toast.title}</span>
+                                </span>
+                                <span className="block text-muted-foreground">{toast.message}</span>
+                            </span>
+                        </button>
+                        <button
+                            type="button"
+                            className="shrink-0 text-muted-foreground hover:text-foreground"
+                            aria-label="Dismiss notification"
+                            onClick={() => dismissActivityToast(toast.id)}
+                        >
+                            <X className="size-3.5" />
+                        </button>
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
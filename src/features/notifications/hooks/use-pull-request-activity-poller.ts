@@ -0,0 +1,169 @@
+import { useEffect, useMemo, useRef } from "react";
+import { isRateLimitedError } from "@/components/pull-request-review/use-review-query";
+import { useOpenPullRequest } from "@/features/landing/hooks/use-open-pull-request";
+import { HOSTS } from "@/features/landing/model/landing-model";
+import {
+    buildPullRequestWatermark,
+    detectPullRequestActivity,
+    needsActivityCheck,
+    nextPollDelayMs,
+    POLL_INTERVAL_MS,
+    type PullRequestActivity,
+} from "@/features/notifications/model/pull-request-activity";
+import { pushActivityToast } from "@/features/notifications/state/activity-toasts";
+import { readPullRequestWatermark, writePullRequestWatermark } from "@/lib/data/query-collections";
+import { getInboxPullRequestCollection } from "@/lib/git-host/query-collections";
+import { fetchPullRequestDeferredByRef } from "@/lib/git-host/service";
+import { HostApiError, type PullRequestSummary, type RepoRef } from "@/lib/git-host/types";
+import { useNotificationSettings } from "@/lib/notification-settings-context";
+import { usePrContext } from "@/lib/pr-context";
+
+// Every changed pull request costs a request per poll, so only the most recently updated ones are watched.
+const MAX_WATCHED_PULL_REQUESTS = 25;
+
+type WatchedPullRequest = {
+    id: string;
+    repo: RepoRef;
+    pullRequest: PullRequestSummary;
+    currentUserId: string;
+};
+
+function viewerFor({ pullRequest, currentUserId }: WatchedPullRequest) {
+    const isAuthor = pullRequest.author?.id === currentUserId;
+    const displayName =
+        pullRequest.participants?.find((participant) => participant.id === currentUserId)?.displayName ??
+        pullRequest.reviewers?.find((reviewer) => reviewer.id === currentUserId)?.displayName ??
+        (isAuthor ? pullRequest.author?.displayName : undefined);
+    return { id: currentUserId, displayName, isAuthor };
+}
+
+// GitHub also answers 403 for missing permissions, so only a 403 that says so counts as a rate limit here.
+function isPollRateLimitError(error: unknown) {
+    if (error instanceof HostApiError && error.status === 403) return /rate limit/i.test(error.body ?? "");
+    return isRateLimitedError(error);
+}
+
+export async function checkPullRequestActivity(watched: WatchedPullRequest[], notify: (entry: WatchedPullRequest, activity: PullRequestActivity[]) => void) {
+    const candidates = watched
+        .toSorted((a, b) => (b.pullRequest.updatedAt ?? "").localeCompare(a.pullRequest.updatedAt ?? ""))
+        .slice(0, MAX_WATCHED_PULL_REQUESTS);
+
+    // Sequential on purpose: a burst of bundle requests is what trips host rate limits.
+    for (const entry of candidates) {
+        const previous = readPullRequestWatermark(entry.id);
+        if (!needsActivityCheck(previous, entry.pullRequest)) continue;
+
+        let deferred: Awaited<ReturnType<typeof fetchPullRequestDeferredByRef>>;
+        try {
+            deferred = await fetchPullRequestDeferredByRef({
+                prRef: {
+                    host: entry.repo.host,
+                    ...(entry.repo.instance ? { instance: entry.repo.instance } : {}),
+                    ...(entry.repo.account ? { account: entry.repo.account } : {}),
+                    workspace: entry.repo.workspace,
+                    repo: entry.repo.repo,
+                    pullRequestId: String(entry.pullRequest.id),
+                },
+            });
+        } catch (error) {
+            // A pull request that is gone or no longer readable is skipped; only rate limits back off the whole poll.
+            if (isPollRateLimitError(error)) throw error;
+            continue;
+        }
+        const next = buildPullRequestWatermark(entry.pullRequest, deferred);
+        // The first sighting only records a baseline; everything already there counts as seen.
+        if (previous) {
+            const activity = detectPullRequestActivity({
+                previous,
+                next,
+                comments: deferred.comments,
+                reviewers: deferred.reviewers,
+                viewer: viewerFor(entry),
+            });
+            if (activity.length > 0) notify(entry, activity);
+        }
+        await writePullRequestWatermark(entry.id, next);
+    }
+}
+
+export function usePullRequestActivityPoller() {
+    const { authByHost, reposByHost } = usePrContext();
+    const { hydrated, backgroundPolling, browserNotifications } = useNotificationSettings();
+    const openPullRequest = useOpenPullRequest();
+    const notifyRef = useRef<(entry: WatchedPullRequest, activity: PullRequestActivity[]) => void>(() => {});
+
+    const connectedHosts = useMemo(() => HOSTS.filter((host) => authByHost[host]), [authByHost]);
+    const inboxCollection = useMemo(() => getInboxPullRequestCollection({ hosts: connectedHosts, reposByHost }), [connectedHosts, reposByHost]);
+
+    notifyRef.current = (entry, activity) => {
+        const title = `${entry.repo.fullName} #${entry.pullRequest.id}`;
+        const message = activity.map((item) => item.message).join(" · ");
+        pushActivityToast({
+            kind: activity[0]?.kind ?? "comment",
+            title,
+            message,
+            repo: entry.repo,
+            pullRequestId: entry.pullRequest.id,
+        });
+        if (!browserNotifications || typeof Notification === "undefined" || Notification.permission !== "granted") return;
+        if (document.hasFocus()) return;
+        const notification = new Notification(title, { body: `${entry.pullRequest.title}\n${message}`, tag: entry.id });
+        notification.onclick = () => {
+            window.focus();
+            openPullRequest(entry.repo, String(entry.pullRequest.id));
+            notification.close();
+        };
+    };
+
+    useEffect(() => {
+        if (!hydrated || !backgroundPolling || connectedHosts.length === 0) return;
+        let cancelled = false;
+        let running = false;
+        let resumeWhenVisible = false;
+        let consecutiveFailures = 0;
+        let timer: ReturnType<typeof setTimeout> | undefined;
+
+        const schedule = (delay: number) => {
+            clearTimeout(timer);
+            timer = setTimeout(() => void poll(), delay);
+        };
+
+        const poll = async () => {
+            if (cancelled || running) return;
+            // Hidden tabs stop polling; the visibility listener picks up again.
+            if (document.hidden) {
+                resumeWhenVisible = true;
+                return;
+            }
+            running = true;
+            try {
+                await inboxCollection.utils.refetch({ throwOnError: true });
+                const watched = Array.from(inboxCollection.collection.values()).filter((record) => connectedHosts.includes(record.host));
+                await checkPullRequestActivity(watched, (entry, activity) => {
+                    if (!cancelled) notifyRef.current(entry, activity);
+                });
+                consecutiveFailures = 0;
+                if (!cancelled) schedule(POLL_INTERVAL_MS);
+            } catch (error) {
+                consecutiveFailures += 1;
+                if (!cancelled) schedule(nextPollDelayMs(consecutiveFailures, isRateLimitedError(error)));
+            } finally {
+                running = false;
+            }
+        };
+
+        const handleVisibilityChange = () => {
+            if (document.hidden || !resumeWhenVisible) return;
+            resumeWhenVisible = false;
+            schedule(0);
+        };
+
+        schedule(POLL_INTERVAL_MS);
+        document.addEventListener("visibilitychange", handleVisibilityChange);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+            document.removeEventListener("visibilitychange", handleVisibilityChange);
+        };
+    }, [backgroundPolling, connectedHosts, hydrated, inboxCollection]);
+}
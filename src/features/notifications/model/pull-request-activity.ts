@@ -0,0 +1,131 @@
+import type { PullRequestWatermark } from "@/lib/data/query-collections";
+import type { Comment, PullRequestBuildStatus, PullRequestDeferredBundle, PullRequestReviewer, PullRequestSummary } from "@/lib/git-host/types";
+
+export const POLL_INTERVAL_MS = 60_000;
+const MAX_POLL_INTERVAL_MS = 15 * 60_000;
+const RATE_LIMITED_POLL_INTERVAL_MS = 5 * 60_000;
+const MAX_RATE_LIMITED_POLL_INTERVAL_MS = 30 * 60_000;
+
+export type PullRequestActivityKind = "commits" | "comment" | "review" | "build";
+
+export type PullRequestActivity = {
+    kind: PullRequestActivityKind;
+    message: string;
+};
+
+export type PullRequestActivityViewer = {
+    id: string;
+    displayName?: string;
+    isAuthor: boolean;
+};
+
+const REVIEW_STATUS_LABELS: Partial<Record<PullRequestReviewer["status"], string>> = {
+    approved: "approved",
+    changesRequested: "requested changes",
+    declined: "declined",
+};
+
+export function nextPollDelayMs(consecutiveFailures: number, rateLimited: boolean) {
+    if (rateLimited) {
+        return Math.min(RATE_LIMITED_POLL_INTERVAL_MS * 2 ** consecutiveFailures, MAX_RATE_LIMITED_POLL_INTERVAL_MS);
+    }
+    return Math.min(POLL_INTERVAL_MS * 2 ** consecutiveFailures, MAX_POLL_INTERVAL_MS);
+}
+
+function summarizeBuildState(buildStatuses: PullRequestBuildStatus[] = []) {
+    if (buildStatuses.length === 0) return "";
+    if (buildStatuses.some((status) => status.state === "failed")) return "failed";
+    if (buildStatuses.some((status) => status.state === "pending")) return "pending";
+    if (buildStatuses.some((status) => status.state === "success")) return "success";
+    return "";
+}
+
+export function buildPullRequestWatermark(
+    pullRequest: PullRequestSummary,
+    deferred: Pick<PullRequestDeferredBundle, "comments" | "reviewers" | "buildStatuses">,
+): PullRequestWatermark {
+    return {
+        activityAt: pullRequest.updatedAt ?? "",
+        headCommitHash: pullRequest.source?.commit?.hash ?? "",
+        lastCommentId: deferred.comments.reduce((max, comment) => Math.max(max, comment.id), 0),
+        reviewStatuses: Object.fromEntries((deferred.reviewers ?? []).map((reviewer) => [reviewer.id, reviewer.status])),
+        buildState: summarizeBuildState(deferred.buildStatuses),
+    };
+}
+
+// Finishing builds does not bump a pull request's updatedAt, so pull requests with pending builds are re-checked every poll.
+export function needsActivityCheck(previous: PullRequestWatermark | null, pullRequest: PullRequestSummary) {
+    if (!previous) return true;
+    return previous.activityAt !== (pullRequest.updatedAt ?? "") || previous.buildState === "pending";
+}
+
+function threadRootId(comment: Comment, commentsById: Map<number, Comment>) {
+    let current = comment;
+    const visited = new Set<number>();
+    while (current.parent?.id !== undefined && !visited.has(current.id)) {
+        visited.add(current.id);
+        const parent = commentsById.get(current.parent.id);
+        if (!parent) return current.parent.id;
+        current = parent;
+    }
+    return current.id;
+}
+
+function isOwnComment(comment: Comment, viewer: PullRequestActivityViewer) {
+    const name = comment.user?.displayName;
+    return Boolean(name && (name === viewer.displayName || name === viewer.id));
+}
+
+// Comments count as addressed to the viewer on their own pull requests, when they mention them, or when they reply in a thread the viewer joined.
+function findCommentsForViewer(comments: Comment[], lastSeenCommentId: number, viewer: PullRequestActivityViewer) {
+    const commentsById = new Map(comments.map((comment) => [comment.id, comment]));
+    const viewerThreads = new Set(comments.filter((comment) => isOwnComment(comment, viewer)).map((comment) => threadRootId(comment, commentsById)));
+    const mention = `@${viewer.id}`.toLowerCase();
+
+    return comments.filter((comment) => {
+        if (comment.id <= lastSeenCommentId || comment.deleted || comment.pending || isOwnComment(comment, viewer)) return false;
+        if (viewer.isAuthor) return true;
+        if ((comment.content?.raw ?? "").toLowerCase().includes(mention)) return true;
+        return viewerThreads.has(threadRootId(comment, commentsById));
+    });
+}
+
+export function detectPullRequestActivity({
+    previous,
+    next,
+    comments,
+    reviewers = [],
+    viewer,
+}: {
+    previous: PullRequestWatermark;
+    next: PullRequestWatermark;
+    comments: Comment[];
+    reviewers?: PullRequestReviewer[];
+    viewer: PullRequestActivityViewer;
+}): PullRequestActivity[] {
+    const activity: PullRequestActivity[] = [];
+
+    if (!viewer.isAuthor && previous.headCommitHash && next.headCommitHash && previous.headCommitHash !== next.headCommitHash) {
+        activity.push({ kind: "commits", message: "New commits were pushed" });
+    }
+
+    const newComments = findCommentsForViewer(comments, previous.lastCommentId, viewer);
+    if (newComments.length === 1) {
+        activity.push({ kind: "comment", message: `${newComments[0]?.user?.displayName ?? "Someone"} commented` });
+    } else if (newComments.length > 1) {
+        activity.push({ kind: "comment", message: `${newComments.length} new comments` });
+    }
+
+    for (const reviewer of reviewers) {
+        const label = REVIEW_STATUS_LABELS[reviewer.status];
+        if (!label || previous.reviewStatuses[reviewer.id] === reviewer.status) continue;
+        if (reviewer.displayName && (reviewer.displayName === viewer.displayName || reviewer.displayName === viewer.id)) continue;
+        activity.push({ kind: "review", message: `${reviewer.displayName ?? "A reviewer"} ${label}` });
+    }
+
+    if (next.buildState !== previous.buildState && (next.buildState === "failed" || next.buildState === "success")) {
+        activity.push({ kind: "build", message: next.buildState === "failed" ? "Build failed" : "Build passed" });
+    }
+
+    return activity;
+}
@@ -0,0 +1,59 @@
+import type { PullRequestActivityKind } from "@/features/notifications/model/pull-request-activity";
+import type { RepoRef } from "@/lib/git-host/types";
+
+const MAX_VISIBLE_TOASTS = 4;
+const TOAST_DURATION_MS = 10_000;
+
+export type ActivityToast = {
+    id: string;
+    kind: PullRequestActivityKind;
+    title: string;
+    message: string;
+    repo: RepoRef;
+    pullRequestId: number;
+};
+
+const listeners = new Set<() => void>();
+const dismissTimers = new Map<string, ReturnType<typeof setTimeout>>();
+let toasts: ActivityToast[] = [];
+let nextToastId = 0;
+
+function setToasts(next: ActivityToast[]) {
+    toasts = next;
+    for (const listener of listeners) {
+        listener();
+    }
+}
+
+export function subscribeActivityToasts(listener: () => void) {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+export function getActivityToastsSnapshot() {
+    return toasts;
+}
+
+export function dismissActivityToast(id: string) {
+    const timer = dismissTimers.get(id);
+    if (timer) clearTimeout(timer);
+    dismissTimers.delete(id);
+    setToasts(toasts.filter((toast) => toast.id !== id));
+}
+
+export function pushActivityToast(toast: Omit<ActivityToast, "id">) {
+    const id = `activity-toast-${++nextToastId}`;
+    const next = [...toasts, { ...toast, id }];
+    for (const dropped of next.slice(0, Math.max(0, next.length - MAX_VISIBLE_TOASTS))) {
+        const timer = dismissTimers.get(dropped.id);
+        if (timer) clearTimeout(timer);
+        dismissTimers.delete(dropped.id);
+    }
+    setToasts(next.slice(-MAX_VISIBLE_TOASTS));
+    dismissTimers.set(
+        id,
+        setTimeout(() => dismissActivityToast(id), TOAST_DURATION_MS),
+    );
+}
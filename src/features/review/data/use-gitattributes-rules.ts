@@ -0,0 +1,40 @@
+import { useEffect, useState } from "react";
+import { type GeneratedFileRule, parseGitattributesRules } from "@/lib/generated-files";
+import { fetchPullRequestFileContents } from "@/lib/git-host/service";
+import type { PullRequestRef } from "@/lib/git-host/types";
+
+type GitattributesRulesState = {
+    commitHash: string;
+    rules: GeneratedFileRule[];
+};
+
+const EMPTY_RULES: GeneratedFileRule[] = [];
+
+export function useGitattributesRules({ prRef, headCommitHash }: { prRef: PullRequestRef; headCommitHash?: string }) {
+    const [state, setState] = useState<GitattributesRulesState | null>(null);
+
+    useEffect(() => {
+        if (!headCommitHash) return;
+        let cancelled = false;
+        void (async () => {
+            let rules = EMPTY_RULES;
+            try {
+                const contents = await fetchPullRequestFileContents({
+                    prRef,
+                    commit: headCommitHash,
+                    path: ".gitattributes",
+                });
+                rules = parseGitattributesRules(contents);
+            } catch {
+                // Repository attributes only refine the built-in patterns, so a failed fetch is not worth surfacing.
+            }
+            if (cancelled) return;
+            setState({ commitHash: headCommitHash, rules });
+        })();
+        return () => {
+            cancelled = true;
+        };
+    }, [headCommitHash, prRef]);
+
+    return state && state.commitHash === headCommitHash ? state.rules : EMPTY_RULES;
+}
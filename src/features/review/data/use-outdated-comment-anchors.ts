@@ -0,0 +1,68 @@
+import { useEffect, useMemo, useState } from "react";
+import { fetchPullRequestFileHistory } from "@/lib/git-host/service";
+import type { Comment, Commit, PullRequestRef } from "@/lib/git-host/types";
+import { type OutdatedCommentAnchor, trackOutdatedComment } from "@/lib/outdated-comments";
+
+type OutdatedCommentAnchorsState = {
+    key: string;
+    anchors: Map<number, OutdatedCommentAnchor>;
+};
+
+const EMPTY_ANCHORS = new Map<number, OutdatedCommentAnchor>();
+const EMPTY_COMMITS: Commit[] = [];
+const EMPTY_COMMENTS: Comment[] = [];
+
+export function useOutdatedCommentAnchors({
+    prRef,
+    commits = EMPTY_COMMITS,
+    comments = EMPTY_COMMENTS,
+}: {
+    prRef: PullRequestRef;
+    commits?: Commit[];
+    comments?: Comment[];
+}) {
+    const [state, setState] = useState<OutdatedCommentAnchorsState | null>(null);
+    const outdatedRoots = useMemo(
+        () => comments.filter((comment) => comment.inline?.outdated && comment.inline.path && comment.inline.to && !comment.parent?.id && !comment.deleted),
+        [comments],
+    );
+    const key = `${commits.map((commit) => commit.hash).join(",")}|${outdatedRoots.map((comment) => comment.id).join(",")}`;
+
+    useEffect(() => {
+        if (outdatedRoots.length === 0 || commits.length === 0) return;
+        let cancelled = false;
+        const commentsByPath = new Map<string, Comment[]>();
+        for (const comment of outdatedRoots) {
+            const path = comment.inline?.path ?? "";
+            commentsByPath.set(path, [...(commentsByPath.get(path) ?? []), comment]);
+        }
+        void (async () => {
+            const anchors = new Map<number, OutdatedCommentAnchor>();
+            await Promise.all(
+                Array.from(commentsByPath, async ([path, pathComments]) => {
+                    try {
+                        const history = await fetchPullRequestFileHistory({
+                            prRef,
+                            path,
+                            commits,
+                            limit: commits.length,
+                        });
+                        for (const comment of pathComments) {
+                            const anchor = trackOutdatedComment({ comment, commits, entries: history.entries });
+                            if (anchor) anchors.set(comment.id, anchor);
+                        }
+                    } catch {
+                        // Threads on files whose history cannot be loaded stay where the host placed them.
+                    }
+                }),
+            );
+            if (cancelled) return;
+            setState({ key, anchors });
+        })();
+        return () => {
+            cancelled = true;
+        };
+    }, [commits, key, outdatedRoots, prRef]);
+
+    return state && state.key === key ? state.anchors : EMPTY_ANCHORS;
+}
@@ -0,0 +1,30 @@
+import { useEffect, useState } from "react";
+import { ensureDataCollectionsReady, listPullRequestRevisions, type PullRequestRevision, recordPullRequestRevision } from "@/lib/data/query-collections";
+
+const NO_REVISIONS: PullRequestRevision[] = [];
+
+export function usePullRequestRevisions({ prKey, headCommitHash, baseCommitHash }: { prKey: string; headCommitHash?: string; baseCommitHash?: string }) {
+    const [loaded, setLoaded] = useState<{ prKey: string; headCommitHash?: string; revisions: PullRequestRevision[] } | null>(null);
+    // Only counts as loaded once the current head is part of the list, so "latest revision" links resolve.
+    const hydrated = loaded?.prKey === prKey && loaded.headCommitHash === headCommitHash;
+
+    useEffect(() => {
+        let cancelled = false;
+        void (async () => {
+            await ensureDataCollectionsReady();
+            if (headCommitHash && baseCommitHash) {
+                await recordPullRequestRevision(prKey, { headCommitHash, baseCommitHash });
+            }
+            if (cancelled) return;
+            setLoaded({ prKey, headCommitHash, revisions: listPullRequestRevisions(prKey) });
+        })();
+        return () => {
+            cancelled = true;
+        };
+    }, [baseCommitHash, headCommitHash, prKey]);
+
+    return {
+        hydrated,
+        revisions: hydrated ? (loaded?.revisions ?? NO_REVISIONS) : NO_REVISIONS,
+    };
+}
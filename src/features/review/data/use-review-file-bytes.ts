@@ -0,0 +1,48 @@
+import type { FileDiffMetadata } from "@pierre/diffs/react";
+import { useCallback, useEffect, useRef } from "react";
+import type { FileBytesSide } from "@/lib/binary-file";
+import { fetchPullRequestFileBytes } from "@/lib/git-host/service";
+import type { GitHost } from "@/lib/git-host/types";
+
+type PullRequestRef = {
+    host: GitHost;
+    workspace: string;
+    repo: string;
+    pullRequestId: string;
+};
+
+type UseReviewFileBytesParams = {
+    effectiveBaseCommitHash?: string;
+    effectiveHeadCommitHash?: string;
+    historyRevision: string;
+    prRef: PullRequestRef;
+};
+
+export function useReviewFileBytes({ effectiveBaseCommitHash, effectiveHeadCommitHash, historyRevision, prRef }: UseReviewFileBytesParams) {
+    const cacheRef = useRef(new Map<string, Promise<Uint8Array<ArrayBuffer>>>());
+
+    useEffect(() => {
+        void historyRevision;
+        cacheRef.current.clear();
+    }, [historyRevision]);
+
+    return useCallback(
+        (fileDiff: FileDiffMetadata, side: FileBytesSide) => {
+            const commit = side === "deletions" ? effectiveBaseCommitHash : effectiveHeadCommitHash;
+            const path = side === "deletions" ? (fileDiff.prevName ?? fileDiff.name) : fileDiff.name;
+            if (!commit) {
+                return Promise.reject(
+                    new Error(side === "deletions" ? "Base commit is unavailable for this pull request." : "Head commit is unavailable for this pull request."),
+                );
+            }
+            const cacheKey = `${commit}:${path}`;
+            const cached = cacheRef.current.get(cacheKey);
+            if (cached) return cached;
+            const pending = fetchPullRequestFileBytes({ prRef, commit, path });
+            cacheRef.current.set(cacheKey, pending);
+            pending.catch(() => cacheRef.current.delete(cacheKey));
+            return pending;
+        },
+        [effectiveBaseCommitHash, effectiveHeadCommitHash, prRef],
+    );
+}
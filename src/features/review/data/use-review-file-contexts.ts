@@ -5,6 +5,7 @@ import { type FullFileContextEntry, splitFileIntoLines } from "@/features/review
 import { savePullRequestFileContextRecord } from "@/lib/git-host/query-collections";
 import { fetchPullRequestFileContents } from "@/lib/git-host/service";
 import type { GitHost } from "@/lib/git-host/types";
+import type { ReviewDiffScopeMode } from "@/lib/review-diff-scope";
 
 type PullRequestRef = {
     host: GitHost;
@@ -19,7 +20,7 @@ type UseReviewFileContextsParams = {
     historyRevision: string;
     persistedFileContexts: Record<string, { oldLines: string[]; newLines: string[]; fetchedAt: number }>;
     prRef: PullRequestRef;
-    resolvedScopeMode: "full" | "range";
+    resolvedScopeMode: ReviewDiffScopeMode;
 };
 
 export function useReviewFileContexts({
@@ -117,6 +118,9 @@ export function useReviewFileContexts({
             if (current?.status === "ready" || persistedFileContexts[filePath]) return;
             setFileContexts((prev) => ({ ...prev, [filePath]: { status: "loading" } }));
             try {
+                if (resolvedScopeMode === "interdiff") {
+                    throw new Error("Full file context is unavailable when comparing revisions.");
+                }
                 const baseCommit = effectiveBaseCommitHash;
                 const headCommit = effectiveHeadCommitHash;
                 const needsBase = fileDiff.type !== "new";
@@ -2,6 +2,8 @@ import { useLiveQuery } from "@tanstack/react-db";
 import { useEffect, useMemo, useState, useSyncExternalStore } from "react";
 import { useReviewQuery } from "@/components/pull-request-review/use-review-query";
 import { useViewedStorageKey } from "@/components/pull-request-review/use-review-storage";
+import { usePullRequestRevisions } from "@/features/review/data/use-pull-request-revisions";
+import { useReviewedHead } from "@/features/review/data/use-reviewed-head";
 import { sameScopeSearch } from "@/features/review/model/review-page-controller-helpers";
 import {
     getHostDataCollectionsVersionSnapshot,
@@ -12,11 +14,16 @@ import {
     type PullRequestCommitRangeDiffRecord,
     subscribeHostDataCollectionsVersion,
 } from "@/lib/git-host/query-collections";
+import { hostInstanceKey } from "@/lib/git-host/shared/instance";
 import type { GitHost } from "@/lib/git-host/types";
 import { diffScopeStorageSegment, type ReviewDiffScopeSearch, resolveReviewDiffScope } from "@/lib/review-diff-scope";
+import { useReviewComputeWorker } from "@/lib/review-performance/review-compute-worker-context";
+import type { RevisionInterdiff } from "@/lib/revision-interdiff";
 
 type ReviewScopedDataParams = {
     host: GitHost;
+    instance?: string;
+    account?: string;
     workspace: string;
     repo: string;
     pullRequestId: string;
@@ -28,6 +35,8 @@ type ReviewScopedDataParams = {
 
 export function useReviewScopedData({
     host,
+    instance,
+    account,
     workspace,
     repo,
     pullRequestId,
@@ -42,6 +51,8 @@ export function useReviewScopedData({
         getHostDataCollectionsVersionSnapshot,
     );
     const [scopeNotice, setScopeNotice] = useState<string | null>(null);
+    const [computedInterdiff, setComputedInterdiff] = useState<{ key: string; result: RevisionInterdiff } | null>(null);
+    const { computeRevisionInterdiff, workerReady } = useReviewComputeWorker();
     const diffScopeSearch = reviewDiffScopeSearch ?? {};
     const {
         hostCapabilities,
@@ -51,6 +62,8 @@ export function useReviewScopedData({
         query: prQuery,
     } = useReviewQuery({
         host,
+        instance,
+        account,
         workspace,
         repo,
         pullRequestId,
@@ -59,16 +72,35 @@ export function useReviewScopedData({
         onRequireAuth: requestAuth,
     });
     const basePrData = prQuery.data;
-    const prRef = useMemo(() => ({ host, workspace, repo, pullRequestId }), [host, pullRequestId, repo, workspace]);
-    const prContextKey = `${host}:${workspace}/${repo}/${pullRequestId}`;
+    const prRef = useMemo(
+        () => ({ host, ...(instance ? { instance } : {}), ...(account ? { account } : {}), workspace, repo, pullRequestId }),
+        [account, host, instance, pullRequestId, repo, workspace],
+    );
+    const prContextKey = `${hostInstanceKey(prRef)}:${workspace}/${repo}/${pullRequestId}`;
+    const {
+        hydrated: reviewedHeadHydrated,
+        lastReviewedCommitHash,
+        recordReviewedHead,
+    } = useReviewedHead({ prKey: prContextKey, headCommitHash: basePrData?.pr.source?.commit?.hash });
+    const { hydrated: revisionsHydrated, revisions } = usePullRequestRevisions({
+        prKey: prContextKey,
+        headCommitHash: basePrData?.pr.source?.commit?.hash,
+        baseCommitHash: basePrData?.pr.destination?.commit?.hash,
+    });
+    // Until the pull request and its stored review history are loaded, these scopes cannot tell missing data from a pending read.
+    const scopeInputsPending =
+        (diffScopeSearch.since === "last-review" && (!basePrData || !reviewedHeadHydrated)) ||
+        (Boolean(diffScopeSearch.interdiff) && (!basePrData || !revisionsHydrated));
     const resolvedScope = useMemo(
         () =>
             resolveReviewDiffScope({
                 search: diffScopeSearch,
                 commits: basePrData?.commits ?? [],
                 destinationCommitHash: basePrData?.pr.destination?.commit?.hash,
+                lastReviewedCommitHash,
+                revisions,
             }),
-        [basePrData?.commits, basePrData?.pr.destination?.commit?.hash, diffScopeSearch],
+        [basePrData?.commits, basePrData?.pr.destination?.commit?.hash, diffScopeSearch, lastReviewedCommitHash, revisions],
     );
     const diffScopeSegment = useMemo(() => diffScopeStorageSegment(resolvedScope), [resolvedScope]);
     const viewedStorageKey = useViewedStorageKey(basePrData?.prRef, diffScopeSegment);
@@ -130,11 +162,35 @@ export function useReviewScopedData({
     }, [commitRangeDiffQuery.data, prContextKey]);
     const scopedRangeDiffRecord = useMemo(() => {
         if (resolvedScope.mode === "full") return undefined;
+        if (resolvedScope.mode === "interdiff") {
+            const { toRevision } = resolvedScope;
+            return persistedCommitRangeDiffs[`${toRevision.baseCommitHash}..${toRevision.headCommitHash}`];
+        }
         if (!resolvedScope.baseCommitHash || !resolvedScope.headCommitHash) return undefined;
         return persistedCommitRangeDiffs[`${resolvedScope.baseCommitHash}..${resolvedScope.headCommitHash}`];
     }, [persistedCommitRangeDiffs, resolvedScope]);
+    const interdiffFromRecord = useMemo(() => {
+        if (resolvedScope.mode !== "interdiff") return undefined;
+        const { fromRevision } = resolvedScope;
+        return persistedCommitRangeDiffs[`${fromRevision.baseCommitHash}..${fromRevision.headCommitHash}`];
+    }, [persistedCommitRangeDiffs, resolvedScope]);
+    const interdiffKey =
+        resolvedScope.mode === "interdiff" && interdiffFromRecord && scopedRangeDiffRecord
+            ? `${interdiffFromRecord.baseCommitHash}..${interdiffFromRecord.headCommitHash}:${scopedRangeDiffRecord.baseCommitHash}..${scopedRangeDiffRecord.headCommitHash}`
+            : null;
+    const interdiff = computedInterdiff && computedInterdiff.key === interdiffKey ? computedInterdiff.result : undefined;
+    // Each revision's patch set is its own base..head range diff; the interdiff is computed from the pair.
     const commitRangeScopedCollection = useMemo(() => {
         if (!basePrData || resolvedScope.mode === "full") return null;
+        if (resolvedScope.mode === "interdiff") {
+            const { toRevision } = resolvedScope;
+            return getPullRequestCommitRangeDiffCollection({
+                prRef,
+                baseCommitHash: toRevision.baseCommitHash,
+                headCommitHash: toRevision.headCommitHash,
+                selectedCommitHashes: [],
+            });
+        }
         if (!resolvedScope.baseCommitHash || !resolvedScope.headCommitHash) return null;
         if (resolvedScope.selectedCommitHashes.length === 0) return null;
         return getPullRequestCommitRangeDiffCollection({
@@ -144,9 +200,27 @@ export function useReviewScopedData({
             selectedCommitHashes: resolvedScope.selectedCommitHashes,
         });
     }, [basePrData, prRef, resolvedScope]);
+    const interdiffFromCollection = useMemo(() => {
+        if (!basePrData || resolvedScope.mode !== "interdiff") return null;
+        const { fromRevision } = resolvedScope;
+        return getPullRequestCommitRangeDiffCollection({
+            prRef,
+            baseCommitHash: fromRevision.baseCommitHash,
+            headCommitHash: fromRevision.headCommitHash,
+            selectedCommitHashes: [],
+        });
+    }, [basePrData, prRef, resolvedScope]);
     const effectivePrData = useMemo(() => {
         if (!basePrData) return undefined;
         if (resolvedScope.mode === "full") return basePrData;
+        if (resolvedScope.mode === "interdiff") {
+            return {
+                ...basePrData,
+                diff: interdiff?.diff ?? "",
+                diffstat: interdiff?.diffstat ?? [],
+                commits: resolvedScope.selectedCommits,
+            };
+        }
         if (resolvedScope.selectedCommitHashes.length === 0) {
             return {
                 ...basePrData,
@@ -169,34 +243,45 @@ export function useReviewScopedData({
             diffstat: scopedRangeDiffRecord.diffstat,
             commits: resolvedScope.selectedCommits,
         };
-    }, [basePrData, resolvedScope, scopedRangeDiffRecord]);
-    const commitScopeLoading = resolvedScope.mode === "range" && resolvedScope.selectedCommitHashes.length > 0 && !scopedRangeDiffRecord;
+    }, [basePrData, interdiff, resolvedScope, scopedRangeDiffRecord]);
+    const commitScopeLoading =
+        resolvedScope.mode === "interdiff"
+            ? !interdiff
+            : resolvedScope.mode !== "full" && resolvedScope.selectedCommitHashes.length > 0 && !scopedRangeDiffRecord;
 
     useEffect(() => {
-        if (!onReviewDiffScopeSearchChange) return;
+        if (!onReviewDiffScopeSearchChange || scopeInputsPending) return;
         if (sameScopeSearch(diffScopeSearch, resolvedScope.normalizedSearch)) return;
         onReviewDiffScopeSearchChange(resolvedScope.normalizedSearch);
-    }, [diffScopeSearch, onReviewDiffScopeSearchChange, resolvedScope.normalizedSearch]);
+    }, [diffScopeSearch, onReviewDiffScopeSearchChange, resolvedScope.normalizedSearch, scopeInputsPending]);
 
     useEffect(() => {
-        if (!onReviewDiffScopeSearchChange) return;
-        if (resolvedScope.mode !== "full" || !resolvedScope.fallbackReason || !diffScopeSearch.from) return;
+        if (!onReviewDiffScopeSearchChange || scopeInputsPending) return;
+        if (resolvedScope.mode !== "full" || !resolvedScope.fallbackReason) return;
+        if (!diffScopeSearch.from && !diffScopeSearch.since && !diffScopeSearch.interdiff) return;
         const notice =
-            resolvedScope.fallbackReason === "invalid_range"
-                ? "Selected commit range is unavailable. Switched to full diff."
-                : "Commit range base/head could not be resolved. Switched to full diff.";
+            resolvedScope.fallbackReason === "revision_unavailable"
+                ? "Selected revisions are no longer available. Switched to full diff."
+                : resolvedScope.fallbackReason === "invalid_range"
+                  ? "Selected commit range is unavailable. Switched to full diff."
+                  : resolvedScope.fallbackReason === "no_previous_review"
+                    ? "No previous review of this pull request. Showing full diff."
+                    : resolvedScope.fallbackReason === "previous_review_unavailable"
+                      ? "Last reviewed commit is no longer in this pull request. Showing full diff."
+                      : "Commit range base/head could not be resolved. Switched to full diff.";
         setScopeNotice(notice);
         onReviewDiffScopeSearchChange({});
-    }, [diffScopeSearch.from, onReviewDiffScopeSearchChange, resolvedScope]);
+    }, [diffScopeSearch.from, diffScopeSearch.interdiff, diffScopeSearch.since, onReviewDiffScopeSearchChange, resolvedScope, scopeInputsPending]);
 
     useEffect(() => {
-        if (!commitRangeScopedCollection) return;
+        const collections = [commitRangeScopedCollection, interdiffFromCollection].filter((collection) => collection !== null);
+        if (collections.length === 0) return;
         let cancelled = false;
         setScopeNotice(null);
         void (async () => {
-            await commitRangeScopedCollection.utils.refetch({ throwOnError: false });
+            await Promise.all(collections.map((collection) => collection.utils.refetch({ throwOnError: false })));
             if (cancelled) return;
-            const maybeError = commitRangeScopedCollection.utils.lastError;
+            const maybeError = collections.map((collection) => collection.utils.lastError).find(Boolean);
             if (!maybeError) return;
             const message = maybeError instanceof Error ? maybeError.message : "Failed to load commit range diff.";
             setScopeNotice(message);
@@ -205,14 +290,43 @@ export function useReviewScopedData({
         return () => {
             cancelled = true;
         };
-    }, [commitRangeScopedCollection, onReviewDiffScopeSearchChange]);
+    }, [commitRangeScopedCollection, interdiffFromCollection, onReviewDiffScopeSearchChange]);
 
     useEffect(() => {
         if (resolvedScope.mode === "full") return;
         if (resolvedScope.selectedCommitHashes.length > 0) return;
-        setScopeNotice("No changes in selected range.");
+        setScopeNotice(resolvedScope.mode === "sinceLastReview" ? "No new commits since your last review." : "No changes in selected range.");
     }, [resolvedScope.mode, resolvedScope.selectedCommitHashes.length]);
 
+    // Patch sets are compared off the main thread; the range diffs may be large.
+    useEffect(() => {
+        if (!interdiffKey || !interdiffFromRecord || !scopedRangeDiffRecord || !workerReady) return;
+        let cancelled = false;
+        void computeRevisionInterdiff({ fromDiff: interdiffFromRecord.diff, toDiff: scopedRangeDiffRecord.diff })
+            .then((result) => {
+                if (!cancelled) setComputedInterdiff({ key: interdiffKey, result });
+            })
+            .catch((error) => {
+                if (cancelled) return;
+                setScopeNotice(error instanceof Error ? error.message : "Failed to compare revisions.");
+                onReviewDiffScopeSearchChange?.({});
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [computeRevisionInterdiff, interdiffFromRecord, interdiffKey, onReviewDiffScopeSearchChange, scopedRangeDiffRecord, workerReady]);
+
+    useEffect(() => {
+        if (!interdiff) return;
+        if (interdiff.tooLarge) {
+            setScopeNotice("These revisions are too large to interdiff. Switched to full diff.");
+            onReviewDiffScopeSearchChange?.({});
+            return;
+        }
+        if (interdiff.diff) return;
+        setScopeNotice("Both revisions contain the same changes.");
+    }, [interdiff, onReviewDiffScopeSearchChange]);
+
     return {
         commitRangeScopedCollection,
         commitScopeLoading,
@@ -221,12 +335,15 @@ export function useReviewScopedData({
         isCriticalLoading,
         isDeferredLoading,
         isPrQueryFetching: isRefreshing || isDeferredLoading,
+        lastReviewedCommitHash,
         persistedFileContexts,
         persistedFileHistoryByPath,
         prContextKey,
         prQuery,
         prRef,
+        recordReviewedHead,
         resolvedScope,
+        revisions,
         scopeNotice,
         setScopeNotice,
         viewedStorageKey,
@@ -0,0 +1,42 @@
+import { useCallback, useEffect, useState } from "react";
+import { ensureDataCollectionsReady, readReviewedHead, writeReviewedHead } from "@/lib/data/query-collections";
+
+type ReviewedHeadBaseline = {
+    prKey: string;
+    commitHash?: string;
+};
+
+export function useReviewedHead({ prKey, headCommitHash }: { prKey: string; headCommitHash?: string }) {
+    const [baseline, setBaseline] = useState<ReviewedHeadBaseline | null>(null);
+    const hydrated = baseline?.prKey === prKey;
+
+    // The baseline is read once per pull request, so recording this visit does not move it mid-session.
+    useEffect(() => {
+        let cancelled = false;
+        void (async () => {
+            await ensureDataCollectionsReady();
+            if (cancelled) return;
+            const stored = readReviewedHead(prKey);
+            setBaseline({ prKey, commitHash: stored?.reviewedCommitHash ?? stored?.visitedCommitHash });
+        })();
+        return () => {
+            cancelled = true;
+        };
+    }, [prKey]);
+
+    useEffect(() => {
+        if (!hydrated || !headCommitHash) return;
+        void writeReviewedHead(prKey, "visited", headCommitHash);
+    }, [headCommitHash, hydrated, prKey]);
+
+    const recordReviewedHead = useCallback(() => {
+        if (!headCommitHash) return;
+        void writeReviewedHead(prKey, "reviewed", headCommitHash);
+    }, [headCommitHash, prKey]);
+
+    return {
+        hydrated,
+        lastReviewedCommitHash: hydrated ? baseline?.commitHash : undefined,
+        recordReviewedHead,
+    };
+}
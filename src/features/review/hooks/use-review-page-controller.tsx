@@ -1,5 +1,6 @@
 import { cloneFileDiffMetadata, type FileDiffMetadata, type FileDiffOptions } from "@pierre/diffs";
 import { type CSSProperties, type ReactNode, type SetStateAction, startTransition, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { ReactionActions } from "@/components/comment-reaction-bar";
 import { ReviewCommentsSidebar } from "@/components/pull-request-review/review-comments-sidebar";
 import { ReviewCommitScopeControl } from "@/components/pull-request-review/review-commit-scope-control";
 import { createReviewPageUiStore, useReviewPageUiValue } from "@/components/pull-request-review/review-page.store";
@@ -16,6 +17,7 @@ import {
 } from "@/components/pull-request-review/review-page-model";
 import { buildCommentThreads } from "@/components/pull-request-review/review-threads";
 import { useInlineCommentDrafts } from "@/components/pull-request-review/use-inline-comment-drafts";
+import { useReviewBatch } from "@/components/pull-request-review/use-review-batch";
 import { useReviewLayoutPreferences } from "@/components/pull-request-review/use-review-layout-preferences";
 import { useReviewPageActions } from "@/components/pull-request-review/use-review-page-actions";
 import { useReviewPageDerived } from "@/components/pull-request-review/use-review-page-derived";
@@ -34,28 +36,40 @@ import {
 import { useReviewPageNavigation } from "@/components/pull-request-review/use-review-page-navigation";
 import { useReviewPageViewProps } from "@/components/pull-request-review/use-review-page-view-props";
 import { isRateLimitedError as isRateLimitedQueryError } from "@/components/pull-request-review/use-review-query";
+import { useSuggestionBatch } from "@/components/pull-request-review/use-suggestion-batch";
 import { getSettingsTreeItems } from "@/components/settings-navigation";
 import { useSelectedRepoPullRequests } from "@/features/landing/hooks/use-selected-repo-pull-requests";
+import { useGitattributesRules } from "@/features/review/data/use-gitattributes-rules";
+import { useOutdatedCommentAnchors } from "@/features/review/data/use-outdated-comment-anchors";
+import { useReviewFileBytes } from "@/features/review/data/use-review-file-bytes";
 import { useReviewFileContexts } from "@/features/review/data/use-review-file-contexts";
 import { useReviewScopedData } from "@/features/review/data/use-review-scoped-data";
-import { ALL_MODE_SCROLL_RETRY_DELAYS, ALL_MODE_STICKY_OFFSET } from "@/features/review/model/review-page-controller-helpers";
+import {
+    ALL_MODE_SCROLL_RETRY_DELAYS,
+    ALL_MODE_STICKY_OFFSET,
+    IGNORE_WHITESPACE_CONTEXT_CONCURRENCY,
+} from "@/features/review/model/review-page-controller-helpers";
 import { useReviewFileVersions } from "@/features/review/state/use-review-file-versions";
 import { useReviewOptimisticComments } from "@/features/review/state/use-review-optimistic-comments";
 import { useAppearance } from "@/lib/appearance-context";
+import { readWorkspaceAccountId } from "@/lib/data/query-collections";
 import { toLibraryOptions, useDiffOptions } from "@/lib/diff-options-context";
-import { commentAnchorId, fileAnchorId } from "@/lib/file-anchors";
+import { commentAnchorId, diffLineAnchorId, fileAnchorId } from "@/lib/file-anchors";
 import { useFileTree } from "@/lib/file-tree-context";
 import { fontFamilyToCss } from "@/lib/font-options";
+import { buildGeneratedFileRules } from "@/lib/generated-files";
 import { getPullRequestFileHistoryCollection } from "@/lib/git-host/query-collections";
 import { buildReviewActionPolicy } from "@/lib/git-host/review-policy";
-import { buildSuggestions, getSuggestionKey } from "@/lib/git-host/suggestions";
-import type { GitHost } from "@/lib/git-host/types";
+import { getHostLabel } from "@/lib/git-host/service";
+import { buildSuggestions, getSuggestionKey, type Suggestion } from "@/lib/git-host/suggestions";
+import type { GitHost, PendingReviewEvent } from "@/lib/git-host/types";
 import { PR_SUMMARY_PATH } from "@/lib/pr-summary";
 import type { ReviewDiffScopeSearch } from "@/lib/review-diff-scope";
 import { markReviewPerf } from "@/lib/review-performance/metrics";
 
 export interface PullRequestReviewPageProps {
     host: GitHost;
+    instance?: string;
     workspace: string;
     repo: string;
     pullRequestId: string;
@@ -75,6 +89,7 @@ type SuggestionEditSession = {
 
 export function useReviewPageController({
     host,
+    instance,
     workspace,
     repo,
     pullRequestId,
@@ -90,6 +105,7 @@ export function useReviewPageController({
         },
         [onRequireAuth],
     );
+    const account = useMemo(() => readWorkspaceAccountId(host, workspace), [host, workspace]);
     const { options } = useDiffOptions();
     const { monospaceFontFamily, monospaceFontSize, monospaceLineHeight } = useAppearance();
     const diffTypographyStyle = useMemo(() => {
@@ -139,6 +155,9 @@ export function useReviewPageController({
     const mergeMessage = useReviewPageUiValue(uiStore, (state) => state.mergeMessage);
     const mergeStrategy = useReviewPageUiValue(uiStore, (state) => state.mergeStrategy);
     const closeSourceBranch = useReviewPageUiValue(uiStore, (state) => state.closeSourceBranch);
+    const submitReviewOpen = useReviewPageUiValue(uiStore, (state) => state.submitReviewOpen);
+    const submitReviewEvent = useReviewPageUiValue(uiStore, (state) => state.submitReviewEvent);
+    const submitReviewBody = useReviewPageUiValue(uiStore, (state) => state.submitReviewBody);
     const copiedPath = useReviewPageUiValue(uiStore, (state) => state.copiedPath);
     const copiedSourceBranch = useReviewPageUiValue(uiStore, (state) => state.copiedSourceBranch);
     const setSearchQuery = useCallback(
@@ -226,6 +245,43 @@ export function useReviewPageController({
         },
         [uiStore],
     );
+    const setSubmitReviewOpen = useCallback(
+        (next: SetStateAction<boolean>) => {
+            uiStore.setState((prev) => ({
+                ...prev,
+                submitReviewOpen: typeof next === "function" ? (next as (current: boolean) => boolean)(prev.submitReviewOpen) : next,
+            }));
+        },
+        [uiStore],
+    );
+    const setSubmitReviewEvent = useCallback(
+        (next: PendingReviewEvent) => {
+            uiStore.setState((prev) => ({
+                ...prev,
+                submitReviewEvent: next,
+            }));
+        },
+        [uiStore],
+    );
+    const setSubmitReviewBody = useCallback(
+        (next: SetStateAction<string>) => {
+            uiStore.setState((prev) => ({
+                ...prev,
+                submitReviewBody: typeof next === "function" ? (next as (current: string) => string)(prev.submitReviewBody) : next,
+            }));
+        },
+        [uiStore],
+    );
+    const openSubmitReview = useCallback(
+        (event: PendingReviewEvent) => {
+            uiStore.setState((prev) => ({
+                ...prev,
+                submitReviewOpen: true,
+                submitReviewEvent: event,
+            }));
+        },
+        [uiStore],
+    );
     const setCopiedPath = useCallback(
         (next: SetStateAction<string | null>) => {
             uiStore.setState((prev) => ({
@@ -251,7 +307,8 @@ export function useReviewPageController({
     const [suggestionEditSession, setSuggestionEditSession] = useState<SuggestionEditSession | null>(null);
     const [pendingSuggestionEditPath, setPendingSuggestionEditPath] = useState<string | null>(null);
     const [submittedSuggestionKeys, setSubmittedSuggestionKeys] = useState<Set<string>>(() => new Set());
-    const [pendingCommentTick, setPendingCommentTick] = useState(0);
+    const [suggestionReviewOpen, setSuggestionReviewOpen] = useState(false);
+    const [pendingAnchorTick, setPendingAnchorTick] = useState(0);
     const autoMarkedViewedVersionIdsRef = useRef<Set<string>>(new Set());
     const copyResetTimeoutRef = useRef<number | null>(null);
     const copySourceBranchResetTimeoutRef = useRef<number | null>(null);
@@ -260,7 +317,7 @@ export function useReviewPageController({
     const allModeSuppressObserverUntilRef = useRef<number>(0);
     const allModeLastStickyPathRef = useRef<string | null>(null);
     const suppressHashSyncRef = useRef(false);
-    const pendingCommentScrollRef = useRef<number | null>(null);
+    const pendingAnchorScrollRef = useRef<string | null>(null);
     const firstDiffRenderedKeyRef = useRef<string>("");
     const autoCollapseCommentsSidebarContextRef = useRef<string>("");
     const missingDiffRecoveryRef = useRef<{ contextKey: string; attempts: number; lastRecoverySignature: string }>({
@@ -283,17 +340,22 @@ export function useReviewPageController({
         hostCapabilities,
         isCriticalLoading,
         isPrQueryFetching,
+        lastReviewedCommitHash,
         persistedFileContexts,
         persistedFileHistoryByPath,
         prContextKey,
         prQuery,
         prRef,
+        recordReviewedHead,
         resolvedScope,
+        revisions,
         scopeNotice,
         setScopeNotice,
         viewedStorageKey,
     } = useReviewScopedData({
         host,
+        instance,
+        account,
         workspace,
         repo,
         pullRequestId,
@@ -309,7 +371,7 @@ export function useReviewPageController({
     const isRateLimitedError = isRateLimitedQueryError(prQuery.error);
     useReviewDocumentTitle({ isLoading: isCriticalLoading, pullRequestTitle });
 
-    const { createOptimisticComment, prData, removeOptimisticComment } = useReviewOptimisticComments({
+    const { clearOptimisticReaction, createOptimisticComment, prData, removeOptimisticComment, setOptimisticReaction } = useReviewOptimisticComments({
         effectivePrData,
         prContextKey,
         currentUserAvatarUrl: pullRequest?.currentUser?.avatarUrl,
@@ -343,18 +405,28 @@ export function useReviewPageController({
         }),
         [libOptions, options.hunkSeparators],
     );
+    const structuralDiffOptions = useMemo(
+        () => ({ structural: options.structuralDiff, hideFormattingChanges: options.hideFormattingChanges, hideExactMoves: options.hideExactMoves }),
+        [options.hideExactMoves, options.hideFormattingChanges, options.structuralDiff],
+    );
 
     const openInlineCommentDraftForPath = useCallback(
         (path: string, props: InlineCommentLineTarget) => {
             if (resolvedScope.mode !== "full") return;
+            if (props.startSide && !hostCapabilities.crossSideLineRangesAvailable) {
+                setActionError(`${getHostLabel(host)} cannot comment on a range that spans removed and added lines. Select lines on one side.`);
+                return;
+            }
             markReviewPerf("inline_comment_open");
             openInlineCommentDraft({
                 path,
                 line: props.lineNumber,
                 side: props.annotationSide ?? "additions",
+                startLine: props.startLineNumber,
+                ...(props.startSide ? { startSide: props.startSide } : {}),
             });
         },
-        [openInlineCommentDraft, resolvedScope.mode],
+        [host, hostCapabilities.crossSideLineRangesAvailable, openInlineCommentDraft, resolvedScope.mode],
     );
     const effectiveBaseCommitHash = resolvedScope.mode === "full" ? prData?.pr.destination?.commit?.hash : resolvedScope.baseCommitHash;
     const effectiveHeadCommitHash = resolvedScope.mode === "full" ? prData?.pr.source?.commit?.hash : resolvedScope.headCommitHash;
@@ -367,6 +439,13 @@ export function useReviewPageController({
         prRef,
         resolvedScopeMode: resolvedScope.mode,
     });
+    const handleLoadFileBytes = useReviewFileBytes({ effectiveBaseCommitHash, effectiveHeadCommitHash, historyRevision, prRef });
+    const gitattributesRules = useGitattributesRules({ prRef, headCommitHash: prData?.pr.source?.commit?.hash });
+    const outdatedCommentAnchors = useOutdatedCommentAnchors({ prRef, commits: prData?.commits, comments: prData?.comments });
+    const generatedFileRules = useMemo(
+        () => buildGeneratedFileRules({ gitattributes: gitattributesRules, userPatterns: options.generatedFilePatterns }),
+        [gitattributesRules, options.generatedFilePatterns],
+    );
 
     const {
         diffHighlighterReady,
@@ -382,12 +461,14 @@ export function useReviewPageController({
         selectedFileDiff,
         isSummarySelected,
         threadsByPath,
+        orphanedThreads,
         sidebarThreads,
         selectedFileLevelThreads,
         lineStats,
         navbarStatusTimestamp,
         navbarState,
         fileLineStats,
+        generatedFileKinds,
         handleDiffLineEnter,
         handleDiffLineLeave,
         buildFileAnnotations,
@@ -408,14 +489,28 @@ export function useReviewPageController({
         compactDiffOptions,
         onOpenInlineCommentDraft: openInlineCommentDraftForPath,
         fullFileContexts: readyFileContexts,
+        structuralOptions: structuralDiffOptions,
+        ignoreWhitespace: options.ignoreWhitespace,
+        generatedFileRules,
+        outdatedCommentAnchors,
     });
+    // Viewed versions remember the commit range they were seen in; an interdiff has none.
+    const viewedCommitRange = useMemo(() => {
+        if (resolvedScope.mode === "interdiff") return undefined;
+        const baseCommitHash = resolvedScope.baseCommitHash ?? pullRequest?.destination?.commit?.hash;
+        const headCommitHash = resolvedScope.headCommitHash ?? pullRequest?.source?.commit?.hash;
+        return baseCommitHash && headCommitHash ? `${baseCommitHash}..${headCommitHash}` : undefined;
+    }, [pullRequest?.destination?.commit?.hash, pullRequest?.source?.commit?.hash, resolvedScope]);
     const {
+        changedSinceViewedPaths,
         getSelectedVersionIdForPath,
         getVersionOptionsForPath,
+        getViewedInterdiffForPath,
         handleOpenVersionMenuForPath,
         historyRequestedPaths,
         isPathViewed,
         isVersionViewed,
+        loadViewedInterdiffForPath,
         markPathViewed,
         resolveDisplayedDiffForPath,
         setSelectedVersionForPath,
@@ -427,6 +522,7 @@ export function useReviewPageController({
         prData,
         prRef,
         setViewedFiles,
+        viewedCommitRange,
         viewedFiles,
         viewedStorageKey,
     });
@@ -513,6 +609,8 @@ export function useReviewPageController({
                 : { fileDiff: selectedFileDiff, readOnlyHistorical: false, selectedVersionId: undefined },
         [resolveDisplayedDiffForPath, selectedFileDiff, selectedFilePath],
     );
+    const selectedFileViewedInterdiff = selectedFilePath ? getViewedInterdiffForPath(selectedFilePath) : undefined;
+    const openViewedInterdiff = useCallback((path: string) => void loadViewedInterdiffForPath(path), [loadViewedInterdiffForPath]);
     useEffect(() => {
         if (!pendingSuggestionEditPath) return;
         if (selectedFilePath !== pendingSuggestionEditPath) return;
@@ -537,6 +635,19 @@ export function useReviewPageController({
             setPendingSuggestionEditPath(null);
         }
     }, [fileContextStatus, pendingSuggestionEditPath, selectedFileDisplayState.fileDiff, selectedFilePath]);
+    const whitespaceContextQueue = useMemo(() => {
+        if (options.ignoreWhitespace === "none") return [];
+        const entries =
+            viewMode === "all" ? allModeDiffEntries : selectedFilePath && selectedFileDiff ? [{ filePath: selectedFilePath, fileDiff: selectedFileDiff }] : [];
+        // Any status means the contents were already requested; retrying after an error would loop.
+        return entries.filter((entry) => entry.fileDiff.isPartial && !fileContextStatus[entry.filePath]);
+    }, [allModeDiffEntries, fileContextStatus, options.ignoreWhitespace, selectedFileDiff, selectedFilePath, viewMode]);
+    useEffect(() => {
+        const loading = Object.values(fileContextStatus).filter((entry) => entry.status === "loading").length;
+        for (const entry of whitespaceContextQueue.slice(0, Math.max(0, IGNORE_WHITESPACE_CONTEXT_CONCURRENCY - loading))) {
+            void handleLoadFullFileContext(entry.filePath, entry.fileDiff);
+        }
+    }, [fileContextStatus, handleLoadFullFileContext, whitespaceContextQueue]);
     const isSuggestionEditingSelectedFile = suggestionEditSession?.path === selectedFilePath;
     const pendingSuggestions = useMemo(() => {
         if (!suggestionEditSession) return [];
@@ -644,6 +755,10 @@ export function useReviewPageController({
         setMergeStrategy,
     });
 
+    const hostPendingReviewCommentCount = useMemo(
+        () => (effectivePrData?.comments ?? []).filter((comment) => comment.pendingReview && !comment.deleted).length,
+        [effectivePrData?.comments],
+    );
     const currentUserReviewStatus = pullRequest?.currentUserReviewStatus ?? "none";
     const isApproved = currentUserReviewStatus === "approved";
     const actionPolicy = useMemo(
@@ -657,6 +772,46 @@ export function useReviewPageController({
             }),
         [auth.canWrite, hostCapabilities, isApproved, pullRequest?.draft, pullRequest?.state],
     );
+    const {
+        batchComments: reviewBatchComments,
+        batchProgress: reviewBatchProgress,
+        addInlineCommentToBatch,
+        removeBatchComment,
+        publishBatchMutation,
+        discardBatchMutation,
+        handlePublishBatch,
+        handleDiscardBatch,
+    } = useReviewBatch({
+        scopeRef: prRef,
+        actionPolicy,
+        authCanWrite: auth.canWrite,
+        requestAuth,
+        prRef: prData?.prRef,
+        isApprovedByCurrentUser: isApproved,
+        inlineComment,
+        getInlineDraftContent,
+        clearInlineDraftContent,
+        setInlineComment,
+        submitReviewEvent,
+        submitReviewBody,
+        setSubmitReviewBody,
+        setSubmitReviewOpen,
+        refreshComments: prQuery.refetchComments,
+        refreshPullRequest: refetchPrQuery,
+        setActionError,
+    });
+    const usesLocalReviewBatch = actionPolicy.canLocalBatchReview;
+    const { suggestionBatch, suggestionActions, openSuggestionBatchPreview, suggestionCommitDialogProps } = useSuggestionBatch({
+        scopeRef: prRef,
+        actionPolicy,
+        authCanWrite: auth.canWrite,
+        requestAuth,
+        prRef: prData?.prRef,
+        headCommitHash: prData?.pr.source?.commit?.hash,
+        refreshComments: prQuery.refetchComments,
+        refreshPullRequest: refetchPrQuery,
+    });
+    const pendingReviewCommentCount = hostPendingReviewCommentCount + (usesLocalReviewBatch ? reviewBatchComments.length : 0);
 
     const {
         approveMutation,
@@ -665,6 +820,8 @@ export function useReviewPageController({
         declineMutation,
         markDraftMutation,
         mergeMutation,
+        submitReviewMutation,
+        discardReviewMutation,
         createCommentMutation,
         createSuggestionCommentsMutation,
         resolveCommentMutation,
@@ -675,12 +832,15 @@ export function useReviewPageController({
         handleRequestChangesPullRequest,
         handleDeclinePullRequest,
         handleMarkPullRequestAsDraft,
+        handleSubmitReview,
+        handleDiscardReview,
         submitSuggestions,
         submitInlineComment,
         submitPullRequestComment,
         submitThreadReply,
         submitCommentEdit,
         submitPullRequestDescriptionEdit,
+        toggleCommentReaction,
         handleCopyPath,
         handleCopySourceBranch,
     } = useReviewPageActions({
@@ -690,12 +850,19 @@ export function useReviewPageController({
         prData,
         pullRequest,
         isApprovedByCurrentUser: isApproved,
+        hasPendingReview: pendingReviewCommentCount > 0,
+        onReviewed: recordReviewedHead,
         refetchPullRequest: refetchPrQuery,
         refetchComments: prQuery.refetchComments,
         mergeMessage,
         mergeStrategy,
         closeSourceBranch,
         setMergeOpen,
+        submitReviewEvent,
+        submitReviewBody,
+        openSubmitReview,
+        setSubmitReviewOpen,
+        setSubmitReviewBody,
         setActionError,
         inlineComment,
         getInlineDraftContent,
@@ -707,7 +874,18 @@ export function useReviewPageController({
         setCopiedSourceBranch,
         onOptimisticCommentCreate: createOptimisticComment,
         onOptimisticCommentRemove: removeOptimisticComment,
+        onOptimisticReactionSet: setOptimisticReaction,
+        onOptimisticReactionClear: clearOptimisticReaction,
     });
+    const reactionActions = useMemo<ReactionActions>(
+        () => ({
+            contents: actionPolicy.reactionContents,
+            canReact: actionPolicy.canReact,
+            disabledReason: actionPolicy.disabledReason.react,
+            onToggle: toggleCommentReaction,
+        }),
+        [actionPolicy.canReact, actionPolicy.disabledReason.react, actionPolicy.reactionContents, toggleCommentReaction],
+    );
     const canSuggestChanges =
         resolvedScope.mode === "full" &&
         viewMode === "single" &&
@@ -759,34 +937,53 @@ export function useReviewPageController({
             return { ...current, editedContents };
         });
     }, []);
-    const submitCurrentSuggestions = useCallback(() => {
+    const submitInlineCommentOrBatch = useCallback(
+        (options?: { pending?: boolean }) => {
+            if (options?.pending && usesLocalReviewBatch) {
+                return addInlineCommentToBatch();
+            }
+            return submitInlineComment(options);
+        },
+        [addInlineCommentToBatch, submitInlineComment, usesLocalReviewBatch],
+    );
+    const reviewCurrentSuggestions = useCallback(() => {
         if (!suggestionEditSession || pendingSuggestions.length === 0) {
             setActionError("Make a replacement, insertion, or deletion before suggesting changes.");
-            return undefined;
+            return;
         }
-        const submission = submitSuggestions(pendingSuggestions);
-        return submission
-            ?.then((result) => {
-                if (result.failedSuggestions.length === 0) {
-                    setSuggestionEditSession(null);
-                    setSubmittedSuggestionKeys(new Set());
-                    return result;
-                }
+        setSuggestionReviewOpen(true);
+    }, [pendingSuggestions.length, suggestionEditSession]);
+    const submitReviewedSuggestions = useCallback(
+        (selectedSuggestions: Suggestion[]) => {
+            const submission = submitSuggestions(selectedSuggestions);
+            if (!submission) return;
+            void submission
+                .then((result) => {
+                    setSuggestionReviewOpen(false);
+                    if (result.failedSuggestions.length === 0 && result.successfulSuggestions.length === pendingSuggestions.length) {
+                        setSuggestionEditSession(null);
+                        setSubmittedSuggestionKeys(new Set());
+                        return;
+                    }
 
-                setSubmittedSuggestionKeys((current) => {
-                    const next = new Set(current);
-                    for (const suggestion of result.successfulSuggestions) {
-                        next.add(getSuggestionKey(suggestion));
+                    // Unselected and failed suggestions stay in the edit session so they can be posted later.
+                    setSubmittedSuggestionKeys((current) => {
+                        const next = new Set(current);
+                        for (const suggestion of result.successfulSuggestions) {
+                            next.add(getSuggestionKey(suggestion));
+                        }
+                        return next;
+                    });
+                    if (result.failedSuggestions.length > 0) {
+                        setActionError(
+                            `${result.successfulSuggestions.length > 0 ? `Created ${result.successfulSuggestions.length} suggestion${result.successfulSuggestions.length === 1 ? "" : "s"}; ` : ""}${result.failedSuggestions.length} suggestion${result.failedSuggestions.length === 1 ? "" : "s"} failed. Retry to send only the remaining suggestion${result.failedSuggestions.length === 1 ? "" : "s"}.`,
+                        );
                     }
-                    return next;
-                });
-                setActionError(
-                    `${result.successfulSuggestions.length > 0 ? `Created ${result.successfulSuggestions.length} suggestion${result.successfulSuggestions.length === 1 ? "" : "s"}; ` : ""}${result.failedSuggestions.length} suggestion${result.failedSuggestions.length === 1 ? "" : "s"} failed. Retry to send only the remaining suggestion${result.failedSuggestions.length === 1 ? "" : "s"}.`,
-                );
-                return result;
-            })
-            .catch(() => undefined);
-    }, [pendingSuggestions, submitSuggestions, suggestionEditSession]);
+                })
+                .catch(() => setSuggestionReviewOpen(false));
+        },
+        [pendingSuggestions.length, submitSuggestions],
+    );
     const clearAllModePendingScrollPath = useCallback(() => {
         setAllModePendingScrollPath(null);
     }, []);
@@ -803,9 +1000,10 @@ export function useReviewPageController({
     );
 
     const handleOpenOmnibar = useCallback(() => {
-        if (mergeOpen) return;
+        if (mergeOpen || submitReviewOpen) return;
         setOmnibarOpen(true);
-    }, [mergeOpen, setOmnibarOpen]);
+    }, [mergeOpen, setOmnibarOpen, submitReviewOpen]);
+    const isPathGenerated = useCallback((path: string) => generatedFileKinds.has(path), [generatedFileKinds]);
     const { handleToggleSettingsPanel, selectAndRevealFile, toggleViewed } = useReviewPageNavigation({
         onOpenOmnibar: handleOpenOmnibar,
         activeFile,
@@ -813,6 +1011,7 @@ export function useReviewPageController({
         viewMode,
         treeOrderedVisiblePaths,
         isPathViewed,
+        isPathGenerated,
         diffScrollRef,
         setActiveFile,
         showSettingsPanel,
@@ -835,13 +1034,16 @@ export function useReviewPageController({
         [clearSearchQuery, selectAndRevealFile],
     );
     const handleHistoryCommentNavigate = useCallback(
-        ({ path, commentId }: { path: string; line?: number; side?: "additions" | "deletions"; commentId?: number }) => {
+        ({ path, line, side, commentId }: { path: string; line?: number; side?: "additions" | "deletions"; commentId?: number }) => {
             if (!path) return;
             setShowSettingsPanel(false);
             selectAndRevealFile(path);
             if (typeof commentId === "number") {
-                pendingCommentScrollRef.current = commentId;
-                setPendingCommentTick((tick) => tick + 1);
+                pendingAnchorScrollRef.current = commentAnchorId(commentId);
+                setPendingAnchorTick((tick) => tick + 1);
+            } else if (typeof line === "number" && side) {
+                pendingAnchorScrollRef.current = diffLineAnchorId(path, side, line);
+                setPendingAnchorTick((tick) => tick + 1);
             }
         },
         [selectAndRevealFile, setShowSettingsPanel],
@@ -851,8 +1053,8 @@ export function useReviewPageController({
             suppressHashSyncRef.current = true;
             setShowSettingsPanel(false);
             if (typeof commentId === "number") {
-                pendingCommentScrollRef.current = commentId;
-                setPendingCommentTick((tick) => tick + 1);
+                pendingAnchorScrollRef.current = commentAnchorId(commentId);
+                setPendingAnchorTick((tick) => tick + 1);
             }
             if (viewMode === "all") {
                 selectAndRevealFile(path);
@@ -932,25 +1134,25 @@ export function useReviewPageController({
     }, [allModePendingScrollPath, clearAllModePendingScrollPath, showSettingsPanel, viewMode]);
     useEffect(() => {
         if (typeof window === "undefined") return;
-        if (pendingCommentTick === 0) return;
-        if (pendingCommentScrollRef.current === null) return;
+        if (pendingAnchorTick === 0) return;
+        if (pendingAnchorScrollRef.current === null) return;
         let cancelled = false;
         let attempts = 0;
         const attemptScroll = () => {
             if (cancelled) return;
-            const targetId = pendingCommentScrollRef.current;
+            const targetId = pendingAnchorScrollRef.current;
             if (targetId === null) return;
-            const anchor = document.getElementById(commentAnchorId(targetId));
+            const anchor = document.getElementById(targetId);
             if (anchor) {
                 anchor.scrollIntoView({ behavior: "smooth", block: "center" });
-                pendingCommentScrollRef.current = null;
+                pendingAnchorScrollRef.current = null;
                 return;
             }
             attempts += 1;
             if (attempts < 20) {
                 window.setTimeout(attemptScroll, 150);
             } else {
-                pendingCommentScrollRef.current = null;
+                pendingAnchorScrollRef.current = null;
             }
         };
         const timeoutId = window.setTimeout(attemptScroll, 80);
@@ -958,7 +1160,7 @@ export function useReviewPageController({
             cancelled = true;
             window.clearTimeout(timeoutId);
         };
-    }, [pendingCommentTick]);
+    }, [pendingAnchorTick]);
     useEffect(() => {
         if (typeof window === "undefined") return;
         if (viewMode !== "all") return;
@@ -1046,7 +1248,7 @@ export function useReviewPageController({
         [resolvedScope.visibleCommits],
     );
     const selectedRangeCommitHashes = useMemo(
-        () => (resolvedScope.mode === "range" ? resolvedScope.selectedCommitHashes : []),
+        () => (resolvedScope.mode === "range" || resolvedScope.mode === "sinceLastReview" ? resolvedScope.selectedCommitHashes : []),
         [resolvedScope.mode, resolvedScope.selectedCommitHashes],
     );
     const handleSetFullScope = useCallback(() => {
@@ -1054,6 +1256,39 @@ export function useReviewPageController({
         setScopeNotice(null);
         onReviewDiffScopeSearchChange({});
     }, [onReviewDiffScopeSearchChange, setScopeNotice]);
+    const handleSetSinceLastReviewScope = useCallback(() => {
+        if (!onReviewDiffScopeSearchChange) return;
+        setScopeNotice(null);
+        onReviewDiffScopeSearchChange({ since: "last-review" });
+    }, [onReviewDiffScopeSearchChange, setScopeNotice]);
+    const revisionOptions = useMemo(
+        () =>
+            [...revisions].reverse().map((revision) => ({
+                number: revision.number,
+                headCommitHash: revision.headCommitHash,
+                seenAt: new Date(revision.seenAt).toISOString(),
+            })),
+        [revisions],
+    );
+    const selectedRevisionNumbers = useMemo(
+        () => (resolvedScope.mode === "interdiff" ? [resolvedScope.fromRevision.number, resolvedScope.toRevision.number] : []),
+        [resolvedScope],
+    );
+    // The first pick compares against the latest revision; a second pick replaces the latest with that revision.
+    const handleSelectRevision = useCallback(
+        (revisionNumber: number) => {
+            if (!onReviewDiffScopeSearchChange) return;
+            const latestNumber = revisions[revisions.length - 1]?.number;
+            const anchorNumber = resolvedScope.mode === "interdiff" ? resolvedScope.fromRevision.number : latestNumber;
+            setScopeNotice(null);
+            if (anchorNumber === undefined || anchorNumber === revisionNumber) {
+                onReviewDiffScopeSearchChange({});
+                return;
+            }
+            onReviewDiffScopeSearchChange({ interdiff: `${Math.min(anchorNumber, revisionNumber)}..${Math.max(anchorNumber, revisionNumber)}` });
+        },
+        [onReviewDiffScopeSearchChange, resolvedScope, revisions, setScopeNotice],
+    );
     const applyRangeFromSelectedHashes = useCallback(
         (selectedHashes: Set<string>) => {
             if (!onReviewDiffScopeSearchChange) return;
@@ -1113,16 +1348,34 @@ export function useReviewPageController({
                 selectedCommitHashes={selectedRangeCommitHashes}
                 isFetching={commitScopeLoading}
                 notice={scopeNotice}
+                hasPreviousReview={Boolean(lastReviewedCommitHash)}
+                revisionOptions={revisionOptions}
+                selectedRevisionNumbers={selectedRevisionNumbers}
                 onSetFullScope={handleSetFullScope}
+                onSetSinceLastReviewScope={handleSetSinceLastReviewScope}
                 onToggleCommitSelection={handleToggleCommitSelection}
+                onSelectRevision={handleSelectRevision}
             />
         ),
-        [commitScopeLoading, commitScopeOptions, handleSetFullScope, handleToggleCommitSelection, resolvedScope.mode, selectedRangeCommitHashes, scopeNotice],
+        [
+            commitScopeLoading,
+            commitScopeOptions,
+            handleSetFullScope,
+            handleSelectRevision,
+            handleSetSinceLastReviewScope,
+            handleToggleCommitSelection,
+            lastReviewedCommitHash,
+            resolvedScope.mode,
+            revisionOptions,
+            selectedRangeCommitHashes,
+            selectedRevisionNumbers,
+            scopeNotice,
+        ],
     );
 
     const { sortedRootPullRequests, openPullRequest } = useSelectedRepoPullRequests({ autoRefetch: true });
 
-    const { sidebarProps, navbarProps, omnibarProps, mergeDialogProps } = useReviewPageViewProps({
+    const { sidebarProps, navbarProps, omnibarProps, mergeDialogProps, submitReviewDialogProps } = useReviewPageViewProps({
         treeWidth,
         treeCollapsed,
         rightSidebarCollapsed,
@@ -1138,6 +1391,8 @@ export function useReviewPageController({
         showUnviewedOnly,
         unviewedFileCount,
         viewedFiles,
+        changedSinceViewedPaths,
+        generatedFileKinds,
         pullRequest: pullRequest ?? {},
         isRefreshing: isPrQueryFetching,
         navbarState,
@@ -1150,6 +1405,7 @@ export function useReviewPageController({
         requestChangesPending: requestChangesMutation.isPending,
         declinePending: declineMutation.isPending,
         markDraftPending: markDraftMutation.isPending,
+        pendingReviewCommentCount,
         copiedSourceBranch,
         commitScopeSlot,
         omnibarOpen,
@@ -1170,6 +1426,9 @@ export function useReviewPageController({
         onDecline: handleDeclinePullRequest,
         onMarkDraft: handleMarkPullRequestAsDraft,
         onOpenMerge: () => setMergeOpen(true),
+        onOpenSubmitReview: () => openSubmitReview("comment"),
+        suggestionBatchCount: suggestionBatch.length,
+        onOpenSuggestionBatch: openSuggestionBatchPreview,
         onOpenOmnibar: handleOpenOmnibar,
         onOmnibarOpenChange: setOmnibarOpen,
         onOmnibarSelectFile: handleOmnibarSelectFile,
@@ -1186,6 +1445,20 @@ export function useReviewPageController({
         canMerge: actionPolicy.canMerge,
         isMerging: mergeMutation.isPending,
         onMerge: () => mergeMutation.mutate(),
+        submitReviewOpen,
+        onSubmitReviewDialogOpenChange: setSubmitReviewOpen,
+        submitReviewEvent,
+        onSubmitReviewEventChange: setSubmitReviewEvent,
+        submitReviewBody,
+        onSubmitReviewBodyChange: setSubmitReviewBody,
+        canRequestChangesInReview: hostCapabilities.requestChangesAvailable,
+        isSubmittingReview: usesLocalReviewBatch ? publishBatchMutation.isPending : submitReviewMutation.isPending,
+        isDiscardingReview: usesLocalReviewBatch ? discardBatchMutation.isPending : discardReviewMutation.isPending,
+        onSubmitReview: usesLocalReviewBatch ? handlePublishBatch : handleSubmitReview,
+        onDiscardReview: usesLocalReviewBatch ? handleDiscardBatch : handleDiscardReview,
+        reviewBatchComments: usesLocalReviewBatch ? reviewBatchComments : undefined,
+        reviewBatchProgress: usesLocalReviewBatch ? reviewBatchProgress : undefined,
+        onRemoveReviewBatchComment: usesLocalReviewBatch ? removeBatchComment : undefined,
     });
     const rightSidebar = useMemo(
         () => (
@@ -1251,7 +1524,7 @@ export function useReviewPageController({
 
     if (!prData) {
         if (!auth.canRead && !hostCapabilities.publicReadSupported) {
-            return <ReviewPageAuthRequiredState hostLabel={host === "github" ? "GitHub" : "Bitbucket"} authPromptSlot={authPromptSlot} />;
+            return <ReviewPageAuthRequiredState hostLabel={getHostLabel(host)} authPromptSlot={authPromptSlot} />;
         }
         return <ReviewPageLoadingView workspaceRef={workspaceRef} sidebarProps={sidebarProps} navbarProps={navbarProps} />;
     }
@@ -1281,6 +1554,9 @@ export function useReviewPageController({
                     selectedFileDiff={selectedFileDisplayState.fileDiff}
                     selectedFileReadOnlyHistorical={selectedFileDisplayState.readOnlyHistorical}
                     selectedFileVersionId={selectedFileDisplayState.selectedVersionId}
+                    selectedFileChangedSinceViewed={selectedFilePath ? changedSinceViewedPaths.has(selectedFilePath) : false}
+                    selectedFileViewedInterdiff={selectedFileViewedInterdiff}
+                    onOpenViewedInterdiff={openViewedInterdiff}
                     copiedPath={copiedPath}
                     fileLineStats={fileLineStats}
                     viewedFiles={viewedFiles}
@@ -1295,6 +1571,8 @@ export function useReviewPageController({
                     pullRequestId={pullRequestId}
                     createCommentPending={createCommentMutation.isPending}
                     canCommentInline={actionPolicy.canCommentInline && resolvedScope.mode === "full"}
+                    canBatchReview={(actionPolicy.canBatchReview || usesLocalReviewBatch) && resolvedScope.mode === "full"}
+                    hasPendingReview={pendingReviewCommentCount > 0}
                     canSuggestChanges={canSuggestChanges}
                     isSuggestionEditActive={isSuggestionEditingSelectedFile}
                     isPreparingSuggestionEdit={pendingSuggestionEditPath === selectedFilePath}
@@ -1302,6 +1580,8 @@ export function useReviewPageController({
                     suggestionSubmitPending={createSuggestionCommentsMutation.isPending}
                     editableFileDiff={isSuggestionEditingSelectedFile ? suggestionEditSession?.fileDiff : undefined}
                     canResolveThread={actionPolicy.canResolveThread}
+                    suggestionActions={resolvedScope.mode === "full" ? suggestionActions : undefined}
+                    reactionActions={reactionActions}
                     resolveCommentPending={resolveCommentMutation.isPending}
                     deleteCommentPending={deleteCommentMutation.isPending}
                     updateCommentPending={updateCommentMutation.isPending}
@@ -1316,12 +1596,15 @@ export function useReviewPageController({
                     resolveDisplayedDiffForPath={resolveDisplayedDiffForPath}
                     isVersionViewed={isVersionViewed}
                     threadsByPath={threadsByPath}
+                    orphanedThreads={orphanedThreads}
                     collapsedAllModeFiles={collapsedAllModeFiles}
                     collapseViewedFilesByDefault={options.collapseViewedFilesByDefault}
+                    generatedFileKinds={generatedFileKinds}
                     isSummaryCollapsedInAllMode={isSummaryCollapsedInAllMode}
                     buildFileAnnotations={buildFileAnnotations}
                     fileContextState={fileContextStatus}
                     onLoadFullFileContext={handleLoadFullFileContext}
+                    onLoadFileBytes={handleLoadFileBytes}
                     onWorkspaceModeChange={setViewMode}
                     onActiveFileChange={setActiveFile}
                     onShowSettingsPanelChange={setShowSettingsPanel}
@@ -1332,11 +1615,11 @@ export function useReviewPageController({
                     onToggleViewed={toggleViewed}
                     getInlineDraftContent={getInlineDraftContent}
                     setInlineDraftContent={setInlineDraftContent}
-                    onSubmitInlineComment={submitInlineComment}
+                    onSubmitInlineComment={submitInlineCommentOrBatch}
                     onStartSuggestionEdit={startSuggestionEdit}
                     onCancelSuggestionEdit={cancelSuggestionEdit}
                     onSuggestionEditChange={handleSuggestionEditChange}
-                    onSubmitSuggestions={submitCurrentSuggestions}
+                    onReviewSuggestions={reviewCurrentSuggestions}
                     onInlineDraftReady={(focus) => {
                         inlineDraftFocusRef.current = focus;
                     }}
@@ -1378,6 +1661,19 @@ export function useReviewPageController({
                 />
             }
             mergeDialogProps={mergeDialogProps}
+            submitReviewDialogProps={submitReviewDialogProps}
+            suggestionCommitDialogProps={suggestionCommitDialogProps}
+            suggestionReviewDialogProps={{
+                open: suggestionReviewOpen && suggestionEditSession !== null,
+                onOpenChange: (open) => {
+                    if (!open && !createSuggestionCommentsMutation.isPending) setSuggestionReviewOpen(false);
+                },
+                path: suggestionEditSession?.path ?? "",
+                originalContents: suggestionEditSession?.originalContents ?? "",
+                suggestions: pendingSuggestions,
+                isSubmitting: createSuggestionCommentsMutation.isPending,
+                onSubmit: submitReviewedSuggestions,
+            }}
         />
     );
 }
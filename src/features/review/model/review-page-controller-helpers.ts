@@ -20,6 +20,8 @@ export type CreateCommentPayload = {
 
 export const ALL_MODE_SCROLL_RETRY_DELAYS = [0, 80, 180, 320, 500, 700, 950, 1200, 1500, 1850, 2200, 2600, 3000, 3400, 3800] as const;
 export const ALL_MODE_STICKY_OFFSET = 0;
+// Ignoring whitespace needs both full versions of every shown file; fetch a few files at a time.
+export const IGNORE_WHITESPACE_CONTEXT_CONCURRENCY = 4;
 
 const singlePatchParseCache = new Map<string, FileDiffMetadata | undefined>();
 
@@ -44,6 +46,29 @@ export function latestVersionIdFromFingerprint(path: string, fingerprint: string
     return `${path}::${fingerprint}`;
 }
 
+/**
+ * A file stays viewed across pushes only while its patch fingerprint is unchanged. Files viewed at an older
+ * fingerprint are reported with that previous version id so the caller can show what changed since.
+ */
+export function resolveViewedCarryOver(storedVersionIds: Iterable<string>, latestVersionIdByPath: ReadonlyMap<string, string>) {
+    const viewedPaths = new Set<string>();
+    const changedSinceViewed = new Map<string, string>();
+    for (const versionId of storedVersionIds) {
+        const separatorIndex = versionId.lastIndexOf("::");
+        if (separatorIndex <= 0) continue;
+        const path = versionId.slice(0, separatorIndex);
+        const latestVersionId = latestVersionIdByPath.get(path);
+        if (!latestVersionId) continue;
+        if (latestVersionId === versionId) {
+            viewedPaths.add(path);
+            changedSinceViewed.delete(path);
+        } else if (!viewedPaths.has(path)) {
+            changedSinceViewed.set(path, versionId);
+        }
+    }
+    return { viewedPaths, changedSinceViewed };
+}
+
 export function commitVersionId(path: string, commitHash: string) {
     return `${path}:${commitHash}`;
 }
@@ -68,7 +93,7 @@ export function parseSingleFilePatch(patch: string) {
 }
 
 export function sameScopeSearch(a: ReviewDiffScopeSearch, b: ReviewDiffScopeSearch) {
-    return a.from === b.from && a.to === b.to;
+    return a.from === b.from && a.to === b.to && a.since === b.since && a.interdiff === b.interdiff;
 }
 
 export function commentMatchKey(comment: Pick<PullRequestComment, "content" | "inline" | "parent">) {
@@ -2,17 +2,19 @@ import type { FileDiffMetadata } from "@pierre/diffs/react";
 import { type Dispatch, type SetStateAction, useCallback, useEffect, useMemo, useRef, useState } from "react";
 import type { FileVersionSelectOption } from "@/components/pull-request-review/file-version-select";
 import { hashString } from "@/components/pull-request-review/review-page-model";
-import { readViewedVersionIds, writeViewedVersionIds } from "@/components/pull-request-review/use-review-storage";
-import { commitVersionId, latestVersionIdFromFingerprint, parseSingleFilePatch } from "@/features/review/model/review-page-controller-helpers";
+import type { ViewedInterdiffState } from "@/components/pull-request-review/review-single-mode-view";
+import { readViewedCommitRanges, readViewedVersionIds, writeViewedVersionIds } from "@/components/pull-request-review/use-review-storage";
+import {
+    commitVersionId,
+    latestVersionIdFromFingerprint,
+    parseSingleFilePatch,
+    resolveViewedCarryOver,
+} from "@/features/review/model/review-page-controller-helpers";
 import { getPullRequestFileHistoryCollection } from "@/lib/git-host/query-collections";
-import type { GitHost, PullRequestBundle } from "@/lib/git-host/types";
-
-type PullRequestRef = {
-    host: GitHost;
-    workspace: string;
-    repo: string;
-    pullRequestId: string;
-};
+import { fetchPullRequestCommitRangeDiff } from "@/lib/git-host/service";
+import type { PullRequestBundle, PullRequestRef } from "@/lib/git-host/types";
+import { useReviewComputeWorker } from "@/lib/review-performance/review-compute-worker-context";
+import { splitDiffByFile } from "@/lib/revision-interdiff";
 
 type PersistedFileHistoryByPath = Record<
     string,
@@ -31,13 +33,20 @@ type PersistedFileHistoryByPath = Record<
     }
 >;
 
+type ViewedBaseline = {
+    changedSinceViewed: Map<string, string>;
+    commitRanges: Record<string, string>;
+};
+
 type UseReviewFileVersionsParams = {
     fileDiffFingerprints: Map<string, string>;
     historyRevision: string;
     persistedFileHistoryByPath: PersistedFileHistoryByPath;
-    prData: Pick<PullRequestBundle, "diffstat" | "commits"> | undefined;
+    prData: Pick<PullRequestBundle, "diff" | "diffstat" | "commits"> | undefined;
     prRef: PullRequestRef;
     setViewedFiles: Dispatch<SetStateAction<Set<string>>>;
+    /** `base..head` of the displayed diff; undefined when it is not a single commit range. */
+    viewedCommitRange: string | undefined;
     viewedFiles: Set<string>;
     viewedStorageKey: string | null | undefined;
 };
@@ -49,6 +58,7 @@ export function useReviewFileVersions({
     prData,
     prRef,
     setViewedFiles,
+    viewedCommitRange,
     viewedFiles,
     viewedStorageKey,
 }: UseReviewFileVersionsParams) {
@@ -56,6 +66,9 @@ export function useReviewFileVersions({
     const [historyRequestedPaths, setHistoryRequestedPaths] = useState<Set<string>>(new Set());
     const [historyLoadingByPath, setHistoryLoadingByPath] = useState<Record<string, boolean>>({});
     const [historyErrorByPath, setHistoryErrorByPath] = useState<Record<string, string | null>>({});
+    const [viewedBaseline, setViewedBaseline] = useState<ViewedBaseline>({ changedSinceViewed: new Map(), commitRanges: {} });
+    const [viewedInterdiffByPath, setViewedInterdiffByPath] = useState<Record<string, { key: string; state: ViewedInterdiffState }>>({});
+    const { computeRevisionInterdiff } = useReviewComputeWorker();
     const loadedViewedStateRevisionRef = useRef("");
     const skipViewedStatePersistRevisionRef = useRef("");
     const loadedHistoryRevisionRef = useRef("");
@@ -67,6 +80,7 @@ export function useReviewFileVersions({
         }
         return map;
     }, [fileDiffFingerprints]);
+    const filePatchByPath = useMemo(() => splitDiffByFile(prData?.diff ?? ""), [prData?.diff]);
     const viewedStateLoadRevision = useMemo(() => {
         if (!viewedStorageKey) return "";
         const sortedVersionIds = Array.from(latestVersionIdByPath.values()).sort();
@@ -84,20 +98,11 @@ export function useReviewFileVersions({
         if (loadedViewedStateRevisionRef.current === viewedStateLoadRevision) return;
         loadedViewedStateRevisionRef.current = viewedStateLoadRevision;
         skipViewedStatePersistRevisionRef.current = viewedStateLoadRevision;
-        const knownVersionIds = new Set(latestVersionIdByPath.values());
-        const viewedIds = readViewedVersionIds(viewedStorageKey, {
-            fileDiffFingerprints,
-            knownVersionIds,
-        });
-        const nextViewedFiles = new Set<string>();
-        for (const [path, versionId] of latestVersionIdByPath.entries()) {
-            if (viewedIds.has(versionId)) {
-                nextViewedFiles.add(path);
-            }
-        }
-        setViewedFiles(nextViewedFiles);
+        const { viewedPaths, changedSinceViewed } = resolveViewedCarryOver(readViewedVersionIds(viewedStorageKey), latestVersionIdByPath);
+        setViewedFiles(viewedPaths);
+        setViewedBaseline({ changedSinceViewed, commitRanges: readViewedCommitRanges(viewedStorageKey) });
         resetHistoryTracking();
-    }, [fileDiffFingerprints, latestVersionIdByPath, prData?.diffstat.length, resetHistoryTracking, setViewedFiles, viewedStateLoadRevision, viewedStorageKey]);
+    }, [latestVersionIdByPath, prData?.diffstat.length, resetHistoryTracking, setViewedFiles, viewedStateLoadRevision, viewedStorageKey]);
 
     useEffect(() => {
         if (loadedHistoryRevisionRef.current === historyRevision) return;
@@ -114,13 +119,22 @@ export function useReviewFileVersions({
             return;
         }
         const viewedVersionIds = new Set<string>();
+        const viewedCommitRanges: Record<string, string> = {};
         for (const viewedPath of viewedFiles) {
             const latestVersionId = latestVersionIdByPath.get(viewedPath);
             if (!latestVersionId) continue;
             viewedVersionIds.add(latestVersionId);
+            if (viewedCommitRange) viewedCommitRanges[latestVersionId] = viewedCommitRange;
+        }
+        // Keep the older viewed version of changed files until they are viewed again, so the badge survives reloads.
+        for (const [path, previousVersionId] of viewedBaseline.changedSinceViewed) {
+            if (viewedFiles.has(path)) continue;
+            viewedVersionIds.add(previousVersionId);
+            const commitRange = viewedBaseline.commitRanges[previousVersionId];
+            if (commitRange) viewedCommitRanges[previousVersionId] = commitRange;
         }
-        writeViewedVersionIds(viewedStorageKey, viewedVersionIds);
-    }, [latestVersionIdByPath, prData?.diffstat.length, viewedFiles, viewedStateLoadRevision, viewedStorageKey]);
+        writeViewedVersionIds(viewedStorageKey, viewedVersionIds, viewedCommitRanges);
+    }, [latestVersionIdByPath, prData?.diffstat.length, viewedBaseline, viewedCommitRange, viewedFiles, viewedStateLoadRevision, viewedStorageKey]);
 
     useEffect(() => {
         setSelectedVersionIdByPath((prev) => {
@@ -174,9 +188,18 @@ export function useReviewFileVersions({
         (path: string) => selectedVersionIdByPath[path] ?? latestVersionIdByPath.get(path),
         [latestVersionIdByPath, selectedVersionIdByPath],
     );
+    const forgetChangedSinceViewed = useCallback((path: string) => {
+        setViewedBaseline((prev) => {
+            if (!prev.changedSinceViewed.has(path)) return prev;
+            const changedSinceViewed = new Map(prev.changedSinceViewed);
+            changedSinceViewed.delete(path);
+            return { ...prev, changedSinceViewed };
+        });
+    }, []);
     const markPathViewed = useCallback(
         (path: string) => {
             if (!latestVersionIdByPath.has(path)) return;
+            forgetChangedSinceViewed(path);
             setViewedFiles((prev) => {
                 if (prev.has(path)) return prev;
                 const next = new Set(prev);
@@ -184,11 +207,12 @@ export function useReviewFileVersions({
                 return next;
             });
         },
-        [latestVersionIdByPath, setViewedFiles],
+        [forgetChangedSinceViewed, latestVersionIdByPath, setViewedFiles],
     );
     const toggleViewedForPath = useCallback(
         (path: string) => {
             if (!latestVersionIdByPath.has(path)) return;
+            forgetChangedSinceViewed(path);
             setViewedFiles((prev) => {
                 const next = new Set(prev);
                 if (next.has(path)) {
@@ -199,7 +223,60 @@ export function useReviewFileVersions({
                 return next;
             });
         },
-        [latestVersionIdByPath, setViewedFiles],
+        [forgetChangedSinceViewed, latestVersionIdByPath, setViewedFiles],
+    );
+    const changedSinceViewedPaths = useMemo(
+        () => new Set(Array.from(viewedBaseline.changedSinceViewed.keys()).filter((path) => !viewedFiles.has(path))),
+        [viewedBaseline, viewedFiles],
+    );
+    // Results are keyed by both versions, so a push or a new viewed baseline recomputes them.
+    const viewedInterdiffKeyForPath = useCallback(
+        (path: string) => `${viewedBaseline.changedSinceViewed.get(path) ?? ""}>${latestVersionIdByPath.get(path) ?? ""}`,
+        [latestVersionIdByPath, viewedBaseline],
+    );
+    const getViewedInterdiffForPath = useCallback(
+        (path: string) => {
+            if (!changedSinceViewedPaths.has(path)) return undefined;
+            const entry = viewedInterdiffByPath[path];
+            return entry && entry.key === viewedInterdiffKeyForPath(path) ? entry.state : undefined;
+        },
+        [changedSinceViewedPaths, viewedInterdiffByPath, viewedInterdiffKeyForPath],
+    );
+    const loadViewedInterdiffForPath = useCallback(
+        async (path: string) => {
+            if (!changedSinceViewedPaths.has(path)) return;
+            const key = viewedInterdiffKeyForPath(path);
+            const setState = (state: ViewedInterdiffState) => setViewedInterdiffByPath((prev) => ({ ...prev, [path]: { key, state } }));
+            const previousVersionId = viewedBaseline.changedSinceViewed.get(path);
+            const [baseCommitHash, headCommitHash] = (previousVersionId ? (viewedBaseline.commitRanges[previousVersionId] ?? "") : "").split("..");
+            const currentPatch = filePatchByPath.get(path);
+            if (!baseCommitHash || !headCommitHash || !currentPatch) {
+                setState({ status: "unavailable", reason: "The version you viewed is no longer available." });
+                return;
+            }
+            setState({ status: "loading" });
+            try {
+                // Only the viewed commit range is stored, so the patch seen back then is fetched again.
+                const viewedRangeDiff = await fetchPullRequestCommitRangeDiff({ prRef, baseCommitHash, headCommitHash, selectedCommitHashes: [] });
+                const previousPatch = splitDiffByFile(viewedRangeDiff.diff).get(path);
+                if (!previousPatch) {
+                    setState({ status: "unavailable", reason: "This file is not part of the version you viewed." });
+                    return;
+                }
+                const interdiff = await computeRevisionInterdiff({ fromDiff: previousPatch, toDiff: currentPatch });
+                const fileDiff = parseSingleFilePatch(interdiff.diff);
+                if (interdiff.tooLarge) {
+                    setState({ status: "unavailable", reason: "This file's changes are too large to compare." });
+                } else if (!fileDiff) {
+                    setState({ status: "unavailable", reason: "Only the position of this file's changes moved since you viewed it." });
+                } else {
+                    setState({ status: "ready", fileDiff });
+                }
+            } catch (error) {
+                setState({ status: "unavailable", reason: error instanceof Error ? error.message : "Failed to compare versions." });
+            }
+        },
+        [changedSinceViewedPaths, computeRevisionInterdiff, filePatchByPath, prRef, viewedBaseline, viewedInterdiffKeyForPath],
     );
     const isPathViewed = useCallback((path: string) => viewedFiles.has(path), [viewedFiles]);
     const isVersionViewed = useCallback(
@@ -291,14 +368,17 @@ export function useReviewFileVersions({
     );
 
     return {
+        changedSinceViewedPaths,
         fetchRemoteFileHistory,
         getSelectedVersionIdForPath,
         getVersionOptionsForPath,
+        getViewedInterdiffForPath,
         handleOpenVersionMenuForPath,
         historyRequestedPaths,
         isPathViewed,
         isVersionViewed,
         latestVersionIdByPath,
+        loadViewedInterdiffForPath,
         markPathViewed,
         resolveDisplayedDiffForPath,
         setSelectedVersionForPath,
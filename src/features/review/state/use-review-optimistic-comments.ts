@@ -1,6 +1,7 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { type CreateCommentPayload, commentMatchKey } from "@/features/review/model/review-page-controller-helpers";
-import type { PullRequestBundle, Comment as PullRequestComment } from "@/lib/git-host/types";
+import { applyCommentReaction } from "@/lib/git-host/reactions";
+import type { CommentReactionContent, PullRequestBundle, Comment as PullRequestComment } from "@/lib/git-host/types";
 
 type UseReviewOptimisticCommentsParams = {
     currentUserAvatarUrl?: string;
@@ -9,6 +10,12 @@ type UseReviewOptimisticCommentsParams = {
     prContextKey: string;
 };
 
+type OptimisticReaction = { commentId: number; content: CommentReactionContent; reacted: boolean };
+
+function isSameReaction(a: Pick<OptimisticReaction, "commentId" | "content">, b: Pick<OptimisticReaction, "commentId" | "content">) {
+    return a.commentId === b.commentId && a.content === b.content;
+}
+
 export function useReviewOptimisticComments({
     currentUserAvatarUrl,
     currentUserDisplayName,
@@ -17,6 +24,8 @@ export function useReviewOptimisticComments({
 }: UseReviewOptimisticCommentsParams) {
     const [optimisticComments, setOptimisticComments] = useState<PullRequestComment[]>([]);
     const optimisticCommentIdRef = useRef(-1);
+    // Reaction toggles stay applied on top of server comments until the request settles and comments are refetched.
+    const [optimisticReactions, setOptimisticReactions] = useState<OptimisticReaction[]>([]);
 
     const removeMatchedOptimisticComments = useCallback((serverComments: PullRequestComment[]) => {
         const serverKeyCounts = new Map<string, number>();
@@ -78,6 +87,14 @@ export function useReviewOptimisticComments({
         setOptimisticComments((prev) => prev.filter((comment) => comment.id !== commentId));
     }, []);
 
+    const setOptimisticReaction = useCallback((reaction: OptimisticReaction) => {
+        setOptimisticReactions((prev) => [...prev.filter((entry) => !isSameReaction(entry, reaction)), reaction]);
+    }, []);
+
+    const clearOptimisticReaction = useCallback((reaction: Pick<OptimisticReaction, "commentId" | "content">) => {
+        setOptimisticReactions((prev) => prev.filter((entry) => !isSameReaction(entry, reaction)));
+    }, []);
+
     useEffect(() => {
         if (!effectivePrData?.comments?.length) return;
         if (optimisticComments.length === 0) return;
@@ -87,9 +104,10 @@ export function useReviewOptimisticComments({
     useEffect(() => {
         if (!prContextKey) return;
         setOptimisticComments([]);
+        setOptimisticReactions([]);
     }, [prContextKey]);
 
-    const prData = useMemo(() => {
+    const prDataWithComments = useMemo(() => {
         if (!effectivePrData) return undefined;
         if (optimisticComments.length === 0) return effectivePrData;
         const serverComments = effectivePrData.comments ?? [];
@@ -118,9 +136,26 @@ export function useReviewOptimisticComments({
         };
     }, [effectivePrData, optimisticComments]);
 
+    const prData = useMemo(() => {
+        if (!prDataWithComments || optimisticReactions.length === 0) return prDataWithComments;
+        return {
+            ...prDataWithComments,
+            comments: prDataWithComments.comments.map((comment) => {
+                const toggles = optimisticReactions.filter((reaction) => reaction.commentId === comment.id);
+                if (toggles.length === 0) return comment;
+                return {
+                    ...comment,
+                    reactions: toggles.reduce((reactions, toggle) => applyCommentReaction(reactions, toggle.content, toggle.reacted), comment.reactions ?? []),
+                };
+            }),
+        };
+    }, [optimisticReactions, prDataWithComments]);
+
     return {
+        clearOptimisticReaction,
         createOptimisticComment,
         prData,
         removeOptimisticComment,
+        setOptimisticReaction,
     };
 }
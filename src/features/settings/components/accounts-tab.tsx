@@ -0,0 +1,127 @@
+import { Check, LogOut, Plus, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { HostAuthForm } from "@/components/auth/host-auth-form";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { DEFAULT_HOST_ACCOUNT_ID } from "@/lib/data/query-collections";
+import { getHostLabel } from "@/lib/git-host/service";
+import type { GitHost } from "@/lib/git-host/types";
+import { usePrContext } from "@/lib/pr-context";
+
+const ACCOUNT_HOSTS: GitHost[] = ["bitbucket", "github", "gitlab"];
+
+function HostAccountsSection({ host }: { host: GitHost }) {
+    const { accountsByHost, activeAccountByHost, authByHost, switchAccount, addAccount, removeAccount, logout } = usePrContext();
+    const [newAccountLabel, setNewAccountLabel] = useState("");
+    const [error, setError] = useState<string | null>(null);
+    const accounts = accountsByHost[host];
+    const activeAccountId = activeAccountByHost[host];
+    const hostLabel = getHostLabel(host);
+
+    const runAction = async (action: () => Promise<unknown>) => {
+        setError(null);
+        try {
+            await action();
+        } catch (actionError) {
+            setError(actionError instanceof Error ? actionError.message : "Account action failed");
+        }
+    };
+
+    return (
+        <section className="space-y-2">
+            <h3 className="text-[12px] font-medium">{hostLabel}</h3>
+            <div className="rounded-md border border-border-muted bg-surface-1 text-[12px]">
+                {accounts.map((account) => {
+                    const isActive = account.id === activeAccountId;
+                    return (
+                        <div key={account.id} className="flex items-center gap-2 border-b border-border-muted px-2 py-1.5 last:border-b-0">
+                            {isActive ? <Check className="size-3.5 text-accent" /> : <span className="size-3.5" />}
+                            <span className="min-w-0 flex-1 truncate">{account.label}</span>
+                            {isActive ? (
+                                <span className="text-[11px] text-muted-foreground">{authByHost[host] ? "Connected" : "Not connected"}</span>
+                            ) : (
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="h-7 text-[11px]"
+                                    onClick={() => void runAction(() => switchAccount(host, account.id))}
+                                >
+                                    Use
+                                </Button>
+                            )}
+                            {isActive && authByHost[host] ? (
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="h-7 w-7 p-0"
+                                    aria-label={`Log out of ${account.label}`}
+                                    onClick={() => void runAction(() => logout(host))}
+                                >
+                                    <LogOut className="size-3.5" />
+                                </Button>
+                            ) : null}
+                            {account.id !== DEFAULT_HOST_ACCOUNT_ID ? (
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="h-7 w-7 p-0 text-status-removed hover:text-status-removed"
+                                    aria-label={`Remove ${account.label}`}
+                                    onClick={() => {
+                                        if (!window.confirm(`Remove the ${hostLabel} account "${account.label}" and its token?`)) return;
+                                        void runAction(() => removeAccount(host, account.id));
+                                    }}
+                                >
+                                    <Trash2 className="size-3.5" />
+                                </Button>
+                            ) : null}
+                        </div>
+                    );
+                })}
+            </div>
+
+            <form
+                className="flex max-w-md items-center gap-2"
+                onSubmit={(event) => {
+                    event.preventDefault();
+                    void runAction(async () => {
+                        await addAccount(host, newAccountLabel);
+                        setNewAccountLabel("");
+                    });
+                }}
+            >
+                <Input
+                    className="h-8 text-[12px]"
+                    placeholder="Account name, e.g. Work"
+                    value={newAccountLabel}
+                    onChange={(event) => setNewAccountLabel(event.target.value)}
+                    aria-label={`New ${hostLabel} account name`}
+                />
+                <Button type="submit" variant="outline" size="sm" disabled={!newAccountLabel.trim()}>
+                    <Plus className="size-3.5" />
+                    Add account
+                </Button>
+            </form>
+
+            {error ? <div className="text-[11px] text-status-removed">{error}</div> : null}
+
+            {!authByHost[host] ? (
+                <div className="max-w-md">
+                    <HostAuthForm host={host} mode="inline" />
+                </div>
+            ) : null}
+        </section>
+    );
+}
+
+export function AccountsTab() {
+    return (
+        <div className="max-w-3xl space-y-5">
+            <div className="text-[12px] text-muted-foreground">
+                Each account keeps its own token and repository selection. Pull requests open with the account their workspace was selected under.
+            </div>
+            {ACCOUNT_HOSTS.map((host) => (
+                <HostAccountsSection key={host} host={host} />
+            ))}
+        </div>
+    );
+}
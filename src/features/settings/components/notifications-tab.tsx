@@ -0,0 +1,47 @@
+import { useState } from "react";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useNotificationSettings } from "@/lib/notification-settings-context";
+
+export function NotificationsTab() {
+    const notifications = useNotificationSettings();
+    const [error, setError] = useState<string | null>(null);
+
+    return (
+        <div className="max-w-3xl space-y-3">
+            <div className="text-[12px] text-muted-foreground">
+                Pull requests in the review inbox are checked every minute for new commits, comments addressed to you, review decisions and build results.
+                Polling pauses while the tab is hidden and slows down when a host rate limits requests.
+            </div>
+            <div className="flex items-start justify-between gap-3">
+                <Label htmlFor="notifications-background-polling" className="text-[12px] text-foreground">
+                    Check for pull request updates in the background
+                </Label>
+                <Switch
+                    id="notifications-background-polling"
+                    checked={notifications.backgroundPolling}
+                    onCheckedChange={notifications.setBackgroundPolling}
+                    size="sm"
+                />
+            </div>
+            <div className="flex items-start justify-between gap-3">
+                <Label htmlFor="notifications-browser" className="text-[12px] text-foreground">
+                    Show browser notifications when this window is not focused
+                </Label>
+                <Switch
+                    id="notifications-browser"
+                    checked={notifications.browserNotifications}
+                    disabled={!notifications.backgroundPolling}
+                    onCheckedChange={(enabled) => {
+                        setError(null);
+                        notifications.setBrowserNotifications(enabled).catch((permissionError) => {
+                            setError(permissionError instanceof Error ? permissionError.message : "Could not enable browser notifications");
+                        });
+                    }}
+                    size="sm"
+                />
+            </div>
+            {error ? <div className="text-[11px] text-status-removed">{error}</div> : null}
+        </div>
+    );
+}
@@ -39,6 +39,7 @@ export function SettingsPage() {
                     }}
                     onRefresh={() => Promise.resolve()}
                     settingsActive
+                    onManageAccounts={() => setActiveFile(settingsPathForTab("accounts"))}
                 />
 
                 <div data-component="search-sidebar" className="h-10 pl-2 pr-2 bg-sidebar-chrome border-b border-sidebar-border flex items-center gap-2">
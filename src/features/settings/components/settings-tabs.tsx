@@ -1,6 +1,9 @@
+export { AccountsTab } from "@/features/settings/components/accounts-tab";
 export { AppearanceTab } from "@/features/settings/components/appearance-tab";
 export { DiffSettingsTab } from "@/features/settings/components/diff-settings-tab";
+export { NotificationsTab } from "@/features/settings/components/notifications-tab";
 export type { WorkspaceMode } from "@/features/settings/components/settings-workspace-mode";
 export { ShortcutsTab } from "@/features/settings/components/shortcuts-tab";
 export { StorageTab } from "@/features/settings/components/storage-tab";
+export { SyncTab } from "@/features/settings/components/sync-tab";
 export { TreeTab } from "@/features/settings/components/tree-tab";
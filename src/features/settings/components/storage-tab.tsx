@@ -1,7 +1,14 @@
-import { useCallback, useEffect, useState } from "react";
+import { type ChangeEvent, useCallback, useEffect, useRef, useState } from "react";
 import { Timestamp } from "@/components/timestamp";
 import { Button } from "@/components/ui/button";
-import { clearExpiredDataNow, type DataCollectionsDebugSnapshot, getDataCollectionsDebugSnapshot, type StorageTier } from "@/lib/data/query-collections";
+import {
+    clearExpiredDataNow,
+    type DataCollectionsDebugSnapshot,
+    exportReviewViewedState,
+    getDataCollectionsDebugSnapshot,
+    importReviewViewedState,
+    type StorageTier,
+} from "@/lib/data/query-collections";
 import { getReviewPerfSnapshot, type ReviewPerfSnapshot } from "@/lib/review-performance/metrics";
 
 const STORAGE_TIER_ORDER: StorageTier[] = ["state", "permanent"];
@@ -19,7 +26,7 @@ export function StorageTab() {
         snapshot: DataCollectionsDebugSnapshot | null;
         perfSnapshot: ReviewPerfSnapshot | null;
         loading: boolean;
-        busyAction: "refresh" | "clear-expired" | "export" | null;
+        busyAction: "refresh" | "clear-expired" | "export" | "export-viewed" | "import-viewed" | null;
         statusMessage: string | null;
     }>({
         snapshot: null,
@@ -29,6 +36,8 @@ export function StorageTab() {
         statusMessage: null,
     });
 
+    const importViewedInputRef = useRef<HTMLInputElement>(null);
+
     const refreshSnapshots = useCallback(async () => {
         setState((prev) => ({ ...prev, busyAction: "refresh" }));
         try {
@@ -96,6 +105,47 @@ export function StorageTab() {
         }
     }, []);
 
+    const runExportViewedFiles = useCallback(() => {
+        setState((prev) => ({ ...prev, busyAction: "export-viewed", statusMessage: null }));
+        try {
+            const payload = exportReviewViewedState();
+            const blob = new Blob([JSON.stringify(payload)], { type: "application/json" });
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement("a");
+            link.href = url;
+            link.download = `viewed-files-${Date.now()}.json`;
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+            URL.revokeObjectURL(url);
+            setState((prev) => ({ ...prev, statusMessage: `Exported viewed files for ${payload.scopes.length} reviews.` }));
+        } finally {
+            setState((prev) => ({ ...prev, busyAction: null }));
+        }
+    }, []);
+
+    const runImportViewedFiles = useCallback(
+        async (event: ChangeEvent<HTMLInputElement>) => {
+            const file = event.target.files?.[0];
+            event.target.value = "";
+            if (!file) return;
+            setState((prev) => ({ ...prev, busyAction: "import-viewed", statusMessage: null }));
+            try {
+                const imported = await importReviewViewedState(JSON.parse(await file.text()));
+                await refreshSnapshots();
+                setState((prev) => ({ ...prev, statusMessage: `Imported viewed files for ${imported} reviews.` }));
+            } catch (error) {
+                setState((prev) => ({
+                    ...prev,
+                    statusMessage: `Failed to import viewed files: ${error instanceof Error ? error.message : String(error)}`,
+                }));
+            } finally {
+                setState((prev) => ({ ...prev, busyAction: null }));
+            }
+        },
+        [refreshSnapshots],
+    );
+
     if (state.loading && !state.snapshot) {
         return <div className="text-[12px] text-muted-foreground">Loading storage diagnostics...</div>;
     }
@@ -189,6 +239,19 @@ export function StorageTab() {
                     <Button variant="outline" size="sm" disabled={state.busyAction !== null} onClick={() => void runExportDiagnostics()}>
                         Export diagnostics JSON
                     </Button>
+                    <Button variant="outline" size="sm" disabled={state.busyAction !== null} onClick={runExportViewedFiles}>
+                        Export viewed files
+                    </Button>
+                    <Button variant="outline" size="sm" disabled={state.busyAction !== null} onClick={() => importViewedInputRef.current?.click()}>
+                        Import viewed files
+                    </Button>
+                    <input
+                        ref={importViewedInputRef}
+                        type="file"
+                        accept="application/json,.json"
+                        className="hidden"
+                        onChange={(event) => void runImportViewedFiles(event)}
+                    />
                 </div>
             </section>
 
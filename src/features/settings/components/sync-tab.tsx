@@ -0,0 +1,107 @@
+import { useState } from "react";
+import { Timestamp } from "@/components/timestamp";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useStateSync } from "@/lib/state-sync-context";
+
+export function SyncTab() {
+    const sync = useStateSync();
+    const [passphrase, setPassphrase] = useState("");
+    const [syncId, setSyncId] = useState("");
+    const [pending, setPending] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const run = (action: () => Promise<void>) => {
+        setPending(true);
+        setError(null);
+        action()
+            .catch((actionError) => {
+                setError(actionError instanceof Error ? actionError.message : "Sync could not be changed");
+            })
+            .finally(() => {
+                setPending(false);
+            });
+    };
+
+    return (
+        <div className="max-w-3xl space-y-3">
+            <div className="text-[12px] text-muted-foreground">
+                Sync viewed files, drafts, layout and review progress between browsers. Data is encrypted in this browser with your passphrase before it is
+                sent. Turn sync on in one browser first, then enter the sync ID it shows and the same passphrase on your other devices. Host credentials and app
+                preferences stay on this device.
+            </div>
+            {sync.enabled ? (
+                <div className="space-y-2">
+                    {sync.syncId ? (
+                        <div className="text-[12px]">
+                            Sync ID <code className="select-all rounded bg-surface-1 px-1 font-mono text-[11px]">{sync.syncId}</code>
+                        </div>
+                    ) : null}
+                    <div className="text-[12px]">
+                        {sync.status.state === "syncing" ? "Syncing…" : null}
+                        {sync.status.state === "synced" ? (
+                            <>
+                                Last synced <Timestamp value={sync.status.lastSyncedAt} />
+                                {sync.status.oversizedCount > 0 ? (
+                                    <div className="text-[11px] text-status-modified">
+                                        {sync.status.oversizedCount === 1 ? "1 item is" : `${sync.status.oversizedCount} items are`} too large to sync and only
+                                        saved in this browser.
+                                    </div>
+                                ) : null}
+                            </>
+                        ) : null}
+                        {sync.status.state === "error" ? <span className="text-status-removed">Sync failed: {sync.status.error}</span> : null}
+                        {sync.status.state === "off" ? "Sync is not running." : null}
+                    </div>
+                    <Button variant="outline" size="sm" disabled={pending} onClick={() => run(sync.disable)}>
+                        Turn off sync
+                    </Button>
+                </div>
+            ) : (
+                <form
+                    className="space-y-2"
+                    onSubmit={(event) => {
+                        event.preventDefault();
+                        run(async () => {
+                            await sync.enable(passphrase, syncId);
+                            setPassphrase("");
+                            setSyncId("");
+                        });
+                    }}
+                >
+                    <Label htmlFor="sync-id" className="text-[12px] text-foreground">
+                        Sync ID
+                    </Label>
+                    <Input
+                        id="sync-id"
+                        autoComplete="off"
+                        spellCheck={false}
+                        placeholder="Leave empty in your first browser"
+                        className="h-7 max-w-sm font-mono text-[12px]"
+                        value={syncId}
+                        onChange={(event) => setSyncId(event.target.value)}
+                    />
+                    <Label htmlFor="sync-passphrase" className="text-[12px] text-foreground">
+                        Sync passphrase
+                    </Label>
+                    <div className="flex items-center gap-2">
+                        <Input
+                            id="sync-passphrase"
+                            type="password"
+                            autoComplete="new-password"
+                            className="h-7 max-w-sm text-[12px]"
+                            value={passphrase}
+                            onChange={(event) => setPassphrase(event.target.value)}
+                        />
+                        <Button type="submit" size="sm" disabled={pending || !sync.hydrated || passphrase.trim().length < 8}>
+                            Turn on sync
+                        </Button>
+                    </div>
+                    <div className="text-[11px] text-muted-foreground">Use at least 8 characters. A lost passphrase cannot be recovered.</div>
+                </form>
+            )}
+            {error ? <div className="text-[11px] text-status-removed">{error}</div> : null}
+        </div>
+    );
+}
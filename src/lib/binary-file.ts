@@ -0,0 +1,55 @@
+import type { FileDiffMetadata } from "@pierre/diffs/react";
+
+export type BinaryPreviewKind = "image" | "svg" | "binary";
+
+export type FileBytesSide = "deletions" | "additions";
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+    png: "image/png",
+    jpg: "image/jpeg",
+    jpeg: "image/jpeg",
+    gif: "image/gif",
+    webp: "image/webp",
+    bmp: "image/bmp",
+    ico: "image/x-icon",
+    avif: "image/avif",
+    svg: "image/svg+xml",
+};
+
+function extensionOf(path: string) {
+    const fileName = path.split("/").pop() ?? path;
+    const dotIndex = fileName.lastIndexOf(".");
+    return dotIndex < 0 ? "" : fileName.slice(dotIndex + 1).toLowerCase();
+}
+
+export function imageMimeType(path: string) {
+    return IMAGE_MIME_TYPES[extensionOf(path)] ?? "application/octet-stream";
+}
+
+/**
+ * Hosts describe binary changes as "Binary files … differ" without hunks, so a hunk-less change that is not a pure
+ * rename is treated as binary. SVGs keep their text diff as the source view next to the rendered preview.
+ */
+export function getBinaryPreviewKind(path: string, fileDiff: FileDiffMetadata): BinaryPreviewKind | null {
+    const extension = extensionOf(path);
+    if (extension === "svg") return "svg";
+    if (fileDiff.hunks.length > 0 || fileDiff.type === "rename-pure") return null;
+    return extension in IMAGE_MIME_TYPES ? "image" : "binary";
+}
+
+export function formatByteSize(bytes: number) {
+    if (bytes < 1024) return `${bytes} B`;
+    const units = ["KB", "MB", "GB"];
+    let value = bytes / 1024;
+    let unitIndex = 0;
+    while (value >= 1024 && unitIndex < units.length - 1) {
+        value /= 1024;
+        unitIndex += 1;
+    }
+    return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unitIndex]}`;
+}
+
+export async function sha256Hex(bytes: Uint8Array<ArrayBuffer>) {
+    const digest = await crypto.subtle.digest("SHA-256", bytes);
+    return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
@@ -4,38 +4,78 @@ export {
     type DataCollectionsDebugSnapshot,
     ensureDataCollectionsReady,
     getDataCollectionsDebugSnapshot,
+    getStateSyncCollections,
     type StorageTier,
 } from "@/lib/data/storage/debug";
 export {
+    addHostAccount,
+    assignWorkspaceAccounts,
     type BitbucketAuthCredential,
     clearBitbucketAuthCredential,
+    clearBitbucketDataCenterAuthCredential,
     clearGithubAuthCredential,
+    clearGitlabAuthCredential,
+    DEFAULT_HOST_ACCOUNT_ID,
+    type HostAccount,
+    listGithubAuthInstances,
+    listHostAccounts,
+    readActiveHostAccountId,
     readAppearanceSettingsRecord,
     readBitbucketAuthCredential,
+    readBitbucketDataCenterAuthCredential,
     readDiffOptionsRecord,
     readGithubAuthCredential,
+    readGitlabAuthCredential,
     readHostPreferencesRecord,
+    readNotificationSettingsRecord,
     readShortcutsRecord,
+    readSyncSettingsRecord,
     readTreeSettingsRecord,
+    readWorkspaceAccountId,
+    removeHostAccount,
+    setActiveHostAccount,
+    subscribeHostAccounts,
     writeAppearanceSettingsRecord,
     writeBitbucketAuthCredential,
+    writeBitbucketDataCenterAuthCredential,
     writeBitbucketOAuthCredential,
     writeDiffOptionsRecord,
     writeGithubAuthCredential,
+    writeGitlabAuthCredential,
     writeHostPreferencesRecord,
+    writeNotificationSettingsRecord,
     writeShortcutsRecord,
+    writeSyncSettingsRecord,
     writeTreeSettingsRecord,
 } from "@/lib/data/storage/preferences";
 export {
+    addReviewBatchComment,
     clearInlineCommentActiveDraft,
     clearInlineCommentDraftContent,
+    clearReviewBatchComments,
+    exportReviewViewedState,
+    importReviewViewedState,
     listInlineCommentDrafts,
+    listPullRequestRevisions,
+    listReviewBatchComments,
+    markReviewBatchCommentPublished,
+    type PullRequestRevision,
+    type PullRequestWatermark,
+    type ReviewedHead,
+    type ReviewViewedStateExport,
     readInlineCommentActiveDraft,
     readInlineCommentDraftContent,
+    readPullRequestWatermark,
+    readReviewedHead,
     readReviewLayoutState,
+    readReviewViewedCommitRanges,
     readReviewViewedVersionIds,
+    recordPullRequestRevision,
+    removeReviewBatchComment,
     writeInlineCommentActiveDraft,
     writeInlineCommentDraftContent,
+    writePullRequestWatermark,
+    writeReviewedHead,
     writeReviewLayoutState,
     writeReviewViewedVersionIds,
 } from "@/lib/data/storage/review-state";
@@ -4,5 +4,6 @@ export {
     type DataCollectionsDebugSnapshot,
     ensureDataCollectionsReady,
     getDataCollectionsDebugSnapshot,
+    getStateSyncCollections,
     type StorageTier,
 } from "./runtime";
@@ -1,20 +1,41 @@
 export {
+    addHostAccount,
+    assignWorkspaceAccounts,
     type BitbucketAuthCredential,
     clearBitbucketAuthCredential,
+    clearBitbucketDataCenterAuthCredential,
     clearGithubAuthCredential,
+    clearGitlabAuthCredential,
+    DEFAULT_HOST_ACCOUNT_ID,
+    type HostAccount,
+    listGithubAuthInstances,
+    listHostAccounts,
+    readActiveHostAccountId,
     readAppearanceSettingsRecord,
     readBitbucketAuthCredential,
+    readBitbucketDataCenterAuthCredential,
     readDiffOptionsRecord,
     readGithubAuthCredential,
+    readGitlabAuthCredential,
     readHostPreferencesRecord,
+    readNotificationSettingsRecord,
     readShortcutsRecord,
+    readSyncSettingsRecord,
     readTreeSettingsRecord,
+    readWorkspaceAccountId,
+    removeHostAccount,
+    setActiveHostAccount,
+    subscribeHostAccounts,
     writeAppearanceSettingsRecord,
     writeBitbucketAuthCredential,
+    writeBitbucketDataCenterAuthCredential,
     writeBitbucketOAuthCredential,
     writeDiffOptionsRecord,
     writeGithubAuthCredential,
+    writeGitlabAuthCredential,
     writeHostPreferencesRecord,
+    writeNotificationSettingsRecord,
     writeShortcutsRecord,
+    writeSyncSettingsRecord,
     writeTreeSettingsRecord,
 } from "./runtime";
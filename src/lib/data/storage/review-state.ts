@@ -1,13 +1,31 @@
 export {
+    addReviewBatchComment,
     clearInlineCommentActiveDraft,
     clearInlineCommentDraftContent,
+    clearReviewBatchComments,
+    exportReviewViewedState,
+    importReviewViewedState,
     listInlineCommentDrafts,
+    listPullRequestRevisions,
+    listReviewBatchComments,
+    markReviewBatchCommentPublished,
+    type PullRequestRevision,
+    type PullRequestWatermark,
+    type ReviewedHead,
+    type ReviewViewedStateExport,
     readInlineCommentActiveDraft,
     readInlineCommentDraftContent,
+    readPullRequestWatermark,
+    readReviewedHead,
     readReviewLayoutState,
+    readReviewViewedCommitRanges,
     readReviewViewedVersionIds,
+    recordPullRequestRevision,
+    removeReviewBatchComment,
     writeInlineCommentActiveDraft,
     writeInlineCommentDraftContent,
+    writePullRequestWatermark,
+    writeReviewedHead,
     writeReviewLayoutState,
     writeReviewViewedVersionIds,
 } from "./runtime";
@@ -1,5 +1,6 @@
 import { type Collection, type CollectionConfig, createCollection, localOnlyCollectionOptions } from "@tanstack/db";
 import { rxdbCollectionOptions } from "@tanstack/rxdb-db-collection";
+import type { RxCollection } from "rxdb/plugins/core";
 import type { GitHost, RepoRef } from "@/lib/git-host/types";
 
 export type StorageTier = "state" | "permanent";
@@ -14,6 +15,10 @@ const REVIEW_DIRECTORY_STATE_COLLECTION_NAME = "review_directory_state";
 const REVIEW_LAYOUT_STATE_COLLECTION_NAME = "review_layout_state";
 const INLINE_COMMENT_DRAFTS_COLLECTION_NAME = "inline_comment_drafts";
 const INLINE_COMMENT_ACTIVE_DRAFT_COLLECTION_NAME = "inline_comment_active_draft";
+const REVIEW_BATCH_COMMENTS_COLLECTION_NAME = "review_batch_comments";
+const PULL_REQUEST_WATERMARKS_COLLECTION_NAME = "pull_request_watermarks";
+const REVIEWED_HEADS_COLLECTION_NAME = "reviewed_heads";
+const PULL_REQUEST_REVISIONS_COLLECTION_NAME = "pull_request_revisions";
 const APP_METADATA_COLLECTION_NAME = "app_metadata";
 
 const APP_PREFERENCES_COLLECTION_ID = "app-preferences:rxdb";
@@ -22,6 +27,10 @@ const REVIEW_DIRECTORY_STATE_COLLECTION_ID = "review-directory-state:rxdb";
 const REVIEW_LAYOUT_STATE_COLLECTION_ID = "review-layout-state:rxdb";
 const INLINE_COMMENT_DRAFTS_COLLECTION_ID = "inline-comment-drafts:rxdb";
 const INLINE_COMMENT_ACTIVE_DRAFT_COLLECTION_ID = "inline-comment-active-draft:rxdb";
+const REVIEW_BATCH_COMMENTS_COLLECTION_ID = "review-batch-comments:rxdb";
+const PULL_REQUEST_WATERMARKS_COLLECTION_ID = "pull-request-watermarks:rxdb";
+const REVIEWED_HEADS_COLLECTION_ID = "reviewed-heads:rxdb";
+const PULL_REQUEST_REVISIONS_COLLECTION_ID = "pull-request-revisions:rxdb";
 const APP_METADATA_COLLECTION_ID = "app-metadata:rxdb";
 
 const APPEARANCE_RECORD_ID = "appearance";
@@ -29,6 +38,9 @@ const DIFF_OPTIONS_RECORD_ID = "diff-options";
 const TREE_SETTINGS_RECORD_ID = "tree-settings";
 const SHORTCUTS_RECORD_ID = "shortcuts";
 const HOST_PREFERENCES_RECORD_ID = "host-preferences";
+const HOST_ACCOUNTS_RECORD_ID = "host-accounts";
+const NOTIFICATION_SETTINGS_RECORD_ID = "notification-settings";
+const SYNC_SETTINGS_RECORD_ID = "sync-settings";
 const REVIEW_LAYOUT_RECORD_ID = "review-layout";
 const DEFAULT_REVIEW_RIGHT_SIDEBAR_WIDTH = 320;
 
@@ -115,25 +127,77 @@ type ShortcutsRecord = BaseCollectionRecord & {
     requestChangesPullRequest: ShortcutConfigRecord;
 };
 
+type NotificationSettingsRecord = BaseCollectionRecord & {
+    id: typeof NOTIFICATION_SETTINGS_RECORD_ID;
+    backgroundPolling: boolean;
+    browserNotifications: boolean;
+};
+
+type SyncSettingsRecord = BaseCollectionRecord & {
+    id: typeof SYNC_SETTINGS_RECORD_ID;
+    enabled: boolean;
+    syncId: string;
+};
+
 type HostPreferencesRecord = BaseCollectionRecord & {
     id: typeof HOST_PREFERENCES_RECORD_ID;
     activeHost: GitHost;
     reposByHost: Record<GitHost, RepoRef[]>;
 };
 
+export const DEFAULT_HOST_ACCOUNT_ID = "default";
+
+export type HostAccount = {
+    id: string;
+    label: string;
+};
+
+type HostAccountsRecord = BaseCollectionRecord & {
+    id: typeof HOST_ACCOUNTS_RECORD_ID;
+    accountsByHost: Partial<Record<GitHost, HostAccount[]>>;
+    activeAccountByHost: Partial<Record<GitHost, string>>;
+    /** Keyed by `host:workspace`. */
+    accountByWorkspace: Record<string, string>;
+};
+
 export type BitbucketAuthCredential =
     | { host: "bitbucket"; method: "apiToken"; email: string; apiToken: string }
     | { host: "bitbucket"; method: "oauth"; accessToken: string; refreshToken?: string; expiresAt?: number };
 
 type GithubAuthCredentialRecord = BaseCollectionRecord & {
-    id: "github";
+    id: string;
     host: "github";
     token: string;
+    instance?: string;
+    refreshToken?: string;
+    accessTokenExpiresAt?: number;
+};
+
+type BitbucketDataCenterAuthCredentialRecord = BaseCollectionRecord & {
+    id: string;
+    host: "bitbucket";
+    token: string;
+    baseUrl: string;
+};
+
+type GitlabAuthCredentialRecord = BaseCollectionRecord & {
+    id: string;
+    host: "gitlab";
+    token: string;
+    baseUrl: string;
 };
 
 type ReviewViewedStateRecord = BaseCollectionRecord & {
     id: string;
     viewedVersionIds: string[];
+    /** `base..head` of the diff each viewed version was seen in, keyed by version id. */
+    viewedCommitRanges: Record<string, string>;
+};
+
+export type ReviewViewedStateExport = {
+    version: 1;
+    exportedAt: string;
+    scopes: Array<{ id: string; viewedVersionIds: string[]; viewedCommitRanges: Record<string, string> }>;
 };
 
 type ReviewDirectoryStateRecord = BaseCollectionRecord & {
@@ -160,6 +224,8 @@ type InlineCommentDraftRecord = BaseCollectionRecord & {
     path: string;
     line: number;
     side: InlineDraftSide;
+    startLine?: number;
+    startSide?: InlineDraftSide;
     content: string;
 };
 
@@ -169,8 +235,57 @@ type InlineCommentActiveDraftRecord = BaseCollectionRecord & {
     path: string;
     line: number;
     side: InlineDraftSide;
+    startLine?: number;
+    startSide?: InlineDraftSide;
+};
+
+type ReviewBatchCommentRecord = BaseCollectionRecord & {
+    id: string;
+    scopeId: string;
+    order: number;
+    path: string;
+    line: number;
+    side: InlineDraftSide;
+    startLine?: number;
+    startSide?: InlineDraftSide;
+    content: string;
+    published: boolean;
+};
+
+/** What the background poller last saw on a pull request; changes past these marks raise notifications. */
+export type PullRequestWatermark = {
+    activityAt: string;
+    headCommitHash: string;
+    lastCommentId: number;
+    reviewStatuses: Record<string, string>;
+    buildState: string;
+};
+
+type PullRequestWatermarkRecord = BaseCollectionRecord & PullRequestWatermark;
+
+/** Head commits a pull request was at when the viewer last reviewed it and last opened it. */
+export type ReviewedHead = {
+    reviewedCommitHash?: string;
+    reviewedAt?: number;
+    visitedCommitHash?: string;
+    visitedAt?: number;
+};
+
+type ReviewedHeadRecord = BaseCollectionRecord & ReviewedHead;
+
+/** A head revision of a pull request the app has loaded, numbered in the order it was first seen. */
+export type PullRequestRevision = {
+    number: number;
+    headCommitHash: string;
+    baseCommitHash: string;
+    seenAt: number;
 };
 
+type PullRequestRevisionRecord = BaseCollectionRecord &
+    PullRequestRevision & {
+        prKey: string;
+    };
+
 type AppMetadataRecord = BaseCollectionRecord & {
     id: string;
     value: string;
@@ -212,6 +327,7 @@ export type DataCollectionsDebugSnapshot = {
 let appDataReadyPromise: Promise<void> | null = null;
 let appDataDatabase: { close: () => Promise<boolean> } | null = null;
 let appDataFallbackActive = false;
+let stateSyncCollections: Record<string, RxCollection> | null = null;
 let appDataPersistenceDegraded = false;
 let lastAppDataSweepAt: number | null = null;
 
@@ -221,6 +337,10 @@ let reviewDirectoryStateCollection: Collection<ReviewDirectoryStateRecord, strin
 let reviewLayoutStateCollection: Collection<ReviewLayoutStateRecord, string> | null = null;
 let inlineCommentDraftsCollection: Collection<InlineCommentDraftRecord, string> | null = null;
 let inlineCommentActiveDraftCollection: Collection<InlineCommentActiveDraftRecord, string> | null = null;
+let reviewBatchCommentsCollection: Collection<ReviewBatchCommentRecord, string> | null = null;
+let pullRequestWatermarksCollection: Collection<PullRequestWatermarkRecord, string> | null = null;
+let reviewedHeadsCollection: Collection<ReviewedHeadRecord, string> | null = null;
+let pullRequestRevisionsCollection: Collection<PullRequestRevisionRecord, string> | null = null;
 let appMetadataCollection: Collection<AppMetadataRecord, string> | null = null;
 
 function createRxdbBackedCollection<TRecord extends object>(id: string, rxCollection: unknown): Collection<TRecord, string> {
@@ -292,7 +412,7 @@ const APP_PREFERENCES_SCHEMA = {
 
 const REVIEW_VIEWED_STATE_SCHEMA = {
     title: "pullrequestdotreview review viewed state",
-    version: 0,
+    version: 1,
     type: "object",
     primaryKey: "id",
     properties: {
@@ -301,11 +421,22 @@ const REVIEW_VIEWED_STATE_SCHEMA = {
             type: "array",
             items: { type: "string" },
         },
+        viewedCommitRanges: {
+            type: "object",
+            additionalProperties: { type: "string" },
+        },
     },
-    required: ["id", "updatedAt", "expiresAt", "viewedVersionIds"],
+    required: ["id", "updatedAt", "expiresAt", "viewedVersionIds", "viewedCommitRanges"],
     additionalProperties: false,
 } as const;
 
+const REVIEW_VIEWED_STATE_MIGRATION_STRATEGIES = {
+    1: (oldDocument: ReviewViewedStateRecord & Record<string, unknown>) => ({
+        ...oldDocument,
+        viewedCommitRanges: {},
+    }),
+} as const;
+
 const REVIEW_DIRECTORY_STATE_SCHEMA = {
     title: "pullrequestdotreview review directory state",
     version: 0,
@@ -354,7 +485,7 @@ const REVIEW_LAYOUT_STATE_MIGRATION_STRATEGIES = {
 
 const INLINE_COMMENT_DRAFTS_SCHEMA = {
     title: "pullrequestdotreview inline comment drafts",
-    version: 0,
+    version: 1,
     type: "object",
     primaryKey: "id",
     properties: {
@@ -363,6 +494,8 @@ const INLINE_COMMENT_DRAFTS_SCHEMA = {
         path: { type: "string", maxLength: 1000 },
         line: { type: "number" },
         side: { type: "string", maxLength: 20 },
+        startLine: { type: "number" },
+        startSide: { type: "string", maxLength: 20 },
         content: { type: "string" },
     },
     required: ["id", "updatedAt", "expiresAt", "scopeId", "path", "line", "side", "content"],
@@ -371,7 +504,7 @@ const INLINE_COMMENT_DRAFTS_SCHEMA = {
 
 const INLINE_COMMENT_ACTIVE_DRAFT_SCHEMA = {
     title: "pullrequestdotreview inline comment active draft",
-    version: 0,
+    version: 1,
     type: "object",
     primaryKey: "id",
     properties: {
@@ -380,11 +513,89 @@ const INLINE_COMMENT_ACTIVE_DRAFT_SCHEMA = {
         path: { type: "string", maxLength: 1000 },
         line: { type: "number" },
         side: { type: "string", maxLength: 20 },
+        startLine: { type: "number" },
+        startSide: { type: "string", maxLength: 20 },
     },
     required: ["id", "updatedAt", "expiresAt", "scopeId", "path", "line", "side"],
     additionalProperties: false,
 } as const;
 
+const REVIEW_BATCH_COMMENTS_SCHEMA = {
+    title: "pullrequestdotreview review batch comments",
+    version: 0,
+    type: "object",
+    primaryKey: "id",
+    properties: {
+        ...createBaseSchema(1000),
+        scopeId: { type: "string", maxLength: 900 },
+        order: { type: "number" },
+        path: { type: "string", maxLength: 1000 },
+        line: { type: "number" },
+        side: { type: "string", maxLength: 20 },
+        startLine: { type: "number" },
+        startSide: { type: "string", maxLength: 20 },
+        content: { type: "string" },
+        published: { type: "boolean" },
+    },
+    required: ["id", "updatedAt", "expiresAt", "scopeId", "order", "path", "line", "side", "content", "published"],
+    additionalProperties: false,
+} as const;
+
+// Version 1 only adds the optional `startLine` and `startSide` of multi-line drafts, so existing single-line documents carry over unchanged.
+const INLINE_DRAFT_RANGE_MIGRATION_STRATEGIES = {
+    1: (oldDocument: Record<string, unknown>) => oldDocument,
+} as const;
+
+const PULL_REQUEST_WATERMARKS_SCHEMA = {
+    title: "pullrequestdotreview pull request watermarks",
+    version: 0,
+    type: "object",
+    primaryKey: "id",
+    properties: {
+        ...createBaseSchema(1000),
+        activityAt: { type: "string" },
+        headCommitHash: { type: "string" },
+        lastCommentId: { type: "number" },
+        reviewStatuses: { type: "object" },
+        buildState: { type: "string" },
+    },
+    required: ["id", "updatedAt", "expiresAt", "activityAt", "headCommitHash", "lastCommentId", "reviewStatuses", "buildState"],
+    additionalProperties: false,
+} as const;
+
+const REVIEWED_HEADS_SCHEMA = {
+    title: "pullrequestdotreview reviewed heads",
+    version: 0,
+    type: "object",
+    primaryKey: "id",
+    properties: {
+        ...createBaseSchema(1000),
+        reviewedCommitHash: { type: "string" },
+        reviewedAt: { type: "number" },
+        visitedCommitHash: { type: "string" },
+        visitedAt: { type: "number" },
+    },
+    required: ["id", "updatedAt", "expiresAt"],
+    additionalProperties: false,
+} as const;
+
+const PULL_REQUEST_REVISIONS_SCHEMA = {
+    title: "pullrequestdotreview pull request revisions",
+    version: 0,
+    type: "object",
+    primaryKey: "id",
+    properties: {
+        ...createBaseSchema(1200),
+        prKey: { type: "string" },
+        number: { type: "number" },
+        headCommitHash: { type: "string" },
+        baseCommitHash: { type: "string" },
+        seenAt: { type: "number" },
+    },
+    required: ["id", "updatedAt", "expiresAt", "prKey", "number", "headCommitHash", "baseCommitHash", "seenAt"],
+    additionalProperties: false,
+} as const;
+
 const APP_METADATA_SCHEMA = {
     title: "pullrequestdotreview app metadata",
     version: 0,
@@ -406,6 +617,10 @@ function ensureCollectionsInitialized() {
         reviewLayoutStateCollection &&
         inlineCommentDraftsCollection &&
         inlineCommentActiveDraftCollection &&
+        reviewBatchCommentsCollection &&
+        pullRequestWatermarksCollection &&
+        reviewedHeadsCollection &&
+        pullRequestRevisionsCollection &&
         appMetadataCollection
     ) {
         return;
@@ -453,6 +668,34 @@ function ensureCollectionsInitialized() {
         }),
     );
 
+    reviewBatchCommentsCollection = createCollection(
+        localOnlyCollectionOptions<ReviewBatchCommentRecord, string>({
+            id: REVIEW_BATCH_COMMENTS_COLLECTION_ID,
+            getKey: (item) => item.id,
+        }),
+    );
+
+    pullRequestWatermarksCollection = createCollection(
+        localOnlyCollectionOptions<PullRequestWatermarkRecord, string>({
+            id: PULL_REQUEST_WATERMARKS_COLLECTION_ID,
+            getKey: (item) => item.id,
+        }),
+    );
+
+    reviewedHeadsCollection = createCollection(
+        localOnlyCollectionOptions<ReviewedHeadRecord, string>({
+            id: REVIEWED_HEADS_COLLECTION_ID,
+            getKey: (item) => item.id,
+        }),
+    );
+
+    pullRequestRevisionsCollection = createCollection(
+        localOnlyCollectionOptions<PullRequestRevisionRecord, string>({
+            id: PULL_REQUEST_REVISIONS_COLLECTION_ID,
+            getKey: (item) => item.id,
+        }),
+    );
+
     appMetadataCollection = createCollection(
         localOnlyCollectionOptions<AppMetadataRecord, string>({
             id: APP_METADATA_COLLECTION_ID,
@@ -461,6 +704,13 @@ function ensureCollectionsInitialized() {
     );
 }
 
+// Synced state records are small and self-contained, so conflicts keep whichever side was written last.
+const UPDATED_AT_CONFLICT_HANDLER = {
+    isEqual: (a: BaseCollectionRecord, b: BaseCollectionRecord) => JSON.stringify(a) === JSON.stringify(b),
+    resolve: async <T extends BaseCollectionRecord>({ newDocumentState, realMasterState }: { newDocumentState: T; realMasterState: T }) =>
+        newDocumentState.updatedAt > realMasterState.updatedAt ? newDocumentState : realMasterState,
+};
+
 async function initRxdbCollections() {
     if (typeof window === "undefined") {
         ensureCollectionsInitialized();
@@ -490,19 +740,43 @@ async function initRxdbCollections() {
         },
         [REVIEW_VIEWED_STATE_COLLECTION_NAME]: {
             schema: REVIEW_VIEWED_STATE_SCHEMA,
+            migrationStrategies: REVIEW_VIEWED_STATE_MIGRATION_STRATEGIES,
+            conflictHandler: UPDATED_AT_CONFLICT_HANDLER,
         },
         [REVIEW_DIRECTORY_STATE_COLLECTION_NAME]: {
             schema: REVIEW_DIRECTORY_STATE_SCHEMA,
+            conflictHandler: UPDATED_AT_CONFLICT_HANDLER,
         },
         [REVIEW_LAYOUT_STATE_COLLECTION_NAME]: {
             schema: REVIEW_LAYOUT_STATE_SCHEMA,
             migrationStrategies: REVIEW_LAYOUT_STATE_MIGRATION_STRATEGIES,
+            conflictHandler: UPDATED_AT_CONFLICT_HANDLER,
         },
         [INLINE_COMMENT_DRAFTS_COLLECTION_NAME]: {
             schema: INLINE_COMMENT_DRAFTS_SCHEMA,
+            migrationStrategies: INLINE_DRAFT_RANGE_MIGRATION_STRATEGIES,
+            conflictHandler: UPDATED_AT_CONFLICT_HANDLER,
         },
         [INLINE_COMMENT_ACTIVE_DRAFT_COLLECTION_NAME]: {
             schema: INLINE_COMMENT_ACTIVE_DRAFT_SCHEMA,
+            migrationStrategies: INLINE_DRAFT_RANGE_MIGRATION_STRATEGIES,
+            conflictHandler: UPDATED_AT_CONFLICT_HANDLER,
+        },
+        [REVIEW_BATCH_COMMENTS_COLLECTION_NAME]: {
+            schema: REVIEW_BATCH_COMMENTS_SCHEMA,
+            conflictHandler: UPDATED_AT_CONFLICT_HANDLER,
+        },
+        [PULL_REQUEST_WATERMARKS_COLLECTION_NAME]: {
+            schema: PULL_REQUEST_WATERMARKS_SCHEMA,
+            conflictHandler: UPDATED_AT_CONFLICT_HANDLER,
+        },
+        [REVIEWED_HEADS_COLLECTION_NAME]: {
+            schema: REVIEWED_HEADS_SCHEMA,
+            conflictHandler: UPDATED_AT_CONFLICT_HANDLER,
+        },
+        [PULL_REQUEST_REVISIONS_COLLECTION_NAME]: {
+            schema: PULL_REQUEST_REVISIONS_SCHEMA,
+            conflictHandler: UPDATED_AT_CONFLICT_HANDLER,
         },
         [APP_METADATA_COLLECTION_NAME]: {
             schema: APP_METADATA_SCHEMA,
@@ -550,7 +824,33 @@ async function initRxdbCollections() {
         INLINE_COMMENT_ACTIVE_DRAFT_COLLECTION_ID,
         collections[INLINE_COMMENT_ACTIVE_DRAFT_COLLECTION_NAME],
     );
+    reviewBatchCommentsCollection = createRxdbBackedCollection<ReviewBatchCommentRecord>(
+        REVIEW_BATCH_COMMENTS_COLLECTION_ID,
+        collections[REVIEW_BATCH_COMMENTS_COLLECTION_NAME],
+    );
+    pullRequestWatermarksCollection = createRxdbBackedCollection<PullRequestWatermarkRecord>(
+        PULL_REQUEST_WATERMARKS_COLLECTION_ID,
+        collections[PULL_REQUEST_WATERMARKS_COLLECTION_NAME],
+    );
+    reviewedHeadsCollection = createRxdbBackedCollection<ReviewedHeadRecord>(REVIEWED_HEADS_COLLECTION_ID, collections[REVIEWED_HEADS_COLLECTION_NAME]);
+    pullRequestRevisionsCollection = createRxdbBackedCollection<PullRequestRevisionRecord>(
+        PULL_REQUEST_REVISIONS_COLLECTION_ID,
+        collections[PULL_REQUEST_REVISIONS_COLLECTION_NAME],
+    );
     appMetadataCollection = createRxdbBackedCollection<AppMetadataRecord>(APP_METADATA_COLLECTION_ID, collections[APP_METADATA_COLLECTION_NAME]);
+    stateSyncCollections = Object.fromEntries(
+        [
+            REVIEW_VIEWED_STATE_COLLECTION_NAME,
+            REVIEW_DIRECTORY_STATE_COLLECTION_NAME,
+            REVIEW_LAYOUT_STATE_COLLECTION_NAME,
+            INLINE_COMMENT_DRAFTS_COLLECTION_NAME,
+            INLINE_COMMENT_ACTIVE_DRAFT_COLLECTION_NAME,
+            REVIEW_BATCH_COMMENTS_COLLECTION_NAME,
+            PULL_REQUEST_WATERMARKS_COLLECTION_NAME,
+            REVIEWED_HEADS_COLLECTION_NAME,
+            PULL_REQUEST_REVISIONS_COLLECTION_NAME,
+        ].map((name) => [name, collections[name] as RxCollection]),
+    );
 
     await Promise.all([
         appPreferencesCollection.preload(),
@@ -559,6 +859,10 @@ async function initRxdbCollections() {
         reviewLayoutStateCollection.preload(),
         inlineCommentDraftsCollection.preload(),
         inlineCommentActiveDraftCollection.preload(),
+        reviewBatchCommentsCollection.preload(),
+        pullRequestWatermarksCollection.preload(),
+        reviewedHeadsCollection.preload(),
+        pullRequestRevisionsCollection.preload(),
         appMetadataCollection.preload(),
     ]);
 }
@@ -755,6 +1059,38 @@ function getInlineCommentActiveDraftCollection() {
     return inlineCommentActiveDraftCollection;
 }
 
+function getReviewBatchCommentsCollection() {
+    ensureCollectionsInitialized();
+    if (!reviewBatchCommentsCollection) {
+        throw new Error("Review batch comments collection is unavailable");
+    }
+    return reviewBatchCommentsCollection;
+}
+
+function getPullRequestWatermarksCollection() {
+    ensureCollectionsInitialized();
+    if (!pullRequestWatermarksCollection) {
+        throw new Error("Pull request watermarks collection is unavailable");
+    }
+    return pullRequestWatermarksCollection;
+}
+
+function getReviewedHeadsCollection() {
+    ensureCollectionsInitialized();
+    if (!reviewedHeadsCollection) {
+        throw new Error("Reviewed heads collection is unavailable");
+    }
+    return reviewedHeadsCollection;
+}
+
+function getPullRequestRevisionsCollection() {
+    ensureCollectionsInitialized();
+    if (!pullRequestRevisionsCollection) {
+        throw new Error("Pull request revisions collection is unavailable");
+    }
+    return pullRequestRevisionsCollection;
+}
+
 function getAppMetadataCollection() {
     ensureCollectionsInitialized();
     if (!appMetadataCollection) {
@@ -815,12 +1151,14 @@ function normalizeReposByHost(reposByHost: Record<GitHost, RepoRef[]>): Record<G
             const displayName = typeof repo.displayName === "string" && repo.displayName.trim().length > 0 ? repo.displayName.trim() : repositorySlug;
             const normalized: RepoRef = {
                 host,
+                ...(repo.instance ? { instance: repo.instance } : {}),
+                ...(repo.account ? { account: repo.account } : {}),
                 workspace,
                 repo: repositorySlug,
                 fullName,
                 displayName,
             };
-            deduped.set(`${host}:${fullName}`, normalized);
+            deduped.set(`${host}:${repo.instance ?? ""}:${repo.account ?? ""}:${fullName}`, normalized);
         }
         return Array.from(deduped.values()).sort((a, b) => a.fullName.localeCompare(b.fullName));
     };
@@ -828,6 +1166,7 @@ function normalizeReposByHost(reposByHost: Record<GitHost, RepoRef[]>): Record<G
     return {
         bitbucket: normalizeHostRepos("bitbucket", reposByHost.bitbucket ?? []),
         github: normalizeHostRepos("github", reposByHost.github ?? []),
+        gitlab: normalizeHostRepos("gitlab", reposByHost.gitlab ?? []),
     };
 }
 
@@ -863,6 +1202,29 @@ export function writeShortcutsRecord(shortcuts: Omit<ShortcutsRecord, "id" | "up
     writePermanentRecord(SHORTCUTS_RECORD_ID, shortcuts as Record<string, unknown>, SHORTCUTS_RECORD_ID);
 }
 
+export function readNotificationSettingsRecord() {
+    return readPermanentRecord<Omit<NotificationSettingsRecord, keyof BaseCollectionRecord | "id">>(
+        NOTIFICATION_SETTINGS_RECORD_ID,
+    ) as NotificationSettingsRecord | null;
+}
+
+export function writeNotificationSettingsRecord(settings: Omit<NotificationSettingsRecord, "id" | "updatedAt" | "expiresAt">) {
+    writePermanentRecord(NOTIFICATION_SETTINGS_RECORD_ID, settings as Record<string, unknown>, NOTIFICATION_SETTINGS_RECORD_ID);
+}
+
+export function readSyncSettingsRecord() {
+    return readPermanentRecord<Omit<SyncSettingsRecord, keyof BaseCollectionRecord | "id">>(SYNC_SETTINGS_RECORD_ID) as SyncSettingsRecord | null;
+}
+
+export function writeSyncSettingsRecord(settings: Omit<SyncSettingsRecord, "id" | "updatedAt" | "expiresAt">) {
+    writePermanentRecord(SYNC_SETTINGS_RECORD_ID, settings as Record<string, unknown>, SYNC_SETTINGS_RECORD_ID);
+}
+
+/** The state-tier RxDB collections, or null while running on the in-memory fallback. */
+export function getStateSyncCollections() {
+    return stateSyncCollections;
+}
+
 export function readHostPreferencesRecord() {
     return readPermanentRecord<Omit<HostPreferencesRecord, keyof BaseCollectionRecord | "id">>(HOST_PREFERENCES_RECORD_ID) as HostPreferencesRecord | null;
 }
@@ -878,8 +1240,120 @@ export function writeHostPreferencesRecord(data: { activeHost: GitHost; reposByH
     );
 }
 
-export function readBitbucketAuthCredential() {
-    const record = readPermanentRecord<Record<string, unknown>>("bitbucket");
+const hostAccountListeners = new Set<() => void>();
+
+function readHostAccountsRecord(): Omit<HostAccountsRecord, keyof BaseCollectionRecord | "id"> {
+    const record = readPermanentRecord<Omit<HostAccountsRecord, keyof BaseCollectionRecord | "id">>(HOST_ACCOUNTS_RECORD_ID);
+    return {
+        accountsByHost: record?.accountsByHost ?? {},
+        activeAccountByHost: record?.activeAccountByHost ?? {},
+        accountByWorkspace: record?.accountByWorkspace ?? {},
+    };
+}
+
+async function writeHostAccountsRecord(data: Omit<HostAccountsRecord, keyof BaseCollectionRecord | "id">) {
+    await writePermanentRecord(HOST_ACCOUNTS_RECORD_ID, data, HOST_ACCOUNTS_RECORD_ID);
+    for (const listener of hostAccountListeners) {
+        listener();
+    }
+}
+
+export function subscribeHostAccounts(listener: () => void) {
+    hostAccountListeners.add(listener);
+    return () => {
+        hostAccountListeners.delete(listener);
+    };
+}
+
+export function listHostAccounts(host: GitHost): HostAccount[] {
+    const stored = readHostAccountsRecord().accountsByHost[host] ?? [];
+    return [{ id: DEFAULT_HOST_ACCOUNT_ID, label: "Default" }, ...stored.filter((account) => account.id !== DEFAULT_HOST_ACCOUNT_ID)];
+}
+
+export function readActiveHostAccountId(host: GitHost) {
+    const active = readHostAccountsRecord().activeAccountByHost[host];
+    return active && listHostAccounts(host).some((account) => account.id === active) ? active : DEFAULT_HOST_ACCOUNT_ID;
+}
+
+export async function setActiveHostAccount(host: GitHost, accountId: string) {
+    if (readActiveHostAccountId(host) === accountId) return;
+    if (!listHostAccounts(host).some((account) => account.id === accountId)) {
+        throw new Error(`Unknown ${host} account: ${accountId}`);
+    }
+    const record = readHostAccountsRecord();
+    await writeHostAccountsRecord({ ...record, activeAccountByHost: { ...record.activeAccountByHost, [host]: accountId } });
+}
+
+export async function addHostAccount(host: GitHost, label: string) {
+    const trimmed = label.trim();
+    if (!trimmed) throw new Error("Account name is required");
+    const existing = listHostAccounts(host);
+    const slug =
+        trimmed
+            .toLowerCase()
+            .replace(/[^a-z0-9]+/g, "-")
+            .replace(/^-+|-+$/g, "") || "account";
+    let id = slug;
+    for (let suffix = 2; existing.some((account) => account.id === id); suffix += 1) {
+        id = `${slug}-${suffix}`;
+    }
+
+    const record = readHostAccountsRecord();
+    const account = { id, label: trimmed } satisfies HostAccount;
+    await writeHostAccountsRecord({
+        ...record,
+        accountsByHost: { ...record.accountsByHost, [host]: [...(record.accountsByHost[host] ?? []), account] },
+    });
+    return account;
+}
+
+export async function removeHostAccount(host: GitHost, accountId: string) {
+    if (accountId === DEFAULT_HOST_ACCOUNT_ID) throw new Error("The default account cannot be removed");
+
+    const collection = getAppPreferencesCollection();
+    const credentialIds = Array.from(collection.values())
+        .filter((record) => record.value.host === host && record.id.endsWith(`#${accountId}`))
+        .map((record) => record.id);
+    await Promise.all(credentialIds.map((id) => deleteRecord(collection, id, `auth:${host}`)));
+
+    const record = readHostAccountsRecord();
+    await writeHostAccountsRecord({
+        accountsByHost: { ...record.accountsByHost, [host]: (record.accountsByHost[host] ?? []).filter((account) => account.id !== accountId) },
+        activeAccountByHost:
+            record.activeAccountByHost[host] === accountId ? { ...record.activeAccountByHost, [host]: DEFAULT_HOST_ACCOUNT_ID } : record.activeAccountByHost,
+        accountByWorkspace: Object.fromEntries(
+            Object.entries(record.accountByWorkspace).filter(([key, id]) => !(key.startsWith(`${host}:`) && id === accountId)),
+        ),
+    });
+}
+
+export function readWorkspaceAccountId(host: GitHost, workspace: string) {
+    const accountId = readHostAccountsRecord().accountByWorkspace[`${host}:${workspace}`];
+    return accountId && listHostAccounts(host).some((account) => account.id === accountId) ? accountId : undefined;
+}
+
+export async function assignWorkspaceAccounts(host: GitHost, workspaces: string[], accountId: string) {
+    const record = readHostAccountsRecord();
+    const accountByWorkspace = { ...record.accountByWorkspace };
+    let changed = false;
+    for (const workspace of workspaces) {
+        const key = `${host}:${workspace}`;
+        if (accountByWorkspace[key] === accountId) continue;
+        accountByWorkspace[key] = accountId;
+        changed = true;
+    }
+    if (!changed) return;
+    await writeHostAccountsRecord({ ...record, accountByWorkspace });
+}
+
+// The default account keeps the original credential record ids; other accounts suffix them with `#<account>`.
+// Callers acting for a specific pull request pass its account; sign-in and listing flows use the active one.
+function accountCredentialRecordId(host: GitHost, baseId: string, accountId = readActiveHostAccountId(host)) {
+    return accountId === DEFAULT_HOST_ACCOUNT_ID ? baseId : `${baseId}#${accountId}`;
+}
+
+export function readBitbucketAuthCredential(account?: string) {
+    const record = readPermanentRecord<Record<string, unknown>>(accountCredentialRecordId("bitbucket", "bitbucket", account));
     if (record?.host !== "bitbucket") return null;
 
     if (record.method === "oauth") {
@@ -906,7 +1380,7 @@ export function readBitbucketAuthCredential() {
 
 export async function writeBitbucketAuthCredential(data: { email: string; apiToken: string }) {
     await writePermanentRecord(
-        "bitbucket",
+        accountCredentialRecordId("bitbucket", "bitbucket"),
         {
             host: "bitbucket",
             method: "apiToken",
@@ -917,9 +1391,9 @@ export async function writeBitbucketAuthCredential(data: { email: string; apiTok
     );
 }
 
-export async function writeBitbucketOAuthCredential(data: { accessToken: string; refreshToken?: string; expiresAt?: number }) {
+export async function writeBitbucketOAuthCredential(data: { accessToken: string; refreshToken?: string; expiresAt?: number; account?: string }) {
     await writePermanentRecord(
-        "bitbucket",
+        accountCredentialRecordId("bitbucket", "bitbucket", data.account),
         {
             host: "bitbucket",
             method: "oauth",
@@ -932,31 +1406,114 @@ export async function writeBitbucketOAuthCredential(data: { accessToken: string;
 }
 
 export function clearBitbucketAuthCredential() {
-    void deleteRecord(getAppPreferencesCollection(), "bitbucket", "auth:bitbucket");
+    void deleteRecord(getAppPreferencesCollection(), accountCredentialRecordId("bitbucket", "bitbucket"), "auth:bitbucket");
+}
+
+export function readBitbucketDataCenterAuthCredential(account?: string) {
+    const record = readPermanentRecord<Omit<BitbucketDataCenterAuthCredentialRecord, keyof BaseCollectionRecord | "id">>(
+        accountCredentialRecordId("bitbucket", "bitbucket-datacenter", account),
+    );
+    if (record?.host !== "bitbucket") return null;
+    if (typeof record.token !== "string" || typeof record.baseUrl !== "string") return null;
+    return {
+        token: record.token,
+        baseUrl: record.baseUrl,
+    };
+}
+
+export async function writeBitbucketDataCenterAuthCredential(data: { token: string; baseUrl: string }) {
+    await writePermanentRecord(
+        accountCredentialRecordId("bitbucket", "bitbucket-datacenter"),
+        {
+            host: "bitbucket",
+            token: data.token,
+            baseUrl: data.baseUrl,
+        },
+        "auth:bitbucket-datacenter",
+    );
+}
+
+export function clearBitbucketDataCenterAuthCredential() {
+    void deleteRecord(getAppPreferencesCollection(), accountCredentialRecordId("bitbucket", "bitbucket-datacenter"), "auth:bitbucket-datacenter");
+}
+
+const GITHUB_INSTANCE_CREDENTIAL_PREFIX = "github:";
+
+// github.com keeps the original "github" record id; each Enterprise Server instance gets its own record.
+function githubCredentialRecordId(instance?: string, account?: string) {
+    return accountCredentialRecordId("github", instance ? `${GITHUB_INSTANCE_CREDENTIAL_PREFIX}${instance}` : "github", account);
 }
 
-export function readGithubAuthCredential() {
-    const record = readPermanentRecord<Omit<GithubAuthCredentialRecord, keyof BaseCollectionRecord | "id">>("github");
+export function readGithubAuthCredential(instance?: string, account?: string) {
+    const record = readPermanentRecord<Omit<GithubAuthCredentialRecord, keyof BaseCollectionRecord | "id">>(githubCredentialRecordId(instance, account));
     if (record?.host !== "github") return null;
     if (typeof record.token !== "string") return null;
     return {
         token: record.token,
+        ...(typeof record.refreshToken === "string" && record.refreshToken.trim() ? { refreshToken: record.refreshToken } : {}),
+        ...(typeof record.accessTokenExpiresAt === "number" && Number.isFinite(record.accessTokenExpiresAt) ? { expiresAt: record.accessTokenExpiresAt } : {}),
     };
 }
 
-export async function writeGithubAuthCredential(data: { token: string }) {
+export function listGithubAuthInstances() {
+    const accountId = readActiveHostAccountId("github");
+    const accountSuffix = accountId === DEFAULT_HOST_ACCOUNT_ID ? "" : `#${accountId}`;
+    const instances: string[] = [];
+    for (const record of getAppPreferencesCollection().values()) {
+        if (!record.id.startsWith(GITHUB_INSTANCE_CREDENTIAL_PREFIX)) continue;
+        if (record.value.host !== "github" || typeof record.value.token !== "string") continue;
+        const instance = record.id.slice(GITHUB_INSTANCE_CREDENTIAL_PREFIX.length);
+        const separator = instance.indexOf("#");
+        if ((separator === -1 ? "" : instance.slice(separator)) !== accountSuffix) continue;
+        instances.push(separator === -1 ? instance : instance.slice(0, separator));
+    }
+    return instances.sort();
+}
+
+export async function writeGithubAuthCredential(data: { token: string; instance?: string; refreshToken?: string; expiresAt?: number; account?: string }) {
     await writePermanentRecord(
-        "github",
+        githubCredentialRecordId(data.instance, data.account),
         {
             host: "github",
             token: data.token,
+            ...(data.instance ? { instance: data.instance } : {}),
+            ...(data.refreshToken ? { refreshToken: data.refreshToken } : {}),
+            ...(typeof data.expiresAt === "number" ? { accessTokenExpiresAt: data.expiresAt } : {}),
         },
         "auth:github",
     );
 }
 
-export function clearGithubAuthCredential() {
-    void deleteRecord(getAppPreferencesCollection(), "github", "auth:github");
+export function clearGithubAuthCredential(instance?: string) {
+    void deleteRecord(getAppPreferencesCollection(), githubCredentialRecordId(instance), "auth:github");
+}
+
+export function readGitlabAuthCredential(account?: string) {
+    const record = readPermanentRecord<Omit<GitlabAuthCredentialRecord, keyof BaseCollectionRecord | "id">>(
+        accountCredentialRecordId("gitlab", "gitlab", account),
+    );
+    if (record?.host !== "gitlab") return null;
+    if (typeof record.token !== "string" || typeof record.baseUrl !== "string") return null;
+    return {
+        token: record.token,
+        baseUrl: record.baseUrl,
+    };
+}
+
+export async function writeGitlabAuthCredential(data: { token: string; baseUrl: string }) {
+    await writePermanentRecord(
+        accountCredentialRecordId("gitlab", "gitlab"),
+        {
+            host: "gitlab",
+            token: data.token,
+            baseUrl: data.baseUrl,
+        },
+        "auth:gitlab",
+    );
+}
+
+export function clearGitlabAuthCredential() {
+    void deleteRecord(getAppPreferencesCollection(), accountCredentialRecordId("gitlab", "gitlab"), "auth:gitlab");
 }
 
 function readStateRecord<T extends { expiresAt: number | null; id: string }>(collection: Collection<T, string>, id: string) {
@@ -976,7 +1533,12 @@ export function readReviewViewedVersionIds(scopeId: string) {
     return new Set(record.viewedVersionIds);
 }
 
-export function writeReviewViewedVersionIds(scopeId: string, viewedVersionIds: Set<string>) {
+export function readReviewViewedCommitRanges(scopeId: string): Record<string, string> {
+    if (!scopeId) return {};
+    return readStateRecord(getReviewViewedStateCollection(), scopeId)?.viewedCommitRanges ?? {};
+}
+
+export function writeReviewViewedVersionIds(scopeId: string, viewedVersionIds: Set<string>, viewedCommitRanges: Record<string, string> = {}) {
     if (!scopeId) return;
     if (viewedVersionIds.size === 0) {
         void deleteRecord(getReviewViewedStateCollection(), scopeId, `viewed:${scopeId}`);
@@ -989,6 +1551,7 @@ export function writeReviewViewedVersionIds(scopeId: string, viewedVersionIds: S
         {
             id: scopeId,
             viewedVersionIds: Array.from(viewedVersionIds),
+            viewedCommitRanges: Object.fromEntries(Object.entries(viewedCommitRanges).filter(([versionId]) => viewedVersionIds.has(versionId))),
             updatedAt: now,
             expiresAt: stateExpiresAt(now),
         },
@@ -996,6 +1559,52 @@ export function writeReviewViewedVersionIds(scopeId: string, viewedVersionIds: S
     );
 }
 
+export function exportReviewViewedState(): ReviewViewedStateExport {
+    const now = Date.now();
+    const scopes: ReviewViewedStateExport["scopes"] = [];
+    for (const record of getReviewViewedStateCollection().values()) {
+        if (isExpiredRecord(record, now)) continue;
+        scopes.push({ id: record.id, viewedVersionIds: record.viewedVersionIds, viewedCommitRanges: record.viewedCommitRanges });
+    }
+    return { version: 1, exportedAt: new Date(now).toISOString(), scopes };
+}
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+    return typeof value === "object" && value !== null && !Array.isArray(value) && Object.values(value).every((item) => typeof item === "string");
+}
+
+// Imported scopes are merged into local state, so importing never un-marks a file viewed on this device.
+export async function importReviewViewedState(payload: unknown) {
+    const scopes = typeof payload === "object" && payload !== null ? (payload as { version?: unknown; scopes?: unknown }) : null;
+    if (scopes?.version !== 1 || !Array.isArray(scopes.scopes)) {
+        throw new Error("Unsupported viewed files export.");
+    }
+
+    const collection = getReviewViewedStateCollection();
+    const now = Date.now();
+    let imported = 0;
+    for (const scope of scopes.scopes as unknown[]) {
+        const entry = typeof scope === "object" && scope !== null ? (scope as Record<string, unknown>) : {};
+        if (typeof entry.id !== "string" || !entry.id) continue;
+        if (!Array.isArray(entry.viewedVersionIds) || !entry.viewedVersionIds.every((versionId) => typeof versionId === "string")) continue;
+        const viewedCommitRanges = isStringRecord(entry.viewedCommitRanges) ? entry.viewedCommitRanges : {};
+        const existing = readStateRecord(collection, entry.id);
+        await upsertRecord(
+            collection,
+            {
+                id: entry.id,
+                viewedVersionIds: Array.from(new Set([...(existing?.viewedVersionIds ?? []), ...entry.viewedVersionIds])),
+                viewedCommitRanges: { ...viewedCommitRanges, ...(existing?.viewedCommitRanges ?? {}) },
+                updatedAt: now,
+                expiresAt: stateExpiresAt(now),
+            },
+            `viewed:${entry.id}`,
+        );
+        imported += 1;
+    }
+    return imported;
+}
+
 export function readReviewLayoutState() {
     return readStateRecord(getReviewLayoutStateCollection(), REVIEW_LAYOUT_RECORD_ID);
 }
@@ -1018,10 +1627,24 @@ type InlineCommentDraftLocation = {
     path: string;
     line: number;
     side: InlineDraftSide;
+    startLine?: number;
+    startSide?: InlineDraftSide;
 };
 
 function inlineDraftRecordId(scopeId: string, draft: InlineCommentDraftLocation) {
-    return `${scopeId}:${draft.side}:${draft.line}:${encodeURIComponent(draft.path)}`;
+    const { startLine, startSide } = inlineDraftStartLine(draft);
+    const lines = startLine === undefined ? `${draft.line}` : `${startSide ? `${startSide}:` : ""}${startLine}-${draft.line}`;
+    return `${scopeId}:${draft.side}:${lines}:${encodeURIComponent(draft.path)}`;
+}
+
+// A range that crosses sides keeps its start wherever it is; a same-side range must start before its last line.
+function inlineDraftStartLine(draft: { line: number; side: InlineDraftSide; startLine?: number; startSide?: InlineDraftSide }): {
+    startLine?: number;
+    startSide?: InlineDraftSide;
+} {
+    if (draft.startLine === undefined) return {};
+    if (draft.startSide && draft.startSide !== draft.side) return { startLine: draft.startLine, startSide: draft.startSide };
+    return draft.startLine < draft.line ? { startLine: draft.startLine } : {};
 }
 
 export function readInlineCommentDraftContent(scopeId: string, draft: InlineCommentDraftLocation) {
@@ -1049,6 +1672,7 @@ export function writeInlineCommentDraftContent(scopeId: string, draft: InlineCom
             path: draft.path,
             line: draft.line,
             side: draft.side,
+            ...inlineDraftStartLine(draft),
             content,
             updatedAt: now,
             expiresAt: stateExpiresAt(now),
@@ -1070,6 +1694,7 @@ export function readInlineCommentActiveDraft(scopeId: string): InlineCommentDraf
         path: record.path,
         line: record.line,
         side: record.side,
+        ...inlineDraftStartLine(record),
     };
 }
 
@@ -1084,6 +1709,7 @@ export function writeInlineCommentActiveDraft(scopeId: string, draft: InlineComm
             path: draft.path,
             line: draft.line,
             side: draft.side,
+            ...inlineDraftStartLine(draft),
             updatedAt: now,
             expiresAt: stateExpiresAt(now),
         },
@@ -1113,6 +1739,7 @@ export function listInlineCommentDrafts(scopeId: string): Array<InlineCommentDra
             path: record.path,
             line: record.line,
             side: record.side,
+            ...inlineDraftStartLine(record),
             content: record.content,
             updatedAt: record.updatedAt,
         });
@@ -1122,6 +1749,162 @@ export function listInlineCommentDrafts(scopeId: string): Array<InlineCommentDra
     return results;
 }
 
+export function listReviewBatchComments(
+    scopeId: string,
+): Array<InlineCommentDraftLocation & { id: string; order: number; content: string; published: boolean }> {
+    if (!scopeId) return [];
+    const now = Date.now();
+    const batchCollection = getReviewBatchCommentsCollection();
+    const records: ReviewBatchCommentRecord[] = [];
+
+    for (const record of batchCollection.values()) {
+        if (record.scopeId !== scopeId) continue;
+        if (isExpiredRecord(record, now)) {
+            void deleteRecord(batchCollection, record.id, `review-batch:${record.id}`);
+            continue;
+        }
+        records.push(record);
+    }
+
+    records.sort((a, b) => a.order - b.order);
+    return records.map((record) => ({
+        id: record.id,
+        order: record.order,
+        path: record.path,
+        line: record.line,
+        side: record.side,
+        ...inlineDraftStartLine(record),
+        content: record.content,
+        published: record.published,
+    }));
+}
+
+export async function addReviewBatchComment(scopeId: string, comment: InlineCommentDraftLocation & { content: string }) {
+    if (!scopeId) return;
+    const order = listReviewBatchComments(scopeId).reduce((max, item) => Math.max(max, item.order), 0) + 1;
+    const id = `${scopeId}:${order}`;
+    const now = Date.now();
+    await upsertRecord(
+        getReviewBatchCommentsCollection(),
+        {
+            id,
+            scopeId,
+            order,
+            path: comment.path,
+            line: comment.line,
+            side: comment.side,
+            ...inlineDraftStartLine(comment),
+            content: comment.content,
+            published: false,
+            updatedAt: now,
+            expiresAt: stateExpiresAt(now),
+        },
+        `review-batch:${id}`,
+    );
+}
+
+export async function markReviewBatchCommentPublished(id: string) {
+    const batchCollection = getReviewBatchCommentsCollection();
+    const record = readStateRecord(batchCollection, id);
+    if (!record) return;
+    const now = Date.now();
+    await upsertRecord(batchCollection, { ...record, published: true, updatedAt: now, expiresAt: stateExpiresAt(now) }, `review-batch:${id}`);
+}
+
+export async function removeReviewBatchComment(id: string) {
+    await deleteRecord(getReviewBatchCommentsCollection(), id, `review-batch:${id}`);
+}
+
+export async function clearReviewBatchComments(scopeId: string) {
+    if (!scopeId) return;
+    const batchCollection = getReviewBatchCommentsCollection();
+    const recordIds: string[] = [];
+    for (const record of batchCollection.values()) {
+        if (record.scopeId === scopeId) recordIds.push(record.id);
+    }
+    await Promise.all(recordIds.map((recordId) => deleteRecord(batchCollection, recordId, `review-batch:${recordId}`)));
+}
+
+export function readPullRequestWatermark(prKey: string): PullRequestWatermark | null {
+    const record = readStateRecord(getPullRequestWatermarksCollection(), prKey);
+    if (!record) return null;
+    return {
+        activityAt: record.activityAt,
+        headCommitHash: record.headCommitHash,
+        lastCommentId: record.lastCommentId,
+        reviewStatuses: record.reviewStatuses,
+        buildState: record.buildState,
+    };
+}
+
+export async function writePullRequestWatermark(prKey: string, watermark: PullRequestWatermark) {
+    if (!prKey) return;
+    const now = Date.now();
+    await upsertRecord(
+        getPullRequestWatermarksCollection(),
+        { id: prKey, ...watermark, updatedAt: now, expiresAt: stateExpiresAt(now) },
+        `pull-request-watermark:${prKey}`,
+    );
+}
+
+export function readReviewedHead(prKey: string): ReviewedHead | null {
+    const record = readStateRecord(getReviewedHeadsCollection(), prKey);
+    if (!record) return null;
+    return {
+        reviewedCommitHash: record.reviewedCommitHash,
+        reviewedAt: record.reviewedAt,
+        visitedCommitHash: record.visitedCommitHash,
+        visitedAt: record.visitedAt,
+    };
+}
+
+export async function writeReviewedHead(prKey: string, event: "reviewed" | "visited", commitHash: string) {
+    if (!prKey || !commitHash) return;
+    const collection = getReviewedHeadsCollection();
+    const now = Date.now();
+    const existing = readStateRecord(collection, prKey);
+    const next: ReviewedHeadRecord =
+        event === "reviewed"
+            ? { ...existing, id: prKey, reviewedCommitHash: commitHash, reviewedAt: now, updatedAt: now, expiresAt: stateExpiresAt(now) }
+            : { ...existing, id: prKey, visitedCommitHash: commitHash, visitedAt: now, updatedAt: now, expiresAt: stateExpiresAt(now) };
+    await upsertRecord(collection, next, `reviewed-head:${prKey}`);
+}
+
+export function listPullRequestRevisions(prKey: string): PullRequestRevision[] {
+    if (!prKey) return [];
+    const now = Date.now();
+    const revisions: PullRequestRevision[] = [];
+    for (const record of getPullRequestRevisionsCollection().values()) {
+        if (record.prKey !== prKey || isExpiredRecord(record, now)) continue;
+        revisions.push({
+            number: record.number,
+            headCommitHash: record.headCommitHash,
+            baseCommitHash: record.baseCommitHash,
+            seenAt: record.seenAt,
+        });
+    }
+    return revisions.sort((a, b) => a.number - b.number);
+}
+
+export async function recordPullRequestRevision(prKey: string, { headCommitHash, baseCommitHash }: { headCommitHash: string; baseCommitHash: string }) {
+    if (!prKey || !headCommitHash || !baseCommitHash) return;
+    const collection = getPullRequestRevisionsCollection();
+    const id = `${prKey}@${headCommitHash}`;
+    const now = Date.now();
+    const existing = readStateRecord(collection, id);
+    if (existing) {
+        await upsertRecord(collection, { ...existing, updatedAt: now, expiresAt: stateExpiresAt(now) }, `pull-request-revision:${id}`);
+        return;
+    }
+    const revisions = listPullRequestRevisions(prKey);
+    const number = (revisions[revisions.length - 1]?.number ?? 0) + 1;
+    await upsertRecord(
+        collection,
+        { id, prKey, number, headCommitHash, baseCommitHash, seenAt: now, updatedAt: now, expiresAt: stateExpiresAt(now) },
+        `pull-request-revision:${id}`,
+    );
+}
+
 async function sweepExpiredCollection<T extends { id: string; expiresAt: number | null }>(collection: Collection<T, string>, now: number, label: string) {
     const expiredRecordIds: string[] = [];
     for (const record of collection.values()) {
@@ -1140,6 +1923,10 @@ async function sweepExpiredStateCollections(now = Date.now()) {
     removed += await sweepExpiredCollection(getReviewLayoutStateCollection(), now, "layout");
     removed += await sweepExpiredCollection(getInlineCommentDraftsCollection(), now, "inline-draft");
     removed += await sweepExpiredCollection(getInlineCommentActiveDraftCollection(), now, "inline-active");
+    removed += await sweepExpiredCollection(getReviewBatchCommentsCollection(), now, "review-batch");
+    removed += await sweepExpiredCollection(getPullRequestWatermarksCollection(), now, "pull-request-watermark");
+    removed += await sweepExpiredCollection(getReviewedHeadsCollection(), now, "reviewed-head");
+    removed += await sweepExpiredCollection(getPullRequestRevisionsCollection(), now, "pull-request-revision");
     lastAppDataSweepAt = now;
     return { removed };
 }
@@ -1160,6 +1947,10 @@ function getAppCollectionSummaries(): AppCollectionSummary[] {
         { name: "reviewLayoutState", tier: "state", collection: getReviewLayoutStateCollection() },
         { name: "inlineCommentDrafts", tier: "state", collection: getInlineCommentDraftsCollection() },
         { name: "inlineCommentActiveDraft", tier: "state", collection: getInlineCommentActiveDraftCollection() },
+        { name: "reviewBatchComments", tier: "state", collection: getReviewBatchCommentsCollection() },
+        { name: "pullRequestWatermarks", tier: "state", collection: getPullRequestWatermarksCollection() },
+        { name: "reviewedHeads", tier: "state", collection: getReviewedHeadsCollection() },
+        { name: "pullRequestRevisions", tier: "state", collection: getPullRequestRevisionsCollection() },
     ];
 }
 
@@ -1253,6 +2044,7 @@ async function __resetDataCollectionsForTests() {
     appDataDatabase = null;
     appDataReadyPromise = null;
     appDataFallbackActive = false;
+    stateSyncCollections = null;
     appDataPersistenceDegraded = false;
     lastAppDataSweepAt = null;
 
@@ -1262,5 +2054,9 @@ async function __resetDataCollectionsForTests() {
     reviewLayoutStateCollection = null;
     inlineCommentDraftsCollection = null;
     inlineCommentActiveDraftCollection = null;
+    reviewBatchCommentsCollection = null;
+    pullRequestWatermarksCollection = null;
+    reviewedHeadsCollection = null;
+    pullRequestRevisionsCollection = null;
     appMetadataCollection = null;
 }
@@ -0,0 +1,163 @@
+import type { RxReplicationState } from "rxdb/plugins/replication";
+import { getStateSyncCollections } from "@/lib/data/query-collections";
+import { decryptSyncDocument, encryptSyncDocument, type SyncDocument, type SyncKeys } from "@/lib/data/sync/sync-crypto";
+import type { SyncCheckpoint, SyncEnvelope } from "@/worker-sync";
+
+const SYNC_ENDPOINT = "/api/sync";
+const SYNC_PULL_INTERVAL_MS = 60_000;
+const SYNC_RETRY_MS = 30_000;
+
+export type StateSyncStatus =
+    | { state: "off" }
+    | { state: "syncing" }
+    | { state: "synced"; lastSyncedAt: number; oversizedCount: number }
+    | { state: "error"; error: string; lastSyncedAt?: number };
+
+type SyncFetch = (input: string, init: RequestInit) => Promise<Response>;
+
+const listeners = new Set<() => void>();
+let status: StateSyncStatus = { state: "off" };
+let activeSync: { replications: RxReplicationState<SyncDocument, SyncCheckpoint>[]; stop: () => void } | null = null;
+
+function setStatus(next: StateSyncStatus) {
+    status = next;
+    for (const listener of listeners) {
+        listener();
+    }
+}
+
+function lastSyncedAt() {
+    return status.state === "synced" || status.state === "error" ? status.lastSyncedAt : undefined;
+}
+
+export function subscribeStateSyncStatus(listener: () => void) {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+export function getStateSyncStatusSnapshot() {
+    return status;
+}
+
+/** Pull and push handlers for one collection; documents are encrypted before they leave the browser. */
+export function createSyncReplicationHandlers({
+    collectionName,
+    keys,
+    endpoint = SYNC_ENDPOINT,
+    fetchImpl = fetch,
+    onPushed,
+}: {
+    collectionName: string;
+    keys: SyncKeys;
+    endpoint?: string;
+    fetchImpl?: SyncFetch;
+    /** Reports which documents were stored and which the worker rejected as too large. */
+    onPushed?: (result: { storedIds: string[]; rejectedIds: string[] }) => void;
+}) {
+    const post = async <T>(action: "pull" | "push", body: Record<string, unknown>) => {
+        const response = await fetchImpl(`${endpoint}/${collectionName}/${action}`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json", "X-Sync-Vault": keys.vaultId },
+            body: JSON.stringify(body),
+        });
+        if (!response.ok) {
+            const payload = (await response.json().catch(() => ({}))) as { error?: unknown };
+            throw new Error(typeof payload.error === "string" ? payload.error : `Sync ${action} failed (${response.status})`);
+        }
+        return (await response.json()) as T;
+    };
+
+    return {
+        pull: async (checkpoint: SyncCheckpoint | undefined, batchSize: number) => {
+            const result = await post<{ documents: SyncEnvelope[]; checkpoint: SyncCheckpoint | null }>("pull", { checkpoint: checkpoint ?? null, batchSize });
+            return {
+                documents: await Promise.all(result.documents.map((envelope) => decryptSyncDocument(keys, envelope))),
+                checkpoint: result.checkpoint ?? undefined,
+            };
+        },
+        // Conflicts come back encrypted, so they are decrypted here rather than in a pull modifier.
+        push: async (rows: Array<{ newDocumentState: SyncDocument; assumedMasterState?: SyncDocument | null }>) => {
+            const encryptedRows = await Promise.all(
+                rows.map(async (row) => ({
+                    newDocumentState: await encryptSyncDocument(keys, row.newDocumentState),
+                    assumedUpdatedAt: row.assumedMasterState?.updatedAt ?? null,
+                })),
+            );
+            const result = await post<{ conflicts: SyncEnvelope[]; rejected?: string[] }>("push", { rows: encryptedRows });
+            const rejected = new Set(result.rejected ?? []);
+            onPushed?.({
+                storedIds: rows.flatMap((row, index) => (rejected.has(encryptedRows[index].newDocumentState.id) ? [] : [row.newDocumentState.id])),
+                rejectedIds: rows.flatMap((row, index) => (rejected.has(encryptedRows[index].newDocumentState.id) ? [row.newDocumentState.id] : [])),
+            });
+            return Promise.all(result.conflicts.map((envelope) => decryptSyncDocument(keys, envelope)));
+        },
+    };
+}
+
+export async function stopStateSync() {
+    const current = activeSync;
+    activeSync = null;
+    if (current) {
+        current.stop();
+        await Promise.all(current.replications.map((replication) => replication.cancel()));
+    }
+    setStatus({ state: "off" });
+}
+
+export async function startStateSync(keys: SyncKeys) {
+    await stopStateSync();
+    const collections = getStateSyncCollections();
+    if (!collections) {
+        throw new Error("Sync needs the browser database, which is unavailable in this session");
+    }
+    setStatus({ state: "syncing" });
+    const { replicateRxCollection } = await import("rxdb/plugins/replication");
+
+    // Documents the worker refused as too large stay local until a later, smaller version syncs.
+    const oversizedIds = new Set<string>();
+    const replications = Object.entries(collections).map(([collectionName, collection]) => {
+        const handlers = createSyncReplicationHandlers({
+            collectionName,
+            keys,
+            onPushed: ({ storedIds, rejectedIds }) => {
+                for (const id of storedIds) oversizedIds.delete(`${collectionName}:${id}`);
+                for (const id of rejectedIds) oversizedIds.add(`${collectionName}:${id}`);
+            },
+        });
+        return replicateRxCollection<SyncDocument, SyncCheckpoint>({
+            collection,
+            replicationIdentifier: `pullrequestdotreview-sync:${keys.vaultId}:${collectionName}`,
+            live: true,
+            retryTime: SYNC_RETRY_MS,
+            pull: { handler: handlers.pull },
+            push: { handler: handlers.push },
+        });
+    });
+    const subscriptions = replications.flatMap((replication) => [
+        replication.error$.subscribe((error) => {
+            const cause = (error.parameters as { errors?: Array<{ message?: string }> } | undefined)?.errors?.[0]?.message;
+            setStatus({ state: "error", error: cause ?? error.message, lastSyncedAt: lastSyncedAt() });
+        }),
+        replication.active$.subscribe((active) => {
+            if (active || activeSync?.replications !== replications) return;
+            if (replications.some((replication) => replication.isStopped())) return;
+            setStatus({ state: "synced", lastSyncedAt: Date.now(), oversizedCount: oversizedIds.size });
+        }),
+    ]);
+    // Pushes are live; the worker has no change stream, so remote changes are pulled periodically and on focus.
+    const resync = () => {
+        for (const replication of replications) replication.reSync();
+    };
+    const interval = window.setInterval(resync, SYNC_PULL_INTERVAL_MS);
+    window.addEventListener("focus", resync);
+    activeSync = {
+        replications,
+        stop: () => {
+            window.clearInterval(interval);
+            window.removeEventListener("focus", resync);
+            for (const subscription of subscriptions) subscription.unsubscribe();
+        },
+    };
+}
@@ -0,0 +1,100 @@
+import type { SyncEnvelope } from "@/worker-sync";
+
+const SYNC_KEY_SALT = "pullrequest.review state sync v1";
+const SYNC_KEY_ITERATIONS = 310_000;
+const SYNC_ID_PATTERN = /^[a-f0-9]{32}$/u;
+
+export type SyncKeys = {
+    /** Identifies the sync ID and passphrase's storage on the worker without revealing either. */
+    vaultId: string;
+    encryptionKey: CryptoKey;
+    idKey: CryptoKey;
+};
+
+export type SyncDocument = {
+    id: string;
+    updatedAt: number;
+    _deleted: boolean;
+} & Record<string, unknown>;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+function bytesToHex(bytes: ArrayBuffer) {
+    return Array.from(new Uint8Array(bytes), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function bytesToBase64(bytes: Uint8Array) {
+    let binary = "";
+    for (const byte of bytes) binary += String.fromCharCode(byte);
+    return btoa(binary);
+}
+
+function base64ToBytes(value: string) {
+    return Uint8Array.from(atob(value), (character) => character.charCodeAt(0));
+}
+
+/** A random id created on the first device; other devices enter it with the passphrase, and it salts the keys. */
+export function createSyncId() {
+    return bytesToHex(crypto.getRandomValues(new Uint8Array(16)).buffer);
+}
+
+export function normalizeSyncId(value: string) {
+    const normalized = value.trim().toLowerCase().replace(/[\s-]/gu, "");
+    return SYNC_ID_PATTERN.test(normalized) ? normalized : null;
+}
+
+export async function deriveSyncKeys(passphrase: string, syncId: string): Promise<SyncKeys> {
+    const normalized = passphrase.trim();
+    if (!normalized) throw new Error("A sync passphrase is required");
+    const normalizedSyncId = normalizeSyncId(syncId);
+    if (!normalizedSyncId) throw new Error("The sync ID is invalid");
+    const baseKey = await crypto.subtle.importKey("raw", textEncoder.encode(normalized), "PBKDF2", false, ["deriveBits"]);
+    const bits = new Uint8Array(
+        await crypto.subtle.deriveBits(
+            { name: "PBKDF2", hash: "SHA-256", salt: textEncoder.encode(`${SYNC_KEY_SALT}:${normalizedSyncId}`), iterations: SYNC_KEY_ITERATIONS },
+            baseKey,
+            512,
+        ),
+    );
+    const encryptionKey = await crypto.subtle.importKey("raw", bits.slice(0, 32), "AES-GCM", false, ["encrypt", "decrypt"]);
+    const idKey = await crypto.subtle.importKey("raw", bits.slice(32), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+    const vaultId = bytesToHex(await crypto.subtle.sign("HMAC", idKey, textEncoder.encode(`vault:${normalizedSyncId}`)));
+    return { vaultId, encryptionKey, idKey };
+}
+
+async function hashDocumentId(keys: SyncKeys, id: string) {
+    return bytesToHex(await crypto.subtle.sign("HMAC", keys.idKey, textEncoder.encode(`document:${id}`)));
+}
+
+export async function encryptSyncDocument(keys: SyncKeys, document: SyncDocument): Promise<SyncEnvelope> {
+    const id = await hashDocumentId(keys, document.id);
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    // The hashed id is authenticated with the ciphertext, so a stored document cannot be replayed under another id.
+    const ciphertext = await crypto.subtle.encrypt(
+        { name: "AES-GCM", iv, additionalData: textEncoder.encode(id) },
+        keys.encryptionKey,
+        textEncoder.encode(JSON.stringify(document)),
+    );
+    return {
+        id,
+        updatedAt: document.updatedAt,
+        _deleted: document._deleted,
+        iv: bytesToBase64(iv),
+        ciphertext: bytesToBase64(new Uint8Array(ciphertext)),
+    };
+}
+
+export async function decryptSyncDocument(keys: SyncKeys, envelope: SyncEnvelope): Promise<SyncDocument> {
+    let plaintext: ArrayBuffer;
+    try {
+        plaintext = await crypto.subtle.decrypt(
+            { name: "AES-GCM", iv: base64ToBytes(envelope.iv), additionalData: textEncoder.encode(envelope.id) },
+            keys.encryptionKey,
+            base64ToBytes(envelope.ciphertext),
+        );
+    } catch {
+        throw new Error("Could not decrypt synced data. Check that every device uses the same sync ID and passphrase.");
+    }
+    return JSON.parse(textDecoder.decode(plaintext)) as SyncDocument;
+}
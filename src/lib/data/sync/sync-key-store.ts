@@ -0,0 +1,45 @@
+import type { SyncKeys } from "@/lib/data/sync/sync-crypto";
+
+// CryptoKeys survive IndexedDB's structured clone but not RxDB's JSON documents, so they get a database of their own.
+const SYNC_KEY_DATABASE_NAME = "pullrequestdotreview_sync_keys";
+const SYNC_KEY_STORE_NAME = "keys";
+const SYNC_KEY_RECORD_ID = "active";
+
+function openSyncKeyDatabase() {
+    return new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(SYNC_KEY_DATABASE_NAME, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(SYNC_KEY_STORE_NAME);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error ?? new Error("Failed to open the sync key database"));
+    });
+}
+
+async function runSyncKeyRequest<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) {
+    const database = await openSyncKeyDatabase();
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const request = run(database.transaction(SYNC_KEY_STORE_NAME, mode).objectStore(SYNC_KEY_STORE_NAME));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error ?? new Error("Sync key storage failed"));
+        });
+    } finally {
+        database.close();
+    }
+}
+
+/** The derived keys of the last enabled sync; they were imported non-extractable, so the passphrase is never stored. */
+export async function readStoredSyncKeys(): Promise<SyncKeys | null> {
+    if (typeof indexedDB === "undefined") return null;
+    const stored = (await runSyncKeyRequest("readonly", (store) => store.get(SYNC_KEY_RECORD_ID))) as SyncKeys | undefined;
+    return stored ?? null;
+}
+
+export async function writeStoredSyncKeys(keys: SyncKeys) {
+    if (typeof indexedDB === "undefined") return;
+    await runSyncKeyRequest("readwrite", (store) => store.put(keys, SYNC_KEY_RECORD_ID));
+}
+
+export async function clearStoredSyncKeys() {
+    if (typeof indexedDB === "undefined") return;
+    await runSyncKeyRequest("readwrite", (store) => store.delete(SYNC_KEY_RECORD_ID));
+}
@@ -4,6 +4,7 @@ import { ensureDataCollectionsReady, readDiffOptionsRecord, writeDiffOptionsReco
 import { registerExtendedDiffThemes } from "@/lib/diff-theme-registration";
 import { DEFAULT_DIFF_THEME, type DiffTheme } from "@/lib/diff-themes";
 import { DEFAULT_FONT_FAMILY, type FontFamilyValue } from "@/lib/font-options";
+import type { IgnoreWhitespaceMode } from "@/lib/whitespace-diff";
 
 export interface DiffOptions {
     followSystemTheme: boolean;
@@ -20,6 +21,11 @@ export interface DiffOptions {
     expansionLineCount: number;
     collapsedContextThreshold: number;
     lineDiffType: "word-alt" | "word" | "char" | "none";
+    structuralDiff: boolean;
+    hideFormattingChanges: boolean;
+    hideExactMoves: boolean;
+    ignoreWhitespace: IgnoreWhitespaceMode;
+    generatedFilePatterns: string;
     disableLineNumbers: boolean;
     overflow: "scroll" | "wrap";
     collapseViewedFilesByDefault: boolean;
@@ -41,6 +47,11 @@ const defaultOptions: DiffOptions = {
     expansionLineCount: 100,
     collapsedContextThreshold: 5,
     lineDiffType: "word",
+    structuralDiff: false,
+    hideFormattingChanges: false,
+    hideExactMoves: false,
+    ignoreWhitespace: "none",
+    generatedFilePatterns: "",
     disableLineNumbers: false,
     overflow: "scroll",
     collapseViewedFilesByDefault: false,
@@ -3,6 +3,10 @@ export function fileAnchorId(path: string) {
     return `file-${safe}`;
 }
 
+export function diffLineAnchorId(path: string, side: "additions" | "deletions", lineNumber: number) {
+    return `${fileAnchorId(path)}-${side}-${lineNumber}`;
+}
+
 export function commentAnchorId(commentId: number) {
     return `comment-${commentId}`;
 }
@@ -0,0 +1,142 @@
+export type GeneratedFileKind = "generated" | "vendored";
+
+export type GeneratedFileRule = {
+    pattern: string;
+    kind: GeneratedFileKind;
+    enabled: boolean;
+};
+
+type CompiledGeneratedFileRule = GeneratedFileRule & { matcher: RegExp };
+
+const BUILT_IN_GENERATED_PATTERNS = [
+    "package-lock.json",
+    "npm-shrinkwrap.json",
+    "yarn.lock",
+    "pnpm-lock.yaml",
+    "bun.lock",
+    "bun.lockb",
+    "Cargo.lock",
+    "Gemfile.lock",
+    "composer.lock",
+    "poetry.lock",
+    "Pipfile.lock",
+    "uv.lock",
+    "flake.lock",
+    "go.sum",
+    "__snapshots__/",
+    "*.snap",
+    "*.gen.*",
+    "*.generated.*",
+    "*.min.js",
+    "*.min.css",
+    "*.map",
+    "*.pb.go",
+    "*_pb2.py",
+];
+
+const BUILT_IN_VENDORED_PATTERNS = ["vendor/", "third_party/", "node_modules/", "bower_components/"];
+
+const LINGUIST_ATTRIBUTES: Record<string, GeneratedFileKind> = {
+    "linguist-generated": "generated",
+    "linguist-vendored": "vendored",
+};
+
+function escapeRegExp(value: string) {
+    return value.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+}
+
+function globToRegExpSource(glob: string) {
+    let source = "";
+    for (let index = 0; index < glob.length; index += 1) {
+        const char = glob[index];
+        if (char === "*" && glob[index + 1] === "*") {
+            const followedBySlash = glob[index + 2] === "/";
+            source += followedBySlash ? "(?:.*/)?" : ".*";
+            index += followedBySlash ? 2 : 1;
+        } else if (char === "*") {
+            source += "[^/]*";
+        } else if (char === "?") {
+            source += "[^/]";
+        } else {
+            source += escapeRegExp(char);
+        }
+    }
+    return source;
+}
+
+/**
+ * Follows `.gitattributes` matching: patterns without a slash match a file name at any depth, patterns with one are
+ * anchored to the repository root, and a trailing slash matches everything below that directory.
+ */
+function compileGlob(pattern: string) {
+    const isDirectory = pattern.endsWith("/");
+    const trimmed = pattern.replace(/^\/+/, "").replace(/\/+$/, "");
+    const isAnchored = pattern.startsWith("/") || trimmed.includes("/");
+    const prefix = isAnchored ? "^" : "(?:^|/)";
+    const suffix = isDirectory ? "/" : "(?:$|/)";
+    return new RegExp(`${prefix}${globToRegExpSource(trimmed)}${suffix}`);
+}
+
+export function parseGitattributesRules(contents: string): GeneratedFileRule[] {
+    const rules: GeneratedFileRule[] = [];
+    for (const rawLine of contents.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        if (!line || line.startsWith("#")) continue;
+        const [pattern, ...attributes] = line.split(/\s+/);
+        if (!pattern || pattern.startsWith("!")) continue;
+        for (const attribute of attributes) {
+            const negated = attribute.startsWith("-") || attribute.startsWith("!");
+            const [name, value] = (negated ? attribute.slice(1) : attribute).split("=");
+            const kind = LINGUIST_ATTRIBUTES[name];
+            if (!kind) continue;
+            rules.push({ pattern, kind, enabled: !negated && value !== "false" });
+        }
+    }
+    return rules;
+}
+
+function parseGeneratedFilePatterns(value: string): GeneratedFileRule[] {
+    return value
+        .split(/[\n,]/)
+        .map((pattern) => pattern.trim())
+        .filter(Boolean)
+        .flatMap<GeneratedFileRule>((pattern) => {
+            if (!pattern.startsWith("!")) return [{ pattern, kind: "generated", enabled: true }];
+            const excluded = pattern.slice(1);
+            return [
+                { pattern: excluded, kind: "generated", enabled: false },
+                { pattern: excluded, kind: "vendored", enabled: false },
+            ];
+        });
+}
+
+/** Later rules win, so repository attributes override the built-ins and user patterns override both. */
+export function buildGeneratedFileRules({ gitattributes, userPatterns }: { gitattributes: GeneratedFileRule[]; userPatterns: string }) {
+    return [
+        ...BUILT_IN_GENERATED_PATTERNS.map<GeneratedFileRule>((pattern) => ({ pattern, kind: "generated", enabled: true })),
+        ...BUILT_IN_VENDORED_PATTERNS.map<GeneratedFileRule>((pattern) => ({ pattern, kind: "vendored", enabled: true })),
+        ...gitattributes,
+        ...parseGeneratedFilePatterns(userPatterns),
+    ];
+}
+
+export function createGeneratedFileClassifier(rules: GeneratedFileRule[]) {
+    const compiled = rules.flatMap<CompiledGeneratedFileRule>((rule) => {
+        try {
+            return [{ ...rule, matcher: compileGlob(rule.pattern) }];
+        } catch {
+            return [];
+        }
+    });
+    return (path: string): GeneratedFileKind | undefined => {
+        let generated = false;
+        let vendored = false;
+        for (const rule of compiled) {
+            if (!rule.matcher.test(path)) continue;
+            if (rule.kind === "generated") generated = rule.enabled;
+            else vendored = rule.enabled;
+        }
+        if (generated) return "generated";
+        return vendored ? "vendored" : undefined;
+    };
+}
@@ -1,4 +1,5 @@
 export {
+    getInboxPullRequestCollection,
     getRepoPullRequestCollection,
     getRepositoryCollection,
 } from "./runtime";
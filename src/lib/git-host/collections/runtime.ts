@@ -1,5 +1,7 @@
 import { type Collection, createCollection, localOnlyCollectionOptions } from "@tanstack/db";
+import { DEFAULT_HOST_ACCOUNT_ID, readActiveHostAccountId } from "@/lib/data/query-collections";
 import {
+    fetchInboxPullRequestsForHost,
     fetchPullRequestBundleByRef,
     fetchPullRequestCommentsByRef,
     fetchPullRequestCommitRangeDiff,
@@ -9,9 +11,11 @@ import {
     fetchRepoPullRequestsForHost,
     listRepositoriesForHost,
 } from "@/lib/git-host/service";
+import { hostInstanceKey, repoRefKey } from "@/lib/git-host/shared/instance";
 import type {
     Commit,
     GitHost,
+    InboxPullRequest,
     PullRequestBundle,
     PullRequestCommitRangeDiff,
     PullRequestCriticalBundle,
@@ -66,6 +70,10 @@ type PersistedRepoPullRequestRecord = {
     fetchedAt: number;
 };
 
+type InboxPullRequestRecord = PersistedRepoPullRequestRecord & {
+    currentUserId: string;
+};
+
 type RepositoryRecord = RepoRef & {
     id: string;
     fetchedAt: number;
@@ -88,6 +96,7 @@ type ScopedCollection<T extends object> = {
 type HostDataCollectionKey =
     | "repositories"
     | "repoPullRequests"
+    | "inboxPullRequests"
     | "pullRequestBundles"
     | "pullRequestFileContexts"
     | "pullRequestFileHistories"
@@ -95,6 +104,7 @@ type HostDataCollectionKey =
 type HostDataRecordMap = {
     repositories: RepositoryRecord;
     repoPullRequests: PersistedRepoPullRequestRecord;
+    inboxPullRequests: InboxPullRequestRecord;
     pullRequestBundles: PersistedPullRequestBundleRecord;
     pullRequestFileContexts: PullRequestFileContextRecord;
     pullRequestFileHistories: PullRequestFileHistoryRecord;
@@ -122,6 +132,7 @@ type GitHostFetchActivitySnapshot = {
 
 const REPOSITORY_TANSTACK_COLLECTION_ID = "repos:memory";
 const REPO_PULL_REQUEST_TANSTACK_COLLECTION_ID = "repo-prs:memory";
+const INBOX_PULL_REQUEST_TANSTACK_COLLECTION_ID = "inbox-prs:memory";
 const PULL_REQUEST_BUNDLE_TANSTACK_COLLECTION_ID = "pr-bundle:memory";
 const PULL_REQUEST_FILE_CONTEXT_TANSTACK_COLLECTION_ID = "pr-file-contexts:memory";
 const PULL_REQUEST_FILE_HISTORY_TANSTACK_COLLECTION_ID = "pr-file-histories:memory";
@@ -130,13 +141,15 @@ const SCOPED_COLLECTION_CACHE_SIZE = 100;
 
 let repositoryCollection: Collection<RepositoryRecord, string> | null = null;
 let repoPullRequestCollection: Collection<PersistedRepoPullRequestRecord, string> | null = null;
+let inboxPullRequestCollection: Collection<InboxPullRequestRecord, string> | null = null;
 let pullRequestBundleCollection: Collection<PersistedPullRequestBundleRecord, string> | null = null;
 let pullRequestFileContextCollection: Collection<PullRequestFileContextRecord, string> | null = null;
 let pullRequestFileHistoryCollection: Collection<PullRequestFileHistoryRecord, string> | null = null;
 let pullRequestCommitRangeDiffCollection: Collection<PullRequestCommitRangeDiffRecord, string> | null = null;
 
-const repositoryScopedCollections = new Map<GitHost, ScopedCollection<RepositoryRecord>>();
+const repositoryScopedCollections = new Map<string, ScopedCollection<RepositoryRecord>>();
 const repoPullRequestScopedCollections = new LruCache<string, ScopedCollection<PersistedRepoPullRequestRecord>>(SCOPED_COLLECTION_CACHE_SIZE);
+const inboxPullRequestScopedCollections = new LruCache<string, ScopedCollection<InboxPullRequestRecord>>(SCOPED_COLLECTION_CACHE_SIZE);
 const pullRequestBundleScopedCollections = new LruCache<string, ScopedCollection<PersistedPullRequestBundleRecord>>(SCOPED_COLLECTION_CACHE_SIZE);
 const pullRequestFileHistoryScopedCollections = new LruCache<string, ScopedCollection<PullRequestFileHistoryRecord>>(SCOPED_COLLECTION_CACHE_SIZE);
 const pullRequestCommitRangeDiffScopedCollections = new LruCache<string, ScopedCollection<PullRequestCommitRangeDiffRecord>>(SCOPED_COLLECTION_CACHE_SIZE);
@@ -254,7 +267,7 @@ function createCollectionUtils(refetch: (opts?: { throwOnError?: boolean }) => P
 }
 
 function pullRequestBundleId(prRef: PullRequestRef) {
-    return `${prRef.host}:${prRef.workspace}/${prRef.repo}/${prRef.pullRequestId}`;
+    return `${hostInstanceKey(prRef)}:${prRef.workspace}/${prRef.repo}/${prRef.pullRequestId}`;
 }
 
 export function pullRequestDetailsFetchScopeId(prRef: PullRequestRef) {
@@ -293,6 +306,8 @@ function normalizeRepoRef(repo: RepoRef): RepoRef {
 
     return {
         host: repo.host,
+        ...(repo.instance ? { instance: repo.instance } : {}),
+        ...(repo.account ? { account: repo.account } : {}),
         workspace,
         repo: repositorySlug,
         fullName,
@@ -304,6 +319,7 @@ function normalizeReposByHost(reposByHost: ReposByHost): ReposByHost {
     return {
         bitbucket: [...(reposByHost.bitbucket ?? [])].map(normalizeRepoRef).sort((a, b) => a.fullName.localeCompare(b.fullName)),
         github: [...(reposByHost.github ?? [])].map(normalizeRepoRef).sort((a, b) => a.fullName.localeCompare(b.fullName)),
+        gitlab: [...(reposByHost.gitlab ?? [])].map(normalizeRepoRef).sort((a, b) => a.fullName.localeCompare(b.fullName)),
     };
 }
 
@@ -311,11 +327,21 @@ function stringifyCollectionRepos(reposByHost: ReposByHost) {
     const normalized = normalizeReposByHost(reposByHost);
     return JSON.stringify({
         bitbucket: normalized.bitbucket.map((repo) => ({
+            instance: repo.instance,
+            account: repo.account,
             workspace: repo.workspace,
             repo: repo.repo,
             fullName: repo.fullName,
         })),
         github: normalized.github.map((repo) => ({
+            instance: repo.instance,
+            account: repo.account,
+            workspace: repo.workspace,
+            repo: repo.repo,
+            fullName: repo.fullName,
+        })),
+        gitlab: normalized.gitlab.map((repo) => ({
+            account: repo.account,
             workspace: repo.workspace,
             repo: repo.repo,
             fullName: repo.fullName,
@@ -378,7 +404,7 @@ function markPullRequestDeferredError(record: PersistedPullRequestBundleRecord):
 function serializeRepoPullRequestRecord(repo: RepoRef, pullRequest: PullRequestSummary): PersistedRepoPullRequestRecord {
     const normalizedRepo = normalizeRepoRef(repo);
     const normalizedPullRequest = normalizePullRequestSummary(pullRequest);
-    const repoKey = `${normalizedRepo.host}:${normalizedRepo.fullName}`;
+    const repoKey = repoRefKey(normalizedRepo);
 
     const fetchedAt = Date.now();
     return {
@@ -391,6 +417,16 @@ function serializeRepoPullRequestRecord(repo: RepoRef, pullRequest: PullRequestS
     };
 }
 
+function serializeInboxPullRequestRecord(entry: InboxPullRequest, account: string | undefined): InboxPullRequestRecord[] {
+    if (!isValidRepoRef(entry.repo) || !isValidPullRequestSummary(entry.pullRequest)) return [];
+    return [
+        {
+            ...serializeRepoPullRequestRecord({ ...entry.repo, ...(account ? { account } : {}) }, entry.pullRequest),
+            currentUserId: entry.currentUserId,
+        },
+    ];
+}
+
 function serializePullRequestFileContextRecord({
     prRef,
     path,
@@ -447,7 +483,7 @@ function serializePullRequestCommitRangeDiffRecord(diff: PullRequestCommitRangeD
 function isValidRepoRef(repo: RepoRef | undefined): repo is RepoRef {
     return Boolean(
         repo &&
-            (repo.host === "bitbucket" || repo.host === "github") &&
+            (repo.host === "bitbucket" || repo.host === "github" || repo.host === "gitlab") &&
             typeof repo.workspace === "string" &&
             repo.workspace.length > 0 &&
             typeof repo.repo === "string" &&
@@ -474,6 +510,7 @@ function getHostDataCollection<K extends HostDataCollectionKey>(key: K): HostDat
     if (
         !repositoryCollection ||
         !repoPullRequestCollection ||
+        !inboxPullRequestCollection ||
         !pullRequestBundleCollection ||
         !pullRequestFileContextCollection ||
         !pullRequestFileHistoryCollection ||
@@ -493,6 +530,11 @@ function getHostDataCollection<K extends HostDataCollectionKey>(key: K): HostDat
                 throw new Error("Repository pull request collection is unavailable");
             }
             return repoPullRequestCollection as unknown as HostDataCollectionForKey<K>;
+        case "inboxPullRequests":
+            if (!inboxPullRequestCollection) {
+                throw new Error("Inbox pull request collection is unavailable");
+            }
+            return inboxPullRequestCollection as unknown as HostDataCollectionForKey<K>;
         case "pullRequestBundles":
             if (!pullRequestBundleCollection) {
                 throw new Error("Pull request bundle collection is unavailable");
@@ -524,6 +566,7 @@ function ensureCollectionsInitialized() {
     if (
         repositoryCollection &&
         repoPullRequestCollection &&
+        inboxPullRequestCollection &&
         pullRequestBundleCollection &&
         pullRequestFileContextCollection &&
         pullRequestFileHistoryCollection &&
@@ -546,6 +589,13 @@ function ensureCollectionsInitialized() {
         }),
     );
 
+    inboxPullRequestCollection = createCollection(
+        localOnlyCollectionOptions<InboxPullRequestRecord, string>({
+            id: INBOX_PULL_REQUEST_TANSTACK_COLLECTION_ID,
+            getKey: (item) => item.id,
+        }),
+    );
+
     pullRequestBundleCollection = createCollection(
         localOnlyCollectionOptions<PersistedPullRequestBundleRecord, string>({
             id: PULL_REQUEST_BUNDLE_TANSTACK_COLLECTION_ID,
@@ -898,7 +948,7 @@ export function getRepoPullRequestCollection(data: { hosts: GitHost[]; reposByHo
         for (const host of normalizedHosts) {
             for (const repo of normalizedReposByHost[host] ?? []) {
                 const normalizedRepo = normalizeRepoRef(repo);
-                selectedRepoKeys.add(`${normalizedRepo.host}:${normalizedRepo.fullName}`);
+                selectedRepoKeys.add(repoRefKey(normalizedRepo));
             }
         }
 
@@ -976,12 +1026,100 @@ export function getRepoPullRequestCollection(data: { hosts: GitHost[]; reposByHo
     return scoped;
 }
 
-export function getRepositoryCollection(host: GitHost) {
+export function getInboxPullRequestCollection(data: { hosts: GitHost[]; reposByHost: ReposByHost }) {
+    ensureCollectionsInitialized();
+    const normalizedHosts = data.hosts.toSorted();
+    const normalizedReposByHost = normalizeReposByHost(data.reposByHost);
+    const scopeId = `inbox-prs:${normalizedHosts.join(",")}:${stringifyCollectionRepos(normalizedReposByHost)}`;
+    const scopeLabel = `Review inbox (${normalizedHosts.length > 0 ? normalizedHosts.join(", ") : "none"})`;
+    const existing = inboxPullRequestScopedCollections.get(scopeId);
+    if (existing) return existing;
+
+    const utils = createCollectionUtils(async (opts) => {
+        const collection = getHostDataCollection("inboxPullRequests");
+        if (normalizedHosts.length === 0) {
+            utils.lastError = undefined;
+            return;
+        }
+
+        utils.isFetching = true;
+        try {
+            const settled = await Promise.allSettled(
+                normalizedHosts.map(async (host) => {
+                    const hostScopeId = `${scopeId}:host:${host}`;
+                    const hostScopeLabel = `Review inbox (${host})`;
+                    setFetchActivity(hostScopeId, hostScopeLabel, true);
+                    try {
+                        return await fetchInboxPullRequestsForHost({ host, repos: normalizedReposByHost[host] ?? [] });
+                    } finally {
+                        setFetchActivity(hostScopeId, hostScopeLabel, false);
+                    }
+                }),
+            );
+
+            const firstFailure = settled.find((result): result is PromiseRejectedResult => result.status === "rejected");
+            if (firstFailure && settled.every((result) => result.status === "rejected")) {
+                throw firstFailure.reason;
+            }
+
+            const fetchedHosts = new Set<GitHost>();
+            const nextRecords: InboxPullRequestRecord[] = [];
+            for (const [index, result] of settled.entries()) {
+                if (result.status !== "fulfilled") continue;
+                const host = normalizedHosts[index];
+                if (!host) continue;
+                fetchedHosts.add(host);
+                // Search results come back without an account, so tag them like the active account's repository list.
+                const activeAccountId = readActiveHostAccountId(host);
+                const account = activeAccountId === DEFAULT_HOST_ACCOUNT_ID ? undefined : activeAccountId;
+                for (const entry of result.value) {
+                    nextRecords.push(...serializeInboxPullRequestRecord(entry, account));
+                }
+            }
+
+            const nextIds = new Set(nextRecords.map((record) => record.id));
+            const staleRecordIds: string[] = [];
+            for (const existingRecord of collection.values()) {
+                if (!fetchedHosts.has(existingRecord.host)) continue;
+                if (nextIds.has(existingRecord.id)) continue;
+                staleRecordIds.push(existingRecord.id);
+            }
+            await Promise.all([
+                ...nextRecords.map((record) => upsertRecord("inboxPullRequests", record)),
+                ...staleRecordIds.map((recordId) => deleteRecord("inboxPullRequests", recordId)),
+            ]);
+
+            utils.lastError = firstFailure?.reason;
+            utils.dataUpdatedAt = Date.now();
+        } catch (error) {
+            utils.lastError = error;
+            if (opts?.throwOnError) {
+                throw error;
+            }
+        } finally {
+            utils.isFetching = false;
+        }
+    });
+
+    const scoped: ScopedCollection<InboxPullRequestRecord> = {
+        collection: getHostDataCollection("inboxPullRequests"),
+        utils,
+    };
+    const { evicted } = inboxPullRequestScopedCollections.set(scopeId, scoped);
+    if (evicted) {
+        unregisterScope(evicted.key);
+    }
+    registerRefetchScope(scopeId, scopeLabel, utils.refetch);
+    return scoped;
+}
+
+export function getRepositoryCollection(host: GitHost, accountId = readActiveHostAccountId(host)) {
     ensureCollectionsInitialized();
-    const existing = repositoryScopedCollections.get(host);
+    const account = accountId === DEFAULT_HOST_ACCOUNT_ID ? undefined : accountId;
+    const scopeId = account ? `repos:${host}#${account}` : `repos:${host}`;
+    const existing = repositoryScopedCollections.get(scopeId);
     if (existing) return existing;
-    const scopeId = `repos:${host}`;
-    const scopeLabel = `Repositories (${host})`;
+    const scopeLabel = account ? `Repositories (${host}; ${account})` : `Repositories (${host})`;
 
     const utils = createCollectionUtils(async (opts) => {
         const collection = getHostDataCollection("repositories");
@@ -991,10 +1129,10 @@ export function getRepositoryCollection(host: GitHost) {
             const repositories = await listRepositoriesForHost({ host });
             const timestamp = Date.now();
             const nextRecords = repositories.map((repo) => {
-                const repository = normalizeRepoRef(repo);
+                const repository = normalizeRepoRef({ ...repo, account });
                 return {
                     ...repository,
-                    id: `${repository.host}:${repository.fullName}`,
+                    id: repoRefKey(repository),
                     fetchedAt: timestamp,
                 };
             });
@@ -1002,7 +1140,7 @@ export function getRepositoryCollection(host: GitHost) {
 
             const staleRecordIds: string[] = [];
             for (const existingRecord of collection.values()) {
-                if (existingRecord.host !== host) continue;
+                if (existingRecord.host !== host || existingRecord.account !== account) continue;
                 if (nextIds.has(existingRecord.id)) continue;
                 staleRecordIds.push(existingRecord.id);
             }
@@ -1028,7 +1166,7 @@ export function getRepositoryCollection(host: GitHost) {
         collection: getHostDataCollection("repositories"),
         utils,
     };
-    repositoryScopedCollections.set(host, scoped);
+    repositoryScopedCollections.set(scopeId, scoped);
     registerRefetchScope(scopeId, scopeLabel, utils.refetch);
     return scoped;
 }
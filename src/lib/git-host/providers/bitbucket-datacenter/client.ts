@@ -0,0 +1,959 @@
+import {
+    clearBitbucketDataCenterAuthCredential,
+    readBitbucketDataCenterAuthCredential,
+    writeBitbucketDataCenterAuthCredential,
+} from "@/lib/data/query-collections";
+import { bitbucketNormalization } from "@/lib/git-host/providers/bitbucket";
+import { parseFailureBody } from "@/lib/git-host/shared/http";
+import { normalizeSelfHostedInstance, refAccountId } from "@/lib/git-host/shared/instance";
+import { REPO_PULL_REQUEST_LIST_LIMIT } from "@/lib/git-host/shared/pagination";
+import {
+    type AuthState,
+    type Comment,
+    type CommentPayload,
+    type CommentReaction,
+    type Commit,
+    type DiffStatEntry,
+    type GitHostClient,
+    HostApiError,
+    type InboxPullRequest,
+    type LoginCredentials,
+    type PullRequestBundle,
+    type PullRequestCommitRangeDiff,
+    type PullRequestCriticalBundle,
+    type PullRequestDeferredBundle,
+    type PullRequestDetails,
+    type PullRequestFileHistory,
+    type PullRequestFileHistoryEntry,
+    type PullRequestRef,
+    type PullRequestSummary,
+    type RepoRef,
+} from "@/lib/git-host/types";
+
+const REST_API = "/rest/api/1.0";
+const PAGE_LIMIT = 100;
+const DATA_CENTER_INBOX_LIMIT = 100;
+
+type CloudPullRequest = Parameters<typeof bitbucketNormalization.mapPullRequest>[0];
+type CloudUser = NonNullable<Parameters<typeof bitbucketNormalization.mapPullRequest>[1]>;
+type CloudComment = Parameters<typeof bitbucketNormalization.mapComment>[0];
+type CloudActivity = Parameters<typeof bitbucketNormalization.mapReviewers>[1] extends (infer T)[] | undefined ? T : never;
+type CloudBuildStatus = Parameters<typeof bitbucketNormalization.mapBuildStatuses>[0][number];
+
+interface DataCenterAuth {
+    token: string;
+    baseUrl: string;
+}
+
+interface DataCenterPage<T> {
+    values?: T[];
+    isLastPage?: boolean;
+    nextPageStart?: number | null;
+}
+
+interface DataCenterUser {
+    id?: number;
+    name?: string;
+    slug?: string;
+    displayName?: string;
+    emailAddress?: string;
+}
+
+interface DataCenterRef {
+    id?: string;
+    displayId?: string;
+    latestCommit?: string;
+    repository?: { slug?: string; project?: { key?: string } };
+}
+
+interface DataCenterParticipant {
+    user?: DataCenterUser;
+    role?: "AUTHOR" | "REVIEWER" | "PARTICIPANT";
+    approved?: boolean;
+    status?: "APPROVED" | "NEEDS_WORK" | "UNAPPROVED";
+}
+
+interface DataCenterPullRequest {
+    id: number;
+    version: number;
+    title: string;
+    description?: string;
+    state: string;
+    draft?: boolean;
+    createdDate?: number;
+    updatedDate?: number;
+    closedDate?: number;
+    fromRef?: DataCenterRef;
+    toRef?: DataCenterRef;
+    author?: DataCenterParticipant;
+    reviewers?: DataCenterParticipant[];
+    participants?: DataCenterParticipant[];
+    properties?: { commentCount?: number; openTaskCount?: number };
+    links?: { self?: Array<{ href?: string }> };
+}
+
+interface DataCenterCommentAnchor {
+    path?: string;
+    srcPath?: string;
+    line?: number;
+    lineType?: "ADDED" | "REMOVED" | "CONTEXT";
+    fileType?: "FROM" | "TO";
+    orphaned?: boolean;
+}
+
+interface DataCenterComment {
+    id: number;
+    version: number;
+    text?: string;
+    html?: string;
+    author?: DataCenterUser;
+    createdDate?: number;
+    updatedDate?: number;
+    comments?: DataCenterComment[];
+    anchor?: DataCenterCommentAnchor;
+    /** Tasks are comments with BLOCKER severity; they resolve through `state` instead of `threadResolved`. */
+    severity?: "NORMAL" | "BLOCKER";
+    state?: "OPEN" | "PENDING" | "RESOLVED";
+    threadResolved?: boolean;
+    threadResolvedUser?: DataCenterUser;
+    resolver?: DataCenterUser;
+    properties?: { likedBy?: { total?: number; likers?: DataCenterUser[] } };
+}
+
+interface DataCenterActivity {
+    id: number;
+    createdDate?: number;
+    user?: DataCenterUser;
+    action: string;
+    comment?: DataCenterComment;
+    commentAnchor?: DataCenterCommentAnchor;
+}
+
+interface DataCenterChange {
+    type?: string;
+    path?: { toString?: string };
+    srcPath?: { toString?: string };
+}
+
+interface DataCenterCommit {
+    id: string;
+    displayId?: string;
+    message?: string;
+    author?: DataCenterUser;
+    authorTimestamp?: number;
+}
+
+interface DataCenterRepository {
+    slug: string;
+    name?: string;
+    project?: { key?: string; name?: string };
+}
+
+interface DataCenterBuildStatus {
+    key?: string;
+    name?: string;
+    state?: string;
+    url?: string;
+    dateAdded?: number;
+}
+
+interface DataCenterMergeStatus {
+    canMerge?: boolean;
+    conflicted?: boolean;
+    vetoes?: Array<{ summaryMessage?: string; detailedMessage?: string }>;
+}
+
+function normalizeDataCenterBaseUrl(value?: string) {
+    const trimmed = value?.trim();
+    if (!trimmed) return null;
+    const withScheme = /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+    try {
+        const url = new URL(withScheme);
+        const pathname = url.pathname.replace(/\/+$/, "").replace(/\/rest\/api\/1\.0$/, "");
+        return `${url.origin}${pathname}`;
+    } catch {
+        return null;
+    }
+}
+
+function readAuth(account?: string): DataCenterAuth | null {
+    const stored = readBitbucketDataCenterAuthCredential(account);
+    if (!stored) return null;
+    const token = stored.token.trim();
+    const baseUrl = normalizeDataCenterBaseUrl(stored.baseUrl);
+    if (!token || !baseUrl) return null;
+    return { token, baseUrl };
+}
+
+function authInstance(auth: DataCenterAuth | null) {
+    return normalizeSelfHostedInstance(auth?.baseUrl);
+}
+
+// Credentials are stored for a single server, so refs for another instance must not reuse them.
+function assertAuthInstance(ref: { instance?: string; account?: string }) {
+    const expected = normalizeSelfHostedInstance(ref.instance);
+    if (!expected) return;
+    const current = authInstance(readAuth(refAccountId(ref)));
+    if (current && current !== expected) {
+        throw new Error(`Signed in to Bitbucket Data Center at ${current}, not ${expected}`);
+    }
+}
+
+async function parseFailure(response: Response) {
+    return parseFailureBody(response);
+}
+
+// Without an account, requests use the active account (sign-in and listing); pull request calls pass theirs.
+async function request(path: string, init: RequestInit = {}, options: { account?: string } = {}) {
+    const auth = readAuth(options.account);
+    if (!auth) throw new Error("Not authenticated");
+
+    const response = await fetch(path.startsWith("http") ? path : `${auth.baseUrl}${path}`, {
+        ...init,
+        cache: "no-store",
+        headers: {
+            Accept: "application/json",
+            Authorization: `Bearer ${auth.token}`,
+            ...(init.headers as Record<string, string>),
+        },
+    });
+
+    if (!response.ok) {
+        const body = await parseFailure(response);
+        throw new HostApiError(`Bitbucket Data Center API request failed (${response.status} ${response.statusText})`, {
+            status: response.status,
+            statusText: response.statusText,
+            body,
+        });
+    }
+
+    return response;
+}
+
+function jsonInit(method: string, body: unknown): RequestInit {
+    return {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+    };
+}
+
+// Data Center pages by offset: follow `nextPageStart` until the server reports `isLastPage`.
+function nextDataCenterPageStart(page: DataCenterPage<unknown>) {
+    if (page.isLastPage !== false) return undefined;
+    return typeof page.nextPageStart === "number" ? page.nextPageStart : undefined;
+}
+
+async function listPaged<T>(path: string, account?: string, maxItems?: number) {
+    const values: T[] = [];
+    let start: number | undefined = 0;
+
+    while (start !== undefined) {
+        const connector = path.includes("?") ? "&" : "?";
+        const res = await request(`${path}${connector}start=${start}&limit=${PAGE_LIMIT}`, {}, { account });
+        const page = (await res.json()) as DataCenterPage<T>;
+        values.push(...(page.values ?? []));
+        if (maxItems !== undefined && values.length >= maxItems) {
+            return values.slice(0, maxItems);
+        }
+        start = nextDataCenterPageStart(page);
+    }
+
+    return values;
+}
+
+async function mapWithConcurrency<TInput, TOutput>(values: TInput[], concurrency: number, mapper: (value: TInput, index: number) => Promise<TOutput>) {
+    if (values.length === 0) return [] as TOutput[];
+    const safeConcurrency = Math.max(1, Math.min(concurrency, values.length));
+    const results = new Array<TOutput>(values.length);
+    let index = 0;
+
+    const runNext = async (): Promise<void> => {
+        const current = index;
+        index += 1;
+        if (current >= values.length) return;
+        results[current] = await mapper(values[current], current);
+        return runNext();
+    };
+
+    await Promise.all(Array.from({ length: safeConcurrency }, () => runNext()));
+    return results;
+}
+
+function repoPath(ref: { workspace: string; repo: string; instance?: string; account?: string }) {
+    assertAuthInstance(ref);
+    return `${REST_API}/projects/${encodeURIComponent(ref.workspace)}/repos/${encodeURIComponent(ref.repo)}`;
+}
+
+function pullRequestPath(prRef: Pick<PullRequestRef, "account" | "workspace" | "repo" | "pullRequestId" | "instance">) {
+    return `${repoPath(prRef)}/pull-requests/${prRef.pullRequestId}`;
+}
+
+function toIsoDate(value?: number) {
+    return typeof value === "number" && Number.isFinite(value) ? new Date(value).toISOString() : undefined;
+}
+
+function toCloudUser(user?: DataCenterUser): CloudUser | undefined {
+    if (!user) return undefined;
+    return {
+        username: user.name,
+        nickname: user.slug,
+        display_name: user.displayName ?? user.name,
+    };
+}
+
+function mapDataCenterRef(ref?: DataCenterRef) {
+    if (!ref) return undefined;
+    const projectKey = ref.repository?.project?.key;
+    const slug = ref.repository?.slug;
+    return {
+        branch: { name: ref.displayId ?? ref.id?.replace(/^refs\/heads\//, "") },
+        commit: ref.latestCommit ? { hash: ref.latestCommit } : undefined,
+        repository: projectKey && slug ? { fullName: `${projectKey}/${slug}` } : undefined,
+    };
+}
+
+function toCloudParticipant(participant: DataCenterParticipant) {
+    return {
+        approved: participant.approved ?? participant.status === "APPROVED",
+        // Cloud reports "changes_requested"; Data Center calls the same decision NEEDS_WORK.
+        state: participant.status === "NEEDS_WORK" ? "changes_requested" : undefined,
+        user: toCloudUser(participant.user),
+    };
+}
+
+function toCloudPullRequest(pr: DataCenterPullRequest): CloudPullRequest {
+    return {
+        id: pr.id,
+        title: pr.title,
+        description: pr.description,
+        state: pr.state,
+        draft: pr.draft,
+        comment_count: pr.properties?.commentCount,
+        task_count: pr.properties?.openTaskCount,
+        created_on: toIsoDate(pr.createdDate),
+        updated_on: toIsoDate(pr.updatedDate),
+        closed_on: toIsoDate(pr.closedDate),
+        author: toCloudUser(pr.author?.user),
+        source: mapDataCenterRef(pr.fromRef),
+        destination: mapDataCenterRef(pr.toRef),
+        participants: [...(pr.reviewers ?? []), ...(pr.participants ?? [])].map(toCloudParticipant),
+        reviewers: (pr.reviewers ?? []).flatMap((reviewer) => {
+            const user = toCloudUser(reviewer.user);
+            return user ? [user] : [];
+        }),
+        links: { html: { href: pr.links?.self?.[0]?.href } },
+    };
+}
+
+function mapAnchor(anchor?: DataCenterCommentAnchor): CloudComment["inline"] {
+    if (!anchor?.path) return undefined;
+    const onOldSide = anchor.fileType === "FROM" || anchor.lineType === "REMOVED";
+    return {
+        path: anchor.path,
+        to: onOldSide ? undefined : anchor.line,
+        from: onOldSide ? anchor.line : undefined,
+        outdated: anchor.orphaned,
+    };
+}
+
+function isResolvedComment(comment: DataCenterComment) {
+    return comment.severity === "BLOCKER" ? comment.state === "RESOLVED" : Boolean(comment.threadResolved);
+}
+
+function isSameDataCenterUser(a: DataCenterUser, b: DataCenterUser) {
+    if (a.slug && b.slug) return a.slug === b.slug;
+    return Boolean(a.name) && a.name === b.name;
+}
+
+// Comment likes are the only reaction Data Center has; they surface as thumbs up.
+function mapCommentLikes(comment: DataCenterComment, currentUser?: DataCenterUser | null): CommentReaction[] {
+    const total = comment.properties?.likedBy?.total ?? 0;
+    if (total <= 0) return [];
+    const viewerReacted = Boolean(currentUser && comment.properties?.likedBy?.likers?.some((liker) => isSameDataCenterUser(liker, currentUser)));
+    return [{ content: "+1", count: total, ...(viewerReacted ? { viewerReacted } : {}) }];
+}
+
+// Data Center nests replies inside the root comment; flatten them into parent-linked comments.
+function flattenCommentThread(root: DataCenterComment, anchor?: DataCenterCommentAnchor, currentUser?: DataCenterUser | null): CloudComment[] {
+    const inline = mapAnchor(anchor ?? root.anchor);
+    const resolved = isResolvedComment(root);
+    const values: CloudComment[] = [];
+
+    const visit = (comment: DataCenterComment, parentId?: number) => {
+        values.push({
+            id: comment.id,
+            created_on: toIsoDate(comment.createdDate),
+            updated_on: toIsoDate(comment.updatedDate),
+            content: { raw: comment.text, html: comment.html },
+            user: toCloudUser(comment.author),
+            inline,
+            parent: parentId === undefined ? undefined : { id: parentId },
+            resolution: parentId === undefined && resolved ? { user: toCloudUser(root.threadResolvedUser ?? root.resolver) } : null,
+            hostThreadId: `${root.id}`,
+            reactions: mapCommentLikes(comment, currentUser),
+        });
+        for (const reply of comment.comments ?? []) {
+            visit(reply, comment.id);
+        }
+    };
+    visit(root);
+
+    return values;
+}
+
+function mapActivitiesToComments(activities: DataCenterActivity[], currentUser?: DataCenterUser | null): Comment[] {
+    const seen = new Set<number>();
+    const comments: Comment[] = [];
+    for (const activity of activities) {
+        if (activity.action !== "COMMENTED" || !activity.comment) continue;
+        if (seen.has(activity.comment.id)) continue;
+        seen.add(activity.comment.id);
+        comments.push(...flattenCommentThread(activity.comment, activity.commentAnchor, currentUser).map(bitbucketNormalization.mapComment));
+    }
+    return comments.sort((a, b) => new Date(a.createdAt ?? 0).getTime() - new Date(b.createdAt ?? 0).getTime());
+}
+
+function toCloudActivity(activity: DataCenterActivity): CloudActivity | null {
+    const date = toIsoDate(activity.createdDate);
+    const user = toCloudUser(activity.user);
+    if (activity.action === "APPROVED") return { approval: { date, user } };
+    if (activity.action === "MERGED") return { update: { date, author: user, state: "MERGED" } };
+    if (activity.action === "DECLINED") return { update: { date, author: user, state: "DECLINED" } };
+    if (activity.action === "REOPENED") return { update: { date, author: user, state: "OPEN" } };
+    if (activity.action === "RESCOPED" || activity.action === "UPDATED") return { update: { date, author: user, state: "UPDATED" } };
+    return null;
+}
+
+function mapChangeType(type?: string): DiffStatEntry["status"] {
+    const normalized = (type ?? "").toUpperCase();
+    if (normalized === "ADD" || normalized === "COPY") return "added";
+    if (normalized === "DELETE") return "removed";
+    if (normalized === "MOVE" || normalized === "RENAME") return "renamed";
+    return "modified";
+}
+
+function mapChanges(changes: DataCenterChange[]): DiffStatEntry[] {
+    return changes.map((change) => {
+        const status = mapChangeType(change.type);
+        const path = change.path?.toString;
+        const srcPath = change.srcPath?.toString ?? path;
+        return {
+            status,
+            new: status === "removed" ? undefined : { path },
+            old: status === "added" ? undefined : { path: srcPath },
+        };
+    });
+}
+
+function mapCommit(commit: DataCenterCommit): Commit {
+    return {
+        hash: commit.id,
+        date: toIsoDate(commit.authorTimestamp),
+        message: commit.message,
+        summary: { raw: commit.message },
+        author: {
+            user: { displayName: commit.author?.displayName ?? commit.author?.name },
+            raw: commit.author?.emailAddress ? `${commit.author.displayName ?? commit.author.name} <${commit.author.emailAddress}>` : commit.author?.name,
+        },
+    };
+}
+
+function mapBuildStatuses(statuses: DataCenterBuildStatus[]) {
+    return bitbucketNormalization.mapBuildStatuses(
+        statuses.map(
+            (status): CloudBuildStatus => ({
+                key: status.key,
+                name: status.name,
+                state: status.state,
+                url: status.url,
+                created_on: toIsoDate(status.dateAdded),
+                updated_on: toIsoDate(status.dateAdded),
+            }),
+        ),
+        "Bitbucket Data Center",
+    );
+}
+
+function mapDataCenterCommentAnchor(inline: CommentPayload["inline"]) {
+    if (!inline?.path) return undefined;
+    const onOldSide = inline.to === undefined && inline.from !== undefined;
+    return {
+        path: inline.path,
+        line: onOldSide ? inline.from : inline.to,
+        lineType: onOldSide ? "REMOVED" : "ADDED",
+        fileType: onOldSide ? "FROM" : "TO",
+        diffType: "EFFECTIVE",
+    };
+}
+
+function describeMergeVetoes(status: DataCenterMergeStatus) {
+    const reasons = (status.vetoes ?? []).flatMap((veto) => {
+        const message = veto.summaryMessage?.trim() || veto.detailedMessage?.trim();
+        return message ? [message] : [];
+    });
+    if (status.conflicted) reasons.unshift("The pull request has merge conflicts");
+    return reasons.length > 0 ? `Merge blocked: ${reasons.join("; ")}` : "Merge blocked by Bitbucket Data Center merge checks";
+}
+
+function normalizeRepository(repo: DataCenterRepository, instance: string | undefined): RepoRef | null {
+    const workspace = repo.project?.key;
+    if (!workspace || !repo.slug) return null;
+    return {
+        host: "bitbucket",
+        ...(instance ? { instance } : {}),
+        workspace,
+        repo: repo.slug,
+        fullName: `${workspace}/${repo.slug}`,
+        displayName: repo.name ?? repo.slug,
+    };
+}
+
+function mapDataCenterInboxPullRequest(pr: DataCenterPullRequest, currentUserId: string, instance: string | undefined): InboxPullRequest | null {
+    const workspace = pr.toRef?.repository?.project?.key;
+    const repo = pr.toRef?.repository?.slug;
+    if (!workspace || !repo) return null;
+    return {
+        repo: { host: "bitbucket", ...(instance ? { instance } : {}), workspace, repo, fullName: `${workspace}/${repo}`, displayName: repo },
+        pullRequest: bitbucketNormalization.mapInboxPullRequestSummary(toCloudPullRequest(pr)),
+        currentUserId,
+    };
+}
+
+// Export pure normalizers for focused mapping tests without network requests.
+export const bitbucketDataCenterNormalization = {
+    normalizeDataCenterBaseUrl,
+    nextDataCenterPageStart,
+    toCloudPullRequest,
+    mapDataCenterInboxPullRequest,
+    mapActivitiesToComments,
+    mapChanges,
+    mapDataCenterCommentAnchor,
+    describeMergeVetoes,
+};
+
+let currentUserCache: { key: string; promise: Promise<DataCenterUser | null> } | null = null;
+
+// Data Center has no "current user" resource; the authenticated username comes back in the X-AUSERNAME header.
+function fetchCurrentUser(account?: string) {
+    const auth = readAuth(account);
+    if (!auth) return Promise.resolve(null);
+    const key = `${auth.baseUrl}:${auth.token}`;
+    if (currentUserCache?.key === key) return currentUserCache.promise;
+
+    const promise = request(`${REST_API}/application-properties`, {}, { account })
+        .then(async (res) => {
+            const username = res.headers.get("X-AUSERNAME");
+            if (!username) return null;
+            const userRes = await request(`${REST_API}/users/${encodeURIComponent(username)}`, {}, { account });
+            return (await userRes.json()) as DataCenterUser;
+        })
+        .catch(() => null);
+    currentUserCache = { key, promise };
+    return promise;
+}
+
+async function fetchRawPullRequest(prRef: PullRequestRef) {
+    const res = await request(pullRequestPath(prRef), {}, { account: refAccountId(prRef) });
+    return (await res.json()) as DataCenterPullRequest;
+}
+
+async function fetchRawComment(prRef: PullRequestRef, commentId: number) {
+    const res = await request(`${pullRequestPath(prRef)}/comments/${commentId}`, {}, { account: refAccountId(prRef) });
+    return (await res.json()) as DataCenterComment;
+}
+
+async function updateReviewStatus(prRef: PullRequestRef, status: NonNullable<DataCenterParticipant["status"]>) {
+    const account = refAccountId(prRef);
+    const currentUser = await fetchCurrentUser(account);
+    const userSlug = currentUser?.slug ?? currentUser?.name;
+    if (!userSlug) throw new Error("Could not determine the current Bitbucket Data Center user");
+    await request(`${pullRequestPath(prRef)}/participants/${encodeURIComponent(userSlug)}`, jsonInit("PUT", { status }), { account });
+    return { ok: true as const };
+}
+
+async function fetchDataCenterPullRequestCritical(prRef: PullRequestRef): Promise<PullRequestCriticalBundle> {
+    const basePath = pullRequestPath(prRef);
+    const account = refAccountId(prRef);
+    const [prRes, diffRes, changes, commits] = await Promise.all([
+        request(basePath, {}, { account }),
+        request(`${basePath}.diff`, { headers: { Accept: "text/plain" } }, { account }),
+        listPaged<DataCenterChange>(`${basePath}/changes`, account),
+        listPaged<DataCenterCommit>(`${basePath}/commits`, account),
+    ]);
+
+    return {
+        prRef: { ...prRef, host: "bitbucket" },
+        pr: bitbucketNormalization.mapPullRequest(toCloudPullRequest((await prRes.json()) as DataCenterPullRequest), null),
+        diff: await diffRes.text(),
+        diffstat: mapChanges(changes),
+        commits: commits.map(mapCommit),
+    };
+}
+
+async function fetchDataCenterPullRequestDeferred(prRef: PullRequestRef): Promise<PullRequestDeferredBundle> {
+    const basePath = pullRequestPath(prRef);
+    const account = refAccountId(prRef);
+    const [rawPr, activities, currentUser] = await Promise.all([
+        fetchRawPullRequest(prRef),
+        listPaged<DataCenterActivity>(`${basePath}/activities`, account),
+        fetchCurrentUser(account),
+    ]);
+
+    const cloudPr = toCloudPullRequest(rawPr);
+    const pr = bitbucketNormalization.mapPullRequest(cloudPr, toCloudUser(currentUser ?? undefined) ?? null);
+    const comments = mapActivitiesToComments(activities, currentUser);
+    const cloudActivity = activities.flatMap((activity) => {
+        const mapped = toCloudActivity(activity);
+        return mapped ? [mapped] : [];
+    });
+    const latestCommitHash = rawPr.fromRef?.latestCommit?.trim();
+    const buildStatuses = latestCommitHash
+        ? await listPaged<DataCenterBuildStatus>(`/rest/build-status/1.0/commits/${latestCommitHash}`, account).catch(() => [])
+        : [];
+
+    return {
+        prRef: { ...prRef, host: "bitbucket" },
+        comments,
+        history: bitbucketNormalization.mapHistory(pr, comments, cloudActivity),
+        reviewers: bitbucketNormalization.mapReviewers(cloudPr, cloudActivity),
+        buildStatuses: mapBuildStatuses(buildStatuses),
+        prPatch: {
+            currentUserReviewStatus: pr.currentUserReviewStatus,
+            currentUser: pr.currentUser,
+        },
+    };
+}
+
+async function fetchDataCenterPullRequestComments(prRef: PullRequestRef) {
+    const account = refAccountId(prRef);
+    const [activities, currentUser] = await Promise.all([
+        listPaged<DataCenterActivity>(`${pullRequestPath(prRef)}/activities`, account),
+        fetchCurrentUser(account),
+    ]);
+    return mapActivitiesToComments(activities, currentUser);
+}
+
+function encodeRepositoryPath(path: string) {
+    return path
+        .replace(/^\/+/, "")
+        .split("/")
+        .map((segment) => encodeURIComponent(segment))
+        .join("/");
+}
+
+/** Resolves to null when the file does not exist at that commit. */
+async function requestRawFile({ prRef, commit, path }: { prRef: PullRequestRef; commit: string; path: string }) {
+    const encodedPath = encodeRepositoryPath(path);
+    if (!encodedPath) return null;
+    try {
+        return await request(
+            `${repoPath(prRef)}/raw/${encodedPath}?at=${encodeURIComponent(commit)}`,
+            {
+                headers: { Accept: "application/octet-stream" },
+            },
+            { account: refAccountId(prRef) },
+        );
+    } catch (error) {
+        if (error instanceof HostApiError && error.status === 404) {
+            return null;
+        }
+        throw error;
+    }
+}
+
+export const bitbucketDataCenterClient: GitHostClient = {
+    host: "bitbucket",
+    capabilities: {
+        publicReadSupported: false,
+        supportsThreadResolution: true,
+        requestChangesAvailable: true,
+        removeApprovalAvailable: true,
+        declineAvailable: true,
+        markDraftAvailable: false,
+        pendingReviewAvailable: false,
+        commitSuggestionsAvailable: false,
+        crossSideLineRangesAvailable: false,
+        reactionContents: ["+1"],
+    },
+    async getAuthState(): Promise<AuthState> {
+        return { authenticated: Boolean(readAuth()) };
+    },
+    async login(credentials: LoginCredentials): Promise<AuthState> {
+        if (credentials.host !== "bitbucket" || !("baseUrl" in credentials)) {
+            throw new Error("Bitbucket Data Center credentials expected");
+        }
+        const token = credentials.token.trim();
+        if (!token) throw new Error("HTTP access token is required");
+        const baseUrl = normalizeDataCenterBaseUrl(credentials.baseUrl);
+        if (!baseUrl) throw new Error("Bitbucket Data Center URL is invalid");
+
+        const res = await fetch(`${baseUrl}${REST_API}/application-properties`, {
+            headers: {
+                Authorization: `Bearer ${token}`,
+                Accept: "application/json",
+            },
+        });
+        if (!res.ok) {
+            const details = await parseFailure(res);
+            const status = `${res.status} ${res.statusText}`;
+            throw new Error(
+                details ? `Bitbucket Data Center authentication failed (${status}): ${details}` : `Bitbucket Data Center authentication failed (${status})`,
+            );
+        }
+        // application-properties is readable anonymously, so only a username header proves the token was accepted.
+        if (!res.headers.get("X-AUSERNAME")) {
+            throw new Error("Bitbucket Data Center did not accept the access token");
+        }
+
+        currentUserCache = null;
+        await writeBitbucketDataCenterAuthCredential({ token, baseUrl });
+        return { authenticated: true };
+    },
+    async logout(): Promise<AuthState> {
+        currentUserCache = null;
+        clearBitbucketDataCenterAuthCredential();
+        return { authenticated: false };
+    },
+    async listRepositories() {
+        const instance = authInstance(readAuth());
+        const repositories = await listPaged<DataCenterRepository>(`${REST_API}/repos?permission=REPO_READ`);
+        return repositories
+            .flatMap((repo) => {
+                const normalized = normalizeRepository(repo, instance);
+                return normalized ? [normalized] : [];
+            })
+            .sort((a, b) => a.fullName.localeCompare(b.fullName));
+    },
+    async listInboxPullRequests() {
+        const auth = readAuth();
+        if (!auth) return [];
+        const [currentUser, pullRequests] = await Promise.all([
+            fetchCurrentUser(),
+            listPaged<DataCenterPullRequest>(`${REST_API}/dashboard/pull-requests?state=OPEN&order=NEWEST`, undefined, DATA_CENTER_INBOX_LIMIT),
+        ]);
+        // Keyed the same way the shared Bitbucket inbox mapper keys reviewers and participants.
+        const currentUserId = currentUser ? (currentUser.slug ?? currentUser.name) : undefined;
+        if (!currentUserId) throw new Error("Could not determine the current Bitbucket Data Center user");
+        const instance = authInstance(auth);
+        return pullRequests.flatMap((pullRequest) => {
+            const mapped = mapDataCenterInboxPullRequest(pullRequest, currentUserId, instance);
+            return mapped ? [mapped] : [];
+        });
+    },
+    async listPullRequestsForRepos(data) {
+        if (!data.repos.length) return [];
+        return mapWithConcurrency(data.repos, 4, async (repo) => {
+            const pullRequests = await listPaged<DataCenterPullRequest>(
+                `${repoPath(repo)}/pull-requests?state=ALL&order=NEWEST`,
+                refAccountId(repo),
+                REPO_PULL_REQUEST_LIST_LIMIT,
+            );
+            return {
+                repo,
+                pullRequests: pullRequests.map(
+                    (pullRequest): PullRequestSummary => bitbucketNormalization.mapPullRequestSummary(toCloudPullRequest(pullRequest)),
+                ),
+            };
+        });
+    },
+    async fetchPullRequestCriticalByRef(data) {
+        return fetchDataCenterPullRequestCritical(data.prRef);
+    },
+    async fetchPullRequestDeferredByRef(data) {
+        return fetchDataCenterPullRequestDeferred(data.prRef);
+    },
+    async fetchPullRequestCommentsByRef(data) {
+        return fetchDataCenterPullRequestComments(data.prRef);
+    },
+    async fetchPullRequestBundleByRef(data): Promise<PullRequestBundle> {
+        const [critical, deferred] = await Promise.all([fetchDataCenterPullRequestCritical(data.prRef), fetchDataCenterPullRequestDeferred(data.prRef)]);
+        const mergedPullRequest: PullRequestDetails = {
+            ...critical.pr,
+            ...(deferred.prPatch ?? {}),
+        };
+        return {
+            ...critical,
+            pr: mergedPullRequest,
+            comments: deferred.comments,
+            history: deferred.history,
+            reviewers: deferred.reviewers,
+            buildStatuses: deferred.buildStatuses,
+        };
+    },
+    async approvePullRequest(data) {
+        return updateReviewStatus(data.prRef, "APPROVED");
+    },
+    async removePullRequestApproval(data) {
+        return updateReviewStatus(data.prRef, "UNAPPROVED");
+    },
+    async requestChanges(data) {
+        return updateReviewStatus(data.prRef, "NEEDS_WORK");
+    },
+    async declinePullRequest(data) {
+        const pr = await fetchRawPullRequest(data.prRef);
+        await request(`${pullRequestPath(data.prRef)}/decline?version=${pr.version}`, jsonInit("POST", {}), { account: refAccountId(data.prRef) });
+        return { ok: true as const };
+    },
+    async markPullRequestAsDraft() {
+        throw new Error("Draft pull requests are not supported for Bitbucket Data Center in this app.");
+    },
+    async markPullRequestReady() {
+        throw new Error("Draft pull requests are not supported for Bitbucket Data Center in this app.");
+    },
+    async mergePullRequest(data) {
+        const basePath = pullRequestPath(data.prRef);
+        const account = refAccountId(data.prRef);
+        const [pr, mergeStatusRes] = await Promise.all([fetchRawPullRequest(data.prRef), request(`${basePath}/merge`, {}, { account })]);
+        const mergeStatus = (await mergeStatusRes.json()) as DataCenterMergeStatus;
+        if (!mergeStatus.canMerge) {
+            throw new Error(describeMergeVetoes(mergeStatus));
+        }
+
+        const payload: Record<string, unknown> = {};
+        if (data.message?.trim()) payload.message = data.message.trim();
+        if (data.mergeStrategy?.trim()) payload.strategyId = data.mergeStrategy.trim();
+        await request(`${basePath}/merge?version=${pr.version}`, jsonInit("POST", payload), { account });
+
+        if (data.closeSourceBranch && pr.fromRef?.id) {
+            await request(
+                `/rest/branch-utils/1.0/projects/${encodeURIComponent(data.prRef.workspace)}/repos/${encodeURIComponent(data.prRef.repo)}/branches`,
+                jsonInit("DELETE", { name: pr.fromRef.id, dryRun: false }),
+                { account },
+            );
+        }
+        return { ok: true as const };
+    },
+    async updatePullRequestDescription(data) {
+        const pr = await fetchRawPullRequest(data.prRef);
+        await request(
+            pullRequestPath(data.prRef),
+            jsonInit("PUT", {
+                version: pr.version,
+                title: data.title ?? pr.title,
+                description: data.description,
+            }),
+            { account: refAccountId(data.prRef) },
+        );
+        return { ok: true as const };
+    },
+    async createPullRequestComment(data) {
+        const payload: Record<string, unknown> = { text: data.content };
+        const anchor = mapDataCenterCommentAnchor(data.inline);
+        if (anchor && !data.parentId) payload.anchor = anchor;
+        if (data.parentId) payload.parent = { id: data.parentId };
+        await request(`${pullRequestPath(data.prRef)}/comments`, jsonInit("POST", payload), { account: refAccountId(data.prRef) });
+        return { ok: true as const };
+    },
+    async updatePullRequestComment(data) {
+        const comment = await fetchRawComment(data.prRef, data.commentId);
+        await request(`${pullRequestPath(data.prRef)}/comments/${data.commentId}`, jsonInit("PUT", { text: data.content, version: comment.version }), {
+            account: refAccountId(data.prRef),
+        });
+        return { ok: true as const };
+    },
+    async resolvePullRequestComment(data) {
+        const comment = await fetchRawComment(data.prRef, data.commentId);
+        const body =
+            comment.severity === "BLOCKER"
+                ? { state: data.resolve ? "RESOLVED" : "OPEN", version: comment.version }
+                : { threadResolved: data.resolve, version: comment.version };
+        await request(`${pullRequestPath(data.prRef)}/comments/${data.commentId}`, jsonInit("PUT", body), { account: refAccountId(data.prRef) });
+        return { ok: true as const };
+    },
+    async deletePullRequestComment(data) {
+        const comment = await fetchRawComment(data.prRef, data.commentId);
+        await request(
+            `${pullRequestPath(data.prRef)}/comments/${data.commentId}?version=${comment.version}`,
+            { method: "DELETE" },
+            { account: refAccountId(data.prRef) },
+        );
+        return { ok: true as const };
+    },
+    async setCommentReaction(data) {
+        if (data.content !== "+1") throw new Error("Bitbucket Data Center only supports liking comments.");
+        assertAuthInstance(data.prRef);
+        const likesPath = `/rest/comment-likes/1.0/projects/${encodeURIComponent(data.prRef.workspace)}/repos/${encodeURIComponent(data.prRef.repo)}/pull-requests/${data.prRef.pullRequestId}/comments/${data.commentId}/likes`;
+        await request(likesPath, { method: data.reacted ? "POST" : "DELETE" }, { account: refAccountId(data.prRef) });
+        return { ok: true as const };
+    },
+    async submitPendingReview() {
+        throw new Error("Pending reviews are not supported for Bitbucket Data Center in this app.");
+    },
+    async discardPendingReview() {
+        throw new Error("Pending reviews are not supported for Bitbucket Data Center in this app.");
+    },
+    async commitPullRequestFileChanges() {
+        throw new Error("Committing suggestions is not supported for Bitbucket Data Center in this app.");
+    },
+    async fetchPullRequestFileContents(data) {
+        const res = await requestRawFile(data);
+        return res ? await res.text() : "";
+    },
+    async fetchPullRequestFileBytes(data) {
+        const res = await requestRawFile(data);
+        return res ? new Uint8Array(await res.arrayBuffer()) : new Uint8Array();
+    },
+    async fetchPullRequestCommitRangeDiff({ prRef, baseCommitHash, headCommitHash, selectedCommitHashes }): Promise<PullRequestCommitRangeDiff> {
+        const normalizedBase = baseCommitHash.trim();
+        const normalizedHead = headCommitHash.trim();
+        if (!normalizedBase || !normalizedHead) {
+            throw new Error("Both base and head commit hashes are required.");
+        }
+        const since = encodeURIComponent(normalizedBase);
+        const until = encodeURIComponent(normalizedHead);
+        const account = refAccountId(prRef);
+        const [diffRes, changes] = await Promise.all([
+            request(`${repoPath(prRef)}/diff?since=${since}&until=${until}`, { headers: { Accept: "text/plain" } }, { account }),
+            listPaged<DataCenterChange>(`${repoPath(prRef)}/compare/changes?from=${until}&to=${since}`, account),
+        ]);
+
+        return {
+            prRef,
+            baseCommitHash: normalizedBase,
+            headCommitHash: normalizedHead,
+            selectedCommitHashes: selectedCommitHashes.flatMap((hash) => {
+                const trimmed = hash.trim();
+                return trimmed ? [trimmed] : [];
+            }),
+            diff: await diffRes.text(),
+            diffstat: mapChanges(changes),
+        };
+    },
+    async fetchPullRequestFileHistory({ prRef, path, commits, limit = 20 }): Promise<PullRequestFileHistory> {
+        const normalizedPath = path.trim();
+        if (!normalizedPath || commits.length === 0) {
+            return { path: normalizedPath, entries: [], fetchedAt: Date.now() };
+        }
+
+        const commitCandidates = commits.filter((commit) => Boolean(commit.hash?.trim()));
+        const resolved = await mapWithConcurrency<Commit, PullRequestFileHistoryEntry | null>(commitCandidates, 4, async (commit) => {
+            const commitHash = commit.hash?.trim();
+            if (!commitHash) return null;
+
+            const diffRes = await request(
+                `${repoPath(prRef)}/diff?until=${encodeURIComponent(commitHash)}`,
+                { headers: { Accept: "text/plain" } },
+                { account: refAccountId(prRef) },
+            );
+            const match = bitbucketNormalization.extractSingleFilePatchFromUnifiedDiff(await diffRes.text(), normalizedPath);
+            if (!match) return null;
+            return {
+                versionId: `${normalizedPath}:${commitHash}`,
+                commitHash,
+                commitDate: commit.date,
+                commitMessage: commit.message,
+                authorDisplayName: commit.author?.user?.displayName ?? commit.author?.raw,
+                filePathAtCommit: match.filePathAtCommit,
+                status: match.status,
+                patch: match.patch,
+            };
+        });
+
+        return {
+            path: normalizedPath,
+            entries: resolved.filter((entry): entry is PullRequestFileHistoryEntry => entry !== null).slice(0, limit),
+            fetchedAt: Date.now(),
+        };
+    },
+};
@@ -0,0 +1 @@
+export { bitbucketDataCenterClient, bitbucketDataCenterNormalization } from "./client";
@@ -1,4 +1,3 @@
-import { refreshBitbucketOAuthToken } from "@/lib/bitbucket-oauth";
 import {
     type BitbucketAuthCredential,
     clearBitbucketAuthCredential,
@@ -7,15 +6,18 @@ import {
     writeBitbucketOAuthCredential,
 } from "@/lib/data/query-collections";
 import { parseFailureBody } from "@/lib/git-host/shared/http";
+import { refAccountId } from "@/lib/git-host/shared/instance";
 import { REPO_PULL_REQUEST_LIST_LIMIT } from "@/lib/git-host/shared/pagination";
 import {
     type AuthState,
     type Comment,
     type CommentPayload,
+    type CommentReaction,
     type Commit,
     type DiffStatEntry,
     type GitHostClient,
     HostApiError,
+    type InboxPullRequest,
     type LoginCredentials,
     type PullRequestBuildStatus,
     type PullRequestBundle,
@@ -26,12 +28,15 @@ import {
     type PullRequestFileHistory,
     type PullRequestFileHistoryEntry,
     type PullRequestHistoryEvent,
+    type PullRequestRef,
     type PullRequestReviewer,
     type PullRequestSummary,
     type RepoRef,
 } from "@/lib/git-host/types";
+import { refreshOAuthToken } from "@/lib/oauth";
 
 type BitbucketOAuthCredential = Extract<BitbucketAuthCredential, { method: "oauth" }>;
+type BitbucketPullRequestLocator = Pick<PullRequestRef, "account" | "workspace" | "repo" | "pullRequestId">;
 
 interface BitbucketPullRequestPage {
     values: BitbucketPullRequestSummaryRaw[];
@@ -77,11 +82,17 @@ interface BitbucketPullRequestRaw {
         approved?: boolean;
         state?: string;
         user?: BitbucketUser;
+        participated_on?: string;
     }>;
     reviewers?: BitbucketUser[];
     links?: PullRequestDetails["links"];
 }
 
+interface BitbucketInboxPullRequestPage {
+    values?: Array<BitbucketPullRequestRaw & { destination?: { repository?: { full_name?: string; name?: string } } }>;
+    next?: string;
+}
+
 interface BitbucketDiffStatPage {
     values: BitbucketDiffStatEntryRaw[];
     next?: string;
@@ -116,10 +127,11 @@ interface BitbucketCommentRaw {
     pending?: boolean;
     content?: { raw?: string; html?: string };
     user?: BitbucketUser;
-    inline?: { path?: string; to?: number; from?: number; start_to?: number; start_from?: number; outdated?: boolean };
+    inline?: { path?: string; to?: number; from?: number; start_to?: number; start_from?: number; outdated?: boolean; src_rev?: string };
     parent?: { id?: number };
     resolution?: { user?: BitbucketUser } | null;
     hostThreadId?: string;
+    reactions?: CommentReaction[];
 }
 
 interface BitbucketCommentPage {
@@ -180,8 +192,8 @@ interface BitbucketBuildStatusPage {
     next?: string;
 }
 
-function readCredentials(): BitbucketAuthCredential | null {
-    const stored = readBitbucketAuthCredential();
+function readCredentials(account?: string): BitbucketAuthCredential | null {
+    const stored = readBitbucketAuthCredential(account);
     if (!stored) return null;
     if (stored.method === "oauth") {
         const accessToken = stored.accessToken.trim();
@@ -218,15 +230,16 @@ function encodeBasicAuth(email: string, apiToken: string) {
 }
 
 const OAUTH_REFRESH_SKEW_MS = 30_000;
-let oauthRefreshPromise: Promise<BitbucketOAuthCredential> | null = null;
+const oauthRefreshPromises = new Map<string | undefined, Promise<BitbucketOAuthCredential>>();
 
-async function refreshOAuthCredentials(credentials: BitbucketOAuthCredential) {
+async function refreshOAuthCredentials(credentials: BitbucketOAuthCredential, account?: string) {
     if (!credentials.refreshToken) {
         throw new Error("Bitbucket OAuth session expired. Sign in again to continue.");
     }
-    if (oauthRefreshPromise) return oauthRefreshPromise;
+    const pending = oauthRefreshPromises.get(account);
+    if (pending) return pending;
 
-    const refreshPromise = refreshBitbucketOAuthToken(credentials.refreshToken)
+    const refreshPromise = refreshOAuthToken("bitbucket", credentials.refreshToken)
         .then(async (tokens) => {
             const nextCredentials = {
                 host: "bitbucket",
@@ -235,25 +248,25 @@ async function refreshOAuthCredentials(credentials: BitbucketOAuthCredential) {
                 refreshToken: tokens.refreshToken ?? credentials.refreshToken,
                 ...(typeof tokens.expiresAt === "number" ? { expiresAt: tokens.expiresAt } : {}),
             } satisfies BitbucketOAuthCredential;
-            await writeBitbucketOAuthCredential(nextCredentials);
+            await writeBitbucketOAuthCredential({ ...nextCredentials, account });
             return nextCredentials;
         })
         .finally(() => {
-            oauthRefreshPromise = null;
+            oauthRefreshPromises.delete(account);
         });
-    oauthRefreshPromise = refreshPromise;
+    oauthRefreshPromises.set(account, refreshPromise);
     return refreshPromise;
 }
 
-async function authHeaderOrThrow(forceOAuthRefresh = false) {
-    const credentials = readCredentials();
+async function authHeaderOrThrow(account?: string, forceOAuthRefresh = false) {
+    const credentials = readCredentials(account);
     if (!credentials) throw new Error("Not authenticated");
     if (credentials.method === "apiToken") {
         return `Basic ${encodeBasicAuth(credentials.email, credentials.apiToken)}`;
     }
 
     const shouldRefresh = forceOAuthRefresh || (typeof credentials.expiresAt === "number" && credentials.expiresAt <= Date.now() + OAUTH_REFRESH_SKEW_MS);
-    const activeCredentials = shouldRefresh ? await refreshOAuthCredentials(credentials) : credentials;
+    const activeCredentials = shouldRefresh ? await refreshOAuthCredentials(credentials, account) : credentials;
     return `Bearer ${activeCredentials.accessToken}`;
 }
 
@@ -261,17 +274,19 @@ async function parseFailure(response: Response) {
     return parseFailureBody(response);
 }
 
-async function request(url: string, init: RequestInit = {}) {
+// Without an account, requests use the active account (sign-in and listing); pull request calls pass theirs.
+async function request(url: string, init: RequestInit = {}, options: { account?: string } = {}) {
+    const { account } = options;
     const requestWithAuth = async (forceOAuthRefresh = false) => {
         const headers: Record<string, string> = {
-            Authorization: await authHeaderOrThrow(forceOAuthRefresh),
+            Authorization: await authHeaderOrThrow(account, forceOAuthRefresh),
             ...(init.headers as Record<string, string>),
         };
         return fetch(url, { ...init, cache: "no-store", headers });
     };
 
     let response = await requestWithAuth();
-    const credentials = readCredentials();
+    const credentials = readCredentials(account);
     if (response.status === 401 && credentials?.method === "oauth" && credentials.refreshToken) {
         response = await requestWithAuth(true);
     }
@@ -306,14 +321,12 @@ async function mapWithConcurrency<TInput, TOutput>(values: TInput[], concurrency
     return results;
 }
 
-async function fetchAllDiffStat(startUrl: string): Promise<DiffStatEntry[]> {
+async function fetchAllDiffStat(startUrl: string, account: string): Promise<DiffStatEntry[]> {
     const values: DiffStatEntry[] = [];
     let nextUrl: string | undefined = startUrl;
 
     while (nextUrl) {
-        const res = await request(nextUrl, {
-            headers: { Accept: "application/json" },
-        });
+        const res = await request(nextUrl, { headers: { Accept: "application/json" } }, { account });
         const page = (await res.json()) as BitbucketDiffStatPage;
         values.push(
             ...(page.values ?? []).map((entry) => ({
@@ -330,14 +343,12 @@ async function fetchAllDiffStat(startUrl: string): Promise<DiffStatEntry[]> {
     return values;
 }
 
-async function fetchAllCommits(startUrl: string): Promise<Commit[]> {
+async function fetchAllCommits(startUrl: string, account: string): Promise<Commit[]> {
     const values: Commit[] = [];
     let nextUrl: string | undefined = startUrl;
 
     while (nextUrl) {
-        const res = await request(nextUrl, {
-            headers: { Accept: "application/json" },
-        });
+        const res = await request(nextUrl, { headers: { Accept: "application/json" } }, { account });
         const page = (await res.json()) as BitbucketCommitPage;
         values.push(...(page.values ?? []).map(mapCommit));
         nextUrl = page.next;
@@ -346,14 +357,12 @@ async function fetchAllCommits(startUrl: string): Promise<Commit[]> {
     return values;
 }
 
-async function fetchAllComments(startUrl: string): Promise<Comment[]> {
+async function fetchAllComments(startUrl: string, account: string): Promise<Comment[]> {
     const values: Comment[] = [];
     let nextUrl: string | undefined = startUrl;
 
     while (nextUrl) {
-        const res = await request(nextUrl, {
-            headers: { Accept: "application/json" },
-        });
+        const res = await request(nextUrl, { headers: { Accept: "application/json" } }, { account });
         const page = (await res.json()) as BitbucketCommentPage;
         values.push(...(page.values ?? []).map(mapComment));
         nextUrl = page.next;
@@ -383,6 +392,117 @@ function mapPullRequestSummary(pullRequest: BitbucketPullRequestSummaryRaw): Pul
     };
 }
 
+// Inbox summaries key users by `bitbucketUserKey`, the same key used for `InboxPullRequest.currentUserId`.
+function mapInboxPullRequestSummary(pr: BitbucketPullRequestRaw): PullRequestSummary {
+    const participantsByUser = new Map<string, NonNullable<BitbucketPullRequestRaw["participants"]>[number]>();
+    for (const participant of pr.participants ?? []) {
+        const key = bitbucketUserKey(participant.user);
+        if (key) participantsByUser.set(key, participant);
+    }
+
+    const reviewers = new Map<string, PullRequestReviewer>();
+    const addReviewer = (user: BitbucketUser | undefined, requested: boolean) => {
+        const key = bitbucketUserKey(user);
+        if (!key || reviewers.has(key)) return;
+        const participant = participantsByUser.get(key);
+        const status = participant ? mapParticipantReviewStatus(participant) : "none";
+        if (!requested && status === "none") return;
+        reviewers.set(key, {
+            id: key,
+            displayName: user?.display_name,
+            avatarUrl: getAvatarUrl(user),
+            status: status === "none" ? "pending" : status,
+            approved: status === "approved",
+            requested,
+            updatedAt: participant?.participated_on,
+        });
+    };
+    for (const reviewer of pr.reviewers ?? []) addReviewer(reviewer, true);
+    for (const participant of pr.participants ?? []) addReviewer(participant.user, false);
+
+    return {
+        id: pr.id,
+        title: pr.title,
+        state: pr.state,
+        createdAt: pr.created_on,
+        updatedAt: pr.updated_on,
+        source: pr.source ? { branch: pr.source.branch, commit: pr.source.commit } : undefined,
+        destination: pr.destination ? { branch: pr.destination.branch } : undefined,
+        links: pr.links,
+        author: { id: bitbucketUserKey(pr.author), displayName: pr.author?.display_name, avatarUrl: getAvatarUrl(pr.author) },
+        reviewers: Array.from(reviewers.values()),
+        participants: Array.from(participantsByUser, ([id, participant]) => ({
+            id,
+            displayName: participant.user?.display_name,
+            avatarUrl: getAvatarUrl(participant.user),
+        })),
+    };
+}
+
+function isInboxPullRequestForUser(pullRequest: PullRequestSummary, currentUserId: string) {
+    return (
+        pullRequest.author?.id === currentUserId ||
+        Boolean(pullRequest.reviewers?.some((reviewer) => reviewer.id === currentUserId)) ||
+        Boolean(pullRequest.participants?.some((participant) => participant.id === currentUserId))
+    );
+}
+
+async function listInboxPullRequestPages(url: string, limit: number) {
+    const pullRequests: NonNullable<BitbucketInboxPullRequestPage["values"]> = [];
+    let nextUrl: string | undefined = url;
+    while (nextUrl && pullRequests.length < limit) {
+        const res = await request(nextUrl, { headers: { Accept: "application/json" } });
+        const page = (await res.json()) as BitbucketInboxPullRequestPage;
+        pullRequests.push(...(page.values ?? []));
+        nextUrl = page.next;
+    }
+    return pullRequests.slice(0, limit);
+}
+
+const BITBUCKET_INBOX_LIMIT = 50;
+const BITBUCKET_INBOX_FIELDS = encodeURIComponent("+values.participants,+values.reviewers");
+
+// Bitbucket Cloud has no cross-repository reviewer search: authored pull requests are listed account-wide and everything else comes from the selected repositories.
+async function fetchBitbucketInboxPullRequests(repos: RepoRef[]): Promise<InboxPullRequest[]> {
+    const userRes = await request("https://api.bitbucket.org/2.0/user", { headers: { Accept: "application/json" } });
+    const currentUser = (await userRes.json()) as BitbucketUser;
+    const currentUserId = bitbucketUserKey(currentUser);
+    if (!currentUserId || !currentUser.uuid) {
+        throw new Error("Bitbucket did not return the signed-in user");
+    }
+
+    const [authored, selected] = await Promise.all([
+        listInboxPullRequestPages(
+            `https://api.bitbucket.org/2.0/pullrequests/${encodeURIComponent(currentUser.uuid)}?state=OPEN&pagelen=50&fields=${BITBUCKET_INBOX_FIELDS}`,
+            BITBUCKET_INBOX_LIMIT,
+        ),
+        mapWithConcurrency(repos, 4, async (repo) => {
+            const pullRequests = await listInboxPullRequestPages(
+                `https://api.bitbucket.org/2.0/repositories/${repo.workspace}/${repo.repo}/pullrequests?state=OPEN&pagelen=50&fields=${BITBUCKET_INBOX_FIELDS}`,
+                BITBUCKET_INBOX_LIMIT,
+            );
+            return pullRequests.map((pullRequest) => ({ repo, pullRequest: mapInboxPullRequestSummary(pullRequest) }));
+        }),
+    ]);
+
+    const byKey = new Map<string, InboxPullRequest>();
+    for (const entry of selected.flat()) {
+        if (!isInboxPullRequestForUser(entry.pullRequest, currentUserId)) continue;
+        byKey.set(`${entry.repo.fullName}#${entry.pullRequest.id}`, { ...entry, currentUserId });
+    }
+    for (const pullRequest of authored) {
+        const fullName = pullRequest.destination?.repository?.full_name;
+        const [workspace, repo] = fullName?.split("/") ?? [];
+        if (!fullName || !workspace || !repo || byKey.has(`${fullName}#${pullRequest.id}`)) continue;
+        byKey.set(`${fullName}#${pullRequest.id}`, {
+            repo: { host: "bitbucket", workspace, repo, fullName, displayName: pullRequest.destination?.repository?.name ?? repo },
+            pullRequest: mapInboxPullRequestSummary(pullRequest),
+            currentUserId,
+        });
+    }
+    return Array.from(byKey.values());
+}
+
 function mapCommit(commit: BitbucketCommitRaw): Commit {
     return {
         hash: commit.hash,
@@ -419,6 +539,10 @@ function mapComment(comment: BitbucketCommentRaw): Comment {
                   startTo: comment.inline.start_to,
                   startFrom: comment.inline.start_from,
                   outdated: comment.inline.outdated,
+                  // Bitbucket never remaps inline lines, so they always refer to the source commit the comment was written on.
+                  ...(comment.inline.src_rev && comment.inline.to
+                      ? { writtenAt: { commitHash: comment.inline.src_rev, to: comment.inline.to, startTo: comment.inline.start_to } }
+                      : {}),
               }
             : undefined,
         parent: comment.parent,
@@ -431,6 +555,7 @@ function mapComment(comment: BitbucketCommentRaw): Comment {
               }
             : comment.resolution,
         hostThreadId: comment.hostThreadId,
+        reactions: comment.reactions,
     };
 }
 
@@ -525,14 +650,12 @@ function mapPullRequest(pr: BitbucketPullRequestRaw, currentUser: BitbucketUser
     };
 }
 
-async function fetchAllActivity(startUrl: string): Promise<BitbucketActivityEntry[]> {
+async function fetchAllActivity(startUrl: string, account: string): Promise<BitbucketActivityEntry[]> {
     const values: BitbucketActivityEntry[] = [];
     let nextUrl: string | undefined = startUrl;
 
     while (nextUrl) {
-        const res = await request(nextUrl, {
-            headers: { Accept: "application/json" },
-        });
+        const res = await request(nextUrl, { headers: { Accept: "application/json" } }, { account });
         const page = (await res.json()) as BitbucketActivityPage;
         values.push(...(page.values ?? []));
         nextUrl = page.next;
@@ -541,14 +664,12 @@ async function fetchAllActivity(startUrl: string): Promise<BitbucketActivityEntr
     return values;
 }
 
-async function fetchAllBuildStatuses(startUrl: string): Promise<BitbucketBuildStatus[]> {
+async function fetchAllBuildStatuses(startUrl: string, account: string): Promise<BitbucketBuildStatus[]> {
     const values: BitbucketBuildStatus[] = [];
     let nextUrl: string | undefined = startUrl;
 
     while (nextUrl) {
-        const res = await request(nextUrl, {
-            headers: { Accept: "application/json" },
-        });
+        const res = await request(nextUrl, { headers: { Accept: "application/json" } }, { account });
         const page = (await res.json()) as BitbucketBuildStatusPage;
         values.push(...(page.values ?? []));
         nextUrl = page.next;
@@ -611,13 +732,13 @@ function mapBuildState(state: string | undefined): PullRequestBuildStatus["state
     return "unknown";
 }
 
-function mapBuildStatuses(statuses: BitbucketBuildStatus[]): PullRequestBuildStatus[] {
+function mapBuildStatuses(statuses: BitbucketBuildStatus[], provider = "Bitbucket Pipelines"): PullRequestBuildStatus[] {
     return statuses.map((status, index) => ({
         id: status.uuid ?? status.key ?? `bitbucket-status-${index}`,
         name: status.name ?? status.key ?? "status",
         state: mapBuildState(status.state),
         url: status.url,
-        provider: "Bitbucket Pipelines",
+        provider,
         startedAt: status.created_on,
         completedAt: status.updated_on,
     }));
@@ -744,30 +865,30 @@ function mapHistory(pr: PullRequestDetails, comments: Comment[], activity: Bitbu
 // Export pure normalizers for focused mapping tests without network requests.
 export const bitbucketNormalization = {
     mapPullRequestSummary,
+    mapInboxPullRequestSummary,
     mapPullRequest,
     mapReviewers,
     mapComment,
     mapActivityToHistory,
+    mapHistory,
+    mapBuildStatuses,
     mapBitbucketInlineComment,
+    extractSingleFilePatchFromUnifiedDiff,
 };
 
-async function fetchBitbucketPullRequestCritical(prRef: { workspace: string; repo: string; pullRequestId: string }): Promise<PullRequestCriticalBundle> {
+async function fetchBitbucketPullRequestCritical(prRef: BitbucketPullRequestLocator): Promise<PullRequestCriticalBundle> {
     const baseApi = `https://api.bitbucket.org/2.0/repositories/${prRef.workspace}/${prRef.repo}/pullrequests/${prRef.pullRequestId}`;
+    const account = refAccountId(prRef);
     const [prRes, diffRes, diffstat, commits] = await Promise.all([
-        request(baseApi, { headers: { Accept: "application/json" } }),
-        request(`${baseApi}/diff`, { headers: { Accept: "text/plain" } }),
-        fetchAllDiffStat(`${baseApi}/diffstat?pagelen=100`),
-        fetchAllCommits(`${baseApi}/commits?pagelen=50`),
+        request(baseApi, { headers: { Accept: "application/json" } }, { account }),
+        request(`${baseApi}/diff`, { headers: { Accept: "text/plain" } }, { account }),
+        fetchAllDiffStat(`${baseApi}/diffstat?pagelen=100`, account),
+        fetchAllCommits(`${baseApi}/commits?pagelen=50`, account),
     ]);
 
     const pr = mapPullRequest((await prRes.json()) as BitbucketPullRequestRaw, null);
     return {
-        prRef: {
-            host: "bitbucket",
-            workspace: prRef.workspace,
-            repo: prRef.repo,
-            pullRequestId: prRef.pullRequestId,
-        },
+        prRef: { ...prRef, host: "bitbucket" },
         pr,
         diff: await diffRes.text(),
         diffstat,
@@ -775,15 +896,16 @@ async function fetchBitbucketPullRequestCritical(prRef: { workspace: string; rep
     };
 }
 
-async function fetchBitbucketPullRequestDeferred(prRef: { workspace: string; repo: string; pullRequestId: string }): Promise<PullRequestDeferredBundle> {
+async function fetchBitbucketPullRequestDeferred(prRef: BitbucketPullRequestLocator): Promise<PullRequestDeferredBundle> {
     const baseApi = `https://api.bitbucket.org/2.0/repositories/${prRef.workspace}/${prRef.repo}/pullrequests/${prRef.pullRequestId}`;
+    const account = refAccountId(prRef);
 
     const [prRes, comments, activity, currentUserRes, firstCommitRes] = await Promise.all([
-        request(baseApi, { headers: { Accept: "application/json" } }),
-        fetchAllComments(`${baseApi}/comments?pagelen=100&sort=created_on`),
-        fetchAllActivity(`${baseApi}/activity?pagelen=50`).catch(() => []),
-        request("https://api.bitbucket.org/2.0/user", { headers: { Accept: "application/json" } }).catch(() => null),
-        request(`${baseApi}/commits?pagelen=1`, { headers: { Accept: "application/json" } }).catch(() => null),
+        request(baseApi, { headers: { Accept: "application/json" } }, { account }),
+        fetchAllComments(`${baseApi}/comments?pagelen=100&sort=created_on`, account),
+        fetchAllActivity(`${baseApi}/activity?pagelen=50`, account).catch(() => []),
+        request("https://api.bitbucket.org/2.0/user", { headers: { Accept: "application/json" } }, { account }).catch(() => null),
+        request(`${baseApi}/commits?pagelen=1`, { headers: { Accept: "application/json" } }, { account }).catch(() => null),
     ]);
 
     const currentUser = currentUserRes ? ((await currentUserRes.json()) as BitbucketUser) : null;
@@ -794,16 +916,12 @@ async function fetchBitbucketPullRequestDeferred(prRef: { workspace: string; rep
     const latestBuildStatuses = latestCommitHash
         ? await fetchAllBuildStatuses(
               `https://api.bitbucket.org/2.0/repositories/${prRef.workspace}/${prRef.repo}/commit/${latestCommitHash}/statuses?pagelen=100`,
+              account,
           ).catch(() => [])
         : [];
 
     return {
-        prRef: {
-            host: "bitbucket",
-            workspace: prRef.workspace,
-            repo: prRef.repo,
-            pullRequestId: prRef.pullRequestId,
-        },
+        prRef: { ...prRef, host: "bitbucket" },
         comments,
         history: mapHistory(pr, comments, activity),
         reviewers: mapReviewers(rawPr, activity),
@@ -815,9 +933,24 @@ async function fetchBitbucketPullRequestDeferred(prRef: { workspace: string; rep
     };
 }
 
-async function fetchBitbucketPullRequestComments(prRef: { workspace: string; repo: string; pullRequestId: string }) {
+async function fetchBitbucketPullRequestComments(prRef: BitbucketPullRequestLocator) {
     const baseApi = `https://api.bitbucket.org/2.0/repositories/${prRef.workspace}/${prRef.repo}/pullrequests/${prRef.pullRequestId}`;
-    return fetchAllComments(`${baseApi}/comments?pagelen=100&sort=created_on`);
+    return fetchAllComments(`${baseApi}/comments?pagelen=100&sort=created_on`, refAccountId(prRef));
+}
+
+/** Resolves to null when the file does not exist at that commit. */
+async function requestRawFile({ prRef, commit, path }: { prRef: PullRequestRef; commit: string; path: string }) {
+    const encodedPath = encodeBitbucketPath(path);
+    if (!encodedPath) return null;
+    try {
+        const url = `https://api.bitbucket.org/2.0/repositories/${prRef.workspace}/${prRef.repo}/src/${commit}/${encodedPath}`;
+        return await request(url, { headers: { Accept: "application/octet-stream" } }, { account: refAccountId(prRef) });
+    } catch (error) {
+        if (error instanceof HostApiError && error.status === 404) {
+            return null;
+        }
+        throw error;
+    }
 }
 
 export const bitbucketClient: GitHostClient = {
@@ -829,6 +962,10 @@ export const bitbucketClient: GitHostClient = {
         removeApprovalAvailable: true,
         declineAvailable: true,
         markDraftAvailable: true,
+        pendingReviewAvailable: false,
+        commitSuggestionsAvailable: true,
+        crossSideLineRangesAvailable: false,
+        reactionContents: [],
     },
     async getAuthState(): Promise<AuthState> {
         const credentials = readCredentials();
@@ -867,6 +1004,10 @@ export const bitbucketClient: GitHostClient = {
             return { authenticated: true };
         }
 
+        if ("baseUrl" in credentials) {
+            throw new Error("Bitbucket Cloud credentials expected");
+        }
+
         const email = credentials.email.trim();
         const token = credentials.apiToken.trim();
         if (!email) throw new Error("Email is required");
@@ -904,6 +1045,10 @@ export const bitbucketClient: GitHostClient = {
 
         return Array.from(repositoriesById.values()).sort((a, b) => a.fullName.localeCompare(b.fullName));
     },
+    async listInboxPullRequests(data) {
+        if (!readCredentials()) return [];
+        return fetchBitbucketInboxPullRequests(data.repos);
+    },
     async listPullRequestsForRepos(data) {
         if (!data.repos.length) return [];
         return mapWithConcurrency(data.repos, 4, async (repo) => {
@@ -913,9 +1058,13 @@ export const bitbucketClient: GitHostClient = {
             const pullRequests: PullRequestSummary[] = [];
 
             while (nextUrl && pullRequests.length < REPO_PULL_REQUEST_LIST_LIMIT) {
-                const res = await request(nextUrl, {
-                    headers: { Accept: "application/json" },
-                });
+                const res = await request(
+                    nextUrl,
+                    {
+                        headers: { Accept: "application/json" },
+                    },
+                    { account: refAccountId(repo) },
+                );
                 const page = (await res.json()) as BitbucketPullRequestPage;
                 for (const pullRequest of page.values ?? []) {
                     pullRequests.push(mapPullRequestSummary(pullRequest));
@@ -928,39 +1077,16 @@ export const bitbucketClient: GitHostClient = {
         });
     },
     async fetchPullRequestCriticalByRef(data): Promise<PullRequestCriticalBundle> {
-        return fetchBitbucketPullRequestCritical({
-            workspace: data.prRef.workspace,
-            repo: data.prRef.repo,
-            pullRequestId: data.prRef.pullRequestId,
-        });
+        return fetchBitbucketPullRequestCritical(data.prRef);
     },
     async fetchPullRequestDeferredByRef(data): Promise<PullRequestDeferredBundle> {
-        return fetchBitbucketPullRequestDeferred({
-            workspace: data.prRef.workspace,
-            repo: data.prRef.repo,
-            pullRequestId: data.prRef.pullRequestId,
-        });
+        return fetchBitbucketPullRequestDeferred(data.prRef);
     },
     async fetchPullRequestCommentsByRef(data): Promise<Comment[]> {
-        return fetchBitbucketPullRequestComments({
-            workspace: data.prRef.workspace,
-            repo: data.prRef.repo,
-            pullRequestId: data.prRef.pullRequestId,
-        });
+        return fetchBitbucketPullRequestComments(data.prRef);
     },
     async fetchPullRequestBundleByRef(data): Promise<PullRequestBundle> {
-        const [critical, deferred] = await Promise.all([
-            fetchBitbucketPullRequestCritical({
-                workspace: data.prRef.workspace,
-                repo: data.prRef.repo,
-                pullRequestId: data.prRef.pullRequestId,
-            }),
-            fetchBitbucketPullRequestDeferred({
-                workspace: data.prRef.workspace,
-                repo: data.prRef.repo,
-                pullRequestId: data.prRef.pullRequestId,
-            }),
-        ]);
+        const [critical, deferred] = await Promise.all([fetchBitbucketPullRequestCritical(data.prRef), fetchBitbucketPullRequestDeferred(data.prRef)]);
         const mergedPullRequest: PullRequestDetails = {
             ...critical.pr,
             ...(deferred.prPatch ?? {}),
@@ -976,62 +1102,86 @@ export const bitbucketClient: GitHostClient = {
     },
     async approvePullRequest(data) {
         const url = `https://api.bitbucket.org/2.0/repositories/${data.prRef.workspace}/${data.prRef.repo}/pullrequests/${data.prRef.pullRequestId}/approve`;
-        await request(url, {
-            method: "POST",
-            headers: { Accept: "application/json" },
-        });
+        await request(
+            url,
+            {
+                method: "POST",
+                headers: { Accept: "application/json" },
+            },
+            { account: refAccountId(data.prRef) },
+        );
         return { ok: true as const };
     },
     async removePullRequestApproval(data) {
         const url = `https://api.bitbucket.org/2.0/repositories/${data.prRef.workspace}/${data.prRef.repo}/pullrequests/${data.prRef.pullRequestId}/approve`;
-        await request(url, {
-            method: "DELETE",
-            headers: { Accept: "application/json" },
-        });
+        await request(
+            url,
+            {
+                method: "DELETE",
+                headers: { Accept: "application/json" },
+            },
+            { account: refAccountId(data.prRef) },
+        );
         return { ok: true as const };
     },
     async requestChanges(data) {
         const url = `https://api.bitbucket.org/2.0/repositories/${data.prRef.workspace}/${data.prRef.repo}/pullrequests/${data.prRef.pullRequestId}/request-changes`;
-        await request(url, {
-            method: "POST",
-            headers: { Accept: "application/json" },
-        });
+        await request(
+            url,
+            {
+                method: "POST",
+                headers: { Accept: "application/json" },
+            },
+            { account: refAccountId(data.prRef) },
+        );
         return { ok: true as const };
     },
     async declinePullRequest(data) {
         const url = `https://api.bitbucket.org/2.0/repositories/${data.prRef.workspace}/${data.prRef.repo}/pullrequests/${data.prRef.pullRequestId}/decline`;
-        await request(url, {
-            method: "POST",
-            headers: { Accept: "application/json" },
-        });
+        await request(
+            url,
+            {
+                method: "POST",
+                headers: { Accept: "application/json" },
+            },
+            { account: refAccountId(data.prRef) },
+        );
         return { ok: true as const };
     },
     async markPullRequestAsDraft(data) {
         const url = `https://api.bitbucket.org/2.0/repositories/${data.prRef.workspace}/${data.prRef.repo}/pullrequests/${data.prRef.pullRequestId}`;
-        await request(url, {
-            method: "PUT",
-            headers: {
-                Accept: "application/json",
-                "Content-Type": "application/json",
+        await request(
+            url,
+            {
+                method: "PUT",
+                headers: {
+                    Accept: "application/json",
+                    "Content-Type": "application/json",
+                },
+                body: JSON.stringify({
+                    draft: true,
+                }),
             },
-            body: JSON.stringify({
-                draft: true,
-            }),
-        });
+            { account: refAccountId(data.prRef) },
+        );
         return { ok: true as const };
     },
     async markPullRequestReady(data) {
         const url = `https://api.bitbucket.org/2.0/repositories/${data.prRef.workspace}/${data.prRef.repo}/pullrequests/${data.prRef.pullRequestId}`;
-        await request(url, {
-            method: "PUT",
-            headers: {
-                Accept: "application/json",
-                "Content-Type": "application/json",
+        await request(
+            url,
+            {
+                method: "PUT",
+                headers: {
+                    Accept: "application/json",
+                    "Content-Type": "application/json",
+                },
+                body: JSON.stringify({
+                    draft: false,
+                }),
             },
-            body: JSON.stringify({
-                draft: false,
-            }),
-        });
+            { account: refAccountId(data.prRef) },
+        );
         return { ok: true as const };
     },
     async mergePullRequest(data) {
@@ -1042,14 +1192,18 @@ export const bitbucketClient: GitHostClient = {
         if (data.message?.trim()) payload.message = data.message.trim();
         if (data.mergeStrategy?.trim()) payload.merge_strategy = data.mergeStrategy.trim();
 
-        await request(url, {
-            method: "POST",
-            headers: {
-                Accept: "application/json",
-                "Content-Type": "application/json",
+        await request(
+            url,
+            {
+                method: "POST",
+                headers: {
+                    Accept: "application/json",
+                    "Content-Type": "application/json",
+                },
+                body: JSON.stringify(payload),
             },
-            body: JSON.stringify(payload),
-        });
+            { account: refAccountId(data.prRef) },
+        );
 
         return { ok: true as const };
     },
@@ -1059,14 +1213,18 @@ export const bitbucketClient: GitHostClient = {
             description: data.description,
         };
         if (data.title) payload.title = data.title;
-        await request(url, {
-            method: "PUT",
-            headers: {
-                Accept: "application/json",
-                "Content-Type": "application/json",
+        await request(
+            url,
+            {
+                method: "PUT",
+                headers: {
+                    Accept: "application/json",
+                    "Content-Type": "application/json",
+                },
+                body: JSON.stringify(payload),
             },
-            body: JSON.stringify(payload),
-        });
+            { account: refAccountId(data.prRef) },
+        );
 
         return { ok: true as const };
     },
@@ -1078,62 +1236,115 @@ export const bitbucketClient: GitHostClient = {
         if (data.inline) payload.inline = mapBitbucketInlineComment(data.inline);
         if (data.parentId) payload.parent = { id: data.parentId };
 
-        await request(url, {
-            method: "POST",
-            headers: {
-                Accept: "application/json",
-                "Content-Type": "application/json",
+        await request(
+            url,
+            {
+                method: "POST",
+                headers: {
+                    Accept: "application/json",
+                    "Content-Type": "application/json",
+                },
+                body: JSON.stringify(payload),
             },
-            body: JSON.stringify(payload),
-        });
+            { account: refAccountId(data.prRef) },
+        );
 
         return { ok: true as const };
     },
     async updatePullRequestComment(data) {
         const url = `https://api.bitbucket.org/2.0/repositories/${data.prRef.workspace}/${data.prRef.repo}/pullrequests/${data.prRef.pullRequestId}/comments/${data.commentId}`;
-        await request(url, {
-            method: "PUT",
-            headers: {
-                Accept: "application/json",
-                "Content-Type": "application/json",
+        await request(
+            url,
+            {
+                method: "PUT",
+                headers: {
+                    Accept: "application/json",
+                    "Content-Type": "application/json",
+                },
+                body: JSON.stringify({
+                    content: { raw: data.content },
+                }),
             },
-            body: JSON.stringify({
-                content: { raw: data.content },
-            }),
-        });
+            { account: refAccountId(data.prRef) },
+        );
         return { ok: true as const };
     },
     async resolvePullRequestComment(data) {
         const action = data.resolve ? "resolve" : "unresolve";
         const url = `https://api.bitbucket.org/2.0/repositories/${data.prRef.workspace}/${data.prRef.repo}/pullrequests/${data.prRef.pullRequestId}/comments/${data.commentId}/${action}`;
-        await request(url, {
-            method: "POST",
-            headers: { Accept: "application/json" },
-        });
+        await request(
+            url,
+            {
+                method: "POST",
+                headers: { Accept: "application/json" },
+            },
+            { account: refAccountId(data.prRef) },
+        );
 
         return { ok: true as const };
     },
     async deletePullRequestComment(data) {
         const url = `https://api.bitbucket.org/2.0/repositories/${data.prRef.workspace}/${data.prRef.repo}/pullrequests/${data.prRef.pullRequestId}/comments/${data.commentId}`;
-        await request(url, {
-            method: "DELETE",
-            headers: { Accept: "application/json" },
-        });
+        await request(
+            url,
+            {
+                method: "DELETE",
+                headers: { Accept: "application/json" },
+            },
+            { account: refAccountId(data.prRef) },
+        );
         return { ok: true as const };
     },
-    async fetchPullRequestFileContents({ prRef, commit, path }) {
-        const encodedPath = encodeBitbucketPath(path);
-        if (!encodedPath) return "";
-        try {
-            const url = `https://api.bitbucket.org/2.0/repositories/${prRef.workspace}/${prRef.repo}/src/${commit}/${encodedPath}`;
-            const res = await request(url, { headers: { Accept: "application/octet-stream" } });
-            return await res.text();
-        } catch (error) {
-            if (error instanceof HostApiError && error.status === 404) {
-                return "";
-            }
-            throw error;
+    async setCommentReaction() {
+        throw new Error("Comment reactions are not supported for Bitbucket in this app.");
+    },
+    async submitPendingReview() {
+        throw new Error("Pending reviews are not supported for Bitbucket in this app.");
+    },
+    async discardPendingReview() {
+        throw new Error("Pending reviews are not supported for Bitbucket in this app.");
+    },
+    async commitPullRequestFileChanges(data) {
+        const pullRequestUrl = `https://api.bitbucket.org/2.0/repositories/${data.prRef.workspace}/${data.prRef.repo}/pullrequests/${data.prRef.pullRequestId}`;
+        const pullRequest = (await (await request(pullRequestUrl, {}, { account: refAccountId(data.prRef) })).json()) as {
+            source?: { branch?: { name?: string }; commit?: { hash?: string }; repository?: { full_name?: string } };
+        };
+        const branch = pullRequest.source?.branch?.name;
+        const headHash = pullRequest.source?.commit?.hash;
+        const sourceRepository = pullRequest.source?.repository?.full_name ?? `${data.prRef.workspace}/${data.prRef.repo}`;
+        if (!branch || !headHash) {
+            throw new Error("The pull request source branch is no longer available");
+        }
+        const expectedHeadHash = data.expectedHeadCommitHash.trim();
+        if (!expectedHeadHash) {
+            throw new Error("The reviewed head commit is unknown. Refresh the pull request and review the suggestions again.");
         }
+        // Bitbucket reports abbreviated hashes on pull requests.
+        if (!headHash.startsWith(expectedHeadHash) && !expectedHeadHash.startsWith(headHash)) {
+            throw new Error("The source branch has new commits. Refresh the pull request and review the suggestions again.");
+        }
+
+        const form = new FormData();
+        form.append("message", data.message);
+        form.append("branch", branch);
+        form.append("parents", headHash);
+        for (const file of data.files) {
+            form.append(file.path, new Blob([file.contents]), file.path);
+        }
+        await request(
+            `https://api.bitbucket.org/2.0/repositories/${sourceRepository}/src`,
+            { method: "POST", body: form },
+            { account: refAccountId(data.prRef) },
+        );
+        return { ok: true as const };
+    },
+    async fetchPullRequestFileContents(data) {
+        const res = await requestRawFile(data);
+        return res ? await res.text() : "";
+    },
+    async fetchPullRequestFileBytes(data) {
+        const res = await requestRawFile(data);
+        return res ? new Uint8Array(await res.arrayBuffer()) : new Uint8Array();
     },
     async fetchPullRequestCommitRangeDiff({ prRef, baseCommitHash, headCommitHash, selectedCommitHashes }): Promise<PullRequestCommitRangeDiff> {
         const normalizedBase = baseCommitHash.trim();
@@ -1146,8 +1357,8 @@ export const bitbucketClient: GitHostClient = {
         const rangeSpec = `${encodeURIComponent(normalizedHead)}..${encodeURIComponent(normalizedBase)}`;
         const apiBase = `https://api.bitbucket.org/2.0/repositories/${prRef.workspace}/${prRef.repo}`;
         const [diffRes, diffstat] = await Promise.all([
-            request(`${apiBase}/diff/${rangeSpec}`, { headers: { Accept: "text/plain" } }),
-            fetchAllDiffStat(`${apiBase}/diffstat/${rangeSpec}?pagelen=100`),
+            request(`${apiBase}/diff/${rangeSpec}`, { headers: { Accept: "text/plain" } }, { account: refAccountId(prRef) }),
+            fetchAllDiffStat(`${apiBase}/diffstat/${rangeSpec}?pagelen=100`, refAccountId(prRef)),
         ]);
         const diffText = await diffRes.text();
 
@@ -1174,9 +1385,13 @@ export const bitbucketClient: GitHostClient = {
             const commitHash = commit.hash?.trim();
             if (!commitHash) return null;
 
-            const diffRes = await request(`https://api.bitbucket.org/2.0/repositories/${prRef.workspace}/${prRef.repo}/diff/${commitHash}`, {
-                headers: { Accept: "text/plain" },
-            });
+            const diffRes = await request(
+                `https://api.bitbucket.org/2.0/repositories/${prRef.workspace}/${prRef.repo}/diff/${commitHash}`,
+                {
+                    headers: { Accept: "text/plain" },
+                },
+                { account: refAccountId(prRef) },
+            );
             const diffText = await diffRes.text();
             const match = extractSingleFilePatchFromUnifiedDiff(diffText, normalizedPath);
             if (!match) return null;
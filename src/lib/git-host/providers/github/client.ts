@@ -1,16 +1,21 @@
-import { clearGithubAuthCredential, readGithubAuthCredential, writeGithubAuthCredential } from "@/lib/data/query-collections";
+import { clearGithubAuthCredential, listGithubAuthInstances, readGithubAuthCredential, writeGithubAuthCredential } from "@/lib/data/query-collections";
 import { githubAuthSchema, parseSchema } from "@/lib/git-host/schemas";
 import { parseFailureBody } from "@/lib/git-host/shared/http";
+import { normalizeGithubInstance, refAccountId } from "@/lib/git-host/shared/instance";
 import { collectPaginated, REPO_PULL_REQUEST_LIST_LIMIT } from "@/lib/git-host/shared/pagination";
 import {
     type AuthState,
     type Comment,
     type CommentPayload,
+    type CommentReaction,
+    type CommentReactionContent,
     type Commit,
     type DiffStatEntry,
     type GitHostClient,
     HostApiError,
+    type InboxPullRequest,
     type LoginCredentials,
+    type PendingReviewEvent,
     type PullRequestBuildStatus,
     type PullRequestBundle,
     type PullRequestCommitRangeDiff,
@@ -20,16 +25,40 @@ import {
     type PullRequestFileHistory,
     type PullRequestFileHistoryEntry,
     type PullRequestHistoryEvent,
+    type PullRequestRef,
     type PullRequestReviewer,
     type PullRequestSummary,
 } from "@/lib/git-host/types";
+import { refreshOAuthToken } from "@/lib/oauth";
 
-const API_BASE = "https://api.github.com";
+const GITHUB_DOTCOM_API_BASE = "https://api.github.com";
+
+// Enterprise Server serves REST under /api/v3 and GraphQL under /api/graphql on the instance host.
+function githubApiBase(instance?: string) {
+    return instance ? `https://${instance}/api/v3` : GITHUB_DOTCOM_API_BASE;
+}
+
+function githubGraphqlUrl(instance?: string) {
+    return instance ? `https://${instance}/api/graphql` : `${GITHUB_DOTCOM_API_BASE}/graphql`;
+}
+
+function githubInstanceForUrl(url: string) {
+    const host = new URL(url).host.toLowerCase();
+    return host === "api.github.com" ? undefined : host;
+}
+
+function githubRepoPath(ref: { instance?: string; workspace: string; repo: string }) {
+    return `${githubApiBase(ref.instance)}/repos/${ref.workspace}/${ref.repo}`;
+}
 
 interface GithubAuth {
     token: string;
+    refreshToken?: string;
+    expiresAt?: number;
 }
 
+type GithubPullRequestLocator = Pick<PullRequestRef, "instance" | "account" | "workspace" | "repo" | "pullRequestId">;
+
 interface GithubUser {
     login: string;
     avatar_url?: string;
@@ -94,6 +123,14 @@ interface GithubCommit {
     };
 }
 
+type GithubReactionRollup = Partial<Record<CommentReactionContent, number>> & { total_count?: number };
+
+interface GithubReaction {
+    id: number;
+    content?: string;
+    user?: { login?: string };
+}
+
 interface GithubIssueComment {
     id: number;
     created_at?: string;
@@ -102,6 +139,7 @@ interface GithubIssueComment {
     body_text?: string;
     body_html?: string;
     user?: { login?: string; avatar_url?: string };
+    reactions?: GithubReactionRollup;
 }
 
 interface GithubReviewComment {
@@ -117,14 +155,18 @@ interface GithubReviewComment {
     line?: number | null;
     start_line?: number | null;
     original_line?: number | null;
+    original_start_line?: number | null;
+    original_commit_id?: string;
     side?: "LEFT" | "RIGHT";
     start_side?: "LEFT" | "RIGHT";
     position?: number | null;
     in_reply_to_id?: number;
+    reactions?: GithubReactionRollup;
 }
 
 interface GithubReview {
     id: number;
+    node_id?: string;
     state?: string;
     body?: string;
     body_text?: string;
@@ -133,16 +175,33 @@ interface GithubReview {
     submitted_at?: string;
 }
 
+type GithubReactableNode = {
+    databaseId?: number | null;
+    reactionGroups?: Array<{ content?: string; viewerHasReacted?: boolean }>;
+};
+
 type GithubReviewThreadNode = {
     id?: string;
     isResolved?: boolean;
     comments?: {
-        nodes?: Array<{
-            databaseId?: number | null;
-        }>;
+        nodes?: GithubReactableNode[];
     };
 };
 
+const GITHUB_REACTION_CONTENTS: CommentReactionContent[] = ["+1", "-1", "laugh", "hooray", "confused", "heart", "rocket", "eyes"];
+
+// GraphQL names reactions by enum while REST uses the short names the rest of the app shares.
+const GITHUB_GRAPHQL_REACTION_CONTENTS: Record<string, CommentReactionContent> = {
+    THUMBS_UP: "+1",
+    THUMBS_DOWN: "-1",
+    LAUGH: "laugh",
+    HOORAY: "hooray",
+    CONFUSED: "confused",
+    HEART: "heart",
+    ROCKET: "rocket",
+    EYES: "eyes",
+};
+
 interface GithubIssueEvent {
     id: number;
     event?: string;
@@ -209,56 +268,103 @@ function parseAuth(rawValue: string | null): GithubAuth | null {
         const parsed = parseSchema(githubAuthSchema, JSON.parse(rawValue));
         const token = parsed?.token.trim();
         if (!token) return null;
-        return { token };
+        const refreshToken = parsed?.refreshToken?.trim();
+        return { token, ...(refreshToken ? { refreshToken } : {}), ...(typeof parsed?.expiresAt === "number" ? { expiresAt: parsed.expiresAt } : {}) };
     } catch {
         return null;
     }
 }
 
-function readAuth() {
-    const stored = readGithubAuthCredential();
+function readAuth(instance?: string, account?: string) {
+    const stored = readGithubAuthCredential(instance, account);
     if (!stored) return null;
     return parseAuth(JSON.stringify(stored));
 }
 
-async function writeAuth(auth: GithubAuth) {
-    await writeGithubAuthCredential(auth);
+async function writeAuth(auth: GithubAuth, instance?: string, account?: string) {
+    await writeGithubAuthCredential({ ...auth, instance, account });
 }
 
 function clearAuth() {
     clearGithubAuthCredential();
+    for (const instance of listGithubAuthInstances()) {
+        clearGithubAuthCredential(instance);
+    }
+}
+
+function hasAuth(instance?: string, account?: string) {
+    return Boolean(readAuth(instance, account)?.token);
+}
+
+const OAUTH_REFRESH_SKEW_MS = 30_000;
+const oauthRefreshPromises = new Map<string | undefined, Promise<GithubAuth>>();
+
+// Only github.com sign-ins go through the OAuth broker, so Enterprise Server tokens are never refreshed.
+async function refreshOAuthAuth(auth: GithubAuth & { refreshToken: string }, account?: string) {
+    const pending = oauthRefreshPromises.get(account);
+    if (pending) return pending;
+
+    const refreshPromise = refreshOAuthToken("github", auth.refreshToken)
+        .then(async (tokens) => {
+            const nextAuth = {
+                token: tokens.accessToken,
+                refreshToken: tokens.refreshToken ?? auth.refreshToken,
+                ...(typeof tokens.expiresAt === "number" ? { expiresAt: tokens.expiresAt } : {}),
+            } satisfies GithubAuth;
+            await writeAuth(nextAuth, undefined, account);
+            return nextAuth;
+        })
+        .finally(() => {
+            oauthRefreshPromises.delete(account);
+        });
+    oauthRefreshPromises.set(account, refreshPromise);
+    return refreshPromise;
 }
 
-function authHeader() {
-    const auth = readAuth();
+async function authHeader(instance?: string, account?: string, forceOAuthRefresh = false) {
+    const auth = readAuth(instance, account);
     if (!auth?.token) return null;
-    return `Bearer ${auth.token}`;
+    const refreshToken = instance ? undefined : auth.refreshToken;
+    const shouldRefresh = forceOAuthRefresh || (typeof auth.expiresAt === "number" && auth.expiresAt <= Date.now() + OAUTH_REFRESH_SKEW_MS);
+    const activeAuth = refreshToken && shouldRefresh ? await refreshOAuthAuth({ ...auth, refreshToken }, account) : auth;
+    return `Bearer ${activeAuth.token}`;
 }
 
 async function parseFailure(response: Response) {
     return parseFailureBody(response);
 }
 
-async function request(path: string, init: RequestInit = {}, options: { requireAuth?: boolean } = {}) {
-    const authorization = authHeader();
-    if (options.requireAuth && !authorization) {
+// Without an account, requests use the host's active account (sign-in and listing); pull request calls pass theirs.
+async function request(path: string, init: RequestInit = {}, options: { requireAuth?: boolean; account?: string } = {}) {
+    const url = path.startsWith("http") ? path : `${GITHUB_DOTCOM_API_BASE}${path}`;
+    const instance = githubInstanceForUrl(url);
+    const { account } = options;
+    if (options.requireAuth && !hasAuth(instance, account)) {
         throw new Error("Not authenticated");
     }
 
-    const headers: Record<string, string> = {
-        Accept: "application/vnd.github.full+json",
-        "X-GitHub-Api-Version": "2022-11-28",
-        ...(init.headers as Record<string, string>),
+    const requestWithAuth = async (forceOAuthRefresh = false) => {
+        const authorization = await authHeader(instance, account, forceOAuthRefresh);
+        const headers: Record<string, string> = {
+            Accept: "application/vnd.github.full+json",
+            "X-GitHub-Api-Version": "2022-11-28",
+            ...(init.headers as Record<string, string>),
+        };
+        if (authorization) {
+            headers.Authorization = authorization;
+        }
+
+        return fetch(url, {
+            ...init,
+            cache: "no-store",
+            headers,
+        });
     };
-    if (authorization) {
-        headers.Authorization = authorization;
-    }
 
-    const response = await fetch(path.startsWith("http") ? path : `${API_BASE}${path}`, {
-        ...init,
-        cache: "no-store",
-        headers,
-    });
+    let response = await requestWithAuth();
+    if (response.status === 401 && !instance && readAuth(undefined, account)?.refreshToken) {
+        response = await requestWithAuth(true);
+    }
 
     if (!response.ok) {
         const body = await parseFailure(response);
@@ -272,10 +378,10 @@ async function request(path: string, init: RequestInit = {}, options: { requireA
     return response;
 }
 
-async function listPaginated<T>(path: string) {
+async function listPaginated<T>(path: string, account?: string) {
     return collectPaginated(async (page) => {
         const connector = path.includes("?") ? "&" : "?";
-        const res = await request(`${path}${connector}per_page=100&page=${page}`);
+        const res = await request(`${path}${connector}per_page=100&page=${page}`, {}, { account });
         return (await res.json()) as T[];
     });
 }
@@ -501,7 +607,7 @@ function mapReviewers(pr: GithubPull, reviews: GithubReview[]): PullRequestRevie
 
     for (const review of reviews) {
         const login = review.user?.login?.trim();
-        if (!login) continue;
+        if (!login || isPendingGithubReview(review)) continue;
         const status = mapReviewStateToStatus(review.state);
         byUser.set(login, {
             id: `github-reviewer-${login}`,
@@ -517,6 +623,187 @@ function mapReviewers(pr: GithubPull, reviews: GithubReview[]): PullRequestRevie
     return Array.from(byUser.values()).sort((a, b) => (a.displayName ?? "").localeCompare(b.displayName ?? ""));
 }
 
+interface GithubInboxActor {
+    login?: string;
+    avatarUrl?: string;
+}
+
+interface GithubInboxPullRequestNode {
+    number?: number;
+    title?: string;
+    createdAt?: string;
+    updatedAt?: string;
+    url?: string;
+    headRefName?: string;
+    headRefOid?: string;
+    baseRefName?: string;
+    author?: GithubInboxActor | null;
+    repository?: { name?: string; owner?: { login?: string } };
+    reviewRequests?: { nodes?: Array<{ requestedReviewer?: GithubInboxActor | null } | null> };
+    latestReviews?: { nodes?: Array<{ state?: string; submittedAt?: string; author?: GithubInboxActor | null } | null> };
+    participants?: { nodes?: Array<GithubInboxActor | null> };
+    commits?: { nodes?: Array<{ commit?: { committedDate?: string } } | null> };
+}
+
+const GITHUB_INBOX_PULL_REQUEST_FIELDS = `
+    number
+    title
+    createdAt
+    updatedAt
+    url
+    headRefName
+    headRefOid
+    baseRefName
+    author { login avatarUrl }
+    repository { name owner { login } }
+    reviewRequests(first: 20) { nodes { requestedReviewer { ... on User { login avatarUrl } } } }
+    latestReviews(first: 20) { nodes { state submittedAt author { login avatarUrl } } }
+    participants(first: 50) { nodes { login avatarUrl } }
+    commits(last: 1) { nodes { commit { committedDate } } }
+`;
+
+const GITHUB_INBOX_SEARCHES = {
+    requested: "is:pr is:open archived:false review-requested:@me",
+    reviewed: "is:pr is:open archived:false reviewed-by:@me",
+    involved: "is:pr is:open archived:false involves:@me",
+} as const;
+
+// Inbox summaries use bare logins as user ids so they compare directly against the viewer login.
+function mapGithubInboxPullRequest(
+    node: GithubInboxPullRequestNode,
+    options: { instance?: string; viewerLogin: string; reviewRequested: boolean },
+): InboxPullRequest | null {
+    const workspace = node.repository?.owner?.login;
+    const repo = node.repository?.name;
+    if (!workspace || !repo || typeof node.number !== "number") return null;
+
+    const reviewers = new Map<string, PullRequestReviewer>();
+    for (const review of node.latestReviews?.nodes ?? []) {
+        const login = review?.author?.login?.trim();
+        if (!login) continue;
+        const status = mapReviewStateToStatus(review?.state);
+        reviewers.set(login, {
+            id: login,
+            displayName: login,
+            avatarUrl: review?.author?.avatarUrl,
+            status,
+            approved: status === "approved",
+            requested: false,
+            updatedAt: review?.submittedAt,
+        });
+    }
+    for (const request of node.reviewRequests?.nodes ?? []) {
+        const login = request?.requestedReviewer?.login?.trim();
+        if (!login) continue;
+        reviewers.set(login, {
+            ...reviewers.get(login),
+            id: login,
+            displayName: login,
+            avatarUrl: request?.requestedReviewer?.avatarUrl,
+            status: "pending",
+            approved: false,
+            requested: true,
+        });
+    }
+    // Requests made to one of the viewer's teams only show up through the search qualifier.
+    if (options.reviewRequested && !reviewers.get(options.viewerLogin)?.requested) {
+        reviewers.set(options.viewerLogin, {
+            ...reviewers.get(options.viewerLogin),
+            id: options.viewerLogin,
+            displayName: options.viewerLogin,
+            status: "pending",
+            approved: false,
+            requested: true,
+        });
+    }
+
+    const participants = (node.participants?.nodes ?? []).flatMap((participant) =>
+        participant?.login ? [{ id: participant.login, displayName: participant.login, avatarUrl: participant.avatarUrl }] : [],
+    );
+    const lastCommitAt = node.commits?.nodes?.[0]?.commit?.committedDate;
+
+    return {
+        repo: {
+            host: "github",
+            ...(options.instance ? { instance: options.instance } : {}),
+            workspace,
+            repo,
+            fullName: `${workspace}/${repo}`,
+            displayName: repo,
+        },
+        pullRequest: {
+            id: node.number,
+            title: node.title ?? `#${node.number}`,
+            state: "OPEN",
+            createdAt: node.createdAt,
+            updatedAt: node.updatedAt,
+            links: { html: { href: node.url } },
+            author: { id: node.author?.login, displayName: node.author?.login, avatarUrl: node.author?.avatarUrl },
+            ...(node.headRefName || node.headRefOid
+                ? { source: { branch: { name: node.headRefName }, ...(node.headRefOid ? { commit: { hash: node.headRefOid } } : {}) } }
+                : {}),
+            ...(node.baseRefName ? { destination: { branch: { name: node.baseRefName } } } : {}),
+            reviewers: Array.from(reviewers.values()).sort((a, b) => (a.displayName ?? "").localeCompare(b.displayName ?? "")),
+            participants,
+            ...(lastCommitAt ? { lastCommitAt } : {}),
+        },
+        currentUserId: options.viewerLogin,
+    };
+}
+
+async function fetchGithubInboxPullRequests(instance?: string) {
+    const response = await request(
+        githubGraphqlUrl(instance),
+        {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+                query: `
+                    query InboxPullRequests {
+                        viewer { login }
+                        ${Object.entries(GITHUB_INBOX_SEARCHES)
+                            .map(
+                                ([alias, query]) =>
+                                    `${alias}: search(query: ${JSON.stringify(query)}, type: ISSUE, first: 50) { nodes { ... on PullRequest { ${GITHUB_INBOX_PULL_REQUEST_FIELDS} } } }`,
+                            )
+                            .join("\n")}
+                    }
+                `,
+            }),
+        },
+        { requireAuth: true },
+    );
+    const payload = (await response.json()) as {
+        errors?: Array<{ message?: string }>;
+        data?: { viewer?: { login?: string } } & Partial<Record<keyof typeof GITHUB_INBOX_SEARCHES, { nodes?: Array<GithubInboxPullRequestNode | null> }>>;
+    };
+    const firstError = payload.errors?.[0]?.message;
+    if (firstError) {
+        throw new Error(firstError);
+    }
+    const viewerLogin = payload.data?.viewer?.login;
+    if (!viewerLogin) {
+        throw new Error("GitHub did not return the signed-in user");
+    }
+
+    const requestedKeys = new Set(
+        (payload.data?.requested?.nodes ?? []).flatMap((node) =>
+            node?.repository?.owner?.login && node.repository.name ? [`${node.repository.owner.login}/${node.repository.name}#${node.number}`] : [],
+        ),
+    );
+    const byKey = new Map<string, InboxPullRequest>();
+    for (const alias of Object.keys(GITHUB_INBOX_SEARCHES) as Array<keyof typeof GITHUB_INBOX_SEARCHES>) {
+        for (const node of payload.data?.[alias]?.nodes ?? []) {
+            if (!node) continue;
+            const key = `${node.repository?.owner?.login}/${node.repository?.name}#${node.number}`;
+            if (byKey.has(key)) continue;
+            const mapped = mapGithubInboxPullRequest(node, { instance, viewerLogin, reviewRequested: requestedKeys.has(key) });
+            if (mapped) byKey.set(key, mapped);
+        }
+    }
+    return Array.from(byKey.values());
+}
+
 function mapIssueCommentToHistory(comment: GithubIssueComment): PullRequestHistoryEvent {
     const content = mapCommentContent(comment.body, comment.body_text, comment.body_html);
     return {
@@ -740,7 +1027,32 @@ function mapCommit(commit: GithubCommit): Commit {
     };
 }
 
-function mapIssueComment(comment: GithubIssueComment): Comment {
+function mapGithubReactions(rollup: GithubReactionRollup | undefined, viewerReactions?: ReadonlySet<CommentReactionContent>) {
+    if (!rollup) return undefined;
+    const reactions: CommentReaction[] = [];
+    for (const content of GITHUB_REACTION_CONTENTS) {
+        const count = rollup[content] ?? 0;
+        if (count <= 0) continue;
+        reactions.push({ content, count, ...(viewerReactions?.has(content) ? { viewerReacted: true } : {}) });
+    }
+    return reactions;
+}
+
+function collectGithubViewerReactions(nodes: GithubReactableNode[]) {
+    const viewerReactionsByCommentId = new Map<number, Set<CommentReactionContent>>();
+    for (const node of nodes) {
+        if (typeof node.databaseId !== "number") continue;
+        const contents = new Set<CommentReactionContent>();
+        for (const group of node.reactionGroups ?? []) {
+            const content = GITHUB_GRAPHQL_REACTION_CONTENTS[group.content ?? ""];
+            if (content && group.viewerHasReacted) contents.add(content);
+        }
+        if (contents.size > 0) viewerReactionsByCommentId.set(node.databaseId, contents);
+    }
+    return viewerReactionsByCommentId;
+}
+
+function mapIssueComment(comment: GithubIssueComment, viewerReactionsByCommentId?: ReadonlyMap<number, ReadonlySet<CommentReactionContent>>): Comment {
     const content = mapCommentContent(comment.body, comment.body_text, comment.body_html);
     return {
         id: comment.id,
@@ -751,6 +1063,7 @@ function mapIssueComment(comment: GithubIssueComment): Comment {
             displayName: comment.user?.login,
             avatarUrl: comment.user?.avatar_url,
         },
+        reactions: mapGithubReactions(comment.reactions, viewerReactionsByCommentId?.get(comment.id)),
     };
 }
 
@@ -759,6 +1072,8 @@ function mapReviewComment(
     metadata?: {
         resolvedRootCommentIds?: ReadonlySet<number>;
         threadIdByRootCommentId?: ReadonlyMap<number, string>;
+        pendingCommentIds?: ReadonlySet<number>;
+        viewerReactionsByCommentId?: ReadonlyMap<number, ReadonlySet<CommentReactionContent>>;
     },
 ): Comment {
     const line = comment.line ?? comment.original_line ?? undefined;
@@ -771,6 +1086,7 @@ function mapReviewComment(
         id: comment.id,
         createdAt: comment.created_at,
         updatedAt: comment.updated_at,
+        ...(metadata?.pendingCommentIds?.has(comment.id) ? { pending: true, pendingReview: true } : {}),
         content: { raw: content.raw, html: content.html },
         user: {
             displayName: comment.user?.login,
@@ -781,12 +1097,23 @@ function mapReviewComment(
             to: !isLeft ? line : undefined,
             from: isLeft ? line : undefined,
             ...(!isLeft && !isStartLeft && startLine ? { startTo: startLine } : {}),
-            ...(isLeft && isStartLeft && startLine ? { startFrom: startLine } : {}),
+            ...(isStartLeft && startLine ? { startFrom: startLine } : {}),
             ...(comment.position === null ? { outdated: true } : {}),
+            ...(comment.position === null && comment.original_commit_id ? { commitHash: comment.original_commit_id } : {}),
+            ...(!isLeft && comment.original_commit_id && comment.original_line
+                ? {
+                      writtenAt: {
+                          commitHash: comment.original_commit_id,
+                          to: comment.original_line,
+                          ...(!isStartLeft && comment.original_start_line ? { startTo: comment.original_start_line } : {}),
+                      },
+                  }
+                : {}),
         },
         parent: comment.in_reply_to_id ? { id: comment.in_reply_to_id } : undefined,
         resolution: isRootComment && metadata?.resolvedRootCommentIds?.has(comment.id) ? {} : undefined,
         hostThreadId: isRootComment ? metadata?.threadIdByRootCommentId?.get(comment.id) : undefined,
+        reactions: mapGithubReactions(comment.reactions, metadata?.viewerReactionsByCommentId?.get(comment.id)),
     };
 }
 
@@ -849,6 +1176,7 @@ function buildGithubReviewThreadMetadata(normalizedReviewComments: GithubReviewC
     return {
         resolvedRootCommentIds,
         threadIdByRootCommentId,
+        viewerReactionsByCommentId: collectGithubViewerReactions(reviewThreads.flatMap((thread) => thread.comments?.nodes ?? [])),
     };
 }
 
@@ -858,9 +1186,14 @@ function mergeIssueAndReviewComments(
     metadata?: {
         resolvedRootCommentIds?: ReadonlySet<number>;
         threadIdByRootCommentId?: ReadonlyMap<number, string>;
+        pendingCommentIds?: ReadonlySet<number>;
+        viewerReactionsByCommentId?: ReadonlyMap<number, ReadonlySet<CommentReactionContent>>;
     },
 ) {
-    const all: Comment[] = [...issue.map(mapIssueComment), ...normalizedReviewComments.map((comment) => mapReviewComment(comment, metadata))];
+    const all: Comment[] = [
+        ...issue.map((comment) => mapIssueComment(comment, metadata?.viewerReactionsByCommentId)),
+        ...normalizedReviewComments.map((comment) => mapReviewComment(comment, metadata)),
+    ];
 
     all.sort((a, b) => new Date(a.createdAt ?? 0).getTime() - new Date(b.createdAt ?? 0).getTime());
 
@@ -874,36 +1207,68 @@ function mapGithubInlineComment(inline: CommentPayload["inline"]) {
     if (!line) return undefined;
 
     const side = inline.from ? ("LEFT" as const) : ("RIGHT" as const);
-    const startLine = side === "LEFT" ? inline.startFrom : inline.startTo;
+    // A range may start on removed lines and end on added ones.
+    const startLine = inline.startFrom ?? inline.startTo;
+    const startSide = inline.startFrom ? ("LEFT" as const) : ("RIGHT" as const);
     return {
         path: inline.path,
         side,
         line,
-        ...(startLine ? { start_line: startLine, start_side: side } : {}),
+        ...(startLine ? { start_line: startLine, start_side: startSide } : {}),
+    };
+}
+
+function isPendingGithubReview(review: GithubReview) {
+    return (review.state ?? "").toUpperCase() === "PENDING";
+}
+
+// Comments of the viewer's pending review are only listed on the review itself and stay hidden from everyone else until submitted.
+function mergeGithubPendingReviewComments(reviewComments: GithubReviewComment[], pendingReviewComments: GithubReviewComment[]) {
+    const pendingCommentIds = new Set(pendingReviewComments.map((comment) => comment.id));
+    const publishedIds = new Set(reviewComments.map((comment) => comment.id));
+    return {
+        reviewComments: [...reviewComments, ...pendingReviewComments.filter((comment) => !publishedIds.has(comment.id))],
+        pendingCommentIds,
     };
 }
 
+function mapGithubReviewEvent(event: PendingReviewEvent) {
+    if (event === "approve") return "APPROVE";
+    if (event === "requestChanges") return "REQUEST_CHANGES";
+    return "COMMENT";
+}
+
 // Export pure normalizers for focused mapping tests without network requests.
 export const githubNormalization = {
     mapPullRequestSummary,
     mapPullRequestDetails,
+    mapGithubInboxPullRequest,
     mapIssueEventToHistory,
     mapReviewStateToStatus,
     normalizeGithubReviewCommentParents,
     buildGithubReviewThreadMetadata,
+    collectGithubViewerReactions,
     mergeIssueAndReviewComments,
+    mergeGithubPendingReviewComments,
     mapGithubInlineComment,
+    githubRepoPath,
+    githubGraphqlUrl,
 };
 
-async function fetchGithubPullRequestCritical(prRef: { workspace: string; repo: string; pullRequestId: string }): Promise<PullRequestCriticalBundle> {
-    const basePath = `/repos/${prRef.workspace}/${prRef.repo}/pulls/${prRef.pullRequestId}`;
+async function fetchGithubPullRequestCritical(prRef: GithubPullRequestLocator): Promise<PullRequestCriticalBundle> {
+    const basePath = `${githubRepoPath(prRef)}/pulls/${prRef.pullRequestId}`;
+    const account = refAccountId(prRef);
     const [prRes, diffRes, files, commits] = await Promise.all([
-        request(basePath),
-        request(basePath, {
-            headers: { Accept: "application/vnd.github.v3.diff" },
-        }),
-        listPaginated<GithubFile>(`${basePath}/files`),
-        listPaginated<GithubCommit>(`${basePath}/commits`),
+        request(basePath, {}, { account }),
+        request(
+            basePath,
+            {
+                headers: { Accept: "application/vnd.github.v3.diff" },
+            },
+            { account },
+        ),
+        listPaginated<GithubFile>(`${basePath}/files`, account),
+        listPaginated<GithubCommit>(`${basePath}/commits`, account),
     ]);
     const pr = (await prRes.json()) as GithubPull;
     const diffstat: DiffStatEntry[] = files.map((file) => ({
@@ -914,12 +1279,7 @@ async function fetchGithubPullRequestCritical(prRef: { workspace: string; repo:
         linesRemoved: file.deletions,
     }));
     return {
-        prRef: {
-            host: "github",
-            workspace: prRef.workspace,
-            repo: prRef.repo,
-            pullRequestId: prRef.pullRequestId,
-        },
+        prRef: { ...prRef, host: "github" },
         pr: mapPullRequestDetails(pr, "none"),
         diff: await diffRes.text(),
         diffstat,
@@ -927,14 +1287,13 @@ async function fetchGithubPullRequestCritical(prRef: { workspace: string; repo:
     };
 }
 
-async function fetchGithubReviewThreadMetadata(
-    prRef: { workspace: string; repo: string; pullRequestId: string },
-    normalizedReviewComments: GithubReviewComment[],
-) {
-    if (!authHeader()) {
+async function fetchGithubReviewThreadMetadata(prRef: GithubPullRequestLocator, normalizedReviewComments: GithubReviewComment[]) {
+    const account = refAccountId(prRef);
+    if (!hasAuth(prRef.instance, account)) {
         return {
             resolvedRootCommentIds: new Set<number>(),
             threadIdByRootCommentId: new Map<number, string>(),
+            viewerReactionsByCommentId: new Map<number, Set<CommentReactionContent>>(),
         };
     }
 
@@ -946,12 +1305,13 @@ async function fetchGithubReviewThreadMetadata(
             return {
                 resolvedRootCommentIds: new Set<number>(),
                 threadIdByRootCommentId: new Map<number, string>(),
+                viewerReactionsByCommentId: new Map<number, Set<CommentReactionContent>>(),
             };
         }
 
         do {
             const response = await request(
-                "/graphql",
+                githubGraphqlUrl(prRef.instance),
                 {
                     method: "POST",
                     headers: { "Content-Type": "application/json" },
@@ -967,6 +1327,10 @@ async function fetchGithubReviewThreadMetadata(
                                                 comments(first: 100) {
                                                     nodes {
                                                         databaseId
+                                                        reactionGroups {
+                                                            content
+                                                            viewerHasReacted
+                                                        }
                                                     }
                                                 }
                                             }
@@ -987,7 +1351,7 @@ async function fetchGithubReviewThreadMetadata(
                         },
                     }),
                 },
-                { requireAuth: true },
+                { requireAuth: true, account },
             );
             const payload = (await response.json()) as {
                 errors?: Array<{ message?: string }>;
@@ -1020,37 +1384,140 @@ async function fetchGithubReviewThreadMetadata(
     })().catch(() => ({
         resolvedRootCommentIds: new Set<number>(),
         threadIdByRootCommentId: new Map<number, string>(),
+        viewerReactionsByCommentId: new Map<number, Set<CommentReactionContent>>(),
     }));
 }
 
-async function fetchGithubPullRequestComments(prRef: { workspace: string; repo: string; pullRequestId: string }) {
-    const basePath = `/repos/${prRef.workspace}/${prRef.repo}/pulls/${prRef.pullRequestId}`;
-    const [issueComments, reviewComments] = await Promise.all([
-        listPaginated<GithubIssueComment>(`/repos/${prRef.workspace}/${prRef.repo}/issues/${prRef.pullRequestId}/comments`),
-        listPaginated<GithubReviewComment>(`${basePath}/comments`),
+// REST only reports reaction counts, so the viewer's own reactions on conversation comments come from GraphQL.
+async function fetchGithubIssueCommentViewerReactions(prRef: GithubPullRequestLocator, issueComments: GithubIssueComment[]) {
+    const pullRequestNumber = Number(prRef.pullRequestId);
+    const hasReactions = issueComments.some((comment) => (comment.reactions?.total_count ?? 0) > 0);
+    const account = refAccountId(prRef);
+    if (!hasAuth(prRef.instance, account) || !hasReactions || !Number.isInteger(pullRequestNumber) || pullRequestNumber <= 0) {
+        return new Map<number, Set<CommentReactionContent>>();
+    }
+
+    const nodes: GithubReactableNode[] = [];
+    let after: string | null = null;
+    do {
+        const response = await request(
+            githubGraphqlUrl(prRef.instance),
+            {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    query: `
+                        query IssueCommentReactionsByPullRequest($owner: String!, $repo: String!, $pullRequestNumber: Int!, $after: String) {
+                            repository(owner: $owner, name: $repo) {
+                                pullRequest(number: $pullRequestNumber) {
+                                    comments(first: 100, after: $after) {
+                                        nodes {
+                                            databaseId
+                                            reactionGroups {
+                                                content
+                                                viewerHasReacted
+                                            }
+                                        }
+                                        pageInfo {
+                                            hasNextPage
+                                            endCursor
+                                        }
+                                    }
+                                }
+                            }
+                        }
+                    `,
+                    variables: {
+                        owner: prRef.workspace,
+                        repo: prRef.repo,
+                        pullRequestNumber,
+                        after,
+                    },
+                }),
+            },
+            { requireAuth: true, account },
+        );
+        const payload = (await response.json()) as {
+            errors?: Array<{ message?: string }>;
+            data?: {
+                repository?: {
+                    pullRequest?: {
+                        comments?: {
+                            nodes?: GithubReactableNode[];
+                            pageInfo?: { hasNextPage?: boolean; endCursor?: string | null };
+                        };
+                    };
+                };
+            };
+        };
+        const firstError = payload.errors?.[0]?.message;
+        if (firstError) {
+            throw new Error(firstError);
+        }
+
+        const commentsConnection = payload.data?.repository?.pullRequest?.comments;
+        nodes.push(...(commentsConnection?.nodes ?? []));
+        const pageInfo = commentsConnection?.pageInfo;
+        after = pageInfo?.hasNextPage ? (pageInfo.endCursor?.trim() ?? null) : null;
+    } while (after);
+
+    return collectGithubViewerReactions(nodes);
+}
+
+async function findGithubPendingReview(basePath: string, account: string, reviews?: GithubReview[]) {
+    if (!hasAuth(githubInstanceForUrl(basePath), account)) return undefined;
+    const candidates = reviews ?? (await listPaginated<GithubReview>(`${basePath}/reviews`, account));
+    return candidates.find(isPendingGithubReview);
+}
+
+async function fetchGithubPendingReviewComments(basePath: string, account: string, reviews?: GithubReview[]) {
+    const pendingReview = await findGithubPendingReview(basePath, account, reviews).catch(() => undefined);
+    if (!pendingReview) return [];
+    return listPaginated<GithubReviewComment>(`${basePath}/reviews/${pendingReview.id}/comments`, account).catch(() => []);
+}
+
+async function fetchGithubPullRequestComments(prRef: GithubPullRequestLocator) {
+    const basePath = `${githubRepoPath(prRef)}/pulls/${prRef.pullRequestId}`;
+    const account = refAccountId(prRef);
+    const [issueComments, publishedReviewComments, pendingReviewComments] = await Promise.all([
+        listPaginated<GithubIssueComment>(`${githubRepoPath(prRef)}/issues/${prRef.pullRequestId}/comments`, account),
+        listPaginated<GithubReviewComment>(`${basePath}/comments`, account),
+        fetchGithubPendingReviewComments(basePath, account),
     ]);
+    const { reviewComments, pendingCommentIds } = mergeGithubPendingReviewComments(publishedReviewComments, pendingReviewComments);
     const normalizedReviewComments = normalizeGithubReviewCommentParents(reviewComments);
-    const reviewThreadMetadata = await fetchGithubReviewThreadMetadata(prRef, normalizedReviewComments);
-    return mergeIssueAndReviewComments(issueComments, normalizedReviewComments, reviewThreadMetadata);
-}
-
-async function fetchGithubPullRequestDeferred(prRef: { workspace: string; repo: string; pullRequestId: string }): Promise<PullRequestDeferredBundle> {
-    const basePath = `/repos/${prRef.workspace}/${prRef.repo}/pulls/${prRef.pullRequestId}`;
-    const isAuthenticated = Boolean(authHeader());
-    const [prRes, issueComments, reviewComments, reviews, issueEvents] = await Promise.all([
-        request(basePath),
-        listPaginated<GithubIssueComment>(`/repos/${prRef.workspace}/${prRef.repo}/issues/${prRef.pullRequestId}/comments`),
-        listPaginated<GithubReviewComment>(`${basePath}/comments`),
-        listPaginated<GithubReview>(`${basePath}/reviews`),
-        listPaginated<GithubIssueEvent>(`/repos/${prRef.workspace}/${prRef.repo}/issues/${prRef.pullRequestId}/events`).catch(() => []),
+    const [reviewThreadMetadata, issueViewerReactions] = await Promise.all([
+        fetchGithubReviewThreadMetadata(prRef, normalizedReviewComments),
+        fetchGithubIssueCommentViewerReactions(prRef, issueComments).catch(() => new Map<number, Set<CommentReactionContent>>()),
     ]);
+    const viewerReactionsByCommentId = new Map([...reviewThreadMetadata.viewerReactionsByCommentId, ...issueViewerReactions]);
+    return mergeIssueAndReviewComments(issueComments, normalizedReviewComments, { ...reviewThreadMetadata, pendingCommentIds, viewerReactionsByCommentId });
+}
+
+async function fetchGithubPullRequestDeferred(prRef: GithubPullRequestLocator): Promise<PullRequestDeferredBundle> {
+    const basePath = `${githubRepoPath(prRef)}/pulls/${prRef.pullRequestId}`;
+    const account = refAccountId(prRef);
+    const isAuthenticated = hasAuth(prRef.instance, account);
+    const [prRes, issueComments, publishedReviewComments, reviews, issueEvents] = await Promise.all([
+        request(basePath, {}, { account }),
+        listPaginated<GithubIssueComment>(`${githubRepoPath(prRef)}/issues/${prRef.pullRequestId}/comments`, account),
+        listPaginated<GithubReviewComment>(`${basePath}/comments`, account),
+        listPaginated<GithubReview>(`${basePath}/reviews`, account),
+        listPaginated<GithubIssueEvent>(`${githubRepoPath(prRef)}/issues/${prRef.pullRequestId}/events`, account).catch(() => []),
+    ]);
+    const pendingReviewComments = await fetchGithubPendingReviewComments(basePath, account, reviews);
+    const { reviewComments, pendingCommentIds } = mergeGithubPendingReviewComments(publishedReviewComments, pendingReviewComments);
     const normalizedReviewComments = normalizeGithubReviewCommentParents(reviewComments);
-    const reviewThreadMetadata = await fetchGithubReviewThreadMetadata(prRef, normalizedReviewComments);
+    const [reviewThreadMetadata, issueViewerReactions] = await Promise.all([
+        fetchGithubReviewThreadMetadata(prRef, normalizedReviewComments),
+        fetchGithubIssueCommentViewerReactions(prRef, issueComments).catch(() => new Map<number, Set<CommentReactionContent>>()),
+    ]);
+    const viewerReactionsByCommentId = new Map([...reviewThreadMetadata.viewerReactionsByCommentId, ...issueViewerReactions]);
 
     let currentLogin: string | undefined;
     let currentAvatarUrl: string | undefined;
     if (isAuthenticated) {
-        const currentUserRes = await request("/user");
+        const currentUserRes = await request(`${githubApiBase(prRef.instance)}/user`, {}, { account });
         const currentUser = (await currentUserRes.json()) as GithubUser;
         currentLogin = currentUser.login;
         currentAvatarUrl = currentUser.avatar_url;
@@ -1060,12 +1527,12 @@ async function fetchGithubPullRequestDeferred(prRef: { workspace: string; repo:
     const headSha = pr.head?.sha;
     const [checks, combinedStatus] = await Promise.all([
         headSha
-            ? request(`/repos/${prRef.workspace}/${prRef.repo}/commits/${headSha}/check-runs`)
+            ? request(`${githubRepoPath(prRef)}/commits/${headSha}/check-runs`, {}, { account })
                   .then((res) => res.json() as Promise<GithubCheckRunsResponse>)
                   .catch(() => null)
             : Promise.resolve(null),
         headSha
-            ? request(`/repos/${prRef.workspace}/${prRef.repo}/commits/${headSha}/status`)
+            ? request(`${githubRepoPath(prRef)}/commits/${headSha}/status`, {}, { account })
                   .then((res) => res.json() as Promise<GithubCombinedStatusResponse>)
                   .catch(() => null)
             : Promise.resolve(null),
@@ -1074,13 +1541,12 @@ async function fetchGithubPullRequestDeferred(prRef: { workspace: string; repo:
     const currentUserReviewStatus = resolveCurrentUserReviewStatus(reviews, currentLogin);
 
     return {
-        prRef: {
-            host: "github",
-            workspace: prRef.workspace,
-            repo: prRef.repo,
-            pullRequestId: prRef.pullRequestId,
-        },
-        comments: mergeIssueAndReviewComments(issueComments, normalizedReviewComments, reviewThreadMetadata),
+        prRef: { ...prRef, host: "github" },
+        comments: mergeIssueAndReviewComments(issueComments, normalizedReviewComments, {
+            ...reviewThreadMetadata,
+            pendingCommentIds,
+            viewerReactionsByCommentId,
+        }),
         history: mapHistory(pr, issueComments, reviews, issueEvents),
         reviewers: mapReviewers(pr, reviews),
         buildStatuses: mapBuildStatuses(checks, combinedStatus),
@@ -1096,6 +1562,26 @@ async function fetchGithubPullRequestDeferred(prRef: { workspace: string; repo:
     };
 }
 
+/** Resolves to null when the file does not exist at that commit. */
+async function requestRawFile({ prRef, commit, path }: { prRef: PullRequestRef; commit: string; path: string }) {
+    const encodedPath = encodeGitHubPath(path);
+    if (!encodedPath) return null;
+    try {
+        return await request(
+            `${githubRepoPath(prRef)}/contents/${encodedPath}?ref=${commit}`,
+            {
+                headers: { Accept: "application/vnd.github.raw" },
+            },
+            { account: refAccountId(prRef) },
+        );
+    } catch (error) {
+        if (error instanceof HostApiError && error.status === 404) {
+            return null;
+        }
+        throw error;
+    }
+}
+
 export const githubClient: GitHostClient = {
     host: "github",
     capabilities: {
@@ -1106,19 +1592,28 @@ export const githubClient: GitHostClient = {
         mergeStrategies: ["merge", "squash", "rebase"],
         declineAvailable: true,
         markDraftAvailable: true,
+        pendingReviewAvailable: true,
+        commitSuggestionsAvailable: true,
+        crossSideLineRangesAvailable: true,
+        reactionContents: GITHUB_REACTION_CONTENTS,
     },
     async getAuthState(): Promise<AuthState> {
         const auth = readAuth();
-        return { authenticated: Boolean(auth?.token) };
+        return { authenticated: Boolean(auth?.token) || listGithubAuthInstances().length > 0 };
     },
     async login(credentials: LoginCredentials): Promise<AuthState> {
         if (credentials.host !== "github") {
             throw new Error("GitHub credentials expected");
         }
-        const token = credentials.token.trim();
+        const isOAuth = "method" in credentials;
+        const token = (isOAuth ? credentials.accessToken : credentials.token).trim();
         if (!token) throw new Error("Token is required");
+        const instance = isOAuth ? undefined : normalizeGithubInstance(credentials.instance);
+        if (!isOAuth && credentials.instance?.trim() && !instance && !/github\.com/i.test(credentials.instance)) {
+            throw new Error("Enter a valid GitHub Enterprise Server host");
+        }
 
-        const response = await fetch(`${API_BASE}/user`, {
+        const response = await fetch(`${githubApiBase(instance)}/user`, {
             headers: {
                 Authorization: `Bearer ${token}`,
                 Accept: "application/vnd.github+json",
@@ -1132,7 +1627,7 @@ export const githubClient: GitHostClient = {
             throw new Error(details ? `GitHub authentication failed (${status}): ${details}` : `GitHub authentication failed (${status})`);
         }
 
-        await writeAuth({ token });
+        await writeAuth(isOAuth ? { token, refreshToken: credentials.refreshToken, expiresAt: credentials.expiresAt } : { token }, instance);
         return { authenticated: true };
     },
     async logout(): Promise<AuthState> {
@@ -1140,30 +1635,41 @@ export const githubClient: GitHostClient = {
         return { authenticated: false };
     },
     async listRepositories() {
-        if (!authHeader()) {
+        const instances: Array<string | undefined> = [...(hasAuth() ? [undefined] : []), ...listGithubAuthInstances()];
+        if (instances.length === 0) {
             throw new Error("GitHub token required to list repositories. You can still open public PR URLs directly.");
         }
-        const repos = await listPaginated<GithubRepo>("/user/repos?affiliation=owner,collaborator,organization_member");
-        const mapped = repos.map((repo) => {
-            const workspace = repo.owner?.login;
-            if (!workspace) return null;
-            return {
-                host: "github" as const,
-                workspace,
-                repo: repo.name,
-                fullName: repo.full_name,
-                displayName: repo.name,
-            };
-        });
-        return mapped.filter((repo): repo is NonNullable<typeof repo> => Boolean(repo));
+        const reposByInstance = await Promise.all(
+            instances.map(async (instance) => {
+                const repos = await listPaginated<GithubRepo>(`${githubApiBase(instance)}/user/repos?affiliation=owner,collaborator,organization_member`);
+                return repos.map((repo) => {
+                    const workspace = repo.owner?.login;
+                    if (!workspace) return null;
+                    return {
+                        host: "github" as const,
+                        ...(instance ? { instance } : {}),
+                        workspace,
+                        repo: repo.name,
+                        fullName: repo.full_name,
+                        displayName: repo.name,
+                    };
+                });
+            }),
+        );
+        return reposByInstance.flat().filter((repo): repo is NonNullable<typeof repo> => Boolean(repo));
+    },
+    async listInboxPullRequests() {
+        const instances: Array<string | undefined> = [...(hasAuth() ? [undefined] : []), ...listGithubAuthInstances()];
+        const inboxByInstance = await Promise.all(instances.map((instance) => fetchGithubInboxPullRequests(instance)));
+        return inboxByInstance.flat();
     },
     async listPullRequestsForRepos(data) {
         if (!data.repos.length) return [];
         return mapWithConcurrency(data.repos, 4, async (repo) => {
             const pulls = await collectPaginated(
                 async (page) => {
-                    const path = `/repos/${repo.workspace}/${repo.repo}/pulls?state=all&sort=updated&direction=desc`;
-                    const res = await request(`${path}&per_page=100&page=${page}`);
+                    const path = `${githubRepoPath(repo)}/pulls?state=all&sort=updated&direction=desc`;
+                    const res = await request(`${path}&per_page=100&page=${page}`, {}, { account: refAccountId(repo) });
                     return (await res.json()) as GithubPull[];
                 },
                 100,
@@ -1176,39 +1682,16 @@ export const githubClient: GitHostClient = {
         });
     },
     async fetchPullRequestCriticalByRef(data): Promise<PullRequestCriticalBundle> {
-        return fetchGithubPullRequestCritical({
-            workspace: data.prRef.workspace,
-            repo: data.prRef.repo,
-            pullRequestId: data.prRef.pullRequestId,
-        });
+        return fetchGithubPullRequestCritical(data.prRef);
     },
     async fetchPullRequestDeferredByRef(data): Promise<PullRequestDeferredBundle> {
-        return fetchGithubPullRequestDeferred({
-            workspace: data.prRef.workspace,
-            repo: data.prRef.repo,
-            pullRequestId: data.prRef.pullRequestId,
-        });
+        return fetchGithubPullRequestDeferred(data.prRef);
     },
     async fetchPullRequestCommentsByRef(data): Promise<Comment[]> {
-        return fetchGithubPullRequestComments({
-            workspace: data.prRef.workspace,
-            repo: data.prRef.repo,
-            pullRequestId: data.prRef.pullRequestId,
-        });
+        return fetchGithubPullRequestComments(data.prRef);
     },
     async fetchPullRequestBundleByRef(data): Promise<PullRequestBundle> {
-        const [critical, deferred] = await Promise.all([
-            fetchGithubPullRequestCritical({
-                workspace: data.prRef.workspace,
-                repo: data.prRef.repo,
-                pullRequestId: data.prRef.pullRequestId,
-            }),
-            fetchGithubPullRequestDeferred({
-                workspace: data.prRef.workspace,
-                repo: data.prRef.repo,
-                pullRequestId: data.prRef.pullRequestId,
-            }),
-        ]);
+        const [critical, deferred] = await Promise.all([fetchGithubPullRequestCritical(data.prRef), fetchGithubPullRequestDeferred(data.prRef)]);
         const mergedPullRequest: PullRequestDetails = {
             ...critical.pr,
             ...(deferred.prPatch ?? {}),
@@ -1223,7 +1706,7 @@ export const githubClient: GitHostClient = {
         };
     },
     async approvePullRequest(data) {
-        const path = `/repos/${data.prRef.workspace}/${data.prRef.repo}/pulls/${data.prRef.pullRequestId}/reviews`;
+        const path = `${githubRepoPath(data.prRef)}/pulls/${data.prRef.pullRequestId}/reviews`;
         await request(
             path,
             {
@@ -1231,7 +1714,7 @@ export const githubClient: GitHostClient = {
                 headers: { "Content-Type": "application/json" },
                 body: JSON.stringify({ event: "APPROVE" }),
             },
-            { requireAuth: true },
+            { requireAuth: true, account: refAccountId(data.prRef) },
         );
         return { ok: true as const };
     },
@@ -1239,7 +1722,7 @@ export const githubClient: GitHostClient = {
         throw new Error("Removing approval is not supported for GitHub in this app.");
     },
     async requestChanges(data) {
-        const path = `/repos/${data.prRef.workspace}/${data.prRef.repo}/pulls/${data.prRef.pullRequestId}/reviews`;
+        const path = `${githubRepoPath(data.prRef)}/pulls/${data.prRef.pullRequestId}/reviews`;
         await request(
             path,
             {
@@ -1250,12 +1733,12 @@ export const githubClient: GitHostClient = {
                     body: data.body ?? "Requesting changes",
                 }),
             },
-            { requireAuth: true },
+            { requireAuth: true, account: refAccountId(data.prRef) },
         );
         return { ok: true as const };
     },
     async declinePullRequest(data) {
-        const path = `/repos/${data.prRef.workspace}/${data.prRef.repo}/pulls/${data.prRef.pullRequestId}`;
+        const path = `${githubRepoPath(data.prRef)}/pulls/${data.prRef.pullRequestId}`;
         await request(
             path,
             {
@@ -1263,13 +1746,13 @@ export const githubClient: GitHostClient = {
                 headers: { "Content-Type": "application/json" },
                 body: JSON.stringify({ state: "closed" }),
             },
-            { requireAuth: true },
+            { requireAuth: true, account: refAccountId(data.prRef) },
         );
         return { ok: true as const };
     },
     async markPullRequestAsDraft(data) {
-        const pullPath = `/repos/${data.prRef.workspace}/${data.prRef.repo}/pulls/${data.prRef.pullRequestId}`;
-        const pullResponse = await request(pullPath, {}, { requireAuth: true });
+        const pullPath = `${githubRepoPath(data.prRef)}/pulls/${data.prRef.pullRequestId}`;
+        const pullResponse = await request(pullPath, {}, { requireAuth: true, account: refAccountId(data.prRef) });
         const pull = (await pullResponse.json()) as GithubPull;
         if (!pull.node_id) {
             throw new Error("GitHub pull request node id is unavailable");
@@ -1286,7 +1769,7 @@ export const githubClient: GitHostClient = {
         `;
 
         const response = await request(
-            "/graphql",
+            githubGraphqlUrl(data.prRef.instance),
             {
                 method: "POST",
                 headers: { "Content-Type": "application/json" },
@@ -1295,7 +1778,7 @@ export const githubClient: GitHostClient = {
                     variables: { pullRequestId: pull.node_id },
                 }),
             },
-            { requireAuth: true },
+            { requireAuth: true, account: refAccountId(data.prRef) },
         );
         const payload = (await response.json()) as {
             errors?: Array<{ message?: string }>;
@@ -1311,8 +1794,8 @@ export const githubClient: GitHostClient = {
         return { ok: true as const };
     },
     async markPullRequestReady(data) {
-        const pullPath = `/repos/${data.prRef.workspace}/${data.prRef.repo}/pulls/${data.prRef.pullRequestId}`;
-        const pullResponse = await request(pullPath, {}, { requireAuth: true });
+        const pullPath = `${githubRepoPath(data.prRef)}/pulls/${data.prRef.pullRequestId}`;
+        const pullResponse = await request(pullPath, {}, { requireAuth: true, account: refAccountId(data.prRef) });
         const pull = (await pullResponse.json()) as GithubPull;
         if (!pull.node_id) {
             throw new Error("GitHub pull request node id is unavailable");
@@ -1329,7 +1812,7 @@ export const githubClient: GitHostClient = {
         `;
 
         const response = await request(
-            "/graphql",
+            githubGraphqlUrl(data.prRef.instance),
             {
                 method: "POST",
                 headers: { "Content-Type": "application/json" },
@@ -1338,7 +1821,7 @@ export const githubClient: GitHostClient = {
                     variables: { pullRequestId: pull.node_id },
                 }),
             },
-            { requireAuth: true },
+            { requireAuth: true, account: refAccountId(data.prRef) },
         );
         const payload = (await response.json()) as {
             errors?: Array<{ message?: string }>;
@@ -1354,7 +1837,7 @@ export const githubClient: GitHostClient = {
         return { ok: true as const };
     },
     async mergePullRequest(data) {
-        const path = `/repos/${data.prRef.workspace}/${data.prRef.repo}/pulls/${data.prRef.pullRequestId}/merge`;
+        const path = `${githubRepoPath(data.prRef)}/pulls/${data.prRef.pullRequestId}/merge`;
         const mergeMethod = data.mergeStrategy?.trim() || "merge";
         await request(
             path,
@@ -1366,24 +1849,24 @@ export const githubClient: GitHostClient = {
                     merge_method: mergeMethod,
                 }),
             },
-            { requireAuth: true },
+            { requireAuth: true, account: refAccountId(data.prRef) },
         );
         return { ok: true as const };
     },
     async updatePullRequestDescription(data) {
         await request(
-            `/repos/${data.prRef.workspace}/${data.prRef.repo}/pulls/${data.prRef.pullRequestId}`,
+            `${githubRepoPath(data.prRef)}/pulls/${data.prRef.pullRequestId}`,
             {
                 method: "PATCH",
                 headers: { "Content-Type": "application/json" },
                 body: JSON.stringify({ body: data.description }),
             },
-            { requireAuth: true },
+            { requireAuth: true, account: refAccountId(data.prRef) },
         );
         return { ok: true as const };
     },
     async createPullRequestComment(data) {
-        const prBase = `/repos/${data.prRef.workspace}/${data.prRef.repo}/pulls/${data.prRef.pullRequestId}`;
+        const prBase = `${githubRepoPath(data.prRef)}/pulls/${data.prRef.pullRequestId}`;
 
         if (data.parentId) {
             await request(
@@ -1396,14 +1879,95 @@ export const githubClient: GitHostClient = {
                         in_reply_to: data.parentId,
                     }),
                 },
-                { requireAuth: true },
+                { requireAuth: true, account: refAccountId(data.prRef) },
             );
             return { ok: true as const };
         }
 
         const inline = mapGithubInlineComment(data.inline);
+        if (inline && data.pending) {
+            const pendingReview = await findGithubPendingReview(prBase, refAccountId(data.prRef));
+            if (!pendingReview) {
+                const prRes = await request(prBase, {}, { account: refAccountId(data.prRef) });
+                const pr = (await prRes.json()) as GithubPull;
+
+                // A review created without an event stays pending until it is submitted.
+                await request(
+                    `${prBase}/reviews`,
+                    {
+                        method: "POST",
+                        headers: { "Content-Type": "application/json" },
+                        body: JSON.stringify({
+                            commit_id: pr.head?.sha,
+                            comments: [{ body: data.content, ...inline }],
+                        }),
+                    },
+                    { requireAuth: true, account: refAccountId(data.prRef) },
+                );
+                return { ok: true as const };
+            }
+
+            const pendingReviewNodeId = pendingReview.node_id?.trim();
+            if (!pendingReviewNodeId) {
+                throw new Error("GitHub pending review node id is unavailable");
+            }
+            const threadResponse = await request(
+                githubGraphqlUrl(data.prRef.instance),
+                {
+                    method: "POST",
+                    headers: { "Content-Type": "application/json" },
+                    body: JSON.stringify({
+                        query: `
+                            mutation AddPendingReviewThread(
+                                $reviewId: ID!
+                                $path: String!
+                                $body: String!
+                                $line: Int!
+                                $side: DiffSide!
+                                $startLine: Int
+                                $startSide: DiffSide
+                            ) {
+                                addPullRequestReviewThread(
+                                    input: {
+                                        pullRequestReviewId: $reviewId
+                                        path: $path
+                                        body: $body
+                                        line: $line
+                                        side: $side
+                                        startLine: $startLine
+                                        startSide: $startSide
+                                    }
+                                ) {
+                                    thread {
+                                        id
+                                    }
+                                }
+                            }
+                        `,
+                        variables: {
+                            reviewId: pendingReviewNodeId,
+                            path: inline.path,
+                            body: data.content,
+                            line: inline.line,
+                            side: inline.side,
+                            startLine: inline.start_line ?? null,
+                            startSide: inline.start_side ?? null,
+                        },
+                    }),
+                },
+                { requireAuth: true, account: refAccountId(data.prRef) },
+            );
+            const threadPayload = (await threadResponse.json()) as {
+                errors?: Array<{ message?: string }>;
+            };
+            const threadError = threadPayload.errors?.[0]?.message;
+            if (threadError) {
+                throw new Error(threadError);
+            }
+            return { ok: true as const };
+        }
         if (inline) {
-            const prRes = await request(prBase);
+            const prRes = await request(prBase, {}, { account: refAccountId(data.prRef) });
             const pr = (await prRes.json()) as GithubPull;
 
             await request(
@@ -1417,25 +1981,25 @@ export const githubClient: GitHostClient = {
                         ...inline,
                     }),
                 },
-                { requireAuth: true },
+                { requireAuth: true, account: refAccountId(data.prRef) },
             );
             return { ok: true as const };
         }
 
         await request(
-            `/repos/${data.prRef.workspace}/${data.prRef.repo}/issues/${data.prRef.pullRequestId}/comments`,
+            `${githubRepoPath(data.prRef)}/issues/${data.prRef.pullRequestId}/comments`,
             {
                 method: "POST",
                 headers: { "Content-Type": "application/json" },
                 body: JSON.stringify({ body: data.content }),
             },
-            { requireAuth: true },
+            { requireAuth: true, account: refAccountId(data.prRef) },
         );
 
         return { ok: true as const };
     },
     async updatePullRequestComment(data) {
-        const repoBase = `/repos/${data.prRef.workspace}/${data.prRef.repo}`;
+        const repoBase = `${githubRepoPath(data.prRef)}`;
         const path = data.hasInlineContext ? `${repoBase}/pulls/comments/${data.commentId}` : `${repoBase}/issues/comments/${data.commentId}`;
         await request(
             path,
@@ -1444,13 +2008,13 @@ export const githubClient: GitHostClient = {
                 headers: { "Content-Type": "application/json" },
                 body: JSON.stringify({ body: data.content }),
             },
-            { requireAuth: true },
+            { requireAuth: true, account: refAccountId(data.prRef) },
         );
         return { ok: true as const };
     },
     async resolvePullRequestComment(data) {
-        const repoBase = `/repos/${data.prRef.workspace}/${data.prRef.repo}`;
-        const commentResponse = await request(`${repoBase}/pulls/comments/${data.commentId}`, {}, { requireAuth: true });
+        const repoBase = `${githubRepoPath(data.prRef)}`;
+        const commentResponse = await request(`${repoBase}/pulls/comments/${data.commentId}`, {}, { requireAuth: true, account: refAccountId(data.prRef) });
         const comment = (await commentResponse.json()) as GithubReviewComment;
         const commentNodeId = comment.node_id?.trim();
         if (!commentNodeId) {
@@ -1471,7 +2035,7 @@ export const githubClient: GitHostClient = {
 
         do {
             const threadLookupResponse = await request(
-                "/graphql",
+                githubGraphqlUrl(data.prRef.instance),
                 {
                     method: "POST",
                     headers: { "Content-Type": "application/json" },
@@ -1507,7 +2071,7 @@ export const githubClient: GitHostClient = {
                         },
                     }),
                 },
-                { requireAuth: true },
+                { requireAuth: true, account: refAccountId(data.prRef) },
             );
             const threadLookupPayload = (await threadLookupResponse.json()) as {
                 errors?: Array<{ message?: string }>;
@@ -1582,7 +2146,7 @@ export const githubClient: GitHostClient = {
                 }
             `;
         const mutationResponse = await request(
-            "/graphql",
+            githubGraphqlUrl(data.prRef.instance),
             {
                 method: "POST",
                 headers: { "Content-Type": "application/json" },
@@ -1591,7 +2155,7 @@ export const githubClient: GitHostClient = {
                     variables: { threadId },
                 }),
             },
-            { requireAuth: true },
+            { requireAuth: true, account: refAccountId(data.prRef) },
         );
         const mutationPayload = (await mutationResponse.json()) as {
             errors?: Array<{ message?: string }>;
@@ -1603,7 +2167,7 @@ export const githubClient: GitHostClient = {
         return { ok: true as const };
     },
     async deletePullRequestComment(data) {
-        const prBase = `/repos/${data.prRef.workspace}/${data.prRef.repo}`;
+        const prBase = `${githubRepoPath(data.prRef)}`;
         const path = data.hasInlineContext ? `${prBase}/pulls/comments/${data.commentId}` : `${prBase}/issues/comments/${data.commentId}`;
         await request(
             path,
@@ -1613,24 +2177,158 @@ export const githubClient: GitHostClient = {
                     "Content-Type": "application/json",
                 },
             },
-            { requireAuth: true },
+            { requireAuth: true, account: refAccountId(data.prRef) },
         );
         return { ok: true as const };
     },
-    async fetchPullRequestFileContents({ prRef, commit, path }) {
-        const encodedPath = encodeGitHubPath(path);
-        if (!encodedPath) return "";
-        try {
-            const res = await request(`/repos/${prRef.workspace}/${prRef.repo}/contents/${encodedPath}?ref=${commit}`, {
-                headers: { Accept: "application/vnd.github.raw" },
-            });
-            return await res.text();
-        } catch (error) {
-            if (error instanceof HostApiError && error.status === 404) {
-                return "";
-            }
-            throw error;
+    async setCommentReaction(data) {
+        const prBase = `${githubRepoPath(data.prRef)}`;
+        const reactionsPath = data.hasInlineContext
+            ? `${prBase}/pulls/comments/${data.commentId}/reactions`
+            : `${prBase}/issues/comments/${data.commentId}/reactions`;
+        if (data.reacted) {
+            await request(
+                reactionsPath,
+                {
+                    method: "POST",
+                    headers: { "Content-Type": "application/json" },
+                    body: JSON.stringify({ content: data.content }),
+                },
+                { requireAuth: true, account: refAccountId(data.prRef) },
+            );
+            return { ok: true as const };
+        }
+
+        // GitHub deletes reactions by id, so find the viewer's own reaction first.
+        const currentUserRes = await request(`${githubApiBase(data.prRef.instance)}/user`, {}, { requireAuth: true, account: refAccountId(data.prRef) });
+        const currentUser = (await currentUserRes.json()) as GithubUser;
+        const reactions = await listPaginated<GithubReaction>(`${reactionsPath}?content=${encodeURIComponent(data.content)}`, refAccountId(data.prRef));
+        const ownReaction = reactions.find((reaction) => reaction.user?.login === currentUser.login);
+        if (ownReaction) {
+            await request(`${reactionsPath}/${ownReaction.id}`, { method: "DELETE" }, { requireAuth: true, account: refAccountId(data.prRef) });
+        }
+        return { ok: true as const };
+    },
+    async submitPendingReview(data) {
+        const prBase = `${githubRepoPath(data.prRef)}/pulls/${data.prRef.pullRequestId}`;
+        const body = data.body?.trim();
+        const pendingReview = await findGithubPendingReview(prBase, refAccountId(data.prRef));
+        await request(
+            pendingReview ? `${prBase}/reviews/${pendingReview.id}/events` : `${prBase}/reviews`,
+            {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    event: mapGithubReviewEvent(data.event),
+                    ...(body ? { body } : {}),
+                }),
+            },
+            { requireAuth: true, account: refAccountId(data.prRef) },
+        );
+        return { ok: true as const };
+    },
+    async discardPendingReview(data) {
+        const prBase = `${githubRepoPath(data.prRef)}/pulls/${data.prRef.pullRequestId}`;
+        const pendingReview = await findGithubPendingReview(prBase, refAccountId(data.prRef));
+        if (!pendingReview) {
+            throw new Error("There is no pending review to discard");
         }
+        await request(`${prBase}/reviews/${pendingReview.id}`, { method: "DELETE" }, { requireAuth: true, account: refAccountId(data.prRef) });
+        return { ok: true as const };
+    },
+    async commitPullRequestFileChanges(data) {
+        const pullResponse = await request(
+            `${githubRepoPath(data.prRef)}/pulls/${data.prRef.pullRequestId}`,
+            {},
+            { requireAuth: true, account: refAccountId(data.prRef) },
+        );
+        const pull = (await pullResponse.json()) as GithubPull;
+        const headSha = pull.head?.sha;
+        const headRef = pull.head?.ref;
+        const [headOwner, headRepo] = (pull.head?.repo?.full_name ?? "").split("/");
+        if (!headSha || !headRef || !headOwner || !headRepo) {
+            throw new Error("The pull request source branch is no longer available");
+        }
+        if (headSha !== data.expectedHeadCommitHash) {
+            throw new Error("The source branch has new commits. Refresh the pull request and review the suggestions again.");
+        }
+
+        // Commits go to the head repository, which differs from the pull request's repository for forks.
+        const repoBase = githubRepoPath({ instance: data.prRef.instance, workspace: headOwner, repo: headRepo });
+        const json = { "Content-Type": "application/json" };
+        const headCommit = (await (
+            await request(`${repoBase}/git/commits/${headSha}`, {}, { requireAuth: true, account: refAccountId(data.prRef) })
+        ).json()) as {
+            tree?: { sha?: string };
+        };
+        // Only the directories holding the changed files are read, so large repositories never return a truncated tree.
+        const directories = Array.from(new Set(data.files.map((file) => file.path.split("/").slice(0, -1).join("/"))));
+        const modeByPath = new Map<string, string | undefined>();
+        await Promise.all(
+            directories.map(async (directory) => {
+                const treeish = directory ? `${headSha}:${encodeGitHubPath(directory)}` : headSha;
+                try {
+                    const directoryTree = (await (
+                        await request(`${repoBase}/git/trees/${treeish}`, {}, { requireAuth: true, account: refAccountId(data.prRef) })
+                    ).json()) as {
+                        tree?: Array<{ path?: string; mode?: string }>;
+                    };
+                    for (const entry of directoryTree.tree ?? []) {
+                        modeByPath.set(directory ? `${directory}/${entry.path}` : (entry.path ?? ""), entry.mode);
+                    }
+                } catch (error) {
+                    // A directory missing at the head only holds new files, which get the default mode.
+                    if (!(error instanceof HostApiError && error.status === 404)) throw error;
+                }
+            }),
+        );
+
+        const treeResponse = await request(
+            `${repoBase}/git/trees`,
+            {
+                method: "POST",
+                headers: json,
+                body: JSON.stringify({
+                    base_tree: headCommit.tree?.sha,
+                    tree: data.files.map((file) => ({
+                        path: file.path,
+                        mode: modeByPath.get(file.path) ?? "100644",
+                        type: "blob",
+                        content: file.contents,
+                    })),
+                }),
+            },
+            { requireAuth: true, account: refAccountId(data.prRef) },
+        );
+        const tree = (await treeResponse.json()) as { sha: string };
+        const commitResponse = await request(
+            `${repoBase}/git/commits`,
+            {
+                method: "POST",
+                headers: json,
+                body: JSON.stringify({ message: data.message, tree: tree.sha, parents: [headSha] }),
+            },
+            { requireAuth: true, account: refAccountId(data.prRef) },
+        );
+        const commit = (await commitResponse.json()) as { sha: string };
+        await request(
+            `${repoBase}/git/refs/heads/${headRef.split("/").map(encodeURIComponent).join("/")}`,
+            {
+                method: "PATCH",
+                headers: json,
+                body: JSON.stringify({ sha: commit.sha, force: false }),
+            },
+            { requireAuth: true, account: refAccountId(data.prRef) },
+        );
+        return { ok: true as const };
+    },
+    async fetchPullRequestFileContents(data) {
+        const res = await requestRawFile(data);
+        return res ? await res.text() : "";
+    },
+    async fetchPullRequestFileBytes(data) {
+        const res = await requestRawFile(data);
+        return res ? new Uint8Array(await res.arrayBuffer()) : new Uint8Array();
     },
     async fetchPullRequestCommitRangeDiff({ prRef, baseCommitHash, headCommitHash, selectedCommitHashes }): Promise<PullRequestCommitRangeDiff> {
         const normalizedBase = baseCommitHash.trim();
@@ -1639,12 +2337,17 @@ export const githubClient: GitHostClient = {
             throw new Error("Both base and head commit hashes are required.");
         }
         const compareSpec = `${encodeURIComponent(normalizedBase)}...${encodeURIComponent(normalizedHead)}`;
-        const comparePath = `/repos/${prRef.workspace}/${prRef.repo}/compare/${compareSpec}`;
+        const comparePath = `${githubRepoPath(prRef)}/compare/${compareSpec}`;
+        const account = refAccountId(prRef);
         const [compareRes, diffRes] = await Promise.all([
-            request(comparePath),
-            request(comparePath, {
-                headers: { Accept: "application/vnd.github.v3.diff" },
-            }),
+            request(comparePath, {}, { account }),
+            request(
+                comparePath,
+                {
+                    headers: { Accept: "application/vnd.github.v3.diff" },
+                },
+                { account },
+            ),
         ]);
         const compare = (await compareRes.json()) as GithubCompareResponse;
         const diffstat: DiffStatEntry[] = (compare.files ?? []).flatMap((file) => {
@@ -1678,20 +2381,25 @@ export const githubClient: GitHostClient = {
         }
 
         const commitCandidates = commits.filter((commit) => Boolean(commit.hash?.trim()));
+        const account = refAccountId(prRef);
         const resolved = await mapWithConcurrency<Commit, PullRequestFileHistoryEntry | null>(commitCandidates, 4, async (commit) => {
             const commitHash = commit.hash?.trim();
             if (!commitHash) return null;
 
-            const commitRes = await request(`/repos/${prRef.workspace}/${prRef.repo}/commits/${commitHash}`);
+            const commitRes = await request(`${githubRepoPath(prRef)}/commits/${commitHash}`, {}, { account });
             const commitDetails = (await commitRes.json()) as GithubCommitDetails;
             const matchingFile = (commitDetails.files ?? []).find((file) => matchGithubCommitFileForPath(file, normalizedPath));
             if (!matchingFile) return null;
 
             let patch = buildGithubSingleFilePatch(matchingFile);
             if (!patch) {
-                const diffRes = await request(`/repos/${prRef.workspace}/${prRef.repo}/commits/${commitHash}`, {
-                    headers: { Accept: "application/vnd.github.v3.diff" },
-                });
+                const diffRes = await request(
+                    `${githubRepoPath(prRef)}/commits/${commitHash}`,
+                    {
+                        headers: { Accept: "application/vnd.github.v3.diff" },
+                    },
+                    { account },
+                );
                 const diffText = await diffRes.text();
                 patch = extractSingleFilePatchFromUnifiedDiff(diffText, normalizedPath);
             }
@@ -0,0 +1,1285 @@
+import { clearGitlabAuthCredential, readGitlabAuthCredential, writeGitlabAuthCredential } from "@/lib/data/query-collections";
+import { gitlabAuthSchema, parseSchema } from "@/lib/git-host/schemas";
+import { parseFailureBody } from "@/lib/git-host/shared/http";
+import { refAccountId } from "@/lib/git-host/shared/instance";
+import { collectPaginated, REPO_PULL_REQUEST_LIST_LIMIT } from "@/lib/git-host/shared/pagination";
+import {
+    type AuthState,
+    type Comment,
+    type CommentPayload,
+    type Commit,
+    type DiffStatEntry,
+    type GitHostClient,
+    HostApiError,
+    type InboxPullRequest,
+    type LoginCredentials,
+    type PullRequestBuildStatus,
+    type PullRequestBundle,
+    type PullRequestCommitRangeDiff,
+    type PullRequestCriticalBundle,
+    type PullRequestDeferredBundle,
+    type PullRequestDetails,
+    type PullRequestFileHistory,
+    type PullRequestFileHistoryEntry,
+    type PullRequestHistoryEvent,
+    type PullRequestRef,
+    type PullRequestReviewer,
+    type PullRequestSummary,
+    type RepoRef,
+} from "@/lib/git-host/types";
+
+const DEFAULT_BASE_URL = "https://gitlab.com";
+const DRAFT_TITLE_PREFIX_PATTERN = /^\s*(?:\[draft\]|\(draft\)|draft:|draft\s+-|\[wip\]|wip:)\s*/i;
+
+interface GitlabAuth {
+    token: string;
+    baseUrl: string;
+}
+
+interface GitlabUser {
+    id?: number;
+    username?: string;
+    name?: string;
+    avatar_url?: string;
+}
+
+interface GitlabProject {
+    id: number;
+    name?: string;
+    path: string;
+    path_with_namespace: string;
+}
+
+interface GitlabDiffRefs {
+    base_sha?: string;
+    head_sha?: string;
+    start_sha?: string;
+}
+
+interface GitlabMergeRequest {
+    id: number;
+    iid: number;
+    title: string;
+    description?: string | null;
+    state: string;
+    draft?: boolean;
+    work_in_progress?: boolean;
+    web_url?: string;
+    author?: GitlabUser;
+    created_at?: string;
+    updated_at?: string;
+    closed_at?: string | null;
+    merged_at?: string | null;
+    source_branch?: string;
+    target_branch?: string;
+    source_project_id?: number;
+    target_project_id?: number;
+    sha?: string;
+    user_notes_count?: number;
+    reviewers?: GitlabUser[];
+    diff_refs?: GitlabDiffRefs | null;
+    project_id?: number;
+    references?: { full?: string };
+}
+
+interface GitlabDiff {
+    old_path?: string;
+    new_path?: string;
+    a_mode?: string;
+    b_mode?: string;
+    new_file?: boolean;
+    renamed_file?: boolean;
+    deleted_file?: boolean;
+    diff?: string;
+}
+
+interface GitlabCommit {
+    id: string;
+    title?: string;
+    message?: string;
+    authored_date?: string;
+    created_at?: string;
+    author_name?: string;
+}
+
+interface GitlabNotePosition {
+    base_sha?: string;
+    start_sha?: string;
+    head_sha?: string;
+    old_path?: string;
+    new_path?: string;
+    position_type?: string;
+    old_line?: number | null;
+    new_line?: number | null;
+}
+
+interface GitlabNote {
+    id: number;
+    type?: string | null;
+    body?: string;
+    author?: GitlabUser;
+    created_at?: string;
+    updated_at?: string;
+    system?: boolean;
+    resolvable?: boolean;
+    resolved?: boolean;
+    resolved_by?: GitlabUser | null;
+    position?: GitlabNotePosition | null;
+}
+
+interface GitlabDiscussion {
+    id: string;
+    individual_note?: boolean;
+    notes?: GitlabNote[];
+}
+
+interface GitlabApprovals {
+    approved_by?: Array<{ user?: GitlabUser }>;
+}
+
+interface GitlabEvent {
+    project_id?: number;
+    note?: { noteable_type?: string; noteable_iid?: number };
+}
+
+interface GitlabPipeline {
+    id: number;
+    sha?: string;
+    status?: string;
+    web_url?: string;
+    created_at?: string;
+    updated_at?: string;
+}
+
+interface GitlabJob {
+    id: number;
+    name?: string;
+    status?: string;
+    allow_failure?: boolean;
+    web_url?: string;
+    started_at?: string | null;
+    finished_at?: string | null;
+}
+
+interface GitlabCompareResponse {
+    commits?: Array<{ id?: string }>;
+    diffs?: GitlabDiff[];
+}
+
+function normalizeGitlabBaseUrl(value?: string) {
+    const trimmed = value?.trim();
+    if (!trimmed) return DEFAULT_BASE_URL;
+    const withScheme = /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+    try {
+        const url = new URL(withScheme);
+        const pathname = url.pathname.replace(/\/+$/, "").replace(/\/api\/v4$/, "");
+        return `${url.origin}${pathname}`;
+    } catch {
+        return null;
+    }
+}
+
+function parseAuth(rawValue: string | null): GitlabAuth | null {
+    if (!rawValue) return null;
+    try {
+        const parsed = parseSchema(gitlabAuthSchema, JSON.parse(rawValue));
+        const token = parsed?.token.trim();
+        const baseUrl = normalizeGitlabBaseUrl(parsed?.baseUrl);
+        if (!token || !baseUrl) return null;
+        return { token, baseUrl };
+    } catch {
+        return null;
+    }
+}
+
+function readAuth(account?: string) {
+    const stored = readGitlabAuthCredential(account);
+    if (!stored) return null;
+    return parseAuth(JSON.stringify(stored));
+}
+
+async function writeAuth(auth: GitlabAuth) {
+    await writeGitlabAuthCredential(auth);
+}
+
+function clearAuth() {
+    clearGitlabAuthCredential();
+}
+
+function authHeader(account?: string) {
+    const auth = readAuth(account);
+    if (!auth?.token) return null;
+    return `Bearer ${auth.token}`;
+}
+
+function apiBase(account?: string) {
+    return `${readAuth(account)?.baseUrl ?? DEFAULT_BASE_URL}/api/v4`;
+}
+
+async function parseFailure(response: Response) {
+    return parseFailureBody(response);
+}
+
+// Without an account, requests use the active account (sign-in and listing); merge request calls pass theirs.
+async function request(path: string, init: RequestInit = {}, options: { requireAuth?: boolean; account?: string } = {}) {
+    const authorization = authHeader(options.account);
+    if (options.requireAuth && !authorization) {
+        throw new Error("Not authenticated");
+    }
+
+    const headers: Record<string, string> = {
+        Accept: "application/json",
+        ...(init.headers as Record<string, string>),
+    };
+    if (authorization) {
+        headers.Authorization = authorization;
+    }
+
+    const response = await fetch(path.startsWith("http") ? path : `${apiBase(options.account)}${path}`, {
+        ...init,
+        cache: "no-store",
+        headers,
+    });
+
+    if (!response.ok) {
+        const body = await parseFailure(response);
+        throw new HostApiError(`GitLab API request failed (${response.status} ${response.statusText})`, {
+            status: response.status,
+            statusText: response.statusText,
+            body,
+        });
+    }
+
+    return response;
+}
+
+function jsonInit(method: string, body: unknown): RequestInit {
+    return {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+    };
+}
+
+async function listPaginated<T>(path: string, account?: string) {
+    return collectPaginated(async (page) => {
+        const connector = path.includes("?") ? "&" : "?";
+        const res = await request(`${path}${connector}per_page=100&page=${page}`, {}, { account });
+        return (await res.json()) as T[];
+    });
+}
+
+async function mapWithConcurrency<TInput, TOutput>(values: TInput[], concurrency: number, mapper: (value: TInput, index: number) => Promise<TOutput>) {
+    if (values.length === 0) return [] as TOutput[];
+    const safeConcurrency = Math.max(1, Math.min(concurrency, values.length));
+    const results = new Array<TOutput>(values.length);
+    let index = 0;
+
+    const runNext = async (): Promise<void> => {
+        const current = index;
+        index += 1;
+        if (current >= values.length) return;
+        results[current] = await mapper(values[current], current);
+        return runNext();
+    };
+
+    const workers = Array.from({ length: safeConcurrency }, () => runNext());
+
+    await Promise.all(workers);
+    return results;
+}
+
+function projectPath(prRef: { workspace: string; repo: string }) {
+    return `/projects/${encodeURIComponent(`${prRef.workspace}/${prRef.repo}`)}`;
+}
+
+type GitlabMergeRequestLocator = Pick<PullRequestRef, "account" | "workspace" | "repo" | "pullRequestId">;
+
+function mergeRequestPath(prRef: { workspace: string; repo: string; pullRequestId: string }) {
+    return `${projectPath(prRef)}/merge_requests/${encodeURIComponent(prRef.pullRequestId)}`;
+}
+
+function gitlabUserName(user?: GitlabUser | null) {
+    return user?.name?.trim() || user?.username;
+}
+
+function mapGitlabUser(user?: GitlabUser | null) {
+    return { displayName: gitlabUserName(user), avatarUrl: user?.avatar_url };
+}
+
+function mapGitlabMergeRequestState(state: string | undefined) {
+    const normalized = (state ?? "").toLowerCase();
+    if (normalized === "merged") return "MERGED";
+    if (normalized === "closed" || normalized === "locked") return "CLOSED";
+    return "OPEN";
+}
+
+function mapPullRequestSummary(mr: GitlabMergeRequest): PullRequestSummary {
+    const summary: PullRequestSummary = {
+        id: mr.iid,
+        title: mr.title,
+        state: mapGitlabMergeRequestState(mr.state),
+        links: { html: { href: mr.web_url } },
+        author: mapGitlabUser(mr.author),
+    };
+    if (mr.created_at) {
+        summary.createdAt = mr.created_at;
+    }
+    if (mr.updated_at) {
+        summary.updatedAt = mr.updated_at;
+    }
+    if (mr.source_branch) {
+        summary.source = { branch: { name: mr.source_branch }, ...(mr.sha ? { commit: { hash: mr.sha } } : {}) };
+    }
+    if (mr.target_branch) {
+        summary.destination = { branch: { name: mr.target_branch } };
+    }
+    return summary;
+}
+
+function mapPullRequestDetails(
+    mr: GitlabMergeRequest,
+    prRef: { workspace: string; repo: string },
+    currentUserReviewStatus: PullRequestDetails["currentUserReviewStatus"],
+    currentUser?: GitlabUser,
+): PullRequestDetails {
+    const fullName = `${prRef.workspace}/${prRef.repo}`;
+    const isFork = typeof mr.source_project_id === "number" && mr.source_project_id !== mr.target_project_id;
+    return {
+        id: mr.iid,
+        title: mr.title,
+        description: mr.description ?? undefined,
+        state: mapGitlabMergeRequestState(mr.state),
+        draft: Boolean(mr.draft ?? mr.work_in_progress),
+        commentCount: Number(mr.user_notes_count ?? 0),
+        createdAt: mr.created_at,
+        updatedAt: mr.updated_at,
+        closedAt: mr.closed_at ?? undefined,
+        mergedAt: mr.merged_at ?? undefined,
+        author: mapGitlabUser(mr.author),
+        source: {
+            branch: { name: mr.source_branch },
+            repository: { fullName: isFork ? undefined : fullName },
+            commit: { hash: mr.diff_refs?.head_sha ?? mr.sha },
+        },
+        destination: {
+            branch: { name: mr.target_branch },
+            repository: { fullName },
+            commit: { hash: mr.diff_refs?.base_sha },
+        },
+        participants: currentUser
+            ? [
+                  {
+                      approved: currentUserReviewStatus === "approved",
+                      user: mapGitlabUser(currentUser),
+                  },
+              ]
+            : [],
+        currentUserReviewStatus: currentUserReviewStatus ?? "none",
+        currentUser: currentUser ? mapGitlabUser(currentUser) : undefined,
+        links: { html: { href: mr.web_url } },
+    };
+}
+
+// Subgroup namespaces ("group/sub") stay whole in `workspace`: the router percent-encodes the
+// slashes into a single route segment and `projectPath` re-joins them for the API.
+function mapGitlabProjectToRepo(project: GitlabProject): RepoRef | null {
+    const separator = project.path_with_namespace.lastIndexOf("/");
+    if (separator <= 0) return null;
+    return {
+        host: "gitlab",
+        workspace: project.path_with_namespace.slice(0, separator),
+        repo: project.path_with_namespace.slice(separator + 1),
+        fullName: project.path_with_namespace,
+        displayName: project.name ?? project.path,
+    };
+}
+
+function mapFileStatus(diff: GitlabDiff): DiffStatEntry["status"] {
+    if (diff.new_file) return "added";
+    if (diff.deleted_file) return "removed";
+    if (diff.renamed_file) return "renamed";
+    return "modified";
+}
+
+function countDiffLines(diffText: string | undefined) {
+    let linesAdded = 0;
+    let linesRemoved = 0;
+    // File headers only appear before the first hunk; after that "---"/"+++" are content lines.
+    let inHunk = false;
+    for (const line of (diffText ?? "").split("\n")) {
+        if (line.startsWith("diff --git ")) {
+            inHunk = false;
+            continue;
+        }
+        if (line.startsWith("@@")) {
+            inHunk = true;
+            continue;
+        }
+        if (!inHunk) continue;
+        if (line.startsWith("+")) linesAdded += 1;
+        if (line.startsWith("-")) linesRemoved += 1;
+    }
+    return { linesAdded, linesRemoved };
+}
+
+function mapDiffStat(diffs: GitlabDiff[]): DiffStatEntry[] {
+    return diffs.flatMap((diff) => {
+        const newPath = diff.new_path ?? diff.old_path;
+        if (!newPath) return [];
+        return [
+            {
+                status: mapFileStatus(diff),
+                new: { path: newPath },
+                old: { path: diff.old_path ?? newPath },
+                ...countDiffLines(diff.diff),
+            },
+        ];
+    });
+}
+
+function buildGitlabFilePatch(diff: GitlabDiff) {
+    const newPath = diff.new_path ?? diff.old_path;
+    const oldPath = diff.old_path ?? newPath;
+    if (!newPath || !oldPath) return null;
+
+    const lines = [`diff --git a/${oldPath} b/${newPath}`];
+    if (diff.new_file) {
+        lines.push(`new file mode ${diff.b_mode ?? "100644"}`);
+    } else if (diff.deleted_file) {
+        lines.push(`deleted file mode ${diff.a_mode ?? "100644"}`);
+    } else if (diff.renamed_file) {
+        lines.push(`rename from ${oldPath}`, `rename to ${newPath}`);
+    }
+
+    const body = diff.diff ?? "";
+    if (body.trim()) {
+        lines.push(diff.new_file ? "--- /dev/null" : `--- a/${oldPath}`, diff.deleted_file ? "+++ /dev/null" : `+++ b/${newPath}`);
+        lines.push(body.endsWith("\n") ? body.slice(0, -1) : body);
+    }
+    return `${lines.join("\n")}\n`;
+}
+
+function buildUnifiedDiff(diffs: GitlabDiff[]) {
+    return diffs
+        .map(buildGitlabFilePatch)
+        .filter((patch): patch is string => Boolean(patch))
+        .join("");
+}
+
+function mapCommit(commit: GitlabCommit): Commit {
+    return {
+        hash: commit.id,
+        date: commit.authored_date ?? commit.created_at,
+        message: commit.message ?? commit.title,
+        summary: { raw: commit.message ?? commit.title },
+        author: {
+            user: { displayName: commit.author_name },
+            raw: commit.author_name,
+        },
+    };
+}
+
+/**
+ * GitLab anchors multi-line suggestions on their last line and encodes the
+ * range in the fence (`suggestion:-2+0`), so ranges are translated at the
+ * API boundary and the rest of the app keeps using plain suggestion blocks.
+ */
+function toGitlabSuggestionBody(content: string, inline?: { to?: number; startTo?: number }) {
+    if (!inline?.to || !inline.startTo || inline.startTo >= inline.to) return content;
+    return content.replace(/^(`{3,})suggestion(?=[ \t]*\r?\n)/, `$1suggestion:-${inline.to - inline.startTo}+0`);
+}
+
+function fromGitlabSuggestionBody(body: string | undefined, anchorLine: number | undefined) {
+    const match = body ? /^(`{3,})suggestion:-(\d+)\+0(?=[ \t]*\r?\n)/.exec(body) : null;
+    if (!body || !match) return { raw: body };
+    const linesAbove = Number(match[2]);
+    return {
+        raw: body.replace(match[0], `${match[1]}suggestion`),
+        startTo: anchorLine && linesAbove > 0 ? anchorLine - linesAbove : undefined,
+    };
+}
+
+function mapNoteInline(note: GitlabNote, currentHeadSha?: string, startTo?: number): Comment["inline"] {
+    const position = note.position;
+    if (!position || note.type !== "DiffNote") return undefined;
+    const to = position.new_line ?? undefined;
+    const from = to === undefined ? (position.old_line ?? undefined) : undefined;
+    const outdated = Boolean(currentHeadSha && position.head_sha && position.head_sha !== currentHeadSha);
+    return {
+        path: position.new_path ?? position.old_path,
+        to,
+        from,
+        ...(to !== undefined && startTo ? { startTo } : {}),
+        ...(outdated ? { outdated: true, commitHash: position.head_sha } : {}),
+    };
+}
+
+function mapDiscussionsToComments(discussions: GitlabDiscussion[], currentHeadSha?: string): Comment[] {
+    const comments: Comment[] = [];
+    for (const discussion of discussions) {
+        const notes = (discussion.notes ?? []).filter((note) => !note.system);
+        const root = notes[0];
+        if (!root) continue;
+        const rootResolved = Boolean(root.resolvable && root.resolved);
+        for (const [index, note] of notes.entries()) {
+            const isRoot = index === 0;
+            const content = fromGitlabSuggestionBody(note.body, note.position?.new_line ?? undefined);
+            comments.push({
+                id: note.id,
+                createdAt: note.created_at,
+                updatedAt: note.updated_at,
+                content: { raw: content.raw },
+                user: mapGitlabUser(note.author),
+                inline: mapNoteInline(isRoot ? note : root, currentHeadSha, content.startTo),
+                parent: isRoot ? undefined : { id: root.id },
+                resolution: isRoot && rootResolved ? { user: mapGitlabUser(root.resolved_by) } : undefined,
+                hostThreadId: isRoot && root.resolvable ? discussion.id : undefined,
+            });
+        }
+    }
+
+    comments.sort((a, b) => new Date(a.createdAt ?? 0).getTime() - new Date(b.createdAt ?? 0).getTime());
+    return comments;
+}
+
+function mapSystemNoteToHistory(note: GitlabNote): PullRequestHistoryEvent | null {
+    const body = (note.body ?? "").trim();
+    const base = {
+        id: `gitlab-note-${note.id}`,
+        createdAt: note.created_at,
+        actor: mapGitlabUser(note.author),
+    };
+    const mentions = body.match(/@[\w.-]+/g)?.join(", ");
+    if (/^approved this merge request/i.test(body)) return { ...base, type: "approved" };
+    if (/^unapproved this merge request/i.test(body)) return { ...base, type: "reviewDismissed" };
+    if (/^requested changes/i.test(body)) return { ...base, type: "changesRequested" };
+    if (/^requested review from/i.test(body)) return { ...base, type: "reviewRequested", details: mentions };
+    if (/^removed review request for/i.test(body)) return { ...base, type: "reviewerRemoved", details: mentions };
+    if (/^merged\b/i.test(body)) return { ...base, type: "merged" };
+    if (/^closed\b/i.test(body)) return { ...base, type: "closed" };
+    if (/^reopened\b/i.test(body)) return { ...base, type: "reopened" };
+    if (/^deleted (?:the )?source branch/i.test(body)) return { ...base, type: "deletedBranch" };
+    if (/^(?:added \d+ commits?|marked this merge request as|changed title|changed the description)/i.test(body)) {
+        return { ...base, type: "updated", details: body };
+    }
+    return null;
+}
+
+function mapHistory(mr: GitlabMergeRequest, discussions: GitlabDiscussion[]): PullRequestHistoryEvent[] {
+    const events: PullRequestHistoryEvent[] = [];
+    if (mr.created_at) {
+        events.push({
+            id: `gitlab-mr-opened-${mr.iid}`,
+            type: "opened",
+            createdAt: mr.created_at,
+            actor: mapGitlabUser(mr.author),
+        });
+    }
+
+    for (const discussion of discussions) {
+        for (const note of discussion.notes ?? []) {
+            if (note.system) {
+                const mapped = mapSystemNoteToHistory(note);
+                if (mapped) events.push(mapped);
+                continue;
+            }
+            if (note.id !== discussion.notes?.find((candidate) => !candidate.system)?.id) continue;
+            const line = note.position?.new_line ?? note.position?.old_line ?? undefined;
+            events.push({
+                id: `gitlab-note-${note.id}`,
+                type: "comment",
+                createdAt: note.created_at,
+                actor: mapGitlabUser(note.author),
+                content: note.body,
+                comment: {
+                    id: note.id,
+                    path: note.position?.new_path ?? note.position?.old_path,
+                    line,
+                    side: note.position?.new_line ? "additions" : line ? "deletions" : undefined,
+                    isInline: note.type === "DiffNote",
+                },
+            });
+        }
+    }
+
+    events.sort((a, b) => new Date(a.createdAt ?? 0).getTime() - new Date(b.createdAt ?? 0).getTime());
+    return events;
+}
+
+function mapReviewers(mr: GitlabMergeRequest, approvals: GitlabApprovals | null): PullRequestReviewer[] {
+    const byUser = new Map<string, PullRequestReviewer>();
+
+    for (const reviewer of mr.reviewers ?? []) {
+        const username = reviewer.username?.trim();
+        if (!username) continue;
+        byUser.set(username, {
+            id: `gitlab-reviewer-${username}`,
+            displayName: gitlabUserName(reviewer),
+            avatarUrl: reviewer.avatar_url,
+            status: "pending",
+            approved: false,
+            requested: true,
+        });
+    }
+
+    for (const approval of approvals?.approved_by ?? []) {
+        const username = approval.user?.username?.trim();
+        if (!username) continue;
+        byUser.set(username, {
+            id: `gitlab-reviewer-${username}`,
+            displayName: gitlabUserName(approval.user),
+            avatarUrl: approval.user?.avatar_url,
+            status: "approved",
+            approved: true,
+            requested: byUser.get(username)?.requested ?? false,
+        });
+    }
+
+    return Array.from(byUser.values()).sort((a, b) => (a.displayName ?? "").localeCompare(b.displayName ?? ""));
+}
+
+function resolveCurrentUserReviewStatus(approvals: GitlabApprovals | null, currentUsername?: string): PullRequestDetails["currentUserReviewStatus"] {
+    if (!currentUsername) return "none";
+    return approvals?.approved_by?.some((approval) => approval.user?.username === currentUsername) ? "approved" : "none";
+}
+
+function mapPipelineState(status: string | undefined, allowFailure = false): PullRequestBuildStatus["state"] {
+    const normalized = (status ?? "").toLowerCase();
+    if (normalized === "success") return "success";
+    if (normalized === "failed" || normalized === "canceled" || normalized === "canceling") return allowFailure ? "neutral" : "failed";
+    if (normalized === "skipped") return "skipped";
+    if (normalized === "manual") return "neutral";
+    if (
+        normalized === "created" ||
+        normalized === "waiting_for_resource" ||
+        normalized === "waiting_for_callback" ||
+        normalized === "preparing" ||
+        normalized === "pending" ||
+        normalized === "running" ||
+        normalized === "scheduled"
+    ) {
+        return "pending";
+    }
+    return "unknown";
+}
+
+function mapBuildStatuses(pipeline: GitlabPipeline | null, jobs: GitlabJob[]): PullRequestBuildStatus[] {
+    if (!pipeline) return [];
+    if (jobs.length === 0) {
+        return [
+            {
+                id: `gitlab-pipeline-${pipeline.id}`,
+                name: `Pipeline #${pipeline.id}`,
+                state: mapPipelineState(pipeline.status),
+                url: pipeline.web_url,
+                provider: "GitLab CI",
+                startedAt: pipeline.created_at,
+                completedAt: pipeline.updated_at,
+            },
+        ];
+    }
+    return jobs.map((job) => ({
+        id: `gitlab-job-${job.id}`,
+        name: job.name ?? "job",
+        state: mapPipelineState(job.status, job.allow_failure),
+        url: job.web_url,
+        provider: "GitLab CI",
+        startedAt: job.started_at ?? undefined,
+        completedAt: job.finished_at ?? undefined,
+    }));
+}
+
+/**
+ * Resolves the old/new line pair GitLab needs for a diff note. Unchanged
+ * lines must carry both numbers, including lines outside the returned hunks.
+ */
+function resolveGitlabLinePosition(diffText: string, side: "old" | "new", line: number) {
+    let oldLine = 0;
+    let newLine = 0;
+    let offset = 0;
+    let inHunk = false;
+    for (const text of diffText.split("\n")) {
+        const header = /^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/.exec(text);
+        if (header) {
+            const hunkOld = Number(header[1]);
+            const hunkNew = Number(header[2]);
+            if ((side === "new" ? hunkNew : hunkOld) > line) break;
+            oldLine = hunkOld;
+            newLine = hunkNew;
+            offset = hunkNew - hunkOld;
+            inHunk = true;
+            continue;
+        }
+        if (!inHunk || text === "" || text.startsWith("\\")) continue;
+        if (text.startsWith("-")) {
+            if (side === "old" && oldLine === line) return { old_line: line };
+            oldLine += 1;
+        } else if (text.startsWith("+")) {
+            if (side === "new" && newLine === line) return { new_line: line };
+            newLine += 1;
+        } else {
+            if ((side === "new" ? newLine : oldLine) === line) return { old_line: oldLine, new_line: newLine };
+            oldLine += 1;
+            newLine += 1;
+        }
+        offset = newLine - oldLine;
+    }
+    return side === "new" ? { old_line: line - offset, new_line: line } : { old_line: line, new_line: line + offset };
+}
+
+function buildGitlabDiffPosition(inline: CommentPayload["inline"], diffRefs: GitlabDiffRefs | null | undefined, diffs: GitlabDiff[]) {
+    if (!inline) return undefined;
+    const side = inline.to ? ("new" as const) : ("old" as const);
+    const line = inline.to ?? inline.from;
+    if (!line) return undefined;
+    if (!diffRefs?.base_sha || !diffRefs.head_sha || !diffRefs.start_sha) {
+        throw new Error("GitLab merge request diff references are unavailable");
+    }
+
+    const diff = diffs.find((entry) => entry.new_path === inline.path || entry.old_path === inline.path);
+    const lines = resolveGitlabLinePosition(diff?.diff ?? "", side, line);
+    return {
+        position_type: "text",
+        base_sha: diffRefs.base_sha,
+        start_sha: diffRefs.start_sha,
+        head_sha: diffRefs.head_sha,
+        old_path: diff?.old_path ?? inline.path,
+        new_path: diff?.new_path ?? inline.path,
+        ...lines,
+    };
+}
+
+// Export pure normalizers for focused mapping tests without network requests.
+const GITLAB_INBOX_LIMIT = 50;
+
+// List endpoints only expose the project through the full reference, e.g. "group/sub/project!12".
+function mapGitlabInboxMergeRequest(
+    mr: GitlabMergeRequest,
+    options: { currentUser: GitlabUser & { username: string }; approvedByCurrentUser: boolean; commented: boolean },
+): InboxPullRequest | null {
+    const reference = mr.references?.full ?? "";
+    const fullName = reference.slice(0, reference.lastIndexOf("!"));
+    const separator = fullName.lastIndexOf("/");
+    if (separator <= 0) return null;
+    const workspace = fullName.slice(0, separator);
+    const repo = fullName.slice(separator + 1);
+    const currentUsername = options.currentUser.username;
+
+    const reviewers = (mr.reviewers ?? []).flatMap((reviewer): PullRequestReviewer[] => {
+        if (!reviewer.username) return [];
+        const approved = reviewer.username === currentUsername && options.approvedByCurrentUser;
+        return [
+            {
+                id: reviewer.username,
+                displayName: gitlabUserName(reviewer),
+                avatarUrl: reviewer.avatar_url,
+                status: approved ? "approved" : "pending",
+                approved,
+                requested: !approved,
+            },
+        ];
+    });
+
+    return {
+        repo: { host: "gitlab", workspace, repo, fullName, displayName: repo },
+        pullRequest: {
+            ...mapPullRequestSummary(mr),
+            author: { id: mr.author?.username, ...mapGitlabUser(mr.author) },
+            reviewers,
+            participants: options.commented ? [{ id: currentUsername, ...mapGitlabUser(options.currentUser) }] : [],
+        },
+        currentUserId: currentUsername,
+    };
+}
+
+async function fetchGitlabCommentedMergeRequests(knownKeys: Set<string>) {
+    const events = await request("/events?action=commented&per_page=100")
+        .then((res) => res.json() as Promise<GitlabEvent[]>)
+        .catch(() => [] as GitlabEvent[]);
+    const keys = new Set<string>();
+    for (const event of events) {
+        if (event.note?.noteable_type !== "MergeRequest" || !event.project_id || !event.note.noteable_iid) continue;
+        keys.add(`${event.project_id}:${event.note.noteable_iid}`);
+    }
+    const commentedKeys = Array.from(keys);
+    const missingKeys = commentedKeys.filter((key) => !knownKeys.has(key)).slice(0, GITLAB_INBOX_LIMIT);
+    const mergeRequests = await mapWithConcurrency(missingKeys, 4, async (key) => {
+        const [projectId, iid] = key.split(":");
+        return request(`/projects/${projectId}/merge_requests/${iid}`)
+            .then((res) => res.json() as Promise<GitlabMergeRequest>)
+            .catch(() => null);
+    });
+    return {
+        commentedKeys: new Set(commentedKeys),
+        mergeRequests: mergeRequests.filter((mr): mr is GitlabMergeRequest => mr?.state === "opened"),
+    };
+}
+
+async function fetchGitlabInboxMergeRequests(): Promise<InboxPullRequest[]> {
+    const currentUser = (await (await request("/user", {}, { requireAuth: true })).json()) as GitlabUser;
+    const currentUsername = currentUser.username;
+    if (!currentUsername) {
+        throw new Error("GitLab did not return the signed-in user");
+    }
+
+    const query = `state=opened&scope=all&order_by=updated_at&sort=desc&per_page=${GITLAB_INBOX_LIMIT}`;
+    const [reviewing, authored] = await Promise.all([
+        request(`/merge_requests?${query}&reviewer_username=${encodeURIComponent(currentUsername)}`).then((res) => res.json() as Promise<GitlabMergeRequest[]>),
+        request(`/merge_requests?${query}&author_username=${encodeURIComponent(currentUsername)}`).then((res) => res.json() as Promise<GitlabMergeRequest[]>),
+    ]);
+    const mergeRequestKey = (mr: GitlabMergeRequest) => `${mr.project_id}:${mr.iid}`;
+    const byKey = new Map<string, GitlabMergeRequest>();
+    for (const mr of [...reviewing, ...authored]) {
+        byKey.set(mergeRequestKey(mr), mr);
+    }
+    const commented = await fetchGitlabCommentedMergeRequests(new Set(byKey.keys()));
+    for (const mr of commented.mergeRequests) {
+        byKey.set(mergeRequestKey(mr), mr);
+    }
+
+    // Approval state is not part of the list payload, so only merge requests awaiting the viewer's review are checked.
+    const approvedKeys = new Set<string>();
+    await mapWithConcurrency(reviewing, 4, async (mr) => {
+        const approvals = await request(`/projects/${mr.project_id}/merge_requests/${mr.iid}/approvals`)
+            .then((res) => res.json() as Promise<GitlabApprovals>)
+            .catch(() => null);
+        if (approvals?.approved_by?.some((approval) => approval.user?.username === currentUsername)) {
+            approvedKeys.add(mergeRequestKey(mr));
+        }
+    });
+
+    return Array.from(byKey.entries()).flatMap(([key, mr]) => {
+        const mapped = mapGitlabInboxMergeRequest(mr, {
+            currentUser: { ...currentUser, username: currentUsername },
+            approvedByCurrentUser: approvedKeys.has(key),
+            commented: commented.commentedKeys.has(key),
+        });
+        return mapped ? [mapped] : [];
+    });
+}
+
+export const gitlabNormalization = {
+    normalizeGitlabBaseUrl,
+    mapPullRequestSummary,
+    mapPullRequestDetails,
+    mapGitlabInboxMergeRequest,
+    mapGitlabProjectToRepo,
+    mapDiffStat,
+    buildUnifiedDiff,
+    mapDiscussionsToComments,
+    mapSystemNoteToHistory,
+    mapReviewers,
+    mapBuildStatuses,
+    resolveGitlabLinePosition,
+    buildGitlabDiffPosition,
+    toGitlabSuggestionBody,
+};
+
+async function fetchMergeRequestDiffs(prRef: GitlabMergeRequestLocator) {
+    const basePath = mergeRequestPath(prRef);
+    const account = refAccountId(prRef);
+    try {
+        return await listPaginated<GitlabDiff>(`${basePath}/diffs`, account);
+    } catch (error) {
+        // The paginated diffs endpoint only exists on GitLab 15.7 and newer.
+        if (!(error instanceof HostApiError) || error.status !== 404) throw error;
+        const res = await request(`${basePath}/changes?access_raw_diffs=true`, {}, { account });
+        const payload = (await res.json()) as { changes?: GitlabDiff[] };
+        return payload.changes ?? [];
+    }
+}
+
+async function fetchGitlabMergeRequestCritical(prRef: GitlabMergeRequestLocator): Promise<PullRequestCriticalBundle> {
+    const basePath = mergeRequestPath(prRef);
+    const account = refAccountId(prRef);
+    const [mrRes, diffs, commits] = await Promise.all([
+        request(basePath, {}, { account }),
+        fetchMergeRequestDiffs(prRef),
+        listPaginated<GitlabCommit>(`${basePath}/commits`, account),
+    ]);
+    const mr = (await mrRes.json()) as GitlabMergeRequest;
+    return {
+        prRef: { ...prRef, host: "gitlab" },
+        pr: mapPullRequestDetails(mr, prRef, "none"),
+        diff: buildUnifiedDiff(diffs),
+        diffstat: mapDiffStat(diffs),
+        commits: commits.map(mapCommit),
+    };
+}
+
+async function fetchGitlabMergeRequestComments(prRef: GitlabMergeRequestLocator) {
+    const basePath = mergeRequestPath(prRef);
+    const account = refAccountId(prRef);
+    const [mrRes, discussions] = await Promise.all([request(basePath, {}, { account }), listPaginated<GitlabDiscussion>(`${basePath}/discussions`, account)]);
+    const mr = (await mrRes.json()) as GitlabMergeRequest;
+    return mapDiscussionsToComments(discussions, mr.diff_refs?.head_sha ?? mr.sha);
+}
+
+async function fetchLatestHeadPipeline(prRef: GitlabMergeRequestLocator, headSha?: string) {
+    if (!headSha) return { pipeline: null, jobs: [] as GitlabJob[] };
+    const account = refAccountId(prRef);
+    const pipelines = await request(`${mergeRequestPath(prRef)}/pipelines`, {}, { account })
+        .then((res) => res.json() as Promise<GitlabPipeline[]>)
+        .catch(() => [] as GitlabPipeline[]);
+    const pipeline = pipelines.find((candidate) => candidate.sha === headSha) ?? null;
+    if (!pipeline) return { pipeline: null, jobs: [] as GitlabJob[] };
+    const jobs = await listPaginated<GitlabJob>(`${projectPath(prRef)}/pipelines/${pipeline.id}/jobs`, account).catch(() => [] as GitlabJob[]);
+    return { pipeline, jobs };
+}
+
+async function fetchGitlabMergeRequestDeferred(prRef: GitlabMergeRequestLocator): Promise<PullRequestDeferredBundle> {
+    const basePath = mergeRequestPath(prRef);
+    const account = refAccountId(prRef);
+    const isAuthenticated = Boolean(authHeader(account));
+    const [mrRes, discussions, approvals, currentUser] = await Promise.all([
+        request(basePath, {}, { account }),
+        listPaginated<GitlabDiscussion>(`${basePath}/discussions`, account),
+        request(`${basePath}/approvals`, {}, { account })
+            .then((res) => res.json() as Promise<GitlabApprovals>)
+            .catch(() => null),
+        isAuthenticated ? request("/user", {}, { account }).then((res) => res.json() as Promise<GitlabUser>) : Promise.resolve(undefined),
+    ]);
+    const mr = (await mrRes.json()) as GitlabMergeRequest;
+    const headSha = mr.diff_refs?.head_sha ?? mr.sha;
+    const { pipeline, jobs } = await fetchLatestHeadPipeline(prRef, headSha);
+
+    return {
+        prRef: { ...prRef, host: "gitlab" },
+        comments: mapDiscussionsToComments(discussions, headSha),
+        history: mapHistory(mr, discussions),
+        reviewers: mapReviewers(mr, approvals),
+        buildStatuses: mapBuildStatuses(pipeline, jobs),
+        prPatch: {
+            currentUserReviewStatus: resolveCurrentUserReviewStatus(approvals, currentUser?.username),
+            currentUser: currentUser ? mapGitlabUser(currentUser) : undefined,
+        },
+    };
+}
+
+async function findDiscussionIdForNote(prRef: PullRequestRef, noteId: number) {
+    const discussions = await listPaginated<GitlabDiscussion>(`${mergeRequestPath(prRef)}/discussions`, refAccountId(prRef));
+    const discussion = discussions.find((candidate) => candidate.notes?.some((note) => note.id === noteId));
+    if (!discussion?.id) {
+        throw new Error("GitLab discussion is unavailable for this comment");
+    }
+    return discussion.id;
+}
+
+async function updateMergeRequestTitle(prRef: PullRequestRef, nextTitle: (title: string) => string) {
+    const basePath = mergeRequestPath(prRef);
+    const account = refAccountId(prRef);
+    const mrRes = await request(basePath, {}, { requireAuth: true, account });
+    const mr = (await mrRes.json()) as GitlabMergeRequest;
+    const title = nextTitle(mr.title.replace(DRAFT_TITLE_PREFIX_PATTERN, ""));
+    if (title === mr.title) return;
+    await request(basePath, jsonInit("PUT", { title }), { requireAuth: true, account });
+}
+
+/** Resolves to null when the file does not exist at that commit. */
+async function requestRawFile({ prRef, commit, path }: { prRef: PullRequestRef; commit: string; path: string }) {
+    const normalizedPath = path.replace(/^\/+/, "");
+    if (!normalizedPath) return null;
+    try {
+        return await request(
+            `${projectPath(prRef)}/repository/files/${encodeURIComponent(normalizedPath)}/raw?ref=${encodeURIComponent(commit)}`,
+            {
+                headers: { Accept: "*/*" },
+            },
+            { account: refAccountId(prRef) },
+        );
+    } catch (error) {
+        if (error instanceof HostApiError && error.status === 404) {
+            return null;
+        }
+        throw error;
+    }
+}
+
+export const gitlabClient: GitHostClient = {
+    host: "gitlab",
+    capabilities: {
+        publicReadSupported: true,
+        supportsThreadResolution: true,
+        requestChangesAvailable: false,
+        removeApprovalAvailable: true,
+        mergeStrategies: ["merge", "squash"],
+        declineAvailable: true,
+        markDraftAvailable: true,
+        pendingReviewAvailable: false,
+        commitSuggestionsAvailable: false,
+        crossSideLineRangesAvailable: false,
+        reactionContents: [],
+    },
+    async getAuthState(): Promise<AuthState> {
+        const auth = readAuth();
+        return { authenticated: Boolean(auth?.token) };
+    },
+    async login(credentials: LoginCredentials): Promise<AuthState> {
+        if (credentials.host !== "gitlab") {
+            throw new Error("GitLab credentials expected");
+        }
+        const token = credentials.token.trim();
+        if (!token) throw new Error("Token is required");
+        const baseUrl = normalizeGitlabBaseUrl(credentials.baseUrl);
+        if (!baseUrl) throw new Error("GitLab URL is invalid");
+
+        const response = await fetch(`${baseUrl}/api/v4/user`, {
+            headers: {
+                Authorization: `Bearer ${token}`,
+                Accept: "application/json",
+            },
+        });
+
+        if (!response.ok) {
+            const details = await parseFailure(response);
+            const status = `${response.status} ${response.statusText}`;
+            throw new Error(details ? `GitLab authentication failed (${status}): ${details}` : `GitLab authentication failed (${status})`);
+        }
+
+        await writeAuth({ token, baseUrl });
+        return { authenticated: true };
+    },
+    async logout(): Promise<AuthState> {
+        clearAuth();
+        return { authenticated: false };
+    },
+    async listRepositories() {
+        if (!authHeader()) {
+            throw new Error("GitLab token required to list repositories. You can still open public merge request URLs directly.");
+        }
+        const projects = await listPaginated<GitlabProject>("/projects?membership=true&simple=true&archived=false&order_by=last_activity_at");
+        return projects.flatMap((project) => {
+            const repo = mapGitlabProjectToRepo(project);
+            return repo ? [repo] : [];
+        });
+    },
+    async listInboxPullRequests() {
+        if (!authHeader()) return [];
+        return fetchGitlabInboxMergeRequests();
+    },
+    async listPullRequestsForRepos(data) {
+        if (!data.repos.length) return [];
+        return mapWithConcurrency(data.repos, 4, async (repo) => {
+            const mergeRequests = await collectPaginated(
+                async (page) => {
+                    const path = `${projectPath(repo)}/merge_requests?state=all&order_by=updated_at&sort=desc`;
+                    const res = await request(`${path}&per_page=100&page=${page}`, {}, { account: refAccountId(repo) });
+                    return (await res.json()) as GitlabMergeRequest[];
+                },
+                100,
+                REPO_PULL_REQUEST_LIST_LIMIT,
+            );
+            return {
+                repo,
+                pullRequests: mergeRequests.map(mapPullRequestSummary),
+            };
+        });
+    },
+    async fetchPullRequestCriticalByRef(data): Promise<PullRequestCriticalBundle> {
+        return fetchGitlabMergeRequestCritical(data.prRef);
+    },
+    async fetchPullRequestDeferredByRef(data): Promise<PullRequestDeferredBundle> {
+        return fetchGitlabMergeRequestDeferred(data.prRef);
+    },
+    async fetchPullRequestCommentsByRef(data): Promise<Comment[]> {
+        return fetchGitlabMergeRequestComments(data.prRef);
+    },
+    async fetchPullRequestBundleByRef(data): Promise<PullRequestBundle> {
+        const [critical, deferred] = await Promise.all([fetchGitlabMergeRequestCritical(data.prRef), fetchGitlabMergeRequestDeferred(data.prRef)]);
+        const mergedPullRequest: PullRequestDetails = {
+            ...critical.pr,
+            ...(deferred.prPatch ?? {}),
+        };
+        return {
+            ...critical,
+            pr: mergedPullRequest,
+            comments: deferred.comments,
+            history: deferred.history,
+            reviewers: deferred.reviewers,
+            buildStatuses: deferred.buildStatuses,
+        };
+    },
+    async approvePullRequest(data) {
+        await request(`${mergeRequestPath(data.prRef)}/approve`, { method: "POST" }, { requireAuth: true, account: refAccountId(data.prRef) });
+        return { ok: true as const };
+    },
+    async removePullRequestApproval(data) {
+        await request(`${mergeRequestPath(data.prRef)}/unapprove`, { method: "POST" }, { requireAuth: true, account: refAccountId(data.prRef) });
+        return { ok: true as const };
+    },
+    async requestChanges() {
+        throw new Error("Requesting changes is not supported for GitLab in this app.");
+    },
+    async declinePullRequest(data) {
+        await request(mergeRequestPath(data.prRef), jsonInit("PUT", { state_event: "close" }), { requireAuth: true, account: refAccountId(data.prRef) });
+        return { ok: true as const };
+    },
+    async markPullRequestAsDraft(data) {
+        await updateMergeRequestTitle(data.prRef, (title) => `Draft: ${title}`);
+        return { ok: true as const };
+    },
+    async markPullRequestReady(data) {
+        await updateMergeRequestTitle(data.prRef, (title) => title);
+        return { ok: true as const };
+    },
+    async mergePullRequest(data) {
+        const squash = data.mergeStrategy?.trim() === "squash";
+        const message = data.message?.trim() || undefined;
+        await request(
+            `${mergeRequestPath(data.prRef)}/merge`,
+            jsonInit("PUT", {
+                squash,
+                ...(message ? { [squash ? "squash_commit_message" : "merge_commit_message"]: message } : {}),
+                ...(typeof data.closeSourceBranch === "boolean" ? { should_remove_source_branch: data.closeSourceBranch } : {}),
+            }),
+            { requireAuth: true, account: refAccountId(data.prRef) },
+        );
+        return { ok: true as const };
+    },
+    async updatePullRequestDescription(data) {
+        await request(
+            mergeRequestPath(data.prRef),
+            jsonInit("PUT", {
+                description: data.description,
+                ...(data.title ? { title: data.title } : {}),
+            }),
+            { requireAuth: true, account: refAccountId(data.prRef) },
+        );
+        return { ok: true as const };
+    },
+    async createPullRequestComment(data) {
+        const basePath = mergeRequestPath(data.prRef);
+
+        if (data.parentId) {
+            const discussionId = await findDiscussionIdForNote(data.prRef, data.parentId);
+            await request(`${basePath}/discussions/${encodeURIComponent(discussionId)}/notes`, jsonInit("POST", { body: data.content }), {
+                requireAuth: true,
+                account: refAccountId(data.prRef),
+            });
+            return { ok: true as const };
+        }
+
+        if (data.inline) {
+            const [mrRes, diffs] = await Promise.all([request(basePath, {}, { account: refAccountId(data.prRef) }), fetchMergeRequestDiffs(data.prRef)]);
+            const mr = (await mrRes.json()) as GitlabMergeRequest;
+            const position = buildGitlabDiffPosition(data.inline, mr.diff_refs, diffs);
+            await request(
+                `${basePath}/discussions`,
+                jsonInit("POST", {
+                    body: toGitlabSuggestionBody(data.content, data.inline),
+                    ...(position ? { position } : {}),
+                }),
+                { requireAuth: true, account: refAccountId(data.prRef) },
+            );
+            return { ok: true as const };
+        }
+
+        await request(`${basePath}/notes`, jsonInit("POST", { body: data.content }), { requireAuth: true, account: refAccountId(data.prRef) });
+        return { ok: true as const };
+    },
+    async updatePullRequestComment(data) {
+        await request(`${mergeRequestPath(data.prRef)}/notes/${data.commentId}`, jsonInit("PUT", { body: data.content }), {
+            requireAuth: true,
+            account: refAccountId(data.prRef),
+        });
+        return { ok: true as const };
+    },
+    async resolvePullRequestComment(data) {
+        const discussionId = await findDiscussionIdForNote(data.prRef, data.commentId);
+        await request(`${mergeRequestPath(data.prRef)}/discussions/${encodeURIComponent(discussionId)}`, jsonInit("PUT", { resolved: data.resolve }), {
+            requireAuth: true,
+            account: refAccountId(data.prRef),
+        });
+        return { ok: true as const };
+    },
+    async deletePullRequestComment(data) {
+        await request(
+            `${mergeRequestPath(data.prRef)}/notes/${data.commentId}`,
+            { method: "DELETE" },
+            { requireAuth: true, account: refAccountId(data.prRef) },
+        );
+        return { ok: true as const };
+    },
+    async setCommentReaction() {
+        throw new Error("Comment reactions are not supported for GitLab in this app.");
+    },
+    async submitPendingReview() {
+        throw new Error("Pending reviews are not supported for GitLab in this app.");
+    },
+    async discardPendingReview() {
+        throw new Error("Pending reviews are not supported for GitLab in this app.");
+    },
+    async commitPullRequestFileChanges() {
+        throw new Error("Committing suggestions is not supported for GitLab in this app.");
+    },
+    async fetchPullRequestFileContents(data) {
+        const res = await requestRawFile(data);
+        return res ? await res.text() : "";
+    },
+    async fetchPullRequestFileBytes(data) {
+        const res = await requestRawFile(data);
+        return res ? new Uint8Array(await res.arrayBuffer()) : new Uint8Array();
+    },
+    async fetchPullRequestCommitRangeDiff({ prRef, baseCommitHash, headCommitHash, selectedCommitHashes }): Promise<PullRequestCommitRangeDiff> {
+        const normalizedBase = baseCommitHash.trim();
+        const normalizedHead = headCommitHash.trim();
+        if (!normalizedBase || !normalizedHead) {
+            throw new Error("Both base and head commit hashes are required.");
+        }
+        const compareRes = await request(
+            `${projectPath(prRef)}/repository/compare?from=${encodeURIComponent(normalizedBase)}&to=${encodeURIComponent(normalizedHead)}`,
+            {},
+            { account: refAccountId(prRef) },
+        );
+        const compare = (await compareRes.json()) as GitlabCompareResponse;
+        const diffs = compare.diffs ?? [];
+        const compareCommitHashes = (compare.commits ?? []).map((commit) => commit.id?.trim()).filter((hash): hash is string => Boolean(hash));
+
+        return {
+            prRef,
+            baseCommitHash: normalizedBase,
+            headCommitHash: normalizedHead,
+            selectedCommitHashes: compareCommitHashes.length > 0 ? compareCommitHashes : selectedCommitHashes,
+            diff: buildUnifiedDiff(diffs),
+            diffstat: mapDiffStat(diffs),
+        };
+    },
+    async fetchPullRequestFileHistory({ prRef, path, commits, limit = 20 }): Promise<PullRequestFileHistory> {
+        const normalizedPath = path.trim();
+        if (!normalizedPath || commits.length === 0) {
+            return { path: normalizedPath, entries: [], fetchedAt: Date.now() };
+        }
+
+        const commitCandidates = commits.filter((commit) => Boolean(commit.hash?.trim()));
+        const account = refAccountId(prRef);
+        const resolved = await mapWithConcurrency<Commit, PullRequestFileHistoryEntry | null>(commitCandidates, 4, async (commit) => {
+            const commitHash = commit.hash?.trim();
+            if (!commitHash) return null;
+
+            const diffs = await listPaginated<GitlabDiff>(`${projectPath(prRef)}/repository/commits/${encodeURIComponent(commitHash)}/diff`, account);
+            const matchingDiff = diffs.find((diff) => diff.new_path === normalizedPath || diff.old_path === normalizedPath);
+            if (!matchingDiff) return null;
+            const patch = buildGitlabFilePatch(matchingDiff);
+            if (!patch) return null;
+
+            return {
+                versionId: `${normalizedPath}:${commitHash}`,
+                commitHash,
+                commitDate: commit.date,
+                commitMessage: commit.message,
+                authorDisplayName: commit.author?.user?.displayName ?? commit.author?.raw,
+                filePathAtCommit: matchingDiff.new_path?.trim() || matchingDiff.old_path?.trim() || normalizedPath,
+                status: mapFileStatus(matchingDiff),
+                patch,
+            };
+        });
+        const entries = resolved.filter((entry): entry is PullRequestFileHistoryEntry => entry !== null).slice(0, limit);
+
+        return {
+            path: normalizedPath,
+            entries,
+            fetchedAt: Date.now(),
+        };
+    },
+};
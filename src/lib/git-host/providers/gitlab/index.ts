@@ -0,0 +1 @@
+export { gitlabClient, gitlabNormalization } from "./client";
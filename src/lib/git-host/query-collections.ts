@@ -18,6 +18,7 @@ export {
     savePullRequestFileContextRecord,
 } from "@/lib/git-host/collections/pull-requests";
 export {
+    getInboxPullRequestCollection,
     getRepoPullRequestCollection,
     getRepositoryCollection,
 } from "@/lib/git-host/collections/repositories";
@@ -0,0 +1,25 @@
+import type { CommentReaction, CommentReactionContent } from "@/lib/git-host/types";
+
+export const COMMENT_REACTION_EMOJI: Record<CommentReactionContent, string> = {
+    "+1": "👍",
+    "-1": "👎",
+    laugh: "😄",
+    hooray: "🎉",
+    confused: "😕",
+    heart: "❤️",
+    rocket: "🚀",
+    eyes: "👀",
+};
+
+export function applyCommentReaction(reactions: readonly CommentReaction[] | undefined, content: CommentReactionContent, reacted: boolean) {
+    const current = reactions ?? [];
+    const existing = current.find((reaction) => reaction.content === content);
+    if (Boolean(existing?.viewerReacted) === reacted) return [...current];
+    if (!existing) return [...current, { content, count: 1, viewerReacted: true }];
+
+    const count = existing.count + (reacted ? 1 : -1);
+    return current.flatMap((reaction) => {
+        if (reaction !== existing) return [reaction];
+        return count > 0 ? [{ content, count, ...(reacted ? { viewerReacted: true } : {}) }] : [];
+    });
+}
@@ -1,16 +1,30 @@
 import { bitbucketClient } from "@/lib/git-host/providers/bitbucket";
+import { bitbucketDataCenterClient } from "@/lib/git-host/providers/bitbucket-datacenter";
 import { githubClient } from "@/lib/git-host/providers/github";
+import { gitlabClient } from "@/lib/git-host/providers/gitlab";
 import type { GitHost, GitHostClient, HostCapabilities } from "@/lib/git-host/types";
 
 const clients: Record<GitHost, GitHostClient> = {
     bitbucket: bitbucketClient,
     github: githubClient,
+    gitlab: gitlabClient,
 };
 
-export function getHostClient(host: GitHost): GitHostClient {
+// Hosts whose self-hosted edition speaks a different API get a separate client; the others handle instances themselves.
+const selfHostedClients: Partial<Record<GitHost, GitHostClient>> = {
+    bitbucket: bitbucketDataCenterClient,
+};
+
+export function getHostClient(host: GitHost, instance?: string): GitHostClient {
+    if (instance) return selfHostedClients[host] ?? clients[host];
     return clients[host];
 }
 
-export function getHostCapabilities(host: GitHost): HostCapabilities {
-    return clients[host].capabilities;
+export function getHostClients(host: GitHost): GitHostClient[] {
+    const selfHosted = selfHostedClients[host];
+    return selfHosted ? [clients[host], selfHosted] : [clients[host]];
+}
+
+export function getHostCapabilities(host: GitHost, instance?: string): HostCapabilities {
+    return getHostClient(host, instance).capabilities;
 }
@@ -1,6 +1,6 @@
-import type { HostCapabilities } from "@/lib/git-host/types";
+import type { CommentReactionContent, HostCapabilities } from "@/lib/git-host/types";
 
-type DisabledKey = "approve" | "requestChanges" | "merge" | "decline" | "markDraft" | "commentInline" | "resolveThread";
+type DisabledKey = "approve" | "requestChanges" | "merge" | "decline" | "markDraft" | "commentInline" | "resolveThread" | "commitSuggestions" | "react";
 
 interface ReviewActionPolicy {
     canApprove: boolean;
@@ -10,6 +10,11 @@ interface ReviewActionPolicy {
     canMarkDraft: boolean;
     canCommentInline: boolean;
     canResolveThread: boolean;
+    canBatchReview: boolean;
+    canLocalBatchReview: boolean;
+    canCommitSuggestions: boolean;
+    canReact: boolean;
+    reactionContents: CommentReactionContent[];
     disabledReason: Partial<Record<DisabledKey, string>>;
 }
 
@@ -33,6 +38,8 @@ export function buildReviewActionPolicy(data: {
         reasons.markDraft = needsAuthReason;
         reasons.commentInline = needsAuthReason;
         reasons.resolveThread = needsAuthReason;
+        reasons.commitSuggestions = needsAuthReason;
+        reasons.react = needsAuthReason;
     }
 
     const canApprove = canWrite && isOpen && (!data.isApprovedByCurrentUser || data.capabilities.removeApprovalAvailable);
@@ -72,6 +79,21 @@ export function buildReviewActionPolicy(data: {
         reasons.resolveThread = "Pull request is not open";
     }
 
+    const canBatchReview = canWrite && data.capabilities.pendingReviewAvailable && isOpen;
+    // Hosts without a pending-review API keep the batch in local storage until it is published.
+    const canLocalBatchReview = canWrite && !data.capabilities.pendingReviewAvailable && isOpen;
+
+    const canCommitSuggestions = canWrite && data.capabilities.commitSuggestionsAvailable && isOpen;
+    if (!data.capabilities.commitSuggestionsAvailable) {
+        reasons.commitSuggestions = "Applying suggestions is not supported for this host";
+    } else if (!isOpen) {
+        reasons.commitSuggestions = "Pull request is not open";
+    }
+
+    const reactionContents = data.capabilities.reactionContents;
+    const canReact = canWrite && reactionContents.length > 0;
+    if (reactionContents.length === 0) reasons.react = "Reactions are not supported for this host";
+
     return {
         canApprove,
         canRequestChanges,
@@ -80,6 +102,11 @@ export function buildReviewActionPolicy(data: {
         canMarkDraft,
         canCommentInline,
         canResolveThread,
+        canBatchReview,
+        canLocalBatchReview,
+        canCommitSuggestions,
+        canReact,
+        reactionContents,
         disabledReason: reasons,
     };
 }
@@ -1,14 +1,23 @@
 import * as v from "valibot";
 
-const gitHostSchema = v.picklist(["bitbucket", "github"]);
+const gitHostSchema = v.picklist(["bitbucket", "github", "gitlab"]);
 
 export const githubAuthSchema = v.object({
     token: v.string(),
+    refreshToken: v.optional(v.string()),
+    expiresAt: v.optional(v.number()),
+});
+
+export const gitlabAuthSchema = v.object({
+    token: v.string(),
+    baseUrl: v.string(),
 });
 
 export const pullRequestBundleSchema = v.object({
     prRef: v.object({
         host: gitHostSchema,
+        instance: v.optional(v.string()),
+        account: v.optional(v.string()),
         workspace: v.string(),
         repo: v.string(),
         pullRequestId: v.string(),
@@ -1,5 +1,20 @@
-import { getHostCapabilities, getHostClient } from "@/lib/git-host/registry";
-import type { BitbucketOAuthTokens, Commit, GitHost, PullRequestRef, RepoRef } from "@/lib/git-host/types";
+import { getHostCapabilities, getHostClient, getHostClients } from "@/lib/git-host/registry";
+import type {
+    CommentReactionContent,
+    Commit,
+    GitHost,
+    GitHostClient,
+    OAuthTokens,
+    PendingReviewEvent,
+    PullRequestFileCommit,
+    PullRequestRef,
+    RepoRef,
+} from "@/lib/git-host/types";
+
+// Clients read the credentials of `prRef.account` themselves, so picking a client never changes the active account.
+function getPullRequestClient(prRef: PullRequestRef) {
+    return getHostClient(prRef.host, prRef.instance);
+}
 
 export async function fetchRepoPullRequestsForHost(data: { host: GitHost; repos: RepoRef[] }) {
     if (data.repos.length === 0) {
@@ -14,60 +29,81 @@ export async function fetchRepoPullRequestsForHost(data: { host: GitHost; repos:
             }[];
         }>;
     }
-    const client = getHostClient(data.host);
-    return client.listPullRequestsForRepos({ repos: data.repos });
+    const reposByClient = new Map<GitHostClient, RepoRef[]>();
+    for (const repo of data.repos) {
+        const client = getHostClient(data.host, repo.instance);
+        reposByClient.set(client, [...(reposByClient.get(client) ?? []), repo]);
+    }
+    const results = await Promise.all(Array.from(reposByClient, ([client, repos]) => client.listPullRequestsForRepos({ repos })));
+    return results.flat();
+}
+
+// Each client searches its own inbox; selected repositories are only a hint for hosts without cross-repository search.
+export async function fetchInboxPullRequestsForHost(data: { host: GitHost; repos: RepoRef[] }) {
+    const clients = getHostClients(data.host);
+    const results = await Promise.all(
+        clients.map((client) => client.listInboxPullRequests({ repos: data.repos.filter((repo) => getHostClient(data.host, repo.instance) === client) })),
+    );
+    return results.flat();
 }
 
 export async function listRepositoriesForHost(data: { host: GitHost }) {
-    return getHostClient(data.host).listRepositories();
+    const clients = getHostClients(data.host);
+    const authStates = await Promise.all(clients.map((client) => client.getAuthState()));
+    const authenticatedClients = clients.filter((_, index) => authStates[index]?.authenticated);
+    // Without any session, still ask the primary client so it reports why listing is unavailable.
+    const repositories = await Promise.all(
+        (authenticatedClients.length > 0 ? authenticatedClients : clients.slice(0, 1)).map((client) => client.listRepositories()),
+    );
+    return repositories.flat();
 }
 
 export async function fetchPullRequestBundleByRef(data: { prRef: PullRequestRef }) {
-    return getHostClient(data.prRef.host).fetchPullRequestBundleByRef(data);
+    return getPullRequestClient(data.prRef).fetchPullRequestBundleByRef(data);
 }
 
 export async function fetchPullRequestCriticalByRef(data: { prRef: PullRequestRef }) {
-    return getHostClient(data.prRef.host).fetchPullRequestCriticalByRef(data);
+    return getPullRequestClient(data.prRef).fetchPullRequestCriticalByRef(data);
 }
 
 export async function fetchPullRequestDeferredByRef(data: { prRef: PullRequestRef }) {
-    return getHostClient(data.prRef.host).fetchPullRequestDeferredByRef(data);
+    return getPullRequestClient(data.prRef).fetchPullRequestDeferredByRef(data);
 }
 
 export async function fetchPullRequestCommentsByRef(data: { prRef: PullRequestRef }) {
-    return getHostClient(data.prRef.host).fetchPullRequestCommentsByRef(data);
+    return getPullRequestClient(data.prRef).fetchPullRequestCommentsByRef(data);
 }
 
 export async function approvePullRequest(data: { prRef: PullRequestRef }) {
-    return getHostClient(data.prRef.host).approvePullRequest(data);
+    return getPullRequestClient(data.prRef).approvePullRequest(data);
 }
 
 export async function removePullRequestApproval(data: { prRef: PullRequestRef }) {
-    return getHostClient(data.prRef.host).removePullRequestApproval(data);
+    return getPullRequestClient(data.prRef).removePullRequestApproval(data);
 }
 
 export async function requestChangesOnPullRequest(data: { prRef: PullRequestRef; body?: string }) {
-    return getHostClient(data.prRef.host).requestChanges(data);
+    return getPullRequestClient(data.prRef).requestChanges(data);
 }
 
 export async function declinePullRequest(data: { prRef: PullRequestRef }) {
-    return getHostClient(data.prRef.host).declinePullRequest(data);
+    return getPullRequestClient(data.prRef).declinePullRequest(data);
 }
 
 export async function markPullRequestAsDraft(data: { prRef: PullRequestRef }) {
-    return getHostClient(data.prRef.host).markPullRequestAsDraft(data);
+    return getPullRequestClient(data.prRef).markPullRequestAsDraft(data);
 }
 
 export async function markPullRequestReady(data: { prRef: PullRequestRef }) {
-    return getHostClient(data.prRef.host).markPullRequestReady(data);
+    return getPullRequestClient(data.prRef).markPullRequestReady(data);
 }
 
 export async function mergePullRequest(data: { prRef: PullRequestRef; closeSourceBranch?: boolean; message?: string; mergeStrategy?: string }) {
-    return getHostClient(data.prRef.host).mergePullRequest(data);
+    return getPullRequestClient(data.prRef).mergePullRequest(data);
 }
 
 export async function updatePullRequestDescription(data: { prRef: PullRequestRef; description: string; title?: string }) {
-    return getHostClient(data.prRef.host).updatePullRequestDescription(data);
+    return getPullRequestClient(data.prRef).updatePullRequestDescription(data);
 }
 
 export async function createPullRequestComment(data: {
@@ -75,20 +111,43 @@ export async function createPullRequestComment(data: {
     content: string;
     inline?: { path: string; to?: number; from?: number; startTo?: number; startFrom?: number };
     parentId?: number;
+    pending?: boolean;
 }) {
-    return getHostClient(data.prRef.host).createPullRequestComment(data);
+    return getPullRequestClient(data.prRef).createPullRequestComment(data);
 }
 
 export async function updatePullRequestComment(data: { prRef: PullRequestRef; commentId: number; content: string; hasInlineContext: boolean }) {
-    return getHostClient(data.prRef.host).updatePullRequestComment(data);
+    return getPullRequestClient(data.prRef).updatePullRequestComment(data);
 }
 
 export async function resolvePullRequestComment(data: { prRef: PullRequestRef; commentId: number; resolve: boolean }) {
-    return getHostClient(data.prRef.host).resolvePullRequestComment(data);
+    return getPullRequestClient(data.prRef).resolvePullRequestComment(data);
 }
 
 export async function deletePullRequestComment(data: { prRef: PullRequestRef; commentId: number; hasInlineContext: boolean }) {
-    return getHostClient(data.prRef.host).deletePullRequestComment(data);
+    return getPullRequestClient(data.prRef).deletePullRequestComment(data);
+}
+
+export async function setCommentReaction(data: {
+    prRef: PullRequestRef;
+    commentId: number;
+    hasInlineContext: boolean;
+    content: CommentReactionContent;
+    reacted: boolean;
+}) {
+    return getPullRequestClient(data.prRef).setCommentReaction(data);
+}
+
+export async function submitPendingReview(data: { prRef: PullRequestRef; event: PendingReviewEvent; body?: string }) {
+    return getPullRequestClient(data.prRef).submitPendingReview(data);
+}
+
+export async function discardPendingReview(data: { prRef: PullRequestRef }) {
+    return getPullRequestClient(data.prRef).discardPendingReview(data);
+}
+
+export async function commitPullRequestFileChanges(data: { prRef: PullRequestRef } & PullRequestFileCommit) {
+    return getPullRequestClient(data.prRef).commitPullRequestFileChanges(data);
 }
 
 export async function fetchPullRequestCommitRangeDiff(data: {
@@ -97,38 +156,50 @@ export async function fetchPullRequestCommitRangeDiff(data: {
     headCommitHash: string;
     selectedCommitHashes: string[];
 }) {
-    return getHostClient(data.prRef.host).fetchPullRequestCommitRangeDiff(data);
+    return getPullRequestClient(data.prRef).fetchPullRequestCommitRangeDiff(data);
 }
 
 export async function fetchPullRequestFileContents(data: { prRef: PullRequestRef; commit: string; path: string }) {
-    return getHostClient(data.prRef.host).fetchPullRequestFileContents(data);
+    return getPullRequestClient(data.prRef).fetchPullRequestFileContents(data);
+}
+
+export async function fetchPullRequestFileBytes(data: { prRef: PullRequestRef; commit: string; path: string }) {
+    return getPullRequestClient(data.prRef).fetchPullRequestFileBytes(data);
 }
 
 export async function fetchPullRequestFileHistory(data: { prRef: PullRequestRef; path: string; commits: Commit[]; limit?: number }) {
-    return getHostClient(data.prRef.host).fetchPullRequestFileHistory(data);
+    return getPullRequestClient(data.prRef).fetchPullRequestFileHistory(data);
 }
 
-export function getCapabilitiesForHost(host: GitHost) {
-    return getHostCapabilities(host);
+export function getCapabilitiesForHost(host: GitHost, instance?: string) {
+    return getHostCapabilities(host, instance);
 }
 
 export async function getAuthStateForHost(host: GitHost) {
-    return getHostClient(host).getAuthState();
+    const authStates = await Promise.all(getHostClients(host).map((client) => client.getAuthState()));
+    return { authenticated: authStates.some((state) => state.authenticated) };
 }
 
 export async function loginToHost(
     data:
         | { host: "bitbucket"; email: string; apiToken: string }
-        | ({ host: "bitbucket"; method: "oauth" } & BitbucketOAuthTokens)
-        | { host: "github"; token: string },
+        | ({ host: "bitbucket"; method: "oauth" } & OAuthTokens)
+        | { host: "bitbucket"; token: string; baseUrl: string }
+        | ({ host: "github"; method: "oauth" } & OAuthTokens)
+        | { host: "github"; token: string; instance?: string }
+        | { host: "gitlab"; token: string; baseUrl?: string },
 ) {
-    return getHostClient(data.host).login(data);
+    const client = data.host === "bitbucket" && "baseUrl" in data ? getHostClient("bitbucket", data.baseUrl) : getHostClient(data.host);
+    return client.login(data);
 }
 
 export async function logoutHost(data: { host: GitHost }) {
-    return getHostClient(data.host).logout();
+    await Promise.all(getHostClients(data.host).map((client) => client.logout()));
+    return { authenticated: false };
 }
 
 export function getHostLabel(host: GitHost) {
-    return host === "bitbucket" ? "Bitbucket" : "GitHub";
+    if (host === "bitbucket") return "Bitbucket";
+    if (host === "gitlab") return "GitLab";
+    return "GitHub";
 }
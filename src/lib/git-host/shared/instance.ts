@@ -0,0 +1,48 @@
+import { DEFAULT_HOST_ACCOUNT_ID } from "@/lib/data/query-collections";
+import type { GitHost, PullRequestRef } from "@/lib/git-host/types";
+
+const GITHUB_DOTCOM_HOSTS = new Set(["github.com", "www.github.com", "api.github.com"]);
+
+/** Returns the GitHub Enterprise Server host (e.g. `github.acme.com`), or undefined for github.com. */
+export function normalizeGithubInstance(value?: string | null) {
+    const trimmed = value?.trim();
+    if (!trimmed) return undefined;
+    const withScheme = /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+    try {
+        const host = new URL(withScheme).host.toLowerCase();
+        return GITHUB_DOTCOM_HOSTS.has(host) ? undefined : host;
+    } catch {
+        return undefined;
+    }
+}
+
+/** Returns `host[/context-path]` for a self-hosted server URL, e.g. `git.acme.com/bitbucket`. */
+export function normalizeSelfHostedInstance(value?: string | null) {
+    const trimmed = value?.trim();
+    if (!trimmed) return undefined;
+    const withScheme = /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+    try {
+        const url = new URL(withScheme);
+        const pathname = url.pathname.replace(/\/+$/, "");
+        return `${url.host.toLowerCase()}${pathname}`;
+    } catch {
+        return undefined;
+    }
+}
+
+export function hostInstanceKey(ref: { host: GitHost; instance?: string }) {
+    return ref.instance ? `${ref.host}@${ref.instance}` : ref.host;
+}
+
+/** Account whose credentials serve a ref; refs without one belong to the default account. */
+export function refAccountId(ref: { account?: string }) {
+    return ref.account ?? DEFAULT_HOST_ACCOUNT_ID;
+}
+
+export function repoRefKey(repo: { host: GitHost; instance?: string; account?: string; fullName: string }) {
+    return `${hostInstanceKey(repo)}${repo.account ? `#${repo.account}` : ""}:${repo.fullName}`;
+}
+
+export function pullRequestRefKey(ref: PullRequestRef) {
+    return repoRefKey({ ...ref, fullName: `${ref.workspace}/${ref.repo}/${ref.pullRequestId}` });
+}
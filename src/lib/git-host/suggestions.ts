@@ -126,3 +126,105 @@ export function buildSuggestions({ host, path, originalContents, editedContents,
 
     return suggestions;
 }
+
+export type AcceptedSuggestion = {
+    commentId: number;
+    path: string;
+    startLine: number;
+    endLine: number;
+    /** Where the suggested lines sat in the commit the comment was written against. */
+    writtenAt: { commitHash: string; startLine: number; endLine: number };
+    replacement: string;
+};
+
+export type SuggestionConflict = {
+    commentId: number;
+    path: string;
+    reason: string;
+};
+
+export type AppliedSuggestionFile = {
+    path: string;
+    before: string;
+    after: string;
+    commentIds: number[];
+};
+
+/** Key of a file's contents at a commit in the map `applySuggestions` reads written-against sources from. */
+export function suggestionSourceKey(commitHash: string, path: string) {
+    return `${commitHash}:${path}`;
+}
+
+function splitSourceLines(contents: string) {
+    return contents.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/** The lines of `originalContents` that a suggestion built from it replaces. */
+export function getSuggestionReplacedContents(originalContents: string, inline: Suggestion["inline"]) {
+    return splitSourceLines(originalContents)
+        .slice((inline.startTo ?? inline.to) - 1, inline.to)
+        .join("");
+}
+
+/**
+ * Applies accepted suggestions to the current contents of their files. A
+ * suggestion conflicts when its lines no longer read as they did in the commit
+ * its comment was written against, or when it overlaps another suggestion in
+ * the same batch; the remaining suggestions still apply.
+ */
+export function applySuggestions(
+    suggestions: AcceptedSuggestion[],
+    currentContents: ReadonlyMap<string, string>,
+    writtenContents: ReadonlyMap<string, string>,
+) {
+    const files: AppliedSuggestionFile[] = [];
+    const conflicts: SuggestionConflict[] = [];
+    const suggestionsByPath = new Map<string, AcceptedSuggestion[]>();
+    for (const suggestion of suggestions) {
+        suggestionsByPath.set(suggestion.path, [...(suggestionsByPath.get(suggestion.path) ?? []), suggestion]);
+    }
+
+    for (const [path, pathSuggestions] of suggestionsByPath) {
+        const before = currentContents.get(path);
+        if (before === undefined) {
+            for (const suggestion of pathSuggestions) {
+                conflicts.push({ commentId: suggestion.commentId, path, reason: "The file no longer exists on the source branch" });
+            }
+            continue;
+        }
+
+        const lines = splitSourceLines(before);
+        const commentIds: number[] = [];
+        let lowestAppliedLine = Number.POSITIVE_INFINITY;
+        // Bottom-up, so earlier line numbers stay valid after each replacement.
+        for (const suggestion of pathSuggestions.toSorted((left, right) => right.startLine - left.startLine)) {
+            if (suggestion.endLine >= lowestAppliedLine) {
+                conflicts.push({ commentId: suggestion.commentId, path, reason: "Overlaps another suggestion in this batch" });
+                continue;
+            }
+            const written = writtenContents.get(suggestionSourceKey(suggestion.writtenAt.commitHash, path));
+            if (written === undefined) {
+                conflicts.push({ commentId: suggestion.commentId, path, reason: "The commit the suggestion was written against is unavailable" });
+                continue;
+            }
+            const writtenLines = splitSourceLines(written).slice(suggestion.writtenAt.startLine - 1, suggestion.writtenAt.endLine);
+            const currentLines = lines.slice(suggestion.startLine - 1, suggestion.endLine).join("");
+            if (writtenLines.length !== suggestion.endLine - suggestion.startLine + 1 || currentLines !== writtenLines.join("")) {
+                conflicts.push({ commentId: suggestion.commentId, path, reason: "The suggested lines changed since the suggestion was written" });
+                continue;
+            }
+            // Suggestion fences always end in a newline; keep a final line without one as it was.
+            const replacement =
+                !currentLines.endsWith("\n") && suggestion.replacement.endsWith("\n") ? suggestion.replacement.slice(0, -1) : suggestion.replacement;
+            lines.splice(suggestion.startLine - 1, suggestion.endLine - suggestion.startLine + 1, ...splitSourceLines(replacement));
+            lowestAppliedLine = suggestion.startLine;
+            commentIds.push(suggestion.commentId);
+        }
+
+        if (commentIds.length > 0) {
+            files.push({ path, before, after: lines.join(""), commentIds: commentIds.toReversed() });
+        }
+    }
+
+    return { files, conflicts };
+}
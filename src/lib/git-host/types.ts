@@ -1,7 +1,11 @@
-export type GitHost = "bitbucket" | "github";
+export type GitHost = "bitbucket" | "github" | "gitlab";
 
 export interface RepoRef {
     host: GitHost;
+    /** Self-hosted server (GitHub Enterprise Server, Bitbucket Data Center); omitted for cloud hosts. */
+    instance?: string;
+    /** Named account the repository was listed with; omitted for the default account. */
+    account?: string;
     workspace: string;
     repo: string;
     fullName: string;
@@ -10,6 +14,8 @@ export interface RepoRef {
 
 export interface PullRequestRef {
     host: GitHost;
+    instance?: string;
+    account?: string;
     workspace: string;
     repo: string;
     pullRequestId: string;
@@ -29,10 +35,28 @@ export interface PullRequestSummary {
     state: string;
     createdAt?: string;
     updatedAt?: string;
-    source?: { branch?: { name?: string } };
+    source?: { branch?: { name?: string }; commit?: { hash?: string } };
     destination?: { branch?: { name?: string } };
     links?: { html?: { href?: string } };
-    author?: { displayName?: string; avatarUrl?: string };
+    author?: { id?: string; displayName?: string; avatarUrl?: string };
+    /** Requested and past reviewers; ids use the same form as `InboxPullRequest.currentUserId`. */
+    reviewers?: PullRequestReviewer[];
+    /** Users who commented on or reviewed the pull request. */
+    participants?: PullRequestParticipant[];
+    /** When the source branch last received a commit, where the host reports it. */
+    lastCommitAt?: string;
+}
+
+export interface PullRequestParticipant {
+    id: string;
+    displayName?: string;
+    avatarUrl?: string;
+}
+
+export interface InboxPullRequest {
+    repo: RepoRef;
+    pullRequest: PullRequestSummary;
+    currentUserId: string;
 }
 
 export interface Commit {
@@ -46,18 +70,39 @@ export interface Commit {
     };
 }
 
+export type CommentReactionContent = "+1" | "-1" | "laugh" | "confused" | "heart" | "hooray" | "rocket" | "eyes";
+
+export interface CommentReaction {
+    content: CommentReactionContent;
+    count: number;
+    viewerReacted?: boolean;
+}
+
 export interface Comment {
     id: number;
     createdAt?: string;
     updatedAt?: string;
     deleted?: boolean;
     pending?: boolean;
+    pendingReview?: boolean;
     content?: { raw?: string; html?: string };
     user?: { displayName?: string; avatarUrl?: string };
-    inline?: { path?: string; to?: number; from?: number; startTo?: number; startFrom?: number; outdated?: boolean };
+    inline?: {
+        path?: string;
+        to?: number;
+        from?: number;
+        startTo?: number;
+        startFrom?: number;
+        outdated?: boolean;
+        /** Commit the outdated line numbers refer to, when the host reports it. */
+        commitHash?: string;
+        /** The commit the comment was written against and its new-side lines there, when the host reports them. */
+        writtenAt?: { commitHash: string; to: number; startTo?: number };
+    };
     parent?: { id?: number };
     resolution?: { user?: { displayName?: string; avatarUrl?: string } } | null;
     hostThreadId?: string;
+    reactions?: CommentReaction[];
 }
 
 export interface PullRequestDetails {
@@ -220,8 +265,11 @@ export interface CommentPayload {
     content: string;
     inline?: { path: string; to?: number; from?: number; startTo?: number; startFrom?: number };
     parentId?: number;
+    pending?: boolean;
 }
 
+export type PendingReviewEvent = "comment" | "approve" | "requestChanges";
+
 export interface CommentUpdatePayload {
     commentId: number;
     content: string;
@@ -233,6 +281,13 @@ export interface PullRequestDescriptionUpdatePayload {
     title?: string;
 }
 
+export interface PullRequestFileCommit {
+    message: string;
+    /** The source branch head the file contents were read from; the commit is rejected if the branch moved since. */
+    expectedHeadCommitHash: string;
+    files: Array<{ path: string; contents: string }>;
+}
+
 export interface HostCapabilities {
     publicReadSupported: boolean;
     supportsThreadResolution: boolean;
@@ -241,6 +296,12 @@ export interface HostCapabilities {
     removeApprovalAvailable: boolean;
     declineAvailable: boolean;
     markDraftAvailable: boolean;
+    pendingReviewAvailable: boolean;
+    commitSuggestionsAvailable: boolean;
+    /** Whether an inline comment range may start on removed lines and end on added ones. */
+    crossSideLineRangesAvailable: boolean;
+    /** Reactions the host accepts on comments; empty when it has none. */
+    reactionContents: CommentReactionContent[];
 }
 
 interface HostApiErrorDetails {
@@ -267,7 +328,7 @@ export interface AuthState {
     authenticated: boolean;
 }
 
-export interface BitbucketOAuthTokens {
+export interface OAuthTokens {
     accessToken: string;
     refreshToken?: string;
     expiresAt?: number;
@@ -275,8 +336,11 @@ export interface BitbucketOAuthTokens {
 
 export type LoginCredentials =
     | { host: "bitbucket"; email: string; apiToken: string }
-    | ({ host: "bitbucket"; method: "oauth" } & BitbucketOAuthTokens)
-    | { host: "github"; token: string };
+    | ({ host: "bitbucket"; method: "oauth" } & OAuthTokens)
+    | { host: "bitbucket"; token: string; baseUrl: string }
+    | ({ host: "github"; method: "oauth" } & OAuthTokens)
+    | { host: "github"; token: string; instance?: string }
+    | { host: "gitlab"; token: string; baseUrl?: string };
 
 export interface GitHostClient {
     readonly host: GitHost;
@@ -286,6 +350,8 @@ export interface GitHostClient {
     logout(): Promise<AuthState>;
     listRepositories(): Promise<RepoRef[]>;
     listPullRequestsForRepos(data: { repos: RepoRef[] }): Promise<Array<{ repo: RepoRef; pullRequests: PullRequestSummary[] }>>;
+    /** Open pull requests involving the signed-in user; hosts without a cross-repository search fall back to `repos`. */
+    listInboxPullRequests(data: { repos: RepoRef[] }): Promise<InboxPullRequest[]>;
     fetchPullRequestCriticalByRef(data: { prRef: PullRequestRef }): Promise<PullRequestCriticalBundle>;
     fetchPullRequestDeferredByRef(data: { prRef: PullRequestRef }): Promise<PullRequestDeferredBundle>;
     fetchPullRequestBundleByRef(data: { prRef: PullRequestRef }): Promise<PullRequestBundle>;
@@ -310,6 +376,16 @@ export interface GitHostClient {
     ): Promise<{ ok: true }>;
     resolvePullRequestComment(data: { prRef: PullRequestRef; commentId: number; resolve: boolean }): Promise<{ ok: true }>;
     deletePullRequestComment(data: { prRef: PullRequestRef; commentId: number; hasInlineContext: boolean }): Promise<{ ok: true }>;
+    setCommentReaction(data: {
+        prRef: PullRequestRef;
+        commentId: number;
+        hasInlineContext: boolean;
+        content: CommentReactionContent;
+        reacted: boolean;
+    }): Promise<{ ok: true }>;
+    submitPendingReview(data: { prRef: PullRequestRef; event: PendingReviewEvent; body?: string }): Promise<{ ok: true }>;
+    discardPendingReview(data: { prRef: PullRequestRef }): Promise<{ ok: true }>;
+    commitPullRequestFileChanges(data: { prRef: PullRequestRef } & PullRequestFileCommit): Promise<{ ok: true }>;
     fetchPullRequestCommitRangeDiff(data: {
         prRef: PullRequestRef;
         baseCommitHash: string;
@@ -317,5 +393,6 @@ export interface GitHostClient {
         selectedCommitHashes: string[];
     }): Promise<PullRequestCommitRangeDiff>;
     fetchPullRequestFileContents(data: { prRef: PullRequestRef; commit: string; path: string }): Promise<string>;
+    fetchPullRequestFileBytes(data: { prRef: PullRequestRef; commit: string; path: string }): Promise<Uint8Array<ArrayBuffer>>;
     fetchPullRequestFileHistory(data: { prRef: PullRequestRef; path: string; commits: Commit[]; limit?: number }): Promise<PullRequestFileHistory>;
 }
@@ -0,0 +1,86 @@
+import { createContext, type ReactNode, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import { ensureDataCollectionsReady, readNotificationSettingsRecord, writeNotificationSettingsRecord } from "@/lib/data/query-collections";
+
+interface NotificationSettingsContextType {
+    hydrated: boolean;
+    backgroundPolling: boolean;
+    browserNotifications: boolean;
+    setBackgroundPolling: (enabled: boolean) => void;
+    setBrowserNotifications: (enabled: boolean) => Promise<void>;
+}
+
+const NotificationSettingsContext = createContext<NotificationSettingsContextType | null>(null);
+
+function browserNotificationsGranted() {
+    return typeof Notification !== "undefined" && Notification.permission === "granted";
+}
+
+function useNotificationSettingsProviderValue(): NotificationSettingsContextType {
+    const [backgroundPolling, setBackgroundPollingState] = useState(true);
+    const [browserNotifications, setBrowserNotificationsState] = useState(false);
+    const [hydrated, setHydrated] = useState(false);
+
+    useEffect(() => {
+        let cancelled = false;
+        void (async () => {
+            await ensureDataCollectionsReady();
+            if (cancelled) return;
+            const stored = readNotificationSettingsRecord();
+            if (stored) {
+                setBackgroundPollingState(stored.backgroundPolling !== false);
+                // A permission revoked in the browser turns the setting off on the next load.
+                setBrowserNotificationsState(stored.browserNotifications === true && browserNotificationsGranted());
+            }
+            setHydrated(true);
+        })();
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    useEffect(() => {
+        if (!hydrated) return;
+        writeNotificationSettingsRecord({ backgroundPolling, browserNotifications });
+    }, [backgroundPolling, browserNotifications, hydrated]);
+
+    const setBackgroundPolling = useCallback((enabled: boolean) => {
+        setBackgroundPollingState(enabled);
+    }, []);
+
+    const setBrowserNotifications = useCallback(async (enabled: boolean) => {
+        if (!enabled) {
+            setBrowserNotificationsState(false);
+            return;
+        }
+        if (typeof Notification === "undefined") {
+            throw new Error("This browser does not support notifications");
+        }
+        const permission = Notification.permission === "default" ? await Notification.requestPermission() : Notification.permission;
+        if (permission !== "granted") {
+            throw new Error("Notifications are blocked for this site in the browser settings");
+        }
+        setBrowserNotificationsState(true);
+    }, []);
+
+    return useMemo(
+        () => ({
+            hydrated,
+            backgroundPolling,
+            browserNotifications,
+            setBackgroundPolling,
+            setBrowserNotifications,
+        }),
+        [backgroundPolling, browserNotifications, hydrated, setBackgroundPolling, setBrowserNotifications],
+    );
+}
+
+export function NotificationSettingsProvider({ children }: { children: ReactNode }) {
+    const value = useNotificationSettingsProviderValue();
+    return <NotificationSettingsContext.Provider value={value}>{children}</NotificationSettingsContext.Provider>;
+}
+
+export function useNotificationSettings() {
+    const ctx = useContext(NotificationSettingsContext);
+    if (!ctx) throw new Error("useNotificationSettings must be used within NotificationSettingsProvider");
+    return ctx;
+}
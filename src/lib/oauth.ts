@@ -1,4 +1,6 @@
-import type { BitbucketOAuthTokens } from "@/lib/git-host/types";
+import type { OAuthTokens } from "@/lib/git-host/types";
+
+export type OAuthProvider = "bitbucket" | "github";
 
 interface OAuthTokenPayload {
     accessToken?: unknown;
@@ -8,10 +10,22 @@ interface OAuthTokenPayload {
     error?: unknown;
 }
 
-export interface BitbucketOAuthExchangeResult extends BitbucketOAuthTokens {
+export interface OAuthExchangeResult extends OAuthTokens {
     returnTo: string;
 }
 
+const OAUTH_PROVIDER_LABELS: Record<OAuthProvider, string> = {
+    bitbucket: "Bitbucket",
+    github: "GitHub",
+};
+
+// Must match the state prefixes the worker hands out in src/worker.ts.
+const GITHUB_STATE_PREFIX = "github.";
+
+export function oauthProviderFromState(state: string): OAuthProvider {
+    return state.startsWith(GITHUB_STATE_PREFIX) ? "github" : "bitbucket";
+}
+
 function oauthErrorMessage(payload: OAuthTokenPayload, fallback: string) {
     return typeof payload.error === "string" && payload.error.trim() ? payload.error : fallback;
 }
@@ -23,31 +37,31 @@ function safeReturnTo(value: unknown) {
     return `${target.pathname}${target.search}${target.hash}`;
 }
 
-async function readOAuthResponse(response: Response, fallback: string) {
+async function readOAuthResponse(provider: OAuthProvider, response: Response, fallback: string) {
     const payload = (await response.json().catch(() => ({}))) as OAuthTokenPayload;
     if (!response.ok) {
         throw new Error(oauthErrorMessage(payload, fallback));
     }
     if (typeof payload.accessToken !== "string" || !payload.accessToken.trim()) {
-        throw new Error("Bitbucket OAuth returned an invalid access token");
+        throw new Error(`${OAUTH_PROVIDER_LABELS[provider]} OAuth returned an invalid access token`);
     }
     return payload;
 }
 
-export function startBitbucketOAuth(returnTo = `${window.location.pathname}${window.location.search}${window.location.hash}`) {
-    const url = new URL("/api/auth/bitbucket/start", window.location.origin);
-    url.searchParams.set("return_to", returnTo.startsWith("/api/auth/bitbucket/") ? "/" : returnTo);
+export function startOAuth(provider: OAuthProvider, returnTo = `${window.location.pathname}${window.location.search}${window.location.hash}`) {
+    const url = new URL(`/api/auth/${provider}/start`, window.location.origin);
+    url.searchParams.set("return_to", returnTo.startsWith("/api/auth/") ? "/" : returnTo);
     window.location.assign(url);
 }
 
-export async function exchangeBitbucketOAuthCode(data: { code: string; state: string }): Promise<BitbucketOAuthExchangeResult> {
-    const response = await fetch("/api/auth/bitbucket/exchange", {
+export async function exchangeOAuthCode(provider: OAuthProvider, data: { code: string; state: string }): Promise<OAuthExchangeResult> {
+    const response = await fetch(`/api/auth/${provider}/exchange`, {
         method: "POST",
         credentials: "same-origin",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(data),
     });
-    const payload = await readOAuthResponse(response, "Bitbucket OAuth code exchange failed");
+    const payload = await readOAuthResponse(provider, response, `${OAUTH_PROVIDER_LABELS[provider]} OAuth code exchange failed`);
 
     return {
         accessToken: payload.accessToken as string,
@@ -57,14 +71,14 @@ export async function exchangeBitbucketOAuthCode(data: { code: string; state: st
     };
 }
 
-export async function refreshBitbucketOAuthToken(refreshToken: string): Promise<BitbucketOAuthTokens> {
-    const response = await fetch("/api/auth/bitbucket/refresh", {
+export async function refreshOAuthToken(provider: OAuthProvider, refreshToken: string): Promise<OAuthTokens> {
+    const response = await fetch(`/api/auth/${provider}/refresh`, {
         method: "POST",
         credentials: "same-origin",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ refreshToken }),
     });
-    const payload = await readOAuthResponse(response, "Bitbucket OAuth token refresh failed");
+    const payload = await readOAuthResponse(provider, response, `${OAUTH_PROVIDER_LABELS[provider]} OAuth token refresh failed`);
 
     return {
         accessToken: payload.accessToken as string,
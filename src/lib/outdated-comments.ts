@@ -0,0 +1,116 @@
+import { parsePatchFiles } from "@pierre/diffs";
+import type { FileDiffMetadata } from "@pierre/diffs/react";
+import type { Comment, Commit, PullRequestFileHistoryEntry } from "@/lib/git-host/types";
+
+export type OutdatedCommentSnippet = {
+    fileDiff: FileDiffMetadata;
+    line: number;
+    side: "additions" | "deletions";
+};
+
+export type OutdatedCommentAnchor =
+    | { status: "moved"; line: number; originalLine: number }
+    | { status: "orphaned"; originalLine: number; commitHash?: string; snippet?: OutdatedCommentSnippet };
+
+function parseSingleFilePatch(patch: string) {
+    return parsePatchFiles(patch).flatMap((parsed) => parsed.files)[0];
+}
+
+function hasLine(fileDiff: FileDiffMetadata, line: number, side: OutdatedCommentSnippet["side"]) {
+    return fileDiff.hunks.some((hunk) => {
+        const start = side === "additions" ? hunk.additionStart : hunk.deletionStart;
+        const count = side === "additions" ? hunk.additionCount : hunk.deletionCount;
+        return line >= start && line < start + count;
+    });
+}
+
+/** Maps a line of the file before `fileDiff` to the same line after it, or null when the patch removed or rewrote it. */
+export function mapLineThroughPatch(fileDiff: FileDiffMetadata, line: number): number | null {
+    let offset = 0;
+    for (const hunk of fileDiff.hunks) {
+        if (line < hunk.deletionStart) break;
+        if (line >= hunk.deletionStart + hunk.deletionCount) {
+            offset += hunk.additionCount - hunk.deletionCount;
+            continue;
+        }
+        for (const content of hunk.hunkContent) {
+            const oldStart = hunk.deletionStart + content.deletionLineIndex - hunk.deletionLineIndex;
+            const newStart = hunk.additionStart + content.additionLineIndex - hunk.additionLineIndex;
+            const oldLength = content.type === "context" ? content.lines : content.deletions;
+            if (line < oldStart || line >= oldStart + oldLength) continue;
+            return content.type === "context" ? newStart + (line - oldStart) : null;
+        }
+        return null;
+    }
+    return line + offset;
+}
+
+function orderCommitsOldestFirst(commits: Commit[]) {
+    return commits
+        .map((commit, index) => ({ commit, index, time: commit.date ? Date.parse(commit.date) : Number.NaN }))
+        .toSorted((left, right) => (Number.isNaN(left.time) || Number.isNaN(right.time) ? left.index - right.index : left.time - right.time))
+        .map((entry) => entry.commit);
+}
+
+function findAnchorCommitIndex(comment: Comment, commits: Commit[]) {
+    const commitHash = comment.inline?.commitHash;
+    if (commitHash) {
+        const index = commits.findIndex((commit) => commit.hash === commitHash);
+        if (index >= 0) return index;
+    }
+    // Without a host-reported commit, the comment was written against the newest commit pushed before it.
+    const createdAt = comment.createdAt ? Date.parse(comment.createdAt) : Number.NaN;
+    if (Number.isNaN(createdAt)) return -1;
+    return commits.findLastIndex((commit) => commit.date !== undefined && Date.parse(commit.date) <= createdAt);
+}
+
+/**
+ * Follows an outdated comment's right-side line through every later commit that touched the file.
+ * Returns null when the comment cannot be placed on the PR's commit timeline.
+ */
+export function trackOutdatedComment({
+    comment,
+    commits,
+    entries,
+}: {
+    comment: Comment;
+    commits: Commit[];
+    entries: PullRequestFileHistoryEntry[];
+}): OutdatedCommentAnchor | null {
+    const originalLine = comment.inline?.to;
+    if (!comment.inline?.outdated || !originalLine) return null;
+
+    const orderedCommits = orderCommitsOldestFirst(commits);
+    const anchorIndex = findAnchorCommitIndex(comment, orderedCommits);
+    if (anchorIndex < 0) return null;
+
+    const entryByCommit = new Map(entries.map((entry) => [entry.commitHash, entry]));
+    const anchorEntry = orderedCommits
+        .slice(0, anchorIndex + 1)
+        .map((commit) => entryByCommit.get(commit.hash))
+        .findLast((entry) => entry !== undefined);
+    const anchorDiff = anchorEntry ? parseSingleFilePatch(anchorEntry.patch) : undefined;
+    const snippetAtCommentTime =
+        anchorDiff && hasLine(anchorDiff, originalLine, "additions") ? { fileDiff: anchorDiff, line: originalLine, side: "additions" as const } : undefined;
+    const commitHash = orderedCommits[anchorIndex]?.hash;
+
+    let line = originalLine;
+    for (const commit of orderedCommits.slice(anchorIndex + 1)) {
+        const entry = entryByCommit.get(commit.hash);
+        if (!entry) continue;
+        const fileDiff = parseSingleFilePatch(entry.patch);
+        if (!fileDiff) continue;
+        const nextLine = entry.status === "removed" ? null : mapLineThroughPatch(fileDiff, line);
+        if (nextLine === null) {
+            return {
+                status: "orphaned",
+                originalLine,
+                commitHash,
+                // Fall back to the removing patch when the commented line sat outside the hunks of its own commit.
+                snippet: snippetAtCommentTime ?? (hasLine(fileDiff, line, "deletions") ? { fileDiff, line, side: "deletions" } : undefined),
+            };
+        }
+        line = nextLine;
+    }
+    return { status: "moved", line, originalLine };
+}
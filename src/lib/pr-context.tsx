@@ -1,19 +1,40 @@
 import { createContext, type ReactNode, useCallback, useContext, useEffect, useMemo, useState } from "react";
-import { ensureDataCollectionsReady, readHostPreferencesRecord, writeHostPreferencesRecord } from "@/lib/data/query-collections";
+import {
+    addHostAccount,
+    assignWorkspaceAccounts,
+    DEFAULT_HOST_ACCOUNT_ID,
+    ensureDataCollectionsReady,
+    type HostAccount,
+    listHostAccounts,
+    readActiveHostAccountId,
+    readHostPreferencesRecord,
+    removeHostAccount,
+    setActiveHostAccount,
+    subscribeHostAccounts,
+    writeHostPreferencesRecord,
+} from "@/lib/data/query-collections";
 import { getAuthStateForHost, loginToHost, logoutHost } from "@/lib/git-host/service";
-import type { BitbucketOAuthTokens, GitHost, RepoRef } from "@/lib/git-host/types";
+import type { GitHost, OAuthTokens, RepoRef } from "@/lib/git-host/types";
 
-const HOSTS: GitHost[] = ["bitbucket", "github"];
+const HOSTS: GitHost[] = ["bitbucket", "github", "gitlab"];
 
 type AuthByHost = Record<GitHost, boolean>;
 type ReposByHost = Record<GitHost, RepoRef[]>;
+type AccountsByHost = Record<GitHost, HostAccount[]>;
+type ActiveAccountByHost = Record<GitHost, string>;
 
 interface PrContextType {
     isAuthenticated: boolean;
     authHydrated: boolean;
     authByHost: AuthByHost;
+    /** Selected repositories of each host's active account. */
     reposByHost: ReposByHost;
+    accountsByHost: AccountsByHost;
+    activeAccountByHost: ActiveAccountByHost;
     activeHost: GitHost;
+    switchAccount: (host: GitHost, accountId: string) => Promise<void>;
+    addAccount: (host: GitHost, label: string) => Promise<HostAccount>;
+    removeAccount: (host: GitHost, accountId: string) => Promise<void>;
     setActiveHost: (host: GitHost) => void;
     setReposForHost: (host: GitHost, repos: RepoRef[]) => void;
     clearReposForHost: (host: GitHost) => void;
@@ -22,8 +43,11 @@ interface PrContextType {
     login: (
         data:
             | { host: "bitbucket"; email: string; apiToken: string }
-            | ({ host: "bitbucket"; method: "oauth" } & BitbucketOAuthTokens)
-            | { host: "github"; token: string },
+            | ({ host: "bitbucket"; method: "oauth" } & OAuthTokens)
+            | { host: "bitbucket"; token: string; baseUrl: string }
+            | ({ host: "github"; method: "oauth" } & OAuthTokens)
+            | { host: "github"; token: string; instance?: string }
+            | { host: "gitlab"; token: string; baseUrl?: string },
     ) => Promise<void>;
     logout: (host?: GitHost) => Promise<void>;
 }
@@ -34,6 +58,7 @@ function emptyReposByHost(): ReposByHost {
     return {
         bitbucket: [],
         github: [],
+        gitlab: [],
     };
 }
 
@@ -41,9 +66,29 @@ function emptyAuthByHost(): AuthByHost {
     return {
         bitbucket: false,
         github: false,
+        gitlab: false,
     };
 }
 
+function readAccountsState(): { accountsByHost: AccountsByHost; activeAccountByHost: ActiveAccountByHost } {
+    return {
+        accountsByHost: {
+            bitbucket: listHostAccounts("bitbucket"),
+            github: listHostAccounts("github"),
+            gitlab: listHostAccounts("gitlab"),
+        },
+        activeAccountByHost: {
+            bitbucket: readActiveHostAccountId("bitbucket"),
+            github: readActiveHostAccountId("github"),
+            gitlab: readActiveHostAccountId("gitlab"),
+        },
+    };
+}
+
+function isAccountRepo(repo: RepoRef, accountId: string) {
+    return (repo.account ?? DEFAULT_HOST_ACCOUNT_ID) === accountId;
+}
+
 function parseRepos(host: GitHost): RepoRef[] {
     const stored = readHostPreferencesRecord();
     const parsed = stored?.reposByHost?.[host];
@@ -64,6 +109,8 @@ function parseRepos(host: GitHost): RepoRef[] {
         return [
             {
                 host,
+                ...(typeof repo.instance === "string" && repo.instance ? { instance: repo.instance } : {}),
+                ...(typeof repo.account === "string" && repo.account ? { account: repo.account } : {}),
                 workspace,
                 repo: repositorySlug,
                 fullName,
@@ -75,7 +122,7 @@ function parseRepos(host: GitHost): RepoRef[] {
 
 function parseActiveHost(): GitHost {
     const value = readHostPreferencesRecord()?.activeHost;
-    return value === "github" ? "github" : "bitbucket";
+    return value === "github" || value === "gitlab" ? value : "bitbucket";
 }
 
 export function PrProvider({ children }: { children: ReactNode }) {
@@ -83,11 +130,15 @@ export function PrProvider({ children }: { children: ReactNode }) {
         authHydrated: boolean;
         authByHost: AuthByHost;
         reposByHost: ReposByHost;
+        accountsByHost: AccountsByHost;
+        activeAccountByHost: ActiveAccountByHost;
         activeHost: GitHost;
     }>({
         authHydrated: false,
         authByHost: emptyAuthByHost(),
         reposByHost: emptyReposByHost(),
+        accountsByHost: { bitbucket: [], github: [], gitlab: [] },
+        activeAccountByHost: { bitbucket: DEFAULT_HOST_ACCOUNT_ID, github: DEFAULT_HOST_ACCOUNT_ID, gitlab: DEFAULT_HOST_ACCOUNT_ID },
         activeHost: "bitbucket",
     });
 
@@ -104,7 +155,7 @@ export function PrProvider({ children }: { children: ReactNode }) {
             nextAuthByHost[item.host] = Boolean(item.state.authenticated);
         }
         setState((prev) => {
-            if (prev.authByHost.bitbucket === nextAuthByHost.bitbucket && prev.authByHost.github === nextAuthByHost.github) {
+            if (HOSTS.every((host) => prev.authByHost[host] === nextAuthByHost[host])) {
                 return prev;
             }
             return {
@@ -124,6 +175,7 @@ export function PrProvider({ children }: { children: ReactNode }) {
             const nextReposByHost = {
                 bitbucket: parseRepos("bitbucket"),
                 github: parseRepos("github"),
+                gitlab: parseRepos("gitlab"),
             };
             const nextActiveHost = parseActiveHost();
             const authStates = await Promise.all(
@@ -143,6 +195,7 @@ export function PrProvider({ children }: { children: ReactNode }) {
                 authHydrated: true,
                 authByHost: nextAuthByHost,
                 reposByHost: nextReposByHost,
+                ...readAccountsState(),
                 activeHost: nextActiveHost,
             });
         })();
@@ -152,6 +205,15 @@ export function PrProvider({ children }: { children: ReactNode }) {
         };
     }, []);
 
+    useEffect(() => {
+        if (!state.authHydrated) return;
+        // Accounts also switch outside of this provider, e.g. when a pull request of another account is opened.
+        return subscribeHostAccounts(() => {
+            setState((prev) => ({ ...prev, ...readAccountsState() }));
+            void refreshAuth();
+        });
+    }, [refreshAuth, state.authHydrated]);
+
     useEffect(() => {
         if (!state.authHydrated) return;
         writeHostPreferencesRecord({ activeHost: state.activeHost, reposByHost: state.reposByHost });
@@ -162,37 +224,65 @@ export function PrProvider({ children }: { children: ReactNode }) {
     }, []);
 
     const setReposForHost = useCallback((host: GitHost, repos: RepoRef[]) => {
+        const accountId = readActiveHostAccountId(host);
+        const account = accountId === DEFAULT_HOST_ACCOUNT_ID ? undefined : accountId;
+        const nextRepos = repos.flatMap((repo) => {
+            if (repo.host !== host) return [];
+            const workspace = repo.workspace.trim();
+            const repositorySlug = repo.repo.trim();
+            return [
+                {
+                    host,
+                    ...(repo.instance ? { instance: repo.instance } : {}),
+                    ...(account ? { account } : {}),
+                    workspace,
+                    repo: repositorySlug,
+                    fullName: typeof repo.fullName === "string" && repo.fullName.trim().length ? repo.fullName.trim() : `${workspace}/${repositorySlug}`,
+                    displayName: typeof repo.displayName === "string" && repo.displayName.trim().length ? repo.displayName.trim() : repositorySlug,
+                } satisfies RepoRef,
+            ];
+        });
+        // Repositories of other accounts stay selected; only the active account's selection is replaced.
         setState((prev) => ({
             ...prev,
             reposByHost: {
                 ...prev.reposByHost,
-                [host]: repos.flatMap((repo) => {
-                    if (repo.host !== host) return [];
-                    const workspace = repo.workspace.trim();
-                    const repositorySlug = repo.repo.trim();
-                    return [
-                        {
-                            host,
-                            workspace,
-                            repo: repositorySlug,
-                            fullName:
-                                typeof repo.fullName === "string" && repo.fullName.trim().length ? repo.fullName.trim() : `${workspace}/${repositorySlug}`,
-                            displayName: typeof repo.displayName === "string" && repo.displayName.trim().length ? repo.displayName.trim() : repositorySlug,
-                        } satisfies RepoRef,
-                    ];
-                }),
+                [host]: [...prev.reposByHost[host].filter((repo) => !isAccountRepo(repo, accountId)), ...nextRepos],
             },
         }));
+        void assignWorkspaceAccounts(host, Array.from(new Set(nextRepos.map((repo) => repo.workspace))), accountId);
     }, []);
 
     const clearReposForHost = useCallback((host: GitHost) => {
-        setState((prev) => ({ ...prev, reposByHost: { ...prev.reposByHost, [host]: [] } }));
+        const accountId = readActiveHostAccountId(host);
+        setState((prev) => ({
+            ...prev,
+            reposByHost: { ...prev.reposByHost, [host]: prev.reposByHost[host].filter((repo) => !isAccountRepo(repo, accountId)) },
+        }));
     }, []);
 
     const clearAllRepos = useCallback(() => {
         setState((prev) => ({ ...prev, reposByHost: emptyReposByHost() }));
     }, []);
 
+    const switchAccount = useCallback<PrContextType["switchAccount"]>(async (host, accountId) => {
+        await setActiveHostAccount(host, accountId);
+    }, []);
+
+    const addAccount = useCallback<PrContextType["addAccount"]>(async (host, label) => {
+        const account = await addHostAccount(host, label);
+        await setActiveHostAccount(host, account.id);
+        return account;
+    }, []);
+
+    const removeAccount = useCallback<PrContextType["removeAccount"]>(async (host, accountId) => {
+        await removeHostAccount(host, accountId);
+        setState((prev) => ({
+            ...prev,
+            reposByHost: { ...prev.reposByHost, [host]: prev.reposByHost[host].filter((repo) => !isAccountRepo(repo, accountId)) },
+        }));
+    }, []);
+
     const login = useCallback<PrContextType["login"]>(
         async (data) => {
             await loginToHost(data);
@@ -203,12 +293,22 @@ export function PrProvider({ children }: { children: ReactNode }) {
     );
 
     const logout = useCallback<PrContextType["logout"]>(async (host) => {
+        // Logging out only drops the active account's credentials, so other accounts keep their repository selections.
+        const withoutActiveAccountRepos = (reposByHost: ReposByHost, hosts: GitHost[]) => {
+            const next = { ...reposByHost };
+            for (const entry of hosts) {
+                const accountId = readActiveHostAccountId(entry);
+                next[entry] = reposByHost[entry].filter((repo) => !isAccountRepo(repo, accountId));
+            }
+            return next;
+        };
+
         if (host) {
             await logoutHost({ host });
             setState((prev) => ({
                 ...prev,
                 authByHost: { ...prev.authByHost, [host]: false },
-                reposByHost: { ...prev.reposByHost, [host]: [] },
+                reposByHost: withoutActiveAccountRepos(prev.reposByHost, [host]),
             }));
             return;
         }
@@ -217,17 +317,31 @@ export function PrProvider({ children }: { children: ReactNode }) {
         setState((prev) => ({
             ...prev,
             authByHost: emptyAuthByHost(),
-            reposByHost: emptyReposByHost(),
+            reposByHost: withoutActiveAccountRepos(prev.reposByHost, HOSTS),
         }));
     }, []);
 
+    const activeReposByHost = useMemo(
+        () => ({
+            bitbucket: state.reposByHost.bitbucket.filter((repo) => isAccountRepo(repo, state.activeAccountByHost.bitbucket)),
+            github: state.reposByHost.github.filter((repo) => isAccountRepo(repo, state.activeAccountByHost.github)),
+            gitlab: state.reposByHost.gitlab.filter((repo) => isAccountRepo(repo, state.activeAccountByHost.gitlab)),
+        }),
+        [state.activeAccountByHost, state.reposByHost],
+    );
+
     const value = useMemo(
         () => ({
             isAuthenticated: HOSTS.some((host) => state.authByHost[host]),
             authHydrated: state.authHydrated,
             authByHost: state.authByHost,
-            reposByHost: state.reposByHost,
+            reposByHost: activeReposByHost,
+            accountsByHost: state.accountsByHost,
+            activeAccountByHost: state.activeAccountByHost,
             activeHost: state.activeHost,
+            switchAccount,
+            addAccount,
+            removeAccount,
             setActiveHost,
             setReposForHost,
             clearReposForHost,
@@ -236,7 +350,20 @@ export function PrProvider({ children }: { children: ReactNode }) {
             login,
             logout,
         }),
-        [state, setActiveHost, setReposForHost, clearReposForHost, clearAllRepos, refreshAuth, login, logout],
+        [
+            state,
+            activeReposByHost,
+            switchAccount,
+            addAccount,
+            removeAccount,
+            setActiveHost,
+            setReposForHost,
+            clearReposForHost,
+            clearAllRepos,
+            refreshAuth,
+            login,
+            logout,
+        ],
     );
 
     return <PrContext.Provider value={value}>{children}</PrContext.Provider>;
@@ -0,0 +1,150 @@
+export type RenderedDocumentKind = "markdown" | "notebook";
+
+export type RenderedBlock = {
+    kind: "markdown" | "code";
+    text: string;
+    /** 1-based source line range the block was parsed from. */
+    startLine: number;
+    endLine: number;
+    language?: string;
+};
+
+export type RenderedBlockChange = {
+    type: "unchanged" | "removed" | "added";
+    block: RenderedBlock;
+};
+
+const MARKDOWN_EXTENSIONS = new Set(["md", "markdown", "mdown", "mkd", "mdx"]);
+const FENCE_PATTERN = /^\s{0,3}(`{3,}|~{3,})/;
+
+export function getRenderedDocumentKind(path: string): RenderedDocumentKind | null {
+    const extension = path.split(".").pop()?.toLowerCase() ?? "";
+    if (extension === "ipynb") return "notebook";
+    return MARKDOWN_EXTENSIONS.has(extension) ? "markdown" : null;
+}
+
+/** Splits Markdown into blank-line separated blocks, keeping fenced code blocks intact. */
+export function splitMarkdownBlocks(text: string): RenderedBlock[] {
+    const lines = text.split(/\r?\n/);
+    const blocks: RenderedBlock[] = [];
+    let current: string[] = [];
+    let startLine = 0;
+    let openFence: string | null = null;
+
+    const flush = (endLine: number) => {
+        if (current.length > 0) {
+            blocks.push({ kind: "markdown", text: current.join("\n"), startLine, endLine });
+        }
+        current = [];
+    };
+
+    lines.forEach((line, index) => {
+        const lineNumber = index + 1;
+        const fence = FENCE_PATTERN.exec(line)?.[1];
+        if (openFence) {
+            current.push(line);
+            if (fence && fence[0] === openFence[0] && fence.length >= openFence.length && line.trim() === fence) {
+                openFence = null;
+            }
+            return;
+        }
+        if (line.trim() === "") {
+            flush(lineNumber - 1);
+            return;
+        }
+        if (current.length === 0) startLine = lineNumber;
+        current.push(line);
+        if (fence) openFence = fence;
+    });
+    flush(lines.length);
+    return blocks;
+}
+
+type NotebookCell = {
+    cell_type?: string;
+    source?: string | string[];
+};
+
+type Notebook = {
+    cells?: NotebookCell[];
+    metadata?: { kernelspec?: { language?: string }; language_info?: { name?: string } };
+};
+
+/**
+ * Reduces a notebook to its cell sources so outputs, execution counts and metadata churn never show up as changes.
+ * Each cell spans from its `cell_type` key to the next cell so comments still land on the raw JSON.
+ */
+export function parseNotebookCells(text: string): RenderedBlock[] {
+    if (!text.trim()) return [];
+    const notebook = JSON.parse(text) as Notebook;
+    const language = notebook.metadata?.language_info?.name ?? notebook.metadata?.kernelspec?.language;
+    const lines = text.split(/\r?\n/);
+    const cellLines: number[] = [];
+    lines.forEach((line, index) => {
+        if (/^\s*"cell_type"\s*:/.test(line)) cellLines.push(index + 1);
+    });
+
+    return (notebook.cells ?? []).map((cell, index) => {
+        const source = Array.isArray(cell.source) ? cell.source.join("") : (cell.source ?? "");
+        const startLine = cellLines[index] ?? 1;
+        return {
+            kind: cell.cell_type === "markdown" ? "markdown" : "code",
+            text: source.replace(/\s+$/, ""),
+            startLine,
+            endLine: Math.max(startLine, (cellLines[index + 1] ?? lines.length + 1) - 1),
+            language: cell.cell_type === "code" ? language : undefined,
+        };
+    });
+}
+
+function blockKey(block: RenderedBlock) {
+    return `${block.kind}\u0000${block.text
+        .split("\n")
+        .map((line) => line.trimEnd())
+        .join("\n")}`;
+}
+
+export function diffRenderedBlocks(oldBlocks: RenderedBlock[], newBlocks: RenderedBlock[]): RenderedBlockChange[] {
+    const oldKeys = oldBlocks.map(blockKey);
+    const newKeys = newBlocks.map(blockKey);
+    const lengths = Array.from({ length: oldKeys.length + 1 }, () => new Array<number>(newKeys.length + 1).fill(0));
+    for (let i = oldKeys.length - 1; i >= 0; i -= 1) {
+        for (let j = newKeys.length - 1; j >= 0; j -= 1) {
+            lengths[i][j] = oldKeys[i] === newKeys[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const changes: RenderedBlockChange[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < oldKeys.length || j < newKeys.length) {
+        if (i < oldKeys.length && j < newKeys.length && oldKeys[i] === newKeys[j]) {
+            changes.push({ type: "unchanged", block: newBlocks[j] });
+            i += 1;
+            j += 1;
+        } else if (j < newKeys.length && (i >= oldKeys.length || lengths[i][j + 1] >= lengths[i + 1][j])) {
+            changes.push({ type: "added", block: newBlocks[j] });
+            j += 1;
+        } else {
+            changes.push({ type: "removed", block: oldBlocks[i] });
+            i += 1;
+        }
+    }
+
+    // Show each replaced run as its removed blocks followed by the added ones instead of interleaving them.
+    const ordered: RenderedBlockChange[] = [];
+    let pendingAdded: RenderedBlockChange[] = [];
+    for (const change of changes) {
+        if (change.type === "added") {
+            pendingAdded.push(change);
+            continue;
+        }
+        if (change.type === "unchanged") {
+            ordered.push(...pendingAdded);
+            pendingAdded = [];
+        }
+        ordered.push(change);
+    }
+    ordered.push(...pendingAdded);
+    return ordered;
+}
@@ -1,16 +1,28 @@
 import type { Commit } from "@/lib/git-host/types";
 
-export type ReviewDiffScopeMode = "full" | "range";
+export type ReviewDiffScopeMode = "full" | "range" | "sinceLastReview" | "interdiff";
 
 export type ReviewDiffScopeSearch = {
     from?: string;
     to?: string;
+    since?: "last-review";
+    /** Two revision numbers as `N..M`; compares the patch sets of both head revisions. */
+    interdiff?: string;
+};
+
+export type ReviewRevision = {
+    number: number;
+    headCommitHash: string;
+    baseCommitHash: string;
 };
 
 type ResolveReviewDiffScopeArgs = {
     search: ReviewDiffScopeSearch;
     commits: Commit[];
     destinationCommitHash?: string;
+    /** Head commit at the viewer's last review (or last visit); the start of the "since last review" scope. */
+    lastReviewedCommitHash?: string;
+    revisions?: ReviewRevision[];
 };
 
 type ResolvedReviewDiffScope =
@@ -23,10 +35,10 @@ type ResolvedReviewDiffScope =
           baseCommitHash?: undefined;
           headCommitHash?: undefined;
           normalizedSearch: ReviewDiffScopeSearch;
-          fallbackReason?: "invalid_range" | "missing_base_or_head";
+          fallbackReason?: "invalid_range" | "missing_base_or_head" | "no_previous_review" | "previous_review_unavailable" | "revision_unavailable";
       }
     | {
-          mode: "range";
+          mode: "range" | "sinceLastReview";
           visibleCommits: Commit[];
           allCommits: Commit[];
           selectedCommits: Commit[];
@@ -35,9 +47,23 @@ type ResolvedReviewDiffScope =
           headCommitHash: string;
           normalizedSearch: ReviewDiffScopeSearch;
           fallbackReason?: undefined;
+      }
+    | {
+          mode: "interdiff";
+          visibleCommits: Commit[];
+          allCommits: Commit[];
+          selectedCommits: Commit[];
+          selectedCommitHashes: string[];
+          baseCommitHash: string;
+          headCommitHash: string;
+          fromRevision: ReviewRevision;
+          toRevision: ReviewRevision;
+          normalizedSearch: ReviewDiffScopeSearch;
+          fallbackReason?: undefined;
       };
 
 const COMMIT_HASH_PATTERN = /^[0-9a-f]{7,64}$/i;
+const INTERDIFF_PATTERN = /^(\d+)\.\.(\d+)$/;
 
 function normalizeCommitHash(value: unknown) {
     if (typeof value !== "string") return undefined;
@@ -46,6 +72,16 @@ function normalizeCommitHash(value: unknown) {
     return trimmed;
 }
 
+function parseInterdiff(value: unknown) {
+    if (typeof value !== "string") return undefined;
+    const match = INTERDIFF_PATTERN.exec(value.trim());
+    if (!match) return undefined;
+    const from = Number(match[1]);
+    const to = Number(match[2]);
+    if (from === to || from < 1 || to < 1) return undefined;
+    return { from: Math.min(from, to), to: Math.max(from, to) };
+}
+
 function commitMessage(commit: Commit) {
     return (commit.summary?.raw ?? commit.message ?? "").trim();
 }
@@ -103,6 +139,13 @@ function orderCommitsOldestFirst(commits: Commit[]) {
 
 export function validateReviewDiffScopeSearch(search: unknown): ReviewDiffScopeSearch {
     const raw = typeof search === "object" && search ? (search as Record<string, unknown>) : {};
+    const interdiff = parseInterdiff(raw.interdiff);
+    if (interdiff) {
+        return { interdiff: `${interdiff.from}..${interdiff.to}` };
+    }
+    if (raw.since === "last-review") {
+        return { since: "last-review" };
+    }
     const from = normalizeCommitHash(raw.from);
     const to = normalizeCommitHash(raw.to);
     if (from && to) {
@@ -117,8 +160,79 @@ export function validateReviewDiffScopeSearch(search: unknown): ReviewDiffScopeS
     return {};
 }
 
-export function resolveReviewDiffScope({ search, commits, destinationCommitHash }: ResolveReviewDiffScopeArgs): ResolvedReviewDiffScope {
+function resolveSinceLastReviewScope(allCommits: Commit[], lastReviewedCommitHash?: string): ResolvedReviewDiffScope {
+    const visibleCommits = allCommits;
+    const reviewedHash = lastReviewedCommitHash?.trim();
+    const reviewedIndex = reviewedHash ? visibleCommits.findIndex((commit) => commit.hash === reviewedHash) : -1;
+    if (!reviewedHash || reviewedIndex < 0) {
+        return {
+            mode: "full",
+            allCommits,
+            visibleCommits,
+            selectedCommits: visibleCommits,
+            selectedCommitHashes: visibleCommits.map((commit) => commit.hash),
+            normalizedSearch: {},
+            fallbackReason: reviewedHash ? "previous_review_unavailable" : "no_previous_review",
+        };
+    }
+    // An unchanged head resolves to an empty selection so the page can say there is nothing new.
+    const selectedCommits = visibleCommits.slice(reviewedIndex + 1);
+    return {
+        mode: "sinceLastReview",
+        allCommits,
+        visibleCommits,
+        selectedCommits,
+        selectedCommitHashes: selectedCommits.map((commit) => commit.hash),
+        baseCommitHash: reviewedHash,
+        headCommitHash: selectedCommits[selectedCommits.length - 1]?.hash ?? reviewedHash,
+        normalizedSearch: { since: "last-review" },
+    };
+}
+
+function resolveInterdiffScope(allCommits: Commit[], interdiff: string, revisions: ReviewRevision[]): ResolvedReviewDiffScope {
+    const visibleCommits = allCommits;
+    const numbers = parseInterdiff(interdiff);
+    const fromRevision = revisions.find((revision) => revision.number === numbers?.from);
+    const toRevision = revisions.find((revision) => revision.number === numbers?.to);
+    if (!numbers || !fromRevision || !toRevision) {
+        return {
+            mode: "full",
+            allCommits,
+            visibleCommits,
+            selectedCommits: visibleCommits,
+            selectedCommitHashes: visibleCommits.map((commit) => commit.hash),
+            normalizedSearch: {},
+            fallbackReason: "revision_unavailable",
+        };
+    }
+    return {
+        mode: "interdiff",
+        allCommits,
+        visibleCommits,
+        selectedCommits: visibleCommits,
+        selectedCommitHashes: visibleCommits.map((commit) => commit.hash),
+        baseCommitHash: fromRevision.headCommitHash,
+        headCommitHash: toRevision.headCommitHash,
+        fromRevision,
+        toRevision,
+        normalizedSearch: { interdiff: `${numbers.from}..${numbers.to}` },
+    };
+}
+
+export function resolveReviewDiffScope({
+    search,
+    commits,
+    destinationCommitHash,
+    lastReviewedCommitHash,
+    revisions = [],
+}: ResolveReviewDiffScopeArgs): ResolvedReviewDiffScope {
     const allCommits = orderCommitsOldestFirst(commits);
+    if (search.interdiff) {
+        return resolveInterdiffScope(allCommits, search.interdiff, revisions);
+    }
+    if (search.since === "last-review") {
+        return resolveSinceLastReviewScope(allCommits, lastReviewedCommitHash);
+    }
     const visibleCommits = allCommits;
     const visibleIndex = new Map(visibleCommits.map((commit, index) => [commit.hash, index] as const));
     const hasRangeSelection = Boolean(search.from);
@@ -188,5 +302,6 @@ export function resolveReviewDiffScope({ search, commits, destinationCommitHash
 export function diffScopeStorageSegment(scope: ResolvedReviewDiffScope) {
     if (scope.mode === "full") return "full";
     if (!scope.baseCommitHash || !scope.headCommitHash) return "full";
+    if (scope.mode === "interdiff") return `interdiff:${scope.baseCommitHash}..${scope.headCommitHash}`;
     return `${scope.baseCommitHash}..${scope.headCommitHash}`;
 }
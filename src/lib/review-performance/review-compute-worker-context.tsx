@@ -3,32 +3,58 @@ import { createContext, type ReactNode, useCallback, useContext, useEffect, useM
 import type { CommentThread } from "@/components/pull-request-review/review-threads";
 import type { Comment as PullRequestComment } from "@/lib/git-host/types";
 import ReviewComputeWorker from "@/lib/review-performance/review-compute.worker?worker";
+import type { RevisionInterdiff } from "@/lib/revision-interdiff";
+import type { StructuralDiffOptions, StructuralHunkLabel } from "@/lib/structural-diff";
+import type { StructuredFileDiff } from "@/lib/structured-diff";
 import { LruCache } from "@/lib/utils/lru";
+import type { IgnoreWhitespaceMode } from "@/lib/whitespace-diff";
 
 type ComputeReviewDerivedPayload = {
     cacheKey: string;
     diffText: string;
     comments: PullRequestComment[];
+    structuralOptions: StructuralDiffOptions;
+    ignoreWhitespace: IgnoreWhitespaceMode;
+    fileContexts: Record<string, { oldLines: string[]; newLines: string[] }>;
 };
 
 type ComputeReviewDerivedResult = {
     fileDiffs: FileDiffMetadata[];
     fileDiffFingerprints: Map<string, string>;
+    structuralLabels: Map<string, StructuralHunkLabel[]>;
     threads: CommentThread[];
 };
 
-type WorkerRequest = {
-    type: "compute-review-derived";
-    requestId: number;
-    diffText: string;
-    comments: PullRequestComment[];
+type ComputeStructuredFileDiffPayload = {
+    path: string;
+    beforeText: string;
+    afterText: string;
+};
+
+type ComputeRevisionInterdiffPayload = {
+    fromDiff: string;
+    toDiff: string;
 };
 
+type WorkerRequest =
+    | {
+          type: "compute-review-derived";
+          requestId: number;
+          diffText: string;
+          comments: PullRequestComment[];
+          structuralOptions: StructuralDiffOptions;
+          ignoreWhitespace: IgnoreWhitespaceMode;
+          fileContexts: Record<string, { oldLines: string[]; newLines: string[] }>;
+      }
+    | ({ type: "compute-structured-file-diff"; requestId: number } & ComputeStructuredFileDiffPayload)
+    | ({ type: "compute-revision-interdiff"; requestId: number } & ComputeRevisionInterdiffPayload);
+
 type WorkerSuccessResponse = {
     type: "compute-review-derived:success";
     requestId: number;
     fileDiffs: FileDiffMetadata[];
     fileDiffFingerprints: Array<[string, string]>;
+    structuralLabels: Array<[string, StructuralHunkLabel[]]>;
     threads: CommentThread[];
 };
 
@@ -38,16 +64,38 @@ type WorkerErrorResponse = {
     error: string;
 };
 
-type WorkerResponse = WorkerSuccessResponse | WorkerErrorResponse;
+type StructuredFileDiffResponse =
+    | { type: "compute-structured-file-diff:success"; requestId: number; result: StructuredFileDiff }
+    | { type: "compute-structured-file-diff:error"; requestId: number; error: string };
 
-type PendingRequest = {
-    cacheKey: string;
-    resolve: (value: ComputeReviewDerivedResult) => void;
-    reject: (error: Error) => void;
-};
+type RevisionInterdiffResponse =
+    | { type: "compute-revision-interdiff:success"; requestId: number; result: RevisionInterdiff }
+    | { type: "compute-revision-interdiff:error"; requestId: number; error: string };
+
+type WorkerResponse = WorkerSuccessResponse | WorkerErrorResponse | StructuredFileDiffResponse | RevisionInterdiffResponse;
+
+type PendingRequest =
+    | {
+          kind: "review-derived";
+          cacheKey: string;
+          resolve: (value: ComputeReviewDerivedResult) => void;
+          reject: (error: Error) => void;
+      }
+    | {
+          kind: "structured-file-diff";
+          resolve: (value: StructuredFileDiff) => void;
+          reject: (error: Error) => void;
+      }
+    | {
+          kind: "revision-interdiff";
+          resolve: (value: RevisionInterdiff) => void;
+          reject: (error: Error) => void;
+      };
 
 type ReviewComputeWorkerContextValue = {
     computeReviewDerived: (payload: ComputeReviewDerivedPayload) => Promise<ComputeReviewDerivedResult>;
+    computeStructuredFileDiff: (payload: ComputeStructuredFileDiffPayload) => Promise<StructuredFileDiff>;
+    computeRevisionInterdiff: (payload: ComputeRevisionInterdiffPayload) => Promise<RevisionInterdiff>;
     workerReady: boolean;
 };
 
@@ -73,14 +121,29 @@ export function ReviewComputeWorkerProvider({ children }: { children: ReactNode
             if (!pending) return;
             pendingRequestsRef.current.delete(message.requestId);
 
-            if (message.type === "compute-review-derived:error") {
+            if (
+                message.type === "compute-review-derived:error" ||
+                message.type === "compute-structured-file-diff:error" ||
+                message.type === "compute-revision-interdiff:error"
+            ) {
                 pending.reject(new Error(message.error));
                 return;
             }
 
+            if (message.type === "compute-structured-file-diff:success") {
+                if (pending.kind === "structured-file-diff") pending.resolve(message.result);
+                return;
+            }
+            if (message.type === "compute-revision-interdiff:success") {
+                if (pending.kind === "revision-interdiff") pending.resolve(message.result);
+                return;
+            }
+            if (pending.kind !== "review-derived") return;
+
             const result: ComputeReviewDerivedResult = {
                 fileDiffs: message.fileDiffs,
                 fileDiffFingerprints: new Map(message.fileDiffFingerprints),
+                structuralLabels: new Map(message.structuralLabels),
                 threads: message.threads,
             };
             cacheRef.current.set(pending.cacheKey, result);
@@ -121,6 +184,7 @@ export function ReviewComputeWorkerProvider({ children }: { children: ReactNode
 
         return new Promise<ComputeReviewDerivedResult>((resolve, reject) => {
             pendingRequestsRef.current.set(requestId, {
+                kind: "review-derived",
                 cacheKey: payload.cacheKey,
                 resolve,
                 reject,
@@ -131,17 +195,54 @@ export function ReviewComputeWorkerProvider({ children }: { children: ReactNode
                 requestId,
                 diffText: payload.diffText,
                 comments: payload.comments,
+                structuralOptions: payload.structuralOptions,
+                ignoreWhitespace: payload.ignoreWhitespace,
+                fileContexts: payload.fileContexts,
             };
             worker.postMessage(request);
         });
     }, []);
 
+    const computeStructuredFileDiff = useCallback((payload: ComputeStructuredFileDiffPayload) => {
+        const worker = workerRef.current;
+        if (!worker) {
+            return Promise.reject(new Error("Review compute worker is unavailable."));
+        }
+
+        const requestId = nextRequestIdRef.current;
+        nextRequestIdRef.current += 1;
+
+        return new Promise<StructuredFileDiff>((resolve, reject) => {
+            pendingRequestsRef.current.set(requestId, { kind: "structured-file-diff", resolve, reject });
+            const request: WorkerRequest = { type: "compute-structured-file-diff", requestId, ...payload };
+            worker.postMessage(request);
+        });
+    }, []);
+
+    const computeRevisionInterdiff = useCallback((payload: ComputeRevisionInterdiffPayload) => {
+        const worker = workerRef.current;
+        if (!worker) {
+            return Promise.reject(new Error("Review compute worker is unavailable."));
+        }
+
+        const requestId = nextRequestIdRef.current;
+        nextRequestIdRef.current += 1;
+
+        return new Promise<RevisionInterdiff>((resolve, reject) => {
+            pendingRequestsRef.current.set(requestId, { kind: "revision-interdiff", resolve, reject });
+            const request: WorkerRequest = { type: "compute-revision-interdiff", requestId, ...payload };
+            worker.postMessage(request);
+        });
+    }, []);
+
     const value = useMemo(
         () => ({
             computeReviewDerived,
+            computeStructuredFileDiff,
+            computeRevisionInterdiff,
             workerReady,
         }),
-        [computeReviewDerived, workerReady],
+        [computeReviewDerived, computeRevisionInterdiff, computeStructuredFileDiff, workerReady],
     );
 
     return <ReviewComputeWorkerContext.Provider value={value}>{children}</ReviewComputeWorkerContext.Provider>;
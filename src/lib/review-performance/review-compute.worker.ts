@@ -1,6 +1,10 @@
 import { parsePatchFiles } from "@pierre/diffs";
 import type { FileDiffMetadata } from "@pierre/diffs/react";
 import type { Comment as PullRequestComment } from "@/lib/git-host/types";
+import { buildRevisionInterdiff, type RevisionInterdiff } from "@/lib/revision-interdiff";
+import { analyzeStructuralDiff, type StructuralDiffOptions, type StructuralHunkLabel } from "@/lib/structural-diff";
+import { computeStructuredFileDiff, type StructuredFileDiff } from "@/lib/structured-diff";
+import { applyIgnoreWhitespace, type IgnoreWhitespaceMode } from "@/lib/whitespace-diff";
 import { buildCommentThreads, type CommentThread } from "../../components/pull-request-review/review-threads";
 
 type ComputeReviewDerivedRequest = {
@@ -8,6 +12,9 @@ type ComputeReviewDerivedRequest = {
     requestId: number;
     diffText: string;
     comments: PullRequestComment[];
+    structuralOptions: StructuralDiffOptions;
+    ignoreWhitespace: IgnoreWhitespaceMode;
+    fileContexts: Record<string, { oldLines: string[]; newLines: string[] }>;
 };
 
 type ComputeReviewDerivedSuccess = {
@@ -15,6 +22,7 @@ type ComputeReviewDerivedSuccess = {
     requestId: number;
     fileDiffs: FileDiffMetadata[];
     fileDiffFingerprints: Array<[string, string]>;
+    structuralLabels: Array<[string, StructuralHunkLabel[]]>;
     threads: CommentThread[];
 };
 
@@ -24,8 +32,53 @@ type ComputeReviewDerivedError = {
     error: string;
 };
 
-type WorkerRequest = ComputeReviewDerivedRequest;
-type WorkerResponse = ComputeReviewDerivedSuccess | ComputeReviewDerivedError;
+type ComputeStructuredFileDiffRequest = {
+    type: "compute-structured-file-diff";
+    requestId: number;
+    path: string;
+    beforeText: string;
+    afterText: string;
+};
+
+type ComputeStructuredFileDiffSuccess = {
+    type: "compute-structured-file-diff:success";
+    requestId: number;
+    result: StructuredFileDiff;
+};
+
+type ComputeStructuredFileDiffError = {
+    type: "compute-structured-file-diff:error";
+    requestId: number;
+    error: string;
+};
+
+type ComputeRevisionInterdiffRequest = {
+    type: "compute-revision-interdiff";
+    requestId: number;
+    fromDiff: string;
+    toDiff: string;
+};
+
+type ComputeRevisionInterdiffSuccess = {
+    type: "compute-revision-interdiff:success";
+    requestId: number;
+    result: RevisionInterdiff;
+};
+
+type ComputeRevisionInterdiffError = {
+    type: "compute-revision-interdiff:error";
+    requestId: number;
+    error: string;
+};
+
+type WorkerRequest = ComputeReviewDerivedRequest | ComputeStructuredFileDiffRequest | ComputeRevisionInterdiffRequest;
+type WorkerResponse =
+    | ComputeReviewDerivedSuccess
+    | ComputeReviewDerivedError
+    | ComputeStructuredFileDiffSuccess
+    | ComputeStructuredFileDiffError
+    | ComputeRevisionInterdiffSuccess
+    | ComputeRevisionInterdiffError;
 
 function hashString(value: string) {
     let hash1 = 0x811c9dc5;
@@ -66,7 +119,8 @@ function buildFileDiffFingerprint(fileDiff: FileDiffMetadata) {
     return hashString(JSON.stringify(normalized));
 }
 
-function computeReviewDerived(diffText: string, comments: PullRequestComment[]) {
+function computeReviewDerived(message: ComputeReviewDerivedRequest) {
+    const { diffText, comments, structuralOptions, ignoreWhitespace, fileContexts } = message;
     const patches = diffText ? parsePatchFiles(diffText) : [];
     const fileDiffs = patches.flatMap((patch) => patch.files);
     const fingerprintEntries = new Map<string, string>();
@@ -78,26 +132,82 @@ function computeReviewDerived(diffText: string, comments: PullRequestComment[])
         }
     });
 
+    // Fingerprints come from the unmodified diff so viewed state does not depend on collapsed hunks.
+    const displayDiffs =
+        ignoreWhitespace === "none"
+            ? fileDiffs
+            : fileDiffs.map((fileDiff, index) => {
+                  const context = fileContexts[getFilePath(fileDiff, index)];
+                  return context ? applyIgnoreWhitespace(fileDiff, context, ignoreWhitespace) : fileDiff;
+              });
+    const structuralDiff = analyzeStructuralDiff(displayDiffs, getFilePath, structuralOptions);
+
     return {
-        fileDiffs,
+        fileDiffs: structuralDiff.fileDiffs,
         fileDiffFingerprints: Array.from(fingerprintEntries.entries()),
+        structuralLabels: Array.from(structuralDiff.labelsByPath.entries()),
         threads: buildCommentThreads(comments),
     };
 }
 
 const workerScope = self as unknown as Worker;
 
+function handleStructuredFileDiff(message: ComputeStructuredFileDiffRequest) {
+    try {
+        const response: ComputeStructuredFileDiffSuccess = {
+            type: "compute-structured-file-diff:success",
+            requestId: message.requestId,
+            result: computeStructuredFileDiff(message.path, message.beforeText, message.afterText),
+        };
+        workerScope.postMessage(response as WorkerResponse);
+    } catch (error) {
+        const response: ComputeStructuredFileDiffError = {
+            type: "compute-structured-file-diff:error",
+            requestId: message.requestId,
+            error: error instanceof Error ? error.message : "Failed to parse file contents.",
+        };
+        workerScope.postMessage(response as WorkerResponse);
+    }
+}
+
+function handleRevisionInterdiff(message: ComputeRevisionInterdiffRequest) {
+    try {
+        const response: ComputeRevisionInterdiffSuccess = {
+            type: "compute-revision-interdiff:success",
+            requestId: message.requestId,
+            result: buildRevisionInterdiff(message.fromDiff, message.toDiff),
+        };
+        workerScope.postMessage(response as WorkerResponse);
+    } catch (error) {
+        const response: ComputeRevisionInterdiffError = {
+            type: "compute-revision-interdiff:error",
+            requestId: message.requestId,
+            error: error instanceof Error ? error.message : "Failed to compare revisions.",
+        };
+        workerScope.postMessage(response as WorkerResponse);
+    }
+}
+
 workerScope.onmessage = (event: MessageEvent<WorkerRequest>) => {
     const message = event.data;
+    if (message?.type === "compute-structured-file-diff") {
+        handleStructuredFileDiff(message);
+        return;
+    }
+    if (message?.type === "compute-revision-interdiff") {
+        handleRevisionInterdiff(message);
+        return;
+    }
     if (message?.type !== "compute-review-derived") return;
 
     try {
-        const result = computeReviewDerived(message.diffText, message.comments);
+        const result = computeReviewDerived(message);
         const response: ComputeReviewDerivedSuccess = {
             type: "compute-review-derived:success",
             requestId: message.requestId,
             fileDiffs: result.fileDiffs,
             fileDiffFingerprints: result.fileDiffFingerprints,
+            structuralLabels: result.structuralLabels,
             threads: result.threads,
         };
         workerScope.postMessage(response as WorkerResponse);
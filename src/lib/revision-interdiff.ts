@@ -0,0 +1,242 @@
+import type { DiffStatEntry } from "@/lib/git-host/types";
+
+type PatchFile = {
+    path: string;
+    lines: string[];
+    raw: string[];
+};
+
+const INTERDIFF_CONTEXT_LINES = 3;
+// The edit search is quadratic when revisions barely overlap, so larger patch pairs are not compared.
+const MAX_INTERDIFF_LINES = 20_000;
+const HUNK_HEADER_PATTERN = /^@@ -\d+(?:,\d+)? \+\d+(?:,\d+)? @@ ?(.*)$/;
+
+function stripPathPrefix(value: string) {
+    const path = value.trim().split("\t")[0] ?? "";
+    if (path === "/dev/null") return undefined;
+    return path.replace(/^[ab]\//, "");
+}
+
+// Hunk positions shift with every rebase, so only the hunk's trailing context label is compared.
+function normalizePatchLine(line: string) {
+    const hunk = HUNK_HEADER_PATTERN.exec(line);
+    if (!hunk) return line;
+    return hunk[1] ? `@@ ${hunk[1]}` : "@@";
+}
+
+function parsePatchFiles(diff: string) {
+    const files = new Map<string, PatchFile>();
+    let current: { oldPath?: string; newPath?: string; gitPath?: string; lines: string[]; raw: string[]; inBody: boolean } | null = null;
+
+    const flush = () => {
+        if (!current) return;
+        const path = current.newPath ?? current.oldPath ?? current.gitPath;
+        if (path) files.set(path, { path, lines: current.lines, raw: current.raw });
+        current = null;
+    };
+
+    for (const line of diff.split("\n")) {
+        if (line.startsWith("diff --git ")) {
+            flush();
+            const gitPath = / b\/(.+)$/.exec(line)?.[1];
+            current = { gitPath, lines: [], raw: [line], inBody: false };
+            continue;
+        }
+        if (!current) continue;
+        current.raw.push(line);
+        if (!current.inBody && line.startsWith("--- ")) {
+            current.oldPath = stripPathPrefix(line.slice(4));
+            continue;
+        }
+        if (!current.inBody && line.startsWith("+++ ")) {
+            current.newPath = stripPathPrefix(line.slice(4));
+            continue;
+        }
+        if (line.startsWith("@@") || line.startsWith("Binary files")) {
+            current.inBody = true;
+        }
+        if (!current.inBody) continue;
+        current.lines.push(normalizePatchLine(line));
+    }
+    flush();
+
+    for (const file of files.values()) {
+        while (file.lines.length > 0 && file.lines[file.lines.length - 1] === "") {
+            file.lines.pop();
+        }
+        while (file.raw.length > 0 && file.raw[file.raw.length - 1] === "") {
+            file.raw.pop();
+        }
+    }
+    return files;
+}
+
+export type EditOperation = { type: "equal" | "delete" | "insert"; line: string };
+
+type MiddleSnake = { x: number; y: number; u: number; v: number };
+
+// Runs Myers' search from both ends at once until the paths overlap; only two frontiers are kept, so memory stays linear.
+function findMiddleSnake(a: string[], b: string[], aStart: number, aEnd: number, bStart: number, bEnd: number): MiddleSnake {
+    const n = aEnd - aStart;
+    const m = bEnd - bStart;
+    const delta = n - m;
+    const max = Math.ceil((n + m) / 2);
+    const offset = max + 1;
+    const forward = new Int32Array(2 * max + 3);
+    const backward = new Int32Array(2 * max + 3);
+
+    for (let d = 0; d <= max; d += 1) {
+        for (let k = -d; k <= d; k += 2) {
+            let x = k === -d || (k !== d && forward[offset + k - 1] < forward[offset + k + 1]) ? forward[offset + k + 1] : forward[offset + k - 1] + 1;
+            let y = x - k;
+            const startX = x;
+            const startY = y;
+            while (x < n && y < m && a[aStart + x] === b[bStart + y]) {
+                x += 1;
+                y += 1;
+            }
+            forward[offset + k] = x;
+            const reverseK = delta - k;
+            if (delta % 2 !== 0 && reverseK >= -(d - 1) && reverseK <= d - 1 && x + backward[offset + reverseK] >= n) {
+                return { x: aStart + startX, y: bStart + startY, u: aStart + x, v: bStart + y };
+            }
+        }
+        for (let k = -d; k <= d; k += 2) {
+            let x = k === -d || (k !== d && backward[offset + k - 1] < backward[offset + k + 1]) ? backward[offset + k + 1] : backward[offset + k - 1] + 1;
+            let y = x - k;
+            const startX = x;
+            const startY = y;
+            while (x < n && y < m && a[aEnd - 1 - x] === b[bEnd - 1 - y]) {
+                x += 1;
+                y += 1;
+            }
+            backward[offset + k] = x;
+            const forwardK = delta - k;
+            if (delta % 2 === 0 && forwardK >= -d && forwardK <= d && x + forward[offset + forwardK] >= n) {
+                return { x: aEnd - x, y: bEnd - y, u: aEnd - startX, v: bEnd - startY };
+            }
+        }
+    }
+    throw new Error("Interdiff search did not converge");
+}
+
+// Myers' shortest edit script in linear space: split at the middle snake and diff both halves.
+export function diffLines(a: string[], b: string[]): EditOperation[] {
+    const operations: EditOperation[] = [];
+
+    const walk = (aStart: number, aEnd: number, bStart: number, bEnd: number) => {
+        while (aStart < aEnd && bStart < bEnd && a[aStart] === b[bStart]) {
+            operations.push({ type: "equal", line: a[aStart] });
+            aStart += 1;
+            bStart += 1;
+        }
+        let suffix = 0;
+        while (aEnd - suffix > aStart && bEnd - suffix > bStart && a[aEnd - suffix - 1] === b[bEnd - suffix - 1]) {
+            suffix += 1;
+        }
+
+        if (aStart === aEnd - suffix) {
+            for (let y = bStart; y < bEnd - suffix; y += 1) operations.push({ type: "insert", line: b[y] });
+        } else if (bStart === bEnd - suffix) {
+            for (let x = aStart; x < aEnd - suffix; x += 1) operations.push({ type: "delete", line: a[x] });
+        } else {
+            // With common ends trimmed and both sides non-empty, at least two edits remain, so both halves shrink.
+            const snake = findMiddleSnake(a, b, aStart, aEnd - suffix, bStart, bEnd - suffix);
+            walk(aStart, snake.x, bStart, snake.y);
+            for (let x = snake.x; x < snake.u; x += 1) operations.push({ type: "equal", line: a[x] });
+            walk(snake.u, aEnd - suffix, snake.v, bEnd - suffix);
+        }
+
+        for (let x = aEnd - suffix; x < aEnd; x += 1) operations.push({ type: "equal", line: a[x] });
+    };
+
+    walk(0, a.length, 0, b.length);
+    return operations;
+}
+
+export function formatHunks(operations: EditOperation[]) {
+    const output: string[] = [];
+    const changeIndexes = operations.flatMap((operation, index) => (operation.type === "equal" ? [] : [index]));
+    let cursor = 0;
+    while (cursor < changeIndexes.length) {
+        const start = Math.max(0, changeIndexes[cursor] - INTERDIFF_CONTEXT_LINES);
+        let end = changeIndexes[cursor] + INTERDIFF_CONTEXT_LINES;
+        while (cursor + 1 < changeIndexes.length && changeIndexes[cursor + 1] - INTERDIFF_CONTEXT_LINES <= end + 1) {
+            cursor += 1;
+            end = changeIndexes[cursor] + INTERDIFF_CONTEXT_LINES;
+        }
+        end = Math.min(operations.length - 1, end);
+        cursor += 1;
+
+        let oldStart = 1;
+        let newStart = 1;
+        for (const operation of operations.slice(0, start)) {
+            if (operation.type !== "insert") oldStart += 1;
+            if (operation.type !== "delete") newStart += 1;
+        }
+        const body = operations.slice(start, end + 1);
+        const oldCount = body.filter((operation) => operation.type !== "insert").length;
+        const newCount = body.filter((operation) => operation.type !== "delete").length;
+        output.push(`@@ -${oldCount === 0 ? oldStart - 1 : oldStart},${oldCount} +${newCount === 0 ? newStart - 1 : newStart},${newCount} @@`);
+        for (const operation of body) {
+            const prefix = operation.type === "equal" ? " " : operation.type === "delete" ? "-" : "+";
+            output.push(`${prefix}${operation.line}`);
+        }
+    }
+    return output;
+}
+
+export function splitDiffByFile(diff: string) {
+    const patches = new Map<string, string>();
+    for (const file of parsePatchFiles(diff).values()) {
+        patches.set(file.path, `${file.raw.join("\n")}\n`);
+    }
+    return patches;
+}
+
+export type RevisionInterdiff = {
+    diff: string;
+    diffstat: DiffStatEntry[];
+    tooLarge: boolean;
+};
+
+/**
+ * Compares two patch sets rather than two trees: the result's "file contents" are the patch lines of each
+ * revision, so a rebase onto a moved base only shows up where the author's own changes differ.
+ */
+export function buildRevisionInterdiff(fromDiff: string, toDiff: string): RevisionInterdiff {
+    const fromFiles = parsePatchFiles(fromDiff);
+    const toFiles = parsePatchFiles(toDiff);
+    const paths = [...toFiles.keys(), ...Array.from(fromFiles.keys()).filter((path) => !toFiles.has(path))];
+    const changed = paths.flatMap((path) => {
+        const fromLines = fromFiles.get(path)?.lines ?? [];
+        const toLines = toFiles.get(path)?.lines ?? [];
+        if (fromLines.length === toLines.length && fromLines.every((line, index) => line === toLines[index])) return [];
+        return [{ path, fromLines, toLines }];
+    });
+    if (changed.reduce((total, file) => total + file.fromLines.length + file.toLines.length, 0) > MAX_INTERDIFF_LINES) {
+        return { diff: "", diffstat: [], tooLarge: true };
+    }
+
+    const output: string[] = [];
+    const diffstat: DiffStatEntry[] = [];
+    for (const { path, fromLines, toLines } of changed) {
+        const operations = diffLines(fromLines, toLines);
+        const status: DiffStatEntry["status"] = fromLines.length === 0 ? "added" : toLines.length === 0 ? "removed" : "modified";
+        output.push(`diff --git a/${path} b/${path}`);
+        if (status === "added") output.push("new file mode 100644");
+        if (status === "removed") output.push("deleted file mode 100644");
+        output.push(status === "added" ? "--- /dev/null" : `--- a/${path}`);
+        output.push(status === "removed" ? "+++ /dev/null" : `+++ b/${path}`);
+        output.push(...formatHunks(operations));
+        diffstat.push({
+            status,
+            ...(status === "added" ? {} : { old: { path } }),
+            ...(status === "removed" ? {} : { new: { path } }),
+            linesAdded: operations.filter((operation) => operation.type === "insert").length,
+            linesRemoved: operations.filter((operation) => operation.type === "delete").length,
+        });
+    }
+
+    return { diff: output.length > 0 ? `${output.join("\n")}\n` : "", diffstat, tooLarge: false };
+}
@@ -0,0 +1,81 @@
+import { createContext, type ReactNode, useCallback, useContext, useEffect, useMemo, useState, useSyncExternalStore } from "react";
+import { ensureDataCollectionsReady, readSyncSettingsRecord, writeSyncSettingsRecord } from "@/lib/data/query-collections";
+import { getStateSyncStatusSnapshot, type StateSyncStatus, startStateSync, stopStateSync, subscribeStateSyncStatus } from "@/lib/data/sync/state-sync";
+import { createSyncId, deriveSyncKeys, normalizeSyncId } from "@/lib/data/sync/sync-crypto";
+import { clearStoredSyncKeys, readStoredSyncKeys, writeStoredSyncKeys } from "@/lib/data/sync/sync-key-store";
+
+interface StateSyncContextType {
+    hydrated: boolean;
+    enabled: boolean;
+    /** Shown once sync is on, so it can be entered on other devices. */
+    syncId: string | null;
+    status: StateSyncStatus;
+    /** Without a sync ID this device starts a new one. */
+    enable: (passphrase: string, syncId?: string) => Promise<void>;
+    disable: () => Promise<void>;
+}
+
+const StateSyncContext = createContext<StateSyncContextType | null>(null);
+
+function useStateSyncProviderValue(): StateSyncContextType {
+    const [enabled, setEnabled] = useState(false);
+    const [syncId, setSyncId] = useState<string | null>(null);
+    const [hydrated, setHydrated] = useState(false);
+    const status = useSyncExternalStore(subscribeStateSyncStatus, getStateSyncStatusSnapshot, getStateSyncStatusSnapshot);
+
+    useEffect(() => {
+        let cancelled = false;
+        void (async () => {
+            await ensureDataCollectionsReady();
+            if (cancelled) return;
+            const stored = readSyncSettingsRecord();
+            // Only the derived keys are kept, so sync resumes without the passphrase; without them it has to be turned on again.
+            const keys = stored?.enabled === true && stored.syncId ? await readStoredSyncKeys().catch(() => null) : null;
+            if (cancelled) return;
+            setEnabled(Boolean(keys));
+            setSyncId(keys && stored ? stored.syncId : null);
+            setHydrated(true);
+            if (keys) {
+                await startStateSync(keys).catch((error) => {
+                    console.error("Failed to resume state sync.", error);
+                });
+            }
+        })();
+        return () => {
+            cancelled = true;
+            void stopStateSync();
+        };
+    }, []);
+
+    const enable = useCallback(async (passphrase: string, enteredSyncId?: string) => {
+        const nextSyncId = enteredSyncId?.trim() ? normalizeSyncId(enteredSyncId) : createSyncId();
+        if (!nextSyncId) throw new Error("The sync ID should be the 32 characters shown on your other device");
+        const keys = await deriveSyncKeys(passphrase, nextSyncId);
+        await startStateSync(keys);
+        await writeStoredSyncKeys(keys);
+        writeSyncSettingsRecord({ enabled: true, syncId: nextSyncId });
+        setSyncId(nextSyncId);
+        setEnabled(true);
+    }, []);
+
+    const disable = useCallback(async () => {
+        await stopStateSync();
+        await clearStoredSyncKeys();
+        writeSyncSettingsRecord({ enabled: false, syncId: "" });
+        setSyncId(null);
+        setEnabled(false);
+    }, []);
+
+    return useMemo(() => ({ hydrated, enabled, syncId, status, enable, disable }), [disable, enable, enabled, hydrated, status, syncId]);
+}
+
+export function StateSyncProvider({ children }: { children: ReactNode }) {
+    const value = useStateSyncProviderValue();
+    return <StateSyncContext.Provider value={value}>{children}</StateSyncContext.Provider>;
+}
+
+export function useStateSync() {
+    const ctx = useContext(StateSyncContext);
+    if (!ctx) throw new Error("useStateSync must be used within StateSyncProvider");
+    return ctx;
+}
@@ -0,0 +1,442 @@
+import { getFiletypeFromFileName } from "@pierre/diffs";
+import type { FileDiffMetadata } from "@pierre/diffs/react";
+
+export type StructuralDiffOptions = {
+    structural: boolean;
+    hideFormattingChanges: boolean;
+    hideExactMoves: boolean;
+};
+
+export type StructuralLabelTarget = {
+    path: string;
+    side: "additions" | "deletions";
+    lineNumber: number;
+};
+
+export type StructuralHunkLabel = {
+    kind: "moved" | "renamed" | "formatting";
+    side: "additions" | "deletions";
+    lineNumber: number;
+    label: string;
+    /** The other end of a move, for jumping between the two locations. */
+    target?: StructuralLabelTarget;
+};
+
+type ChangeBlock = {
+    id: number;
+    path: string;
+    hunkIndex: number;
+    deletionStart: number;
+    additionStart: number;
+    deletions: string[];
+    additions: string[];
+};
+
+type MoveCandidate = {
+    block: ChangeBlock;
+    offset: number;
+};
+
+const STRUCTURAL_LANGUAGES = new Set([
+    "c",
+    "cpp",
+    "csharp",
+    "css",
+    "dart",
+    "go",
+    "graphql",
+    "java",
+    "javascript",
+    "json",
+    "jsonc",
+    "jsx",
+    "kotlin",
+    "less",
+    "lua",
+    "objective-c",
+    "objective-cpp",
+    "php",
+    "python",
+    "ruby",
+    "rust",
+    "scala",
+    "scss",
+    "sql",
+    "svelte",
+    "swift",
+    "tsx",
+    "typescript",
+    "vue",
+    "yaml",
+    "yml",
+    "zig",
+]);
+// Leading whitespace is syntax in these languages, so re-indenting them is never formatting-only.
+const INDENTATION_SENSITIVE_LANGUAGES = new Set(["python", "yaml", "yml"]);
+// Hiding trusts the regex tokenizer, so it is limited to languages it reads exactly and where whitespace between tokens
+// never carries meaning. Elsewhere a newline (semicolon insertion), indentation, a multi-line string or a YAML scalar can
+// make a whitespace-only edit real, so those blocks are labelled but stay visible.
+const FORMATTING_HIDEABLE_LANGUAGES = new Set(["json", "jsonc"]);
+const KEYWORDS = new Set([
+    "async",
+    "await",
+    "break",
+    "case",
+    "catch",
+    "class",
+    "const",
+    "continue",
+    "def",
+    "default",
+    "do",
+    "else",
+    "enum",
+    "export",
+    "extends",
+    "false",
+    "fn",
+    "for",
+    "func",
+    "function",
+    "if",
+    "implements",
+    "import",
+    "in",
+    "interface",
+    "let",
+    "new",
+    "null",
+    "private",
+    "protected",
+    "public",
+    "return",
+    "static",
+    "struct",
+    "switch",
+    "this",
+    "throw",
+    "true",
+    "try",
+    "type",
+    "undefined",
+    "var",
+    "void",
+    "while",
+    "yield",
+]);
+const TOKEN_PATTERN = /[A-Za-z_$][\w$]*|\d[\w.]*|"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'|`(?:\\.|[^`\\])*`|\S/g;
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][\w$]*$/;
+const MIN_MOVED_LINES = 3;
+const MAX_MOVE_CANDIDATES = 40;
+const MAX_RENAME_LABELS = 3;
+
+function stripLineEnding(line: string) {
+    return line.replace(/\r?\n$/, "");
+}
+
+function tokenize(text: string): string[] {
+    return text.match(TOKEN_PATTERN) ?? [];
+}
+
+function moveKey(line: string) {
+    return tokenize(line).join(" ");
+}
+
+// Meaningful lines start and anchor a move; closing braces and blank lines only extend one.
+function isMeaningfulLine(key: string) {
+    return /[\w$]/.test(key) && key.length >= 4;
+}
+
+function formattingKey(lines: string[], indentationSensitive: boolean) {
+    if (!indentationSensitive) return tokenize(lines.join("\n")).join(" ");
+    return lines
+        .filter((line) => line.trim())
+        .map((line) => `${/^\s*/.exec(line)?.[0] ?? ""}${moveKey(line)}`)
+        .join("\n");
+}
+
+function getFileLanguage(fileDiff: FileDiffMetadata) {
+    return fileDiff.lang ?? getFiletypeFromFileName(fileDiff.name);
+}
+
+function supportsStructuralDiff(fileDiff: FileDiffMetadata) {
+    return STRUCTURAL_LANGUAGES.has(getFileLanguage(fileDiff));
+}
+
+function collectChangeBlocks(fileDiff: FileDiffMetadata, path: string, nextId: () => number) {
+    const blocks: ChangeBlock[] = [];
+    fileDiff.hunks.forEach((hunk, hunkIndex) => {
+        for (const content of hunk.hunkContent) {
+            if (content.type !== "change") continue;
+            blocks.push({
+                id: nextId(),
+                path,
+                hunkIndex,
+                deletionStart: hunk.deletionStart + content.deletionLineIndex - hunk.deletionLineIndex,
+                additionStart: hunk.additionStart + content.additionLineIndex - hunk.additionLineIndex,
+                deletions: fileDiff.deletionLines.slice(content.deletionLineIndex, content.deletionLineIndex + content.deletions).map(stripLineEnding),
+                additions: fileDiff.additionLines.slice(content.additionLineIndex, content.additionLineIndex + content.additions).map(stripLineEnding),
+            });
+        }
+    });
+    return blocks;
+}
+
+/** Describes a change block whose tokens only differ by a consistent identifier substitution. */
+function describeRename(block: ChangeBlock) {
+    const before = tokenize(block.deletions.join("\n"));
+    const after = tokenize(block.additions.join("\n"));
+    if (before.length === 0 || before.length !== after.length) return null;
+    const forward = new Map<string, string>();
+    const backward = new Map<string, string>();
+    for (let index = 0; index < before.length; index += 1) {
+        const from = before[index];
+        const to = after[index];
+        if (from === to) continue;
+        if (!IDENTIFIER_PATTERN.test(from) || !IDENTIFIER_PATTERN.test(to) || KEYWORDS.has(from) || KEYWORDS.has(to)) return null;
+        if ((forward.get(from) ?? to) !== to || (backward.get(to) ?? from) !== from) return null;
+        forward.set(from, to);
+        backward.set(to, from);
+    }
+    if (forward.size === 0) return null;
+    // An identifier that keeps appearing unchanged was not renamed everywhere in the block.
+    for (const [from, to] of forward) {
+        if (after.includes(from) || before.includes(to)) return null;
+    }
+    const renames = Array.from(forward, ([from, to]) => `${from} → ${to}`);
+    const shown = renames.slice(0, MAX_RENAME_LABELS).join(", ");
+    return renames.length > MAX_RENAME_LABELS ? `Renamed ${shown} and ${renames.length - MAX_RENAME_LABELS} more` : `Renamed ${shown}`;
+}
+
+function formatLocation(path: string, lineNumber: number, fromPath: string) {
+    return path === fromPath ? `line ${lineNumber}` : `${path}:${lineNumber}`;
+}
+
+function markCovered(covered: Map<number, boolean[]>, block: ChangeBlock, side: "additions" | "deletions", from: number, length: number) {
+    const key = side === "additions" ? block.id : -block.id;
+    const lines = covered.get(key) ?? new Array<boolean>(block[side].length).fill(false);
+    lines.fill(true, from, from + length);
+    covered.set(key, lines);
+}
+
+/**
+ * Matches added runs against removed runs elsewhere in the PR by their normalized lines, labels both
+ * ends, and returns the blocks whose every line belongs to a move without any textual change.
+ */
+function detectMoves(blocks: ChangeBlock[], labelsByPath: Map<string, StructuralHunkLabel[]>) {
+    const deletedLines = new Map<string, MoveCandidate[]>();
+    const deletionKeys = new Map<number, string[]>();
+    for (const block of blocks) {
+        const keys = block.deletions.map(moveKey);
+        deletionKeys.set(block.id, keys);
+        keys.forEach((key, offset) => {
+            if (!isMeaningfulLine(key)) return;
+            const candidates = deletedLines.get(key) ?? [];
+            candidates.push({ block, offset });
+            deletedLines.set(key, candidates);
+        });
+    }
+
+    const exactlyCovered = new Map<number, boolean[]>();
+    const labeledDeletions = new Set<string>();
+    for (const block of blocks) {
+        const keys = block.additions.map(moveKey);
+        let index = 0;
+        while (index < keys.length) {
+            const candidates = isMeaningfulLine(keys[index]) ? (deletedLines.get(keys[index]) ?? []) : [];
+            let best: { candidate: MoveCandidate; length: number; meaningful: number } | null = null;
+            if (candidates.length <= MAX_MOVE_CANDIDATES) {
+                for (const candidate of candidates) {
+                    // Text deleted and re-added in the same block is an edit, not a move.
+                    if (candidate.block.id === block.id) continue;
+                    const sourceKeys = deletionKeys.get(candidate.block.id) ?? [];
+                    let length = 0;
+                    let meaningful = 0;
+                    while (
+                        index + length < keys.length &&
+                        candidate.offset + length < sourceKeys.length &&
+                        keys[index + length] === sourceKeys[candidate.offset + length]
+                    ) {
+                        if (isMeaningfulLine(keys[index + length])) meaningful += 1;
+                        length += 1;
+                    }
+                    if (!best || meaningful > best.meaningful) best = { candidate, length, meaningful };
+                }
+            }
+            if (!best || best.meaningful < MIN_MOVED_LINES) {
+                index += 1;
+                continue;
+            }
+
+            const source = best.candidate.block;
+            const sourceOffset = best.candidate.offset;
+            const sourceLine = source.deletionStart + sourceOffset;
+            const targetLine = block.additionStart + index;
+            const lineCount = `${best.length} line${best.length === 1 ? "" : "s"}`;
+            const exact = block.additions.slice(index, index + best.length).every((line, offset) => line === source.deletions[sourceOffset + offset]);
+            const kind = exact ? "Moved" : "Moved with edits";
+            addLabel(labelsByPath, block.path, {
+                kind: "moved",
+                side: "additions",
+                lineNumber: targetLine,
+                label: `${kind} from ${formatLocation(source.path, sourceLine, block.path)} (${lineCount})`,
+                target: { path: source.path, side: "deletions", lineNumber: sourceLine },
+            });
+            const deletionKey = `${source.path}:${sourceLine}`;
+            if (!labeledDeletions.has(deletionKey)) {
+                labeledDeletions.add(deletionKey);
+                addLabel(labelsByPath, source.path, {
+                    kind: "moved",
+                    side: "deletions",
+                    lineNumber: sourceLine,
+                    label: `${kind} to ${formatLocation(block.path, targetLine, source.path)} (${lineCount})`,
+                    target: { path: block.path, side: "additions", lineNumber: targetLine },
+                });
+            }
+            if (exact) {
+                markCovered(exactlyCovered, block, "additions", index, best.length);
+                markCovered(exactlyCovered, source, "deletions", sourceOffset, best.length);
+            }
+            index += best.length;
+        }
+    }
+
+    const exactlyMovedBlocks = new Set<number>();
+    for (const block of blocks) {
+        const additions = block.additions.length === 0 || (exactlyCovered.get(block.id)?.every(Boolean) ?? false);
+        const deletions = block.deletions.length === 0 || (exactlyCovered.get(-block.id)?.every(Boolean) ?? false);
+        if (additions && deletions) exactlyMovedBlocks.add(block.id);
+    }
+    return exactlyMovedBlocks;
+}
+
+function addLabel(labelsByPath: Map<string, StructuralHunkLabel[]>, path: string, label: StructuralHunkLabel) {
+    const labels = labelsByPath.get(path) ?? [];
+    labels.push(label);
+    labelsByPath.set(path, labels);
+}
+
+/** Removes hunks and re-derives the offsets the renderer uses to lay out the remaining ones. */
+export function collapseHunks(fileDiff: FileDiffMetadata, collapsedHunks: Set<number>): FileDiffMetadata {
+    const lastHunk = fileDiff.hunks.at(-1);
+    if (!lastHunk) return fileDiff;
+    const trailingSplitLines = Math.max(0, fileDiff.splitLineCount - lastHunk.splitLineStart - lastHunk.splitLineCount);
+    const trailingUnifiedLines = Math.max(0, fileDiff.unifiedLineCount - lastHunk.unifiedLineStart - lastHunk.unifiedLineCount);
+
+    let splitLineStart = 0;
+    let unifiedLineStart = 0;
+    let previousAdditionEnd = 1;
+    const hunks = fileDiff.hunks
+        .filter((_, index) => !collapsedHunks.has(index))
+        .map((hunk) => {
+            const collapsedBefore = Math.max(0, hunk.additionStart - previousAdditionEnd);
+            splitLineStart += collapsedBefore;
+            unifiedLineStart += collapsedBefore;
+            const nextHunk = { ...hunk, collapsedBefore, splitLineStart, unifiedLineStart };
+            splitLineStart += hunk.splitLineCount;
+            unifiedLineStart += hunk.unifiedLineCount;
+            previousAdditionEnd = hunk.additionStart + hunk.additionCount;
+            return nextHunk;
+        });
+    const remainingAfterLastHunk = Math.max(0, lastHunk.additionStart + lastHunk.additionCount - previousAdditionEnd);
+
+    return {
+        ...fileDiff,
+        cacheKey: fileDiff.cacheKey ? `${fileDiff.cacheKey}:structural` : undefined,
+        hunks,
+        splitLineCount: splitLineStart + remainingAfterLastHunk + trailingSplitLines,
+        unifiedLineCount: unifiedLineStart + remainingAfterLastHunk + trailingUnifiedLines,
+    };
+}
+
+function isInCollapsedHunk(fileDiff: FileDiffMetadata, collapsedHunks: Set<number>, label: StructuralHunkLabel) {
+    return Array.from(collapsedHunks).some((hunkIndex) => {
+        const hunk = fileDiff.hunks[hunkIndex];
+        const start = label.side === "additions" ? hunk.additionStart : hunk.deletionStart;
+        const count = label.side === "additions" ? hunk.additionCount : hunk.deletionCount;
+        return label.lineNumber >= start && label.lineNumber < start + count;
+    });
+}
+
+/**
+ * Token-level analysis of the parsed diff. Code moved within the PR is always labelled; the structural mode also
+ * labels formatting-only blocks and consistent identifier renames. Tokens come from a regex rather than a grammar,
+ * so formatting-only hunks are only collapsed when the reviewer asks for it, and only in JSON.
+ */
+export function analyzeStructuralDiff(
+    fileDiffs: FileDiffMetadata[],
+    getPath: (fileDiff: FileDiffMetadata, index: number) => string,
+    options: StructuralDiffOptions,
+) {
+    const labelsByPath = new Map<string, StructuralHunkLabel[]>();
+    let blockId = 0;
+    const files = fileDiffs.map((fileDiff, fileIndex) => {
+        const path = getPath(fileDiff, fileIndex);
+        const blocks = collectChangeBlocks(fileDiff, path, () => {
+            blockId += 1;
+            return blockId;
+        });
+        return { fileDiff, path, blocks };
+    });
+
+    const formattingOnlyBlocks = new Set<number>();
+    const hideableFormattingBlocks = new Set<number>();
+    if (options.structural) {
+        for (const { fileDiff, path, blocks } of files) {
+            if (!supportsStructuralDiff(fileDiff)) continue;
+            const language = getFileLanguage(fileDiff);
+            const indentationSensitive = INDENTATION_SENSITIVE_LANGUAGES.has(language);
+            for (const block of blocks) {
+                if (formattingKey(block.deletions, indentationSensitive) === formattingKey(block.additions, indentationSensitive)) {
+                    formattingOnlyBlocks.add(block.id);
+                    if (FORMATTING_HIDEABLE_LANGUAGES.has(language)) hideableFormattingBlocks.add(block.id);
+                    continue;
+                }
+                const rename = describeRename(block);
+                if (rename) {
+                    addLabel(labelsByPath, path, { kind: "renamed", side: "additions", lineNumber: block.additionStart, label: rename });
+                }
+            }
+        }
+    }
+    const exactlyMovedBlocks = detectMoves(
+        files.flatMap(({ blocks }) => blocks.filter((block) => !formattingOnlyBlocks.has(block.id))),
+        labelsByPath,
+    );
+    const isCollapsible = (block: ChangeBlock) =>
+        (options.hideFormattingChanges && hideableFormattingBlocks.has(block.id)) || (options.hideExactMoves && exactlyMovedBlocks.has(block.id));
+
+    const nextFileDiffs = files.map(({ fileDiff, path, blocks }) => {
+        const collapsedHunks = new Set<number>();
+        fileDiff.hunks.forEach((_, hunkIndex) => {
+            const hunkBlocks = blocks.filter((block) => block.hunkIndex === hunkIndex);
+            if (hunkBlocks.length > 0 && hunkBlocks.every(isCollapsible)) collapsedHunks.add(hunkIndex);
+        });
+        // A file whose every hunk would collapse keeps them so it does not render empty.
+        if (collapsedHunks.size === fileDiff.hunks.length) collapsedHunks.clear();
+
+        for (const block of blocks) {
+            if (!formattingOnlyBlocks.has(block.id) || collapsedHunks.has(block.hunkIndex)) continue;
+            const side = block.additions.length > 0 ? "additions" : "deletions";
+            addLabel(labelsByPath, path, {
+                kind: "formatting",
+                side,
+                lineNumber: side === "additions" ? block.additionStart : block.deletionStart,
+                label: "Formatting only",
+            });
+        }
+        if (collapsedHunks.size === 0) return fileDiff;
+        const labels = labelsByPath.get(path);
+        if (labels)
+            labelsByPath.set(
+                path,
+                labels.filter((label) => !isInCollapsedHunk(fileDiff, collapsedHunks, label)),
+            );
+        return collapseHunks(fileDiff, collapsedHunks);
+    });
+
+    for (const labels of labelsByPath.values()) {
+        labels.sort((left, right) => left.lineNumber - right.lineNumber);
+    }
+    return { fileDiffs: nextFileDiffs, labelsByPath };
+}
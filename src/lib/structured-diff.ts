@@ -0,0 +1,268 @@
+import { parse as parseYaml } from "yaml";
+
+type StructuredDiffFormat = "json" | "yaml";
+
+export type StructuredChange = {
+    type: "added" | "removed" | "changed";
+    /** Key path such as `scripts.build` or `jobs.test.steps[2]`. */
+    path: string;
+    before?: string;
+    after?: string;
+};
+
+export type LockfilePackageChange = {
+    name: string;
+    before: string[];
+    after: string[];
+};
+
+export type LockfileDiffSummary = {
+    updated: LockfilePackageChange[];
+    added: LockfilePackageChange[];
+    removed: LockfilePackageChange[];
+};
+
+export type StructuredFileDiff = {
+    changes: StructuredChange[];
+    lockfile?: LockfileDiffSummary;
+};
+
+type LockfileParser = (text: string) => Map<string, Set<string>>;
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][\w$-]*$/;
+
+function fileNameOf(path: string) {
+    return path.split("/").pop() ?? path;
+}
+
+function getStructuredDiffFormat(path: string): StructuredDiffFormat | null {
+    const fileName = fileNameOf(path).toLowerCase();
+    if (fileName in LOCKFILE_PARSERS) return fileName.endsWith(".json") || fileName === "bun.lock" ? "json" : null;
+    if (/\.(json|jsonc|json5)$/.test(fileName)) return "json";
+    if (/\.(ya?ml)$/.test(fileName)) return "yaml";
+    return null;
+}
+
+function isLockfilePath(path: string) {
+    return fileNameOf(path).toLowerCase() in LOCKFILE_PARSERS;
+}
+
+export function supportsStructuredDiff(path: string) {
+    return getStructuredDiffFormat(path) !== null || isLockfilePath(path);
+}
+
+/** Drops comments and trailing commas so `tsconfig.json`-style files and `bun.lock` parse as JSON. */
+function parseJsonc(text: string): unknown {
+    let output = "";
+    let inString = false;
+    for (let index = 0; index < text.length; index += 1) {
+        const char = text[index];
+        const next = text[index + 1];
+        if (inString) {
+            output += char;
+            if (char === "\\") {
+                output += next ?? "";
+                index += 1;
+            } else if (char === '"') {
+                inString = false;
+            }
+            continue;
+        }
+        if (char === '"') {
+            inString = true;
+            output += char;
+        } else if (char === "/" && next === "/") {
+            while (index < text.length && text[index] !== "\n") index += 1;
+            output += "\n";
+        } else if (char === "/" && next === "*") {
+            index = text.indexOf("*/", index + 2);
+            if (index < 0) break;
+            index += 1;
+        } else {
+            output += char;
+        }
+    }
+    return JSON.parse(output.replace(/,(\s*[}\]])/g, "$1"));
+}
+
+function parseStructuredText(format: StructuredDiffFormat, text: string): unknown {
+    if (!text.trim()) return undefined;
+    return format === "json" ? parseJsonc(text) : parseYaml(text);
+}
+
+function formatKey(parentPath: string, key: string) {
+    if (IDENTIFIER_PATTERN.test(key)) return parentPath ? `${parentPath}.${key}` : key;
+    return `${parentPath}[${JSON.stringify(key)}]`;
+}
+
+function formatValue(value: unknown) {
+    return typeof value === "string" ? JSON.stringify(value) : (JSON.stringify(value) ?? String(value));
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function collectChanges(before: unknown, after: unknown, path: string, changes: StructuredChange[]) {
+    if (isPlainObject(before) && isPlainObject(after)) {
+        const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+        for (const key of keys) {
+            const keyPath = formatKey(path, key);
+            if (!(key in after)) changes.push({ type: "removed", path: keyPath, before: formatValue(before[key]) });
+            else if (!(key in before)) changes.push({ type: "added", path: keyPath, after: formatValue(after[key]) });
+            else collectChanges(before[key], after[key], keyPath, changes);
+        }
+        return;
+    }
+    if (Array.isArray(before) && Array.isArray(after)) {
+        for (let index = 0; index < Math.max(before.length, after.length); index += 1) {
+            const itemPath = `${path}[${index}]`;
+            if (index >= after.length) changes.push({ type: "removed", path: itemPath, before: formatValue(before[index]) });
+            else if (index >= before.length) changes.push({ type: "added", path: itemPath, after: formatValue(after[index]) });
+            else collectChanges(before[index], after[index], itemPath, changes);
+        }
+        return;
+    }
+    const beforeText = formatValue(before);
+    const afterText = formatValue(after);
+    if (beforeText !== afterText) changes.push({ type: "changed", path: path || "(root)", before: beforeText, after: afterText });
+}
+
+function emptyLike(value: unknown) {
+    if (Array.isArray(value)) return [];
+    return isPlainObject(value) ? {} : value;
+}
+
+function diffStructuredValues(before: unknown, after: unknown): StructuredChange[] {
+    const changes: StructuredChange[] = [];
+    // Added and deleted files diff against an empty document so their top-level keys are listed individually.
+    collectChanges(before === undefined ? emptyLike(after) : before, after === undefined ? emptyLike(before) : after, "", changes);
+    return changes;
+}
+
+function addVersion(packages: Map<string, Set<string>>, name: string, version: string | undefined) {
+    if (!name || !version) return;
+    const versions = packages.get(name) ?? new Set<string>();
+    versions.add(version);
+    packages.set(name, versions);
+}
+
+/** Splits `name@range` specifiers, keeping the leading `@` of scoped packages. */
+function splitPackageSpecifier(specifier: string) {
+    const atIndex = specifier.indexOf("@", 1);
+    return atIndex < 0 ? { name: specifier, range: "" } : { name: specifier.slice(0, atIndex), range: specifier.slice(atIndex + 1) };
+}
+
+function parsePackageLock(text: string) {
+    const packages = new Map<string, Set<string>>();
+    const lock = JSON.parse(text) as {
+        packages?: Record<string, { version?: string; name?: string }>;
+        dependencies?: Record<string, { version?: string; dependencies?: unknown }>;
+    };
+    if (lock.packages) {
+        for (const [key, entry] of Object.entries(lock.packages)) {
+            if (!key) continue;
+            const nodeModulesIndex = key.lastIndexOf("node_modules/");
+            addVersion(packages, entry.name ?? (nodeModulesIndex < 0 ? key : key.slice(nodeModulesIndex + "node_modules/".length)), entry.version);
+        }
+        return packages;
+    }
+    const visit = (dependencies: Record<string, { version?: string; dependencies?: unknown }> | undefined) => {
+        for (const [name, entry] of Object.entries(dependencies ?? {})) {
+            addVersion(packages, name, entry.version);
+            visit(entry.dependencies as typeof dependencies);
+        }
+    };
+    visit(lock.dependencies);
+    return packages;
+}
+
+function parseBunLock(text: string) {
+    const packages = new Map<string, Set<string>>();
+    const lock = parseJsonc(text) as { packages?: Record<string, unknown[]> };
+    for (const entry of Object.values(lock.packages ?? {})) {
+        if (typeof entry[0] !== "string") continue;
+        const { name, range } = splitPackageSpecifier(entry[0]);
+        addVersion(packages, name, range);
+    }
+    return packages;
+}
+
+function parseYarnLock(text: string) {
+    const packages = new Map<string, Set<string>>();
+    let currentName: string | null = null;
+    for (const line of text.split(/\r?\n/)) {
+        if (!line.trim() || line.startsWith("#")) continue;
+        if (!/^\s/.test(line)) {
+            const firstSpecifier = line.replace(/:$/, "").split(",")[0].trim().replace(/^"|"$/g, "");
+            currentName = firstSpecifier === "__metadata" ? null : splitPackageSpecifier(firstSpecifier).name;
+            continue;
+        }
+        const version = /^\s+version:?\s+"?([^"\s]+)"?/.exec(line)?.[1];
+        if (currentName && version) addVersion(packages, currentName, version);
+    }
+    return packages;
+}
+
+function parseCargoLock(text: string) {
+    const packages = new Map<string, Set<string>>();
+    for (const block of text.split(/^\[\[package\]\]\s*$/m).slice(1)) {
+        const name = /^name\s*=\s*"([^"]+)"/m.exec(block)?.[1];
+        const version = /^version\s*=\s*"([^"]+)"/m.exec(block)?.[1];
+        if (name) addVersion(packages, name, version);
+    }
+    return packages;
+}
+
+function parseGoSum(text: string) {
+    const modules = new Map<string, Set<string>>();
+    const goModOnly = new Map<string, Set<string>>();
+    for (const line of text.split(/\r?\n/)) {
+        const [module, version] = line.trim().split(/\s+/);
+        if (!module || !version) continue;
+        if (version.endsWith("/go.mod")) addVersion(goModOnly, module, version.slice(0, -"/go.mod".length));
+        else addVersion(modules, module, version);
+    }
+    // Modules only needed for graph pruning list just a go.mod hash; fall back to those versions.
+    for (const [module, versions] of goModOnly) {
+        if (!modules.has(module)) modules.set(module, versions);
+    }
+    return modules;
+}
+
+const LOCKFILE_PARSERS: Record<string, LockfileParser> = {
+    "package-lock.json": parsePackageLock,
+    "npm-shrinkwrap.json": parsePackageLock,
+    "bun.lock": parseBunLock,
+    "yarn.lock": parseYarnLock,
+    "cargo.lock": parseCargoLock,
+    "go.sum": parseGoSum,
+};
+
+function diffLockfilePackages(path: string, beforeText: string, afterText: string): LockfileDiffSummary {
+    const parser = LOCKFILE_PARSERS[fileNameOf(path).toLowerCase()];
+    if (!parser) throw new Error(`${fileNameOf(path)} is not a supported lockfile.`);
+    const before = beforeText.trim() ? parser(beforeText) : new Map<string, Set<string>>();
+    const after = afterText.trim() ? parser(afterText) : new Map<string, Set<string>>();
+    const summary: LockfileDiffSummary = { updated: [], added: [], removed: [] };
+    const names = Array.from(new Set([...before.keys(), ...after.keys()])).sort((left, right) => left.localeCompare(right));
+
+    for (const name of names) {
+        const beforeVersions = Array.from(before.get(name) ?? []).sort();
+        const afterVersions = Array.from(after.get(name) ?? []).sort();
+        const change = { name, before: beforeVersions, after: afterVersions };
+        if (beforeVersions.length === 0) summary.added.push(change);
+        else if (afterVersions.length === 0) summary.removed.push(change);
+        else if (beforeVersions.join("\u0000") !== afterVersions.join("\u0000")) summary.updated.push(change);
+    }
+    return summary;
+}
+
+export function computeStructuredFileDiff(path: string, beforeText: string, afterText: string): StructuredFileDiff {
+    const format = getStructuredDiffFormat(path);
+    const changes = format ? diffStructuredValues(parseStructuredText(format, beforeText), parseStructuredText(format, afterText)) : [];
+    return {
+        changes,
+        lockfile: isLockfilePath(path) ? diffLockfilePackages(path, beforeText, afterText) : undefined,
+    };
+}
@@ -0,0 +1,90 @@
+import { processFile } from "@pierre/diffs";
+import type { FileDiffMetadata } from "@pierre/diffs/react";
+import { diffLines, type EditOperation, formatHunks } from "@/lib/revision-interdiff";
+import { collapseHunks } from "@/lib/structural-diff";
+
+export type IgnoreWhitespaceMode = "none" | "trailing" | "all" | "blank-lines";
+
+type FileContext = {
+    oldLines: string[];
+    newLines: string[];
+};
+
+function normalizeLine(line: string, mode: IgnoreWhitespaceMode) {
+    const ending = line.endsWith("\n") ? "\n" : "";
+    const content = ending ? line.slice(0, -1) : line;
+    if (mode === "trailing") return `${content.replace(/\s+$/, "")}${ending}`;
+    if (mode === "all") return `${content.replace(/\s+/g, "")}${ending}`;
+    return line;
+}
+
+// Slides each run of insertions or deletions down past equal lines, like git does, so a removed line among
+// identical neighbours is always reported next to the change that follows it.
+function slideEditRuns(operations: EditOperation[]) {
+    let index = 0;
+    while (index < operations.length) {
+        const type = operations[index].type;
+        if (type === "equal") {
+            index += 1;
+            continue;
+        }
+        let start = index;
+        let end = index;
+        while (end < operations.length && operations[end].type === type) end += 1;
+        while (end < operations.length && operations[end].type === "equal" && operations[end].line === operations[start].line) {
+            [operations[start], operations[end]] = [operations[end], operations[start]];
+            start += 1;
+            end += 1;
+        }
+        index = end;
+    }
+    return operations;
+}
+
+function isBlankChangeOnly(fileDiff: FileDiffMetadata, hunk: FileDiffMetadata["hunks"][number]) {
+    return hunk.hunkContent.every((content) => {
+        if (content.type !== "change") return true;
+        const deletions = fileDiff.deletionLines.slice(content.deletionLineIndex, content.deletionLineIndex + content.deletions);
+        const additions = fileDiff.additionLines.slice(content.additionLineIndex, content.additionLineIndex + content.additions);
+        return [...deletions, ...additions].every((line) => !line.trim());
+    });
+}
+
+/**
+ * Re-derives a file's hunks from its full contents while ignoring whitespace. Normalization keeps one line per
+ * line, so hunks computed on the normalized text index straight into the real lines and keep real line numbers.
+ * A change that only adds or drops the final newline is whitespace too, so line endings are not compared.
+ */
+export function applyIgnoreWhitespace(fileDiff: FileDiffMetadata, context: FileContext, mode: IgnoreWhitespaceMode): FileDiffMetadata {
+    // Added and removed files have no counterpart to compare whitespace against.
+    if (mode === "none" || fileDiff.type === "new" || fileDiff.type === "deleted") return fileDiff;
+    // The parser slides blank-only runs back up to the top of their blank run; a visible prefix on every line keeps
+    // the runs where slideEditRuns put them.
+    const normalize = (lines: string[]) => lines.map((line) => `|${normalizeLine(line, mode).replace(/\n$/, "")}`);
+    const oldLines = normalize(context.oldLines);
+    const newLines = normalize(context.newLines);
+    const patch = ["--- a/file", "+++ b/file", ...formatHunks(slideEditRuns(diffLines(oldLines, newLines)))].join("\n");
+    const parsed = processFile(`${patch}\n`, {
+        oldFile: { name: "file", contents: oldLines.join("\n") },
+        newFile: { name: "file", contents: newLines.join("\n") },
+    });
+    if (!parsed) return fileDiff;
+    const rederived: FileDiffMetadata = {
+        ...parsed,
+        name: fileDiff.name,
+        prevName: fileDiff.prevName,
+        type: fileDiff.type,
+        lang: fileDiff.lang,
+        cacheKey: undefined,
+        isPartial: false,
+        deletionLines: context.oldLines,
+        additionLines: context.newLines,
+    };
+    if (mode !== "blank-lines") return rederived;
+
+    const blankOnlyHunks = new Set<number>();
+    rederived.hunks.forEach((hunk, index) => {
+        if (isBlankChangeOnly(rederived, hunk)) blankOnlyHunks.add(index);
+    });
+    return blankOnlyHunks.size > 0 ? collapseHunks(rederived, blankOnlyHunks) : rederived;
+}
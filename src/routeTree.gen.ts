@@ -15,8 +15,10 @@ import { Route as HostIndexRouteImport } from './routes/$host/index'
 import { Route as OauthCallbackRouteImport } from './routes/oauth/callback'
 import { Route as WorkspaceRepoPullPullRequestIdRouteImport } from './routes/$workspace/$repo/pull/$pullRequestId'
 import { Route as WorkspaceRepoPullRequestsPullRequestIdRouteImport } from './routes/$workspace/$repo/pull-requests/$pullRequestId'
+import { Route as WorkspaceRepoChar91Char93Merge_requestsPullRequestIdRouteImport } from './routes/$workspace/$repo/[-]/merge_requests/$pullRequestId'
 import { Route as WorkspaceRepoPullPullRequestIdChangesRouteImport } from './routes/$workspace/$repo/pull/$pullRequestId/changes'
 import { Route as WorkspaceRepoPullRequestsPullRequestIdDiffRouteImport } from './routes/$workspace/$repo/pull-requests/$pullRequestId/diff'
+import { Route as WorkspaceRepoChar91Char93Merge_requestsPullRequestIdDiffsRouteImport } from './routes/$workspace/$repo/[-]/merge_requests/$pullRequestId/diffs'
 
 const SettingsRoute = SettingsRouteImport.update({
   id: '/settings',
@@ -50,6 +52,12 @@ const WorkspaceRepoPullRequestsPullRequestIdRoute =
     path: '/$workspace/$repo/pull-requests/$pullRequestId',
     getParentRoute: () => rootRouteImport,
   } as any)
+const WorkspaceRepoChar91Char93Merge_requestsPullRequestIdRoute =
+  WorkspaceRepoChar91Char93Merge_requestsPullRequestIdRouteImport.update({
+    id: '/$workspace/$repo/-/merge_requests/$pullRequestId',
+    path: '/$workspace/$repo/-/merge_requests/$pullRequestId',
+    getParentRoute: () => rootRouteImport,
+  } as any)
 const WorkspaceRepoPullPullRequestIdChangesRoute =
   WorkspaceRepoPullPullRequestIdChangesRouteImport.update({
     id: '/changes',
@@ -62,6 +70,13 @@ const WorkspaceRepoPullRequestsPullRequestIdDiffRoute =
     path: '/diff',
     getParentRoute: () => WorkspaceRepoPullRequestsPullRequestIdRoute,
   } as any)
+const WorkspaceRepoChar91Char93Merge_requestsPullRequestIdDiffsRoute =
+  WorkspaceRepoChar91Char93Merge_requestsPullRequestIdDiffsRouteImport.update({
+    id: '/diffs',
+    path: '/diffs',
+    getParentRoute: () =>
+      WorkspaceRepoChar91Char93Merge_requestsPullRequestIdRoute,
+  } as any)
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
@@ -70,8 +85,10 @@ export interface FileRoutesByFullPath {
   '/$host/': typeof HostIndexRoute
   '/$workspace/$repo/pull-requests/$pullRequestId': typeof WorkspaceRepoPullRequestsPullRequestIdRouteWithChildren
   '/$workspace/$repo/pull/$pullRequestId': typeof WorkspaceRepoPullPullRequestIdRouteWithChildren
+  '/$workspace/$repo/-/merge_requests/$pullRequestId': typeof WorkspaceRepoChar91Char93Merge_requestsPullRequestIdRouteWithChildren
   '/$workspace/$repo/pull-requests/$pullRequestId/diff': typeof WorkspaceRepoPullRequestsPullRequestIdDiffRoute
   '/$workspace/$repo/pull/$pullRequestId/changes': typeof WorkspaceRepoPullPullRequestIdChangesRoute
+  '/$workspace/$repo/-/merge_requests/$pullRequestId/diffs': typeof WorkspaceRepoChar91Char93Merge_requestsPullRequestIdDiffsRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
@@ -80,8 +97,10 @@ export interface FileRoutesByTo {
   '/$host': typeof HostIndexRoute
   '/$workspace/$repo/pull-requests/$pullRequestId': typeof WorkspaceRepoPullRequestsPullRequestIdRouteWithChildren
   '/$workspace/$repo/pull/$pullRequestId': typeof WorkspaceRepoPullPullRequestIdRouteWithChildren
+  '/$workspace/$repo/-/merge_requests/$pullRequestId': typeof WorkspaceRepoChar91Char93Merge_requestsPullRequestIdRouteWithChildren
   '/$workspace/$repo/pull-requests/$pullRequestId/diff': typeof WorkspaceRepoPullRequestsPullRequestIdDiffRoute
   '/$workspace/$repo/pull/$pullRequestId/changes': typeof WorkspaceRepoPullPullRequestIdChangesRoute
+  '/$workspace/$repo/-/merge_requests/$pullRequestId/diffs': typeof WorkspaceRepoChar91Char93Merge_requestsPullRequestIdDiffsRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
@@ -91,8 +110,10 @@ export interface FileRoutesById {
   '/$host/': typeof HostIndexRoute
   '/$workspace/$repo/pull-requests/$pullRequestId': typeof WorkspaceRepoPullRequestsPullRequestIdRouteWithChildren
   '/$workspace/$repo/pull/$pullRequestId': typeof WorkspaceRepoPullPullRequestIdRouteWithChildren
+  '/$workspace/$repo/-/merge_requests/$pullRequestId': typeof WorkspaceRepoChar91Char93Merge_requestsPullRequestIdRouteWithChildren
   '/$workspace/$repo/pull-requests/$pullRequestId/diff': typeof WorkspaceRepoPullRequestsPullRequestIdDiffRoute
   '/$workspace/$repo/pull/$pullRequestId/changes': typeof WorkspaceRepoPullPullRequestIdChangesRoute
+  '/$workspace/$repo/-/merge_requests/$pullRequestId/diffs': typeof WorkspaceRepoChar91Char93Merge_requestsPullRequestIdDiffsRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
@@ -103,8 +124,10 @@ export interface FileRouteTypes {
     | '/$host/'
     | '/$workspace/$repo/pull-requests/$pullRequestId'
     | '/$workspace/$repo/pull/$pullRequestId'
+    | '/$workspace/$repo/-/merge_requests/$pullRequestId'
     | '/$workspace/$repo/pull-requests/$pullRequestId/diff'
     | '/$workspace/$repo/pull/$pullRequestId/changes'
+    | '/$workspace/$repo/-/merge_requests/$pullRequestId/diffs'
   fileRoutesByTo: FileRoutesByTo
   to:
     | '/'
@@ -113,8 +136,10 @@ export interface FileRouteTypes {
     | '/$host'
     | '/$workspace/$repo/pull-requests/$pullRequestId'
     | '/$workspace/$repo/pull/$pullRequestId'
+    | '/$workspace/$repo/-/merge_requests/$pullRequestId'
     | '/$workspace/$repo/pull-requests/$pullRequestId/diff'
     | '/$workspace/$repo/pull/$pullRequestId/changes'
+    | '/$workspace/$repo/-/merge_requests/$pullRequestId/diffs'
   id:
     | '__root__'
     | '/'
@@ -123,8 +148,10 @@ export interface FileRouteTypes {
     | '/$host/'
     | '/$workspace/$repo/pull-requests/$pullRequestId'
     | '/$workspace/$repo/pull/$pullRequestId'
+    | '/$workspace/$repo/-/merge_requests/$pullRequestId'
     | '/$workspace/$repo/pull-requests/$pullRequestId/diff'
     | '/$workspace/$repo/pull/$pullRequestId/changes'
+    | '/$workspace/$repo/-/merge_requests/$pullRequestId/diffs'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
@@ -134,6 +161,7 @@ export interface RootRouteChildren {
   HostIndexRoute: typeof HostIndexRoute
   WorkspaceRepoPullRequestsPullRequestIdRoute: typeof WorkspaceRepoPullRequestsPullRequestIdRouteWithChildren
   WorkspaceRepoPullPullRequestIdRoute: typeof WorkspaceRepoPullPullRequestIdRouteWithChildren
+  WorkspaceRepoChar91Char93Merge_requestsPullRequestIdRoute: typeof WorkspaceRepoChar91Char93Merge_requestsPullRequestIdRouteWithChildren
 }
 
 declare module '@tanstack/react-router' {
@@ -180,6 +208,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof WorkspaceRepoPullRequestsPullRequestIdRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/$workspace/$repo/-/merge_requests/$pullRequestId': {
+      id: '/$workspace/$repo/-/merge_requests/$pullRequestId'
+      path: '/$workspace/$repo/-/merge_requests/$pullRequestId'
+      fullPath: '/$workspace/$repo/-/merge_requests/$pullRequestId'
+      preLoaderRoute: typeof WorkspaceRepoChar91Char93Merge_requestsPullRequestIdRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/$workspace/$repo/pull/$pullRequestId/changes': {
       id: '/$workspace/$repo/pull/$pullRequestId/changes'
       path: '/changes'
@@ -194,6 +229,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof WorkspaceRepoPullRequestsPullRequestIdDiffRouteImport
       parentRoute: typeof WorkspaceRepoPullRequestsPullRequestIdRoute
     }
+    '/$workspace/$repo/-/merge_requests/$pullRequestId/diffs': {
+      id: '/$workspace/$repo/-/merge_requests/$pullRequestId/diffs'
+      path: '/diffs'
+      fullPath: '/$workspace/$repo/-/merge_requests/$pullRequestId/diffs'
+      preLoaderRoute: typeof WorkspaceRepoChar91Char93Merge_requestsPullRequestIdDiffsRouteImport
+      parentRoute: typeof WorkspaceRepoChar91Char93Merge_requestsPullRequestIdRoute
+    }
   }
 }
 
@@ -227,6 +269,21 @@ const WorkspaceRepoPullPullRequestIdRouteWithChildren =
     WorkspaceRepoPullPullRequestIdRouteChildren,
   )
 
+interface WorkspaceRepoChar91Char93Merge_requestsPullRequestIdRouteChildren {
+  WorkspaceRepoChar91Char93Merge_requestsPullRequestIdDiffsRoute: typeof WorkspaceRepoChar91Char93Merge_requestsPullRequestIdDiffsRoute
+}
+
+const WorkspaceRepoChar91Char93Merge_requestsPullRequestIdRouteChildren: WorkspaceRepoChar91Char93Merge_requestsPullRequestIdRouteChildren =
+  {
+    WorkspaceRepoChar91Char93Merge_requestsPullRequestIdDiffsRoute:
+      WorkspaceRepoChar91Char93Merge_requestsPullRequestIdDiffsRoute,
+  }
+
+const WorkspaceRepoChar91Char93Merge_requestsPullRequestIdRouteWithChildren =
+  WorkspaceRepoChar91Char93Merge_requestsPullRequestIdRoute._addFileChildren(
+    WorkspaceRepoChar91Char93Merge_requestsPullRequestIdRouteChildren,
+  )
+
 const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
   SettingsRoute: SettingsRoute,
@@ -236,6 +293,8 @@ const rootRouteChildren: RootRouteChildren = {
     WorkspaceRepoPullRequestsPullRequestIdRouteWithChildren,
   WorkspaceRepoPullPullRequestIdRoute:
     WorkspaceRepoPullPullRequestIdRouteWithChildren,
+  WorkspaceRepoChar91Char93Merge_requestsPullRequestIdRoute:
+    WorkspaceRepoChar91Char93Merge_requestsPullRequestIdRouteWithChildren,
 }
 export const routeTree = rootRouteImport
   ._addFileChildren(rootRouteChildren)
@@ -8,7 +8,7 @@ export const Route = createFileRoute("/$host/")({
 function HostLandingPage() {
     const { host } = Route.useParams();
 
-    if (host !== "bitbucket" && host !== "github") {
+    if (host !== "bitbucket" && host !== "github" && host !== "gitlab") {
         return <LandingPage />;
     }
 
@@ -0,0 +1,16 @@
+import { createFileRoute, redirect } from "@tanstack/react-router";
+
+const DEFAULT_REVIEW_SCOPE_SEARCH = {} as const;
+
+export const Route = createFileRoute("/$workspace/$repo/-/merge_requests/$pullRequestId/diffs")({
+    beforeLoad: ({ location, params }) => {
+        throw redirect({
+            to: "/$workspace/$repo/-/merge_requests/$pullRequestId",
+            params,
+            search:
+                typeof location.search === "object" && location.search ? { ...DEFAULT_REVIEW_SCOPE_SEARCH, ...location.search } : DEFAULT_REVIEW_SCOPE_SEARCH,
+            hash: location.hash,
+            replace: true,
+        });
+    },
+});
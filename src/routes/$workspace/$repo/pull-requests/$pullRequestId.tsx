@@ -1,18 +1,22 @@
 import { createFileRoute } from "@tanstack/react-router";
 import { useEffect } from "react";
 import { PullRequestReviewPage } from "@/features/review/components/pull-request-review-page";
+import { normalizeSelfHostedInstance } from "@/lib/git-host/shared/instance";
 import { usePrContext } from "@/lib/pr-context";
 import { type ReviewDiffScopeSearch, validateReviewDiffScopeSearch } from "@/lib/review-diff-scope";
 import { markReviewPerf } from "@/lib/review-performance/metrics";
 
 export const Route = createFileRoute("/$workspace/$repo/pull-requests/$pullRequestId")({
-    validateSearch: validateReviewDiffScopeSearch,
+    validateSearch: (search: Record<string, unknown>): ReviewDiffScopeSearch & { instance?: string } => {
+        const instance = normalizeSelfHostedInstance(typeof search.instance === "string" ? search.instance : undefined);
+        return { ...validateReviewDiffScopeSearch(search), ...(instance ? { instance } : {}) };
+    },
     component: BitbucketPullRequestRoute,
 });
 
 function BitbucketPullRequestRoute() {
     const { workspace, repo, pullRequestId } = Route.useParams();
-    const search = Route.useSearch();
+    const { instance, ...search } = Route.useSearch();
     const navigate = Route.useNavigate();
     const { authByHost } = usePrContext();
 
@@ -23,6 +27,7 @@ function BitbucketPullRequestRoute() {
     return (
         <PullRequestReviewPage
             host="bitbucket"
+            instance={instance}
             workspace={workspace}
             repo={repo}
             pullRequestId={pullRequestId}
@@ -33,7 +38,7 @@ function BitbucketPullRequestRoute() {
             reviewDiffScopeSearch={search}
             onReviewDiffScopeSearchChange={(next: ReviewDiffScopeSearch) => {
                 navigate({
-                    search: () => next,
+                    search: () => ({ ...next, ...(instance ? { instance } : {}) }),
                     replace: true,
                 });
             }}
@@ -2,18 +2,22 @@ import { createFileRoute } from "@tanstack/react-router";
 import { useEffect, useState } from "react";
 import { HostAuthForm } from "@/components/auth/host-auth-form";
 import { PullRequestReviewPage } from "@/features/review/components/pull-request-review-page";
+import { normalizeGithubInstance } from "@/lib/git-host/shared/instance";
 import { usePrContext } from "@/lib/pr-context";
 import { type ReviewDiffScopeSearch, validateReviewDiffScopeSearch } from "@/lib/review-diff-scope";
 import { markReviewPerf } from "@/lib/review-performance/metrics";
 
 export const Route = createFileRoute("/$workspace/$repo/pull/$pullRequestId")({
-    validateSearch: validateReviewDiffScopeSearch,
+    validateSearch: (search: Record<string, unknown>): ReviewDiffScopeSearch & { instance?: string } => {
+        const instance = normalizeGithubInstance(typeof search.instance === "string" ? search.instance : undefined);
+        return { ...validateReviewDiffScopeSearch(search), ...(instance ? { instance } : {}) };
+    },
     component: GithubPullRequestRoute,
 });
 
 function GithubPullRequestRoute() {
     const { workspace, repo, pullRequestId } = Route.useParams();
-    const search = Route.useSearch();
+    const { instance, ...search } = Route.useSearch();
     const navigate = Route.useNavigate();
     const { authByHost } = usePrContext();
     const [authPromptVisible, setAuthPromptVisible] = useState(false);
@@ -27,6 +31,7 @@ function GithubPullRequestRoute() {
         <PullRequestReviewPage
             key={renderKey}
             host="github"
+            instance={instance}
             workspace={workspace}
             repo={repo}
             pullRequestId={pullRequestId}
@@ -35,7 +40,7 @@ function GithubPullRequestRoute() {
             reviewDiffScopeSearch={search}
             onReviewDiffScopeSearchChange={(next: ReviewDiffScopeSearch) => {
                 navigate({
-                    search: () => next,
+                    search: () => ({ ...next, ...(instance ? { instance } : {}) }),
                     replace: true,
                 });
             }}
@@ -43,6 +48,7 @@ function GithubPullRequestRoute() {
                 authPromptVisible ? (
                     <HostAuthForm
                         host="github"
+                        instance={instance}
                         mode="inline"
                         onSuccess={() => {
                             setAuthPromptVisible(false);
@@ -7,20 +7,23 @@ import { type ReactNode, useEffect } from "react";
 import { HostAuthForm } from "@/components/auth/host-auth-form";
 import { GitHostIcon } from "@/components/git-host-icon";
 import { AppPullRequestOmnibar } from "@/components/omnibar/app-pull-request-omnibar";
+import { PullRequestActivityNotifier } from "@/features/notifications/components/pull-request-activity-notifier";
 import { AppearanceProvider } from "@/lib/appearance-context";
 import { ensureDataCollectionsReady } from "@/lib/data/query-collections";
 import { DiffOptionsProvider } from "@/lib/diff-options-context";
 import { FileTreeProvider } from "@/lib/file-tree-context";
 import { getHostLabel } from "@/lib/git-host/service";
 import type { GitHost } from "@/lib/git-host/types";
+import { NotificationSettingsProvider } from "@/lib/notification-settings-context";
 import { PrProvider, usePrContext } from "@/lib/pr-context";
 import { appQueryClient } from "@/lib/query-client";
 import { ensureLongTaskObserver } from "@/lib/review-performance/metrics";
 import { ShikiAppThemeSync } from "@/lib/shiki-app-theme-sync";
 import { ShortcutsProvider } from "@/lib/shortcuts-context";
+import { StateSyncProvider } from "@/lib/state-sync-context";
 import { cn } from "@/lib/utils";
 
-const ONBOARDING_HOSTS: GitHost[] = ["bitbucket", "github"];
+const ONBOARDING_HOSTS: GitHost[] = ["bitbucket", "github", "gitlab"];
 
 import "../../styles.css";
 
@@ -68,7 +71,11 @@ function RootComponent() {
                         <ShikiAppThemeSync />
                         <FileTreeProvider>
                             <ShortcutsProvider>
-                                <AppLayout />
+                                <NotificationSettingsProvider>
+                                    <StateSyncProvider>
+                                        <AppLayout />
+                                    </StateSyncProvider>
+                                </NotificationSettingsProvider>
                             </ShortcutsProvider>
                         </FileTreeProvider>
                     </DiffOptionsProvider>
@@ -134,7 +141,7 @@ function AppLayout() {
     const pathname = useRouterState({
         select: (state) => state.location.pathname,
     });
-    const isGithubPullPath = /^\/[^/]+\/[^/]+\/pull\/[^/]+/.test(pathname);
+    const isPublicReviewPath = /^\/[^/]+\/[^/]+\/(?:pull|-\/merge_requests)\/[^/]+/.test(pathname);
     const isSettingsPath = pathname === "/settings" || pathname === "/settings/";
 
     if (!hydrated) {
@@ -149,7 +156,7 @@ function AppLayout() {
         return null;
     }
 
-    if (!isAuthenticated && !isGithubPullPath && !isSettingsPath) {
+    if (!isAuthenticated && !isPublicReviewPath && !isSettingsPath) {
         return <OnboardingScreen />;
     }
 
@@ -159,6 +166,7 @@ function AppLayout() {
                 <Outlet />
             </main>
             <AppPullRequestOmnibar />
+            <PullRequestActivityNotifier />
         </div>
     );
 }
@@ -1,7 +1,8 @@
 import { createFileRoute, Link } from "@tanstack/react-router";
 import { Loader2 } from "lucide-react";
 import { useEffect, useRef, useState } from "react";
-import { exchangeBitbucketOAuthCode } from "@/lib/bitbucket-oauth";
+import { getHostLabel } from "@/lib/git-host/service";
+import { exchangeOAuthCode, oauthProviderFromState } from "@/lib/oauth";
 import { usePrContext } from "@/lib/pr-context";
 
 export const Route = createFileRoute("/oauth/callback")({
@@ -26,23 +27,24 @@ function OAuthCallback() {
             return;
         }
         if (!code || !state) {
-            setError("Bitbucket did not return a valid authorization response. Please try again.");
+            setError("The provider did not return a valid authorization response. Please try again.");
             return;
         }
 
-        void exchangeBitbucketOAuthCode({ code, state })
+        const provider = oauthProviderFromState(state);
+        void exchangeOAuthCode(provider, { code, state })
             .then(async (result) => {
-                await login({
-                    host: "bitbucket",
+                const tokens = {
                     method: "oauth",
                     accessToken: result.accessToken,
                     refreshToken: result.refreshToken,
                     expiresAt: result.expiresAt,
-                });
+                } as const;
+                await login(provider === "github" ? { host: "github", ...tokens } : { host: "bitbucket", ...tokens });
                 window.location.replace(result.returnTo);
             })
             .catch((err) => {
-                setError(err instanceof Error ? err.message : "Bitbucket OAuth authentication failed");
+                setError(err instanceof Error ? err.message : `${getHostLabel(provider)} OAuth authentication failed`);
             });
     }, [login]);
 
@@ -50,7 +52,7 @@ function OAuthCallback() {
         <div className="min-h-screen flex items-center justify-center bg-background p-6">
             <div className="w-full max-w-lg border border-border bg-card">
                 <div className="border-b border-border px-4 py-3 bg-surface-1">
-                    <span className="text-[13px] font-medium">Bitbucket OAuth</span>
+                    <span className="text-[13px] font-medium">OAuth Sign-in</span>
                 </div>
                 <div className="space-y-4 p-6">
                     {error ? (
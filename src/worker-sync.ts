@@ -0,0 +1,172 @@
+/** Minimal slice of a Workers KV namespace, so tests can pass an in-memory stand-in. */
+export interface SyncStore {
+    get(key: string): Promise<string | null>;
+    put(key: string, value: string, options?: { metadata?: SyncKeyMetadata }): Promise<void>;
+    list(options: { prefix: string; cursor?: string }): Promise<{
+        keys: Array<{ name: string; metadata?: unknown }>;
+        list_complete: boolean;
+        cursor?: string;
+    }>;
+}
+
+export interface SyncEnv {
+    SYNC_STORE?: SyncStore;
+}
+
+/** Documents are encrypted on the client; the worker only ever sees opaque ids, timestamps and ciphertext. */
+export type SyncEnvelope = {
+    id: string;
+    updatedAt: number;
+    _deleted: boolean;
+    iv: string;
+    ciphertext: string;
+};
+
+export type SyncCheckpoint = {
+    id: string;
+    updatedAt: number;
+};
+
+type SyncKeyMetadata = {
+    updatedAt: number;
+};
+
+const SYNC_ROUTE_PATTERN = /^\/api\/sync\/([a-z][a-z0-9_]{0,63})\/(pull|push)$/u;
+const SYNC_VAULT_PATTERN = /^[a-f0-9]{64}$/u;
+const SYNC_ID_PATTERN = /^[a-f0-9]{64}$/u;
+const MAX_SYNC_REQUEST_BODY_BYTES = 4 * 1024 * 1024;
+const MAX_SYNC_ENVELOPE_BYTES = 512 * 1024;
+const MAX_SYNC_PULL_BATCH_SIZE = 200;
+
+function jsonResponse(body: Record<string, unknown>, status = 200, headers?: HeadersInit) {
+    return Response.json(body, {
+        status,
+        headers: {
+            "Cache-Control": "no-store",
+            ...headers,
+        },
+    });
+}
+
+function isSyncEnvelope(value: unknown): value is SyncEnvelope {
+    if (!value || typeof value !== "object") return false;
+    const envelope = value as Record<string, unknown>;
+    return (
+        typeof envelope.id === "string" &&
+        SYNC_ID_PATTERN.test(envelope.id) &&
+        typeof envelope.updatedAt === "number" &&
+        Number.isFinite(envelope.updatedAt) &&
+        typeof envelope._deleted === "boolean" &&
+        typeof envelope.iv === "string" &&
+        envelope.iv.length <= 64 &&
+        typeof envelope.ciphertext === "string"
+    );
+}
+
+function isSyncCheckpoint(value: unknown): value is SyncCheckpoint {
+    if (!value || typeof value !== "object") return false;
+    const checkpoint = value as Record<string, unknown>;
+    return typeof checkpoint.id === "string" && typeof checkpoint.updatedAt === "number";
+}
+
+function isAfterCheckpoint(entry: SyncCheckpoint, checkpoint: SyncCheckpoint | null) {
+    if (!checkpoint) return true;
+    if (entry.updatedAt !== checkpoint.updatedAt) return entry.updatedAt > checkpoint.updatedAt;
+    return entry.id > checkpoint.id;
+}
+
+function parseEnvelope(raw: string | null) {
+    if (!raw) return null;
+    try {
+        const value = JSON.parse(raw) as unknown;
+        return isSyncEnvelope(value) && value.ciphertext.length <= MAX_SYNC_ENVELOPE_BYTES ? value : null;
+    } catch {
+        return null;
+    }
+}
+
+async function readSyncBody(request: Request) {
+    const contentLength = Number(request.headers.get("content-length") ?? 0);
+    if (Number.isFinite(contentLength) && contentLength > MAX_SYNC_REQUEST_BODY_BYTES) return null;
+    try {
+        const value = (await request.json()) as unknown;
+        return value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+    } catch {
+        return null;
+    }
+}
+
+async function listEntries(store: SyncStore, prefix: string) {
+    const entries: SyncCheckpoint[] = [];
+    let cursor: string | undefined;
+    do {
+        const page = await store.list({ prefix, cursor });
+        for (const key of page.keys) {
+            const updatedAt = (key.metadata as Partial<SyncKeyMetadata> | undefined)?.updatedAt;
+            if (typeof updatedAt !== "number") continue;
+            entries.push({ id: key.name.slice(prefix.length), updatedAt });
+        }
+        cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+    return entries;
+}
+
+async function handleSyncPull(store: SyncStore, prefix: string, body: Record<string, unknown>) {
+    const checkpoint = isSyncCheckpoint(body.checkpoint) ? body.checkpoint : null;
+    const requestedBatchSize = typeof body.batchSize === "number" && Number.isFinite(body.batchSize) ? Math.floor(body.batchSize) : MAX_SYNC_PULL_BATCH_SIZE;
+    const batchSize = Math.min(Math.max(requestedBatchSize, 1), MAX_SYNC_PULL_BATCH_SIZE);
+    const batch = (await listEntries(store, prefix))
+        .filter((entry) => isAfterCheckpoint(entry, checkpoint))
+        .sort((a, b) => a.updatedAt - b.updatedAt || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+        .slice(0, batchSize);
+    const documents = (await Promise.all(batch.map(async (entry) => parseEnvelope(await store.get(`${prefix}${entry.id}`))))).filter(
+        (envelope): envelope is SyncEnvelope => envelope !== null,
+    );
+    const last = batch[batch.length - 1];
+    return jsonResponse({ documents, checkpoint: last ? { id: last.id, updatedAt: last.updatedAt } : checkpoint });
+}
+
+// A write must build on the stored document (matching assumedUpdatedAt) or the stored one comes back as the conflict.
+// Device clocks never decide, so a device whose clock runs ahead cannot pin its state. Oversized documents are skipped one by one and reported back, so they never hold up the rest of the batch.
+async function handleSyncPush(store: SyncStore, prefix: string, body: Record<string, unknown>) {
+    if (!Array.isArray(body.rows)) return jsonResponse({ error: "Sync push requires rows" }, 400);
+    const conflicts: SyncEnvelope[] = [];
+    const rejected: string[] = [];
+    for (const row of body.rows as unknown[]) {
+        const fields = row && typeof row === "object" ? (row as Record<string, unknown>) : {};
+        const newDocumentState = fields.newDocumentState;
+        const assumedUpdatedAt = typeof fields.assumedUpdatedAt === "number" ? fields.assumedUpdatedAt : null;
+        if (!isSyncEnvelope(newDocumentState)) return jsonResponse({ error: "Sync push contains an invalid document" }, 400);
+        if (newDocumentState.ciphertext.length > MAX_SYNC_ENVELOPE_BYTES) {
+            rejected.push(newDocumentState.id);
+            continue;
+        }
+        const key = `${prefix}${newDocumentState.id}`;
+        const current = parseEnvelope(await store.get(key));
+        if (current && current.updatedAt !== assumedUpdatedAt) {
+            conflicts.push(current);
+            continue;
+        }
+        // Pull checkpoints follow the worker's clock for the same reason.
+        await store.put(key, JSON.stringify(newDocumentState), { metadata: { updatedAt: Date.now() } });
+    }
+    return jsonResponse({ conflicts, rejected });
+}
+
+export async function handleSyncRequest(request: Request, env: SyncEnv) {
+    const url = new URL(request.url);
+    const match = SYNC_ROUTE_PATTERN.exec(url.pathname);
+    if (!match) return null;
+    if (request.method !== "POST") return jsonResponse({ error: "Method not allowed" }, 405, { Allow: "POST" });
+    if (request.headers.get("Origin") !== url.origin) return jsonResponse({ error: "Invalid request origin" }, 403);
+    if (!env.SYNC_STORE) return jsonResponse({ error: "Sync is not configured for this environment" }, 503);
+
+    const vaultId = request.headers.get("X-Sync-Vault") ?? "";
+    if (!SYNC_VAULT_PATTERN.test(vaultId)) return jsonResponse({ error: "A valid sync vault is required" }, 400);
+    const body = await readSyncBody(request);
+    if (!body) return jsonResponse({ error: "Invalid sync request body" }, 400);
+
+    const prefix = `sync:${vaultId}:${match[1]}:`;
+    if (match[2] === "pull") return handleSyncPull(env.SYNC_STORE, prefix, body);
+    return handleSyncPush(env.SYNC_STORE, prefix, body);
+}
@@ -1,18 +1,47 @@
-export interface BitbucketOAuthEnv {
+import { handleSyncRequest, type SyncEnv } from "./worker-sync";
+
+export interface OAuthEnv {
     BITBUCKET_OAUTH_CLIENT_ID?: string;
     BITBUCKET_OAUTH_CLIENT_SECRET?: string;
+    GITHUB_OAUTH_CLIENT_ID?: string;
+    GITHUB_OAUTH_CLIENT_SECRET?: string;
 }
 
-interface WorkerEnv extends BitbucketOAuthEnv {
+interface WorkerEnv extends OAuthEnv, SyncEnv {
     ASSETS: {
         fetch(request: Request): Promise<Response>;
     };
 }
 
-interface BitbucketTokenResponse {
+interface OAuthTokenResponse {
     access_token?: unknown;
     refresh_token?: unknown;
     expires_in?: unknown;
+    error?: unknown;
+}
+
+interface OAuthClientConfig {
+    clientId: string;
+    clientSecret: string;
+}
+
+interface OAuthTokens {
+    accessToken: string;
+    refreshToken?: string;
+    expiresAt?: number;
+}
+
+type OAuthProviderId = "bitbucket" | "github";
+
+interface OAuthProvider {
+    id: OAuthProviderId;
+    label: string;
+    authorizeUrl: string;
+    scope?: string;
+    /** Both providers share one callback page, which tells them apart by this state prefix. */
+    statePrefix: string;
+    readConfiguration: (env: OAuthEnv) => OAuthClientConfig | null;
+    requestToken: (config: OAuthClientConfig, body: URLSearchParams) => Promise<OAuthTokens>;
 }
 
 interface OAuthStateCookie {
@@ -20,8 +49,10 @@ interface OAuthStateCookie {
     returnTo: string;
 }
 
-const AUTHORIZE_URL = "https://bitbucket.org/site/oauth2/authorize";
-const ACCESS_TOKEN_URL = "https://bitbucket.org/site/oauth2/access_token";
+const BITBUCKET_AUTHORIZE_URL = "https://bitbucket.org/site/oauth2/authorize";
+const BITBUCKET_ACCESS_TOKEN_URL = "https://bitbucket.org/site/oauth2/access_token";
+const GITHUB_AUTHORIZE_URL = "https://github.com/login/oauth/authorize";
+const GITHUB_ACCESS_TOKEN_URL = "https://github.com/login/oauth/access_token";
 const OAUTH_CALLBACK_PATH = "/oauth/callback";
 const STATE_COOKIE_MAX_AGE_SECONDS = 10 * 60;
 const MAX_REQUEST_BODY_BYTES = 16 * 1024;
@@ -36,8 +67,8 @@ function jsonResponse(body: Record<string, unknown>, status = 200, headers?: Hea
     });
 }
 
-function getStateCookieName(url: URL) {
-    return url.protocol === "https:" ? "__Host-pr_bitbucket_oauth_state" : "pr_bitbucket_oauth_state";
+function getStateCookieName(provider: OAuthProvider, url: URL) {
+    return url.protocol === "https:" ? `__Host-pr_${provider.id}_oauth_state` : `pr_${provider.id}_oauth_state`;
 }
 
 function bytesToBase64Url(bytes: Uint8Array) {
@@ -59,8 +90,8 @@ function base64UrlToString(value: string) {
     return new TextDecoder().decode(Uint8Array.from(binary, (character) => character.charCodeAt(0)));
 }
 
-function createState() {
-    return bytesToBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+function createState(provider: OAuthProvider) {
+    return `${provider.statePrefix}${bytesToBase64Url(crypto.getRandomValues(new Uint8Array(32)))}`;
 }
 
 function sanitizeReturnTo(value: string | null) {
@@ -94,16 +125,16 @@ function decodeStateCookie(rawValue: string | null): OAuthStateCookie | null {
     }
 }
 
-function stateCookieHeader(url: URL, value: string, maxAge: number) {
+function stateCookieHeader(provider: OAuthProvider, url: URL, value: string, maxAge: number) {
     const secure = url.protocol === "https:" ? "; Secure" : "";
-    return `${getStateCookieName(url)}=${value}; HttpOnly; SameSite=Lax; Path=/; Max-Age=${maxAge}${secure}`;
+    return `${getStateCookieName(provider, url)}=${value}; HttpOnly; SameSite=Lax; Path=/; Max-Age=${maxAge}${secure}`;
 }
 
-function requireOAuthConfiguration(env: BitbucketOAuthEnv) {
-    const clientId = env.BITBUCKET_OAUTH_CLIENT_ID?.trim();
-    const clientSecret = env.BITBUCKET_OAUTH_CLIENT_SECRET?.trim();
-    if (!clientId || !clientSecret) return null;
-    return { clientId, clientSecret };
+function clientConfiguration(clientId: string | undefined, clientSecret: string | undefined): OAuthClientConfig | null {
+    const trimmedClientId = clientId?.trim();
+    const trimmedClientSecret = clientSecret?.trim();
+    if (!trimmedClientId || !trimmedClientSecret) return null;
+    return { clientId: trimmedClientId, clientSecret: trimmedClientSecret };
 }
 
 function encodeBasicAuth(clientId: string, clientSecret: string) {
@@ -125,8 +156,17 @@ function isSameOriginRequest(request: Request, url: URL) {
     return request.headers.get("Origin") === url.origin;
 }
 
-async function requestBitbucketToken(config: { clientId: string; clientSecret: string }, body: URLSearchParams) {
-    const response = await fetch(ACCESS_TOKEN_URL, {
+function toOAuthTokens(payload: OAuthTokenResponse & { access_token: string }): OAuthTokens {
+    const expiresIn = typeof payload.expires_in === "number" && Number.isFinite(payload.expires_in) ? payload.expires_in : undefined;
+    return {
+        accessToken: payload.access_token,
+        refreshToken: typeof payload.refresh_token === "string" && payload.refresh_token.trim() ? payload.refresh_token : undefined,
+        expiresAt: expiresIn ? Date.now() + expiresIn * 1000 : undefined,
+    };
+}
+
+async function requestBitbucketToken(config: OAuthClientConfig, body: URLSearchParams) {
+    const response = await fetch(BITBUCKET_ACCESS_TOKEN_URL, {
         method: "POST",
         headers: {
             Authorization: `Basic ${encodeBasicAuth(config.clientId, config.clientSecret)}`,
@@ -135,25 +175,60 @@ async function requestBitbucketToken(config: { clientId: string; clientSecret: s
         },
         body,
     });
-    const payload = (await response.json().catch(() => ({}))) as BitbucketTokenResponse;
+    const payload = (await response.json().catch(() => ({}))) as OAuthTokenResponse;
     if (!response.ok || typeof payload.access_token !== "string" || !payload.access_token.trim()) {
         throw new Error(`Bitbucket rejected the OAuth token request (${response.status})`);
     }
+    return toOAuthTokens({ ...payload, access_token: payload.access_token });
+}
 
-    const expiresIn = typeof payload.expires_in === "number" && Number.isFinite(payload.expires_in) ? payload.expires_in : undefined;
-    return {
-        accessToken: payload.access_token,
-        refreshToken: typeof payload.refresh_token === "string" && payload.refresh_token.trim() ? payload.refresh_token : undefined,
-        expiresAt: expiresIn ? Date.now() + expiresIn * 1000 : undefined,
-    };
+async function requestGithubToken(config: OAuthClientConfig, body: URLSearchParams) {
+    body.set("client_id", config.clientId);
+    body.set("client_secret", config.clientSecret);
+    const response = await fetch(GITHUB_ACCESS_TOKEN_URL, {
+        method: "POST",
+        headers: {
+            "Content-Type": "application/x-www-form-urlencoded",
+            Accept: "application/json",
+        },
+        body,
+    });
+    const payload = (await response.json().catch(() => ({}))) as OAuthTokenResponse;
+    // GitHub reports rejected grants with a 200 status and an `error` code in the body.
+    if (!response.ok || typeof payload.error === "string" || typeof payload.access_token !== "string" || !payload.access_token.trim()) {
+        const reason = typeof payload.error === "string" ? payload.error : String(response.status);
+        throw new Error(`GitHub rejected the OAuth token request (${reason})`);
+    }
+    return toOAuthTokens({ ...payload, access_token: payload.access_token });
 }
 
-function handleOAuthStart(request: Request, env: BitbucketOAuthEnv, url: URL) {
+const OAUTH_PROVIDERS: Record<OAuthProviderId, OAuthProvider> = {
+    bitbucket: {
+        id: "bitbucket",
+        label: "Bitbucket",
+        authorizeUrl: BITBUCKET_AUTHORIZE_URL,
+        statePrefix: "",
+        readConfiguration: (env) => clientConfiguration(env.BITBUCKET_OAUTH_CLIENT_ID, env.BITBUCKET_OAUTH_CLIENT_SECRET),
+        requestToken: requestBitbucketToken,
+    },
+    // Works for both OAuth Apps and GitHub Apps; GitHub Apps ignore the scope and issue expiring, refreshable user tokens.
+    github: {
+        id: "github",
+        label: "GitHub",
+        authorizeUrl: GITHUB_AUTHORIZE_URL,
+        scope: "repo read:org",
+        statePrefix: "github.",
+        readConfiguration: (env) => clientConfiguration(env.GITHUB_OAUTH_CLIENT_ID, env.GITHUB_OAUTH_CLIENT_SECRET),
+        requestToken: requestGithubToken,
+    },
+};
+
+function handleOAuthStart(provider: OAuthProvider, request: Request, env: OAuthEnv, url: URL) {
     if (request.method !== "GET") return jsonResponse({ error: "Method not allowed" }, 405, { Allow: "GET" });
-    const config = requireOAuthConfiguration(env);
+    const config = provider.readConfiguration(env);
     if (!config) {
         const callbackUrl = new URL(OAUTH_CALLBACK_PATH, url.origin);
-        callbackUrl.searchParams.set("error", "Bitbucket OAuth is not configured for this environment");
+        callbackUrl.searchParams.set("error", `${provider.label} OAuth is not configured for this environment`);
         return new Response(null, {
             status: 302,
             headers: {
@@ -164,45 +239,46 @@ function handleOAuthStart(request: Request, env: BitbucketOAuthEnv, url: URL) {
     }
 
     const stateData = {
-        state: createState(),
+        state: createState(provider),
         returnTo: sanitizeReturnTo(url.searchParams.get("return_to")),
     } satisfies OAuthStateCookie;
     const callbackUrl = new URL(OAUTH_CALLBACK_PATH, url.origin);
-    const authorizeUrl = new URL(AUTHORIZE_URL);
+    const authorizeUrl = new URL(provider.authorizeUrl);
     authorizeUrl.searchParams.set("client_id", config.clientId);
     authorizeUrl.searchParams.set("response_type", "code");
     authorizeUrl.searchParams.set("redirect_uri", callbackUrl.toString());
     authorizeUrl.searchParams.set("state", stateData.state);
+    if (provider.scope) authorizeUrl.searchParams.set("scope", provider.scope);
 
     return new Response(null, {
         status: 302,
         headers: {
             Location: authorizeUrl.toString(),
             "Cache-Control": "no-store",
-            "Set-Cookie": stateCookieHeader(url, encodeStateCookie(stateData), STATE_COOKIE_MAX_AGE_SECONDS),
+            "Set-Cookie": stateCookieHeader(provider, url, encodeStateCookie(stateData), STATE_COOKIE_MAX_AGE_SECONDS),
         },
     });
 }
 
-async function handleOAuthExchange(request: Request, env: BitbucketOAuthEnv, url: URL) {
+async function handleOAuthExchange(provider: OAuthProvider, request: Request, env: OAuthEnv, url: URL) {
     if (request.method !== "POST") return jsonResponse({ error: "Method not allowed" }, 405, { Allow: "POST" });
     if (!isSameOriginRequest(request, url)) return jsonResponse({ error: "Invalid request origin" }, 403);
-    const config = requireOAuthConfiguration(env);
-    if (!config) return jsonResponse({ error: "Bitbucket OAuth is not configured for this environment" }, 503);
+    const config = provider.readConfiguration(env);
+    if (!config) return jsonResponse({ error: `${provider.label} OAuth is not configured for this environment` }, 503);
 
-    const cookieName = getStateCookieName(url);
+    const cookieName = getStateCookieName(provider, url);
     const stateCookie = decodeStateCookie(parseCookieHeader(request.headers.get("Cookie"), cookieName));
-    const clearStateCookie = stateCookieHeader(url, "", 0);
+    const clearStateCookie = stateCookieHeader(provider, url, "", 0);
     const body = await readJsonObject(request);
     const code = typeof body?.code === "string" ? body.code.trim() : "";
     const state = typeof body?.state === "string" ? body.state.trim() : "";
     if (!stateCookie || !code || code.length > 4096 || !state || state.length > 256 || stateCookie.state !== state) {
-        return jsonResponse({ error: "Bitbucket OAuth state is invalid or expired. Please try again." }, 400, { "Set-Cookie": clearStateCookie });
+        return jsonResponse({ error: `${provider.label} OAuth state is invalid or expired. Please try again.` }, 400, { "Set-Cookie": clearStateCookie });
     }
 
     try {
         const callbackUrl = new URL(OAUTH_CALLBACK_PATH, url.origin);
-        const tokens = await requestBitbucketToken(
+        const tokens = await provider.requestToken(
             config,
             new URLSearchParams({
                 grant_type: "authorization_code",
@@ -212,42 +288,48 @@ async function handleOAuthExchange(request: Request, env: BitbucketOAuthEnv, url
         );
         return jsonResponse({ ...tokens, returnTo: stateCookie.returnTo }, 200, { "Set-Cookie": clearStateCookie });
     } catch (error) {
-        const message = error instanceof Error ? error.message : "Bitbucket OAuth code exchange failed";
+        const message = error instanceof Error ? error.message : `${provider.label} OAuth code exchange failed`;
         return jsonResponse({ error: message }, 502, { "Set-Cookie": clearStateCookie });
     }
 }
 
-async function handleOAuthRefresh(request: Request, env: BitbucketOAuthEnv, url: URL) {
+async function handleOAuthRefresh(provider: OAuthProvider, request: Request, env: OAuthEnv, url: URL) {
     if (request.method !== "POST") return jsonResponse({ error: "Method not allowed" }, 405, { Allow: "POST" });
     if (!isSameOriginRequest(request, url)) return jsonResponse({ error: "Invalid request origin" }, 403);
-    const config = requireOAuthConfiguration(env);
-    if (!config) return jsonResponse({ error: "Bitbucket OAuth is not configured for this environment" }, 503);
+    const config = provider.readConfiguration(env);
+    if (!config) return jsonResponse({ error: `${provider.label} OAuth is not configured for this environment` }, 503);
 
     const body = await readJsonObject(request);
     const refreshToken = typeof body?.refreshToken === "string" ? body.refreshToken.trim() : "";
-    if (!refreshToken || refreshToken.length > 8192) return jsonResponse({ error: "A valid Bitbucket refresh token is required" }, 400);
+    if (!refreshToken || refreshToken.length > 8192) return jsonResponse({ error: `A valid ${provider.label} refresh token is required` }, 400);
 
     try {
-        const tokens = await requestBitbucketToken(config, new URLSearchParams({ grant_type: "refresh_token", refresh_token: refreshToken }));
-        return jsonResponse(tokens);
+        const tokens = await provider.requestToken(config, new URLSearchParams({ grant_type: "refresh_token", refresh_token: refreshToken }));
+        return jsonResponse({ ...tokens });
     } catch (error) {
-        const message = error instanceof Error ? error.message : "Bitbucket OAuth token refresh failed";
+        const message = error instanceof Error ? error.message : `${provider.label} OAuth token refresh failed`;
         return jsonResponse({ error: message }, 502);
     }
 }
 
-export async function handleBitbucketOAuthRequest(request: Request, env: BitbucketOAuthEnv) {
+const OAUTH_ROUTE_PATTERN = /^\/api\/auth\/(bitbucket|github)\/(start|exchange|refresh)$/u;
+
+export async function handleOAuthRequest(request: Request, env: OAuthEnv) {
     const url = new URL(request.url);
-    if (url.pathname === "/api/auth/bitbucket/start") return handleOAuthStart(request, env, url);
-    if (url.pathname === "/api/auth/bitbucket/exchange") return handleOAuthExchange(request, env, url);
-    if (url.pathname === "/api/auth/bitbucket/refresh") return handleOAuthRefresh(request, env, url);
-    return null;
+    const match = OAUTH_ROUTE_PATTERN.exec(url.pathname);
+    if (!match) return null;
+    const provider = OAUTH_PROVIDERS[match[1] as OAuthProviderId];
+    if (match[2] === "start") return handleOAuthStart(provider, request, env, url);
+    if (match[2] === "exchange") return handleOAuthExchange(provider, request, env, url);
+    return handleOAuthRefresh(provider, request, env, url);
 }
 
 export const worker = {
     async fetch(request: Request, env: WorkerEnv) {
-        const oauthResponse = await handleBitbucketOAuthRequest(request, env);
+        const oauthResponse = await handleOAuthRequest(request, env);
         if (oauthResponse) return oauthResponse;
+        const syncResponse = await handleSyncRequest(request, env);
+        if (syncResponse) return syncResponse;
         if (new URL(request.url).pathname.startsWith("/api/")) return jsonResponse({ error: "Not found" }, 404);
         return env.ASSETS.fetch(request);
     },
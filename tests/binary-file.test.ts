@@ -0,0 +1,26 @@
+import { describe, expect, test } from "bun:test";
+import type { FileDiffMetadata } from "@pierre/diffs/react";
+import { formatByteSize, getBinaryPreviewKind } from "../src/lib/binary-file";
+
+function fileDiff(name: string, type: FileDiffMetadata["type"], hunkCount = 0) {
+    return { name, type, hunks: Array.from({ length: hunkCount }, () => ({})) } as unknown as FileDiffMetadata;
+}
+
+describe("binary file previews", () => {
+    test("classifies hunk-less changes by extension", () => {
+        expect(getBinaryPreviewKind("assets/logo.PNG", fileDiff("assets/logo.PNG", "change"))).toBe("image");
+        expect(getBinaryPreviewKind("fonts/inter.woff2", fileDiff("fonts/inter.woff2", "new"))).toBe("binary");
+        expect(getBinaryPreviewKind("icons/check.svg", fileDiff("icons/check.svg", "change", 1))).toBe("svg");
+    });
+
+    test("leaves text diffs and pure renames alone", () => {
+        expect(getBinaryPreviewKind("src/index.ts", fileDiff("src/index.ts", "change", 2))).toBe(null);
+        expect(getBinaryPreviewKind("assets/logo.png", fileDiff("assets/logo.png", "rename-pure"))).toBe(null);
+    });
+
+    test("formats byte sizes", () => {
+        expect(formatByteSize(512)).toBe("512 B");
+        expect(formatByteSize(1536)).toBe("1.5 KB");
+        expect(formatByteSize(25 * 1024 * 1024)).toBe("25 MB");
+    });
+});
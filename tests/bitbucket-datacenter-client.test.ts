@@ -0,0 +1,134 @@
+import { describe, expect, test } from "bun:test";
+import { bitbucketNormalization } from "../src/lib/git-host/providers/bitbucket";
+import { bitbucketDataCenterNormalization } from "../src/lib/git-host/providers/bitbucket-datacenter";
+
+describe("bitbucket data center normalization", () => {
+    test("normalizes server base URLs including context paths", () => {
+        expect(bitbucketDataCenterNormalization.normalizeDataCenterBaseUrl("git.example.com/")).toBe("https://git.example.com");
+        expect(bitbucketDataCenterNormalization.normalizeDataCenterBaseUrl("https://code.example.com/bitbucket/rest/api/1.0/")).toBe(
+            "https://code.example.com/bitbucket",
+        );
+        expect(bitbucketDataCenterNormalization.normalizeDataCenterBaseUrl("  ")).toBe(null);
+    });
+
+    test("follows nextPageStart until the last page", () => {
+        expect(bitbucketDataCenterNormalization.nextDataCenterPageStart({ isLastPage: false, nextPageStart: 25 })).toBe(25);
+        expect(bitbucketDataCenterNormalization.nextDataCenterPageStart({ isLastPage: true, nextPageStart: 25 })).toBeUndefined();
+        expect(bitbucketDataCenterNormalization.nextDataCenterPageStart({ values: [] })).toBeUndefined();
+    });
+
+    test("maps pull requests through the cloud normalizers", () => {
+        const pr = bitbucketNormalization.mapPullRequest(
+            bitbucketDataCenterNormalization.toCloudPullRequest({
+                id: 7,
+                version: 3,
+                title: "Add retries",
+                state: "OPEN",
+                createdDate: Date.UTC(2026, 0, 1),
+                fromRef: { id: "refs/heads/feature", displayId: "feature", latestCommit: "abc123", repository: { slug: "app", project: { key: "ACME" } } },
+                toRef: { id: "refs/heads/main", displayId: "main", repository: { slug: "app", project: { key: "ACME" } } },
+                author: { user: { name: "jdoe", slug: "jdoe", displayName: "Jane Doe" }, role: "AUTHOR" },
+                reviewers: [{ user: { name: "rsmith", slug: "rsmith", displayName: "Rob Smith" }, role: "REVIEWER", status: "NEEDS_WORK" }],
+                properties: { commentCount: 4, openTaskCount: 2 },
+                links: { self: [{ href: "https://git.example.com/projects/ACME/repos/app/pull-requests/7" }] },
+            }),
+            { username: "rsmith" },
+        );
+
+        expect(pr.author?.displayName).toBe("Jane Doe");
+        expect(pr.taskCount).toBe(2);
+        expect(pr.createdAt).toBe("2026-01-01T00:00:00.000Z");
+        expect(pr.source).toEqual({ branch: { name: "feature" }, commit: { hash: "abc123" }, repository: { fullName: "ACME/app" } });
+        expect(pr.currentUserReviewStatus).toBe("changesRequested");
+        expect(pr.links?.html?.href).toBe("https://git.example.com/projects/ACME/repos/app/pull-requests/7");
+    });
+
+    test("flattens nested comment replies and keeps anchors and task resolution", () => {
+        const comments = bitbucketDataCenterNormalization.mapActivitiesToComments([
+            {
+                id: 1,
+                action: "COMMENTED",
+                commentAnchor: { path: "src/a.ts", line: 4, lineType: "REMOVED", fileType: "FROM" },
+                comment: {
+                    id: 10,
+                    version: 0,
+                    text: "Why remove this?",
+                    createdDate: Date.UTC(2026, 0, 1),
+                    author: { name: "rsmith", displayName: "Rob Smith" },
+                    comments: [{ id: 11, version: 0, text: "Unused", createdDate: Date.UTC(2026, 0, 2), author: { name: "jdoe", displayName: "Jane Doe" } }],
+                },
+            },
+            {
+                id: 2,
+                action: "COMMENTED",
+                comment: {
+                    id: 20,
+                    version: 1,
+                    text: "Update the changelog",
+                    createdDate: Date.UTC(2026, 0, 3),
+                    severity: "BLOCKER",
+                    state: "RESOLVED",
+                    resolver: { name: "jdoe", displayName: "Jane Doe" },
+                },
+            },
+            { id: 3, action: "APPROVED" },
+        ]);
+
+        expect(comments.map((comment) => comment.id)).toEqual([10, 11, 20]);
+        expect(comments[0]?.inline).toEqual({ path: "src/a.ts", to: undefined, from: 4, startTo: undefined, startFrom: undefined, outdated: undefined });
+        expect(comments[1]?.parent).toEqual({ id: 10 });
+        expect(comments[1]?.inline?.path).toBe("src/a.ts");
+        expect(comments[2]?.resolution).toEqual({ user: { displayName: "Jane Doe", avatarUrl: undefined } });
+    });
+
+    test("maps comment likes to thumbs-up reactions for the current user", () => {
+        const comments = bitbucketDataCenterNormalization.mapActivitiesToComments(
+            [
+                {
+                    id: 1,
+                    action: "COMMENTED",
+                    comment: {
+                        id: 10,
+                        version: 0,
+                        text: "Nice",
+                        properties: { likedBy: { total: 2, likers: [{ name: "jdoe", slug: "jdoe" }] } },
+                        comments: [{ id: 11, version: 0, text: "Agreed" }],
+                    },
+                },
+            ],
+            { name: "jdoe", slug: "jdoe" },
+        );
+
+        expect(comments[0]?.reactions).toEqual([{ content: "+1", count: 2, viewerReacted: true }]);
+        expect(comments[1]?.reactions).toEqual([]);
+    });
+
+    test("maps change types and comment anchors", () => {
+        expect(
+            bitbucketDataCenterNormalization.mapChanges([
+                { type: "ADD", path: { toString: "src/new.ts" } },
+                { type: "MOVE", path: { toString: "src/b.ts" }, srcPath: { toString: "src/a.ts" } },
+            ]),
+        ).toEqual([
+            { status: "added", new: { path: "src/new.ts" }, old: undefined },
+            { status: "renamed", new: { path: "src/b.ts" }, old: { path: "src/a.ts" } },
+        ]);
+        expect(bitbucketDataCenterNormalization.mapDataCenterCommentAnchor({ path: "src/a.ts", from: 3 })).toEqual({
+            path: "src/a.ts",
+            line: 3,
+            lineType: "REMOVED",
+            fileType: "FROM",
+            diffType: "EFFECTIVE",
+        });
+    });
+
+    test("explains why merge checks block a merge", () => {
+        expect(
+            bitbucketDataCenterNormalization.describeMergeVetoes({
+                canMerge: false,
+                conflicted: true,
+                vetoes: [{ summaryMessage: "Requires 2 approvals" }],
+            }),
+        ).toBe("Merge blocked: The pull request has merge conflicts; Requires 2 approvals");
+    });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, test } from "bun:test";
+import { buildGeneratedFileRules, createGeneratedFileClassifier, parseGitattributesRules } from "../src/lib/generated-files";
+
+function classifier(gitattributes = "", userPatterns = "") {
+    return createGeneratedFileClassifier(buildGeneratedFileRules({ gitattributes: parseGitattributesRules(gitattributes), userPatterns }));
+}
+
+describe("generated file classification", () => {
+    test("recognizes built-in lockfiles, generated sources and vendored directories", () => {
+        const classify = classifier();
+
+        expect(classify("bun.lock")).toBe("generated");
+        expect(classify("packages/web/package-lock.json")).toBe("generated");
+        expect(classify("src/routeTree.gen.ts")).toBe("generated");
+        expect(classify("tests/__snapshots__/view.test.ts.snap")).toBe("generated");
+        expect(classify("public/app.min.js")).toBe("generated");
+        expect(classify("vendor/github.com/pkg/errors/errors.go")).toBe("vendored");
+        expect(classify("src/generator.ts")).toBeUndefined();
+        expect(classify("src/vendors.ts")).toBeUndefined();
+    });
+
+    test("applies linguist attributes from .gitattributes", () => {
+        const classify = classifier(
+            ["# generated clients", "api/client/** linguist-generated", "*.lock -linguist-generated", "assets/js/*.js linguist-vendored=true"].join("\n"),
+        );
+
+        expect(classify("api/client/models/user.ts")).toBe("generated");
+        expect(classify("nested/api/client/user.ts")).toBeUndefined();
+        expect(classify("yarn.lock")).toBeUndefined();
+        expect(classify("assets/js/jquery.js")).toBe("vendored");
+    });
+
+    test("lets user patterns add and exclude files", () => {
+        const classify = classifier("", "schema/*.graphql, !vendor/internal/");
+
+        expect(classify("schema/api.graphql")).toBe("generated");
+        expect(classify("vendor/internal/tool.go")).toBeUndefined();
+        expect(classify("vendor/other/tool.go")).toBe("vendored");
+    });
+});
@@ -1,5 +1,6 @@
 import { describe, expect, test } from "bun:test";
 import { githubNormalization } from "../src/lib/git-host/providers/github/client";
+import { hostInstanceKey, normalizeGithubInstance } from "../src/lib/git-host/shared/instance";
 
 describe("github comment normalization", () => {
     test("marks resolved GitHub review threads as resolved on the root comment", () => {
@@ -116,4 +117,92 @@ describe("github comment normalization", () => {
             side: "RIGHT",
         });
     });
+
+    test("keeps ranges that start on removed lines and end on added ones", () => {
+        expect(githubNormalization.mapGithubInlineComment({ path: "src/file.ts", startFrom: 12, to: 14 })).toEqual({
+            path: "src/file.ts",
+            start_line: 12,
+            start_side: "LEFT",
+            line: 14,
+            side: "RIGHT",
+        });
+        const [comment] = githubNormalization.mergeIssueAndReviewComments(
+            [],
+            [
+                {
+                    id: 32,
+                    created_at: "2026-01-01T00:00:00Z",
+                    body: "both sides",
+                    path: "src/file.ts",
+                    start_line: 12,
+                    start_side: "LEFT",
+                    line: 14,
+                    side: "RIGHT",
+                    position: 3,
+                },
+            ],
+        );
+        expect(comment?.inline).toEqual({ path: "src/file.ts", to: 14, from: undefined, startFrom: 12 });
+    });
+
+    test("marks comments from the viewer's pending review as pending without duplicating published ones", () => {
+        const { reviewComments, pendingCommentIds } = githubNormalization.mergeGithubPendingReviewComments(
+            [{ id: 40, created_at: "2026-01-01T00:00:00Z", body: "published", path: "src/file.ts", line: 3, side: "RIGHT" }],
+            [
+                { id: 40, created_at: "2026-01-01T00:00:00Z", body: "published", path: "src/file.ts", line: 3, side: "RIGHT" },
+                { id: 41, created_at: "2026-01-01T00:01:00Z", body: "draft", path: "src/file.ts", line: 7, side: "RIGHT" },
+            ],
+        );
+
+        const comments = githubNormalization.mergeIssueAndReviewComments([], reviewComments, { pendingCommentIds });
+
+        expect(comments.map((comment) => comment.id)).toEqual([40, 41]);
+        expect(comments[0]?.pending).toBe(true);
+        expect(comments[1]?.pending).toBe(true);
+        expect(comments[1]?.pendingReview).toBe(true);
+        expect(comments[1]?.inline).toEqual({ path: "src/file.ts", to: 7, from: undefined });
+    });
+
+    test("maps reaction counts and marks the viewer's own reactions", () => {
+        const viewerReactionsByCommentId = githubNormalization.collectGithubViewerReactions([
+            {
+                databaseId: 50,
+                reactionGroups: [
+                    { content: "THUMBS_UP", viewerHasReacted: true },
+                    { content: "HEART", viewerHasReacted: false },
+                ],
+            },
+        ]);
+
+        const comments = githubNormalization.mergeIssueAndReviewComments(
+            [{ id: 50, created_at: "2026-01-01T00:00:00Z", body: "LGTM", reactions: { total_count: 3, "+1": 2, heart: 1, laugh: 0 } }],
+            [{ id: 51, created_at: "2026-01-01T00:01:00Z", body: "nit", path: "src/file.ts", line: 3, side: "RIGHT", reactions: { total_count: 0 } }],
+            { viewerReactionsByCommentId },
+        );
+
+        expect(comments[0]?.reactions).toEqual([
+            { content: "+1", count: 2, viewerReacted: true },
+            { content: "heart", count: 1 },
+        ]);
+        expect(comments[1]?.reactions).toEqual([]);
+    });
+});
+
+describe("github enterprise instances", () => {
+    test("normalizes enterprise hosts and treats github.com as the default instance", () => {
+        expect(normalizeGithubInstance("https://GHE.Example.com/")).toBe("ghe.example.com");
+        expect(normalizeGithubInstance("github.com")).toBeUndefined();
+        expect(normalizeGithubInstance("  ")).toBeUndefined();
+        expect(hostInstanceKey({ host: "github", instance: "ghe.example.com" })).toBe("github@ghe.example.com");
+        expect(hostInstanceKey({ host: "github" })).toBe("github");
+    });
+
+    test("routes REST and GraphQL calls to the instance API base", () => {
+        expect(githubNormalization.githubRepoPath({ workspace: "acme", repo: "app" })).toBe("https://api.github.com/repos/acme/app");
+        expect(githubNormalization.githubRepoPath({ instance: "ghe.example.com", workspace: "acme", repo: "app" })).toBe(
+            "https://ghe.example.com/api/v3/repos/acme/app",
+        );
+        expect(githubNormalization.githubGraphqlUrl("ghe.example.com")).toBe("https://ghe.example.com/api/graphql");
+        expect(githubNormalization.githubGraphqlUrl()).toBe("https://api.github.com/graphql");
+    });
 });
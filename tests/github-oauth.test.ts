@@ -0,0 +1,114 @@
+import { describe, expect, test } from "bun:test";
+import { clearGithubAuthCredential, ensureDataCollectionsReady, readGithubAuthCredential, writeGithubAuthCredential } from "../src/lib/data/query-collections";
+import { githubClient } from "../src/lib/git-host/providers/github";
+import { worker } from "../src/worker";
+
+const workerEnv = {
+    ASSETS: {
+        fetch: async () => new Response("asset"),
+    },
+    GITHUB_OAUTH_CLIENT_ID: "github-client-id",
+    GITHUB_OAUTH_CLIENT_SECRET: "github-client-secret",
+};
+
+const originalFetch = globalThis.fetch;
+
+async function startGithubOAuth() {
+    const response = await worker.fetch(new Request("https://pullrequest.review/api/auth/github/start?return_to=%2Facme%2Fapp%2Fpull%2F7"), workerEnv);
+    const location = new URL(response.headers.get("location") ?? "");
+    return {
+        response,
+        location,
+        state: location.searchParams.get("state") ?? "",
+        cookie: (response.headers.get("set-cookie") ?? "").split(";", 1)[0],
+    };
+}
+
+function exchangeRequest(cookie: string, state: string) {
+    return new Request("https://pullrequest.review/api/auth/github/exchange", {
+        method: "POST",
+        headers: { Origin: "https://pullrequest.review", Cookie: cookie, "Content-Type": "application/json" },
+        body: JSON.stringify({ code: "github-code", state }),
+    });
+}
+
+describe("GitHub OAuth worker", () => {
+    test("starts authorization with a provider-scoped state", async () => {
+        const { response, location, state } = await startGithubOAuth();
+
+        expect(response.status).toBe(302);
+        expect(location.origin).toBe("https://github.com");
+        expect(location.pathname).toBe("/login/oauth/authorize");
+        expect(location.searchParams.get("client_id")).toBe("github-client-id");
+        expect(location.searchParams.get("redirect_uri")).toBe("https://pullrequest.review/oauth/callback");
+        expect(location.searchParams.get("scope")).toBe("repo read:org");
+        expect(state.startsWith("github.")).toBe(true);
+        expect(response.headers.get("set-cookie")).toContain("__Host-pr_github_oauth_state=");
+    });
+
+    test("exchanges the code with client credentials in the form body", async () => {
+        const { state, cookie } = await startGithubOAuth();
+        let tokenRequestBody = "";
+        globalThis.fetch = (async (_input: RequestInfo | URL, init?: RequestInit) => {
+            tokenRequestBody = String(init?.body ?? "");
+            return Response.json({ access_token: "ghu_access", refresh_token: "ghr_refresh", expires_in: 28800 });
+        }) as typeof fetch;
+
+        try {
+            const response = await worker.fetch(exchangeRequest(cookie, state), workerEnv);
+            const payload = (await response.json()) as Record<string, unknown>;
+
+            expect(response.status).toBe(200);
+            expect(payload.accessToken).toBe("ghu_access");
+            expect(payload.refreshToken).toBe("ghr_refresh");
+            expect(payload.returnTo).toBe("/acme/app/pull/7");
+            expect(tokenRequestBody).toContain("client_secret=github-client-secret");
+        } finally {
+            globalThis.fetch = originalFetch;
+        }
+    });
+
+    test("treats an error payload with a 200 status as a failed exchange", async () => {
+        const { state, cookie } = await startGithubOAuth();
+        globalThis.fetch = (async () => Response.json({ error: "bad_verification_code" })) as typeof fetch;
+
+        try {
+            const response = await worker.fetch(exchangeRequest(cookie, state), workerEnv);
+
+            expect(response.status).toBe(502);
+            expect((await response.json()) as Record<string, unknown>).toEqual({ error: "GitHub rejected the OAuth token request (bad_verification_code)" });
+        } finally {
+            globalThis.fetch = originalFetch;
+        }
+    });
+});
+
+describe("GitHub client OAuth refresh", () => {
+    test("refreshes an expiring user token before calling the API", async () => {
+        await ensureDataCollectionsReady();
+        await writeGithubAuthCredential({ token: "ghu_expired", refreshToken: "ghr_old", expiresAt: Date.now() - 1 });
+        const requestedUrls: string[] = [];
+        let apiAuthorization = "";
+
+        globalThis.fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+            const url = String(input);
+            requestedUrls.push(url);
+            if (url === "/api/auth/github/refresh") {
+                return Response.json({ accessToken: "ghu_fresh", refreshToken: "ghr_rotated", expiresAt: Date.now() + 28_800_000 });
+            }
+            apiAuthorization = new Headers(init?.headers).get("Authorization") ?? "";
+            return Response.json([]);
+        }) as typeof fetch;
+
+        try {
+            expect(await githubClient.listRepositories()).toEqual([]);
+            expect(requestedUrls[0]).toBe("/api/auth/github/refresh");
+            expect(apiAuthorization).toBe("Bearer ghu_fresh");
+            expect(readGithubAuthCredential()?.token).toBe("ghu_fresh");
+            expect(readGithubAuthCredential()?.refreshToken).toBe("ghr_rotated");
+        } finally {
+            globalThis.fetch = originalFetch;
+            clearGithubAuthCredential();
+        }
+    });
+});
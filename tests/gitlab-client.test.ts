@@ -0,0 +1,177 @@
+import { describe, expect, test } from "bun:test";
+import { gitlabNormalization } from "../src/lib/git-host/providers/gitlab";
+
+describe("gitlab normalization", () => {
+    test("normalizes gitlab.com and self-managed base URLs", () => {
+        expect(gitlabNormalization.normalizeGitlabBaseUrl("")).toBe("https://gitlab.com");
+        expect(gitlabNormalization.normalizeGitlabBaseUrl("gitlab.example.com/")).toBe("https://gitlab.example.com");
+        expect(gitlabNormalization.normalizeGitlabBaseUrl("https://code.example.com/gitlab/api/v4/")).toBe("https://code.example.com/gitlab");
+    });
+
+    test("maps merge request summaries to the shared pull request model", () => {
+        const summary = gitlabNormalization.mapPullRequestSummary({
+            id: 900,
+            iid: 12,
+            title: "Add pipelines",
+            state: "opened",
+            web_url: "https://gitlab.com/acme/repo/-/merge_requests/12",
+            author: { username: "jdoe", name: "Jane Doe", avatar_url: "https://avatars.example/jdoe.png" },
+            source_branch: "feature",
+            target_branch: "main",
+        });
+
+        expect(summary).toEqual({
+            id: 12,
+            title: "Add pipelines",
+            state: "OPEN",
+            links: { html: { href: "https://gitlab.com/acme/repo/-/merge_requests/12" } },
+            author: { displayName: "Jane Doe", avatarUrl: "https://avatars.example/jdoe.png" },
+            source: { branch: { name: "feature" } },
+            destination: { branch: { name: "main" } },
+        });
+    });
+
+    test("builds a unified diff and diffstat from merge request diffs", () => {
+        const diffs = [
+            {
+                old_path: "src/old.ts",
+                new_path: "src/new.ts",
+                renamed_file: true,
+                diff: "@@ -1,2 +1,2 @@\n-const a = 1;\n+const a = 2;\n const b = 3;\n",
+            },
+            { old_path: "README.md", new_path: "README.md", new_file: true, b_mode: "100644", diff: "@@ -0,0 +1 @@\n+hello\n" },
+        ];
+
+        expect(gitlabNormalization.buildUnifiedDiff(diffs)).toBe(
+            [
+                "diff --git a/src/old.ts b/src/new.ts",
+                "rename from src/old.ts",
+                "rename to src/new.ts",
+                "--- a/src/old.ts",
+                "+++ b/src/new.ts",
+                "@@ -1,2 +1,2 @@",
+                "-const a = 1;",
+                "+const a = 2;",
+                " const b = 3;",
+                "diff --git a/README.md b/README.md",
+                "new file mode 100644",
+                "--- /dev/null",
+                "+++ b/README.md",
+                "@@ -0,0 +1 @@",
+                "+hello",
+                "",
+            ].join("\n"),
+        );
+        expect(gitlabNormalization.mapDiffStat(diffs)).toEqual([
+            { status: "renamed", new: { path: "src/new.ts" }, old: { path: "src/old.ts" }, linesAdded: 1, linesRemoved: 1 },
+            { status: "added", new: { path: "README.md" }, old: { path: "README.md" }, linesAdded: 1, linesRemoved: 0 },
+        ]);
+    });
+
+    test("counts diff lines that look like file headers once inside a hunk", () => {
+        const diffs = [
+            {
+                old_path: "notes.md",
+                new_path: "notes.md",
+                diff: "--- a/notes.md\n+++ b/notes.md\n@@ -1,2 +1,2 @@\n---- old rule\n++++ new rule\n context\n",
+            },
+        ];
+
+        expect(gitlabNormalization.mapDiffStat(diffs)).toEqual([
+            { status: "modified", new: { path: "notes.md" }, old: { path: "notes.md" }, linesAdded: 1, linesRemoved: 1 },
+        ]);
+    });
+
+    test("keeps subgroup namespaces whole in the repository workspace", () => {
+        expect(gitlabNormalization.mapGitlabProjectToRepo({ id: 1, name: "Tool", path: "tool", path_with_namespace: "group/sub/tool" })).toEqual({
+            host: "gitlab",
+            workspace: "group/sub",
+            repo: "tool",
+            fullName: "group/sub/tool",
+            displayName: "Tool",
+        });
+        expect(gitlabNormalization.mapGitlabProjectToRepo({ id: 2, path: "orphan", path_with_namespace: "orphan" })).toBe(null);
+    });
+
+    test("maps resolvable discussions to threads with resolution on the root note", () => {
+        const comments = gitlabNormalization.mapDiscussionsToComments(
+            [
+                {
+                    id: "abc123",
+                    notes: [
+                        {
+                            id: 1,
+                            type: "DiffNote",
+                            body: "root",
+                            created_at: "2026-01-01T00:00:00Z",
+                            author: { username: "jdoe" },
+                            resolvable: true,
+                            resolved: true,
+                            resolved_by: { username: "maintainer" },
+                            position: { head_sha: "old-head", new_path: "src/a.ts", old_path: "src/a.ts", new_line: 4 },
+                        },
+                        { id: 2, type: "DiffNote", body: "reply", created_at: "2026-01-01T00:01:00Z", author: { username: "other" } },
+                        { id: 3, system: true, body: "resolved all threads", created_at: "2026-01-01T00:02:00Z" },
+                    ],
+                },
+            ],
+            "new-head",
+        );
+
+        expect(comments.length).toBe(2);
+        expect(comments[0]?.hostThreadId).toBe("abc123");
+        expect(comments[0]?.resolution).toEqual({ user: { displayName: "maintainer", avatarUrl: undefined } });
+        expect(comments[0]?.inline).toEqual({ path: "src/a.ts", to: 4, from: undefined, outdated: true, commitHash: "old-head" });
+        expect(comments[1]?.parent).toEqual({ id: 1 });
+        expect(comments[1]?.resolution).toBeUndefined();
+    });
+
+    test("round-trips multi-line suggestions through GitLab's range fence", () => {
+        const body = gitlabNormalization.toGitlabSuggestionBody("```suggestion\nnext\n```", { to: 12, startTo: 10 });
+        expect(body).toBe("```suggestion:-2+0\nnext\n```");
+
+        const [comment] = gitlabNormalization.mapDiscussionsToComments([
+            {
+                id: "thread",
+                notes: [{ id: 5, type: "DiffNote", body, position: { new_path: "src/a.ts", new_line: 12 } }],
+            },
+        ]);
+        expect(comment?.content?.raw).toBe("```suggestion\nnext\n```");
+        expect(comment?.inline?.startTo).toBe(10);
+    });
+
+    test("resolves old and new line numbers for diff note positions", () => {
+        const diff = "@@ -3,4 +3,5 @@\n context\n-removed\n+added\n+added again\n tail\n@@ -20,2 +21,2 @@\n-x\n+y\n";
+
+        expect(gitlabNormalization.resolveGitlabLinePosition(diff, "new", 4)).toEqual({ new_line: 4 });
+        expect(gitlabNormalization.resolveGitlabLinePosition(diff, "old", 4)).toEqual({ old_line: 4 });
+        expect(gitlabNormalization.resolveGitlabLinePosition(diff, "new", 3)).toEqual({ old_line: 3, new_line: 3 });
+        expect(gitlabNormalization.resolveGitlabLinePosition(diff, "new", 6)).toEqual({ old_line: 5, new_line: 6 });
+        expect(gitlabNormalization.resolveGitlabLinePosition(diff, "new", 10)).toEqual({ old_line: 9, new_line: 10 });
+        expect(gitlabNormalization.resolveGitlabLinePosition(diff, "new", 1)).toEqual({ old_line: 1, new_line: 1 });
+    });
+
+    test("maps pipeline jobs to build statuses", () => {
+        const statuses = gitlabNormalization.mapBuildStatuses({ id: 77, status: "running" }, [
+            { id: 1, name: "lint", status: "success" },
+            { id: 2, name: "flaky", status: "failed", allow_failure: true },
+            { id: 3, name: "deploy", status: "manual" },
+            { id: 4, name: "test", status: "running" },
+        ]);
+
+        expect(statuses.map((status) => status.state)).toEqual(["success", "neutral", "neutral", "pending"]);
+        expect(gitlabNormalization.mapBuildStatuses({ id: 77, status: "failed" }, [])[0]?.name).toBe("Pipeline #77");
+    });
+
+    test("maps approval system notes to history events", () => {
+        const event = gitlabNormalization.mapSystemNoteToHistory({
+            id: 9,
+            system: true,
+            body: "approved this merge request",
+            author: { username: "jdoe", name: "Jane Doe" },
+        });
+
+        expect(event?.type).toBe("approved");
+        expect(event?.actor?.displayName).toBe("Jane Doe");
+    });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, test } from "bun:test";
+import {
+    addHostAccount,
+    assignWorkspaceAccounts,
+    DEFAULT_HOST_ACCOUNT_ID,
+    listGithubAuthInstances,
+    listHostAccounts,
+    readActiveHostAccountId,
+    readGithubAuthCredential,
+    readWorkspaceAccountId,
+    removeHostAccount,
+    setActiveHostAccount,
+    writeBitbucketAuthCredential,
+    writeGithubAuthCredential,
+} from "../src/lib/data/query-collections";
+import { bitbucketClient } from "../src/lib/git-host/providers/bitbucket";
+import { pullRequestRefKey, repoRefKey } from "../src/lib/git-host/shared/instance";
+
+describe("host accounts", () => {
+    test("keeps credentials separate per account", async () => {
+        await writeGithubAuthCredential({ token: "personal-token" });
+        const work = await addHostAccount("github", "Work");
+        expect(listHostAccounts("github").map((account) => account.id)).toEqual([DEFAULT_HOST_ACCOUNT_ID, "work"]);
+
+        await setActiveHostAccount("github", work.id);
+        expect(readGithubAuthCredential()).toBe(null);
+        await writeGithubAuthCredential({ token: "work-token" });
+        await writeGithubAuthCredential({ token: "work-ghe-token", instance: "github.acme.com" });
+        expect(readGithubAuthCredential()?.token).toBe("work-token");
+        expect(readGithubAuthCredential(undefined, DEFAULT_HOST_ACCOUNT_ID)?.token).toBe("personal-token");
+        expect(readActiveHostAccountId("github")).toBe(work.id);
+        expect(listGithubAuthInstances()).toEqual(["github.acme.com"]);
+
+        await setActiveHostAccount("github", DEFAULT_HOST_ACCOUNT_ID);
+        expect(readGithubAuthCredential()?.token).toBe("personal-token");
+        expect(listGithubAuthInstances()).toEqual([]);
+
+        await setActiveHostAccount("github", work.id);
+        await removeHostAccount("github", work.id);
+        expect(readActiveHostAccountId("github")).toBe(DEFAULT_HOST_ACCOUNT_ID);
+        await setActiveHostAccount("github", (await addHostAccount("github", "Work")).id);
+        expect(readGithubAuthCredential()).toBe(null);
+    });
+
+    test("maps workspaces to the account they were selected with", async () => {
+        const oss = await addHostAccount("gitlab", "Open Source");
+        expect(oss.id).toBe("open-source");
+        expect((await addHostAccount("gitlab", "Open Source")).id).toBe("open-source-2");
+
+        await assignWorkspaceAccounts("gitlab", ["gnome", "kde"], oss.id);
+        expect(readWorkspaceAccountId("gitlab", "kde")).toBe("open-source");
+        expect(readWorkspaceAccountId("gitlab", "acme")).toBeUndefined();
+
+        await removeHostAccount("gitlab", oss.id);
+        expect(readWorkspaceAccountId("gitlab", "kde")).toBeUndefined();
+    });
+
+    test("keys repositories by account", () => {
+        expect(repoRefKey({ host: "github", fullName: "acme/app" })).toBe("github:acme/app");
+        expect(repoRefKey({ host: "github", instance: "github.acme.com", account: "work", fullName: "acme/app" })).toBe("github@github.acme.com#work:acme/app");
+    });
+
+    test("keys pull requests by host, instance and account", () => {
+        const prRef = { host: "github" as const, workspace: "acme", repo: "app", pullRequestId: "7" };
+        expect(pullRequestRefKey(prRef)).toBe("github:acme/app/7");
+        expect(pullRequestRefKey({ ...prRef, account: "work" })).toBe("github#work:acme/app/7");
+        expect(pullRequestRefKey({ ...prRef, host: "gitlab", instance: "git.acme.com" })).toBe("gitlab@git.acme.com:acme/app/7");
+    });
+
+    test("keeps the account on pull request bundles", async () => {
+        await writeBitbucketAuthCredential({ email: "me@example.com", apiToken: "personal-token" });
+        const work = await addHostAccount("bitbucket", "Work");
+        await setActiveHostAccount("bitbucket", work.id);
+        await writeBitbucketAuthCredential({ email: "me@example.com", apiToken: "work-token" });
+        await setActiveHostAccount("bitbucket", DEFAULT_HOST_ACCOUNT_ID);
+        const authorizations = new Set<string>();
+        const originalFetch = globalThis.fetch;
+        globalThis.fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+            authorizations.add(new Headers(init?.headers).get("Authorization") ?? "");
+            return String(input).endsWith("/diff") ? new Response("") : Response.json({ id: 7, values: [] });
+        }) as typeof fetch;
+
+        try {
+            const prRef = { host: "bitbucket" as const, account: work.id, workspace: "acme", repo: "app", pullRequestId: "7" };
+            expect((await bitbucketClient.fetchPullRequestCriticalByRef({ prRef })).prRef).toEqual(prRef);
+            expect((await bitbucketClient.fetchPullRequestDeferredByRef({ prRef })).prRef).toEqual(prRef);
+            expect(Array.from(authorizations)).toEqual([`Basic ${btoa("me@example.com:work-token")}`]);
+        } finally {
+            globalThis.fetch = originalFetch;
+            await removeHostAccount("bitbucket", work.id);
+        }
+    });
+});
@@ -3,7 +3,7 @@ import { renderToStaticMarkup } from "react-dom/server";
 import { HostAuthForm } from "../src/components/auth/host-auth-form";
 import { PrProvider } from "../src/lib/pr-context";
 
-function renderAuthForm(host: "bitbucket" | "github") {
+function renderAuthForm(host: "bitbucket" | "github" | "gitlab") {
     return renderToStaticMarkup(
         <PrProvider>
             <HostAuthForm host={host} mode="onboarding" />
@@ -19,6 +19,7 @@ describe("host authentication choices", () => {
         expect(html).toContain("or use an API token");
         expect(html).toContain("Bitbucket Email");
         expect(html).toContain("Scoped API Token");
+        expect(html).toContain("Bitbucket Data Center URL");
     });
 
     test("keeps GitHub token authentication unchanged", () => {
@@ -27,4 +28,12 @@ describe("host authentication choices", () => {
         expect(html).toContain("GitHub Token");
         expect(html.includes("Continue with Bitbucket OAuth")).toBe(false);
     });
+
+    test("asks for a GitLab token and optional self-managed instance URL", () => {
+        const html = renderAuthForm("gitlab");
+
+        expect(html).toContain("GitLab Instance URL");
+        expect(html).toContain("GitLab Token");
+        expect(html).toContain("Connect GitLab");
+    });
 });
@@ -1,5 +1,6 @@
 import { describe, expect, test } from "bun:test";
-import { inlineDraftStorageKey } from "../src/components/pull-request-review/use-inline-drafts";
+import { toInlineCommentLineTarget } from "../src/components/pull-request-review/review-page-model";
+import { inlineDraftCommentPosition, inlineDraftStorageKey, isSameInlineDraft } from "../src/components/pull-request-review/use-inline-drafts";
 
 describe("inline draft storage keys", () => {
     test("builds stable keys with escaped file paths", () => {
@@ -11,4 +12,55 @@ describe("inline draft storage keys", () => {
 
         expect(key).toBe("inline_comment_draft:v1:workspace/repo/42:additions:17:src%2Ffile%20with%20spaces.ts");
     });
+
+    test("keeps range drafts apart from single-line drafts on their last line", () => {
+        const single = { side: "deletions", line: 17, path: "src/a.ts" };
+        const range = { ...single, startLine: 12 };
+
+        expect(inlineDraftStorageKey("workspace", "repo", "42", range)).toBe("inline_comment_draft:v1:workspace/repo/42:deletions:12-17:src%2Fa.ts");
+        expect(isSameInlineDraft(single, range)).toBe(false);
+        expect(isSameInlineDraft(range, { ...range })).toBe(true);
+    });
+
+    test("keeps the start side of ranges that cross from removed into added lines", () => {
+        const range = { side: "additions", line: 8, startLine: 5, startSide: "deletions", path: "src/a.ts" };
+
+        expect(inlineDraftStorageKey("workspace", "repo", "42", range)).toBe("inline_comment_draft:v1:workspace/repo/42:additions:deletions:5-8:src%2Fa.ts");
+        expect(isSameInlineDraft(range, { ...range, startSide: undefined })).toBe(false);
+    });
+});
+
+describe("inline draft ranges", () => {
+    test("maps ranges onto the side-specific comment position", () => {
+        expect(inlineDraftCommentPosition({ path: "a.ts", line: 9, side: "additions", startLine: 4 })).toEqual({ path: "a.ts", to: 9, startTo: 4 });
+        expect(inlineDraftCommentPosition({ path: "a.ts", line: 9, side: "deletions", startLine: 4 })).toEqual({ path: "a.ts", from: 9, startFrom: 4 });
+        expect(inlineDraftCommentPosition({ path: "a.ts", line: 9, side: "additions" })).toEqual({ path: "a.ts", to: 9 });
+        expect(inlineDraftCommentPosition({ path: "a.ts", line: 3, side: "additions", startLine: 7, startSide: "deletions" })).toEqual({
+            path: "a.ts",
+            to: 3,
+            startFrom: 7,
+        });
+    });
+
+    test("normalizes gutter selections dragged in either direction", () => {
+        expect(toInlineCommentLineTarget({ start: 30, side: "additions", end: 24, endSide: "additions" })).toEqual({
+            lineNumber: 30,
+            annotationSide: "additions",
+            startLineNumber: 24,
+        });
+        expect(toInlineCommentLineTarget({ start: 5, side: "deletions", end: 5 })).toEqual({ lineNumber: 5, annotationSide: "deletions" });
+        expect(toInlineCommentLineTarget({ start: 5, side: "deletions", end: 8, endSide: "additions" })).toEqual({
+            lineNumber: 8,
+            annotationSide: "additions",
+            startLineNumber: 5,
+            startSide: "deletions",
+        });
+        expect(toInlineCommentLineTarget({ start: 8, side: "additions", end: 5, endSide: "deletions" })).toEqual({
+            lineNumber: 8,
+            annotationSide: "additions",
+            startLineNumber: 5,
+            startSide: "deletions",
+        });
+        expect(toInlineCommentLineTarget(null)).toBe(null);
+    });
 });
@@ -0,0 +1,71 @@
+import { describe, expect, test } from "bun:test";
+import { parsePatchFiles } from "@pierre/diffs";
+import type { Comment, Commit, PullRequestFileHistoryEntry } from "../src/lib/git-host/types";
+import { mapLineThroughPatch, trackOutdatedComment } from "../src/lib/outdated-comments";
+
+function patch(hunks: string[]) {
+    return ["diff --git a/src/app.ts b/src/app.ts", "--- a/src/app.ts", "+++ b/src/app.ts", ...hunks, ""].join("\n");
+}
+
+function fileDiff(hunks: string[]) {
+    const parsed = parsePatchFiles(patch(hunks)).flatMap((entry) => entry.files)[0];
+    if (!parsed) throw new Error("patch did not parse");
+    return parsed;
+}
+
+function entry(commitHash: string, hunks: string[]): PullRequestFileHistoryEntry {
+    return { versionId: commitHash, commitHash, filePathAtCommit: "src/app.ts", status: "modified", patch: patch(hunks) };
+}
+
+const commits: Commit[] = [
+    { hash: "c1", date: "2026-01-01T00:00:00Z" },
+    { hash: "c2", date: "2026-01-02T00:00:00Z" },
+    { hash: "c3", date: "2026-01-03T00:00:00Z" },
+];
+
+function outdatedComment(line: number, commitHash?: string): Comment {
+    return {
+        id: 7,
+        createdAt: "2026-01-01T12:00:00Z",
+        inline: { path: "src/app.ts", to: line, outdated: true, ...(commitHash ? { commitHash } : {}) },
+    };
+}
+
+describe("outdated comment tracking", () => {
+    test("shifts lines below a hunk and keeps context lines inside it", () => {
+        const diff = fileDiff(["@@ -1,4 +1,6 @@", " one", "+added a", "+added b", " two", " three", " four"]);
+
+        expect(mapLineThroughPatch(diff, 1)).toBe(1);
+        expect(mapLineThroughPatch(diff, 3)).toBe(5);
+        expect(mapLineThroughPatch(diff, 10)).toBe(12);
+    });
+
+    test("reports rewritten lines as unmappable", () => {
+        const diff = fileDiff(["@@ -2,3 +2,3 @@", " two", "-three", "+THREE", " four"]);
+
+        expect(mapLineThroughPatch(diff, 3)).toBe(null);
+        expect(mapLineThroughPatch(diff, 4)).toBe(4);
+    });
+
+    test("follows a comment through later commits to its current line", () => {
+        const entries = [
+            entry("c1", ["@@ -1,2 +1,3 @@", " one", "+commented", " two"]),
+            entry("c2", ["@@ -1,1 +1,3 @@", "+header a", "+header b", " one"]),
+            entry("c3", ["@@ -10,2 +10,2 @@", " ten", "-eleven", "+ELEVEN"]),
+        ];
+
+        expect(trackOutdatedComment({ comment: outdatedComment(2), commits, entries })).toEqual({ status: "moved", line: 4, originalLine: 2 });
+    });
+
+    test("orphans a comment whose line was deleted and keeps the snippet from when it was written", () => {
+        const entries = [entry("c1", ["@@ -1,2 +1,3 @@", " one", "+commented", " two"]), entry("c2", ["@@ -1,3 +1,2 @@", " one", "-commented", " two"])];
+
+        const anchor = trackOutdatedComment({ comment: outdatedComment(2, "c1"), commits, entries });
+
+        expect(anchor?.status).toBe("orphaned");
+        if (anchor?.status !== "orphaned") return;
+        expect(anchor.commitHash).toBe("c1");
+        expect(anchor.snippet?.side).toBe("additions");
+        expect(anchor.snippet?.fileDiff.additionLines).toContain("commented\n");
+    });
+});
@@ -0,0 +1,116 @@
+import { describe, expect, test } from "bun:test";
+import { checkPullRequestActivity } from "../src/features/notifications/hooks/use-pull-request-activity-poller";
+import {
+    buildPullRequestWatermark,
+    detectPullRequestActivity,
+    needsActivityCheck,
+    nextPollDelayMs,
+    POLL_INTERVAL_MS,
+} from "../src/features/notifications/model/pull-request-activity";
+import { readPullRequestWatermark, writeBitbucketAuthCredential } from "../src/lib/data/query-collections";
+import type { Comment, RepoRef } from "../src/lib/git-host/types";
+
+const previous = buildPullRequestWatermark(
+    { id: 7, title: "Add retries", state: "OPEN", updatedAt: "2026-03-01T00:00:00Z", source: { commit: { hash: "abc" } } },
+    {
+        comments: [{ id: 10, user: { displayName: "octocat" }, content: { raw: "Looks risky" } }],
+        reviewers: [{ id: "hubot", displayName: "hubot", status: "pending", approved: false }],
+        buildStatuses: [{ id: "ci", name: "CI", state: "pending" }],
+    },
+);
+
+describe("pull request activity", () => {
+    test("records the latest comment, review statuses and build state", () => {
+        expect(previous).toEqual({
+            activityAt: "2026-03-01T00:00:00Z",
+            headCommitHash: "abc",
+            lastCommentId: 10,
+            reviewStatuses: { hubot: "pending" },
+            buildState: "pending",
+        });
+    });
+
+    test("reports commits, replies in the viewer's threads, decisions and finished builds", () => {
+        const comments: Comment[] = [
+            { id: 10, user: { displayName: "octocat" }, content: { raw: "Looks risky" } },
+            { id: 11, user: { displayName: "hubot" }, parent: { id: 10 }, content: { raw: "Added a guard" } },
+            { id: 12, user: { displayName: "hubot" }, content: { raw: "Unrelated note" } },
+        ];
+        const next = buildPullRequestWatermark(
+            { id: 7, title: "Add retries", state: "OPEN", updatedAt: "2026-03-02T00:00:00Z", source: { commit: { hash: "def" } } },
+            {
+                comments,
+                reviewers: [{ id: "hubot", displayName: "hubot", status: "approved", approved: true }],
+                buildStatuses: [{ id: "ci", name: "CI", state: "failed" }],
+            },
+        );
+
+        expect(
+            detectPullRequestActivity({
+                previous,
+                next,
+                comments,
+                reviewers: [{ id: "hubot", displayName: "hubot", status: "approved", approved: true }],
+                viewer: { id: "octocat", displayName: "octocat", isAuthor: false },
+            }),
+        ).toEqual([
+            { kind: "commits", message: "New commits were pushed" },
+            { kind: "comment", message: "hubot commented" },
+            { kind: "review", message: "hubot approved" },
+            { kind: "build", message: "Build failed" },
+        ]);
+    });
+
+    test("stays quiet about the viewer's own pushes and comments", () => {
+        const comments: Comment[] = [{ id: 11, user: { displayName: "octocat" }, content: { raw: "Rebased" } }];
+        const next = { ...previous, headCommitHash: "def", lastCommentId: 11 };
+
+        expect(detectPullRequestActivity({ previous, next, comments, viewer: { id: "octocat", displayName: "octocat", isAuthor: true } })).toEqual([]);
+    });
+
+    test("re-checks unchanged pull requests only while builds are pending", () => {
+        const unchanged = { id: 7, title: "Add retries", state: "OPEN", updatedAt: "2026-03-01T00:00:00Z" };
+        expect(needsActivityCheck(null, unchanged)).toBe(true);
+        expect(needsActivityCheck(previous, unchanged)).toBe(true);
+        expect(needsActivityCheck({ ...previous, buildState: "success" }, unchanged)).toBe(false);
+        expect(needsActivityCheck({ ...previous, buildState: "success" }, { ...unchanged, updatedAt: "2026-03-02T00:00:00Z" })).toBe(true);
+    });
+
+    test("backs off after failures and longer when rate limited", () => {
+        expect(nextPollDelayMs(0, false)).toBe(POLL_INTERVAL_MS);
+        expect(nextPollDelayMs(2, false)).toBe(4 * POLL_INTERVAL_MS);
+        expect(nextPollDelayMs(10, false)).toBe(15 * 60_000);
+        expect(nextPollDelayMs(1, true)).toBe(10 * 60_000);
+        expect(nextPollDelayMs(5, true)).toBe(30 * 60_000);
+    });
+
+    test("skips pull requests that fail to load and rethrows rate limits", async () => {
+        await writeBitbucketAuthCredential({ email: "me@example.com", apiToken: "api-token" });
+        const repo: RepoRef = { host: "bitbucket", workspace: "acme", repo: "app", fullName: "acme/app", displayName: "app" };
+        const watched = [7, 8].map((id) => ({
+            id: `activity-test:${id}`,
+            repo,
+            pullRequest: { id, title: "Add retries", state: "OPEN", updatedAt: `2026-03-0${id - 6}T00:00:00Z` },
+            currentUserId: "octocat",
+        }));
+        const originalFetch = globalThis.fetch;
+        let rateLimited = false;
+        globalThis.fetch = (async (input: RequestInfo | URL) => {
+            if (rateLimited) return new Response("", { status: 429, statusText: "Too Many Requests" });
+            if (String(input).includes("/pullrequests/8")) return new Response("", { status: 404, statusText: "Not Found" });
+            return Response.json({ id: 7, values: [] });
+        }) as typeof fetch;
+
+        try {
+            await checkPullRequestActivity(watched, () => {});
+            expect(readPullRequestWatermark("activity-test:7")?.activityAt).toBe("2026-03-01T00:00:00Z");
+            expect(readPullRequestWatermark("activity-test:8")).toBe(null);
+
+            rateLimited = true;
+            const error = await checkPullRequestActivity(watched, () => {}).catch((reason: unknown) => reason);
+            expect(error instanceof Error ? error.message : "").toContain("429");
+        } finally {
+            globalThis.fetch = originalFetch;
+        }
+    });
+});
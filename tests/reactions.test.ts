@@ -0,0 +1,29 @@
+import { describe, expect, test } from "bun:test";
+import { applyCommentReaction } from "../src/lib/git-host/reactions";
+
+describe("comment reactions", () => {
+    test("adds the viewer's reaction to an existing or new group", () => {
+        expect(applyCommentReaction([{ content: "+1", count: 2 }], "+1", true)).toEqual([{ content: "+1", count: 3, viewerReacted: true }]);
+        expect(applyCommentReaction(undefined, "rocket", true)).toEqual([{ content: "rocket", count: 1, viewerReacted: true }]);
+    });
+
+    test("removes the viewer's reaction and drops empty groups", () => {
+        const reactions = [
+            { content: "+1" as const, count: 1, viewerReacted: true },
+            { content: "eyes" as const, count: 2, viewerReacted: true },
+        ];
+
+        expect(applyCommentReaction(reactions, "+1", false)).toEqual([{ content: "eyes", count: 2, viewerReacted: true }]);
+        expect(applyCommentReaction(reactions, "eyes", false)).toEqual([
+            { content: "+1", count: 1, viewerReacted: true },
+            { content: "eyes", count: 1 },
+        ]);
+    });
+
+    test("leaves reactions unchanged when the server already reflects the toggle", () => {
+        const reactions = [{ content: "heart" as const, count: 4, viewerReacted: true }];
+
+        expect(applyCommentReaction(reactions, "heart", true)).toEqual(reactions);
+        expect(applyCommentReaction([], "heart", false)).toEqual([]);
+    });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, test } from "bun:test";
+import { diffRenderedBlocks, parseNotebookCells, splitMarkdownBlocks } from "../src/lib/rendered-diff";
+
+function notebook(cells: Array<{ cell_type: string; source: string[]; outputs?: unknown[]; execution_count?: number | null }>) {
+    return JSON.stringify({ cells, metadata: { language_info: { name: "python" } }, nbformat: 4 }, null, 1);
+}
+
+describe("rendered document diff", () => {
+    test("splits markdown into blocks with source line ranges and keeps fences intact", () => {
+        const blocks = splitMarkdownBlocks(["# Title", "", "Intro line one", "line two", "", "```sh", "echo a", "", "echo b", "```", ""].join("\n"));
+
+        expect(blocks.map((block) => [block.startLine, block.endLine])).toEqual([
+            [1, 1],
+            [3, 4],
+            [6, 10],
+        ]);
+        expect(blocks[2].text).toBe("```sh\necho a\n\necho b\n```");
+    });
+
+    test("highlights only the changed markdown blocks", () => {
+        const oldBlocks = splitMarkdownBlocks("# Title\n\nOld paragraph\n\n## Usage\n");
+        const newBlocks = splitMarkdownBlocks("# Title\n\nNew paragraph\n\n## Usage\n");
+
+        expect(diffRenderedBlocks(oldBlocks, newBlocks).map((change) => `${change.type}:${change.block.text}`)).toEqual([
+            "unchanged:# Title",
+            "removed:Old paragraph",
+            "added:New paragraph",
+            "unchanged:## Usage",
+        ]);
+    });
+
+    test("ignores notebook outputs and execution counts", () => {
+        const before = notebook([
+            { cell_type: "markdown", source: ["# Analysis"] },
+            { cell_type: "code", source: ["print(1)\n"], outputs: [{ text: "1" }], execution_count: 3 },
+        ]);
+        const after = notebook([
+            { cell_type: "markdown", source: ["# Analysis"] },
+            { cell_type: "code", source: ["print(1)\n"], outputs: [{ text: "1\n" }], execution_count: 9 },
+            { cell_type: "code", source: ["print(2)"], outputs: [], execution_count: null },
+        ]);
+        const changes = diffRenderedBlocks(parseNotebookCells(before), parseNotebookCells(after));
+
+        expect(changes.map((change) => change.type)).toEqual(["unchanged", "unchanged", "added"]);
+        expect(changes[2].block.language).toBe("python");
+        expect(after.split("\n")[changes[2].block.startLine - 1].trim()).toBe('"cell_type": "code",');
+    });
+});
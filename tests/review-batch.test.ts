@@ -0,0 +1,52 @@
+import { describe, expect, test } from "bun:test";
+import { publishReviewBatchComments } from "../src/components/pull-request-review/review-batch";
+import { addReviewBatchComment, clearReviewBatchComments, listReviewBatchComments, markReviewBatchCommentPublished } from "../src/lib/data/query-collections";
+
+describe("review batch", () => {
+    test("keeps batched comments in insertion order per scope", async () => {
+        const scopeId = `test:batch-order:${Date.now()}`;
+        await addReviewBatchComment(scopeId, { path: "src/b.ts", line: 9, side: "additions", content: "first" });
+        await addReviewBatchComment(scopeId, { path: "src/a.ts", line: 2, side: "deletions", content: "second" });
+        await addReviewBatchComment(`${scopeId}:other`, { path: "src/a.ts", line: 1, side: "additions", content: "elsewhere" });
+
+        expect(listReviewBatchComments(scopeId).map((comment) => comment.content)).toEqual(["first", "second"]);
+
+        await clearReviewBatchComments(scopeId);
+        expect(listReviewBatchComments(scopeId)).toEqual([]);
+        expect(listReviewBatchComments(`${scopeId}:other`).length).toBe(1);
+    });
+
+    test("resumes after a partial failure without posting comments twice", async () => {
+        const scopeId = `test:batch-resume:${Date.now()}`;
+        for (const content of ["one", "two", "three"]) {
+            await addReviewBatchComment(scopeId, { path: "src/a.ts", line: 1, side: "additions", content });
+        }
+
+        const posted: string[] = [];
+        const progress: string[] = [];
+        let failNext = true;
+        const handlers = {
+            publish: async (comment: { content: string }) => {
+                if (comment.content === "two" && failNext) {
+                    failNext = false;
+                    throw new Error("Network error");
+                }
+                posted.push(comment.content);
+            },
+            markPublished: (comment: { id: string }) => markReviewBatchCommentPublished(comment.id),
+            onProgress: ({ done, total }: { done: number; total: number }) => progress.push(`${done}/${total}`),
+        };
+
+        let failure = "";
+        await publishReviewBatchComments(listReviewBatchComments(scopeId), handlers).catch((error: Error) => {
+            failure = error.message;
+        });
+        expect(failure).toBe("Published 1 of 3 batched comments. Network error");
+        expect(listReviewBatchComments(scopeId).map((comment) => comment.published)).toEqual([true, false, false]);
+
+        const result = await publishReviewBatchComments(listReviewBatchComments(scopeId), handlers);
+        expect(result).toEqual({ done: 3, total: 3 });
+        expect(posted).toEqual(["one", "two", "three"]);
+        expect(progress).toEqual(["0/3", "1/3", "1/3", "2/3", "3/3"]);
+    });
+});
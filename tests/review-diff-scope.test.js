@@ -1,5 +1,5 @@
 import { describe, expect, test } from "bun:test";
-import { resolveReviewDiffScope, validateReviewDiffScopeSearch } from "../src/lib/review-diff-scope";
+import { diffScopeStorageSegment, resolveReviewDiffScope, validateReviewDiffScopeSearch } from "../src/lib/review-diff-scope";
 
 const commitsNewestFirst = [
     { hash: "cccccccc", message: "feat: third" },
@@ -20,6 +20,10 @@ describe("review diff scope parsing", () => {
     test("canonicalizes unsupported scope mode to full mode", () => {
         expect(validateReviewDiffScopeSearch({ scope: "since", baseline: "bbbbbbbb", includeMerge: "1" })).toEqual({});
     });
+
+    test("keeps the since-last-review scope over a commit range", () => {
+        expect(validateReviewDiffScopeSearch({ since: "last-review", from: "bbbbbbbb" })).toEqual({ since: "last-review" });
+    });
 });
 
 describe("review diff scope resolution", () => {
@@ -61,3 +65,65 @@ describe("review diff scope resolution", () => {
         expect(resolved.visibleCommits.map((commit) => commit.hash)).toEqual(["bbbbbbbb", "cccccccc", "dddddddd"]);
     });
 });
+
+describe("since last review scope", () => {
+    test("selects commits after the last reviewed head", () => {
+        const resolved = resolveReviewDiffScope({
+            search: { since: "last-review" },
+            commits: commitsNewestFirst,
+            destinationCommitHash: "basebase1",
+            lastReviewedCommitHash: "aaaaaaaa",
+        });
+
+        expect(resolved.mode).toBe("sinceLastReview");
+        if (resolved.mode === "full") return;
+        expect(resolved.baseCommitHash).toBe("aaaaaaaa");
+        expect(resolved.headCommitHash).toBe("cccccccc");
+        expect(resolved.selectedCommitHashes).toEqual(["bbbbbbbb", "cccccccc"]);
+        expect(resolved.normalizedSearch).toEqual({ since: "last-review" });
+    });
+
+    test("selects nothing when the head has not moved", () => {
+        const resolved = resolveReviewDiffScope({
+            search: { since: "last-review" },
+            commits: commitsNewestFirst,
+            lastReviewedCommitHash: "cccccccc",
+        });
+
+        expect(resolved.mode).toBe("sinceLastReview");
+        expect(resolved.selectedCommitHashes).toEqual([]);
+    });
+
+    test("falls back to full mode without a usable previous review", () => {
+        expect(resolveReviewDiffScope({ search: { since: "last-review" }, commits: commitsNewestFirst }).fallbackReason).toBe("no_previous_review");
+        expect(
+            resolveReviewDiffScope({ search: { since: "last-review" }, commits: commitsNewestFirst, lastReviewedCommitHash: "ffffffff" }).fallbackReason,
+        ).toBe("previous_review_unavailable");
+    });
+});
+
+describe("revision interdiff scope", () => {
+    const revisions = [
+        { number: 1, headCommitHash: "aaaaaaaa", baseCommitHash: "basebase1" },
+        { number: 2, headCommitHash: "cccccccc", baseCommitHash: "basebase2" },
+    ];
+
+    test("orders the revision pair and drops other scope params", () => {
+        expect(validateReviewDiffScopeSearch({ interdiff: "2..1", from: "bbbbbbbb" })).toEqual({ interdiff: "1..2" });
+        expect(validateReviewDiffScopeSearch({ interdiff: "2..2" })).toEqual({});
+    });
+
+    test("compares the heads of both recorded revisions", () => {
+        const resolved = resolveReviewDiffScope({ search: { interdiff: "1..2" }, commits: commitsNewestFirst, revisions });
+
+        expect(resolved.mode).toBe("interdiff");
+        if (resolved.mode !== "interdiff") return;
+        expect(resolved.fromRevision.baseCommitHash).toBe("basebase1");
+        expect(resolved.toRevision.headCommitHash).toBe("cccccccc");
+        expect(diffScopeStorageSegment(resolved)).toBe("interdiff:aaaaaaaa..cccccccc");
+    });
+
+    test("falls back to full mode for unknown revisions", () => {
+        expect(resolveReviewDiffScope({ search: { interdiff: "1..3" }, commits: commitsNewestFirst, revisions }).fallbackReason).toBe("revision_unavailable");
+    });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, test } from "bun:test";
+import { buildInboxSections, classifyInboxPullRequest } from "../src/features/landing/model/landing-model";
+import { bitbucketNormalization } from "../src/lib/git-host/providers/bitbucket";
+import { githubNormalization } from "../src/lib/git-host/providers/github";
+import type { PullRequestSummary } from "../src/lib/git-host/types";
+
+function pullRequest(overrides: Partial<PullRequestSummary>): PullRequestSummary {
+    return { id: 1, title: "Change", state: "OPEN", updatedAt: "2026-03-02T00:00:00Z", author: { id: "someone" }, ...overrides };
+}
+
+describe("review inbox classification", () => {
+    test("places each pull request in the first matching section", () => {
+        expect(
+            classifyInboxPullRequest(
+                pullRequest({
+                    author: { id: "me" },
+                    reviewers: [{ id: "me", status: "pending", approved: false, requested: true }],
+                }),
+                "me",
+            ),
+        ).toBe("reviewRequested");
+        expect(classifyInboxPullRequest(pullRequest({ author: { id: "me" } }), "me")).toBe("authored");
+        expect(classifyInboxPullRequest(pullRequest({ participants: [{ id: "me" }] }), "me")).toBe("commented");
+        expect(classifyInboxPullRequest(pullRequest({ participants: [{ id: "other" }] }), "me")).toBe(null);
+    });
+
+    test("flags approvals older than the latest commit", () => {
+        const approved = { id: "me", status: "approved" as const, approved: true, updatedAt: "2026-03-01T00:00:00Z" };
+        expect(classifyInboxPullRequest(pullRequest({ reviewers: [approved], lastCommitAt: "2026-03-01T12:00:00Z" }), "me")).toBe("approvedSinceUpdated");
+        expect(classifyInboxPullRequest(pullRequest({ reviewers: [approved], lastCommitAt: "2026-02-28T00:00:00Z" }), "me")).toBe("commented");
+    });
+
+    test("builds every section in a fixed order", () => {
+        const sections = buildInboxSections([
+            {
+                host: "github",
+                repo: { host: "github", workspace: "acme", repo: "app", fullName: "acme/app", displayName: "app" },
+                pullRequest: pullRequest({ id: 3, author: { id: "octocat" } }),
+                currentUserId: "octocat",
+            },
+            { host: "github", repo: { workspace: "acme", repo: "app" }, pullRequest: pullRequest({ id: 4 }) },
+        ]);
+
+        expect(sections.map((section) => section.id)).toEqual(["reviewRequested", "approvedSinceUpdated", "authored", "commented"]);
+        expect(sections[2]?.rows.map((row) => row.pullRequest.id)).toEqual([3]);
+    });
+});
+
+describe("review inbox normalization", () => {
+    test("adds the viewer as a requested reviewer for team review requests", () => {
+        const inboxPullRequest = githubNormalization.mapGithubInboxPullRequest(
+            {
+                number: 12,
+                title: "Bump deps",
+                updatedAt: "2026-03-02T00:00:00Z",
+                author: { login: "dependabot" },
+                repository: { name: "app", owner: { login: "acme" } },
+                reviewRequests: { nodes: [{ requestedReviewer: null }] },
+                participants: { nodes: [{ login: "dependabot" }, { login: "octocat" }] },
+                commits: { nodes: [{ commit: { committedDate: "2026-03-01T00:00:00Z" } }] },
+            },
+            { viewerLogin: "octocat", reviewRequested: true },
+        );
+
+        expect(inboxPullRequest?.repo.fullName).toBe("acme/app");
+        expect(inboxPullRequest?.currentUserId).toBe("octocat");
+        expect(inboxPullRequest?.pullRequest.lastCommitAt).toBe("2026-03-01T00:00:00Z");
+        expect(classifyInboxPullRequest(inboxPullRequest?.pullRequest ?? pullRequest({}), "octocat")).toBe("reviewRequested");
+    });
+
+    test("keys Bitbucket reviewers and participants by account", () => {
+        const summary = bitbucketNormalization.mapInboxPullRequestSummary({
+            id: 5,
+            title: "Fix login",
+            state: "OPEN",
+            author: { account_id: "author-1", display_name: "Ann" },
+            reviewers: [{ account_id: "me-1", display_name: "Me" }],
+            participants: [{ user: { account_id: "me-1", display_name: "Me" }, approved: true, participated_on: "2026-03-01T00:00:00Z" }],
+        });
+
+        expect(summary.author?.id).toBe("author-1");
+        expect(summary.reviewers).toEqual([
+            { id: "me-1", displayName: "Me", avatarUrl: undefined, status: "approved", approved: true, requested: true, updatedAt: "2026-03-01T00:00:00Z" },
+        ]);
+        expect(summary.participants?.map((participant) => participant.id)).toEqual(["me-1"]);
+    });
+});
@@ -1,5 +1,7 @@
 import { describe, expect, test } from "bun:test";
-import { readViewedVersionIds, writeViewedVersionIds } from "../src/components/pull-request-review/use-review-storage";
+import { readViewedCommitRanges, readViewedVersionIds, writeViewedVersionIds } from "../src/components/pull-request-review/use-review-storage";
+import { resolveViewedCarryOver } from "../src/features/review/model/review-page-controller-helpers";
+import { exportReviewViewedState, importReviewViewedState } from "../src/lib/data/query-collections";
 
 describe("review viewed version storage", () => {
     test("writes and reads viewed version ids from state collection", () => {
@@ -31,3 +33,53 @@ describe("review viewed version storage", () => {
         expect(Array.from(readViewedVersionIds(rangeKey))).toEqual(["src/a.ts::fp-b"]);
     });
 });
+
+describe("viewed state carry-over", () => {
+    test("keeps files viewed only while their fingerprint is unchanged", () => {
+        const { viewedPaths, changedSinceViewed } = resolveViewedCarryOver(
+            ["src/a.ts::fp-a", "src/b.ts::fp-old", "src/gone.ts::fp-gone"],
+            new Map([
+                ["src/a.ts", "src/a.ts::fp-a"],
+                ["src/b.ts", "src/b.ts::fp-new"],
+                ["src/c.ts", "src/c.ts::fp-c"],
+            ]),
+        );
+
+        expect(Array.from(viewedPaths)).toEqual(["src/a.ts"]);
+        expect(Array.from(changedSinceViewed)).toEqual([["src/b.ts", "src/b.ts::fp-old"]]);
+    });
+
+    test("stores commit ranges only for stored version ids", () => {
+        const storageKey = `test:viewed-commit-ranges:${Date.now()}`;
+        writeViewedVersionIds(storageKey, new Set(["src/a.ts::fp-a"]), { "src/a.ts::fp-a": "base1..head1", "src/b.ts::fp-b": "base1..head1" });
+
+        expect(readViewedCommitRanges(storageKey)).toEqual({ "src/a.ts::fp-a": "base1..head1" });
+    });
+
+    test("merges imported viewed state with local state", async () => {
+        const storageKey = `test:viewed-import:${Date.now()}`;
+        writeViewedVersionIds(storageKey, new Set(["src/a.ts::fp-a"]));
+        const exported = exportReviewViewedState();
+
+        const imported = await importReviewViewedState({
+            version: 1,
+            exportedAt: exported.exportedAt,
+            scopes: [{ id: storageKey, viewedVersionIds: ["src/b.ts::fp-b"], viewedCommitRanges: { "src/b.ts::fp-b": "base2..head2" } }],
+        });
+
+        expect(imported).toBe(1);
+        expect(exported.scopes.some((scope) => scope.id === storageKey)).toBe(true);
+        expect(Array.from(readViewedVersionIds(storageKey)).sort()).toEqual(["src/a.ts::fp-a", "src/b.ts::fp-b"]);
+        expect(readViewedCommitRanges(storageKey)).toEqual({ "src/b.ts::fp-b": "base2..head2" });
+    });
+
+    test("rejects unknown export formats", async () => {
+        let message = "";
+        try {
+            await importReviewViewedState({ scopes: [] });
+        } catch (error) {
+            message = error instanceof Error ? error.message : "";
+        }
+        expect(message).toBe("Unsupported viewed files export.");
+    });
+});
@@ -253,4 +253,39 @@ describe("thread card", () => {
         expect(html.includes(">Edit<")).toBe(false);
         expect(html.includes(">Delete<")).toBe(false);
     });
+
+    test("keeps edit and delete but hides reply and resolve for pending review comments", () => {
+        const html = renderToStaticMarkup(
+            <ThreadCard
+                thread={buildThread({
+                    root: {
+                        ...buildThread().root,
+                        comment: {
+                            ...buildThread().root.comment,
+                            pending: true,
+                            pendingReview: true,
+                        },
+                        children: [],
+                    },
+                })}
+                canResolveThread
+                canCommentInline
+                createCommentPending={false}
+                resolveCommentPending={false}
+                deleteCommentPending={false}
+                currentUserDisplayName="Root User"
+                onDeleteComment={() => {}}
+                onResolveThread={() => {}}
+                onReplyToThread={() => {}}
+                onEditComment={() => {}}
+                updateCommentPending={false}
+            />,
+        );
+
+        expect(html).toContain(">Pending<");
+        expect(html).toContain(">Edit<");
+        expect(html).toContain(">Delete<");
+        expect(html.includes(">Reply<")).toBe(false);
+        expect(html.includes(">Resolve<")).toBe(false);
+    });
 });
@@ -5,7 +5,7 @@ import { ReviewTopNavbar } from "../src/components/pull-request-review/review-to
 import type { PullRequestReviewer } from "../src/lib/git-host/types";
 import { ShortcutsProvider } from "../src/lib/shortcuts-context";
 
-function renderNavbar(navbarState: string, isDraft = false, reviewers?: PullRequestReviewer[]) {
+function renderNavbar(navbarState: string, isDraft = false, reviewers?: PullRequestReviewer[], pendingReviewCommentCount = 0) {
     return renderToStaticMarkup(
         <ShortcutsProvider>
             <ReviewTopNavbar
@@ -32,6 +32,7 @@ function renderNavbar(navbarState: string, isDraft = false, reviewers?: PullRequ
                 isRequestChangesPending={false}
                 isDeclinePending={false}
                 isMarkDraftPending={false}
+                pendingReviewCommentCount={pendingReviewCommentCount}
                 copiedSourceBranch={false}
                 onExpandTree={() => {}}
                 onExpandRightSidebar={() => {}}
@@ -41,6 +42,7 @@ function renderNavbar(navbarState: string, isDraft = false, reviewers?: PullRequ
                 onDecline={() => {}}
                 onMarkDraft={() => {}}
                 onOpenMerge={() => {}}
+                onOpenSubmitReview={() => {}}
                 onOpenOmnibar={() => {}}
             />
         </ShortcutsProvider>,
@@ -67,6 +69,12 @@ describe("review top navbar actions", () => {
         expect(html.includes(">DRAFT<")).toBe(false);
     });
 
+    test("offers to submit a pending review only while it has comments", () => {
+        expect(renderNavbar("OPEN").includes("Submit Review")).toBe(false);
+        expect(renderNavbar("OPEN", false, undefined, 3)).toContain("Submit Review (3)");
+        expect(renderNavbar("MERGED", false, undefined, 3).includes("Submit Review")).toBe(false);
+    });
+
     test("shows reviewer decision avatars before pull request action buttons", () => {
         const html = renderNavbar("OPEN", false, [
             {
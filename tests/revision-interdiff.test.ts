@@ -0,0 +1,53 @@
+import { describe, expect, test } from "bun:test";
+import { buildRevisionInterdiff, splitDiffByFile } from "../src/lib/revision-interdiff";
+
+const firstRevision = [
+    "diff --git a/src/retry.ts b/src/retry.ts",
+    "index 1111111..2222222 100644",
+    "--- a/src/retry.ts",
+    "+++ b/src/retry.ts",
+    "@@ -10,3 +10,4 @@ export function retry() {",
+    "     const attempts = 3;",
+    "+    const delay = 100;",
+    "     return run(attempts);",
+    " }",
+    "",
+].join("\n");
+
+describe("revision interdiff", () => {
+    test("ignores hunks that only moved because of a rebase", () => {
+        const rebased = firstRevision.replace("@@ -10,3 +10,4 @@", "@@ -42,3 +42,4 @@");
+
+        expect(buildRevisionInterdiff(firstRevision, rebased)).toEqual({ diff: "", diffstat: [], tooLarge: false });
+    });
+
+    test("shows how the author's changes differ between revisions", () => {
+        const amended = firstRevision.replace("+    const delay = 100;", "+    const delay = 250;");
+        const { diff, diffstat } = buildRevisionInterdiff(firstRevision, amended);
+
+        expect(diff).toContain("--- a/src/retry.ts\n+++ b/src/retry.ts\n@@ -1,5 +1,5 @@");
+        expect(diff).toContain("-+    const delay = 100;\n++    const delay = 250;\n");
+        expect(diffstat).toEqual([{ status: "modified", old: { path: "src/retry.ts" }, new: { path: "src/retry.ts" }, linesAdded: 1, linesRemoved: 1 }]);
+    });
+
+    test("reports files that dropped out of the later revision", () => {
+        const { diffstat } = buildRevisionInterdiff(firstRevision, "");
+
+        expect(diffstat).toEqual([{ status: "removed", old: { path: "src/retry.ts" }, linesAdded: 0, linesRemoved: 5 }]);
+    });
+
+    test("skips revisions too large to compare", () => {
+        const additions = Array.from({ length: 12_000 }, (_, index) => `+line ${index}`).join("\n");
+        const large = `diff --git a/src/big.ts b/src/big.ts\n--- /dev/null\n+++ b/src/big.ts\n@@ -0,0 +1,12000 @@\n${additions}\n`;
+
+        expect(buildRevisionInterdiff(large, large.replaceAll("+line", "+row"))).toEqual({ diff: "", diffstat: [], tooLarge: true });
+    });
+
+    test("splits a diff into per-file patches", () => {
+        const otherFile = ["diff --git a/README.md b/README.md", "--- a/README.md", "+++ b/README.md", "@@ -1 +1 @@", "-old", "+new", ""].join("\n");
+        const patches = splitDiffByFile(`${firstRevision}${otherFile}`);
+
+        expect(Array.from(patches.keys())).toEqual(["src/retry.ts", "README.md"]);
+        expect(patches.get("src/retry.ts")).toBe(firstRevision);
+    });
+});
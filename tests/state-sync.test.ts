@@ -0,0 +1,156 @@
+import { describe, expect, test } from "bun:test";
+import { createSyncReplicationHandlers } from "../src/lib/data/sync/state-sync";
+import { createSyncId, deriveSyncKeys, normalizeSyncId } from "../src/lib/data/sync/sync-crypto";
+import { worker } from "../src/worker";
+
+function createMemorySyncStore() {
+    const values = new Map<string, { value: string; metadata?: unknown }>();
+    return {
+        values,
+        get: async (key: string) => values.get(key)?.value ?? null,
+        put: async (key: string, value: string, options?: { metadata?: { updatedAt: number } }) => {
+            values.set(key, { value, metadata: options?.metadata });
+        },
+        list: async ({ prefix }: { prefix: string; cursor?: string }) => ({
+            keys: Array.from(values.entries())
+                .filter(([name]) => name.startsWith(prefix))
+                .map(([name, entry]) => ({ name, metadata: entry.metadata })),
+            list_complete: true,
+        }),
+    };
+}
+
+const SYNC_ID = "0123456789abcdef0123456789abcdef";
+
+function createWorkerEnv(store = createMemorySyncStore()) {
+    return {
+        ASSETS: {
+            fetch: async () => new Response("asset"),
+        },
+        SYNC_STORE: store,
+    };
+}
+
+function workerFetch(env: ReturnType<typeof createWorkerEnv>) {
+    return (input: string, init: RequestInit) =>
+        worker.fetch(
+            new Request(`https://pullrequest.review${input}`, {
+                ...init,
+                headers: { ...(init.headers as Record<string, string>), Origin: "https://pullrequest.review" },
+            }),
+            env,
+        );
+}
+
+describe("state sync", () => {
+    test("round-trips encrypted documents through the worker", async () => {
+        const store = createMemorySyncStore();
+        const env = createWorkerEnv(store);
+        const keys = await deriveSyncKeys("correct horse battery", SYNC_ID);
+        const laptop = createSyncReplicationHandlers({ collectionName: "review_viewed_state", keys, fetchImpl: workerFetch(env) });
+        const desktop = createSyncReplicationHandlers({ collectionName: "review_viewed_state", keys, fetchImpl: workerFetch(env) });
+
+        const conflicts = await laptop.push([
+            { newDocumentState: { id: "github:acme/repo/pull/7", updatedAt: 10, _deleted: false, versionIds: ["src/a.ts::one"] } },
+        ]);
+        const pulled = await desktop.pull(undefined, 50);
+
+        expect(conflicts).toEqual([]);
+        expect(pulled.documents).toEqual([{ id: "github:acme/repo/pull/7", updatedAt: 10, _deleted: false, versionIds: ["src/a.ts::one"] }]);
+        expect((await desktop.pull(pulled.checkpoint, 50)).documents).toEqual([]);
+
+        const stored = JSON.stringify(Array.from(store.values.entries()));
+        expect(stored.includes("acme/repo")).toBe(false);
+        expect(stored.includes("src/a.ts")).toBe(false);
+    });
+
+    test("returns the newer stored document when a stale write is pushed", async () => {
+        const env = createWorkerEnv();
+        const keys = await deriveSyncKeys("correct horse battery", SYNC_ID);
+        const handlers = createSyncReplicationHandlers({ collectionName: "inline_comment_drafts", keys, fetchImpl: workerFetch(env) });
+
+        await handlers.push([{ newDocumentState: { id: "draft-1", updatedAt: 20, _deleted: false, value: "newer" } }]);
+        const conflicts = await handlers.push([{ newDocumentState: { id: "draft-1", updatedAt: 5, _deleted: false, value: "older" } }]);
+
+        expect(conflicts).toEqual([{ id: "draft-1", updatedAt: 20, _deleted: false, value: "newer" }]);
+    });
+
+    test("rejects writes from a device that has not seen the stored document, whatever its clock says", async () => {
+        const env = createWorkerEnv();
+        const keys = await deriveSyncKeys("correct horse battery", SYNC_ID);
+        const handlers = createSyncReplicationHandlers({ collectionName: "inline_comment_drafts", keys, fetchImpl: workerFetch(env) });
+        const ahead = { id: "draft-1", updatedAt: 9_000_000_000_000, _deleted: false, value: "clock ahead" };
+
+        await handlers.push([{ newDocumentState: ahead }]);
+        const stale = await handlers.push([{ newDocumentState: { id: "draft-1", updatedAt: 9_500_000_000_000, _deleted: false, value: "stale" } }]);
+        const building = await handlers.push([
+            { newDocumentState: { id: "draft-1", updatedAt: 30, _deleted: false, value: "edited later" }, assumedMasterState: ahead },
+        ]);
+
+        expect(stale).toEqual([ahead]);
+        expect(building).toEqual([]);
+        expect((await handlers.pull(undefined, 50)).documents).toEqual([{ id: "draft-1", updatedAt: 30, _deleted: false, value: "edited later" }]);
+    });
+
+    test("keys the vault by sync ID as well as passphrase", async () => {
+        const syncId = createSyncId();
+        const keys = await deriveSyncKeys("correct horse battery", syncId);
+
+        expect(normalizeSyncId(` ${syncId.toUpperCase()} `)).toBe(syncId);
+        expect(normalizeSyncId("not-an-id")).toBe(null);
+        expect(keys.vaultId === (await deriveSyncKeys("correct horse battery", SYNC_ID)).vaultId).toBe(false);
+    });
+
+    test("derives keys that cannot be exported once stored", async () => {
+        const keys = await deriveSyncKeys("correct horse battery", SYNC_ID);
+
+        expect([keys.encryptionKey.extractable, keys.idKey.extractable]).toEqual([false, false]);
+    });
+
+    test("skips oversized documents without failing the rest of the batch", async () => {
+        const env = createWorkerEnv();
+        const keys = await deriveSyncKeys("correct horse battery", SYNC_ID);
+        const pushed: Array<{ storedIds: string[]; rejectedIds: string[] }> = [];
+        const handlers = createSyncReplicationHandlers({
+            collectionName: "inline_comment_drafts",
+            keys,
+            fetchImpl: workerFetch(env),
+            onPushed: (result) => pushed.push(result),
+        });
+
+        const conflicts = await handlers.push([
+            { newDocumentState: { id: "draft-huge", updatedAt: 1, _deleted: false, value: "x".repeat(600 * 1024) } },
+            { newDocumentState: { id: "draft-small", updatedAt: 2, _deleted: false, value: "ok" } },
+        ]);
+
+        expect(conflicts).toEqual([]);
+        expect(pushed).toEqual([{ storedIds: ["draft-small"], rejectedIds: ["draft-huge"] }]);
+        expect((await handlers.pull(undefined, 50)).documents.map((document) => document.id)).toEqual(["draft-small"]);
+    });
+
+    test("rejects data pulled with a different passphrase", async () => {
+        const env = createWorkerEnv();
+        const keys = await deriveSyncKeys("correct horse battery", SYNC_ID);
+        const handlers = createSyncReplicationHandlers({ collectionName: "inline_comment_drafts", keys, fetchImpl: workerFetch(env) });
+        await handlers.push([{ newDocumentState: { id: "draft-1", updatedAt: 1, _deleted: false } }]);
+
+        const otherKeys = await deriveSyncKeys("another passphrase", SYNC_ID);
+        const other = createSyncReplicationHandlers({ collectionName: "inline_comment_drafts", keys: otherKeys, fetchImpl: workerFetch(env) });
+
+        expect((await other.pull(undefined, 50)).documents).toEqual([]);
+        expect(otherKeys.vaultId === keys.vaultId).toBe(false);
+    });
+
+    test("reports sync as unavailable without a store binding", async () => {
+        const response = await worker.fetch(
+            new Request("https://pullrequest.review/api/sync/inline_comment_drafts/pull", {
+                method: "POST",
+                headers: { Origin: "https://pullrequest.review", "Content-Type": "application/json" },
+                body: "{}",
+            }),
+            { ASSETS: { fetch: async () => new Response("asset") } },
+        );
+
+        expect(response.status).toBe(503);
+    });
+});
@@ -0,0 +1,191 @@
+import { describe, expect, test } from "bun:test";
+import { parsePatchFiles } from "@pierre/diffs";
+import type { FileDiffMetadata } from "@pierre/diffs/react";
+import { analyzeStructuralDiff } from "../src/lib/structural-diff";
+
+function parse(diff: string) {
+    return parsePatchFiles(diff).flatMap((patch) => patch.files);
+}
+
+function analyze(diff: string, options = { structural: true, hideFormattingChanges: true, hideExactMoves: false }) {
+    return analyzeStructuralDiff(parse(diff), (fileDiff: FileDiffMetadata, index: number) => fileDiff.name ?? String(index), options);
+}
+
+const MOVED_FUNCTION_DIFF = [
+    "diff --git a/src/old.ts b/src/old.ts",
+    "--- a/src/old.ts",
+    "+++ b/src/old.ts",
+    "@@ -1,6 +1,3 @@",
+    " export const keep = true;",
+    "-export function total(items: number[]) {",
+    "-    const sum = items.reduce((a, b) => a + b, 0);",
+    "-    return sum;",
+    "-}",
+    "+export const other = false;",
+    " export const last = 1;",
+    "@@ -20,2 +17,2 @@",
+    " const a = 1;",
+    "-const b = 2;",
+    "+const b = 3;",
+    "diff --git a/src/new.ts b/src/new.ts",
+    "--- a/src/new.ts",
+    "+++ b/src/new.ts",
+    "@@ -1,1 +1,5 @@",
+    " import { keep } from './old';",
+    "+export function total(items: number[]) {",
+    "+    const sum = items.reduce((a, b) => a + b, 0);",
+    "+    return sum;",
+    "+}",
+    "",
+].join("\n");
+
+describe("analyzeStructuralDiff", () => {
+    test("collapses re-indentation hunks and keeps real changes", () => {
+        const result = analyze(
+            [
+                "diff --git a/config.json b/config.json",
+                "--- a/config.json",
+                "+++ b/config.json",
+                "@@ -1,3 +1,3 @@",
+                " {",
+                '-"retries": 3,',
+                '+    "retries": 3,',
+                ' "timeout": 5,',
+                "@@ -10,3 +10,3 @@",
+                ' "a": 1,',
+                '-"b": 2,',
+                '+"b": 3,',
+                ' "c": 4',
+                "",
+            ].join("\n"),
+        );
+        const [fileDiff] = result.fileDiffs;
+
+        expect(fileDiff.hunks.length).toBe(1);
+        expect(fileDiff.hunks[0].additionStart).toBe(10);
+        expect(fileDiff.hunks[0].collapsedBefore).toBe(9);
+        expect(result.labelsByPath.get("config.json")).toBeUndefined();
+    });
+
+    test("keeps formatting-only hunks visible where whitespace can carry meaning", () => {
+        const withRealChange = (path: string, before: string, after: string) => [
+            `diff --git a/${path} b/${path}`,
+            `--- a/${path}`,
+            `+++ b/${path}`,
+            "@@ -1 +1 @@",
+            `-${before}`,
+            `+${after}`,
+            "@@ -10 +10 @@",
+            "-a = 1",
+            "+a = 2",
+        ];
+        const result = analyze(
+            [
+                ...withRealChange("src/a.ts", "return value;", "return  value;"),
+                ...withRealChange("app.py", 'print( "ready" )', 'print("ready")'),
+                ...withRealChange("config.yaml", "title: Hello  world", "title: Hello world"),
+                "",
+            ].join("\n"),
+        );
+
+        expect(result.fileDiffs.map((fileDiff) => fileDiff.hunks.length)).toEqual([2, 2, 2]);
+        expect(result.labelsByPath.get("app.py")?.map((label) => label.label)).toEqual(["Formatting only"]);
+        expect(result.labelsByPath.get("config.yaml")?.map((label) => label.label)).toEqual(["Formatting only"]);
+    });
+
+    test("only labels re-indentation hunks unless formatting changes are hidden", () => {
+        const result = analyze(
+            [
+                "diff --git a/src/a.ts b/src/a.ts",
+                "--- a/src/a.ts",
+                "+++ b/src/a.ts",
+                "@@ -1,3 +1,3 @@",
+                " if (ready) {",
+                "-run();",
+                "+    run();",
+                " }",
+                "",
+            ].join("\n"),
+            { structural: true, hideFormattingChanges: false, hideExactMoves: false },
+        );
+
+        expect(result.fileDiffs[0].hunks.length).toBe(1);
+        expect(result.labelsByPath.get("src/a.ts")?.map((label) => label.label)).toEqual(["Formatting only"]);
+    });
+
+    test("keeps indentation changes in indentation-sensitive languages", () => {
+        const result = analyze(
+            ["diff --git a/app.py b/app.py", "--- a/app.py", "+++ b/app.py", "@@ -1,2 +1,2 @@", " if ready:", "-run()", "+    run()", ""].join("\n"),
+        );
+
+        expect(result.fileDiffs[0].hunks.length).toBe(1);
+        expect(result.labelsByPath.get("app.py")).toBeUndefined();
+    });
+
+    test("labels blocks moved between files with a link to the other end", () => {
+        const result = analyze(MOVED_FUNCTION_DIFF, { structural: false, hideFormattingChanges: false, hideExactMoves: false });
+
+        expect(result.labelsByPath.get("src/new.ts")).toEqual([
+            {
+                kind: "moved",
+                side: "additions",
+                lineNumber: 2,
+                label: "Moved from src/old.ts:2 (4 lines)",
+                target: { path: "src/old.ts", side: "deletions", lineNumber: 2 },
+            },
+        ]);
+        expect(result.labelsByPath.get("src/old.ts")).toEqual([
+            {
+                kind: "moved",
+                side: "deletions",
+                lineNumber: 2,
+                label: "Moved to src/new.ts:2 (4 lines)",
+                target: { path: "src/new.ts", side: "additions", lineNumber: 2 },
+            },
+        ]);
+    });
+
+    test("marks re-indented moves as edited", () => {
+        const result = analyze(MOVED_FUNCTION_DIFF.replace("+    const sum", "+  const sum"));
+
+        expect(result.labelsByPath.get("src/new.ts")?.[0]?.label).toBe("Moved with edits from src/old.ts:2 (4 lines)");
+    });
+
+    test("collapses hunks that only contain exact moves when requested", () => {
+        const pureMoveDiff = MOVED_FUNCTION_DIFF.replace("+export const other = false;\n", "").replace("+1,3 @@", "+1,2 @@");
+        const shown = analyze(pureMoveDiff, { structural: false, hideFormattingChanges: false, hideExactMoves: false });
+        const hidden = analyze(pureMoveDiff, { structural: false, hideFormattingChanges: false, hideExactMoves: true });
+
+        expect(shown.fileDiffs[0].hunks.length).toBe(2);
+        expect(hidden.fileDiffs[0].hunks.length).toBe(1);
+        expect(hidden.fileDiffs[0].hunks[0].additionStart).toBe(17);
+        expect(hidden.labelsByPath.get("src/old.ts")).toEqual([]);
+        // The destination is the whole file, so it stays visible.
+        expect(hidden.fileDiffs[1].hunks.length).toBe(1);
+    });
+
+    test("labels consistent identifier renames", () => {
+        const result = analyze(
+            [
+                "diff --git a/src/a.ts b/src/a.ts",
+                "--- a/src/a.ts",
+                "+++ b/src/a.ts",
+                "@@ -1,2 +1,2 @@",
+                "-const count = load(count);",
+                "-save(count);",
+                "+const total = load(total);",
+                "+save(total);",
+                "",
+            ].join("\n"),
+        );
+
+        expect(result.labelsByPath.get("src/a.ts")).toEqual([{ kind: "renamed", side: "additions", lineNumber: 1, label: "Renamed count → total" }]);
+    });
+
+    test("skips unsupported languages", () => {
+        const result = analyze(["diff --git a/notes.md b/notes.md", "--- a/notes.md", "+++ b/notes.md", "@@ -1 +1 @@", "-a  b", "+a b", ""].join("\n"));
+
+        expect(result.fileDiffs[0].hunks.length).toBe(1);
+        expect(result.labelsByPath.size).toBe(0);
+    });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, test } from "bun:test";
+import { computeStructuredFileDiff, supportsStructuredDiff } from "../src/lib/structured-diff";
+
+describe("structured file diff", () => {
+    test("reports key-path changes for JSON with comments and YAML", () => {
+        const json = computeStructuredFileDiff(
+            "tsconfig.json",
+            '{\n  // compiler\n  "compilerOptions": { "strict": false, "paths": { "@/*": ["src/*"] } },\n}',
+            '{ "compilerOptions": { "strict": true, "target": "es2022", "paths": { "@/*": ["src/*"] } } }',
+        );
+        expect(json.changes).toEqual([
+            { type: "changed", path: "compilerOptions.strict", before: "false", after: "true" },
+            { type: "added", path: "compilerOptions.target", after: '"es2022"' },
+        ]);
+
+        const yaml = computeStructuredFileDiff(
+            ".github/workflows/ci.yml",
+            "jobs:\n  test:\n    steps:\n      - run: bun test\n",
+            "jobs:\n  test:\n    steps:\n      - run: bun test\n      - run: bun run check\n",
+        );
+        expect(yaml.changes).toEqual([{ type: "added", path: "jobs.test.steps[1]", after: '{"run":"bun run check"}' }]);
+        expect(yaml.lockfile).toBeUndefined();
+    });
+
+    test("summarizes package versions in lockfiles", () => {
+        const before =
+            '{\n  "lockfileVersion": 1,\n  "packages": {\n    "react": ["react@19.1.0", "", {}, "sha"],\n    "left-pad": ["left-pad@1.3.0", "", {}, "sha"],\n  },\n}';
+        const after =
+            '{\n  "lockfileVersion": 1,\n  "packages": {\n    "react": ["react@19.2.0", "", {}, "sha"],\n    "@scope/util": ["@scope/util@2.0.0", "", {}, "sha"],\n  },\n}';
+
+        expect(computeStructuredFileDiff("bun.lock", before, after).lockfile).toEqual({
+            updated: [{ name: "react", before: ["19.1.0"], after: ["19.2.0"] }],
+            added: [{ name: "@scope/util", before: [], after: ["2.0.0"] }],
+            removed: [{ name: "left-pad", before: ["1.3.0"], after: [] }],
+        });
+    });
+
+    test("parses text lockfiles without key-path changes", () => {
+        const yarnBefore = '"react@^19.1.0":\n  version "19.1.0"\n\n"@babel/core@^7.0.0", "@babel/core@^7.1.0":\n  version "7.1.0"\n';
+        const yarnAfter = '"react@^19.2.0":\n  version "19.2.0"\n\n"@babel/core@^7.0.0", "@babel/core@^7.1.0":\n  version "7.1.0"\n';
+        const yarn = computeStructuredFileDiff("yarn.lock", yarnBefore, yarnAfter);
+        expect(yarn.changes).toEqual([]);
+        expect(yarn.lockfile?.updated).toEqual([{ name: "react", before: ["19.1.0"], after: ["19.2.0"] }]);
+
+        const cargo = computeStructuredFileDiff(
+            "Cargo.lock",
+            '[[package]]\nname = "serde"\nversion = "1.0.1"\n',
+            '[[package]]\nname = "serde"\nversion = "1.0.2"\n',
+        );
+        expect(cargo.lockfile?.updated).toEqual([{ name: "serde", before: ["1.0.1"], after: ["1.0.2"] }]);
+
+        const goSum = computeStructuredFileDiff(
+            "go.sum",
+            "golang.org/x/text v0.3.0 h1:abc=\ngolang.org/x/text v0.3.0/go.mod h1:def=\n",
+            "golang.org/x/text v0.4.0 h1:abc=\ngolang.org/x/text v0.4.0/go.mod h1:def=\ngolang.org/x/mod v0.1.0/go.mod h1:ghi=\n",
+        );
+        expect(goSum.lockfile).toEqual({
+            updated: [{ name: "golang.org/x/text", before: ["v0.3.0"], after: ["v0.4.0"] }],
+            added: [{ name: "golang.org/x/mod", before: [], after: ["v0.1.0"] }],
+            removed: [],
+        });
+    });
+
+    test("only offers the structured view for supported files", () => {
+        expect(supportsStructuredDiff("config/app.yaml")).toBe(true);
+        expect(supportsStructuredDiff("services/api/go.sum")).toBe(true);
+        expect(supportsStructuredDiff("src/index.ts")).toBe(false);
+    });
+});
@@ -1,7 +1,16 @@
 import { describe, expect, test } from "bun:test";
 import { parsePatchFiles } from "@pierre/diffs";
 import { bitbucketNormalization } from "../src/lib/git-host/providers/bitbucket/client";
-import { buildSuggestions, formatSuggestion, getSuggestionKey, getSuggestionOriginalContents, parseSuggestionMarkdown } from "../src/lib/git-host/suggestions";
+import {
+    applySuggestions,
+    buildSuggestions,
+    formatSuggestion,
+    getSuggestionKey,
+    getSuggestionOriginalContents,
+    getSuggestionReplacedContents,
+    parseSuggestionMarkdown,
+    suggestionSourceKey,
+} from "../src/lib/git-host/suggestions";
 
 describe("pull request suggestions", () => {
     test("formats the known-good Bitbucket one-line suggestion payload", () => {
@@ -161,6 +170,13 @@ describe("pull request suggestions", () => {
         expect(getSuggestionKey(suggestion)).toBe(JSON.stringify(["src/example.ts", 2, 2, "```suggestion\nTWO\n```\n\n‌"]));
     });
 
+    test("recovers the edited-from lines of each built suggestion for review", () => {
+        const originalContents = "one\ntwo\nthree\nfour\n";
+        const suggestions = buildSuggestions({ host: "github", path: "src/example.ts", originalContents, editedContents: "one\nTWO\nTHREE\nfour\n" });
+
+        expect(suggestions.map((suggestion) => getSuggestionReplacedContents(originalContents, suggestion.inline))).toEqual(["two\nthree\n"]);
+    });
+
     test("parses only a standalone suggestion fence while preserving its replacement newline", () => {
         expect(parseSuggestionMarkdown("````suggestion\n    const markdown = ` ``` `;\n````\n\n‌")).toBe("    const markdown = ` ``` `;\n");
         expect(parseSuggestionMarkdown("```suggestion\n```")).toBe("");
@@ -190,3 +206,84 @@ describe("pull request suggestions", () => {
         expect(getSuggestionOriginalContents({ to: 11 }, { ...fileDiff, isPartial: false })).toBeNull();
     });
 });
+
+describe("applying accepted suggestions", () => {
+    const contents = new Map([["src/example.ts", "one\ntwo\nthree\nfour"]]);
+    const written = new Map([
+        [suggestionSourceKey("head", "src/example.ts"), "one\ntwo\nthree\nfour"],
+        [suggestionSourceKey("old", "src/example.ts"), "uno\ntwo\nthree\nfour"],
+    ]);
+    const atHead = (startLine: number, endLine: number) => ({ commitHash: "head", startLine, endLine });
+
+    test("applies several suggestions in one file bottom-up", () => {
+        const result = applySuggestions(
+            [
+                { commentId: 1, path: "src/example.ts", startLine: 1, endLine: 1, writtenAt: atHead(1, 1), replacement: "ONE\nONE AND A HALF\n" },
+                { commentId: 2, path: "src/example.ts", startLine: 3, endLine: 4, writtenAt: atHead(3, 4), replacement: "THREE\n" },
+            ],
+            contents,
+            written,
+        );
+
+        expect(result.conflicts).toEqual([]);
+        expect(result.files).toEqual([
+            { path: "src/example.ts", before: "one\ntwo\nthree\nfour", after: "ONE\nONE AND A HALF\ntwo\nTHREE", commentIds: [1, 2] },
+        ]);
+    });
+
+    test("reports changed lines, overlapping ranges, and missing files as conflicts", () => {
+        const result = applySuggestions(
+            [
+                { commentId: 1, path: "src/example.ts", startLine: 2, endLine: 3, writtenAt: atHead(2, 3), replacement: "" },
+                { commentId: 2, path: "src/example.ts", startLine: 3, endLine: 3, writtenAt: atHead(3, 3), replacement: "3\n" },
+                {
+                    commentId: 3,
+                    path: "src/example.ts",
+                    startLine: 1,
+                    endLine: 1,
+                    writtenAt: { commitHash: "old", startLine: 1, endLine: 1 },
+                    replacement: "1\n",
+                },
+                { commentId: 4, path: "src/missing.ts", startLine: 1, endLine: 1, writtenAt: atHead(1, 1), replacement: "y\n" },
+            ],
+            contents,
+            written,
+        );
+
+        expect(result.files.map((file) => file.after)).toEqual(["one\ntwo\n3\nfour"]);
+        expect(result.conflicts).toEqual([
+            { commentId: 1, path: "src/example.ts", reason: "Overlaps another suggestion in this batch" },
+            { commentId: 3, path: "src/example.ts", reason: "The suggested lines changed since the suggestion was written" },
+            { commentId: 4, path: "src/missing.ts", reason: "The file no longer exists on the source branch" },
+        ]);
+    });
+
+    test("compares against the commit the comment was written on after the head moves", () => {
+        // Written against "old"; the head then gained a first line and rewrote "three".
+        const head = new Map([["src/example.ts", "zero\none\ntwo\nTHREE!\nfour\n"]]);
+        const writtenOld = new Map([[suggestionSourceKey("old", "src/example.ts"), "one\ntwo\nthree\nfour\n"]]);
+        const at = (startLine: number, endLine: number) => ({ commitHash: "old", startLine, endLine });
+        const result = applySuggestions(
+            [
+                { commentId: 1, path: "src/example.ts", startLine: 2, endLine: 2, writtenAt: at(1, 1), replacement: "ONE\n" },
+                { commentId: 2, path: "src/example.ts", startLine: 4, endLine: 4, writtenAt: at(3, 3), replacement: "3\n" },
+                {
+                    commentId: 3,
+                    path: "src/example.ts",
+                    startLine: 5,
+                    endLine: 5,
+                    writtenAt: { commitHash: "gone", startLine: 4, endLine: 4 },
+                    replacement: "4\n",
+                },
+            ],
+            head,
+            writtenOld,
+        );
+
+        expect(result.files.map((file) => file.after)).toEqual(["zero\nONE\ntwo\nTHREE!\nfour\n"]);
+        expect(result.conflicts).toEqual([
+            { commentId: 3, path: "src/example.ts", reason: "The commit the suggestion was written against is unavailable" },
+            { commentId: 2, path: "src/example.ts", reason: "The suggested lines changed since the suggestion was written" },
+        ]);
+    });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, test } from "bun:test";
+import { parsePatchFiles } from "@pierre/diffs";
+import { splitFileIntoLines } from "../src/features/review/model/review-page-controller-helpers";
+import { applyIgnoreWhitespace } from "../src/lib/whitespace-diff";
+
+const OLD_FILE = ["function load() {", "  const a = 1;  ", "  return a;", "}", "", "", "export const b = 2;", ""].join("\n");
+const NEW_FILE = ["function load() {", "    const a = 1;", "    return a;", "}", "", "export const b = 3;", ""].join("\n");
+
+function hostDiff() {
+    const [fileDiff] = parsePatchFiles(
+        [
+            "diff --git a/src/load.ts b/src/load.ts",
+            "--- a/src/load.ts",
+            "+++ b/src/load.ts",
+            "@@ -1,7 +1,6 @@",
+            " function load() {",
+            "-  const a = 1;  ",
+            "-  return a;",
+            "+    const a = 1;",
+            "+    return a;",
+            " }",
+            " ",
+            "-",
+            "-export const b = 2;",
+            "+export const b = 3;",
+            "",
+        ].join("\n"),
+    ).flatMap((patch) => patch.files);
+    return fileDiff;
+}
+
+const context = { oldLines: splitFileIntoLines(OLD_FILE), newLines: splitFileIntoLines(NEW_FILE) };
+
+function changedLines(fileDiff: ReturnType<typeof hostDiff>) {
+    return fileDiff.hunks.flatMap((hunk) =>
+        hunk.hunkContent.flatMap((content) =>
+            content.type === "change"
+                ? [
+                      ...fileDiff.deletionLines.slice(content.deletionLineIndex, content.deletionLineIndex + content.deletions).map((line) => `-${line}`),
+                      ...fileDiff.additionLines.slice(content.additionLineIndex, content.additionLineIndex + content.additions).map((line) => `+${line}`),
+                  ]
+                : [],
+        ),
+    );
+}
+
+describe("applyIgnoreWhitespace", () => {
+    test("keeps the host diff when whitespace is not ignored", () => {
+        const fileDiff = hostDiff();
+
+        expect(applyIgnoreWhitespace(fileDiff, context, "none")).toBe(fileDiff);
+    });
+
+    test("ignores indentation changes against the real file lines", () => {
+        const result = applyIgnoreWhitespace(hostDiff(), context, "all");
+
+        expect(result.isPartial).toBe(false);
+        expect(result.additionLines).toEqual(context.newLines);
+        expect(changedLines(result)).toEqual(["-\n", "-export const b = 2;\n", "+export const b = 3;\n"]);
+        const change = result.hunks[0].hunkContent.find((content) => content.type === "change");
+        expect(change?.type === "change" ? change.additionLineIndex : -1).toBe(5);
+    });
+
+    test("only ignores trailing whitespace in trailing mode", () => {
+        const result = applyIgnoreWhitespace(hostDiff(), context, "trailing");
+
+        expect(changedLines(result)).toContain("-  const a = 1;  \n");
+        expect(changedLines(result)).toContain("+    const a = 1;\n");
+    });
+
+    test("hides hunks that only add or remove blank lines", () => {
+        const middle = ["c", "d", "e", "f", "g", "h", "i", "k", "l", "m"];
+        const oldFile = ["a", "b", "", "", ...middle, "j"].join("\n");
+        const newFile = ["a", "b", "", ...middle, "J"].join("\n");
+        const [fileDiff] = parsePatchFiles(
+            [
+                "diff --git a/x.ts b/x.ts",
+                "--- a/x.ts",
+                "+++ b/x.ts",
+                "@@ -15 +14 @@",
+                "-j",
+                "\\ No newline at end of file",
+                "+J",
+                "\\ No newline at end of file",
+                "",
+            ].join("\n"),
+        ).flatMap((patch) => patch.files);
+
+        const result = applyIgnoreWhitespace(fileDiff, { oldLines: splitFileIntoLines(oldFile), newLines: splitFileIntoLines(newFile) }, "blank-lines");
+
+        expect(result.hunks.length).toBe(1);
+        expect(changedLines(result)).toEqual(["-j", "+J"]);
+        expect(result.hunks[0].additionStart).toBe(11);
+    });
+});
@@ -5,7 +5,7 @@ import tailwindcss from "@tailwindcss/vite";
 import { tanstackStart } from "@tanstack/react-start/plugin/vite";
 import viteReact from "@vitejs/plugin-react";
 import { defineConfig, loadEnv } from "vite";
-import { bitbucketOAuthDevPlugin } from "./vite/bitbucket-oauth-dev-plugin";
+import { oauthDevPlugin } from "./vite/oauth-dev-plugin";
 
 function loadWranglerDevVars() {
     try {
@@ -31,9 +31,11 @@ export default defineConfig(({ command, mode }) => {
             tsconfigPaths: true,
         },
         plugins: [
-            bitbucketOAuthDevPlugin({
+            oauthDevPlugin({
                 BITBUCKET_OAUTH_CLIENT_ID: env.BITBUCKET_OAUTH_CLIENT_ID,
                 BITBUCKET_OAUTH_CLIENT_SECRET: env.BITBUCKET_OAUTH_CLIENT_SECRET,
+                GITHUB_OAUTH_CLIENT_ID: env.GITHUB_OAUTH_CLIENT_ID,
+                GITHUB_OAUTH_CLIENT_SECRET: env.GITHUB_OAUTH_CLIENT_SECRET,
             }),
             tanstackStart({
                 spa: {
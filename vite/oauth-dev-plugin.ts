@@ -1,6 +1,6 @@
 import type { IncomingMessage, ServerResponse } from "node:http";
 import type { Plugin } from "vite";
-import { type BitbucketOAuthEnv, handleBitbucketOAuthRequest } from "../src/worker";
+import { handleOAuthRequest, type OAuthEnv } from "../src/worker";
 
 const MAX_DEV_REQUEST_BODY_BYTES = 64 * 1024;
 
@@ -55,19 +55,19 @@ async function writeNodeResponse(response: Response, target: ServerResponse) {
     target.end(new Uint8Array(await response.arrayBuffer()));
 }
 
-export function bitbucketOAuthDevPlugin(env: BitbucketOAuthEnv): Plugin {
+export function oauthDevPlugin(env: OAuthEnv): Plugin {
     return {
-        name: "pullrequestdotreview-bitbucket-oauth-dev",
+        name: "pullrequestdotreview-oauth-dev",
         apply: "serve",
         configureServer(server) {
             server.middlewares.use((request, response, next) => {
-                if (!request.url?.startsWith("/api/auth/bitbucket/")) {
+                if (!request.url?.startsWith("/api/auth/")) {
                     next();
                     return;
                 }
 
                 void toFetchRequest(request)
-                    .then((fetchRequest) => handleBitbucketOAuthRequest(fetchRequest, env))
+                    .then((fetchRequest) => handleOAuthRequest(fetchRequest, env))
                     .then((oauthResponse) => {
                         if (!oauthResponse) {
                             next();